@@ -0,0 +1,60 @@
+-- Full-text search of notes and tag names. Tag names live in other tables, so
+-- search_vector is kept up to date by triggers instead of a generated column.
+-- Prisma doesn't manage triggers, so this runs after the migrations on every
+-- setup and deploy (npm run db:search); every statement can be run again.
+
+ALTER TABLE costs ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION cost_search_vector(p_cost_id integer, p_notes text) RETURNS tsvector AS $$
+  SELECT to_tsvector('english', coalesce(p_notes, '') || ' ' || coalesce((
+    SELECT string_agg(t.name, ' ')
+    FROM cost_tags ct
+    JOIN tags t ON t.id = ct.tag_id
+    WHERE ct.cost_id = p_cost_id
+  ), ''))
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION costs_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector := cost_search_vector(NEW.id, NEW.notes);
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_costs_search_vector ON costs;
+CREATE TRIGGER trg_costs_search_vector
+  BEFORE INSERT OR UPDATE OF notes ON costs
+  FOR EACH ROW EXECUTE FUNCTION costs_search_vector_trigger();
+
+-- Tagging or untagging a cost
+CREATE OR REPLACE FUNCTION cost_tags_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  UPDATE costs SET search_vector = cost_search_vector(id, notes)
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.cost_id ELSE NEW.cost_id END;
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_cost_tags_search_vector ON cost_tags;
+CREATE TRIGGER trg_cost_tags_search_vector
+  AFTER INSERT OR DELETE ON cost_tags
+  FOR EACH ROW EXECUTE FUNCTION cost_tags_search_vector_trigger();
+
+-- Renaming a tag
+CREATE OR REPLACE FUNCTION tags_search_vector_trigger() RETURNS trigger AS $$
+BEGIN
+  UPDATE costs SET search_vector = cost_search_vector(id, notes)
+  WHERE id IN (SELECT cost_id FROM cost_tags WHERE tag_id = NEW.id);
+  RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_tags_search_vector ON tags;
+CREATE TRIGGER trg_tags_search_vector
+  AFTER UPDATE OF name ON tags
+  FOR EACH ROW EXECUTE FUNCTION tags_search_vector_trigger();
+
+-- Costs from before the triggers
+UPDATE costs SET search_vector = cost_search_vector(id, notes) WHERE search_vector IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_costs_search_vector ON costs USING GIN (search_vector);
\ No newline at end of file
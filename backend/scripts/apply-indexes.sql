@@ -3,18 +3,27 @@
 
 -- Create indexes for frequently queried columns
 CREATE INDEX IF NOT EXISTS idx_costs_year_month ON costs(year, month);
-CREATE INDEX IF NOT EXISTS idx_costs_category ON costs(category);
+CREATE INDEX IF NOT EXISTS idx_costs_category ON costs(category_id);
 CREATE INDEX IF NOT EXISTS idx_costs_created_at ON costs(created_at);
 CREATE INDEX IF NOT EXISTS idx_costs_updated_at ON costs(updated_at);
 
 -- Composite index for trend queries
-CREATE INDEX IF NOT EXISTS idx_costs_year_month_category ON costs(year, month, category);
+CREATE INDEX IF NOT EXISTS idx_costs_year_month_category ON costs(year, month, category_id);
 
 -- Index for amount-based queries (filtering by amount ranges)
 CREATE INDEX IF NOT EXISTS idx_costs_amount ON costs(amount);
 
 -- Composite index for date range queries
-CREATE INDEX IF NOT EXISTS idx_costs_year_category ON costs(year, category);
+CREATE INDEX IF NOT EXISTS idx_costs_year_category ON costs(year, category_id);
+
+-- Tenant-scoped queries filter on organization first
+CREATE INDEX IF NOT EXISTS idx_costs_organization_year_month ON costs(organization_id, year, month);
+
+-- Filtering by cost center
+CREATE INDEX IF NOT EXISTS idx_costs_cost_center ON costs(cost_center_id);
+
+-- A category's line items for a period
+CREATE INDEX IF NOT EXISTS idx_costs_organization_category_period ON costs(organization_id, category_id, year, month);
 
 -- Verify indexes were created
 SELECT 
@@ -0,0 +1,47 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Create an organization and optionally add existing users to it
+ * Usage: npm run organization:create -- <name> <slug> [member-email...]
+ */
+
+import { logger } from '../src/utils/logger';
+import { prisma, disconnectDatabase } from '../src/config/database';
+import { OrganizationService } from '../src/services/organizationService';
+
+async function createOrganization(): Promise<void> {
+  const [name, slug, ...memberEmails] = process.argv.slice(2);
+
+  if (!name || !slug || !/^[a-z0-9-]+$/i.test(slug)) {
+    logger.error('Usage: npm run organization:create -- <name> <slug> [member-email...]');
+    process.exit(1);
+  }
+
+  const organization = await OrganizationService.createOrganization(name, slug);
+  logger.info(`Organization created: ${organization.name} (id ${organization.id}, slug ${organization.slug})`);
+
+  for (const email of memberEmails) {
+    const user = await prisma.user.findUnique({ where: { email: email.toLowerCase() } });
+
+    if (!user) {
+      logger.warn(`No user with email ${email}; skipping`);
+      continue;
+    }
+
+    await OrganizationService.addMember(organization.id, user.id);
+    logger.info(`Added ${user.email} to ${organization.slug}`);
+  }
+}
+
+if (require.main === module) {
+  createOrganization()
+    .catch(error => {
+      logger.error('Failed to create organization:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => {
+      disconnectDatabase();
+    });
+}
+
+export { createOrganization };
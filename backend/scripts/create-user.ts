@@ -0,0 +1,51 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Create a user account
+ * Usage: npm run user:create -- <email> <name> <password> [viewer|editor|admin] [organization-slug]
+ */
+
+import { UserRole } from '@prisma/client';
+import { logger } from '../src/utils/logger';
+import { AuthService } from '../src/services/authService';
+import { OrganizationService } from '../src/services/organizationService';
+import { disconnectDatabase } from '../src/config/database';
+
+async function createUser(): Promise<void> {
+  const [email, name, password, roleArg = 'viewer', organizationSlug] = process.argv.slice(2);
+  const role = roleArg.toUpperCase() as UserRole;
+
+  if (!email || !name || !password || !Object.values(UserRole).includes(role)) {
+    logger.error('Usage: npm run user:create -- <email> <name> <password> [viewer|editor|admin] [organization-slug]');
+    process.exit(1);
+  }
+
+  if (password.length < 12) {
+    logger.error('Password must be at least 12 characters long');
+    process.exit(1);
+  }
+
+  // Resolve the organization first so a typo does not leave behind a user with no organization
+  const organization = organizationSlug ? await OrganizationService.getBySlug(organizationSlug) : undefined;
+
+  const user = await AuthService.createUser(email, name, password, role);
+  logger.info(`User created: ${user.email} (id ${user.id}, role ${user.role})`);
+
+  if (organization) {
+    await OrganizationService.addMember(organization.id, user.id);
+    logger.info(`Added ${user.email} to organization ${organization.slug}`);
+  }
+}
+
+if (require.main === module) {
+  createUser()
+    .catch(error => {
+      logger.error('Failed to create user:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => {
+      disconnectDatabase();
+    });
+}
+
+export { createUser };
@@ -124,8 +124,18 @@ async function checkQueryMonitoring(): Promise<HealthCheckResult> {
 
 async function checkArchiveService(): Promise<HealthCheckResult> {
   try {
+    // Archive statistics are per organization, so check against the first one
+    const organization = await prisma.organization.findFirst({ orderBy: { id: 'asc' } });
+    if (!organization) {
+      return {
+        component: 'Archive Service',
+        status: 'WARN',
+        message: 'No organizations exist yet'
+      };
+    }
+
     // Test archive statistics (this will create the archive table if it doesn't exist)
-    const stats = await ArchiveService.getArchiveStats();
+    const stats = await ArchiveService.getArchiveStats(organization.id);
     
     return {
       component: 'Archive Service',
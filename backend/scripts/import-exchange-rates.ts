@@ -0,0 +1,38 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Load exchange rates from a CSV file with base_currency, quote_currency, rate
+ * and effective_date columns
+ * Usage: npm run exchange-rates:import -- <file.csv>
+ */
+
+import { readFileSync } from 'fs';
+import { logger } from '../src/utils/logger';
+import { disconnectDatabase } from '../src/config/database';
+import { ExchangeRateService } from '../src/services/exchangeRateService';
+
+async function importExchangeRates(): Promise<void> {
+  const [file] = process.argv.slice(2);
+
+  if (!file) {
+    logger.error('Usage: npm run exchange-rates:import -- <file.csv>');
+    process.exit(1);
+  }
+
+  const rates = ExchangeRateService.parseCsv(readFileSync(file, 'utf8'));
+  const importedCount = await ExchangeRateService.importRates(rates);
+  logger.info(`Loaded ${importedCount} exchange rates from ${file}`);
+}
+
+if (require.main === module) {
+  importExchangeRates()
+    .catch(error => {
+      logger.error('Failed to import exchange rates:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => {
+      disconnectDatabase();
+    });
+}
+
+export { importExchangeRates };
@@ -0,0 +1,92 @@
+-- Move expense categories from the ExpenseCategory enum into the categories table.
+-- Run once against an existing database before `prisma db push`, which would
+-- otherwise drop the old category columns together with their data:
+--   psql $DATABASE_URL -f scripts/migrate-categories.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS categories (
+    id SERIAL PRIMARY KEY,
+    organization_id INTEGER NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    color VARCHAR(7) NOT NULL,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    archived_at TIMESTAMPTZ(6),
+    created_at TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMPTZ(6) NOT NULL,
+    UNIQUE (organization_id, name)
+);
+
+-- Every organization gets the categories the enum used to provide
+INSERT INTO categories (organization_id, name, color, display_order, updated_at)
+SELECT o.id, d.name, d.color, d.display_order, CURRENT_TIMESTAMP
+FROM organizations o
+CROSS JOIN (VALUES
+    ('Salaries', '#8884d8', 0),
+    ('Software & Tools', '#82ca9d', 1),
+    ('Infrastructure & Hosting', '#ffc658', 2),
+    ('Hardware & Equipment', '#ff7c7c', 3),
+    ('Security & Compliance', '#8dd1e1', 4),
+    ('Operational & Administrative', '#d084d0', 5),
+    ('Continuous Learning & R&D', '#ffb347', 6)
+) AS d(name, color, display_order)
+ON CONFLICT (organization_id, name) DO NOTHING;
+
+-- Point each table at its organization's category of the same name
+ALTER TABLE costs ADD COLUMN IF NOT EXISTS category_id INTEGER;
+UPDATE costs t SET category_id = c.id
+FROM categories c
+WHERE c.organization_id = t.organization_id AND c.name = t.category::text;
+
+ALTER TABLE budgets ADD COLUMN IF NOT EXISTS category_id INTEGER;
+UPDATE budgets t SET category_id = c.id
+FROM categories c
+WHERE c.organization_id = t.organization_id AND c.name = t.category::text;
+
+ALTER TABLE budget_alert_rules ADD COLUMN IF NOT EXISTS category_id INTEGER;
+UPDATE budget_alert_rules t SET category_id = c.id
+FROM categories c
+WHERE c.organization_id = t.organization_id AND c.name = t.category::text;
+
+ALTER TABLE budget_alerts ADD COLUMN IF NOT EXISTS category_id INTEGER;
+UPDATE budget_alerts t SET category_id = c.id
+FROM categories c
+WHERE c.organization_id = t.organization_id AND c.name = t.category::text;
+
+ALTER TABLE cost_audit_logs ADD COLUMN IF NOT EXISTS category_id INTEGER;
+UPDATE cost_audit_logs t SET category_id = c.id
+FROM categories c
+WHERE c.organization_id = t.organization_id AND c.name = t.category::text;
+
+-- The archive table is created on demand, so it may not exist yet
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT FROM information_schema.columns
+        WHERE table_name = 'costs_archive' AND column_name = 'category'
+    ) THEN
+        ALTER TABLE costs_archive ADD COLUMN IF NOT EXISTS category_id INTEGER;
+        UPDATE costs_archive t SET category_id = c.id
+        FROM categories c
+        WHERE c.organization_id = t.organization_id AND c.name = t.category;
+        ALTER TABLE costs_archive DROP COLUMN category;
+        DROP INDEX IF EXISTS idx_costs_archive_category;
+        CREATE INDEX idx_costs_archive_category ON costs_archive(category_id);
+    END IF;
+END $$;
+
+-- Drop the old columns; the unique constraints and indexes built on them go too
+-- and are recreated on category_id by `prisma db push`
+ALTER TABLE costs DROP COLUMN category;
+ALTER TABLE budgets DROP COLUMN category;
+ALTER TABLE budget_alert_rules DROP COLUMN category;
+ALTER TABLE budget_alerts DROP COLUMN category;
+ALTER TABLE cost_audit_logs DROP COLUMN category;
+DROP TYPE IF EXISTS "ExpenseCategory";
+
+ALTER TABLE costs ALTER COLUMN category_id SET NOT NULL;
+ALTER TABLE budgets ALTER COLUMN category_id SET NOT NULL;
+ALTER TABLE budget_alerts ALTER COLUMN category_id SET NOT NULL;
+ALTER TABLE cost_audit_logs ALTER COLUMN category_id SET NOT NULL;
+
+COMMIT;
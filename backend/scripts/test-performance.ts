@@ -33,7 +33,7 @@ const performanceTests: PerformanceTest[] = [
     name: 'Query by category (should use idx_costs_category)',
     query: () => prisma.cost.findMany({
       where: {
-        category: 'SALARIES'
+        categoryId: 1
       }
     }),
     expectedMaxTime: 100
@@ -44,7 +44,7 @@ const performanceTests: PerformanceTest[] = [
       where: {
         year: { gte: 2023 },
         month: { gte: 1 },
-        category: 'SOFTWARE_TOOLS'
+        categoryId: 2
       },
       orderBy: [
         { year: 'asc' },
@@ -0,0 +1,251 @@
+import request from 'supertest';
+import { Application } from 'express';
+import { createTestApp, createAuthHeader } from '../utils/testServer';
+import {
+  setupTestDb,
+  cleanupTestDb,
+  seedTestData,
+  createTestOrganization,
+  createTestUser,
+  getTestCategoryId,
+  getTestDb
+} from '../utils/testDb';
+import { trendTestData, TestCategory } from '../fixtures/testData';
+import { UserRole } from '../../types/auth';
+import { HttpStatus } from '../../types/api';
+
+describe('Budget API Endpoints', () => {
+  let app: Application;
+  let organizationId: number;
+  let otherOrganizationId: number;
+  let authHeader: Record<string, string>;
+  let viewerHeader: Record<string, string>;
+  let adminHeader: Record<string, string>;
+  let salariesId: number;
+  let monthlyBudget: { categoryId: number; amount: number; month: number; year: number };
+
+  beforeAll(async () => {
+    app = createTestApp();
+    await setupTestDb();
+
+    const organization = await createTestOrganization('budget-acme');
+    const otherOrganization = await createTestOrganization('budget-globex');
+    organizationId = organization.id;
+    otherOrganizationId = otherOrganization.id;
+
+    salariesId = await getTestCategoryId(organizationId, TestCategory.SALARIES);
+    monthlyBudget = { categoryId: salariesId, amount: 48000, month: 1, year: 2024 };
+
+    const editor = await createTestUser('budget-editor@example.com', UserRole.EDITOR, [organizationId]);
+    const viewer = await createTestUser('budget-viewer@example.com', UserRole.VIEWER, [organizationId]);
+    authHeader = createAuthHeader(editor, organizationId);
+    const admin = await createTestUser('budget-admin@example.com', UserRole.ADMIN, [organizationId]);
+    viewerHeader = createAuthHeader(viewer, organizationId);
+    adminHeader = createAuthHeader(admin, organizationId);
+  });
+
+  afterAll(async () => {
+    await cleanupTestDb();
+  });
+
+  beforeEach(async () => {
+    const prisma = getTestDb();
+    await prisma.budget.deleteMany({});
+    await prisma.cost.deleteMany({});
+  });
+
+  describe('POST /api/budgets', () => {
+    it('should create a monthly budget', async () => {
+      const response = await request(app)
+        .post('/api/budgets')
+        .set(authHeader)
+        .send(monthlyBudget)
+        .expect(HttpStatus.CREATED);
+
+      expect(response.body.data).toMatchObject(monthlyBudget);
+      expect(response.body.message).toBe('Budget created successfully');
+    });
+
+    it('should create a yearly total when no month is given', async () => {
+      const response = await request(app)
+        .post('/api/budgets')
+        .set(authHeader)
+        .send({ categoryId: salariesId, amount: 600000, year: 2024 })
+        .expect(HttpStatus.CREATED);
+
+      expect(response.body.data.month).toBeNull();
+    });
+
+    it('should reject a second budget for the same period', async () => {
+      await request(app).post('/api/budgets').set(authHeader).send(monthlyBudget);
+
+      await request(app)
+        .post('/api/budgets')
+        .set(authHeader)
+        .send(monthlyBudget)
+        .expect(HttpStatus.CONFLICT);
+    });
+
+    it('should reject a second yearly total for the same category', async () => {
+      const yearly = { categoryId: salariesId, amount: 600000, year: 2024 };
+      await request(app).post('/api/budgets').set(authHeader).send(yearly);
+
+      await request(app)
+        .post('/api/budgets')
+        .set(authHeader)
+        .send(yearly)
+        .expect(HttpStatus.CONFLICT);
+    });
+
+    it('should reject a category of another organization', async () => {
+      const otherSalariesId = await getTestCategoryId(otherOrganizationId, TestCategory.SALARIES);
+
+      await request(app)
+        .post('/api/budgets')
+        .set(authHeader)
+        .send({ ...monthlyBudget, categoryId: otherSalariesId })
+        .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+    });
+
+    it('should return 403 when a viewer tries to create a budget', async () => {
+      await request(app)
+        .post('/api/budgets')
+        .set(viewerHeader)
+        .send(monthlyBudget)
+        .expect(HttpStatus.FORBIDDEN);
+    });
+  });
+
+  describe('PUT and DELETE /api/budgets/:id', () => {
+    it('should update and then delete a budget', async () => {
+      const created = await request(app).post('/api/budgets').set(authHeader).send(monthlyBudget);
+      const id = created.body.data.id;
+
+      const updated = await request(app)
+        .put(`/api/budgets/${id}`)
+        .set(authHeader)
+        .send({ amount: 50000 })
+        .expect(HttpStatus.OK);
+      expect(updated.body.data.amount).toBe(50000);
+
+      await request(app).delete(`/api/budgets/${id}`).set(authHeader).expect(HttpStatus.OK);
+      await request(app).get(`/api/budgets/${id}`).set(authHeader).expect(HttpStatus.NOT_FOUND);
+    });
+
+    it('should not expose budgets of another organization', async () => {
+      const budget = await getTestDb().budget.create({
+        data: {
+          ...monthlyBudget,
+          categoryId: await getTestCategoryId(otherOrganizationId, TestCategory.SALARIES),
+          organizationId: otherOrganizationId
+        }
+      });
+
+      await request(app)
+        .put(`/api/budgets/${budget.id}`)
+        .set(authHeader)
+        .send({ amount: 1 })
+        .expect(HttpStatus.NOT_FOUND);
+    });
+  });
+
+  describe('Alert rules', () => {
+    const webhookRule = {
+      thresholdPercent: 80,
+      channel: 'WEBHOOK',
+      target: 'https://hooks.example.com/budget'
+    };
+
+    it('should let admins create alert rules', async () => {
+      const response = await request(app)
+        .post('/api/budgets/alert-rules')
+        .set(adminHeader)
+        .send(webhookRule)
+        .expect(HttpStatus.CREATED);
+
+      expect(response.body.data).toMatchObject({
+        ...webhookRule,
+        categoryId: null,
+        category: null,
+        isActive: true
+      });
+    });
+
+    it('should return 403 when an editor tries to create an alert rule', async () => {
+      await request(app)
+        .post('/api/budgets/alert-rules')
+        .set(authHeader)
+        .send(webhookRule)
+        .expect(HttpStatus.FORBIDDEN);
+    });
+
+    it('should reject an email rule without an email address', async () => {
+      await request(app)
+        .post('/api/budgets/alert-rules')
+        .set(adminHeader)
+        .send({ ...webhookRule, channel: 'EMAIL' })
+        .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+    });
+  });
+
+  describe('GET /api/budgets/variance', () => {
+    beforeEach(async () => {
+      await seedTestData(trendTestData, organizationId);
+    });
+
+    it('should compare a month against its monthly budgets', async () => {
+      await request(app).post('/api/budgets').set(authHeader).send(monthlyBudget);
+
+      const response = await request(app)
+        .get('/api/budgets/variance?year=2024&month=1')
+        .set(viewerHeader)
+        .expect(HttpStatus.OK);
+
+      const salaries = response.body.data.categories.find(
+        (item: any) => item.category === TestCategory.SALARIES
+      );
+      expect(salaries).toEqual({
+        categoryId: salariesId,
+        category: TestCategory.SALARIES,
+        color: '#8884d8',
+        budget: 48000,
+        actual: 50000,
+        variance: 2000,
+        variancePercent: expect.closeTo(4.1667, 3)
+      });
+
+      const software = response.body.data.categories.find(
+        (item: any) => item.category === TestCategory.SOFTWARE_TOOLS
+      );
+      expect(software.budget).toBe(0);
+      expect(software.variancePercent).toBeNull();
+    });
+
+    it('should compare a year against its yearly total', async () => {
+      await request(app).post('/api/budgets').set(authHeader).send(monthlyBudget);
+      await request(app)
+        .post('/api/budgets')
+        .set(authHeader)
+        .send({ categoryId: salariesId, amount: 160000, year: 2024 });
+
+      const response = await request(app)
+        .get('/api/budgets/variance?year=2024')
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+
+      const salaries = response.body.data.categories.find(
+        (item: any) => item.category === TestCategory.SALARIES
+      );
+      expect(salaries.budget).toBe(160000);
+      expect(salaries.actual).toBe(153000);
+      expect(salaries.variance).toBe(-7000);
+    });
+
+    it('should require a year', async () => {
+      await request(app)
+        .get('/api/budgets/variance')
+        .set(authHeader)
+        .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+    });
+  });
+});
\ No newline at end of file
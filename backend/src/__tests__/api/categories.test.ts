@@ -0,0 +1,247 @@
+import request from 'supertest';
+import { Application } from 'express';
+import { createTestApp, createAuthHeader } from '../utils/testServer';
+import {
+  setupTestDb,
+  cleanupTestDb,
+  createTestOrganization,
+  createTestUser,
+  getTestCategoryId,
+  getTestDb
+} from '../utils/testDb';
+import { validExpenseData, TestCategory } from '../fixtures/testData';
+import { DEFAULT_CATEGORIES } from '../../config/categories';
+import { UserRole } from '../../types/auth';
+import { HttpStatus } from '../../types/api';
+
+describe('Category API Endpoints', () => {
+  let app: Application;
+  let organizationId: number;
+  let otherOrganizationId: number;
+  let authHeader: Record<string, string>;
+  let viewerHeader: Record<string, string>;
+
+  beforeAll(async () => {
+    app = createTestApp();
+    await setupTestDb();
+
+    const organization = await createTestOrganization('category-acme');
+    const otherOrganization = await createTestOrganization('category-globex');
+    organizationId = organization.id;
+    otherOrganizationId = otherOrganization.id;
+
+    const editor = await createTestUser('category-editor@example.com', UserRole.EDITOR, [organizationId]);
+    const viewer = await createTestUser('category-viewer@example.com', UserRole.VIEWER, [organizationId]);
+    authHeader = createAuthHeader(editor, organizationId);
+    viewerHeader = createAuthHeader(viewer, organizationId);
+  });
+
+  afterAll(async () => {
+    await cleanupTestDb();
+  });
+
+  beforeEach(async () => {
+    const prisma = getTestDb();
+    await prisma.cost.deleteMany({});
+    // Put the default categories back the way a new organization has them
+    await prisma.category.deleteMany({
+      where: { organizationId, name: { notIn: DEFAULT_CATEGORIES.map(category => category.name) } }
+    });
+    await prisma.category.updateMany({ where: { organizationId }, data: { archivedAt: null, parentId: null } });
+  });
+
+  describe('GET /api/categories', () => {
+    it('should list the default categories in display order', async () => {
+      const response = await request(app)
+        .get('/api/categories')
+        .set(viewerHeader)
+        .expect(HttpStatus.OK);
+
+      expect(response.body.data.map((category: any) => category.name)).toEqual(
+        DEFAULT_CATEGORIES.map(category => category.name)
+      );
+      expect(response.body.data[0]).toMatchObject({ color: '#8884d8', displayOrder: 0, archived: false });
+    });
+
+    it('should hide archived categories unless asked for them', async () => {
+      const id = await getTestCategoryId(organizationId, TestCategory.HARDWARE_EQUIPMENT);
+      await request(app).delete(`/api/categories/${id}`).set(authHeader).expect(HttpStatus.OK);
+
+      const active = await request(app).get('/api/categories').set(authHeader).expect(HttpStatus.OK);
+      expect(active.body.data.map((category: any) => category.id)).not.toContain(id);
+
+      const all = await request(app)
+        .get('/api/categories?includeArchived=true')
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+      expect(all.body.data.find((category: any) => category.id === id).archived).toBe(true);
+    });
+  });
+
+  describe('POST /api/categories', () => {
+    it('should create a category after the existing ones', async () => {
+      const response = await request(app)
+        .post('/api/categories')
+        .set(authHeader)
+        .send({ name: 'Travel', color: '#123abc' })
+        .expect(HttpStatus.CREATED);
+
+      expect(response.body.data).toMatchObject({
+        name: 'Travel',
+        color: '#123abc',
+        displayOrder: DEFAULT_CATEGORIES.length,
+        archived: false
+      });
+    });
+
+    it('should reject a duplicate name', async () => {
+      await request(app)
+        .post('/api/categories')
+        .set(authHeader)
+        .send({ name: TestCategory.SALARIES, color: '#123abc' })
+        .expect(HttpStatus.CONFLICT);
+    });
+
+    it('should reject a color that is not a hex color', async () => {
+      await request(app)
+        .post('/api/categories')
+        .set(authHeader)
+        .send({ name: 'Travel', color: 'red' })
+        .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+    });
+
+    it('should return 403 when a viewer tries to create a category', async () => {
+      await request(app)
+        .post('/api/categories')
+        .set(viewerHeader)
+        .send({ name: 'Travel', color: '#123abc' })
+        .expect(HttpStatus.FORBIDDEN);
+    });
+  });
+
+  describe('PUT and DELETE /api/categories/:id', () => {
+    it('should rename, recolour and reorder a category', async () => {
+      const id = await getTestCategoryId(organizationId, TestCategory.SOFTWARE_TOOLS);
+
+      const response = await request(app)
+        .put(`/api/categories/${id}`)
+        .set(authHeader)
+        .send({ name: 'Software', color: '#000000', displayOrder: 20 })
+        .expect(HttpStatus.OK);
+
+      expect(response.body.data).toMatchObject({ name: 'Software', color: '#000000', displayOrder: 20 });
+
+      await request(app)
+        .put(`/api/categories/${id}`)
+        .set(authHeader)
+        .send({ name: TestCategory.SOFTWARE_TOOLS, color: '#82ca9d', displayOrder: 1 })
+        .expect(HttpStatus.OK);
+    });
+
+    it('should archive instead of deleting, keeping existing expenses intact', async () => {
+      const id = await getTestCategoryId(organizationId, TestCategory.SOFTWARE_TOOLS);
+      const expense = await getTestDb().cost.create({
+        data: { amount: validExpenseData.amount, month: 3, year: 2024, organizationId, categoryId: id }
+      });
+
+      const response = await request(app)
+        .delete(`/api/categories/${id}`)
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+      expect(response.body.data.archived).toBe(true);
+
+      const existing = await request(app)
+        .get(`/api/expenses/${expense.id}`)
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+      expect(existing.body.data.category).toBe(TestCategory.SOFTWARE_TOOLS);
+
+      // New expenses cannot use the archived category
+      await request(app)
+        .post('/api/expenses')
+        .set(authHeader)
+        .send({ categoryId: id, amount: 100, month: 4, year: 2024 })
+        .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+
+      // Restoring makes it available again
+      await request(app)
+        .put(`/api/categories/${id}`)
+        .set(authHeader)
+        .send({ archived: false })
+        .expect(HttpStatus.OK);
+
+      await request(app)
+        .post('/api/expenses')
+        .set(authHeader)
+        .send({ categoryId: id, amount: 100, month: 4, year: 2024 })
+        .expect(HttpStatus.CREATED);
+    });
+
+    it('should not expose categories of another organization', async () => {
+      const id = await getTestCategoryId(otherOrganizationId, TestCategory.SALARIES);
+
+      await request(app).get(`/api/categories/${id}`).set(authHeader).expect(HttpStatus.NOT_FOUND);
+      await request(app)
+        .put(`/api/categories/${id}`)
+        .set(authHeader)
+        .send({ name: 'Taken over' })
+        .expect(HttpStatus.NOT_FOUND);
+      await request(app)
+        .post('/api/expenses')
+        .set(authHeader)
+        .send({ categoryId: id, amount: 100, month: 4, year: 2024 })
+        .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+    });
+  });
+
+  describe('Sub-categories', () => {
+    const createChild = (parentId: number, name: string) =>
+      request(app)
+        .post('/api/categories')
+        .set(authHeader)
+        .send({ parentId, name, color: '#24292e' });
+
+    it('should create a sub-category under a top-level category', async () => {
+      const parentId = await getTestCategoryId(organizationId, TestCategory.SOFTWARE_TOOLS);
+
+      const response = await createChild(parentId, 'GitHub').expect(HttpStatus.CREATED);
+
+      expect(response.body.data).toMatchObject({ name: 'GitHub', parentId });
+    });
+
+    it('should keep the tree two levels deep', async () => {
+      const parentId = await getTestCategoryId(organizationId, TestCategory.SOFTWARE_TOOLS);
+      const child = await createChild(parentId, 'GitHub').expect(HttpStatus.CREATED);
+
+      // A sub-category cannot have sub-categories
+      await createChild(child.body.data.id, 'GitHub Actions').expect(HttpStatus.UNPROCESSABLE_ENTITY);
+
+      // A category with sub-categories cannot become a sub-category
+      const otherId = await getTestCategoryId(organizationId, TestCategory.SALARIES);
+      await request(app)
+        .put(`/api/categories/${parentId}`)
+        .set(authHeader)
+        .send({ parentId: otherId })
+        .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+    });
+
+    it('should reject a parent of another organization', async () => {
+      const parentId = await getTestCategoryId(otherOrganizationId, TestCategory.SOFTWARE_TOOLS);
+
+      await createChild(parentId, 'GitHub').expect(HttpStatus.UNPROCESSABLE_ENTITY);
+    });
+
+    it('should archive sub-categories together with their parent', async () => {
+      const parentId = await getTestCategoryId(organizationId, TestCategory.SOFTWARE_TOOLS);
+      const child = await createChild(parentId, 'GitHub').expect(HttpStatus.CREATED);
+
+      await request(app).delete(`/api/categories/${parentId}`).set(authHeader).expect(HttpStatus.OK);
+
+      const response = await request(app)
+        .get(`/api/categories/${child.body.data.id}`)
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+      expect(response.body.data.archived).toBe(true);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,110 @@
+import request from 'supertest';
+import { Application } from 'express';
+import { createTestApp, createAuthHeader } from '../utils/testServer';
+import {
+  setupTestDb,
+  cleanupTestDb,
+  createTestOrganization,
+  createTestUser,
+  getTestCategoryId,
+  getTestDb
+} from '../utils/testDb';
+import { TestCategory } from '../fixtures/testData';
+import { UserRole } from '../../types/auth';
+import { HttpStatus } from '../../types/api';
+
+describe('Cost Center API Endpoints', () => {
+  let app: Application;
+  let organizationId: number;
+  let otherOrganizationId: number;
+  let authHeader: Record<string, string>;
+  let viewerHeader: Record<string, string>;
+
+  beforeAll(async () => {
+    app = createTestApp();
+    await setupTestDb();
+
+    const organization = await createTestOrganization('cost-center-acme');
+    const otherOrganization = await createTestOrganization('cost-center-globex');
+    organizationId = organization.id;
+    otherOrganizationId = otherOrganization.id;
+
+    const editor = await createTestUser('cost-center-editor@example.com', UserRole.EDITOR, [organizationId]);
+    const viewer = await createTestUser('cost-center-viewer@example.com', UserRole.VIEWER, [organizationId]);
+    authHeader = createAuthHeader(editor, organizationId);
+    viewerHeader = createAuthHeader(viewer, organizationId);
+  });
+
+  afterAll(async () => {
+    await cleanupTestDb();
+  });
+
+  beforeEach(async () => {
+    const prisma = getTestDb();
+    await prisma.cost.deleteMany({});
+    await prisma.costCenter.deleteMany({});
+  });
+
+  it('should create and list cost centers by name', async () => {
+    await request(app).post('/api/cost-centers').set(authHeader).send({ name: 'Platform' }).expect(HttpStatus.CREATED);
+    await request(app).post('/api/cost-centers').set(authHeader).send({ name: 'Data' }).expect(HttpStatus.CREATED);
+
+    const response = await request(app)
+      .get('/api/cost-centers')
+      .set(viewerHeader)
+      .expect(HttpStatus.OK);
+
+    expect(response.body.data.map((costCenter: any) => costCenter.name)).toEqual(['Data', 'Platform']);
+  });
+
+  it('should reject a duplicate name', async () => {
+    await request(app).post('/api/cost-centers').set(authHeader).send({ name: 'Platform' }).expect(HttpStatus.CREATED);
+
+    await request(app)
+      .post('/api/cost-centers')
+      .set(authHeader)
+      .send({ name: 'Platform' })
+      .expect(HttpStatus.CONFLICT);
+  });
+
+  it('should return 403 when a viewer tries to create a cost center', async () => {
+    await request(app)
+      .post('/api/cost-centers')
+      .set(viewerHeader)
+      .send({ name: 'Platform' })
+      .expect(HttpStatus.FORBIDDEN);
+  });
+
+  it('should archive a cost center and refuse new expenses against it', async () => {
+    const created = await request(app)
+      .post('/api/cost-centers')
+      .set(authHeader)
+      .send({ name: 'Platform' })
+      .expect(HttpStatus.CREATED);
+    const id = created.body.data.id;
+
+    await request(app).delete(`/api/cost-centers/${id}`).set(authHeader).expect(HttpStatus.OK);
+
+    const active = await request(app).get('/api/cost-centers').set(authHeader).expect(HttpStatus.OK);
+    expect(active.body.data).toHaveLength(0);
+
+    const categoryId = await getTestCategoryId(organizationId, TestCategory.SALARIES);
+    await request(app)
+      .post('/api/expenses')
+      .set(authHeader)
+      .send({ categoryId, costCenterId: id, amount: 100, month: 1, year: 2024 })
+      .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+  });
+
+  it('should not expose cost centers of another organization', async () => {
+    const foreign = await getTestDb().costCenter.create({
+      data: { organizationId: otherOrganizationId, name: 'Foreign' }
+    });
+
+    await request(app)
+      .put(`/api/cost-centers/${foreign.id}`)
+      .set(authHeader)
+      .send({ name: 'Mine' })
+      .expect(HttpStatus.NOT_FOUND);
+  });
+});
\ No newline at end of file
@@ -1,17 +1,54 @@
 import request from 'supertest';
 import { Application } from 'express';
-import { createTestApp } from '../utils/testServer';
-import { setupTestDb, cleanupTestDb, seedTestData } from '../utils/testDb';
-import { validExpenseData, invalidExpenseData, multipleExpenses, trendTestData } from '../fixtures/testData';
-import { ExpenseCategory } from '../../types/expense';
+import { createTestApp, createAuthHeader } from '../utils/testServer';
+import {
+  setupTestDb,
+  cleanupTestDb,
+  seedTestData,
+  createTestOrganization,
+  createTestUser,
+  getTestCategoryId,
+  getTestDb,
+  withCategoryId
+} from '../utils/testDb';
+import {
+  validExpenseData,
+  invalidExpenseData,
+  multipleExpenses,
+  trendTestData,
+  TestCategory
+} from '../fixtures/testData';
+import { UserRole } from '../../types/auth';
 import { HttpStatus } from '../../types/api';
 
 describe('Expense API Endpoints', () => {
   let app: Application;
+  let organizationId: number;
+  let otherOrganizationId: number;
+  let authHeader: Record<string, string>;
+  let viewerHeader: Record<string, string>;
+  // Fixtures with category names replaced by the organization's category IDs
+  let validExpense: Record<string, unknown>;
+  let invalidExpenses: Record<string, unknown>[];
 
   beforeAll(async () => {
     app = createTestApp();
     await setupTestDb();
+
+    const organization = await createTestOrganization('acme');
+    const otherOrganization = await createTestOrganization('globex');
+    organizationId = organization.id;
+    otherOrganizationId = otherOrganization.id;
+
+    validExpense = await withCategoryId(validExpenseData, organizationId);
+    invalidExpenses = await Promise.all(
+      invalidExpenseData.map(item => withCategoryId(item, organizationId))
+    );
+
+    const editor = await createTestUser('editor@example.com', UserRole.EDITOR, [organizationId]);
+    const viewer = await createTestUser('viewer@example.com', UserRole.VIEWER, [organizationId]);
+    authHeader = createAuthHeader(editor, organizationId);
+    viewerHeader = createAuthHeader(viewer, organizationId);
   });
 
   afterAll(async () => {
@@ -25,11 +62,172 @@ describe('Expense API Endpoints', () => {
     await prisma.cost.deleteMany({});
   });
 
+  describe('Authentication', () => {
+    it('should return 401 when no access token is provided', async () => {
+      const response = await request(app)
+        .get('/api/expenses')
+        .expect(HttpStatus.UNAUTHORIZED);
+
+      expect(response.body.error.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should return 401 for a malformed access token', async () => {
+      const response = await request(app)
+        .get('/api/expenses')
+        .set('Authorization', 'Bearer not-a-token')
+        .expect(HttpStatus.UNAUTHORIZED);
+
+      expect(response.body.error.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should return 403 when a viewer tries to create an expense', async () => {
+      const response = await request(app)
+        .post('/api/expenses')
+        .set(viewerHeader)
+        .send(validExpense)
+        .expect(HttpStatus.FORBIDDEN);
+
+      expect(response.body.error.code).toBe('FORBIDDEN');
+    });
+  });
+
+  describe('Organization isolation', () => {
+    // Belongs to both organizations and is currently acting in the other one
+    let otherOrganizationHeader: Record<string, string>;
+    // Belongs to the first organization only but asks for the other one
+    let outsiderHeader: Record<string, string>;
+
+    beforeAll(async () => {
+      const member = await createTestUser('member@example.com', UserRole.EDITOR, [
+        organizationId,
+        otherOrganizationId
+      ]);
+      const outsider = await createTestUser('outsider@example.com', UserRole.ADMIN, [organizationId]);
+      otherOrganizationHeader = createAuthHeader(member, otherOrganizationId);
+      outsiderHeader = createAuthHeader(outsider, otherOrganizationId);
+    });
+
+    beforeEach(async () => {
+      await seedTestData(multipleExpenses, organizationId);
+    });
+
+    const getSeededExpenseId = async (): Promise<number> => {
+      const { getTestDb } = await import('../utils/testDb');
+      const expense = await getTestDb().cost.findFirstOrThrow({ where: { organizationId } });
+      return expense.id;
+    };
+
+    it('should not list expenses of another organization', async () => {
+      const response = await request(app)
+        .get('/api/expenses')
+        .set(otherOrganizationHeader)
+        .expect(HttpStatus.OK);
+
+      expect(response.body.data).toHaveLength(0);
+      expect(response.body.pagination.total).toBe(0);
+    });
+
+    it('should return 404 when reading an expense of another organization', async () => {
+      const id = await getSeededExpenseId();
+
+      const response = await request(app)
+        .get(`/api/expenses/${id}`)
+        .set(otherOrganizationHeader)
+        .expect(HttpStatus.NOT_FOUND);
+
+      expect(response.body.error.code).toBe('NOT_FOUND');
+    });
+
+    it('should not update or delete an expense of another organization', async () => {
+      const id = await getSeededExpenseId();
+
+      await request(app)
+        .put(`/api/expenses/${id}`)
+        .set(otherOrganizationHeader)
+        .send({ amount: 1 })
+        .expect(HttpStatus.NOT_FOUND);
+
+      await request(app)
+        .delete(`/api/expenses/${id}`)
+        .set(otherOrganizationHeader)
+        .expect(HttpStatus.NOT_FOUND);
+
+      const response = await request(app)
+        .get(`/api/expenses/${id}`)
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+
+      expect(response.body.data.amount).not.toBe(1);
+    });
+
+    it('should not expose the history of another organization\'s expense', async () => {
+      const id = await getSeededExpenseId();
+
+      await request(app)
+        .get(`/api/expenses/${id}/history`)
+        .set(otherOrganizationHeader)
+        .expect(HttpStatus.NOT_FOUND);
+    });
+
+    it('should exclude other organizations from trends', async () => {
+      const response = await request(app)
+        .get('/api/expenses/trends?startYear=2024&endYear=2024')
+        .set(otherOrganizationHeader)
+        .expect(HttpStatus.OK);
+
+      expect(response.body.data.data).toHaveLength(0);
+      expect(response.body.data.summary.totalAmount).toBe(0);
+    });
+
+    it('should allow the same category and period in different organizations', async () => {
+      const { getTestDb } = await import('../utils/testDb');
+      await getTestDb().cost.deleteMany({});
+
+      await request(app)
+        .post('/api/expenses')
+        .set(authHeader)
+        .send(validExpense)
+        .expect(HttpStatus.CREATED);
+
+      await request(app)
+        .post('/api/expenses')
+        .set(otherOrganizationHeader)
+        .send(await withCategoryId(validExpenseData, otherOrganizationId))
+        .expect(HttpStatus.CREATED);
+    });
+
+    it('should return 403 when selecting an organization the user does not belong to', async () => {
+      const response = await request(app)
+        .get('/api/expenses')
+        .set(outsiderHeader)
+        .expect(HttpStatus.FORBIDDEN);
+
+      expect(response.body.error.code).toBe('FORBIDDEN');
+    });
+
+    it('should return 400 for a malformed organization header', async () => {
+      await request(app)
+        .get('/api/expenses')
+        .set({ ...authHeader, 'X-Organization-Id': 'acme' })
+        .expect(HttpStatus.BAD_REQUEST);
+    });
+
+    it('should list only the organizations the caller belongs to', async () => {
+      const response = await request(app)
+        .get('/api/organizations')
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+
+      expect(response.body.data.map((organization: any) => organization.slug)).toEqual(['acme']);
+    });
+  });
+
   describe('POST /api/expenses', () => {
     it('should create a new expense with valid data', async () => {
       const response = await request(app)
         .post('/api/expenses')
-        .send(validExpenseData)
+        .set(authHeader)
+        .send(validExpense)
         .expect(HttpStatus.CREATED);
 
       expect(response.body).toHaveProperty('id');
@@ -44,7 +242,8 @@ describe('Expense API Endpoints', () => {
     it('should return 400 for missing required fields', async () => {
       const response = await request(app)
         .post('/api/expenses')
-        .send(invalidExpenseData[0])
+        .set(authHeader)
+        .send(invalidExpenses[0])
         .expect(HttpStatus.BAD_REQUEST);
 
       expect(response.body.error).toHaveProperty('message');
@@ -54,7 +253,8 @@ describe('Expense API Endpoints', () => {
     it('should return 400 for negative amount', async () => {
       const response = await request(app)
         .post('/api/expenses')
-        .send(invalidExpenseData[1])
+        .set(authHeader)
+        .send(invalidExpenses[1])
         .expect(HttpStatus.BAD_REQUEST);
 
       expect(response.body.error).toHaveProperty('message');
@@ -64,7 +264,8 @@ describe('Expense API Endpoints', () => {
     it('should return 400 for invalid month', async () => {
       const response = await request(app)
         .post('/api/expenses')
-        .send(invalidExpenseData[2])
+        .set(authHeader)
+        .send(invalidExpenses[2])
         .expect(HttpStatus.BAD_REQUEST);
 
       expect(response.body.error).toHaveProperty('message');
@@ -74,37 +275,51 @@ describe('Expense API Endpoints', () => {
     it('should return 400 for invalid year', async () => {
       const response = await request(app)
         .post('/api/expenses')
-        .send(invalidExpenseData[3])
+        .set(authHeader)
+        .send(invalidExpenses[3])
         .expect(HttpStatus.BAD_REQUEST);
 
       expect(response.body.error).toHaveProperty('message');
       expect(response.body.error.message).toContain('year');
     });
 
-    it('should prevent duplicate entries for same category, month, and year', async () => {
-      // Create first expense
-      await request(app)
+    it('should allow several line items for the same category, month, and year', async () => {
+      const first = await request(app)
         .post('/api/expenses')
-        .send(validExpenseData)
+        .set(authHeader)
+        .send({ ...validExpense, amount: 1200, description: 'Annual licenses', vendor: 'Atlassian', invoiceNumber: 'INV-001', invoiceDate: '2024-01-05' })
         .expect(HttpStatus.CREATED);
 
-      // Try to create duplicate
-      const response = await request(app)
+      expect(first.body.data).toMatchObject({
+        description: 'Annual licenses',
+        vendor: 'Atlassian',
+        invoiceNumber: 'INV-001',
+        invoiceDate: '2024-01-05'
+      });
+
+      await request(app)
         .post('/api/expenses')
-        .send(validExpenseData)
-        .expect(HttpStatus.CONFLICT);
+        .set(authHeader)
+        .send({ ...validExpense, amount: 300, description: 'Extra seats' })
+        .expect(HttpStatus.CREATED);
+
+      const trends = await request(app)
+        .get(`/api/expenses/trends?startYear=${validExpense.year}&endYear=${validExpense.year}&groupBy=month`)
+        .set(authHeader)
+        .expect(HttpStatus.OK);
 
-      expect(response.body.error.code).toBe('DUPLICATE_ENTRY');
+      expect(trends.body.data.data[0].categoryBreakdown[0].amount).toBe(1500);
     });
 
     it('should sanitize input data', async () => {
       const maliciousData = {
-        ...validExpenseData,
-        category: '<script>alert("xss")</script>' + ExpenseCategory.SOFTWARE_TOOLS
+        ...validExpense,
+        categoryId: '<script>alert("xss")</script>'
       };
 
       const response = await request(app)
         .post('/api/expenses')
+        .set(authHeader)
         .send(maliciousData)
         .expect(HttpStatus.BAD_REQUEST);
 
@@ -114,12 +329,13 @@ describe('Expense API Endpoints', () => {
 
   describe('GET /api/expenses', () => {
     beforeEach(async () => {
-      await seedTestData(multipleExpenses);
+      await seedTestData(multipleExpenses, organizationId);
     });
 
     it('should return all expenses when no filters applied', async () => {
       const response = await request(app)
         .get('/api/expenses')
+        .set(authHeader)
         .expect(HttpStatus.OK);
 
       expect(Array.isArray(response.body)).toBe(true);
@@ -129,6 +345,7 @@ describe('Expense API Endpoints', () => {
     it('should filter expenses by year', async () => {
       const response = await request(app)
         .get('/api/expenses?year=2024')
+        .set(authHeader)
         .expect(HttpStatus.OK);
 
       expect(Array.isArray(response.body)).toBe(true);
@@ -140,6 +357,7 @@ describe('Expense API Endpoints', () => {
     it('should filter expenses by month', async () => {
       const response = await request(app)
         .get('/api/expenses?month=1')
+        .set(authHeader)
         .expect(HttpStatus.OK);
 
       expect(Array.isArray(response.body)).toBe(true);
@@ -149,32 +367,123 @@ describe('Expense API Endpoints', () => {
     });
 
     it('should filter expenses by category', async () => {
+      const salariesId = await getTestCategoryId(organizationId, TestCategory.SALARIES);
       const response = await request(app)
-        .get(`/api/expenses?category=${ExpenseCategory.SALARIES}`)
+        .get(`/api/expenses?categoryId=${salariesId}`)
+        .set(authHeader)
         .expect(HttpStatus.OK);
 
       expect(Array.isArray(response.body)).toBe(true);
       response.body.forEach((expense: any) => {
-        expect(expense.category).toBe(ExpenseCategory.SALARIES);
+        expect(expense.category).toBe(TestCategory.SALARIES);
+      });
+    });
+
+    it('should filter expenses by several categories', async () => {
+      const salariesId = await getTestCategoryId(organizationId, TestCategory.SALARIES);
+      const softwareId = await getTestCategoryId(organizationId, TestCategory.SOFTWARE_TOOLS);
+
+      // Both ways of repeating a parameter have to get past parameter pollution checks
+      for (const query of [
+        `categoryIds=${salariesId}&categoryIds=${softwareId}`,
+        `categoryIds[]=${salariesId}&categoryIds[]=${softwareId}`
+      ]) {
+        const response = await request(app)
+          .get(`/api/expenses?${query}`)
+          .set(authHeader)
+          .expect(HttpStatus.OK);
+
+        expect(response.body.data).toHaveLength(4);
+        expect(new Set(response.body.data.map((expense: any) => expense.category))).toEqual(
+          new Set([TestCategory.SALARIES, TestCategory.SOFTWARE_TOOLS])
+        );
+      }
+    });
+
+    it('should filter expenses by several tags', async () => {
+      const prisma = getTestDb();
+      await prisma.tag.deleteMany({ where: { organizationId } });
+      const costs = await prisma.cost.findMany({ where: { organizationId }, orderBy: { id: 'asc' } });
+      const [hardware, oneOff, other] = await Promise.all(
+        ['hardware', 'one-off', 'other'].map(name => prisma.tag.create({ data: { organizationId, name } }))
+      );
+      await prisma.costTag.createMany({
+        data: [
+          { costId: costs[0]!.id, tagId: hardware!.id },
+          { costId: costs[1]!.id, tagId: oneOff!.id },
+          { costId: costs[2]!.id, tagId: other!.id }
+        ]
       });
+
+      for (const query of [
+        `tagIds=${hardware!.id}&tagIds=${oneOff!.id}`,
+        `tagIds[]=${hardware!.id}&tagIds[]=${oneOff!.id}`
+      ]) {
+        const response = await request(app)
+          .get(`/api/expenses?${query}`)
+          .set(authHeader)
+          .expect(HttpStatus.OK);
+
+        expect(response.body.data.map((expense: any) => expense.id).sort()).toEqual([costs[0]!.id, costs[1]!.id].sort());
+      }
+    });
+
+    it('should search the notes and tags of expenses as written', async () => {
+      const prisma = getTestDb();
+      await prisma.tag.deleteMany({ where: { organizationId } });
+      const created = await request(app)
+        .post('/api/expenses')
+        .set(authHeader)
+        .send({ ...validExpense, notes: "Smith & Co's laptops for R&D", tags: ['hardware'] })
+        .expect(HttpStatus.CREATED);
+      const expenseId = created.body.data.id;
+
+      expect(created.body.data.notes).toBe("Smith & Co's laptops for R&D");
+
+      const search = async (q: string): Promise<number[]> => {
+        const response = await request(app)
+          .get('/api/expenses')
+          .query({ q })
+          .set(authHeader)
+          .expect(HttpStatus.OK);
+        return response.body.data.map((expense: any) => expense.id);
+      };
+
+      // The triggers keep the search vector up to date
+      expect(await search('laptop')).toEqual([expenseId]);
+      expect(await search('"Smith & Co"')).toEqual([expenseId]);
+      expect(await search('hardware -laptop')).toEqual([]);
+
+      await prisma.tag.updateMany({ where: { organizationId, name: 'hardware' }, data: { name: 'equipment' } });
+      expect(await search('equipment')).toEqual([expenseId]);
+
+      await request(app)
+        .put(`/api/expenses/${expenseId}`)
+        .set(authHeader)
+        .send({ ...validExpense, notes: 'Monitors', tags: [] })
+        .expect(HttpStatus.OK);
+      expect(await search('laptop OR equipment')).toEqual([]);
     });
 
     it('should combine multiple filters', async () => {
+      const salariesId = await getTestCategoryId(organizationId, TestCategory.SALARIES);
       const response = await request(app)
-        .get(`/api/expenses?year=2024&month=1&category=${ExpenseCategory.SALARIES}`)
+        .get(`/api/expenses?year=2024&month=1&categoryId=${salariesId}`)
+        .set(authHeader)
         .expect(HttpStatus.OK);
 
       expect(Array.isArray(response.body)).toBe(true);
       response.body.forEach((expense: any) => {
         expect(expense.year).toBe(2024);
         expect(expense.month).toBe(1);
-        expect(expense.category).toBe(ExpenseCategory.SALARIES);
+        expect(expense.category).toBe(TestCategory.SALARIES);
       });
     });
 
     it('should return empty array when no expenses match filters', async () => {
       const response = await request(app)
         .get('/api/expenses?year=2025')
+        .set(authHeader)
         .expect(HttpStatus.OK);
 
       expect(Array.isArray(response.body)).toBe(true);
@@ -188,13 +497,15 @@ describe('Expense API Endpoints', () => {
     beforeEach(async () => {
       const createResponse = await request(app)
         .post('/api/expenses')
-        .send(validExpenseData);
+        .set(authHeader)
+        .send(validExpense);
       createdExpenseId = createResponse.body.id;
     });
 
     it('should return expense by valid ID', async () => {
       const response = await request(app)
         .get(`/api/expenses/${createdExpenseId}`)
+        .set(authHeader)
         .expect(HttpStatus.OK);
 
       expect(response.body.id).toBe(createdExpenseId);
@@ -204,6 +515,7 @@ describe('Expense API Endpoints', () => {
     it('should return 404 for non-existent ID', async () => {
       const response = await request(app)
         .get('/api/expenses/99999')
+        .set(authHeader)
         .expect(HttpStatus.NOT_FOUND);
 
       expect(response.body.error.code).toBe('NOT_FOUND');
@@ -212,6 +524,7 @@ describe('Expense API Endpoints', () => {
     it('should return 400 for invalid ID format', async () => {
       const response = await request(app)
         .get('/api/expenses/invalid-id')
+        .set(authHeader)
         .expect(HttpStatus.BAD_REQUEST);
 
       expect(response.body.error.code).toBe('VALIDATION_ERROR');
@@ -224,15 +537,17 @@ describe('Expense API Endpoints', () => {
     beforeEach(async () => {
       const createResponse = await request(app)
         .post('/api/expenses')
-        .send(validExpenseData);
+        .set(authHeader)
+        .send(validExpense);
       createdExpenseId = createResponse.body.id;
     });
 
     it('should update expense with valid data', async () => {
-      const updateData = { ...validExpenseData, amount: 2000 };
+      const updateData = { ...validExpense, amount: 2000 };
       
       const response = await request(app)
         .put(`/api/expenses/${createdExpenseId}`)
+        .set(authHeader)
         .send(updateData)
         .expect(HttpStatus.OK);
 
@@ -244,6 +559,7 @@ describe('Expense API Endpoints', () => {
     it('should return 404 for non-existent ID', async () => {
       const response = await request(app)
         .put('/api/expenses/99999')
+        .set(authHeader)
         .send({ amount: 2000 })
         .expect(HttpStatus.NOT_FOUND);
 
@@ -253,29 +569,29 @@ describe('Expense API Endpoints', () => {
     it('should return 400 for invalid update data', async () => {
       const response = await request(app)
         .put(`/api/expenses/${createdExpenseId}`)
+        .set(authHeader)
         .send({ amount: -100 })
         .expect(HttpStatus.BAD_REQUEST);
 
       expect(response.body.error.code).toBe('VALIDATION_ERROR');
     });
 
-    it('should prevent duplicate entries when updating', async () => {
-      // Create another expense
-      const anotherExpense = {
-        ...validExpenseData,
-        category: ExpenseCategory.HARDWARE_EQUIPMENT
-      };
-      await request(app)
-        .post('/api/expenses')
-        .send(anotherExpense);
+    it('should update and clear line item details', async () => {
+      const updated = await request(app)
+        .put(`/api/expenses/${createdExpenseId}`)
+        .set(authHeader)
+        .send({ ...validExpense, amount: 900, description: 'Renewal', vendor: 'GitHub', invoiceDate: '2024-03-05' })
+        .expect(HttpStatus.OK);
 
-      // Try to update first expense to match second
-      const response = await request(app)
+      expect(updated.body.data).toMatchObject({ amount: 900, description: 'Renewal', vendor: 'GitHub', invoiceDate: '2024-03-05' });
+
+      const cleared = await request(app)
         .put(`/api/expenses/${createdExpenseId}`)
-        .send(anotherExpense)
-        .expect(HttpStatus.CONFLICT);
+        .set(authHeader)
+        .send({ ...validExpense, amount: 900, vendor: null })
+        .expect(HttpStatus.OK);
 
-      expect(response.body.error.code).toBe('DUPLICATE_ENTRY');
+      expect(cleared.body.data).toMatchObject({ description: 'Renewal', vendor: null });
     });
   });
 
@@ -285,24 +601,28 @@ describe('Expense API Endpoints', () => {
     beforeEach(async () => {
       const createResponse = await request(app)
         .post('/api/expenses')
-        .send(validExpenseData);
+        .set(authHeader)
+        .send(validExpense);
       createdExpenseId = createResponse.body.id;
     });
 
     it('should delete expense by valid ID', async () => {
       await request(app)
         .delete(`/api/expenses/${createdExpenseId}`)
+        .set(authHeader)
         .expect(HttpStatus.NO_CONTENT);
 
       // Verify expense is deleted
       await request(app)
         .get(`/api/expenses/${createdExpenseId}`)
+        .set(authHeader)
         .expect(HttpStatus.NOT_FOUND);
     });
 
     it('should return 404 for non-existent ID', async () => {
       const response = await request(app)
         .delete('/api/expenses/99999')
+        .set(authHeader)
         .expect(HttpStatus.NOT_FOUND);
 
       expect(response.body.error.code).toBe('NOT_FOUND');
@@ -311,20 +631,100 @@ describe('Expense API Endpoints', () => {
     it('should return 400 for invalid ID format', async () => {
       const response = await request(app)
         .delete('/api/expenses/invalid-id')
+        .set(authHeader)
         .expect(HttpStatus.BAD_REQUEST);
 
       expect(response.body.error.code).toBe('VALIDATION_ERROR');
     });
   });
 
+  describe('GET /api/expenses/:id/history', () => {
+    let createdExpenseId: number;
+
+    beforeEach(async () => {
+      const { getTestDb } = await import('../utils/testDb');
+      await getTestDb().costAuditLog.deleteMany({});
+
+      const createResponse = await request(app)
+        .post('/api/expenses')
+        .set(authHeader)
+        .send(validExpense);
+      createdExpenseId = createResponse.body.data.id;
+    });
+
+    it('should record who changed the amount, from what, to what', async () => {
+      await request(app)
+        .put(`/api/expenses/${createdExpenseId}`)
+        .set(authHeader)
+        .send({ amount: 2000 })
+        .expect(HttpStatus.OK);
+
+      const response = await request(app)
+        .get(`/api/expenses/${createdExpenseId}/history`)
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+
+      const [update, create] = response.body.data;
+      expect(response.body.data).toHaveLength(2);
+      expect(update).toMatchObject({
+        costId: createdExpenseId,
+        action: 'UPDATE',
+        oldAmount: validExpenseData.amount,
+        newAmount: 2000,
+        user: { email: 'editor@example.com' }
+      });
+      expect(update.ipAddress).toBeTruthy();
+      expect(update).toHaveProperty('createdAt');
+      expect(create).toMatchObject({ action: 'CREATE', oldAmount: null, newAmount: validExpenseData.amount });
+    });
+
+    it('should keep the history of a deleted expense', async () => {
+      await request(app)
+        .delete(`/api/expenses/${createdExpenseId}`)
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+
+      const response = await request(app)
+        .get(`/api/expenses/${createdExpenseId}/history`)
+        .set(viewerHeader)
+        .expect(HttpStatus.OK);
+
+      expect(response.body.data[0]).toMatchObject({
+        action: 'DELETE',
+        oldAmount: validExpenseData.amount,
+        newAmount: null,
+        category: validExpenseData.category
+      });
+    });
+
+    it('should not record a change that failed', async () => {
+      await request(app)
+        .put('/api/expenses/99999')
+        .set(authHeader)
+        .send({ amount: 2000 })
+        .expect(HttpStatus.NOT_FOUND);
+
+      const { getTestDb } = await import('../utils/testDb');
+      expect(await getTestDb().costAuditLog.count({ where: { costId: 99999 } })).toBe(0);
+    });
+
+    it('should return 404 for an expense that never existed', async () => {
+      await request(app)
+        .get('/api/expenses/99999/history')
+        .set(authHeader)
+        .expect(HttpStatus.NOT_FOUND);
+    });
+  });
+
   describe('GET /api/expenses/trends', () => {
     beforeEach(async () => {
-      await seedTestData(trendTestData);
+      await seedTestData(trendTestData, organizationId);
     });
 
     it('should return trend data for all months', async () => {
       const response = await request(app)
         .get('/api/expenses/trends')
+        .set(authHeader)
         .expect(HttpStatus.OK);
 
       expect(Array.isArray(response.body)).toBe(true);
@@ -342,6 +742,7 @@ describe('Expense API Endpoints', () => {
     it('should filter trend data by year', async () => {
       const response = await request(app)
         .get('/api/expenses/trends?year=2024')
+        .set(authHeader)
         .expect(HttpStatus.OK);
 
       expect(Array.isArray(response.body)).toBe(true);
@@ -353,6 +754,7 @@ describe('Expense API Endpoints', () => {
     it('should return empty array when no data matches filters', async () => {
       const response = await request(app)
         .get('/api/expenses/trends?year=2025')
+        .set(authHeader)
         .expect(HttpStatus.OK);
 
       expect(Array.isArray(response.body)).toBe(true);
@@ -362,6 +764,7 @@ describe('Expense API Endpoints', () => {
     it('should calculate correct totals and breakdowns', async () => {
       const response = await request(app)
         .get('/api/expenses/trends?year=2024&month=1')
+        .set(authHeader)
         .expect(HttpStatus.OK);
 
       expect(response.body).toHaveLength(1);
@@ -374,14 +777,230 @@ describe('Expense API Endpoints', () => {
       expect(trend.categoryBreakdown).toHaveLength(2);
       
       const salariesBreakdown = trend.categoryBreakdown.find(
-        (item: any) => item.category === ExpenseCategory.SALARIES
+        (item: any) => item.category === TestCategory.SALARIES
       );
       const softwareBreakdown = trend.categoryBreakdown.find(
-        (item: any) => item.category === ExpenseCategory.SOFTWARE_TOOLS
+        (item: any) => item.category === TestCategory.SOFTWARE_TOOLS
       );
       
       expect(salariesBreakdown.amount).toBe(50000);
       expect(softwareBreakdown.amount).toBe(2000);
     });
   });
+
+  describe('Currencies', () => {
+    beforeAll(async () => {
+      const { getTestDb } = await import('../utils/testDb');
+      await getTestDb().exchangeRate.createMany({
+        data: [
+          { baseCurrency: 'EUR', quoteCurrency: 'USD', rate: 1.1, effectiveDate: new Date('2024-01-01') },
+          { baseCurrency: 'USD', quoteCurrency: 'GBP', rate: 0.8, effectiveDate: new Date('2024-01-01') }
+        ]
+      });
+    });
+
+    it('should default to the reporting currency', async () => {
+      const response = await request(app)
+        .post('/api/expenses')
+        .set(authHeader)
+        .send(validExpense)
+        .expect(HttpStatus.CREATED);
+
+      expect(response.body.data).toMatchObject({
+        amount: validExpense.amount,
+        currency: 'USD',
+        convertedAmount: validExpense.amount,
+        reportingCurrency: 'USD'
+      });
+    });
+
+    it('should keep the original amount and report the converted one', async () => {
+      const response = await request(app)
+        .post('/api/expenses')
+        .set(authHeader)
+        .send({ ...validExpense, amount: 1000, currency: 'EUR', year: 2024 })
+        .expect(HttpStatus.CREATED);
+
+      expect(response.body.data).toMatchObject({ amount: 1000, currency: 'EUR', convertedAmount: 1100 });
+    });
+
+    it('should convert trends into the reporting currency', async () => {
+      for (const [amount, currency] of [[1000, 'EUR'], [400, 'GBP'], [100, 'USD']] as const) {
+        await request(app)
+          .post('/api/expenses')
+          .set(authHeader)
+          .send({ ...validExpense, amount, currency, month: 3, year: 2024 })
+          .expect(HttpStatus.CREATED);
+      }
+
+      const response = await request(app)
+        .get('/api/expenses/trends?startYear=2024&endYear=2024&groupBy=month')
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+
+      expect(response.body.data.summary).toMatchObject({ totalAmount: 1700, currency: 'USD' });
+    });
+
+    it('should refuse to report amounts without an exchange rate', async () => {
+      await request(app)
+        .post('/api/expenses')
+        .set(authHeader)
+        .send({ ...validExpense, amount: 1000, currency: 'CHF', month: 3, year: 2024 })
+        .expect(HttpStatus.CREATED);
+
+      const response = await request(app)
+        .get('/api/expenses/trends?startYear=2024&endYear=2024')
+        .set(authHeader)
+        .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+
+      expect(response.body.error.message).toContain('No exchange rate from CHF to USD');
+    });
+  });
+
+  describe('Sub-categories and cost centers', () => {
+    let softwareId: number;
+    let githubId: number;
+    let platformId: number;
+    let dataId: number;
+
+    beforeAll(async () => {
+      const { getTestDb } = await import('../utils/testDb');
+      const prisma = getTestDb();
+      softwareId = await getTestCategoryId(organizationId, TestCategory.SOFTWARE_TOOLS);
+      const github = await prisma.category.create({
+        data: { organizationId, parentId: softwareId, name: 'GitHub', color: '#24292e' }
+      });
+      const platform = await prisma.costCenter.create({ data: { organizationId, name: 'Platform' } });
+      const data = await prisma.costCenter.create({ data: { organizationId, name: 'Data' } });
+      githubId = github.id;
+      platformId = platform.id;
+      dataId = data.id;
+    });
+
+    const createExpense = (body: Record<string, unknown>) =>
+      request(app)
+        .post('/api/expenses')
+        .set(authHeader)
+        .send({ amount: 500, month: 3, year: 2024, ...body });
+
+    it('should filter the same category and period by cost center', async () => {
+      await createExpense({ categoryId: githubId, costCenterId: platformId }).expect(HttpStatus.CREATED);
+      await createExpense({ categoryId: githubId, costCenterId: dataId }).expect(HttpStatus.CREATED);
+      await createExpense({ categoryId: githubId }).expect(HttpStatus.CREATED);
+
+      const response = await request(app)
+        .get(`/api/expenses?categoryId=${githubId}&costCenterId=${dataId}`)
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0].costCenter).toBe('Data');
+    });
+
+    it('should return the parent category and cost center with the expense', async () => {
+      const response = await createExpense({ categoryId: githubId, costCenterId: platformId })
+        .expect(HttpStatus.CREATED);
+
+      expect(response.body.data).toMatchObject({
+        categoryId: githubId,
+        category: 'GitHub',
+        parentCategoryId: softwareId,
+        parentCategory: TestCategory.SOFTWARE_TOOLS,
+        costCenterId: platformId,
+        costCenter: 'Platform'
+      });
+    });
+
+    it('should reject a cost center of another organization', async () => {
+      const { getTestDb } = await import('../utils/testDb');
+      const foreign = await getTestDb().costCenter.create({
+        data: { organizationId: otherOrganizationId, name: 'Foreign' }
+      });
+
+      await createExpense({ categoryId: githubId, costCenterId: foreign.id })
+        .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+    });
+
+    it('should include sub-categories when filtering by their parent', async () => {
+      await createExpense({ categoryId: githubId, costCenterId: platformId }).expect(HttpStatus.CREATED);
+      await createExpense({ categoryId: softwareId }).expect(HttpStatus.CREATED);
+
+      const all = await request(app)
+        .get(`/api/expenses?categoryId=${softwareId}`)
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+      expect(all.body.data).toHaveLength(2);
+
+      const platform = await request(app)
+        .get(`/api/expenses?categoryId=${softwareId}&costCenterId=${platformId}`)
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+      expect(platform.body.data).toHaveLength(1);
+    });
+
+    it('should roll sub-categories up into their parent in trends', async () => {
+      await createExpense({ categoryId: githubId, amount: 800 }).expect(HttpStatus.CREATED);
+      await createExpense({ categoryId: softwareId, amount: 200 }).expect(HttpStatus.CREATED);
+
+      const monthly = await request(app)
+        .get('/api/expenses/trends?startYear=2024&endYear=2024&groupBy=month')
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+
+      expect(monthly.body.data.data[0].categoryBreakdown).toEqual([
+        {
+          categoryId: softwareId,
+          category: TestCategory.SOFTWARE_TOOLS,
+          amount: 1000,
+          subcategories: [{ categoryId: githubId, category: 'GitHub', amount: 800 }]
+        }
+      ]);
+
+      const byCategory = await request(app)
+        .get('/api/expenses/trends?startYear=2024&endYear=2024&groupBy=category')
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+
+      expect(byCategory.body.data.data).toEqual([
+        expect.objectContaining({
+          categoryId: softwareId,
+          totalAmount: 1000,
+          subcategories: [{ categoryId: githubId, category: 'GitHub', amount: 800 }]
+        })
+      ]);
+    });
+  });
+
+  describe('Comments', () => {
+    it('should keep the text of a comment as written through an edit', async () => {
+      const expense = await request(app)
+        .post('/api/expenses')
+        .set(authHeader)
+        .send(validExpense)
+        .expect(HttpStatus.CREATED);
+      const expenseId = expense.body.data.id;
+
+      const created = await request(app)
+        .post(`/api/expenses/${expenseId}/comments`)
+        .set(authHeader)
+        .send({ body: "Don't merge this with Smith & Co's invoice" })
+        .expect(HttpStatus.CREATED);
+
+      expect(created.body.data.body).toBe("Don't merge this with Smith & Co's invoice");
+
+      // The edit sends back the text it was shown
+      await request(app)
+        .put(`/api/expenses/${expenseId}/comments/${created.body.data.id}`)
+        .set(authHeader)
+        .send({ body: `${created.body.data.body}, it's separate` })
+        .expect(HttpStatus.OK);
+
+      const thread = await request(app)
+        .get(`/api/expenses/${expenseId}/comments`)
+        .set(authHeader)
+        .expect(HttpStatus.OK);
+
+      expect(thread.body.data[0].body).toBe("Don't merge this with Smith & Co's invoice, it's separate");
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,119 @@
+import request from 'supertest';
+import { Application } from 'express';
+import { createTestApp, createAuthHeader } from '../utils/testServer';
+import {
+  setupTestDb,
+  cleanupTestDb,
+  seedTestData,
+  createTestOrganization,
+  createTestUser,
+  getTestDb
+} from '../utils/testDb';
+import { trendTestData } from '../fixtures/testData';
+import { UserRole } from '../../types/auth';
+import { HttpStatus } from '../../types/api';
+import { readXlsx } from '../../utils/xlsx';
+
+// Collect a binary response body into a Buffer
+const binaryParser = (res: any, callback: (error: Error | null, body: Buffer) => void) => {
+  const chunks: Buffer[] = [];
+  res.on('data', (chunk: Buffer) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+};
+
+describe('Export API Endpoints', () => {
+  let app: Application;
+  let organizationId: number;
+  let viewerHeader: Record<string, string>;
+
+  beforeAll(async () => {
+    app = createTestApp();
+    await setupTestDb();
+
+    const organization = await createTestOrganization('export-acme');
+    organizationId = organization.id;
+
+    const viewer = await createTestUser('export-viewer@example.com', UserRole.VIEWER, [organizationId]);
+    viewerHeader = createAuthHeader(viewer, organizationId);
+  });
+
+  afterAll(async () => {
+    await cleanupTestDb();
+  });
+
+  beforeEach(async () => {
+    await getTestDb().cost.deleteMany({});
+    await seedTestData(trendTestData, organizationId);
+  });
+
+  it('should download every matching expense as CSV', async () => {
+    const response = await request(app)
+      .get('/api/exports')
+      .query({ format: 'csv', year: 2024, month: 1 })
+      .set(viewerHeader)
+      .expect(HttpStatus.OK);
+
+    expect(response.headers['content-type']).toContain('text/csv');
+    expect(response.headers['content-disposition']).toMatch(/^attachment; filename="expenses-\d{4}-\d{2}-\d{2}\.csv"$/);
+
+    const lines = response.text.trim().split('\r\n');
+    const expected = trendTestData.filter(item => item.year === 2024 && item.month === 1);
+    expect(lines[0]).toMatch(/^id,year,month,category,/);
+    expect(lines).toHaveLength(expected.length + 1);
+  });
+
+  it('should download trends as JSON', async () => {
+    const response = await request(app)
+      .get('/api/exports')
+      .query({ type: 'trends', format: 'json', startYear: 2024, endYear: 2024, groupBy: 'year' })
+      .set(viewerHeader)
+      .expect(HttpStatus.OK);
+
+    expect(response.headers['content-disposition']).toContain('trends-');
+    expect(response.body[0]).toMatchObject({ year: 2024, currency: 'USD' });
+  });
+
+  it('should download expenses as an XLSX workbook', async () => {
+    const response = await request(app)
+      .get('/api/exports')
+      .query({ format: 'xlsx' })
+      .set(viewerHeader)
+      .buffer(true)
+      .parse(binaryParser)
+      .expect(HttpStatus.OK);
+
+    const rows = readXlsx(response.body);
+    expect(rows[0]?.[0]).toBe('ID');
+    expect(rows).toHaveLength(trendTestData.length + 1);
+  });
+
+  it('should download expenses as a PDF', async () => {
+    const response = await request(app)
+      .get('/api/exports')
+      .query({ format: 'pdf' })
+      .set(viewerHeader)
+      .buffer(true)
+      .parse(binaryParser)
+      .expect(HttpStatus.OK);
+
+    expect(response.headers['content-type']).toBe('application/pdf');
+    expect(response.body.subarray(0, 8).toString()).toBe('%PDF-1.4');
+  });
+
+  it('should reject filters of the other export type', async () => {
+    const response = await request(app)
+      .get('/api/exports')
+      .query({ type: 'trends', format: 'csv', year: 2024 })
+      .set(viewerHeader)
+      .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+
+    expect(response.body.error.message).toBe('Start year is required');
+  });
+
+  it('should require a format', async () => {
+    await request(app)
+      .get('/api/exports')
+      .set(viewerHeader)
+      .expect(HttpStatus.UNPROCESSABLE_ENTITY);
+  });
+});
\ No newline at end of file
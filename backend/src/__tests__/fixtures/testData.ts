@@ -1,7 +1,14 @@
-import { ExpenseCategory } from '../../types/expense';
+// Names of default categories every test organization is created with. API tests
+// swap them for the organization's category IDs with withCategoryId().
+export const TestCategory = {
+  SALARIES: 'Salaries',
+  SOFTWARE_TOOLS: 'Software & Tools',
+  INFRASTRUCTURE_HOSTING: 'Infrastructure & Hosting',
+  HARDWARE_EQUIPMENT: 'Hardware & Equipment'
+} as const;
 
 export const validExpenseData = {
-  category: ExpenseCategory.SOFTWARE_TOOLS,
+  category: TestCategory.SOFTWARE_TOOLS,
   amount: 1500.50,
   month: 3,
   year: 2024
@@ -16,21 +23,21 @@ export const invalidExpenseData = [
   },
   {
     // Invalid amount (negative)
-    category: ExpenseCategory.SOFTWARE_TOOLS,
+    category: TestCategory.SOFTWARE_TOOLS,
     amount: -100,
     month: 3,
     year: 2024
   },
   {
     // Invalid month
-    category: ExpenseCategory.SOFTWARE_TOOLS,
+    category: TestCategory.SOFTWARE_TOOLS,
     amount: 1500.50,
     month: 13,
     year: 2024
   },
   {
     // Invalid year
-    category: ExpenseCategory.SOFTWARE_TOOLS,
+    category: TestCategory.SOFTWARE_TOOLS,
     amount: 1500.50,
     month: 3,
     year: 2019
@@ -39,31 +46,31 @@ export const invalidExpenseData = [
 
 export const multipleExpenses = [
   {
-    category: ExpenseCategory.SALARIES,
+    category: TestCategory.SALARIES,
     amount: 50000,
     month: 1,
     year: 2024
   },
   {
-    category: ExpenseCategory.SOFTWARE_TOOLS,
+    category: TestCategory.SOFTWARE_TOOLS,
     amount: 2500,
     month: 1,
     year: 2024
   },
   {
-    category: ExpenseCategory.INFRASTRUCTURE_HOSTING,
+    category: TestCategory.INFRASTRUCTURE_HOSTING,
     amount: 1200,
     month: 1,
     year: 2024
   },
   {
-    category: ExpenseCategory.SALARIES,
+    category: TestCategory.SALARIES,
     amount: 52000,
     month: 2,
     year: 2024
   },
   {
-    category: ExpenseCategory.SOFTWARE_TOOLS,
+    category: TestCategory.SOFTWARE_TOOLS,
     amount: 2300,
     month: 2,
     year: 2024
@@ -72,37 +79,37 @@ export const multipleExpenses = [
 
 export const trendTestData = [
   {
-    category: ExpenseCategory.SALARIES,
+    category: TestCategory.SALARIES,
     amount: 50000,
     month: 1,
     year: 2024
   },
   {
-    category: ExpenseCategory.SALARIES,
+    category: TestCategory.SALARIES,
     amount: 51000,
     month: 2,
     year: 2024
   },
   {
-    category: ExpenseCategory.SALARIES,
+    category: TestCategory.SALARIES,
     amount: 52000,
     month: 3,
     year: 2024
   },
   {
-    category: ExpenseCategory.SOFTWARE_TOOLS,
+    category: TestCategory.SOFTWARE_TOOLS,
     amount: 2000,
     month: 1,
     year: 2024
   },
   {
-    category: ExpenseCategory.SOFTWARE_TOOLS,
+    category: TestCategory.SOFTWARE_TOOLS,
     amount: 2200,
     month: 2,
     year: 2024
   },
   {
-    category: ExpenseCategory.SOFTWARE_TOOLS,
+    category: TestCategory.SOFTWARE_TOOLS,
     amount: 2400,
     month: 3,
     year: 2024
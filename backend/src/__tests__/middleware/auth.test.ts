@@ -0,0 +1,141 @@
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { authenticate, requirePermission } from '../../middleware/auth';
+import { AuthService } from '../../services/authService';
+import { AuthenticationError, ForbiddenError } from '../../utils/errors';
+import { config } from '../../config/environment';
+import { Permission, UserRole } from '../../types/auth';
+
+// Token verification never touches the database
+jest.mock('../../config/database', () => ({
+  prisma: {}
+}));
+
+describe('Auth Middleware', () => {
+  const user = { id: 7, email: 'finance@example.com', name: 'Finance Lead', role: UserRole.EDITOR };
+  let mockNext: jest.Mock;
+
+  const requestWithHeader = (authorization?: string): Partial<Request> => ({
+    get: jest.fn().mockImplementation((name: string) =>
+      name === 'Authorization' ? authorization : undefined
+    ) as any
+  });
+
+  beforeEach(() => {
+    mockNext = jest.fn();
+  });
+
+  it('should attach the user for a valid Bearer token', () => {
+    const token = AuthService.signAccessToken(user);
+    const req = requestWithHeader(`Bearer ${token}`);
+
+    authenticate(req as Request, {} as Response, mockNext as NextFunction);
+
+    expect(mockNext).toHaveBeenCalledWith();
+    expect(req.user).toEqual(user);
+  });
+
+  it('should reject requests without an Authorization header', () => {
+    const req = requestWithHeader(undefined);
+
+    authenticate(req as Request, {} as Response, mockNext as NextFunction);
+
+    expect(mockNext).toHaveBeenCalledWith(expect.any(AuthenticationError));
+    expect(req.user).toBeUndefined();
+  });
+
+  it('should reject non-Bearer schemes', () => {
+    const req = requestWithHeader('Basic dXNlcjpwYXNz');
+
+    authenticate(req as Request, {} as Response, mockNext as NextFunction);
+
+    expect(mockNext).toHaveBeenCalledWith(expect.any(AuthenticationError));
+  });
+
+  it('should reject tokens signed with a different secret', () => {
+    const token = jwt.sign({ email: user.email, name: user.name, role: user.role }, 'not-the-secret', {
+      subject: String(user.id),
+      issuer: 'expense-management-api'
+    });
+    const req = requestWithHeader(`Bearer ${token}`);
+
+    authenticate(req as Request, {} as Response, mockNext as NextFunction);
+
+    const error = mockNext.mock.calls[0][0];
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error.statusCode).toBe(401);
+    expect(error.message).toBe('Invalid access token');
+  });
+
+  it('should reject expired tokens', () => {
+    const token = jwt.sign({ email: user.email, name: user.name, role: user.role }, config.SESSION_SECRET, {
+      subject: String(user.id),
+      issuer: 'expense-management-api',
+      expiresIn: -10
+    });
+    const req = requestWithHeader(`Bearer ${token}`);
+
+    authenticate(req as Request, {} as Response, mockNext as NextFunction);
+
+    const error = mockNext.mock.calls[0][0];
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error.message).toBe('Access token expired');
+  });
+
+  it('should reject tokens without a role claim', () => {
+    const token = jwt.sign({ email: user.email, name: user.name }, config.SESSION_SECRET, {
+      subject: String(user.id),
+      issuer: 'expense-management-api'
+    });
+    const req = requestWithHeader(`Bearer ${token}`);
+
+    authenticate(req as Request, {} as Response, mockNext as NextFunction);
+
+    expect(mockNext).toHaveBeenCalledWith(expect.any(AuthenticationError));
+  });
+});
+
+describe('Permission Middleware', () => {
+  let mockNext: jest.Mock;
+
+  const requestAs = (role?: UserRole): Partial<Request> => ({
+    method: 'POST',
+    originalUrl: '/api/expenses',
+    ...(role && { user: { id: 1, email: 'user@example.com', name: 'User', role } })
+  });
+
+  beforeEach(() => {
+    mockNext = jest.fn();
+  });
+
+  it.each([
+    [UserRole.VIEWER, Permission.EXPENSES_READ],
+    [UserRole.EDITOR, Permission.EXPENSES_READ],
+    [UserRole.EDITOR, Permission.EXPENSES_WRITE],
+    [UserRole.ADMIN, Permission.EXPENSES_WRITE],
+    [UserRole.ADMIN, Permission.ADMIN]
+  ])('should allow %s to use %s', (role, permission) => {
+    requirePermission(permission)(requestAs(role) as Request, {} as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledWith();
+  });
+
+  it.each([
+    [UserRole.VIEWER, Permission.EXPENSES_WRITE],
+    [UserRole.VIEWER, Permission.ADMIN],
+    [UserRole.EDITOR, Permission.ADMIN]
+  ])('should forbid %s from using %s', (role, permission) => {
+    requirePermission(permission)(requestAs(role) as Request, {} as Response, mockNext);
+
+    const error = mockNext.mock.calls[0][0];
+    expect(error).toBeInstanceOf(ForbiddenError);
+    expect(error.statusCode).toBe(403);
+    expect(error.code).toBe('FORBIDDEN');
+  });
+
+  it('should require authentication before checking permissions', () => {
+    requirePermission(Permission.EXPENSES_READ)(requestAs() as Request, {} as Response, mockNext);
+
+    expect(mockNext).toHaveBeenCalledWith(expect.any(AuthenticationError));
+  });
+});
\ No newline at end of file
@@ -0,0 +1,99 @@
+import { Request, Response, NextFunction } from 'express';
+import { resolveOrganization, getOrganizationId } from '../../middleware/organization';
+import { prisma } from '../../config/database';
+import { AuthenticationError, ForbiddenError, ValidationError } from '../../utils/errors';
+import { UserRole } from '../../types/auth';
+
+// Memberships are looked up through prisma.organizationMember.findFirst only
+jest.mock('../../config/database', () => ({
+  prisma: {
+    organizationMember: {
+      findFirst: jest.fn()
+    }
+  }
+}));
+
+describe('Organization Middleware', () => {
+  const user = { id: 7, email: 'finance@example.com', name: 'Finance Lead', role: UserRole.EDITOR };
+  const acme = { id: 1, name: 'Acme', slug: 'acme' };
+  const findFirst = prisma.organizationMember.findFirst as jest.Mock;
+  let mockNext: jest.Mock;
+
+  const requestWithHeader = (organizationId?: string, authenticated = true): Partial<Request> => ({
+    ...(authenticated && { user }),
+    get: jest.fn().mockImplementation((name: string) =>
+      name === 'X-Organization-Id' ? organizationId : undefined
+    ) as any
+  });
+
+  beforeEach(() => {
+    mockNext = jest.fn();
+    findFirst.mockReset();
+  });
+
+  it('should attach the requested organization when the user is a member', async () => {
+    findFirst.mockResolvedValue({ organizationId: acme.id, userId: user.id, organization: acme });
+    const req = requestWithHeader('1');
+
+    await resolveOrganization(req as Request, {} as Response, mockNext as NextFunction);
+
+    expect(findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: user.id, organizationId: 1 }
+    }));
+    expect(mockNext).toHaveBeenCalledWith();
+    expect(req.organization).toEqual(acme);
+  });
+
+  it('should fall back to the user\'s first organization without a header', async () => {
+    findFirst.mockResolvedValue({ organizationId: acme.id, userId: user.id, organization: acme });
+    const req = requestWithHeader(undefined);
+
+    await resolveOrganization(req as Request, {} as Response, mockNext as NextFunction);
+
+    expect(findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: user.id }
+    }));
+    expect(req.organization).toEqual(acme);
+  });
+
+  it('should reject organizations the user does not belong to', async () => {
+    findFirst.mockResolvedValue(null);
+    const req = requestWithHeader('2');
+
+    await resolveOrganization(req as Request, {} as Response, mockNext as NextFunction);
+
+    expect(mockNext).toHaveBeenCalledWith(expect.any(ForbiddenError));
+    expect(req.organization).toBeUndefined();
+  });
+
+  it('should reject users without any organization', async () => {
+    findFirst.mockResolvedValue(null);
+    const req = requestWithHeader(undefined);
+
+    await resolveOrganization(req as Request, {} as Response, mockNext as NextFunction);
+
+    expect(mockNext).toHaveBeenCalledWith(expect.any(ForbiddenError));
+  });
+
+  it.each(['acme', '0', '-1', '1.5'])('should reject the malformed header %p', async (header) => {
+    const req = requestWithHeader(header);
+
+    await resolveOrganization(req as Request, {} as Response, mockNext as NextFunction);
+
+    expect(mockNext).toHaveBeenCalledWith(expect.any(ValidationError));
+    expect(findFirst).not.toHaveBeenCalled();
+  });
+
+  it('should require authentication', async () => {
+    const req = requestWithHeader('1', false);
+
+    await resolveOrganization(req as Request, {} as Response, mockNext as NextFunction);
+
+    expect(mockNext).toHaveBeenCalledWith(expect.any(AuthenticationError));
+  });
+
+  it('should only return an organization ID once one has been resolved', () => {
+    expect(() => getOrganizationId({} as Request)).toThrow(ForbiddenError);
+    expect(getOrganizationId({ organization: acme } as Request)).toBe(acme.id);
+  });
+});
\ No newline at end of file
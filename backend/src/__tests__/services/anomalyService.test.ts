@@ -0,0 +1,189 @@
+import { AnomalyStatus, CostStatus } from '@prisma/client';
+import { AnomalyService } from '../../services/anomalyService';
+import { ExchangeRateService } from '../../services/exchangeRateService';
+import { prisma } from '../../config/database';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    cost: { findMany: jest.fn() },
+    expenseAnomaly: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn()
+    },
+    organization: { findUnique: jest.fn() }
+  }
+}));
+
+jest.mock('../../services/exchangeRateService', () => ({
+  ExchangeRateService: { createConverter: jest.fn() }
+}));
+
+describe('AnomalyService', () => {
+  // Salaries for 2023; steady at around 12,000 a month
+  const SALARIES_2023 = [11800, 12100, 12000, 11900, 12200, 12050, 11950, 12000, 12100, 11900, 12000, 12150];
+
+  const cost = (month: number, year: number, amount: number, currency = 'EUR') => ({
+    categoryId: 1,
+    amount,
+    currency,
+    month,
+    year
+  });
+
+  const history = () => SALARIES_2023.map((amount, index) => cost(index + 1, 2023, amount));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Only euros, the reporting currency, can be converted
+    (ExchangeRateService.createConverter as jest.Mock).mockResolvedValue({
+      reportingCurrency: 'EUR',
+      convert: (amount: number, currency: string) => (currency === 'EUR' ? amount : null)
+    });
+    (prisma.expenseAnomaly.upsert as jest.Mock).mockImplementation(({ create }) => Promise.resolve({
+      id: 9,
+      status: AnomalyStatus.OPEN,
+      ...create
+    }));
+    (prisma.expenseAnomaly.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.organization.findUnique as jest.Mock).mockResolvedValue({ reportingCurrency: 'EUR' });
+  });
+
+  describe('checkMonth', () => {
+    it('should flag and store a month far above the category history', async () => {
+      // 12,000 typed as 120,000, split over two line items
+      (prisma.cost.findMany as jest.Mock).mockResolvedValue([
+        ...history(),
+        cost(1, 2024, 100000),
+        cost(1, 2024, 20000)
+      ]);
+
+      const flag = await AnomalyService.checkMonth(3, 1, 1, 2024);
+
+      expect(prisma.cost.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          organizationId: 3,
+          categoryId: 1,
+          year: { gte: 2022, lte: 2024 },
+          deletedAt: null,
+          status: CostStatus.APPROVED
+        }
+      }));
+      expect(prisma.expenseAnomaly.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { uq_expense_anomalies_category_period: { organizationId: 3, categoryId: 1, year: 2024, month: 1 } },
+        create: expect.objectContaining({ amount: 120000, expected: 12000, lowerBound: 11693.75, upperBound: 12343.75 })
+      }));
+      expect(flag).toMatchObject({ id: 9, status: AnomalyStatus.OPEN, amount: 120000, expected: 12000 });
+      expect(flag!.zScore).toBeGreaterThan(900);
+    });
+
+    it('should clear a month that is back within range or differs too little to matter', async () => {
+      // Outside the fences, but only 4% above the median
+      (prisma.cost.findMany as jest.Mock).mockResolvedValue([...history(), cost(1, 2024, 12500)]);
+
+      expect(await AnomalyService.checkMonth(3, 1, 1, 2024)).toBeNull();
+      expect(prisma.expenseAnomaly.upsert).not.toHaveBeenCalled();
+      expect(prisma.expenseAnomaly.deleteMany).toHaveBeenCalledWith({
+        where: { organizationId: 3, categoryId: 1, month: 1, year: 2024 }
+      });
+    });
+
+    it('should not flag categories with less than six months of history', async () => {
+      (prisma.cost.findMany as jest.Mock).mockResolvedValue([...history().slice(-5), cost(1, 2024, 120000)]);
+
+      expect(await AnomalyService.checkMonth(3, 1, 1, 2024)).toBeNull();
+      expect(prisma.expenseAnomaly.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should keep the review status and leave dismissed anomalies out of the flag', async () => {
+      (prisma.cost.findMany as jest.Mock).mockResolvedValue([...history(), cost(1, 2024, 120000)]);
+      (prisma.expenseAnomaly.upsert as jest.Mock).mockImplementation(({ update }) => Promise.resolve({
+        id: 9,
+        status: AnomalyStatus.DISMISSED,
+        ...update
+      }));
+
+      expect(await AnomalyService.checkMonth(3, 1, 1, 2024)).toBeNull();
+      expect((prisma.expenseAnomaly.upsert as jest.Mock).mock.calls[0][0].update).not.toHaveProperty('status');
+    });
+
+    it('should keep what is stored while the month has no exchange rate', async () => {
+      (prisma.cost.findMany as jest.Mock).mockResolvedValue([...history(), cost(1, 2024, 120000, 'USD')]);
+      (prisma.expenseAnomaly.findFirst as jest.Mock).mockResolvedValue({
+        id: 9,
+        status: AnomalyStatus.ACKNOWLEDGED,
+        amount: 118000,
+        expected: 12000,
+        zScore: 890.5
+      });
+
+      const flag = await AnomalyService.checkMonth(3, 1, 1, 2024);
+
+      expect(flag).toEqual({ id: 9, status: AnomalyStatus.ACKNOWLEDGED, amount: 118000, expected: 12000, zScore: 890.5 });
+      expect(prisma.expenseAnomaly.upsert).not.toHaveBeenCalled();
+      expect(prisma.expenseAnomaly.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('scanOrganization', () => {
+    it('should flag new outliers and clear stored anomalies of the last 12 months', async () => {
+      (prisma.cost.findMany as jest.Mock).mockResolvedValue([
+        ...history(),
+        cost(1, 2024, 12000),
+        cost(2, 2024, 1200)
+      ]);
+      // January was flagged before its amount was corrected
+      (prisma.expenseAnomaly.findMany as jest.Mock).mockResolvedValue([{ categoryId: 1, month: 1, year: 2024 }]);
+
+      const result = await AnomalyService.scanOrganization(3, new Date(2024, 2, 15));
+
+      expect(result).toEqual({ flagged: 1, cleared: 1 });
+      expect(prisma.expenseAnomaly.deleteMany).toHaveBeenCalledWith({
+        where: { organizationId: 3, categoryId: 1, month: 1, year: 2024 }
+      });
+      expect(prisma.expenseAnomaly.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ month: 2, year: 2024, amount: 1200 })
+      }));
+    });
+  });
+
+  describe('reviewAnomaly', () => {
+    it('should record who reviewed the anomaly', async () => {
+      (prisma.expenseAnomaly.findFirst as jest.Mock).mockResolvedValue({ id: 9, organizationId: 3 });
+      (prisma.expenseAnomaly.update as jest.Mock).mockResolvedValue({
+        id: 9,
+        categoryId: 1,
+        month: 1,
+        year: 2024,
+        amount: 120000,
+        expected: 12000,
+        zScore: 890.5,
+        lowerBound: 11693.75,
+        upperBound: 12343.75,
+        status: AnomalyStatus.ACKNOWLEDGED,
+        reviewedAt: new Date('2024-02-01T09:00:00Z'),
+        createdAt: new Date('2024-01-20T09:00:00Z'),
+        updatedAt: new Date('2024-02-01T09:00:00Z'),
+        category: { name: 'Salaries', parentId: null, parent: null },
+        reviewedBy: { name: 'Jane Doe' }
+      });
+
+      const anomaly = await AnomalyService.reviewAnomaly(3, 9, AnomalyStatus.ACKNOWLEDGED, 4);
+
+      expect(prisma.expenseAnomaly.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 9 },
+        data: { status: AnomalyStatus.ACKNOWLEDGED, reviewedById: 4, reviewedAt: expect.any(Date) }
+      }));
+      expect(anomaly).toMatchObject({ category: 'Salaries', currency: 'EUR', reviewedBy: 'Jane Doe', reviewedAt: '2024-02-01T09:00:00.000Z' });
+    });
+
+    it('should not review anomalies of other organizations', async () => {
+      (prisma.expenseAnomaly.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(AnomalyService.reviewAnomaly(4, 9, AnomalyStatus.DISMISSED, 4))
+        .rejects.toThrow('Anomaly with ID 9 not found');
+    });
+  });
+});
\ No newline at end of file
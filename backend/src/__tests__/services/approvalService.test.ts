@@ -0,0 +1,140 @@
+import { CostStatus, Prisma } from '@prisma/client';
+import { ApprovalService } from '../../services/approvalService';
+import { ExpenseService } from '../../services/expenseService';
+import { ExchangeRateService } from '../../services/exchangeRateService';
+import { PeriodLockService } from '../../services/periodLockService';
+import { prisma } from '../../config/database';
+import { ForbiddenError, InvalidStatusError } from '../../utils/errors';
+
+const tx = {
+  cost: { findFirst: jest.fn(), update: jest.fn() },
+  costStatusChange: { create: jest.fn(), findFirst: jest.fn() }
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    organization: { findUnique: jest.fn() },
+    cost: { findMany: jest.fn() }
+  }
+}));
+
+jest.mock('../../services/exchangeRateService', () => ({
+  ExchangeRateService: { createConverter: jest.fn() }
+}));
+
+jest.mock('../../services/periodLockService', () => ({
+  PeriodLockService: { requireOpenPeriod: jest.fn() }
+}));
+
+describe('ApprovalService', () => {
+  const context = { userId: 7, ipAddress: '127.0.0.1' };
+
+  const cost = (status: CostStatus, amount = 5000) => ({
+    id: 3,
+    organizationId: 1,
+    categoryId: 1,
+    amount: new Prisma.Decimal(amount),
+    currency: 'EUR',
+    month: 6,
+    year: 2024,
+    status
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation(fn => fn(tx));
+    (prisma.organization.findUnique as jest.Mock).mockResolvedValue({ approvalThreshold: new Prisma.Decimal(1000) });
+    // EUR converts at 1.1; other currencies have no rate
+    (ExchangeRateService.createConverter as jest.Mock).mockResolvedValue({
+      reportingCurrency: 'USD',
+      convert: (amount: number, currency: string) => (currency === 'USD' ? amount : currency === 'EUR' ? amount * 1.1 : null)
+    });
+    (tx.cost.update as jest.Mock).mockImplementation(({ data }) => Promise.resolve({ ...cost(data.status) }));
+    jest.spyOn(ExpenseService, 'getExpenseById').mockResolvedValue({ id: 3 } as never);
+  });
+
+  describe('createPolicy', () => {
+    it('should approve every cost when the organization has no threshold', async () => {
+      (prisma.organization.findUnique as jest.Mock).mockResolvedValue({ approvalThreshold: null });
+
+      const policy = await ApprovalService.createPolicy(1, ['EUR']);
+
+      expect(policy.threshold).toBeNull();
+      expect(policy.statusFor({ amount: 1000000, currency: 'EUR', month: 6, year: 2024 })).toBe(CostStatus.APPROVED);
+    });
+
+    it('should compare amounts in the reporting currency against the threshold', async () => {
+      const policy = await ApprovalService.createPolicy(1, ['EUR']);
+
+      expect(policy.statusFor({ amount: 1000, currency: 'USD', month: 6, year: 2024 })).toBe(CostStatus.APPROVED);
+      expect(policy.statusFor({ amount: 950, currency: 'EUR', month: 6, year: 2024 })).toBe(CostStatus.SUBMITTED);
+    });
+
+    it('should hold back costs whose amount cannot be converted', async () => {
+      const policy = await ApprovalService.createPolicy(1, ['GBP']);
+
+      expect(policy.statusFor({ amount: 10, currency: 'GBP', month: 6, year: 2024 })).toBe(CostStatus.SUBMITTED);
+    });
+  });
+
+  it('should approve a submitted expense and record who approved it and why', async () => {
+    (tx.cost.findFirst as jest.Mock).mockResolvedValue(cost(CostStatus.SUBMITTED));
+    (tx.costStatusChange.findFirst as jest.Mock).mockResolvedValue({ userId: 2 });
+
+    await ApprovalService.approveExpense(1, 3, context, 'Matches the signed quote');
+
+    expect(PeriodLockService.requireOpenPeriod).toHaveBeenCalledWith(1, expect.objectContaining({ id: 3 }), tx);
+    expect(tx.cost.update).toHaveBeenCalledWith({ where: { id: 3 }, data: { status: CostStatus.APPROVED } });
+    expect(tx.costStatusChange.create).toHaveBeenCalledWith({
+      data: {
+        organizationId: 1,
+        costId: 3,
+        fromStatus: CostStatus.SUBMITTED,
+        toStatus: CostStatus.APPROVED,
+        userId: 7,
+        comment: 'Matches the signed quote'
+      }
+    });
+  });
+
+  it('should not let the user who submitted an expense approve it', async () => {
+    (tx.cost.findFirst as jest.Mock).mockResolvedValue(cost(CostStatus.SUBMITTED));
+    (tx.costStatusChange.findFirst as jest.Mock).mockResolvedValue({ userId: 7 });
+
+    await expect(ApprovalService.approveExpense(1, 3, context, null)).rejects.toThrow(ForbiddenError);
+    expect(tx.costStatusChange.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { organizationId: 1, costId: 3, toStatus: CostStatus.SUBMITTED }
+    }));
+    expect(tx.cost.update).not.toHaveBeenCalled();
+  });
+
+  it('should not approve an expense that was not submitted', async () => {
+    (tx.cost.findFirst as jest.Mock).mockResolvedValue(cost(CostStatus.DRAFT));
+
+    await expect(ApprovalService.approveExpense(1, 3, context, null)).rejects.toThrow(InvalidStatusError);
+    expect(tx.cost.update).not.toHaveBeenCalled();
+  });
+
+  it('should approve a submitted draft straight away when it is below the threshold', async () => {
+    (tx.cost.findFirst as jest.Mock).mockResolvedValue(cost(CostStatus.DRAFT, 500));
+
+    await ApprovalService.submitExpense(1, 3, context);
+
+    expect(tx.cost.update).toHaveBeenCalledWith({ where: { id: 3 }, data: { status: CostStatus.APPROVED } });
+    expect(tx.costStatusChange.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ fromStatus: CostStatus.DRAFT, toStatus: CostStatus.APPROVED, comment: null })
+    });
+  });
+
+  it('should leave unapproved expenses out of trends unless asked for', async () => {
+    (prisma.cost.findMany as jest.Mock).mockResolvedValue([]);
+
+    await ExpenseService.getTrends(1, { startYear: 2024, endYear: 2024 });
+    await ExpenseService.getTrends(1, { startYear: 2024, endYear: 2024, includeUnapproved: true });
+
+    const [[approvedOnly], [everything]] = (prisma.cost.findMany as jest.Mock).mock.calls;
+    expect(approvedOnly.where).toMatchObject({ organizationId: 1, status: CostStatus.APPROVED });
+    expect(everything.where).not.toHaveProperty('status');
+  });
+});
\ No newline at end of file
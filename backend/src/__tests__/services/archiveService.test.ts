@@ -0,0 +1,129 @@
+import { ArchiveService } from '../../services/archiveService';
+import { AuditService } from '../../services/auditService';
+import { PeriodLockService } from '../../services/periodLockService';
+import { TagService } from '../../services/tagService';
+import { prisma } from '../../config/database';
+import { PeriodLockedError } from '../../utils/errors';
+import { CostAuditAction, CostStatus } from '@prisma/client';
+
+const tx = {
+  cost: { findMany: jest.fn(), upsert: jest.fn() }
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    $queryRawUnsafe: jest.fn(),
+    $executeRawUnsafe: jest.fn(),
+    cost: { count: jest.fn() }
+  }
+}));
+
+jest.mock('../../services/periodLockService', () => ({
+  PeriodLockService: { requireOpenPeriods: jest.fn() }
+}));
+
+jest.mock('../../services/tagService', () => ({
+  TagService: { tagLinks: jest.fn() }
+}));
+
+jest.mock('../../services/auditService', () => ({
+  AuditService: { recordCostChange: jest.fn() }
+}));
+
+describe('ArchiveService.archiveOldData', () => {
+  it('should only archive approved costs', async () => {
+    (prisma.cost.count as jest.Mock).mockResolvedValue(0);
+
+    await ArchiveService.archiveOldData(1);
+
+    expect(prisma.cost.count).toHaveBeenCalledWith({
+      where: expect.objectContaining({ organizationId: 1, deletedAt: null, status: CostStatus.APPROVED })
+    });
+  });
+});
+
+describe('ArchiveService.restoreFromArchive', () => {
+  const context = { userId: 1, ipAddress: '127.0.0.1' };
+  const start = new Date('2014-01-01T00:00:00Z');
+  const end = new Date('2014-12-31T00:00:00Z');
+
+  const record = (id: number, month: number) => ({
+    id,
+    category_id: 1,
+    cost_center_id: null,
+    amount: 1000,
+    currency: 'EUR',
+    month,
+    year: 2014,
+    description: null,
+    vendor: null,
+    invoice_number: null,
+    invoice_date: null,
+    notes: null,
+    tags: ['hosting'],
+    created_at: new Date('2014-07-01T00:00:00Z'),
+    updated_at: new Date('2014-07-01T00:00:00Z')
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation(fn => fn(tx));
+    (prisma.$queryRawUnsafe as jest.Mock).mockResolvedValue([record(3, 6), record(4, 7)]);
+    (TagService.tagLinks as jest.Mock).mockResolvedValue([{ tagId: 9 }]);
+    tx.cost.findMany.mockResolvedValue([]);
+    tx.cost.upsert.mockImplementation(async ({ create }) => create);
+  });
+
+  it('should restore every record in one transaction and record each restore', async () => {
+    const result = await ArchiveService.restoreFromArchive(1, start, end, context);
+
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    expect(PeriodLockService.requireOpenPeriods).toHaveBeenCalledWith(
+      1,
+      [{ month: 6, year: 2014 }, { month: 7, year: 2014 }],
+      tx
+    );
+    expect(tx.cost.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 3 },
+      create: expect.objectContaining({ id: 3, status: CostStatus.APPROVED })
+    }));
+    expect(AuditService.recordCostChange).toHaveBeenCalledWith(
+      tx, CostAuditAction.RESTORE, expect.objectContaining({ id: 4 }), null, context
+    );
+    expect(result).toEqual({ restoredCount: 2, skippedIds: [] });
+  });
+
+  it('should skip records whose ID belongs to another organization', async () => {
+    tx.cost.findMany.mockResolvedValue([{ id: 4, organizationId: 2, amount: 50, month: 1, year: 2024 }]);
+
+    const result = await ArchiveService.restoreFromArchive(1, start, end, context);
+
+    expect(tx.cost.findMany).toHaveBeenCalledWith({ where: { id: { in: [3, 4] } } });
+    expect(tx.cost.upsert).toHaveBeenCalledTimes(1);
+    expect(tx.cost.upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 3 } }));
+    expect(result).toEqual({ restoredCount: 1, skippedIds: [4] });
+  });
+
+  it('should check the periods of the costs it overwrites', async () => {
+    tx.cost.findMany.mockResolvedValue([
+      { id: 3, organizationId: 1, amount: 900, month: 2, year: 2024 },
+      { id: 4, organizationId: 2, amount: 50, month: 1, year: 2024 }
+    ]);
+
+    await ArchiveService.restoreFromArchive(1, start, end, context);
+
+    expect(PeriodLockService.requireOpenPeriods).toHaveBeenCalledWith(
+      1,
+      [{ month: 6, year: 2014 }, { month: 7, year: 2014 }, { month: 2, year: 2024 }],
+      tx
+    );
+  });
+
+  it('should restore nothing when a record falls in a closed month', async () => {
+    (PeriodLockService.requireOpenPeriods as jest.Mock).mockRejectedValueOnce(new PeriodLockedError(7, 2014));
+
+    await expect(ArchiveService.restoreFromArchive(1, start, end, context)).rejects.toThrow(PeriodLockedError);
+    expect(tx.cost.upsert).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { AttachmentService } from '../../services/attachmentService';
+import { PeriodLockService } from '../../services/periodLockService';
+import { getStorage } from '../../services/storage';
+import { prisma } from '../../config/database';
+import { NotFoundError, PeriodLockedError } from '../../utils/errors';
+
+const storage = { put: jest.fn(), get: jest.fn(), delete: jest.fn() };
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    cost: { findFirst: jest.fn() },
+    costAttachment: { create: jest.fn(), findFirst: jest.fn(), findMany: jest.fn(), delete: jest.fn() }
+  }
+}));
+
+jest.mock('../../services/storage', () => ({
+  getStorage: jest.fn()
+}));
+
+jest.mock('../../services/periodLockService', () => ({
+  PeriodLockService: { requireOpenPeriod: jest.fn() }
+}));
+
+describe('AttachmentService', () => {
+  const upload = { fileName: 'invoice.pdf', contentType: 'application/pdf', file: Buffer.from('%PDF-1.4') };
+
+  const attachment = {
+    id: 5,
+    organizationId: 1,
+    costId: 3,
+    fileName: 'invoice.pdf',
+    contentType: 'application/pdf',
+    size: 8,
+    storageKey: '1/3/0b7e4a2c',
+    uploadedById: 7,
+    uploadedBy: { name: 'Finance Admin' },
+    createdAt: new Date('2024-06-03T10:00:00Z'),
+    cost: { month: 6, year: 2024 }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getStorage as jest.Mock).mockReturnValue(storage);
+    (prisma.cost.findFirst as jest.Mock).mockResolvedValue({ id: 3 });
+    (prisma.costAttachment.create as jest.Mock).mockResolvedValue(attachment);
+    (prisma.costAttachment.findFirst as jest.Mock).mockResolvedValue(attachment);
+  });
+
+  it('should store an upload under the organization and expense and record it', async () => {
+    const result = await AttachmentService.uploadAttachment(1, 3, upload, 7);
+
+    const [key, file, contentType] = storage.put.mock.calls[0];
+    expect(key).toMatch(/^1\/3\/[0-9a-f-]{36}$/);
+    expect(file).toBe(upload.file);
+    expect(contentType).toBe('application/pdf');
+    expect(prisma.costAttachment.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: {
+        organizationId: 1,
+        costId: 3,
+        fileName: 'invoice.pdf',
+        contentType: 'application/pdf',
+        size: 8,
+        storageKey: key,
+        uploadedById: 7
+      }
+    }));
+    expect(result).toEqual({
+      id: 5,
+      costId: 3,
+      fileName: 'invoice.pdf',
+      contentType: 'application/pdf',
+      size: 8,
+      uploadedBy: 'Finance Admin',
+      createdAt: '2024-06-03T10:00:00.000Z'
+    });
+  });
+
+  it('should not store files for expenses that are missing or trashed', async () => {
+    (prisma.cost.findFirst as jest.Mock).mockResolvedValue(null);
+
+    await expect(AttachmentService.uploadAttachment(1, 3, upload, 7)).rejects.toThrow(NotFoundError);
+    expect(prisma.cost.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 3, organizationId: 1, deletedAt: null }
+    }));
+    expect(storage.put).not.toHaveBeenCalled();
+  });
+
+  it('should remove the stored file when the attachment cannot be recorded', async () => {
+    (prisma.costAttachment.create as jest.Mock).mockRejectedValue(new Error('connection lost'));
+
+    await expect(AttachmentService.uploadAttachment(1, 3, upload, 7)).rejects.toThrow('Failed to upload attachment');
+    expect(storage.delete).toHaveBeenCalledWith(storage.put.mock.calls[0][0]);
+  });
+
+  it('should delete an attachment and its file', async () => {
+    await AttachmentService.deleteAttachment(1, 3, 5);
+
+    expect(PeriodLockService.requireOpenPeriod).toHaveBeenCalledWith(1, { month: 6, year: 2024 });
+    expect(prisma.costAttachment.delete).toHaveBeenCalledWith({ where: { id: 5 } });
+    expect(storage.delete).toHaveBeenCalledWith('1/3/0b7e4a2c');
+  });
+
+  it('should keep the attachments of closed months', async () => {
+    (PeriodLockService.requireOpenPeriod as jest.Mock).mockRejectedValue(new PeriodLockedError(6, 2024));
+
+    await expect(AttachmentService.deleteAttachment(1, 3, 5)).rejects.toThrow(PeriodLockedError);
+    expect(prisma.costAttachment.delete).not.toHaveBeenCalled();
+    expect(storage.delete).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
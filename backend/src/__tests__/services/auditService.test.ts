@@ -0,0 +1,145 @@
+import { Cost, CostAuditAction, Prisma } from '@prisma/client';
+import { AuditService } from '../../services/auditService';
+import { prisma } from '../../config/database';
+import { NotFoundError } from '../../utils/errors';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    costAuditLog: { findMany: jest.fn() },
+    cost: { count: jest.fn() }
+  }
+}));
+
+describe('AuditService', () => {
+  const cost: Cost = {
+    id: 42,
+    organizationId: 3,
+    categoryId: 2,
+    costCenterId: null,
+    amount: new Prisma.Decimal(2000),
+    currency: 'USD',
+    month: 3,
+    year: 2024,
+    description: null,
+    vendor: null,
+    invoiceNumber: null,
+    invoiceDate: null,
+    notes: null,
+    recurringTemplateId: null,
+    status: 'APPROVED',
+    createdAt: new Date('2024-03-01T00:00:00Z'),
+    updatedAt: new Date('2024-03-02T00:00:00Z'),
+    deletedAt: null
+  };
+  const context = { userId: 7, ipAddress: '203.0.113.9' };
+
+  const createTransaction = () => ({
+    costAuditLog: { create: jest.fn().mockResolvedValue({}) }
+  });
+
+  describe('recordCostChange', () => {
+    it('should write old and new amounts with the actor through the transaction', async () => {
+      const tx = createTransaction();
+
+      await AuditService.recordCostChange(
+        tx as unknown as Prisma.TransactionClient,
+        CostAuditAction.UPDATE,
+        cost,
+        new Prisma.Decimal(1500),
+        context
+      );
+
+      expect(tx.costAuditLog.create).toHaveBeenCalledWith({
+        data: {
+          organizationId: 3,
+          costId: 42,
+          action: CostAuditAction.UPDATE,
+          categoryId: 2,
+          month: 3,
+          year: 2024,
+          oldAmount: new Prisma.Decimal(1500),
+          newAmount: cost.amount,
+          userId: 7,
+          ipAddress: '203.0.113.9'
+        }
+      });
+    });
+
+    it('should record no new amount for a delete', async () => {
+      const tx = createTransaction();
+
+      await AuditService.recordCostChange(
+        tx as unknown as Prisma.TransactionClient,
+        CostAuditAction.DELETE,
+        cost,
+        cost.amount,
+        context
+      );
+
+      expect(tx.costAuditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ oldAmount: cost.amount, newAmount: null })
+      });
+    });
+  });
+
+  describe('getCostHistory', () => {
+    const findMany = prisma.costAuditLog.findMany as jest.Mock;
+    const count = prisma.cost.count as jest.Mock;
+
+    beforeEach(() => {
+      findMany.mockReset();
+      count.mockReset();
+    });
+
+    it('should convert amounts to numbers and scope the query to the organization', async () => {
+      findMany.mockResolvedValue([{
+        id: 1,
+        organizationId: 3,
+        costId: 42,
+        action: CostAuditAction.UPDATE,
+        categoryId: 2,
+        month: 3,
+        year: 2024,
+        oldAmount: new Prisma.Decimal(1500),
+        newAmount: new Prisma.Decimal(2000),
+        userId: 7,
+        ipAddress: '203.0.113.9',
+        createdAt: new Date('2024-03-02T00:00:00Z'),
+        user: { id: 7, name: 'Finance Lead', email: 'finance@example.com' },
+        category: { name: 'Software & Tools' }
+      }]);
+
+      const history = await AuditService.getCostHistory(3, 42);
+
+      expect(findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { organizationId: 3, costId: 42 } }));
+      expect(history).toEqual([{
+        id: 1,
+        costId: 42,
+        action: CostAuditAction.UPDATE,
+        categoryId: 2,
+        category: 'Software & Tools',
+        month: 3,
+        year: 2024,
+        oldAmount: 1500,
+        newAmount: 2000,
+        user: { id: 7, name: 'Finance Lead', email: 'finance@example.com' },
+        ipAddress: '203.0.113.9',
+        createdAt: '2024-03-02T00:00:00.000Z'
+      }]);
+    });
+
+    it('should throw NotFoundError when the expense has no history and does not exist', async () => {
+      findMany.mockResolvedValue([]);
+      count.mockResolvedValue(0);
+
+      await expect(AuditService.getCostHistory(3, 99999)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should return an empty history for an existing expense created before auditing', async () => {
+      findMany.mockResolvedValue([]);
+      count.mockResolvedValue(1);
+
+      await expect(AuditService.getCostHistory(3, 42)).resolves.toEqual([]);
+    });
+  });
+});
\ No newline at end of file
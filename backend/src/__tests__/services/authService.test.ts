@@ -0,0 +1,69 @@
+import { AuthService } from '../../services/authService';
+import { prisma } from '../../config/database';
+import { AuthenticationError } from '../../utils/errors';
+import { UserRole } from '../../types/auth';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    refreshToken: { findUnique: jest.fn(), updateMany: jest.fn(), create: jest.fn() }
+  }
+}));
+
+describe('AuthService.refresh', () => {
+  const user = {
+    id: 7,
+    email: 'finance@example.com',
+    name: 'Finance Lead',
+    role: UserRole.EDITOR,
+    isActive: true,
+    lastLoginAt: null,
+    createdAt: new Date('2024-01-01T00:00:00Z')
+  };
+  const stored = (revokedAt: Date | null) => ({
+    id: 3,
+    userId: 7,
+    expiresAt: new Date(Date.now() + 60000),
+    revokedAt,
+    user
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.refreshToken.create as jest.Mock).mockResolvedValue({});
+  });
+
+  it('should revoke the token while it is live and issue a new pair', async () => {
+    (prisma.refreshToken.findUnique as jest.Mock).mockResolvedValue(stored(null));
+    (prisma.refreshToken.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+    const tokens = await AuthService.refresh('token');
+
+    expect(prisma.refreshToken.updateMany).toHaveBeenCalledWith({
+      where: { id: 3, revokedAt: null },
+      data: { revokedAt: expect.any(Date) }
+    });
+    expect(prisma.refreshToken.create).toHaveBeenCalledTimes(1);
+    expect(tokens.refreshToken).toEqual(expect.any(String));
+  });
+
+  it('should fail and end every session when a concurrent refresh revoked the token first', async () => {
+    // Both requests read the token while it was live
+    (prisma.refreshToken.findUnique as jest.Mock).mockResolvedValue(stored(null));
+    (prisma.refreshToken.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+    await expect(AuthService.refresh('token')).rejects.toThrow(AuthenticationError);
+    expect(prisma.refreshToken.updateMany).toHaveBeenLastCalledWith({
+      where: { userId: 7, revokedAt: null },
+      data: { revokedAt: expect.any(Date) }
+    });
+    expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+  });
+
+  it('should fail for a token that was already revoked', async () => {
+    (prisma.refreshToken.findUnique as jest.Mock).mockResolvedValue(stored(new Date('2024-01-01T00:00:00Z')));
+    (prisma.refreshToken.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+    await expect(AuthService.refresh('token')).rejects.toThrow(AuthenticationError);
+    expect(prisma.refreshToken.create).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
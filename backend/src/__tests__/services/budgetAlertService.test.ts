@@ -0,0 +1,208 @@
+import { AlertChannel, AlertStatus, BudgetAlertRule } from '@prisma/client';
+import { BudgetAlertService } from '../../services/budgetAlertService';
+import { BudgetService } from '../../services/budgetService';
+import { getNotifier } from '../../services/notifiers';
+import { prisma } from '../../config/database';
+import { ValidationError } from '../../utils/errors';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    budgetAlertRule: { findMany: jest.fn(), create: jest.fn() },
+    budgetAlert: { createMany: jest.fn(), updateMany: jest.fn(), update: jest.fn() },
+    category: { findFirst: jest.fn() },
+    organization: { findUnique: jest.fn() }
+  }
+}));
+
+jest.mock('../../services/budgetService', () => ({
+  BudgetService: { getVariance: jest.fn() }
+}));
+
+jest.mock('../../services/notifiers', () => ({
+  getNotifier: jest.fn()
+}));
+
+describe('BudgetAlertService', () => {
+  const notifier = { send: jest.fn() };
+
+  const SALARIES = { categoryId: 1, category: 'Salaries', color: '#8884d8' };
+  const SOFTWARE = { categoryId: 2, category: 'Software & Tools', color: '#82ca9d' };
+  const HARDWARE = { categoryId: 4, category: 'Hardware & Equipment', color: '#ff7c7c' };
+
+  const rule = (id: number, thresholdPercent: number, categoryId: number | null = null): BudgetAlertRule => ({
+    id,
+    organizationId: 3,
+    categoryId,
+    thresholdPercent,
+    channel: AlertChannel.WEBHOOK,
+    target: 'https://hooks.example.com/budget',
+    isActive: true,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z')
+  });
+
+  const mockVariance = (categories: Array<typeof SALARIES & { budget: number; actual: number }>) => {
+    (BudgetService.getVariance as jest.Mock).mockResolvedValue({
+      year: 2024,
+      month: 5,
+      currency: 'EUR',
+      categories: categories.map(item => ({ ...item, variance: 0, variancePercent: null })),
+      totals: {}
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getNotifier as jest.Mock).mockReturnValue(notifier);
+    notifier.send.mockResolvedValue(undefined);
+    (prisma.organization.findUnique as jest.Mock).mockResolvedValue({ name: 'Acme Corp' });
+    (prisma.budgetAlert.createMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.budgetAlert.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+    (prisma.budgetAlert.update as jest.Mock).mockResolvedValue({});
+  });
+
+  describe('checkMonth', () => {
+    it('should notify every rule whose threshold has been reached', async () => {
+      (prisma.budgetAlertRule.findMany as jest.Mock).mockResolvedValue([rule(1, 80), rule(2, 100)]);
+      mockVariance([{ ...SALARIES, budget: 50000, actual: 45000 }]);
+
+      const sentCount = await BudgetAlertService.checkMonth(3, 5, 2024);
+
+      expect(sentCount).toBe(1);
+      expect(notifier.send).toHaveBeenCalledTimes(1);
+      expect(notifier.send).toHaveBeenCalledWith('https://hooks.example.com/budget', {
+        organizationId: 3,
+        organizationName: 'Acme Corp',
+        category: 'Salaries',
+        month: 5,
+        year: 2024,
+        thresholdPercent: 80,
+        budget: 50000,
+        actual: 45000,
+        currency: 'EUR',
+        percentUsed: 90
+      });
+      expect(prisma.budgetAlert.createMany).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ ruleId: 1, categoryId: 1, status: AlertStatus.PENDING })],
+        skipDuplicates: true
+      });
+      expect(prisma.budgetAlert.update).toHaveBeenCalledWith({
+        where: { uq_budget_alerts_rule_period: { ruleId: 1, categoryId: 1, year: 2024, month: 5 } },
+        data: { status: AlertStatus.SENT, error: null }
+      });
+    });
+
+    it('should not notify a rule again once its alert was sent or claimed by another check', async () => {
+      (prisma.budgetAlertRule.findMany as jest.Mock).mockResolvedValue([rule(1, 80)]);
+      mockVariance([{ ...SALARIES, budget: 50000, actual: 45000 }]);
+      (prisma.budgetAlert.createMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      const sentCount = await BudgetAlertService.checkMonth(3, 5, 2024);
+
+      expect(sentCount).toBe(0);
+      expect(notifier.send).not.toHaveBeenCalled();
+      expect(prisma.budgetAlert.updateMany).toHaveBeenCalledWith({
+        where: {
+          ruleId: 1,
+          categoryId: 1,
+          month: 5,
+          year: 2024,
+          OR: [
+            { status: AlertStatus.FAILED },
+            { status: AlertStatus.PENDING, updatedAt: { lt: expect.any(Date) } }
+          ]
+        },
+        data: expect.objectContaining({ status: AlertStatus.PENDING, error: null })
+      });
+      expect(prisma.budgetAlert.update).not.toHaveBeenCalled();
+    });
+
+    it('should send a failed alert again once it is claimed', async () => {
+      (prisma.budgetAlertRule.findMany as jest.Mock).mockResolvedValue([rule(1, 80)]);
+      mockVariance([{ ...SALARIES, budget: 50000, actual: 45000 }]);
+      (prisma.budgetAlert.createMany as jest.Mock).mockResolvedValue({ count: 0 });
+      (prisma.budgetAlert.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const sentCount = await BudgetAlertService.checkMonth(3, 5, 2024);
+
+      expect(sentCount).toBe(1);
+      expect(notifier.send).toHaveBeenCalledTimes(1);
+      expect(prisma.budgetAlert.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { status: AlertStatus.SENT, error: null }
+      }));
+    });
+
+    it('should skip categories without a budget and rules for other categories', async () => {
+      (prisma.budgetAlertRule.findMany as jest.Mock).mockResolvedValue([rule(1, 50, SOFTWARE.categoryId)]);
+      mockVariance([
+        { ...SALARIES, budget: 50000, actual: 60000 },
+        { ...HARDWARE, budget: 0, actual: 900 }
+      ]);
+
+      const sentCount = await BudgetAlertService.checkMonth(3, 5, 2024);
+
+      expect(sentCount).toBe(0);
+      expect(notifier.send).not.toHaveBeenCalled();
+    });
+
+    it('should record a failed delivery so it is retried later', async () => {
+      (prisma.budgetAlertRule.findMany as jest.Mock).mockResolvedValue([rule(1, 100)]);
+      mockVariance([{ ...SALARIES, budget: 50000, actual: 52000 }]);
+      notifier.send.mockRejectedValue(new Error('Webhook responded with HTTP 502'));
+
+      const sentCount = await BudgetAlertService.checkMonth(3, 5, 2024);
+
+      expect(sentCount).toBe(0);
+      expect(prisma.budgetAlert.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: {
+          status: AlertStatus.FAILED,
+          error: 'Webhook responded with HTTP 502'
+        }
+      }));
+    });
+
+    it('should only load rules that apply to the changed category', async () => {
+      (prisma.budgetAlertRule.findMany as jest.Mock).mockResolvedValue([]);
+
+      await BudgetAlertService.checkMonth(3, 5, 2024, SALARIES.categoryId);
+
+      expect(prisma.budgetAlertRule.findMany).toHaveBeenCalledWith({
+        where: {
+          organizationId: 3,
+          isActive: true,
+          OR: [{ categoryId: 1 }, { categoryId: null }]
+        }
+      });
+      expect(BudgetService.getVariance).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createRule', () => {
+    it('should reject a target that does not suit the channel', async () => {
+      await expect(BudgetAlertService.createRule(3, {
+        thresholdPercent: 80,
+        channel: AlertChannel.EMAIL,
+        target: 'https://hooks.example.com/budget'
+      })).rejects.toThrow(ValidationError);
+
+      expect(prisma.budgetAlertRule.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an archived category', async () => {
+      (prisma.category.findFirst as jest.Mock).mockResolvedValue({
+        id: 1,
+        name: 'Salaries',
+        archivedAt: new Date('2024-06-01T00:00:00Z')
+      });
+
+      await expect(BudgetAlertService.createRule(3, {
+        categoryId: 1,
+        thresholdPercent: 80,
+        channel: AlertChannel.WEBHOOK,
+        target: 'https://hooks.example.com/budget'
+      })).rejects.toThrow('Category "Salaries" is archived');
+
+      expect(prisma.budgetAlertRule.create).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
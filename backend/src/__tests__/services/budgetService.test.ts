@@ -0,0 +1,233 @@
+import { Budget, Category, Prisma } from '@prisma/client';
+import { BudgetService } from '../../services/budgetService';
+import { ExpenseService } from '../../services/expenseService';
+import { prisma } from '../../config/database';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    budget: { findMany: jest.fn() },
+    category: { findMany: jest.fn() }
+  }
+}));
+
+jest.mock('../../services/expenseService', () => ({
+  ExpenseService: { getTrends: jest.fn() }
+}));
+
+describe('BudgetService', () => {
+  const category = (id: number, name: string, color: string, parentId: number | null = null): Category => ({
+    id,
+    organizationId: 3,
+    parentId,
+    name,
+    color,
+    displayOrder: id,
+    archivedAt: null,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z')
+  });
+
+  const SALARIES = category(1, 'Salaries', '#8884d8');
+  const SOFTWARE = category(2, 'Software & Tools', '#82ca9d');
+  const HARDWARE = category(4, 'Hardware & Equipment', '#ff7c7c');
+  const SECURITY = category(5, 'Security & Compliance', '#8dd1e1');
+  const GITHUB = category(8, 'GitHub', '#24292e', SOFTWARE.id);
+  const JIRA = category(9, 'Jira', '#0052cc', SOFTWARE.id);
+
+  let nextId = 1;
+  const budget = (category: Category, amount: number, month: number | null): Budget => ({
+    id: nextId++,
+    organizationId: 3,
+    categoryId: category.id,
+    amount: new Prisma.Decimal(amount),
+    month,
+    year: 2024,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z')
+  });
+
+  const mockTrends = (actuals: Array<[Category, number, Array<[Category, number]>?]>) => {
+    (ExpenseService.getTrends as jest.Mock).mockResolvedValue({
+      data: actuals.map(([category, totalAmount, subcategories]) => ({
+        categoryId: category.id,
+        category: category.name,
+        totalAmount,
+        monthlyBreakdown: [],
+        ...(subcategories && {
+          subcategories: subcategories.map(([child, amount]) => ({
+            categoryId: child.id,
+            category: child.name,
+            amount
+          }))
+        })
+      })),
+      summary: { currency: 'USD' },
+      groupBy: 'category'
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.category.findMany as jest.Mock).mockResolvedValue([SALARIES, SOFTWARE, HARDWARE, SECURITY]);
+  });
+
+  describe('getVariance', () => {
+    it('should aggregate actual spend for the month through the trends query', async () => {
+      mockTrends([]);
+      (prisma.budget.findMany as jest.Mock).mockResolvedValue([]);
+
+      await BudgetService.getVariance(3, { year: 2024, month: 5 });
+
+      expect(ExpenseService.getTrends).toHaveBeenCalledWith(3, {
+        startYear: 2024,
+        endYear: 2024,
+        startMonth: 5,
+        endMonth: 5,
+        groupBy: 'category'
+      });
+      expect(prisma.budget.findMany).toHaveBeenCalledWith({
+        where: { organizationId: 3, year: 2024, month: 5 }
+      });
+    });
+
+    it('should report each budgeted or spent category with its variance', async () => {
+      mockTrends([[SALARIES, 52000], [SOFTWARE, 1800]]);
+      (prisma.budget.findMany as jest.Mock).mockResolvedValue([
+        budget(SALARIES, 50000, 5),
+        budget(SOFTWARE, 2000, 5),
+        budget(SECURITY, 500, 5)
+      ]);
+
+      const result = await BudgetService.getVariance(3, { year: 2024, month: 5 });
+
+      expect(result.month).toBe(5);
+      expect(result.categories).toEqual([
+        {
+          categoryId: 1,
+          category: 'Salaries',
+          parentCategoryId: null,
+          color: '#8884d8',
+          budget: 50000,
+          actual: 52000,
+          variance: 2000,
+          variancePercent: 4
+        },
+        {
+          categoryId: 2,
+          category: 'Software & Tools',
+          parentCategoryId: null,
+          color: '#82ca9d',
+          budget: 2000,
+          actual: 1800,
+          variance: -200,
+          variancePercent: -10
+        },
+        {
+          categoryId: 5,
+          category: 'Security & Compliance',
+          parentCategoryId: null,
+          color: '#8dd1e1',
+          budget: 500,
+          actual: 0,
+          variance: -500,
+          variancePercent: -100
+        }
+      ]);
+      expect(result.totals).toEqual({
+        budget: 52500,
+        actual: 53800,
+        variance: 1300,
+        variancePercent: expect.closeTo(2.476, 2)
+      });
+      expect(result.currency).toBe('USD');
+    });
+
+    it('should list categories in their display order', async () => {
+      (prisma.category.findMany as jest.Mock).mockResolvedValue([SECURITY, SALARIES]);
+      mockTrends([[SALARIES, 52000], [SECURITY, 700]]);
+      (prisma.budget.findMany as jest.Mock).mockResolvedValue([]);
+
+      const result = await BudgetService.getVariance(3, { year: 2024, month: 5 });
+
+      expect(result.categories.map(item => item.category)).toEqual(['Security & Compliance', 'Salaries']);
+    });
+
+    it('should leave the percentage empty for spend without a budget', async () => {
+      mockTrends([[HARDWARE, 900]]);
+      (prisma.budget.findMany as jest.Mock).mockResolvedValue([]);
+
+      const result = await BudgetService.getVariance(3, { year: 2024, month: 5 });
+
+      expect(result.categories).toEqual([
+        {
+          categoryId: 4,
+          category: 'Hardware & Equipment',
+          parentCategoryId: null,
+          color: '#ff7c7c',
+          budget: 0,
+          actual: 900,
+          variance: 900,
+          variancePercent: null
+        }
+      ]);
+    });
+
+    it('should include sub-category spend in the parent without counting it twice', async () => {
+      (prisma.category.findMany as jest.Mock).mockResolvedValue([SALARIES, SOFTWARE, GITHUB, JIRA]);
+      mockTrends([[SALARIES, 50000], [SOFTWARE, 2000, [[GITHUB, 800], [JIRA, 600]]]]);
+      (prisma.budget.findMany as jest.Mock).mockResolvedValue([
+        budget(SALARIES, 50000, 5),
+        budget(SOFTWARE, 2500, 5),
+        budget(GITHUB, 1000, 5)
+      ]);
+
+      const result = await BudgetService.getVariance(3, { year: 2024, month: 5 });
+
+      expect(result.categories.map(item => [item.category, item.parentCategoryId, item.budget, item.actual])).toEqual([
+        ['Salaries', null, 50000, 50000],
+        ['Software & Tools', null, 2500, 2000],
+        ['GitHub', SOFTWARE.id, 1000, 800],
+        ['Jira', SOFTWARE.id, 0, 600]
+      ]);
+      // The GitHub budget is part of the Software & Tools budget
+      expect(result.totals).toMatchObject({ budget: 52500, actual: 52000 });
+    });
+
+    it('should count sub-category budgets when their parent has none', async () => {
+      (prisma.category.findMany as jest.Mock).mockResolvedValue([SOFTWARE, GITHUB, JIRA]);
+      mockTrends([[SOFTWARE, 1400, [[GITHUB, 800], [JIRA, 600]]]]);
+      (prisma.budget.findMany as jest.Mock).mockResolvedValue([
+        budget(GITHUB, 1000, 5),
+        budget(JIRA, 500, 5)
+      ]);
+
+      const result = await BudgetService.getVariance(3, { year: 2024, month: 5 });
+
+      expect(result.totals).toMatchObject({ budget: 1500, actual: 1400, variance: -100 });
+    });
+
+    it('should prefer a yearly total over the sum of monthly budgets for a whole year', async () => {
+      mockTrends([[SALARIES, 600000], [SOFTWARE, 20000]]);
+      (prisma.budget.findMany as jest.Mock).mockResolvedValue([
+        budget(SALARIES, 50000, 1),
+        budget(SALARIES, 50000, 2),
+        budget(SALARIES, 580000, null),
+        budget(SOFTWARE, 2000, 1),
+        budget(SOFTWARE, 2500, 2)
+      ]);
+
+      const result = await BudgetService.getVariance(3, { year: 2024 });
+
+      expect(ExpenseService.getTrends).toHaveBeenCalledWith(3, {
+        startYear: 2024,
+        endYear: 2024,
+        groupBy: 'category'
+      });
+      expect(result.month).toBeNull();
+      expect(result.categories.map(item => [item.category, item.budget])).toEqual([
+        ['Salaries', 580000],
+        ['Software & Tools', 4500]
+      ]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { CommentService } from '../../services/commentService';
+import { prisma } from '../../config/database';
+import { ForbiddenError, NotFoundError, ValidationError } from '../../utils/errors';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    cost: { findFirst: jest.fn() },
+    organizationMember: { count: jest.fn() },
+    costComment: { create: jest.fn(), findFirst: jest.fn(), update: jest.fn(), delete: jest.fn() },
+    $queryRaw: jest.fn()
+  }
+}));
+
+describe('CommentService', () => {
+  const comment = {
+    id: 4,
+    organizationId: 1,
+    costId: 3,
+    authorId: 7,
+    body: 'Why did hosting jump 40% in June? @Dana Ops',
+    createdAt: new Date('2024-07-02T09:00:00Z'),
+    editedAt: null,
+    author: { id: 7, name: 'Finance Admin' },
+    mentions: [{ commentId: 4, userId: 8, user: { id: 8, name: 'Dana Ops' } }]
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.cost.findFirst as jest.Mock).mockResolvedValue({ id: 3 });
+    (prisma.organizationMember.count as jest.Mock).mockResolvedValue(1);
+    (prisma.costComment.create as jest.Mock).mockResolvedValue(comment);
+    (prisma.costComment.findFirst as jest.Mock).mockResolvedValue({ authorId: 7 });
+    (prisma.costComment.update as jest.Mock).mockResolvedValue({
+      ...comment,
+      editedAt: new Date('2024-07-02T10:00:00Z'),
+      mentions: []
+    });
+  });
+
+  it('should add a comment with its mentions', async () => {
+    const result = await CommentService.createComment(1, 3, { body: comment.body, mentions: [8] }, 7);
+
+    expect(prisma.organizationMember.count).toHaveBeenCalledWith({
+      where: { organizationId: 1, userId: { in: [8] }, user: { isActive: true } }
+    });
+    expect(prisma.costComment.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: {
+        organizationId: 1,
+        costId: 3,
+        authorId: 7,
+        body: comment.body,
+        mentions: { create: [{ userId: 8 }] }
+      }
+    }));
+    expect(result).toEqual({
+      id: 4,
+      costId: 3,
+      body: comment.body,
+      author: { id: 7, name: 'Finance Admin' },
+      mentions: [{ id: 8, name: 'Dana Ops' }],
+      createdAt: '2024-07-02T09:00:00.000Z',
+      editedAt: null
+    });
+  });
+
+  it('should only mention members of the organization', async () => {
+    (prisma.organizationMember.count as jest.Mock).mockResolvedValue(1);
+
+    await expect(CommentService.createComment(1, 3, { body: 'See @Someone', mentions: [8, 99] }, 7))
+      .rejects.toThrow(ValidationError);
+    expect(prisma.costComment.create).not.toHaveBeenCalled();
+  });
+
+  it('should not comment on expenses that are missing or trashed', async () => {
+    (prisma.cost.findFirst as jest.Mock).mockResolvedValue(null);
+
+    await expect(CommentService.createComment(1, 3, { body: 'Hello' }, 7)).rejects.toThrow(NotFoundError);
+    expect(prisma.costComment.create).not.toHaveBeenCalled();
+  });
+
+  it('should edit the author\'s own comment and replace its mentions', async () => {
+    const result = await CommentService.updateComment(1, 3, 4, { body: 'Answered in the invoice', mentions: [] }, 7);
+
+    expect(prisma.costComment.update).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 4 },
+      data: {
+        body: 'Answered in the invoice',
+        editedAt: expect.any(Date),
+        mentions: { deleteMany: {}, create: [] }
+      }
+    }));
+    expect(result.editedAt).toBe('2024-07-02T10:00:00.000Z');
+  });
+
+  it('should not let users change or delete the comments of others', async () => {
+    await expect(CommentService.updateComment(1, 3, 4, { body: 'Rewritten' }, 8)).rejects.toThrow(ForbiddenError);
+    await expect(CommentService.deleteComment(1, 3, 4, 8)).rejects.toThrow(ForbiddenError);
+    expect(prisma.costComment.update).not.toHaveBeenCalled();
+    expect(prisma.costComment.delete).not.toHaveBeenCalled();
+  });
+
+  it('should delete the author\'s own comment', async () => {
+    await CommentService.deleteComment(1, 3, 4, 7);
+
+    expect(prisma.costComment.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 4, costId: 3, organizationId: 1, cost: { deletedAt: null } }
+    }));
+    expect(prisma.costComment.delete).toHaveBeenCalledWith({ where: { id: 4 } });
+  });
+
+  it('should count unread comments per expense', async () => {
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue([
+      { cost_id: 3, unread_count: BigInt(2), mentioned: true },
+      { cost_id: 5, unread_count: BigInt(1), mentioned: false }
+    ]);
+
+    await expect(CommentService.getUnread(1, 7)).resolves.toEqual([
+      { costId: 3, unreadCount: 2, mentioned: true },
+      { costId: 5, unreadCount: 1, mentioned: false }
+    ]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { Prisma } from '@prisma/client';
+import { ExchangeRateService } from '../../services/exchangeRateService';
+import { prisma } from '../../config/database';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    organization: { findUnique: jest.fn() },
+    exchangeRate: { findMany: jest.fn() }
+  }
+}));
+
+describe('ExchangeRateService', () => {
+  const rate = (baseCurrency: string, quoteCurrency: string, value: number, effectiveDate: string) => ({
+    id: 1,
+    baseCurrency,
+    quoteCurrency,
+    rate: new Prisma.Decimal(value),
+    effectiveDate: new Date(`${effectiveDate}T00:00:00Z`),
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z')
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.organization.findUnique as jest.Mock).mockResolvedValue({ reportingCurrency: 'USD' });
+  });
+
+  describe('parseCsv', () => {
+    it('should read rates from columns in any order', () => {
+      const rates = ExchangeRateService.parseCsv(
+        'effective_date,rate,base_currency,quote_currency\r\n2024-03-01,1.0850,eur,USD\r\n\r\n2024-03-01,0.0067,JPY,USD\r\n'
+      );
+
+      expect(rates).toEqual([
+        { baseCurrency: 'EUR', quoteCurrency: 'USD', rate: 1.085, effectiveDate: new Date('2024-03-01') },
+        { baseCurrency: 'JPY', quoteCurrency: 'USD', rate: 0.0067, effectiveDate: new Date('2024-03-01') }
+      ]);
+    });
+
+    it('should reject a header without the required columns', () => {
+      expect(() => ExchangeRateService.parseCsv('base_currency,rate\nEUR,1.08'))
+        .toThrow(new ValidationError('CSV header is missing: quote_currency, effective_date'));
+    });
+
+    it('should report the line of an invalid rate', () => {
+      expect(() => ExchangeRateService.parseCsv(
+        'base_currency,quote_currency,rate,effective_date\nEUR,USD,1.08,2024-03-01\nGBP,USD,-1,2024-03-01'
+      )).toThrow(new ValidationError('Line 3: Rate must be a positive number'));
+    });
+  });
+
+  describe('createConverter', () => {
+    it('should convert at the latest rate in effect by the end of the month', async () => {
+      (prisma.exchangeRate.findMany as jest.Mock).mockResolvedValue([
+        rate('EUR', 'USD', 1.1, '2024-04-01'),
+        rate('EUR', 'USD', 1.08, '2024-03-31'),
+        rate('EUR', 'USD', 1.05, '2024-01-15')
+      ]);
+
+      const converter = await ExchangeRateService.createConverter(3, ['EUR', 'USD', 'EUR']);
+
+      expect(converter.reportingCurrency).toBe('USD');
+      expect(converter.convert(1000, 'EUR', 3, 2024)).toBe(1080);
+      expect(converter.convert(1000, 'EUR', 2, 2024)).toBe(1050);
+      expect(converter.convert(1000, 'USD', 2, 2024)).toBe(1000);
+      expect(prisma.exchangeRate.findMany).toHaveBeenCalledWith({
+        where: {
+          OR: [
+            { baseCurrency: { in: ['EUR'] }, quoteCurrency: 'USD' },
+            { baseCurrency: 'USD', quoteCurrency: { in: ['EUR'] } }
+          ]
+        },
+        orderBy: { effectiveDate: 'desc' }
+      });
+    });
+
+    it('should invert rates quoted from the reporting currency', async () => {
+      (prisma.exchangeRate.findMany as jest.Mock).mockResolvedValue([rate('USD', 'GBP', 0.8, '2024-01-01')]);
+
+      const converter = await ExchangeRateService.createConverter(3, ['GBP']);
+
+      expect(converter.convert(100, 'GBP', 6, 2024)).toBe(125);
+    });
+
+    it('should return null when no rate is in effect yet', async () => {
+      (prisma.exchangeRate.findMany as jest.Mock).mockResolvedValue([rate('EUR', 'USD', 1.08, '2024-03-01')]);
+
+      const converter = await ExchangeRateService.createConverter(3, ['EUR', 'CHF']);
+
+      expect(converter.convert(1000, 'EUR', 2, 2024)).toBeNull();
+      expect(converter.convert(1000, 'CHF', 3, 2024)).toBeNull();
+    });
+
+    it('should not look up rates when every amount is in the reporting currency', async () => {
+      const converter = await ExchangeRateService.createConverter(3, ['USD']);
+
+      expect(converter.convert(250.5, 'USD', 1, 2024)).toBe(250.5);
+      expect(prisma.exchangeRate.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError for an unknown organization', async () => {
+      (prisma.organization.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(ExchangeRateService.createConverter(99, [])).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getRatePeriods', () => {
+    it('should give the months each rate converts, the newest rate of a month winning', async () => {
+      (prisma.exchangeRate.findMany as jest.Mock).mockResolvedValue([
+        rate('EUR', 'USD', 1.1, '2024-04-01'),
+        rate('EUR', 'USD', 1.08, '2024-03-31'),
+        rate('EUR', 'USD', 1.06, '2024-03-01'),
+        rate('USD', 'GBP', 0.8, '2023-11-15')
+      ]);
+
+      const { reportingCurrency, periods } = await ExchangeRateService.getRatePeriods(3, ['EUR', 'GBP', 'USD']);
+
+      expect(reportingCurrency).toBe('USD');
+      expect(periods).toEqual([
+        { currency: 'EUR', rate: 1.1, start: { year: 2024, month: 4 }, end: null },
+        { currency: 'EUR', rate: 1.08, start: { year: 2024, month: 3 }, end: { year: 2024, month: 3 } },
+        { currency: 'GBP', rate: 1.25, start: { year: 2023, month: 11 }, end: null }
+      ]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,151 @@
+import { ExpenseService } from '../../services/expenseService';
+import { ExchangeRateService } from '../../services/exchangeRateService';
+import { AnomalyService } from '../../services/anomalyService';
+import { BudgetAlertService } from '../../services/budgetAlertService';
+import { CategoryService } from '../../services/categoryService';
+import { AuditService } from '../../services/auditService';
+import { ApprovalService } from '../../services/approvalService';
+import { prisma } from '../../config/database';
+import { ValidationError } from '../../utils/errors';
+import { BatchRequest } from '../../types/expense';
+import { CostStatus } from '@prisma/client';
+
+const tx = {
+  cost: { create: jest.fn(), findFirst: jest.fn(), update: jest.fn() }
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: { $transaction: jest.fn() }
+}));
+
+jest.mock('../../services/exchangeRateService', () => ({
+  ExchangeRateService: { createConverter: jest.fn() }
+}));
+
+jest.mock('../../services/anomalyService', () => ({
+  AnomalyService: { attachAnomalies: jest.fn(), checkAfterExpenseChange: jest.fn() }
+}));
+
+jest.mock('../../services/budgetAlertService', () => ({
+  BudgetAlertService: { checkAfterExpenseChange: jest.fn() }
+}));
+
+jest.mock('../../services/categoryService', () => ({
+  CategoryService: { requireActiveCategory: jest.fn() }
+}));
+
+jest.mock('../../services/periodLockService', () => ({
+  PeriodLockService: { requireOpenPeriod: jest.fn() }
+}));
+
+jest.mock('../../services/approvalService', () => ({
+  ApprovalService: { createPolicy: jest.fn(), recordStatusChange: jest.fn() }
+}));
+
+jest.mock('../../services/auditService', () => ({
+  AuditService: { recordCostChange: jest.fn() }
+}));
+
+describe('ExpenseService.batchExpenses', () => {
+  const context = { userId: 1, ipAddress: '127.0.0.1' };
+
+  const cost = (id: number, amount: number, month = 6) => ({
+    id,
+    organizationId: 1,
+    categoryId: 1,
+    category: { id: 1, name: 'Salaries', parentId: null, parent: null },
+    costCenterId: null,
+    costCenter: null,
+    amount,
+    currency: 'EUR',
+    month,
+    year: 2024,
+    description: null,
+    vendor: null,
+    invoiceNumber: null,
+    invoiceDate: null,
+    notes: null,
+    createdAt: new Date('2024-07-01T00:00:00Z'),
+    updatedAt: new Date('2024-07-01T00:00:00Z'),
+    tags: [],
+    _count: { attachments: 0, comments: 0 }
+  });
+
+  const batch = (atomic: boolean): BatchRequest => ({
+    atomic,
+    operations: [
+      { action: 'create', data: { categoryId: 1, amount: 500, month: 6, year: 2024 } },
+      { action: 'update', id: 2, data: { amount: 1200 } },
+      { action: 'delete', id: 3 }
+    ]
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation(fn => fn(tx));
+    (ExchangeRateService.createConverter as jest.Mock).mockResolvedValue({
+      reportingCurrency: 'EUR',
+      convert: (amount: number) => amount
+    });
+    (AnomalyService.attachAnomalies as jest.Mock).mockImplementation((_, expenses) => Promise.resolve(expenses));
+    (ApprovalService.createPolicy as jest.Mock).mockResolvedValue({ threshold: null, statusFor: () => CostStatus.APPROVED });
+    (tx.cost.create as jest.Mock).mockResolvedValue(cost(9, 500));
+    (tx.cost.findFirst as jest.Mock).mockImplementation(({ where }) =>
+      Promise.resolve([2, 3].includes(where.id) ? cost(where.id, 1000) : null)
+    );
+    (tx.cost.update as jest.Mock).mockImplementation(({ where }) =>
+      Promise.resolve(where.id === 2 ? cost(2, 1200) : { ...cost(3, 1000, 5), deletedAt: new Date() })
+    );
+  });
+
+  it('should save every operation and check each changed month once', async () => {
+    const result = await ExpenseService.batchExpenses(1, batch(true), context);
+
+    expect(result).toMatchObject({ committed: true, succeeded: 3, failed: 0 });
+    expect(result.results.map(operation => [operation.status, operation.id])).toEqual([
+      ['succeeded', 9],
+      ['succeeded', 2],
+      ['succeeded', 3]
+    ]);
+    expect(result.results[1]!.expense).toMatchObject({ id: 2, amount: 1200 });
+    expect(result.results[2]!.expense).toBeNull();
+    expect(AuditService.recordCostChange).toHaveBeenCalledTimes(3);
+
+    // The create and update share June; the delete was in May
+    expect(BudgetAlertService.checkAfterExpenseChange).toHaveBeenCalledTimes(1);
+    expect(AnomalyService.checkAfterExpenseChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('should roll back an atomic batch when an operation fails', async () => {
+    (tx.cost.findFirst as jest.Mock).mockResolvedValue(null);
+
+    const result = await ExpenseService.batchExpenses(1, batch(true), context);
+
+    expect(result).toMatchObject({ committed: false, succeeded: 0, failed: 1 });
+    expect(result.results.map(operation => [operation.status, operation.id])).toEqual([
+      ['rolled_back', null],
+      ['failed', 2],
+      ['skipped', 3]
+    ]);
+    expect(result.results[1]!.error).toEqual({ code: 'NOT_FOUND', message: 'Expense with ID 2 not found' });
+    expect(tx.cost.update).not.toHaveBeenCalled();
+    expect(BudgetAlertService.checkAfterExpenseChange).not.toHaveBeenCalled();
+  });
+
+  it('should save the other operations when a batch is not atomic', async () => {
+    (CategoryService.requireActiveCategory as jest.Mock).mockRejectedValue(
+      new ValidationError('Category is archived')
+    );
+
+    const result = await ExpenseService.batchExpenses(1, batch(false), context);
+
+    expect(result).toMatchObject({ committed: true, succeeded: 2, failed: 1 });
+    expect(result.results[0]).toMatchObject({
+      status: 'failed',
+      id: null,
+      error: { code: 'VALIDATION_ERROR', message: 'Category is archived' }
+    });
+    expect(tx.cost.create).not.toHaveBeenCalled();
+    expect(tx.cost.update).toHaveBeenCalledWith({ where: { id: 3 }, data: { deletedAt: expect.any(Date) } });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,324 @@
+import { deflateRawSync } from 'zlib';
+import { CostAuditAction, CostStatus } from '@prisma/client';
+import { ExpenseImportService } from '../../services/expenseImportService';
+import { AuditService } from '../../services/auditService';
+import { ApprovalService } from '../../services/approvalService';
+import { CategoryService } from '../../services/categoryService';
+import { CostCenterService } from '../../services/costCenterService';
+import { ExchangeRateService } from '../../services/exchangeRateService';
+import { PeriodLockService } from '../../services/periodLockService';
+import { prisma } from '../../config/database';
+import { ImportConflictMode } from '../../types/expenseImport';
+import { ValidationError } from '../../utils/errors';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    cost: { findMany: jest.fn() },
+    $transaction: jest.fn()
+  }
+}));
+
+jest.mock('../../services/categoryService', () => ({
+  CategoryService: { getCategories: jest.fn() }
+}));
+
+jest.mock('../../services/costCenterService', () => ({
+  CostCenterService: { getCostCenters: jest.fn() }
+}));
+
+jest.mock('../../services/exchangeRateService', () => ({
+  ExchangeRateService: { createConverter: jest.fn() }
+}));
+
+jest.mock('../../services/periodLockService', () => ({
+  PeriodLockService: { getLocks: jest.fn(), requireOpenPeriods: jest.fn() }
+}));
+
+jest.mock('../../services/approvalService', () => ({
+  ApprovalService: { createPolicy: jest.fn(), recordStatusChange: jest.fn() }
+}));
+
+jest.mock('../../services/auditService', () => ({
+  AuditService: { recordCostChange: jest.fn() }
+}));
+
+// Build a ZIP archive; the first file is stored, the others deflated
+const zip = (files: Record<string, string>): Buffer => {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content], index) => {
+    const fileName = Buffer.from(name);
+    const method = index === 0 ? 0 : 8;
+    const data = method === 0 ? Buffer.from(content) : deflateRawSync(Buffer.from(content));
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(method, 8);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt32LE(Buffer.byteLength(content), 22);
+    header.writeUInt16LE(fileName.length, 26);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(method, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(Buffer.byteLength(content), 24);
+    entry.writeUInt16LE(fileName.length, 28);
+    entry.writeUInt32LE(offset, 42);
+
+    parts.push(header, fileName, data);
+    directory.push(entry, fileName);
+    offset += header.length + fileName.length + data.length;
+  });
+
+  const centralDirectory = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, centralDirectory, end]);
+};
+
+describe('ExpenseImportService', () => {
+  const tx = {
+    cost: { findMany: jest.fn(), create: jest.fn(), update: jest.fn() }
+  };
+  const context = { userId: 7, ipAddress: '10.0.0.1' };
+
+  const csv = (...lines: string[]) => Buffer.from(lines.join('\n'));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (CategoryService.getCategories as jest.Mock).mockResolvedValue([
+      { id: 1, parentId: null, name: 'Salaries', archived: false },
+      { id: 2, parentId: null, name: 'Software & Tools', archived: false },
+      { id: 9, parentId: null, name: 'Travel', archived: true }
+    ]);
+    (CostCenterService.getCostCenters as jest.Mock).mockResolvedValue([
+      { id: 4, name: 'Platform', archived: false }
+    ]);
+    (ExchangeRateService.createConverter as jest.Mock).mockResolvedValue({ reportingCurrency: 'USD' });
+    (PeriodLockService.getLocks as jest.Mock).mockResolvedValue([]);
+    (ApprovalService.createPolicy as jest.Mock).mockResolvedValue({ threshold: null, statusFor: () => CostStatus.APPROVED });
+    (prisma.cost.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.$transaction as jest.Mock).mockImplementation(async (callback: (client: typeof tx) => unknown) => callback(tx));
+    tx.cost.findMany.mockResolvedValue([]);
+    tx.cost.create.mockImplementation(async ({ data }) => ({ id: 100, ...data }));
+    tx.cost.update.mockImplementation(async ({ where, data }) => ({ id: where.id, ...data }));
+  });
+
+  describe('preview', () => {
+    it('should validate every row and report errors by row number', async () => {
+      const preview = await ExpenseImportService.preview(3, csv(
+        'Category,Cost Center,Month,Year,Amount,Vendor',
+        'Salaries,Platform,March,2024,"$50,000.00",',
+        '',
+        'Marketing,,3,2024,100,',
+        'Travel,,3,2024,100,',
+        'Software & Tools,Data,13,2024,-5,Atlassian'
+      ), 'csv', { onConflict: ImportConflictMode.SKIP });
+
+      expect(preview.headers).toEqual(['Category', 'Cost Center', 'Month', 'Year', 'Amount', 'Vendor']);
+      expect(preview.mapping).toMatchObject({ category: 'Category', costCenter: 'Cost Center', amount: 'Amount', currency: null });
+      expect(preview.rows).toEqual([
+        {
+          row: 2,
+          expense: { categoryId: 1, costCenterId: 4, amount: 50000, month: 3, year: 2024 },
+          errors: [],
+          conflictingExpenseIds: [],
+          duplicateOfRow: null
+        },
+        expect.objectContaining({ row: 4, expense: null, errors: ['Unknown category "Marketing"'] }),
+        expect.objectContaining({ row: 5, expense: null, errors: ['Category "Travel" is archived'] }),
+        expect.objectContaining({
+          row: 6,
+          expense: null,
+          errors: [
+            'Unknown cost center "Data"',
+            'Amount must be a positive number',
+            'Month must be between 1 and 12'
+          ]
+        })
+      ]);
+      expect(preview.summary).toEqual({ total: 4, valid: 1, invalid: 3, conflicts: 0, duplicates: 0 });
+    });
+
+    it('should flag rows matching existing expenses or earlier rows', async () => {
+      (prisma.cost.findMany as jest.Mock).mockResolvedValue([
+        { id: 31, categoryId: 2, month: 1, year: 2024, invoiceNumber: null },
+        { id: 32, categoryId: 2, month: 1, year: 2024, invoiceNumber: 'INV-9' }
+      ]);
+
+      const preview = await ExpenseImportService.preview(3, csv(
+        'category,month,year,amount,invoice_number',
+        'Software & Tools,1,2024,300,',
+        'Software & Tools,1,2024,200,INV-1',
+        'Software & Tools,1,2024,200,INV-1'
+      ), 'csv', { onConflict: ImportConflictMode.SKIP });
+
+      expect(preview.rows.map(({ conflictingExpenseIds, duplicateOfRow }) => ({ conflictingExpenseIds, duplicateOfRow }))).toEqual([
+        { conflictingExpenseIds: [31], duplicateOfRow: null },
+        { conflictingExpenseIds: [], duplicateOfRow: null },
+        { conflictingExpenseIds: [], duplicateOfRow: 3 }
+      ]);
+      expect(preview.summary).toMatchObject({ conflicts: 1, duplicates: 1 });
+    });
+
+    it('should report rows in closed months', async () => {
+      (PeriodLockService.getLocks as jest.Mock).mockResolvedValue([{ id: 1, month: 2, year: 2024 }]);
+
+      const preview = await ExpenseImportService.preview(3, csv(
+        'category,month,year,amount',
+        'Salaries,1,2024,1000',
+        'Salaries,2,2024,1000'
+      ), 'csv', { onConflict: ImportConflictMode.SKIP });
+
+      expect(preview.rows[0]).toMatchObject({ expense: { month: 1 }, errors: [] });
+      expect(preview.rows[1]).toMatchObject({ expense: null, errors: ['2/2024 is closed'] });
+    });
+
+    it('should use mapped columns', async () => {
+      const preview = await ExpenseImportService.preview(3, csv(
+        'Cost Type,Period Month,Period Year,Total',
+        'Salaries,2,2024,1000'
+      ), 'csv', {
+        columns: { category: 'Cost Type', month: 'Period Month', year: 'Period Year', amount: 'Total' },
+        onConflict: ImportConflictMode.SKIP
+      });
+
+      expect(preview.rows[0]?.expense).toEqual({ categoryId: 1, amount: 1000, month: 2, year: 2024 });
+    });
+
+    it('should reject files without the required columns', async () => {
+      await expect(ExpenseImportService.preview(3, csv('Category,Amount', 'Salaries,10'), 'csv', {
+        onConflict: ImportConflictMode.SKIP
+      })).rejects.toThrow(new ValidationError('No column found for: month, year'));
+
+      await expect(ExpenseImportService.preview(3, csv('Category,Month,Year,Amount'), 'csv', {
+        columns: { amount: 'Total' },
+        onConflict: ImportConflictMode.SKIP
+      })).rejects.toThrow(new ValidationError('Column "Total" mapped to amount is not in the file'));
+    });
+
+    it('should read the first worksheet of an XLSX workbook', async () => {
+      const workbook = zip({
+        'xl/workbook.xml': '<workbook><sheets><sheet name="Costs" sheetId="1" r:id="rId1"/></sheets></workbook>',
+        'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/costs.xml"/></Relationships>',
+        'xl/sharedStrings.xml': '<sst><si><t>Category</t></si><si><t>Month</t></si><si><t>Year</t></si>' +
+          '<si><t>Amount</t></si><si><t>Invoice Date</t></si><si><r><t>Software </t></r><r><t>&amp; Tools</t></r></si></sst>',
+        'xl/worksheets/costs.xml': '<worksheet><sheetData>' +
+          '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c>' +
+          '<c r="D1" t="s"><v>3</v></c><c r="E1" t="s"><v>4</v></c></row>' +
+          '<row r="3"><c r="A3" t="s"><v>5</v></c><c r="B3"><v>3</v></c><c r="C3"><v>2024</v></c>' +
+          '<c r="D3"><v>1250.5</v></c><c r="E3" s="1"><v>45366</v></c></row>' +
+          '</sheetData></worksheet>'
+      });
+
+      const preview = await ExpenseImportService.preview(3, workbook, 'xlsx', { onConflict: ImportConflictMode.SKIP });
+
+      expect(preview.rows).toEqual([
+        expect.objectContaining({
+          row: 3,
+          expense: { categoryId: 2, amount: 1250.5, month: 3, year: 2024, invoiceDate: new Date('2024-03-15') }
+        })
+      ]);
+    });
+
+    it('should only unpack the parts of a workbook it reads, up to a total size', async () => {
+      const parts = {
+        'xl/workbook.xml': '<workbook><sheets><sheet name="Costs" sheetId="1" r:id="rId1"/></sheets></workbook>',
+        'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>'
+      };
+      // Deflates to a few hundred kilobytes
+      const filler = 'x'.repeat(101 * 1024 * 1024);
+
+      const unread = zip({ ...parts, 'xl/worksheets/sheet1.xml': '<worksheet/>', 'xl/media/filler.bin': filler });
+      await expect(ExpenseImportService.preview(3, unread, 'xlsx', { onConflict: ImportConflictMode.SKIP }))
+        .rejects.toThrow(new ValidationError('No column found for: category, amount, month, year'));
+
+      const bomb = zip({ ...parts, 'xl/worksheets/sheet1.xml': `<worksheet>${filler}</worksheet>` });
+      await expect(ExpenseImportService.preview(3, bomb, 'xlsx', { onConflict: ImportConflictMode.SKIP }))
+        .rejects.toThrow(new ValidationError('File is too large to import once unpacked'));
+    });
+
+    it('should reject files that are not XLSX workbooks', async () => {
+      await expect(ExpenseImportService.preview(3, Buffer.from('Category,Month'), 'xlsx', {
+        onConflict: ImportConflictMode.SKIP
+      })).rejects.toThrow(new ValidationError('File could not be read as an XLSX workbook'));
+    });
+  });
+
+  describe('import', () => {
+    const file = csv(
+      'Category,Month,Year,Amount,Currency',
+      'Salaries,1,2024,1000,',
+      'Software & Tools,1,2024,200,EUR'
+    );
+
+    it('should save nothing while any row has errors', async () => {
+      await expect(ExpenseImportService.import(3, csv(
+        'Category,Month,Year,Amount',
+        'Salaries,1,2024,1000',
+        'Marketing,1,2024,5'
+      ), 'csv', { onConflict: ImportConflictMode.ADD }, context)).rejects.toThrow(
+        new ValidationError('1 of 2 rows have errors, starting with row 3: Unknown category "Marketing"')
+      );
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should create every row in one transaction', async () => {
+      const result = await ExpenseImportService.import(3, file, 'csv', { onConflict: ImportConflictMode.ADD }, context);
+
+      expect(result).toEqual({ created: 2, updated: 0, skipped: 0 });
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(tx.cost.findMany).not.toHaveBeenCalled();
+      expect(tx.cost.create).toHaveBeenCalledWith({
+        data: { organizationId: 3, categoryId: 1, month: 1, year: 2024, costCenterId: null, amount: 1000, currency: 'USD', status: CostStatus.APPROVED }
+      });
+      expect(tx.cost.create).toHaveBeenCalledWith({
+        data: { organizationId: 3, categoryId: 2, month: 1, year: 2024, costCenterId: null, amount: 200, currency: 'EUR', status: CostStatus.APPROVED }
+      });
+      expect(AuditService.recordCostChange).toHaveBeenCalledWith(
+        tx, CostAuditAction.CREATE, expect.objectContaining({ categoryId: 1 }), null, context
+      );
+    });
+
+    it('should skip rows matching existing expenses', async () => {
+      tx.cost.findMany.mockResolvedValueOnce([{ id: 31, amount: 900 }]).mockResolvedValueOnce([]);
+
+      const result = await ExpenseImportService.import(3, file, 'csv', { onConflict: ImportConflictMode.SKIP }, context);
+
+      expect(result).toEqual({ created: 1, updated: 0, skipped: 1 });
+      expect(tx.cost.findMany).toHaveBeenCalledWith({
+        where: { organizationId: 3, categoryId: 1, month: 1, year: 2024, invoiceNumber: null, deletedAt: null },
+        orderBy: { id: 'asc' }
+      });
+      expect(tx.cost.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should replace every matching expense when overwriting', async () => {
+      tx.cost.findMany.mockResolvedValueOnce([{ id: 31, amount: 900 }, { id: 32, amount: 50 }]).mockResolvedValueOnce([]);
+
+      const result = await ExpenseImportService.import(3, file, 'csv', { onConflict: ImportConflictMode.OVERWRITE }, context);
+
+      expect(result).toEqual({ created: 1, updated: 1, skipped: 0 });
+      expect(tx.cost.update).toHaveBeenCalledWith({
+        where: { id: 31 },
+        data: { costCenterId: null, amount: 1000, currency: 'USD', status: CostStatus.APPROVED, updatedAt: expect.any(Date) }
+      });
+      expect(tx.cost.update).toHaveBeenCalledWith({ where: { id: 32 }, data: { deletedAt: expect.any(Date) } });
+      expect(AuditService.recordCostChange).toHaveBeenCalledWith(
+        tx, CostAuditAction.UPDATE, expect.objectContaining({ id: 31 }), 900, context
+      );
+      expect(AuditService.recordCostChange).toHaveBeenCalledWith(
+        tx, CostAuditAction.DELETE, expect.objectContaining({ id: 32 }), 50, context
+      );
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { ExpenseService } from '../../services/expenseService';
+import { ExchangeRateService } from '../../services/exchangeRateService';
+import { AnomalyService } from '../../services/anomalyService';
+import { prisma } from '../../config/database';
+import { Prisma } from '@prisma/client';
+import { encodeCursor } from '../../utils/pagination';
+import { ValidationError } from '../../utils/errors';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    cost: { findMany: jest.fn() },
+    $queryRaw: jest.fn()
+  }
+}));
+
+jest.mock('../../services/exchangeRateService', () => ({
+  ExchangeRateService: { createConverter: jest.fn() }
+}));
+
+jest.mock('../../services/anomalyService', () => ({
+  AnomalyService: { attachAnomalies: jest.fn() }
+}));
+
+// The flattened text and values of the query for the page of expense IDs
+const pageQuery = () => {
+  const call = (prisma.$queryRaw as jest.Mock).mock.calls
+    .find(([strings]) => strings.join('').includes('SELECT c.id'));
+  const query = Prisma.sql(call[0], ...call.slice(1));
+  return { text: query.text.replace(/\s+/g, ' '), values: query.values };
+};
+
+describe('ExpenseService.getExpenses paging', () => {
+  const cost = (id: number, month: number, categoryId: number) => ({
+    id,
+    organizationId: 1,
+    categoryId,
+    category: { id: categoryId, name: 'Salaries', parentId: null, parent: null },
+    costCenterId: null,
+    costCenter: null,
+    amount: 1000,
+    currency: 'EUR',
+    month,
+    year: 2024,
+    description: null,
+    vendor: null,
+    invoiceNumber: null,
+    invoiceDate: null,
+    notes: null,
+    createdAt: new Date('2024-07-01T00:00:00Z'),
+    updatedAt: new Date('2024-07-01T00:00:00Z'),
+    tags: [],
+    _count: { attachments: 0, comments: 0 }
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ExchangeRateService.createConverter as jest.Mock).mockResolvedValue({
+      reportingCurrency: 'EUR',
+      convert: (amount: number) => amount
+    });
+    (AnomalyService.attachAnomalies as jest.Mock).mockImplementation((_, expenses) => Promise.resolve(expenses));
+  });
+
+  // The page of IDs the query returns, loaded in another order
+  const page = (...costs: ReturnType<typeof cost>[]) => {
+    (prisma.$queryRaw as jest.Mock).mockImplementation((strings: string[]) =>
+      Promise.resolve(strings.join('').includes('count(*)') ? [{ count: 3 }] : costs.map(({ id }) => ({ id })))
+    );
+    (prisma.cost.findMany as jest.Mock).mockResolvedValue([...costs].reverse());
+  };
+
+  it('should page by offset in the sort order', async () => {
+    page(cost(1, 6, 1));
+
+    const result = await ExpenseService.getExpenses(1, { sortBy: 'amount', sortOrder: 'asc', limit: 1, offset: 2 });
+
+    const { text, values } = pageQuery();
+    expect(text).toContain('ORDER BY c.amount ASC, c.year DESC, c.month DESC, c.id ASC LIMIT $2 OFFSET $3');
+    expect(values).toEqual([1, 1, 2]);
+    expect(result).toMatchObject({ total: 3, nextCursor: null });
+  });
+
+  it('should fetch one extra row on the first keyset page and return the cursor of its last row', async () => {
+    page(cost(7, 6, 1), cost(4, 6, 2), cost(5, 5, 1));
+
+    const result = await ExpenseService.getExpenses(1, { cursor: '', limit: 2 });
+
+    const { text, values } = pageQuery();
+    expect(text).toContain('WHERE c.organization_id = $1 AND c.deleted_at IS NULL ORDER BY');
+    expect(text).toContain('ORDER BY c.year DESC, c.month DESC, c.category_id ASC, c.id ASC LIMIT $2');
+    expect(values).toEqual([1, 3, 0]);
+    expect(result.expenses.map(expense => expense.id)).toEqual([7, 4]);
+    expect(result.total).toBe(3);
+    expect(result.nextCursor).toBe(encodeCursor({ year: 2024, month: 6, categoryId: 2, id: 4 }));
+  });
+
+  it('should continue after the cursor and end without one', async () => {
+    page(cost(5, 5, 1));
+
+    const cursor = encodeCursor({ year: 2024, month: 6, categoryId: 2, id: 4 });
+    const result = await ExpenseService.getExpenses(1, { cursor, limit: 2 });
+
+    const { text, values } = pageQuery();
+    expect(text).toContain(
+      'AND ( c.year < $2 OR (c.year = $3 AND c.month < $4) OR (c.year = $5 AND c.month = $6 AND c.category_id > $7) ' +
+      'OR (c.year = $8 AND c.month = $9 AND c.category_id = $10 AND c.id > $11) )'
+    );
+    expect(values.slice(1, 11)).toEqual([2024, 2024, 6, 2024, 6, 2, 2024, 6, 2, 4]);
+    expect(result.expenses.map(expense => expense.id)).toEqual([5]);
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it('should reject a cursor it did not issue', async () => {
+    page();
+
+    await expect(ExpenseService.getExpenses(1, { cursor: 'not-a-cursor' }))
+      .rejects.toThrow(ValidationError);
+    expect(prisma.cost.findMany).not.toHaveBeenCalled();
+  });
+});
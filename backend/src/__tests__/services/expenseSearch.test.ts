@@ -0,0 +1,111 @@
+import { ExpenseService } from '../../services/expenseService';
+import { ExchangeRateService } from '../../services/exchangeRateService';
+import { AnomalyService } from '../../services/anomalyService';
+import { prisma } from '../../config/database';
+import { Prisma } from '@prisma/client';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    cost: { count: jest.fn(), findMany: jest.fn() },
+    $queryRaw: jest.fn()
+  }
+}));
+
+jest.mock('../../services/exchangeRateService', () => ({
+  ExchangeRateService: { createConverter: jest.fn(), getRatePeriods: jest.fn() }
+}));
+
+jest.mock('../../services/anomalyService', () => ({
+  AnomalyService: { attachAnomalies: jest.fn() }
+}));
+
+// The flattened text and values of the count query
+const countQuery = () => {
+  const call = (prisma.$queryRaw as jest.Mock).mock.calls
+    .find(([strings]) => strings.join('').includes('count(*)'));
+  const query = Prisma.sql(call[0], ...call.slice(1));
+  return { text: query.text.replace(/\s+/g, ' '), values: query.values };
+};
+
+describe('ExpenseService.getExpenses search', () => {
+  const cost = {
+    id: 3,
+    organizationId: 1,
+    categoryId: 1,
+    category: { id: 1, name: 'Hardware', parentId: null, parent: null },
+    costCenterId: null,
+    costCenter: null,
+    amount: 2400,
+    currency: 'EUR',
+    month: 6,
+    year: 2024,
+    description: null,
+    vendor: null,
+    invoiceNumber: null,
+    invoiceDate: null,
+    notes: 'One-off laptop refresh',
+    createdAt: new Date('2024-07-01T00:00:00Z'),
+    updatedAt: new Date('2024-07-01T00:00:00Z'),
+    tags: [{ costId: 3, tagId: 4, tag: { id: 4, name: 'hardware' } }, { costId: 3, tagId: 9, tag: { id: 9, name: 'one-off' } }],
+    _count: { attachments: 0, comments: 0 }
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ExchangeRateService.createConverter as jest.Mock).mockResolvedValue({
+      reportingCurrency: 'EUR',
+      convert: (amount: number) => amount
+    });
+    (AnomalyService.attachAnomalies as jest.Mock).mockImplementation((_, expenses) => Promise.resolve(expenses));
+    (prisma.$queryRaw as jest.Mock).mockImplementation((strings: string[]) =>
+      Promise.resolve(strings.join('').includes('count(*)') ? [{ count: 1 }] : [{ id: 3 }])
+    );
+    (prisma.cost.findMany as jest.Mock).mockResolvedValue([cost]);
+  });
+
+  it('should match the search inside the paged query', async () => {
+    const result = await ExpenseService.getExpenses(1, { q: 'laptop refresh' });
+
+    const { text, values } = countQuery();
+    expect(text).toContain("c.search_vector @@ websearch_to_tsquery('english', $2)");
+    expect(values).toEqual([1, 'laptop refresh']);
+    expect(prisma.cost.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { id: { in: [3] } } }));
+    expect(result.expenses[0]).toMatchObject({ notes: 'One-off laptop refresh', tags: ['hardware', 'one-off'] });
+  });
+
+  it('should not search without search text', async () => {
+    await ExpenseService.getExpenses(1, { q: '' });
+
+    expect(countQuery().text).not.toContain('search_vector');
+  });
+
+  it('should filter by any of the tags', async () => {
+    await ExpenseService.getExpenses(1, { tagIds: [4, 9] });
+
+    const { text, values } = countQuery();
+    expect(text).toContain('EXISTS (SELECT 1 FROM cost_tags ct WHERE ct.cost_id = c.id AND ct.tag_id = ANY($2))');
+    expect(values).toEqual([1, [4, 9]]);
+  });
+
+  it('should compare amount ranges in the reporting currency', async () => {
+    (ExchangeRateService.getRatePeriods as jest.Mock).mockResolvedValue({
+      reportingCurrency: 'USD',
+      periods: [
+        { currency: 'EUR', rate: 1.25, start: { year: 2024, month: 4 }, end: null },
+        { currency: 'EUR', rate: 1.1, start: { year: 2024, month: 1 }, end: { year: 2024, month: 3 } }
+      ]
+    });
+
+    await ExpenseService.getExpenses(1, { minAmount: 1000 });
+
+    expect(ExchangeRateService.getRatePeriods).toHaveBeenCalledWith(1, ['EUR']);
+    const { text, values } = countQuery();
+    expect(text).toContain('((c.currency = $2 AND c.amount >= $3) OR (c.currency = $4 AND c.amount >= $5 AND');
+    expect(values).toEqual([
+      1,
+      'USD', 999.995,
+      'EUR', 999.995 / 1.25, 2024, 2024, 4,
+      'EUR', 999.995 / 1.1, 2024, 2024, 1, 2024, 2024, 3
+    ]);
+  });
+});
\ No newline at end of file
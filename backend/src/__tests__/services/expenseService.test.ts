@@ -1,7 +1,6 @@
 import { ExpenseService } from '../../services/expenseService';
 import { setupTestDb, cleanupTestDb, seedTestData, getTestDb } from '../utils/testDb';
-import { validExpenseData, multipleExpenses, trendTestData } from '../fixtures/testData';
-import { ExpenseCategory } from '../../types/expense';
+import { validExpenseData, multipleExpenses, trendTestData, TestCategory } from '../fixtures/testData';
 import { ApiError } from '../../utils/errors';
 
 describe('ExpenseService', () => {
@@ -89,12 +88,12 @@ describe('ExpenseService', () => {
 
     it('should filter by category', async () => {
       const result = await expenseService.getExpenses({ 
-        category: ExpenseCategory.SALARIES 
+        category: TestCategory.SALARIES 
       });
 
       expect(Array.isArray(result)).toBe(true);
       result.forEach(expense => {
-        expect(expense.category).toBe(ExpenseCategory.SALARIES);
+        expect(expense.category).toBe(TestCategory.SALARIES);
       });
     });
 
@@ -102,14 +101,14 @@ describe('ExpenseService', () => {
       const result = await expenseService.getExpenses({
         year: 2024,
         month: 1,
-        category: ExpenseCategory.SALARIES
+        category: TestCategory.SALARIES
       });
 
       expect(Array.isArray(result)).toBe(true);
       result.forEach(expense => {
         expect(expense.year).toBe(2024);
         expect(expense.month).toBe(1);
-        expect(expense.category).toBe(ExpenseCategory.SALARIES);
+        expect(expense.category).toBe(TestCategory.SALARIES);
       });
     });
 
@@ -184,7 +183,7 @@ describe('ExpenseService', () => {
       // Create another expense
       const anotherExpense = {
         ...validExpenseData,
-        category: ExpenseCategory.HARDWARE_EQUIPMENT
+        category: TestCategory.HARDWARE_EQUIPMENT
       };
       await expenseService.createExpense(anotherExpense);
 
@@ -283,10 +282,10 @@ describe('ExpenseService', () => {
       expect(trend.categoryBreakdown).toHaveLength(2);
 
       const salariesBreakdown = trend.categoryBreakdown.find(
-        item => item.category === ExpenseCategory.SALARIES
+        item => item.category === TestCategory.SALARIES
       );
       const softwareBreakdown = trend.categoryBreakdown.find(
-        item => item.category === ExpenseCategory.SOFTWARE_TOOLS
+        item => item.category === TestCategory.SOFTWARE_TOOLS
       );
 
       expect(salariesBreakdown?.amount).toBe(50000);
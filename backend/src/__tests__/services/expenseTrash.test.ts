@@ -0,0 +1,149 @@
+import { ExpenseService } from '../../services/expenseService';
+import { ExchangeRateService } from '../../services/exchangeRateService';
+import { AnomalyService } from '../../services/anomalyService';
+import { BudgetAlertService } from '../../services/budgetAlertService';
+import { AuditService } from '../../services/auditService';
+import { AttachmentService } from '../../services/attachmentService';
+import { prisma } from '../../config/database';
+import { NotFoundError } from '../../utils/errors';
+import { CostAuditAction } from '@prisma/client';
+
+const tx = {
+  cost: { findFirst: jest.fn(), update: jest.fn() }
+};
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    cost: { count: jest.fn(), findMany: jest.fn(), deleteMany: jest.fn() }
+  }
+}));
+
+jest.mock('../../services/exchangeRateService', () => ({
+  ExchangeRateService: { createConverter: jest.fn() }
+}));
+
+jest.mock('../../services/attachmentService', () => ({
+  AttachmentService: { getStorageKeys: jest.fn(), deleteStoredFiles: jest.fn() }
+}));
+
+jest.mock('../../services/anomalyService', () => ({
+  AnomalyService: { checkAfterExpenseChange: jest.fn() }
+}));
+
+jest.mock('../../services/budgetAlertService', () => ({
+  BudgetAlertService: { checkAfterExpenseChange: jest.fn() }
+}));
+
+jest.mock('../../services/periodLockService', () => ({
+  PeriodLockService: { requireOpenPeriod: jest.fn() }
+}));
+
+jest.mock('../../services/auditService', () => ({
+  AuditService: { recordCostChange: jest.fn() }
+}));
+
+describe('ExpenseService trash', () => {
+  const context = { userId: 1, ipAddress: '127.0.0.1' };
+
+  const cost = (id: number, deletedAt: Date | null) => ({
+    id,
+    organizationId: 1,
+    categoryId: 1,
+    category: { id: 1, name: 'Salaries', parentId: null, parent: null },
+    costCenterId: null,
+    costCenter: null,
+    amount: 1000,
+    currency: 'EUR',
+    month: 6,
+    year: 2024,
+    description: null,
+    vendor: null,
+    invoiceNumber: null,
+    invoiceDate: null,
+    notes: null,
+    createdAt: new Date('2024-07-01T00:00:00Z'),
+    updatedAt: new Date('2024-07-01T00:00:00Z'),
+    deletedAt,
+    tags: [],
+    _count: { attachments: 0, comments: 0 }
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation(fn => fn(tx));
+    (ExchangeRateService.createConverter as jest.Mock).mockResolvedValue({
+      reportingCurrency: 'EUR',
+      convert: (amount: number) => amount
+    });
+    (AnomalyService.checkAfterExpenseChange as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('should move a deleted expense to the trash instead of removing it', async () => {
+    (tx.cost.findFirst as jest.Mock).mockResolvedValue(cost(3, null));
+    (tx.cost.update as jest.Mock).mockResolvedValue(cost(3, new Date()));
+
+    await ExpenseService.deleteExpense(1, 3, context);
+
+    expect(tx.cost.findFirst).toHaveBeenCalledWith({ where: { id: 3, organizationId: 1, deletedAt: null } });
+    expect(tx.cost.update).toHaveBeenCalledWith({ where: { id: 3 }, data: { deletedAt: expect.any(Date) } });
+    expect(AuditService.recordCostChange).toHaveBeenCalledWith(
+      tx, CostAuditAction.DELETE, expect.objectContaining({ id: 3 }), expect.anything(), context
+    );
+  });
+
+  it('should list the trash with the time each expense was deleted', async () => {
+    const deletedAt = new Date('2024-08-01T10:00:00Z');
+    (prisma.cost.count as jest.Mock).mockResolvedValue(1);
+    (prisma.cost.findMany as jest.Mock).mockResolvedValue([cost(3, deletedAt)]);
+
+    const result = await ExpenseService.getTrash(1, { limit: 10, offset: 0 });
+
+    expect(prisma.cost.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { organizationId: 1, deletedAt: { not: null } },
+      orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+      take: 10,
+      skip: 0
+    }));
+    expect(result.total).toBe(1);
+    expect(result.expenses[0]).toMatchObject({ id: 3, amount: 1000, deletedAt: deletedAt.toISOString() });
+  });
+
+  it('should restore a trashed expense and check its budget again', async () => {
+    (tx.cost.findFirst as jest.Mock).mockResolvedValue(cost(3, new Date()));
+    (tx.cost.update as jest.Mock).mockResolvedValue(cost(3, null));
+
+    const result = await ExpenseService.restoreExpense(1, 3, context);
+
+    expect(tx.cost.update).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 3 }, data: { deletedAt: null } }));
+    expect(AuditService.recordCostChange).toHaveBeenCalledWith(
+      tx, CostAuditAction.RESTORE, expect.objectContaining({ id: 3 }), null, context
+    );
+    expect(BudgetAlertService.checkAfterExpenseChange).toHaveBeenCalledWith(1, 1, 6, 2024);
+    expect(result).toMatchObject({ id: 3, anomaly: null });
+  });
+
+  it('should not restore an expense that is not in the trash', async () => {
+    (tx.cost.findFirst as jest.Mock).mockResolvedValue(null);
+
+    await expect(ExpenseService.restoreExpense(1, 3, context)).rejects.toThrow(NotFoundError);
+    expect(tx.cost.update).not.toHaveBeenCalled();
+  });
+
+  it('should purge only expenses trashed before the retention period', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-08-31T00:00:00Z'));
+    (prisma.cost.deleteMany as jest.Mock).mockResolvedValue({ count: 2 });
+    (AttachmentService.getStorageKeys as jest.Mock).mockResolvedValue(['1/3/receipt']);
+
+    try {
+      const where = { organizationId: 1, deletedAt: { lt: new Date('2024-08-01T00:00:00Z') } };
+      await expect(ExpenseService.purgeTrash(1, 30)).resolves.toBe(2);
+      expect(prisma.cost.deleteMany).toHaveBeenCalledWith({ where });
+      // Files of the purged expenses' attachments go with them
+      expect(AttachmentService.getStorageKeys).toHaveBeenCalledWith(where);
+      expect(AttachmentService.deleteStoredFiles).toHaveBeenCalledWith(['1/3/receipt']);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { ExportService } from '../../services/exportService';
+import { ExpenseService } from '../../services/expenseService';
+import { ExpenseResponse, TrendsApiResponse } from '../../types/expense';
+import { ExportFile, ExportStream } from '../../types/export';
+import { parseCsv } from '../../utils/csv';
+import { readXlsx } from '../../utils/xlsx';
+
+jest.mock('../../services/expenseService', () => ({
+  ExpenseService: { getExpenses: jest.fn(), getAllExpenses: jest.fn(), getTrends: jest.fn() }
+}));
+
+const expense: ExpenseResponse = {
+  id: 7,
+  categoryId: 2,
+  category: 'Software & Tools',
+  parentCategoryId: null,
+  parentCategory: null,
+  costCenterId: null,
+  costCenter: null,
+  amount: 1200,
+  currency: 'EUR',
+  convertedAmount: 1300.5,
+  reportingCurrency: 'USD',
+  month: 3,
+  year: 2024,
+  description: '=HYPERLINK("http://example.com")',
+  vendor: 'Acme, Inc.',
+  invoiceNumber: 'INV-1',
+  invoiceDate: '2024-03-05',
+  notes: null,
+  tags: [],
+  status: 'APPROVED',
+  attachmentCount: 0,
+  commentCount: 0,
+  createdAt: '2024-03-05T00:00:00.000Z',
+  updatedAt: '2024-03-05T00:00:00.000Z'
+};
+
+const monthlyTrends: TrendsApiResponse = {
+  data: [{
+    month: 1,
+    year: 2024,
+    totalAmount: 1000,
+    categoryBreakdown: [
+      {
+        categoryId: 1,
+        category: 'Infrastructure & Hosting',
+        amount: 750,
+        subcategories: [{ categoryId: 4, category: 'Cloud', amount: 500 }]
+      },
+      { categoryId: 2, category: 'Software & Tools', amount: 250 }
+    ]
+  }],
+  summary: {
+    totalAmount: 1000,
+    averageAmount: 1000,
+    highestAmount: 1000,
+    lowestAmount: 1000,
+    periodStart: '2024-01-01',
+    periodEnd: '2024-01-01',
+    currency: 'USD'
+  },
+  groupBy: 'month'
+};
+
+// The whole text of a streamed or buffered export
+const contentOf = async (file: ExportFile | ExportStream): Promise<string> => {
+  if (Buffer.isBuffer(file.content)) {
+    return file.content.toString('utf8');
+  }
+
+  let text = '';
+  for await (const chunk of file.content) {
+    text += chunk;
+  }
+  return text;
+};
+
+const buffered = (file: ExportFile | ExportStream): Buffer => {
+  if (!Buffer.isBuffer(file.content)) {
+    throw new Error('Expected a buffered export');
+  }
+  return file.content;
+};
+
+describe('ExportService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (ExpenseService.getExpenses as jest.Mock).mockResolvedValue({ expenses: [expense], total: 1, nextCursor: null });
+    (ExpenseService.getAllExpenses as jest.Mock).mockResolvedValue([expense]);
+    (ExpenseService.getTrends as jest.Mock).mockResolvedValue(monthlyTrends);
+  });
+
+  it('should export every expense matching the filters as CSV', async () => {
+    const file = await ExportService.export(1, { type: 'expenses', format: 'csv', filters: { year: 2024 } });
+
+    expect(ExpenseService.getExpenses).toHaveBeenCalledWith(1, { year: 2024, limit: 500, cursor: '' });
+    expect(file.contentType).toBe('text/csv; charset=utf-8');
+    expect(file.filename).toMatch(/^expenses-\d{4}-\d{2}-\d{2}\.csv$/);
+
+    const [header, row] = parseCsv(await contentOf(file));
+    expect(header?.slice(0, 4)).toEqual(['id', 'year', 'month', 'category']);
+    expect(row?.[header!.indexOf('vendor')]).toBe('Acme, Inc.');
+    expect(row?.[header!.indexOf('convertedAmount')]).toBe('1300.5');
+    // Text that spreadsheets would run as a formula is escaped
+    expect(row?.[header!.indexOf('description')]).toBe('\'=HYPERLINK("http://example.com")');
+  });
+
+  it('should stream expenses page by page, by cursor in date order', async () => {
+    (ExpenseService.getExpenses as jest.Mock)
+      .mockResolvedValueOnce({ expenses: [expense], total: 2, nextCursor: 'next' })
+      .mockResolvedValueOnce({ expenses: [{ ...expense, id: 8 }], total: 2, nextCursor: null });
+
+    const file = await ExportService.export(1, { type: 'expenses', format: 'json', filters: { sortOrder: 'asc' } });
+    const exported = JSON.parse(await contentOf(file));
+
+    expect(ExpenseService.getExpenses).toHaveBeenNthCalledWith(2, 1, { sortOrder: 'asc', limit: 500, cursor: 'next' });
+    expect(exported.map((row: { id: number }) => row.id)).toEqual([7, 8]);
+    expect(exported[0]).toMatchObject({ category: 'Software & Tools', convertedAmount: 1300.5 });
+    expect(ExpenseService.getAllExpenses).not.toHaveBeenCalled();
+  });
+
+  it('should page by offset when sorted by something other than date', async () => {
+    (ExpenseService.getExpenses as jest.Mock)
+      .mockResolvedValueOnce({ expenses: Array.from({ length: 500 }, (_, id) => ({ ...expense, id })), total: 501, nextCursor: null })
+      .mockResolvedValueOnce({ expenses: [], total: 501, nextCursor: null });
+
+    const file = await ExportService.export(1, { type: 'expenses', format: 'csv', filters: { sortBy: 'amount' } });
+
+    expect(parseCsv(await contentOf(file))).toHaveLength(501);
+    expect(ExpenseService.getExpenses).toHaveBeenNthCalledWith(2, 1, { sortBy: 'amount', limit: 500, offset: 500 });
+  });
+
+  it('should fail before streaming when the first page can\'t be read', async () => {
+    (ExpenseService.getExpenses as jest.Mock).mockRejectedValue(new Error('Category not found'));
+
+    await expect(ExportService.export(1, { type: 'expenses', format: 'csv', filters: {} })).rejects.toThrow('Category not found');
+  });
+
+  it('should stream an empty JSON array when nothing matches', async () => {
+    (ExpenseService.getExpenses as jest.Mock).mockResolvedValue({ expenses: [], total: 0, nextCursor: null });
+
+    const file = await ExportService.export(1, { type: 'expenses', format: 'json', filters: {} });
+
+    expect(JSON.parse(await contentOf(file))).toEqual([]);
+  });
+
+  it('should export trends with sub-categories after their parent', async () => {
+    const file = await ExportService.export(1, {
+      type: 'trends',
+      format: 'json',
+      filters: { startYear: 2024, endYear: 2024, groupBy: 'month' }
+    });
+
+    expect(JSON.parse(await contentOf(file))).toEqual([
+      { year: 2024, month: 'January', category: 'Infrastructure & Hosting', parentCategory: null, amount: 750, currency: 'USD', percentageOfTotal: 75 },
+      { year: 2024, month: 'January', category: 'Cloud', parentCategory: 'Infrastructure & Hosting', amount: 500, currency: 'USD', percentageOfTotal: 50 },
+      { year: 2024, month: 'January', category: 'Software & Tools', parentCategory: null, amount: 250, currency: 'USD', percentageOfTotal: 25 }
+    ]);
+  });
+
+  it('should write an XLSX workbook with headers, text and numbers', async () => {
+    const file = await ExportService.export(1, { type: 'expenses', format: 'xlsx', filters: {} });
+
+    expect(ExpenseService.getAllExpenses).toHaveBeenCalledWith(1, {}, 10000);
+    const rows = readXlsx(buffered(file));
+    expect(rows[0]?.slice(0, 4)).toEqual(['ID', 'Year', 'Month', 'Category']);
+    expect(rows[1]?.slice(0, 4)).toEqual(['7', '2024', '3', 'Software & Tools']);
+    expect(rows[1]?.[11]).toBe('Acme, Inc.');
+  });
+
+  it('should render a PDF with one page per screenful of rows', async () => {
+    (ExpenseService.getAllExpenses as jest.Mock).mockResolvedValue(Array.from({ length: 80 }, (_, id) => ({ ...expense, id })));
+
+    const file = await ExportService.export(1, { type: 'expenses', format: 'pdf', filters: {} });
+    const pdf = buffered(file).toString('latin1');
+
+    expect(file.contentType).toBe('application/pdf');
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Count 3');
+    expect(pdf).toContain('(1,300.50)');
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { ForecastService } from '../../services/forecastService';
+import { ExpenseService } from '../../services/expenseService';
+import { MonthlyTrendData } from '../../types/expense';
+import { ForecastQuery } from '../../types/forecast';
+
+jest.mock('../../services/expenseService', () => ({
+  ExpenseService: { getTrends: jest.fn() }
+}));
+
+describe('ForecastService', () => {
+  const JULY_15TH = new Date(2024, 6, 15);
+
+  const query = (overrides: Partial<ForecastQuery> = {}): ForecastQuery => ({
+    months: 3,
+    method: 'linear',
+    historyMonths: 24,
+    ...overrides
+  });
+
+  // Monthly trends from January 2023 to June 2024; salaries grow by 100 a month
+  const months = (salaries: (index: number) => number): MonthlyTrendData[] =>
+    Array.from({ length: 18 }, (_, index) => ({
+      month: index % 12 + 1,
+      year: 2023 + Math.floor(index / 12),
+      totalAmount: salaries(index) + 200,
+      categoryBreakdown: [
+        { categoryId: 2, category: 'Software & Tools', amount: 200 },
+        { categoryId: 1, category: 'Salaries', amount: salaries(index) }
+      ]
+    }));
+
+  const trends = (data: MonthlyTrendData[]) => ({
+    data,
+    summary: { currency: 'EUR' },
+    groupBy: 'month'
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should continue a linear trend from the complete months before the current one', async () => {
+    (ExpenseService.getTrends as jest.Mock).mockResolvedValue(trends(months(index => 800 + 100 * index)));
+
+    const forecast = await ForecastService.getForecast(3, query({ categoryId: 5 }), JULY_15TH);
+
+    expect(ExpenseService.getTrends).toHaveBeenCalledWith(3, {
+      startYear: 2022,
+      startMonth: 7,
+      endYear: 2024,
+      endMonth: 6,
+      categoryId: 5,
+      groupBy: 'month'
+    });
+
+    // Months before the first spend are left out of the history
+    expect(forecast.total.actual).toHaveLength(18);
+    expect(forecast.total.actual[0]).toEqual({ month: 1, year: 2023, amount: 1000 });
+
+    // A perfect fit leaves no room for error
+    expect(forecast.total.forecast).toEqual([
+      { month: 7, year: 2024, amount: 2800, lower: 2800, upper: 2800 },
+      { month: 8, year: 2024, amount: 2900, lower: 2900, upper: 2900 },
+      { month: 9, year: 2024, amount: 3000, lower: 3000, upper: 3000 }
+    ]);
+    expect(forecast.currency).toBe('EUR');
+    expect(forecast.confidenceLevel).toBe(0.95);
+
+    // Largest category first
+    expect(forecast.categories.map(series => series.category)).toEqual(['Salaries', 'Software & Tools']);
+    expect(forecast.categories[1]!.forecast[0]!.amount).toBe(200);
+
+    expect(forecast.backtest).toEqual([
+      { method: 'linear', mape: 0, months: 3 },
+      { method: 'moving_average', mape: expect.any(Number), months: 3 },
+      { method: 'seasonal_naive', mape: expect.any(Number), months: 3 }
+    ]);
+  });
+
+  it('should repeat last year for seasonal naive forecasts with widening intervals', async () => {
+    const seasonal = [500, 500, 900, 500, 500, 900, 500, 500, 900, 500, 500, 1300];
+    (ExpenseService.getTrends as jest.Mock).mockResolvedValue(
+      trends(months(index => seasonal[index % 12]! + (index >= 12 ? 100 : 0)))
+    );
+
+    const forecast = await ForecastService.getForecast(3, query({ method: 'seasonal_naive', months: 13 }), JULY_15TH);
+
+    // July 2023 onwards is the last twelve months
+    expect(forecast.total.forecast.slice(0, 3).map(point => point.amount)).toEqual([700, 700, 1100]);
+
+    // Every month of the second season was 100 above the first
+    const [july, , , , , , , , , , , , nextJuly] = forecast.total.forecast;
+    expect(july).toMatchObject({ lower: 504, upper: 896 });
+    expect(nextJuly!.upper - nextJuly!.lower).toBeCloseTo((896 - 504) * Math.SQRT2, 1);
+  });
+
+  it('should widen moving average intervals the further ahead they are', async () => {
+    (ExpenseService.getTrends as jest.Mock).mockResolvedValue(trends(months(index => (index % 2 === 0 ? 800 : 1200))));
+
+    const forecast = await ForecastService.getForecast(3, query({ method: 'moving_average' }), JULY_15TH);
+    const widths = forecast.total.forecast.map(point => point.upper - point.lower);
+
+    // The last three months are 1200, 800 and 1200
+    expect(forecast.total.forecast[0]!.amount).toBeCloseTo(1266.67, 2);
+    expect(widths[1]!).toBeGreaterThan(widths[0]!);
+    expect(widths[2]!).toBeGreaterThan(widths[1]!);
+  });
+
+  it('should reject methods without enough history', async () => {
+    (ExpenseService.getTrends as jest.Mock).mockResolvedValue(trends(months(() => 800).slice(-6)));
+
+    await expect(ForecastService.getForecast(3, query({ method: 'seasonal_naive' }), JULY_15TH))
+      .rejects.toThrow('The seasonal naive method needs at least 13 months of spending history; 6 found');
+  });
+});
\ No newline at end of file
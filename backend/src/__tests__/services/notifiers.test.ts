@@ -0,0 +1,171 @@
+import net from 'net';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { EmailNotifier } from '../../services/notifiers/emailNotifier';
+import { WebhookNotifier } from '../../services/notifiers/webhookNotifier';
+import { BudgetAlertMessage } from '../../types/alert';
+
+const alert: BudgetAlertMessage = {
+  organizationId: 3,
+  organizationName: 'Acme Corp',
+  category: 'Software & Tools',
+  month: 5,
+  year: 2024,
+  thresholdPercent: 80,
+  budget: 2000,
+  actual: 1700,
+  currency: 'USD',
+  percentUsed: 85
+};
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+// Minimal SMTP server that accepts every message and keeps it in memory
+const startFakeSmtpServer = async (): Promise<{ server: net.Server; port: number; mails: ReceivedMail[] }> => {
+  const mails: ReceivedMail[] = [];
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let current: ReceivedMail = { from: '', to: [], data: '' };
+    let inData = false;
+
+    socket.write('220 localhost ESMTP fake\r\n');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          current.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          mails.push(current);
+          current = { from: '', to: [], data: '' };
+          inData = false;
+          socket.write('250 OK: queued\r\n');
+          continue;
+        }
+
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) return;
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        const command = line.toUpperCase();
+
+        if (command.startsWith('EHLO') || command.startsWith('HELO')) {
+          socket.write('250-localhost\r\n250 8BITMIME\r\n');
+        } else if (command.startsWith('MAIL FROM:')) {
+          current.from = line.slice(10).trim();
+          socket.write('250 OK\r\n');
+        } else if (command.startsWith('RCPT TO:')) {
+          current.to.push(line.slice(8).trim());
+          socket.write('250 OK\r\n');
+        } else if (command === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (command === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, port: (server.address() as AddressInfo).port, mails };
+};
+
+describe('Notifiers', () => {
+  describe('EmailNotifier', () => {
+    let smtp: Awaited<ReturnType<typeof startFakeSmtpServer>>;
+
+    beforeAll(async () => {
+      smtp = await startFakeSmtpServer();
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => smtp.server.close(resolve));
+    });
+
+    it('should deliver the alert over SMTP', async () => {
+      const notifier = new EmailNotifier({
+        host: '127.0.0.1',
+        port: smtp.port,
+        secure: false,
+        from: 'alerts@example.com'
+      });
+
+      await notifier.send('finance@example.com', alert);
+
+      expect(smtp.mails).toHaveLength(1);
+      const mail = smtp.mails[0]!;
+      expect(mail.from).toBe('<alerts@example.com>');
+      expect(mail.to).toEqual(['<finance@example.com>']);
+      expect(mail.data).toContain('Subject: [Acme Corp] Budget alert: Software & Tools at 85%');
+      expect(mail.data).toContain('has reached 85% of its budget');
+      expect(mail.data).toContain('Budget: $2,000.00');
+      expect(mail.data).toContain('Actual: $1,700.00');
+    });
+
+    it('should fail when SMTP is not configured', async () => {
+      const notifier = new EmailNotifier({ host: '', port: 587, secure: false, from: 'alerts@example.com' });
+
+      await expect(notifier.send('finance@example.com', alert)).rejects.toThrow('SMTP is not configured');
+    });
+  });
+
+  describe('WebhookNotifier', () => {
+    let server: http.Server;
+    let url: string;
+    let status: number;
+    let received: { headers: http.IncomingHttpHeaders; body: any } | null;
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => {
+          received = { headers: req.headers, body: JSON.parse(body) };
+          res.statusCode = status;
+          res.end();
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks/budget`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      status = 204;
+      received = null;
+    });
+
+    it('should POST the alert as JSON', async () => {
+      await new WebhookNotifier({ timeoutMs: 2000 }).send(url, alert);
+
+      expect(received?.headers['content-type']).toBe('application/json');
+      expect(received?.body).toEqual({
+        type: 'budget.threshold_reached',
+        ...alert,
+        sentAt: expect.any(String)
+      });
+    });
+
+    it('should fail on a non-2xx response', async () => {
+      status = 500;
+
+      await expect(new WebhookNotifier({ timeoutMs: 2000 }).send(url, alert))
+        .rejects
+        .toThrow('Webhook responded with HTTP 500');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { Prisma } from '@prisma/client';
+import { PeriodLockService } from '../../services/periodLockService';
+import { prisma } from '../../config/database';
+import { DuplicateEntryError, NotFoundError, PeriodLockedError } from '../../utils/errors';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    periodLock: { findMany: jest.fn(), findFirst: jest.fn(), create: jest.fn(), deleteMany: jest.fn() }
+  }
+}));
+
+describe('PeriodLockService', () => {
+  const lock = (month: number, year: number) => ({
+    id: 1,
+    organizationId: 3,
+    month,
+    year,
+    lockedById: 7,
+    lockedBy: { name: 'Finance Admin' },
+    createdAt: new Date('2024-04-02T09:00:00Z')
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should close a month and record who closed it', async () => {
+    (prisma.periodLock.create as jest.Mock).mockResolvedValue(lock(3, 2024));
+
+    const result = await PeriodLockService.closePeriod(3, { month: 3, year: 2024 }, 7);
+
+    expect(prisma.periodLock.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: { organizationId: 3, month: 3, year: 2024, lockedById: 7 }
+    }));
+    expect(result).toEqual({ id: 1, month: 3, year: 2024, lockedBy: 'Finance Admin', createdAt: '2024-04-02T09:00:00.000Z' });
+  });
+
+  it('should reject closing a month twice', async () => {
+    (prisma.periodLock.create as jest.Mock).mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: '5.22.0' })
+    );
+
+    await expect(PeriodLockService.closePeriod(3, { month: 3, year: 2024 }, 7)).rejects.toThrow(DuplicateEntryError);
+  });
+
+  it('should reject reopening a month that is not closed', async () => {
+    (prisma.periodLock.deleteMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+    await expect(PeriodLockService.reopenPeriod(3, { month: 3, year: 2024 })).rejects.toThrow(NotFoundError);
+    expect(prisma.periodLock.deleteMany).toHaveBeenCalledWith({ where: { organizationId: 3, month: 3, year: 2024 } });
+  });
+
+  it('should look up each period once and fail on a closed one', async () => {
+    (prisma.periodLock.findFirst as jest.Mock).mockResolvedValue(lock(3, 2024));
+
+    const check = PeriodLockService.requireOpenPeriods(3, [
+      { month: 3, year: 2024 },
+      { month: 4, year: 2024 },
+      { month: 3, year: 2024 }
+    ]);
+
+    await expect(check).rejects.toThrow(PeriodLockedError);
+    await expect(check).rejects.toMatchObject({ statusCode: 409, code: 'PERIOD_LOCKED', details: { month: 3, year: 2024 } });
+    expect(prisma.periodLock.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { organizationId: 3, OR: [{ month: 3, year: 2024 }, { month: 4, year: 2024 }] }
+    }));
+  });
+
+  it('should pass periods that are open', async () => {
+    (prisma.periodLock.findFirst as jest.Mock).mockResolvedValue(null);
+
+    await expect(PeriodLockService.requireOpenPeriod(3, { month: 5, year: 2024 })).resolves.toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,200 @@
+import { CostAuditAction, CostStatus, Prisma, RecurrenceFrequency } from '@prisma/client';
+import { RecurringTemplateService } from '../../services/recurringTemplateService';
+import { AuditService } from '../../services/auditService';
+import { ApprovalService } from '../../services/approvalService';
+import { CategoryService } from '../../services/categoryService';
+import { PeriodLockService } from '../../services/periodLockService';
+import { prisma } from '../../config/database';
+import { RecurrenceSchedule } from '../../types/recurringTemplate';
+import { PeriodLockedError, ValidationError } from '../../utils/errors';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    recurringTemplate: { findMany: jest.fn(), update: jest.fn() },
+    $transaction: jest.fn()
+  }
+}));
+
+jest.mock('../../services/categoryService', () => ({
+  CategoryService: { requireActiveCategory: jest.fn() }
+}));
+
+jest.mock('../../services/costCenterService', () => ({
+  CostCenterService: { requireActiveCostCenter: jest.fn() }
+}));
+
+jest.mock('../../services/periodLockService', () => ({
+  PeriodLockService: { requireOpenPeriod: jest.fn() }
+}));
+
+jest.mock('../../services/exchangeRateService', () => ({
+  ExchangeRateService: { createConverter: jest.fn() }
+}));
+
+jest.mock('../../services/approvalService', () => ({
+  ApprovalService: { createPolicy: jest.fn(), recordStatusChange: jest.fn() }
+}));
+
+jest.mock('../../services/auditService', () => ({
+  AuditService: { recordCostChange: jest.fn() }
+}));
+
+describe('RecurringTemplateService', () => {
+  const tx = {
+    cost: { create: jest.fn() }
+  };
+
+  const schedule = (overrides: Partial<RecurrenceSchedule> = {}): RecurrenceSchedule => ({
+    amount: 1000,
+    frequency: RecurrenceFrequency.MONTHLY,
+    startMonth: 11,
+    startYear: 2023,
+    endMonth: null,
+    endYear: null,
+    escalationPercent: null,
+    ...overrides
+  });
+
+  const template = (overrides = {}) => ({
+    id: 7,
+    organizationId: 3,
+    categoryId: 2,
+    costCenterId: null,
+    amount: new Prisma.Decimal(1000),
+    currency: 'USD',
+    description: 'Office rent',
+    vendor: 'Landlord Ltd',
+    frequency: RecurrenceFrequency.MONTHLY,
+    startMonth: 1,
+    startYear: 2024,
+    endMonth: null,
+    endYear: null,
+    escalationPercent: null,
+    nextMonth: 2,
+    nextYear: 2024,
+    isActive: true,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides
+  });
+
+  const duplicate = () => new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+    code: 'P2002',
+    clientVersion: Prisma.prismaVersion.client
+  });
+
+  const APRIL_1ST = new Date(2024, 3, 1, 0, 15);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation((fn) => fn(tx));
+    tx.cost.create.mockImplementation(({ data }) => Promise.resolve({ id: 100, ...data }));
+    (CategoryService.requireActiveCategory as jest.Mock).mockResolvedValue({ id: 2 });
+    (ApprovalService.createPolicy as jest.Mock).mockResolvedValue({ threshold: null, statusFor: () => CostStatus.APPROVED });
+  });
+
+  describe('occurrences', () => {
+    it('should escalate the amount once for every full year since the start', () => {
+      const from = RecurringTemplateService.firstPeriodFrom(schedule({ escalationPercent: 5 }), 2024 * 12 + 9);
+
+      expect(RecurringTemplateService.occurrences(schedule({ escalationPercent: 5 }), from, 4, 'EUR')).toEqual([
+        { month: 10, year: 2024, amount: 1000, currency: 'EUR' },
+        { month: 11, year: 2024, amount: 1050, currency: 'EUR' },
+        { month: 12, year: 2024, amount: 1050, currency: 'EUR' },
+        { month: 1, year: 2025, amount: 1050, currency: 'EUR' }
+      ]);
+      expect(RecurringTemplateService.amountFor(schedule({ escalationPercent: 5 }), 2025 * 12 + 10)).toBe(1102.5);
+    });
+
+    it('should keep quarterly templates on their quarter and stop at the end month', () => {
+      const quarterly = schedule({ frequency: RecurrenceFrequency.QUARTERLY, endMonth: 8, endYear: 2024 });
+      // March 2024 falls between the February and May periods
+      const from = RecurringTemplateService.firstPeriodFrom(quarterly, 2024 * 12 + 2);
+
+      expect(RecurringTemplateService.occurrences(quarterly, from, 12, 'USD').map(({ month, year }) => [month, year]))
+        .toEqual([[5, 2024], [8, 2024]]);
+    });
+  });
+
+  describe('generateDue', () => {
+    it('should create a cost for every period that has opened and move the template on', async () => {
+      (prisma.recurringTemplate.findMany as jest.Mock).mockResolvedValue([template()]);
+
+      const createdCount = await RecurringTemplateService.generateDue(3, APRIL_1ST);
+
+      expect(createdCount).toBe(3);
+      expect(tx.cost.create.mock.calls.map(([{ data }]) => data.month)).toEqual([2, 3, 4]);
+      expect(tx.cost.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          organizationId: 3,
+          categoryId: 2,
+          amount: 1000,
+          month: 2,
+          year: 2024,
+          description: 'Office rent',
+          recurringTemplateId: 7
+        })
+      });
+      expect(AuditService.recordCostChange).toHaveBeenCalledWith(
+        tx, CostAuditAction.CREATE, expect.objectContaining({ month: 4 }), null, { userId: null, ipAddress: null }
+      );
+      expect(prisma.recurringTemplate.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { nextMonth: 5, nextYear: 2024 }
+      });
+    });
+
+    it('should skip periods that already have their cost without failing', async () => {
+      (prisma.recurringTemplate.findMany as jest.Mock).mockResolvedValue([template({ nextMonth: 3 })]);
+      tx.cost.create.mockRejectedValueOnce(duplicate());
+
+      const createdCount = await RecurringTemplateService.generateDue(3, APRIL_1ST);
+
+      expect(createdCount).toBe(1);
+      expect(prisma.recurringTemplate.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { nextMonth: 5, nextYear: 2024 }
+      });
+    });
+
+    it('should leave templates whose category was archived on their next period', async () => {
+      (prisma.recurringTemplate.findMany as jest.Mock).mockResolvedValue([
+        template(),
+        template({ id: 8, nextMonth: 4, nextYear: 2024 }),
+        template({ id: 9, nextMonth: 5, nextYear: 2024 })
+      ]);
+      (CategoryService.requireActiveCategory as jest.Mock)
+        .mockRejectedValueOnce(new ValidationError('Category with ID 2 is archived', 'categoryId'));
+
+      const createdCount = await RecurringTemplateService.generateDue(3, APRIL_1ST);
+
+      // Template 7 stops at February; template 8 still gets April; template 9 is not due
+      expect(createdCount).toBe(1);
+      expect(tx.cost.create).toHaveBeenCalledTimes(1);
+      expect(tx.cost.create).toHaveBeenCalledWith({ data: expect.objectContaining({ recurringTemplateId: 8, month: 4 }) });
+      expect(prisma.recurringTemplate.update).toHaveBeenCalledTimes(1);
+      expect(prisma.recurringTemplate.update).toHaveBeenCalledWith({
+        where: { id: 8 },
+        data: { nextMonth: 5, nextYear: 2024 }
+      });
+    });
+
+    it('should hold templates on a closed period until it is reopened', async () => {
+      (prisma.recurringTemplate.findMany as jest.Mock).mockResolvedValue([template()]);
+      (PeriodLockService.requireOpenPeriod as jest.Mock)
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new PeriodLockedError(3, 2024));
+
+      const createdCount = await RecurringTemplateService.generateDue(3, APRIL_1ST);
+
+      // February is created; March is closed, so neither March nor April is
+      expect(createdCount).toBe(1);
+      expect(PeriodLockService.requireOpenPeriod).toHaveBeenCalledWith(3, { month: 3, year: 2024 }, tx);
+      expect(tx.cost.create).toHaveBeenCalledTimes(1);
+      expect(prisma.recurringTemplate.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: { nextMonth: 3, nextYear: 2024 }
+      });
+    });
+  });
+});
\ No newline at end of file
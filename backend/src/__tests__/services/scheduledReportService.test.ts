@@ -0,0 +1,203 @@
+import { ReportDeliveryStatus, ReportFormat, ReportGroupBy, ReportPeriod } from '@prisma/client';
+import { ScheduledReportService } from '../../services/scheduledReportService';
+import { ExpenseService } from '../../services/expenseService';
+import { reportMailer } from '../../services/reportMailer';
+import { prisma } from '../../config/database';
+import { ExpenseResponse } from '../../types/expense';
+import { parseCsv } from '../../utils/csv';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    scheduledReport: { findFirst: jest.fn(), findUnique: jest.fn() },
+    reportDelivery: { create: jest.fn() },
+    organization: { findUnique: jest.fn() }
+  }
+}));
+
+jest.mock('../../services/expenseService', () => ({
+  ExpenseService: { getPeriodExpenses: jest.fn() }
+}));
+
+jest.mock('../../services/reportMailer', () => ({
+  reportMailer: { send: jest.fn() }
+}));
+
+describe('ScheduledReportService', () => {
+  const report = (overrides = {}) => ({
+    id: 5,
+    organizationId: 3,
+    createdById: 1,
+    name: 'Monthly Cost Report',
+    period: ReportPeriod.PREVIOUS_MONTH,
+    categoryId: null,
+    costCenterId: null,
+    groupBy: ReportGroupBy.MONTH,
+    format: ReportFormat.CSV,
+    schedule: '0 8 2 * *',
+    recipients: ['cfo@example.com', 'cto@example.com'],
+    isActive: true,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    category: null,
+    costCenter: null,
+    ...overrides
+  });
+
+  const expense = (id: number, category: string, amount: number, convertedAmount: number | null): ExpenseResponse => ({
+    id,
+    categoryId: id,
+    category,
+    parentCategoryId: null,
+    parentCategory: null,
+    costCenterId: null,
+    costCenter: null,
+    amount,
+    currency: 'EUR',
+    convertedAmount,
+    reportingCurrency: 'USD',
+    month: 4,
+    year: 2024,
+    description: null,
+    vendor: null,
+    invoiceNumber: null,
+    invoiceDate: null,
+    notes: null,
+    tags: [],
+    status: 'APPROVED',
+    attachmentCount: 0,
+    commentCount: 0,
+    createdAt: '2024-04-05T00:00:00.000Z',
+    updatedAt: '2024-04-05T00:00:00.000Z'
+  });
+
+  const MAY_2ND = new Date(2024, 4, 2, 8, 0);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.organization.findUnique as jest.Mock).mockResolvedValue({ name: 'Acme Corp', reportingCurrency: 'USD' });
+    (prisma.reportDelivery.create as jest.Mock).mockImplementation(({ data }) => Promise.resolve({
+      id: 1,
+      ...data,
+      createdAt: new Date('2024-05-02T08:00:00Z'),
+      report: { name: 'Monthly Cost Report' }
+    }));
+    (ExpenseService.getPeriodExpenses as jest.Mock).mockResolvedValue([
+      expense(1, 'Software & Tools', 200, 220),
+      expense(2, 'Salaries', 1000, 1100)
+    ]);
+    (reportMailer.send as jest.Mock).mockResolvedValue(undefined);
+  });
+
+  describe('reportRange', () => {
+    it('should count periods back from the day the report runs', () => {
+      expect(ScheduledReportService.reportRange(ReportPeriod.PREVIOUS_MONTH, new Date(2024, 0, 2)))
+        .toEqual({ startYear: 2023, startMonth: 12, endYear: 2023, endMonth: 12 });
+      expect(ScheduledReportService.reportRange(ReportPeriod.PREVIOUS_QUARTER, new Date(2024, 4, 2)))
+        .toEqual({ startYear: 2024, startMonth: 1, endYear: 2024, endMonth: 3 });
+      expect(ScheduledReportService.reportRange(ReportPeriod.PREVIOUS_QUARTER, new Date(2024, 1, 2)))
+        .toEqual({ startYear: 2023, startMonth: 10, endYear: 2023, endMonth: 12 });
+      expect(ScheduledReportService.reportRange(ReportPeriod.YEAR_TO_DATE, new Date(2024, 4, 2)))
+        .toEqual({ startYear: 2024, startMonth: 1, endYear: 2024, endMonth: 5 });
+      expect(ScheduledReportService.reportRange(ReportPeriod.LAST_12_MONTHS, new Date(2024, 4, 2)))
+        .toEqual({ startYear: 2023, startMonth: 5, endYear: 2024, endMonth: 4 });
+      expect(ScheduledReportService.reportRange(ReportPeriod.PREVIOUS_YEAR, new Date(2024, 4, 2)))
+        .toEqual({ startYear: 2023, startMonth: 1, endYear: 2023, endMonth: 12 });
+    });
+  });
+
+  describe('runScheduledReport', () => {
+    it('should email the report for the previous month and log the delivery', async () => {
+      (prisma.scheduledReport.findUnique as jest.Mock).mockResolvedValue(report({ costCenterId: 9, costCenter: { name: 'Platform' } }));
+
+      const delivery = await ScheduledReportService.runScheduledReport(5, MAY_2ND);
+
+      expect(ExpenseService.getPeriodExpenses).toHaveBeenCalledWith(3, {
+        startYear: 2024,
+        startMonth: 4,
+        endYear: 2024,
+        endMonth: 4,
+        costCenterId: 9
+      }, 50000);
+
+      const email = (reportMailer.send as jest.Mock).mock.calls[0][0];
+      expect(email.to).toEqual(['cfo@example.com', 'cto@example.com']);
+      expect(email.subject).toBe('Monthly Cost Report: April 2024');
+      expect(email.attachment.filename).toBe('monthly-cost-report-2024-04.csv');
+
+      // Largest category first; a one-month report has no monthly breakdown
+      const rows = parseCsv(email.attachment.content.toString('utf8'));
+      expect(rows).toContainEqual(['Cost center: Platform']);
+      expect(rows).toContainEqual(['Total: 1,320.00 USD across 2 expenses, averaging 660.00 USD']);
+      const breakdown = rows.findIndex(row => row[0] === 'Category Breakdown');
+      expect(rows.slice(breakdown + 1, breakdown + 4)).toEqual([
+        ['Category', 'Amount (USD)', '% of Total', 'Expenses'],
+        ['Salaries', '1100', '83.33', '1'],
+        ['Software & Tools', '220', '16.67', '1']
+      ]);
+      expect(rows.some(row => row[0] === 'Monthly Breakdown')).toBe(false);
+
+      expect(prisma.reportDelivery.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          reportId: 5,
+          periodStart: new Date('2024-04-01T00:00:00Z'),
+          periodEnd: new Date('2024-04-30T00:00:00Z'),
+          status: ReportDeliveryStatus.SENT,
+          error: null
+        })
+      }));
+      expect(delivery).toMatchObject({ periodStart: '2024-04-01', periodEnd: '2024-04-30', status: ReportDeliveryStatus.SENT });
+    });
+
+    it('should skip reports that were paused or deleted', async () => {
+      (prisma.scheduledReport.findUnique as jest.Mock).mockResolvedValue(report({ isActive: false }));
+
+      expect(await ScheduledReportService.runScheduledReport(5, MAY_2ND)).toBeNull();
+      expect(reportMailer.send).not.toHaveBeenCalled();
+      expect(prisma.reportDelivery.create).not.toHaveBeenCalled();
+    });
+
+    it('should log a failed delivery when the report cannot be built or sent', async () => {
+      (prisma.scheduledReport.findUnique as jest.Mock).mockResolvedValue(report());
+      (ExpenseService.getPeriodExpenses as jest.Mock).mockResolvedValue([expense(1, 'Salaries', 1000, null)]);
+
+      const delivery = await ScheduledReportService.runScheduledReport(5, MAY_2ND);
+
+      expect(reportMailer.send).not.toHaveBeenCalled();
+      expect(delivery?.status).toBe(ReportDeliveryStatus.FAILED);
+      expect(delivery?.error).toBe('No exchange rate from EUR to USD is in effect for 4/2024');
+
+      (ExpenseService.getPeriodExpenses as jest.Mock).mockResolvedValue([]);
+      (reportMailer.send as jest.Mock).mockRejectedValue(new Error('SMTP is not configured (SMTP_HOST is empty)'));
+
+      const failed = await ScheduledReportService.runScheduledReport(5, MAY_2ND);
+
+      expect(failed?.error).toBe('SMTP is not configured (SMTP_HOST is empty)');
+    });
+  });
+
+  describe('renderReport', () => {
+    it('should render a PDF with a monthly breakdown for multi-month periods', async () => {
+      (prisma.scheduledReport.findFirst as jest.Mock).mockResolvedValue(report({
+        period: ReportPeriod.YEAR_TO_DATE,
+        format: ReportFormat.PDF
+      }));
+
+      const file = await ScheduledReportService.renderReport(3, 5, MAY_2ND);
+      const pdf = file.content.toString('latin1');
+
+      expect(file.filename).toBe('monthly-cost-report-2024-01-to-2024-05.pdf');
+      expect(file.contentType).toBe('application/pdf');
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('(Period: January 2024 to May 2024)');
+      expect(pdf).toContain('(Monthly Breakdown)');
+      expect(pdf).toContain('(Detailed Expense List)');
+      expect(pdf).toContain('(1,100.00)');
+    });
+
+    it('should not render reports of other organizations', async () => {
+      (prisma.scheduledReport.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(ScheduledReportService.renderReport(4, 5)).rejects.toThrow('Scheduled report with ID 5 not found');
+    });
+  });
+})
\ No newline at end of file
@@ -0,0 +1,147 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { LocalStorage } from '../../services/storage/localStorage';
+import { S3Storage } from '../../services/storage/s3Storage';
+
+const file = Buffer.from('%PDF-1.4 receipt');
+
+describe('LocalStorage', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'attachments-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should keep, read and delete files under its directory', async () => {
+    const storage = new LocalStorage({ directory });
+
+    await storage.put('1/3/receipt', file);
+    await expect(fs.readFile(path.join(directory, '1/3/receipt'))).resolves.toEqual(file);
+    await expect(storage.get('1/3/receipt')).resolves.toEqual(file);
+
+    await storage.delete('1/3/receipt');
+    await expect(storage.get('1/3/receipt')).rejects.toThrow();
+    // Deleting twice is not an error
+    await expect(storage.delete('1/3/receipt')).resolves.toBeUndefined();
+  });
+
+  it('should reject keys outside its directory', async () => {
+    const storage = new LocalStorage({ directory });
+
+    await expect(storage.put('../escaped', file)).rejects.toThrow('Invalid attachment key');
+  });
+});
+
+describe('S3Storage', () => {
+  interface ReceivedRequest {
+    method: string;
+    url: string;
+    headers: http.IncomingHttpHeaders;
+    body: Buffer;
+  }
+
+  let server: http.Server;
+  let endpoint: string;
+  let requests: ReceivedRequest[];
+  const objects = new Map<string, Buffer>();
+
+  // Minimal S3-compatible server that keeps objects in memory
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const body = Buffer.concat(chunks);
+        requests.push({ method: req.method || '', url: req.url || '', headers: req.headers, body });
+
+        const key = req.url || '';
+        if (req.method === 'PUT') {
+          objects.set(key, body);
+          res.writeHead(200).end();
+        } else if (req.method === 'GET' && objects.has(key)) {
+          res.writeHead(200).end(objects.get(key));
+        } else if (req.method === 'DELETE' && objects.delete(key)) {
+          res.writeHead(204).end();
+        } else {
+          res.writeHead(404).end();
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    objects.clear();
+  });
+
+  const createStorage = () => new S3Storage({
+    endpoint,
+    region: 'eu-west-1',
+    bucket: 'receipts',
+    accessKeyId: 'AKIDEXAMPLE',
+    secretAccessKey: 'secret',
+    timeoutMs: 5000
+  });
+
+  it('should put objects path-style with a signed request', async () => {
+    await createStorage().put('1/3/receipt', file, 'application/pdf');
+
+    const [request] = requests;
+    expect(request?.method).toBe('PUT');
+    expect(request?.url).toBe('/receipts/1/3/receipt');
+    expect(request?.body).toEqual(file);
+    expect(request?.headers['content-type']).toBe('application/pdf');
+    expect(request?.headers['x-amz-content-sha256']).toBe(crypto.createHash('sha256').update(file).digest('hex'));
+    expect(request?.headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/\d{8}\/eu-west-1\/s3\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[0-9a-f]{64}$/
+    );
+  });
+
+  it('should read and delete objects', async () => {
+    const storage = createStorage();
+    await storage.put('1/3/receipt', file, 'application/pdf');
+
+    await expect(storage.get('1/3/receipt')).resolves.toEqual(file);
+    await storage.delete('1/3/receipt');
+    await expect(storage.get('1/3/receipt')).rejects.toThrow('HTTP 404');
+    // Deleting an object that is already gone is not an error
+    await expect(storage.delete('1/3/receipt')).resolves.toBeUndefined();
+  });
+});
+
+// Runs against a real MinIO server when MINIO_ENDPOINT is set, e.g. one started
+// with `docker compose --profile with-minio up minio`
+const describeMinio = process.env.MINIO_ENDPOINT ? describe : describe.skip;
+
+describeMinio('S3Storage against MinIO', () => {
+  it('should keep, read and delete objects', async () => {
+    const storage = new S3Storage({
+      endpoint: process.env.MINIO_ENDPOINT || '',
+      region: 'us-east-1',
+      bucket: process.env.MINIO_BUCKET || 'attachments',
+      accessKeyId: process.env.MINIO_ROOT_USER || 'minioadmin',
+      secretAccessKey: process.env.MINIO_ROOT_PASSWORD || 'minioadmin',
+      timeoutMs: 5000
+    });
+    const key = `test/${crypto.randomUUID()}`;
+
+    await storage.put(key, file, 'application/pdf');
+    await expect(storage.get(key)).resolves.toEqual(file);
+    await storage.delete(key);
+    await expect(storage.get(key)).rejects.toThrow('HTTP 404');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { TagService } from '../../services/tagService';
+import { prisma } from '../../config/database';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    tag: { findMany: jest.fn(), upsert: jest.fn() }
+  }
+}));
+
+describe('TagService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should link tags by their lower-case name, creating missing ones once', async () => {
+    let nextId = 1;
+    (prisma.tag.upsert as jest.Mock).mockImplementation(({ create }) => Promise.resolve({ id: nextId++, ...create }));
+
+    const links = await TagService.tagLinks(1, ['Pen-Test', 'q3', ' pen-test ', '']);
+
+    expect(prisma.tag.upsert).toHaveBeenCalledTimes(2);
+    expect(prisma.tag.upsert).toHaveBeenCalledWith({
+      where: { organizationId_name: { organizationId: 1, name: 'pen-test' } },
+      create: { organizationId: 1, name: 'pen-test' },
+      update: {}
+    });
+    expect(links).toEqual([{ tagId: 1 }, { tagId: 2 }]);
+  });
+
+  it('should list the tags in use with their expense counts', async () => {
+    (prisma.tag.findMany as jest.Mock).mockResolvedValue([
+      { id: 9, organizationId: 1, name: 'one-off', createdAt: new Date(), _count: { costs: 2 } }
+    ]);
+
+    const tags = await TagService.getTags(1);
+
+    expect(prisma.tag.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { organizationId: 1, costs: { some: { cost: { deletedAt: null } } } }
+    }));
+    expect(tags).toEqual([{ id: 9, name: 'one-off', costCount: 2 }]);
+  });
+});
\ No newline at end of file
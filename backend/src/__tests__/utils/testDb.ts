@@ -1,4 +1,5 @@
-import { PrismaClient } from '@prisma/client';
+import { Organization, PrismaClient, User, UserRole } from '@prisma/client';
+import { defaultCategoriesCreateInput } from '../../config/categories';
 
 let prisma: PrismaClient;
 
@@ -19,24 +20,74 @@ export const setupTestDb = async (): Promise<PrismaClient> => {
 
 export const cleanupTestDb = async (): Promise<void> => {
   if (prisma) {
-    // Clean up test data
+    // Clean up test data (memberships and refresh tokens cascade)
     await prisma.cost.deleteMany({});
+    await prisma.exchangeRate.deleteMany({});
+    await prisma.organization.deleteMany({});
+    await prisma.user.deleteMany({});
     await prisma.$disconnect();
   }
 };
 
-export const seedTestData = async (data: any[]): Promise<void> => {
+export const seedTestData = async (data: any[], organizationId: number): Promise<void> => {
   if (!prisma) {
     throw new Error('Database not initialized. Call setupTestDb first.');
   }
   
-  for (const item of data) {
+  // Fixtures name their category; costs reference the organization's category by ID
+  for (const { category, ...item } of data) {
     await prisma.cost.create({
-      data: item
+      data: { ...item, organizationId, categoryId: await getTestCategoryId(organizationId, category) }
     });
   }
 };
 
+// Organizations are created with the default categories, like real ones
+export const createTestOrganization = async (slug: string): Promise<Organization> => {
+  return getTestDb().organization.create({
+    data: { name: slug, slug, categories: defaultCategoriesCreateInput() }
+  });
+};
+
+// Look up the ID of an organization's category by name
+export const getTestCategoryId = async (organizationId: number, name: string): Promise<number> => {
+  const category = await getTestDb().category.findFirstOrThrow({
+    where: { organizationId, name }
+  });
+  return category.id;
+};
+
+// Replace a fixture's category name with the organization's category ID
+export const withCategoryId = async <T extends { category?: string }>(
+  item: T,
+  organizationId: number
+): Promise<Omit<T, 'category'> & { categoryId?: number }> => {
+  const { category, ...rest } = item;
+  if (category === undefined) {
+    return rest;
+  }
+  return { ...rest, categoryId: await getTestCategoryId(organizationId, category) };
+};
+
+// Create a user who belongs to the given organizations; the password hash is never checked in tests
+export const createTestUser = async (
+  email: string,
+  role: UserRole,
+  organizationIds: number[]
+): Promise<User> => {
+  return getTestDb().user.create({
+    data: {
+      email,
+      name: email,
+      passwordHash: 'not-a-real-hash',
+      role,
+      memberships: {
+        create: organizationIds.map(organizationId => ({ organizationId }))
+      }
+    }
+  });
+};
+
 export const getTestDb = (): PrismaClient => {
   if (!prisma) {
     throw new Error('Database not initialized. Call setupTestDb first.');
@@ -2,7 +2,21 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import expenseRoutes from '../../routes/expenseRoutes';
+import authRoutes from '../../routes/authRoutes';
+import organizationRoutes from '../../routes/organizationRoutes';
+import budgetRoutes from '../../routes/budgetRoutes';
+import categoryRoutes from '../../routes/categoryRoutes';
+import costCenterRoutes from '../../routes/costCenterRoutes';
+import exportRoutes from '../../routes/exportRoutes';
+import scheduledReportRoutes from '../../routes/scheduledReportRoutes';
+import recurringTemplateRoutes from '../../routes/recurringTemplateRoutes';
+import anomalyRoutes from '../../routes/anomalyRoutes';
+import { authenticate } from '../../middleware/auth';
+import { ORGANIZATION_HEADER } from '../../middleware/organization';
 import { errorHandler } from '../../middleware/errorHandler';
+import { sanitizeInput } from '../../middleware/security';
+import { AuthService } from '../../services/authService';
+import { AuthenticatedUser, UserRole } from '../../types/auth';
 
 export const createTestApp = (): express.Application => {
   const app = express();
@@ -12,9 +26,20 @@ export const createTestApp = (): express.Application => {
   app.use(cors());
   app.use(express.json({ limit: '10mb' }));
   app.use(express.urlencoded({ extended: true }));
+  app.use(sanitizeInput);
 
   // Routes
+  app.use('/api/auth', authRoutes);
+  app.use('/api', authenticate);
+  app.use('/api/organizations', organizationRoutes);
   app.use('/api/expenses', expenseRoutes);
+  app.use('/api/categories', categoryRoutes);
+  app.use('/api/cost-centers', costCenterRoutes);
+  app.use('/api/budgets', budgetRoutes);
+  app.use('/api/exports', exportRoutes);
+  app.use('/api/reports', scheduledReportRoutes);
+  app.use('/api/recurring-templates', recurringTemplateRoutes);
+  app.use('/api/anomalies', anomalyRoutes);
 
   // Health check endpoint
   app.get('/health', (req, res) => {
@@ -25,4 +50,13 @@ export const createTestApp = (): express.Application => {
   app.use(errorHandler);
 
   return app;
-};
\ No newline at end of file
+};
+
+// Authorization header for a signed-in test user, optionally selecting an organization
+export const createAuthHeader = (
+  user: AuthenticatedUser = { id: 1, email: 'test@example.com', name: 'Test User', role: UserRole.EDITOR },
+  organizationId?: number
+): Record<string, string> => ({
+  Authorization: `Bearer ${AuthService.signAccessToken(user)}`,
+  ...(organizationId !== undefined && { [ORGANIZATION_HEADER]: String(organizationId) })
+});
\ No newline at end of file
@@ -2,14 +2,14 @@ import {
   createExpenseSchema, 
   updateExpenseSchema, 
   expenseQuerySchema,
-  trendsQuerySchema 
+  trendsQuerySchema,
+  trashPurgeSchema
 } from '../../validation/expense';
-import { ExpenseCategory } from '../../types/expense';
 
 describe('Expense Validation Schemas', () => {
   describe('createExpenseSchema', () => {
     const validData = {
-      category: ExpenseCategory.SOFTWARE_TOOLS,
+      categoryId: 2,
       amount: 1500.50,
       month: 3,
       year: 2024
@@ -22,12 +22,12 @@ describe('Expense Validation Schemas', () => {
       expect(value).toEqual(validData);
     });
 
-    it('should require category field', () => {
-      const { category, ...dataWithoutCategory } = validData;
+    it('should require categoryId field', () => {
+      const { categoryId, ...dataWithoutCategory } = validData;
       const { error } = createExpenseSchema.validate(dataWithoutCategory);
       
       expect(error).toBeDefined();
-      expect(error!.details[0].path).toContain('category');
+      expect(error!.details[0].path).toContain('categoryId');
     });
 
     it('should require amount field', () => {
@@ -55,11 +55,11 @@ describe('Expense Validation Schemas', () => {
     });
 
     it('should reject invalid category', () => {
-      const invalidData = { ...validData, category: 'Invalid Category' };
+      const invalidData = { ...validData, categoryId: 'Invalid Category' };
       const { error } = createExpenseSchema.validate(invalidData);
       
       expect(error).toBeDefined();
-      expect(error!.details[0].path).toContain('category');
+      expect(error!.details[0].path).toContain('categoryId');
     });
 
     it('should reject negative amount', () => {
@@ -117,26 +117,20 @@ describe('Expense Validation Schemas', () => {
       expect(error).toBeUndefined();
     });
 
-    it('should accept all valid categories', () => {
-      const categories = Object.values(ExpenseCategory);
-      
-      categories.forEach(category => {
-        const testData = { ...validData, category };
-        const { error } = createExpenseSchema.validate(testData);
+    it('should reject category IDs that are not positive integers', () => {
+      [0, -1, 1.5].forEach(categoryId => {
+        const { error } = createExpenseSchema.validate({ ...validData, categoryId });
         
-        expect(error).toBeUndefined();
+        expect(error).toBeDefined();
+        expect(error!.details[0].path).toContain('categoryId');
       });
     });
 
-    it('should sanitize string inputs', () => {
-      const dataWithExtraSpaces = {
-        ...validData,
-        category: `  ${ExpenseCategory.SOFTWARE_TOOLS}  `
-      };
-      const { error, value } = createExpenseSchema.validate(dataWithExtraSpaces);
+    it('should convert a numeric string category ID', () => {
+      const { error, value } = createExpenseSchema.validate({ ...validData, categoryId: '2' });
       
       expect(error).toBeUndefined();
-      expect(value.category).toBe(ExpenseCategory.SOFTWARE_TOOLS);
+      expect(value.categoryId).toBe(2);
     });
   });
 
@@ -157,11 +151,11 @@ describe('Expense Validation Schemas', () => {
     });
 
     it('should validate category when provided', () => {
-      const invalidData = { category: 'Invalid Category' };
+      const invalidData = { categoryId: 'Invalid Category' };
       const { error } = updateExpenseSchema.validate(invalidData);
       
       expect(error).toBeDefined();
-      expect(error!.details[0].path).toContain('category');
+      expect(error!.details[0].path).toContain('categoryId');
     });
 
     it('should validate month when provided', () => {
@@ -209,7 +203,7 @@ describe('Expense Validation Schemas', () => {
     });
 
     it('should validate category parameter', () => {
-      const validQuery = { category: ExpenseCategory.SALARIES };
+      const validQuery = { categoryId: 1 };
       const { error } = expenseQuerySchema.validate(validQuery);
       
       expect(error).toBeUndefined();
@@ -232,11 +226,11 @@ describe('Expense Validation Schemas', () => {
     });
 
     it('should reject invalid category', () => {
-      const invalidQuery = { category: 'Invalid Category' };
+      const invalidQuery = { categoryId: 'Invalid Category' };
       const { error } = expenseQuerySchema.validate(invalidQuery);
       
       expect(error).toBeDefined();
-      expect(error!.details[0].path).toContain('category');
+      expect(error!.details[0].path).toContain('categoryId');
     });
 
     it('should convert string numbers to integers', () => {
@@ -249,6 +243,79 @@ describe('Expense Validation Schemas', () => {
       expect(value.year).toBe(2024);
       expect(value.month).toBe(6);
     });
+
+    it('should validate date, category and amount ranges', () => {
+      const query = {
+        startYear: 2023, startMonth: 4, endYear: 2024, endMonth: 3,
+        categoryIds: ['2', '5'], minAmount: '100', maxAmount: '500',
+        sortBy: 'amount', sortOrder: 'asc'
+      };
+      const { error, value } = expenseQuerySchema.validate(query);
+
+      expect(error).toBeUndefined();
+      expect(value.categoryIds).toEqual([2, 5]);
+      expect(value.minAmount).toBe(100);
+    });
+
+    it('should accept a single category id as a list', () => {
+      const { error, value } = expenseQuerySchema.validate({ categoryIds: '3' });
+
+      expect(error).toBeUndefined();
+      expect(value.categoryIds).toEqual([3]);
+    });
+
+    it('should default to newest first', () => {
+      const { value } = expenseQuerySchema.validate({});
+
+      expect(value.sortBy).toBe('date');
+      expect(value.sortOrder).toBe('desc');
+    });
+
+    it('should reject a date range that ends before it starts', () => {
+      const query = { startYear: 2024, startMonth: 6, endYear: 2024, endMonth: 2 };
+      const { error } = expenseQuerySchema.validate(query);
+
+      expect(error).toBeDefined();
+      expect(error!.message).toBe('End of the date range cannot be before its start');
+    });
+
+    it('should reject a maximum amount below the minimum', () => {
+      const { error } = expenseQuerySchema.validate({ minAmount: 500, maxAmount: 100 });
+
+      expect(error).toBeDefined();
+      expect(error!.message).toBe('Maximum amount cannot be below the minimum amount');
+    });
+
+    it('should reject a start month without a start year', () => {
+      const { error } = expenseQuerySchema.validate({ startMonth: 4 });
+
+      expect(error).toBeDefined();
+    });
+
+    it('should reject categoryId together with categoryIds', () => {
+      const { error } = expenseQuerySchema.validate({ categoryId: 1, categoryIds: [2] });
+
+      expect(error).toBeDefined();
+    });
+
+    it('should allow an empty cursor for the first keyset page', () => {
+      const { error } = expenseQuerySchema.validate({ cursor: '' });
+
+      expect(error).toBeUndefined();
+    });
+
+    it('should reject a cursor together with an offset', () => {
+      const { error } = expenseQuerySchema.validate({ cursor: '', offset: 50 });
+
+      expect(error).toBeDefined();
+    });
+
+    it('should reject a cursor with a sort other than date', () => {
+      const { error } = expenseQuerySchema.validate({ cursor: '', sortBy: 'amount' });
+
+      expect(error).toBeDefined();
+      expect(error!.message).toBe('Cursor paging only supports sorting by date');
+    });
   });
 
   describe('trendsQuerySchema', () => {
@@ -289,10 +356,27 @@ describe('Expense Validation Schemas', () => {
     });
   });
 
+  describe('trashPurgeSchema', () => {
+    it('should accept a positive number of days or none', () => {
+      expect(trashPurgeSchema.validate({ retentionDays: 7 }).error).toBeUndefined();
+      expect(trashPurgeSchema.validate({}).error).toBeUndefined();
+    });
+
+    it('should reject retention periods that would empty the whole trash', () => {
+      expect(trashPurgeSchema.validate({ retentionDays: 0 }).error?.message).toBe('Retention days must be at least 1');
+      expect(trashPurgeSchema.validate({ retentionDays: -5 }).error?.message).toBe('Retention days must be at least 1');
+    });
+
+    it('should reject retention periods that are not whole numbers', () => {
+      expect(trashPurgeSchema.validate({ retentionDays: 'soon' }).error?.message).toBe('Retention days must be a number');
+      expect(trashPurgeSchema.validate({ retentionDays: 1.5 }).error?.message).toBe('Retention days must be a whole number');
+    });
+  });
+
   describe('Input Sanitization', () => {
     it('should handle XSS attempts in category', () => {
       const maliciousData = {
-        category: '<script>alert("xss")</script>',
+        categoryId: '<script>alert("xss")</script>',
         amount: 1500,
         month: 3,
         year: 2024
@@ -301,12 +385,12 @@ describe('Expense Validation Schemas', () => {
       const { error } = createExpenseSchema.validate(maliciousData);
       
       expect(error).toBeDefined();
-      expect(error!.details[0].path).toContain('category');
+      expect(error!.details[0].path).toContain('categoryId');
     });
 
     it('should handle SQL injection attempts', () => {
       const maliciousData = {
-        category: "'; DROP TABLE costs; --",
+        categoryId: "'; DROP TABLE costs; --",
         amount: 1500,
         month: 3,
         year: 2024
@@ -315,12 +399,12 @@ describe('Expense Validation Schemas', () => {
       const { error } = createExpenseSchema.validate(maliciousData);
       
       expect(error).toBeDefined();
-      expect(error!.details[0].path).toContain('category');
+      expect(error!.details[0].path).toContain('categoryId');
     });
 
     it('should handle extremely large numbers', () => {
       const dataWithLargeAmount = {
-        category: ExpenseCategory.SOFTWARE_TOOLS,
+        categoryId: 2,
         amount: Number.MAX_SAFE_INTEGER + 1,
         month: 3,
         year: 2024
@@ -334,7 +418,7 @@ describe('Expense Validation Schemas', () => {
 
     it('should handle non-numeric strings for numbers', () => {
       const invalidData = {
-        category: ExpenseCategory.SOFTWARE_TOOLS,
+        categoryId: 2,
         amount: 'not-a-number',
         month: 3,
         year: 2024
@@ -0,0 +1,16 @@
+// Categories every new organization starts with. They can be renamed, recoloured,
+// reordered or archived afterwards like any other category.
+export const DEFAULT_CATEGORIES: ReadonlyArray<{ name: string; color: string }> = [
+  { name: 'Salaries', color: '#8884d8' },
+  { name: 'Software & Tools', color: '#82ca9d' },
+  { name: 'Infrastructure & Hosting', color: '#ffc658' },
+  { name: 'Hardware & Equipment', color: '#ff7c7c' },
+  { name: 'Security & Compliance', color: '#8dd1e1' },
+  { name: 'Operational & Administrative', color: '#d084d0' },
+  { name: 'Continuous Learning & R&D', color: '#ffb347' }
+];
+
+// Nested create input for an organization's default categories
+export const defaultCategoriesCreateInput = () => ({
+  create: DEFAULT_CATEGORIES.map((category, index) => ({ ...category, displayOrder: index }))
+});
\ No newline at end of file
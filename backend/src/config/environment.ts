@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import crypto from 'crypto';
 import { logger } from '../utils/logger';
 
 // Load environment variables
@@ -17,6 +18,7 @@ interface EnvironmentConfig {
   RATE_LIMIT_MAX_REQUESTS: number;
   RATE_LIMIT_STRICT_MAX: number;
   REQUEST_SIZE_LIMIT: string;
+  IMPORT_SIZE_LIMIT: string;
   
   // CORS configuration
   FRONTEND_URL: string;
@@ -31,9 +33,36 @@ interface EnvironmentConfig {
   SECURITY_HEADERS_ENABLED: boolean;
   CSP_ENABLED: boolean;
   
-  // Session configuration (for future use)
-  SESSION_SECRET?: string;
+  // Session configuration
+  SESSION_SECRET: string;
   SESSION_TIMEOUT: number;
+  REFRESH_TOKEN_TTL: number;
+  BCRYPT_ROUNDS: number;
+
+  // Budget alert delivery
+  SMTP_HOST: string;
+  SMTP_PORT: number;
+  SMTP_SECURE: boolean;
+  SMTP_USER: string;
+  SMTP_PASSWORD: string;
+  ALERT_EMAIL_FROM: string;
+  WEBHOOK_TIMEOUT_MS: number;
+
+  // Scheduled report delivery, through the same SMTP server
+  REPORT_EMAIL_FROM: string;
+
+  // Receipt and invoice attachments
+  ATTACHMENT_STORAGE: 'local' | 's3';
+  ATTACHMENT_DIR: string;
+  ATTACHMENT_SIZE_LIMIT: string;
+  S3_ENDPOINT: string;
+  S3_REGION: string;
+  S3_BUCKET: string;
+  S3_ACCESS_KEY_ID: string;
+  S3_SECRET_ACCESS_KEY: string;
+
+  // Days trashed expenses are kept before they are purged
+  TRASH_RETENTION_DAYS: number;
 }
 
 // Validate required environment variables
@@ -81,6 +110,7 @@ export const config: EnvironmentConfig = {
   RATE_LIMIT_MAX_REQUESTS: parseNumber(process.env.RATE_LIMIT_MAX_REQUESTS, 100),
   RATE_LIMIT_STRICT_MAX: parseNumber(process.env.RATE_LIMIT_STRICT_MAX, 10),
   REQUEST_SIZE_LIMIT: process.env.REQUEST_SIZE_LIMIT || '1mb',
+  IMPORT_SIZE_LIMIT: process.env.IMPORT_SIZE_LIMIT || '10mb',
   
   // CORS configuration
   FRONTEND_URL: process.env.FRONTEND_URL || 'http://localhost:3000',
@@ -99,15 +129,47 @@ export const config: EnvironmentConfig = {
   CSP_ENABLED: parseBoolean(process.env.CSP_ENABLED, true),
   
   // Session configuration
-  SESSION_SECRET: process.env.SESSION_SECRET,
+  // Without a configured secret, tokens are signed with a per-process key and
+  // stop verifying on restart; production startup warns about this below.
+  SESSION_SECRET: process.env.SESSION_SECRET || crypto.randomBytes(32).toString('hex'),
   SESSION_TIMEOUT: parseNumber(process.env.SESSION_TIMEOUT, 30 * 60 * 1000), // 30 minutes
+  REFRESH_TOKEN_TTL: parseNumber(process.env.REFRESH_TOKEN_TTL, 7 * 24 * 60 * 60 * 1000), // 7 days
+  BCRYPT_ROUNDS: parseNumber(process.env.BCRYPT_ROUNDS, 12),
+
+  // Budget alert delivery; email alerts fail until SMTP_HOST is set
+  SMTP_HOST: process.env.SMTP_HOST || '',
+  SMTP_PORT: parseNumber(process.env.SMTP_PORT, 587),
+  SMTP_SECURE: parseBoolean(process.env.SMTP_SECURE, false),
+  SMTP_USER: process.env.SMTP_USER || '',
+  SMTP_PASSWORD: process.env.SMTP_PASSWORD || '',
+  ALERT_EMAIL_FROM: process.env.ALERT_EMAIL_FROM || 'alerts@localhost',
+  WEBHOOK_TIMEOUT_MS: parseNumber(process.env.WEBHOOK_TIMEOUT_MS, 5000),
+
+  // Scheduled report delivery
+  REPORT_EMAIL_FROM: process.env.REPORT_EMAIL_FROM || process.env.ALERT_EMAIL_FROM || 'reports@localhost',
+
+  // Attachments are kept under ATTACHMENT_DIR unless ATTACHMENT_STORAGE is s3,
+  // which stores them in S3_BUCKET of any S3-compatible service
+  ATTACHMENT_STORAGE: process.env.ATTACHMENT_STORAGE === 's3' ? 's3' : 'local',
+  ATTACHMENT_DIR: process.env.ATTACHMENT_DIR || 'uploads',
+  ATTACHMENT_SIZE_LIMIT: process.env.ATTACHMENT_SIZE_LIMIT || '10mb',
+  S3_ENDPOINT: process.env.S3_ENDPOINT || 'https://s3.amazonaws.com',
+  S3_REGION: process.env.S3_REGION || 'us-east-1',
+  S3_BUCKET: process.env.S3_BUCKET || '',
+  S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID || '',
+  S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY || '',
+
+  // Trash
+  TRASH_RETENTION_DAYS: parseNumber(process.env.TRASH_RETENTION_DAYS, 30),
 };
 
 // Log configuration on startup (excluding sensitive data)
 const logConfig = {
   ...config,
   DATABASE_URL: '[REDACTED]',
-  SESSION_SECRET: config.SESSION_SECRET ? '[REDACTED]' : undefined
+  SESSION_SECRET: '[REDACTED]',
+  SMTP_PASSWORD: '[REDACTED]',
+  S3_SECRET_ACCESS_KEY: '[REDACTED]'
 };
 
 logger.info('Environment configuration loaded', {
@@ -119,7 +181,7 @@ logger.info('Environment configuration loaded', {
 if (config.NODE_ENV === 'production') {
   const productionWarnings: string[] = [];
   
-  if (!config.SESSION_SECRET) {
+  if (!process.env.SESSION_SECRET) {
     productionWarnings.push('SESSION_SECRET not set - sessions will not be secure');
   }
   
@@ -0,0 +1,12 @@
+import { Permission, UserRole } from '../types/auth';
+
+// Permissions granted to each role. Viewers read dashboards, editors maintain
+// cost entries and admins additionally approve them and run archival and maintenance.
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  [UserRole.VIEWER]: [Permission.EXPENSES_READ],
+  [UserRole.EDITOR]: [Permission.EXPENSES_READ, Permission.EXPENSES_WRITE],
+  [UserRole.ADMIN]: [Permission.EXPENSES_READ, Permission.EXPENSES_WRITE, Permission.EXPENSES_APPROVE, Permission.ADMIN],
+};
+
+export const hasPermission = (role: UserRole, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
\ No newline at end of file
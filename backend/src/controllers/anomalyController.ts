@@ -0,0 +1,76 @@
+import { Request, Response, NextFunction } from 'express';
+import { AnomalyService } from '../services/anomalyService';
+import { getOrganizationId } from '../middleware/organization';
+import { getAuditContext } from '../middleware/auth';
+import { reviewAnomalySchema, anomalyQuerySchema, anomalyIdSchema } from '../validation/anomaly';
+import { AnomalyQuery, ReviewAnomalyRequest } from '../types/anomaly';
+import { ApiResponse, PaginatedResponse, HttpStatus } from '../types/api';
+import { ValidationError } from '../utils/errors';
+
+export class AnomalyController {
+  // Get anomalies with optional filtering and pagination
+  static async getAnomalies(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = anomalyQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const query: AnomalyQuery = value;
+      const result = await AnomalyService.getAnomalies(getOrganizationId(req), query);
+
+      const response: PaginatedResponse<any> = {
+        data: result.anomalies,
+        pagination: {
+          total: result.total,
+          limit: query.limit || 50,
+          offset: query.offset || 0,
+          hasMore: (query.offset || 0) + result.anomalies.length < result.total
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Acknowledge or dismiss an anomaly
+  static async reviewAnomaly(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate anomaly ID parameter
+      const { error: idError, value: idValue } = anomalyIdSchema.validate({
+        id: parseInt(req.params.id || '0')
+      });
+      if (idError) {
+        throw new ValidationError(idError.details[0]?.message || 'Validation error');
+      }
+
+      // Validate request body
+      const { error: bodyError, value: bodyValue } = reviewAnomalySchema.validate(req.body);
+      if (bodyError) {
+        throw new ValidationError(bodyError.details[0]?.message || 'Validation error');
+      }
+
+      const reviewData: ReviewAnomalyRequest = bodyValue;
+      const anomaly = await AnomalyService.reviewAnomaly(
+        getOrganizationId(req),
+        idValue.id,
+        reviewData.status,
+        getAuditContext(req).userId
+      );
+
+      const response: ApiResponse = {
+        data: anomaly,
+        message: 'Anomaly reviewed successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
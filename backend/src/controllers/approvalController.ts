@@ -0,0 +1,162 @@
+import { Request, Response, NextFunction } from 'express';
+import { CostStatus } from '@prisma/client';
+import { ApprovalService } from '../services/approvalService';
+import { ExpenseService } from '../services/expenseService';
+import { getOrganizationId } from '../middleware/organization';
+import { getAuditContext } from '../middleware/auth';
+import { approvalQueueQuerySchema, approvalThresholdSchema, reviewExpenseSchema } from '../validation/approval';
+import { expenseIdSchema } from '../validation/expense';
+import { ApprovalQueueQuery, ReviewExpenseRequest, UpdateApprovalThresholdRequest } from '../types/approval';
+import { ExpenseResponse } from '../types/expense';
+import { ApiResponse, PaginatedResponse, HttpStatus } from '../types/api';
+import { ValidationError } from '../utils/errors';
+
+// Validate the expense ID parameter of a request
+const expenseId = (req: Request): number => {
+  const { error, value } = expenseIdSchema.validate({ id: parseInt(req.params.id || '0') });
+  if (error) {
+    throw new ValidationError(error.details[0]?.message || 'Validation error');
+  }
+
+  return value.id;
+};
+
+// Validate the body of an approval or rejection
+const reviewComment = (req: Request): string | null => {
+  const { error, value } = reviewExpenseSchema.validate(req.body ?? {});
+  if (error) {
+    throw new ValidationError(error.details[0]?.message || 'Validation error');
+  }
+
+  const { comment }: ReviewExpenseRequest = value;
+  return comment || null;
+};
+
+export class ApprovalController {
+  // Get the expenses waiting for approval, oldest month first
+  static async getQueue(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = approvalQueueQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const query: ApprovalQueueQuery = value;
+      const limit = query.limit || 50;
+      const offset = query.offset || 0;
+      const result = await ExpenseService.getExpenses(getOrganizationId(req), {
+        status: CostStatus.SUBMITTED,
+        sortBy: 'date',
+        sortOrder: 'asc',
+        limit,
+        offset
+      });
+
+      const response: PaginatedResponse<ExpenseResponse> = {
+        data: result.expenses,
+        pagination: { total: result.total, limit, offset, hasMore: offset + result.expenses.length < result.total },
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Submit a draft or rejected expense for approval
+  static async submitExpense(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const expense = await ApprovalService.submitExpense(getOrganizationId(req), expenseId(req), getAuditContext(req));
+
+      const response: ApiResponse = {
+        data: expense,
+        message: 'Expense submitted successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Approve a submitted expense
+  static async approveExpense(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const expense = await ApprovalService.approveExpense(
+        getOrganizationId(req), expenseId(req), getAuditContext(req), reviewComment(req)
+      );
+
+      const response: ApiResponse = {
+        data: expense,
+        message: 'Expense approved successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Reject a submitted expense
+  static async rejectExpense(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const expense = await ApprovalService.rejectExpense(
+        getOrganizationId(req), expenseId(req), getAuditContext(req), reviewComment(req)
+      );
+
+      const response: ApiResponse = {
+        data: expense,
+        message: 'Expense rejected successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get who moved an expense between statuses, and why
+  static async getStatusHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const history = await ApprovalService.getStatusHistory(getOrganizationId(req), expenseId(req));
+
+      const response: ApiResponse = {
+        data: history,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Change the amount above which expenses need approval
+  static async updateThreshold(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = approvalThresholdSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const { threshold }: UpdateApprovalThresholdRequest = value;
+      const organization = await ApprovalService.updateThreshold(getOrganizationId(req), threshold);
+
+      const response: ApiResponse = {
+        data: organization,
+        message: 'Approval threshold updated successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
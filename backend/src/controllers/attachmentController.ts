@@ -0,0 +1,130 @@
+import { Request, Response, NextFunction } from 'express';
+import { AttachmentService } from '../services/attachmentService';
+import { getOrganizationId } from '../middleware/organization';
+import { getAuditContext } from '../middleware/auth';
+import { attachmentIdSchema, uploadAttachmentQuerySchema } from '../validation/attachment';
+import { expenseIdSchema } from '../validation/expense';
+import { UploadAttachmentQuery } from '../types/attachment';
+import { ApiResponse, HttpStatus } from '../types/api';
+import { ValidationError } from '../utils/errors';
+import { ATTACHMENT_CONTENT_TYPES, matchesContentType } from '../utils/fileType';
+
+// Validate the expense ID parameter of a request
+const expenseId = (req: Request): number => {
+  const { error, value } = expenseIdSchema.validate({ id: parseInt(req.params.id || '0') });
+  if (error) {
+    throw new ValidationError(error.details[0]?.message || 'Validation error');
+  }
+
+  return value.id;
+};
+
+// Validate the expense and attachment ID parameters of a request
+const attachmentIds = (req: Request): { id: number; attachmentId: number } => {
+  const { error, value } = attachmentIdSchema.validate({
+    id: parseInt(req.params.id || '0'),
+    attachmentId: parseInt(req.params.attachmentId || '0')
+  });
+  if (error) {
+    throw new ValidationError(error.details[0]?.message || 'Validation error');
+  }
+
+  return value;
+};
+
+// Quotes and non-ASCII characters can't appear in a plain filename parameter,
+// so the exact name is also given encoded
+const contentDisposition = (fileName: string): string =>
+  `attachment; filename="${fileName.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+
+export class AttachmentController {
+  // Attach a receipt or invoice, uploaded as the raw request body, to an expense
+  static async uploadAttachment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = expenseId(req);
+
+      const contentType = req.is(ATTACHMENT_CONTENT_TYPES);
+      if (!contentType || !Buffer.isBuffer(req.body)) {
+        throw new ValidationError(`Upload a file of one of these types: ${ATTACHMENT_CONTENT_TYPES.join(', ')}`);
+      }
+
+      if (req.body.length === 0) {
+        throw new ValidationError('Uploaded file is empty');
+      }
+
+      if (!matchesContentType(req.body, contentType)) {
+        throw new ValidationError(`Uploaded file is not a valid ${contentType} file`);
+      }
+
+      // Validate query parameters
+      const { error, value } = uploadAttachmentQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const { fileName }: UploadAttachmentQuery = value;
+      const attachment = await AttachmentService.uploadAttachment(
+        getOrganizationId(req), id, { fileName, contentType, file: req.body }, getAuditContext(req).userId
+      );
+
+      const response: ApiResponse = {
+        data: attachment,
+        message: 'Attachment uploaded successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.CREATED).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the attachments of an expense
+  static async getAttachments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const attachments = await AttachmentService.getAttachments(getOrganizationId(req), expenseId(req));
+
+      const response: ApiResponse = {
+        data: attachments,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Download the file of an attachment
+  static async downloadAttachment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, attachmentId } = attachmentIds(req);
+      const file = await AttachmentService.downloadAttachment(getOrganizationId(req), id, attachmentId);
+
+      res.status(HttpStatus.OK)
+        .set('Content-Type', file.contentType)
+        .set('Content-Disposition', contentDisposition(file.fileName))
+        .send(file.file);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Remove an attachment from an expense
+  static async deleteAttachment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, attachmentId } = attachmentIds(req);
+      await AttachmentService.deleteAttachment(getOrganizationId(req), id, attachmentId);
+
+      const response: ApiResponse = {
+        data: null,
+        message: 'Attachment deleted successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
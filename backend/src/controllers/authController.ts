@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService } from '../services/authService';
+import { loginSchema, refreshTokenSchema } from '../validation/auth';
+import { LoginRequest, RefreshTokenRequest } from '../types/auth';
+import { ApiResponse, HttpStatus } from '../types/api';
+import { ValidationError, AuthenticationError } from '../utils/errors';
+
+export class AuthController {
+  // Log in with email and password
+  static async login(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { error, value } = loginSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const credentials: LoginRequest = value;
+      const tokens = await AuthService.login(credentials.email, credentials.password, req.ip);
+
+      const response: ApiResponse = {
+        data: tokens,
+        message: 'Logged in successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Exchange a refresh token for a new token pair
+  static async refresh(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { error, value } = refreshTokenSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const { refreshToken }: RefreshTokenRequest = value;
+      const tokens = await AuthService.refresh(refreshToken);
+
+      const response: ApiResponse = {
+        data: tokens,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Revoke the given refresh token
+  static async logout(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { error, value } = refreshTokenSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const { refreshToken }: RefreshTokenRequest = value;
+      await AuthService.logout(refreshToken);
+
+      const response: ApiResponse = {
+        data: null,
+        message: 'Logged out successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the currently authenticated user
+  static async me(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError();
+      }
+
+      const user = await AuthService.getUserById(req.user.id);
+
+      const response: ApiResponse = {
+        data: user,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { Request, Response, NextFunction } from 'express';
+import { BudgetAlertService } from '../services/budgetAlertService';
+import { getOrganizationId } from '../middleware/organization';
+import {
+  createAlertRuleSchema,
+  updateAlertRuleSchema,
+  alertQuerySchema,
+  alertRuleIdSchema
+} from '../validation/alert';
+import { CreateAlertRuleRequest, UpdateAlertRuleRequest, AlertQuery } from '../types/alert';
+import { ApiResponse, PaginatedResponse, HttpStatus } from '../types/api';
+import { ValidationError } from '../utils/errors';
+
+export class BudgetAlertController {
+  // List the organization's alert rules
+  static async getRules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rules = await BudgetAlertService.getRules(getOrganizationId(req));
+
+      const response: ApiResponse = {
+        data: rules,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create an alert rule
+  static async createRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = createAlertRuleSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const ruleData: CreateAlertRuleRequest = value;
+      const rule = await BudgetAlertService.createRule(getOrganizationId(req), ruleData);
+
+      const response: ApiResponse = {
+        data: rule,
+        message: 'Alert rule created successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.CREATED).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update an alert rule
+  static async updateRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate alert rule ID parameter
+      const { error: idError, value: idValue } = alertRuleIdSchema.validate({
+        id: parseInt(req.params.id || '0')
+      });
+      if (idError) {
+        throw new ValidationError(idError.details[0]?.message || 'Validation error');
+      }
+
+      // Validate request body
+      const { error: bodyError, value: bodyValue } = updateAlertRuleSchema.validate(req.body);
+      if (bodyError) {
+        throw new ValidationError(bodyError.details[0]?.message || 'Validation error');
+      }
+
+      const updateData: UpdateAlertRuleRequest = bodyValue;
+      const rule = await BudgetAlertService.updateRule(getOrganizationId(req), idValue.id, updateData);
+
+      const response: ApiResponse = {
+        data: rule,
+        message: 'Alert rule updated successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete an alert rule
+  static async deleteRule(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate alert rule ID parameter
+      const { error, value } = alertRuleIdSchema.validate({ id: parseInt(req.params.id || '0') });
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      await BudgetAlertService.deleteRule(getOrganizationId(req), value.id);
+
+      const response: ApiResponse = {
+        data: null,
+        message: 'Alert rule deleted successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get alert history with optional filtering and pagination
+  static async getAlerts(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = alertQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const query: AlertQuery = value;
+      const result = await BudgetAlertService.getAlerts(getOrganizationId(req), query);
+
+      const response: PaginatedResponse<any> = {
+        data: result.alerts,
+        pagination: {
+          total: result.total,
+          limit: query.limit || 50,
+          offset: query.offset || 0,
+          hasMore: (query.offset || 0) + result.alerts.length < result.total
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
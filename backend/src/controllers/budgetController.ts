@@ -0,0 +1,167 @@
+import { Request, Response, NextFunction } from 'express';
+import { BudgetService } from '../services/budgetService';
+import { getOrganizationId } from '../middleware/organization';
+import {
+  createBudgetSchema,
+  updateBudgetSchema,
+  budgetQuerySchema,
+  budgetIdSchema,
+  varianceQuerySchema
+} from '../validation/budget';
+import {
+  CreateBudgetRequest,
+  UpdateBudgetRequest,
+  BudgetQuery,
+  VarianceQuery
+} from '../types/budget';
+import { ApiResponse, HttpStatus } from '../types/api';
+import { ValidationError } from '../utils/errors';
+
+export class BudgetController {
+  // Create a new budget
+  static async createBudget(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = createBudgetSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const budgetData: CreateBudgetRequest = value;
+      const budget = await BudgetService.createBudget(getOrganizationId(req), budgetData);
+
+      const response: ApiResponse = {
+        data: budget,
+        message: 'Budget created successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.CREATED).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get budgets with optional filtering
+  static async getBudgets(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = budgetQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const query: BudgetQuery = value;
+      const budgets = await BudgetService.getBudgets(getOrganizationId(req), query);
+
+      const response: ApiResponse = {
+        data: budgets,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a single budget by ID
+  static async getBudgetById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate budget ID parameter
+      const { error, value } = budgetIdSchema.validate({ id: parseInt(req.params.id || '0') });
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const budget = await BudgetService.getBudgetById(getOrganizationId(req), value.id);
+
+      const response: ApiResponse = {
+        data: budget,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update a budget
+  static async updateBudget(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate budget ID parameter
+      const { error: idError, value: idValue } = budgetIdSchema.validate({
+        id: parseInt(req.params.id || '0')
+      });
+      if (idError) {
+        throw new ValidationError(idError.details[0]?.message || 'Validation error');
+      }
+
+      // Validate request body
+      const { error: bodyError, value: bodyValue } = updateBudgetSchema.validate(req.body);
+      if (bodyError) {
+        throw new ValidationError(bodyError.details[0]?.message || 'Validation error');
+      }
+
+      const updateData: UpdateBudgetRequest = bodyValue;
+      const budget = await BudgetService.updateBudget(getOrganizationId(req), idValue.id, updateData);
+
+      const response: ApiResponse = {
+        data: budget,
+        message: 'Budget updated successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete a budget
+  static async deleteBudget(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate budget ID parameter
+      const { error, value } = budgetIdSchema.validate({ id: parseInt(req.params.id || '0') });
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      await BudgetService.deleteBudget(getOrganizationId(req), value.id);
+
+      const response: ApiResponse = {
+        data: null,
+        message: 'Budget deleted successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Compare budgeted and actual spend per category
+  static async getVariance(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = varianceQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const query: VarianceQuery = value;
+      const variance = await BudgetService.getVariance(getOrganizationId(req), query);
+
+      const response: ApiResponse = {
+        data: variance,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
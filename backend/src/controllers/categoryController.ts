@@ -0,0 +1,138 @@
+import { Request, Response, NextFunction } from 'express';
+import { CategoryService } from '../services/categoryService';
+import { getOrganizationId } from '../middleware/organization';
+import {
+  createCategorySchema,
+  updateCategorySchema,
+  categoryQuerySchema,
+  categoryIdSchema
+} from '../validation/category';
+import { CreateCategoryRequest, UpdateCategoryRequest, CategoryQuery } from '../types/category';
+import { ApiResponse, HttpStatus } from '../types/api';
+import { ValidationError } from '../utils/errors';
+
+export class CategoryController {
+  // Create a new category
+  static async createCategory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = createCategorySchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const categoryData: CreateCategoryRequest = value;
+      const category = await CategoryService.createCategory(getOrganizationId(req), categoryData);
+
+      const response: ApiResponse = {
+        data: category,
+        message: 'Category created successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.CREATED).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get categories in display order
+  static async getCategories(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = categoryQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const query: CategoryQuery = value;
+      const categories = await CategoryService.getCategories(getOrganizationId(req), query);
+
+      const response: ApiResponse = {
+        data: categories,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a single category by ID
+  static async getCategoryById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate category ID parameter
+      const { error, value } = categoryIdSchema.validate({ id: parseInt(req.params.id || '0') });
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const category = await CategoryService.getCategoryById(getOrganizationId(req), value.id);
+
+      const response: ApiResponse = {
+        data: category,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update a category
+  static async updateCategory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate category ID parameter
+      const { error: idError, value: idValue } = categoryIdSchema.validate({
+        id: parseInt(req.params.id || '0')
+      });
+      if (idError) {
+        throw new ValidationError(idError.details[0]?.message || 'Validation error');
+      }
+
+      // Validate request body
+      const { error: bodyError, value: bodyValue } = updateCategorySchema.validate(req.body);
+      if (bodyError) {
+        throw new ValidationError(bodyError.details[0]?.message || 'Validation error');
+      }
+
+      const updateData: UpdateCategoryRequest = bodyValue;
+      const category = await CategoryService.updateCategory(getOrganizationId(req), idValue.id, updateData);
+
+      const response: ApiResponse = {
+        data: category,
+        message: 'Category updated successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Archive a category
+  static async archiveCategory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate category ID parameter
+      const { error, value } = categoryIdSchema.validate({ id: parseInt(req.params.id || '0') });
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const category = await CategoryService.archiveCategory(getOrganizationId(req), value.id);
+
+      const response: ApiResponse = {
+        data: category,
+        message: 'Category archived successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
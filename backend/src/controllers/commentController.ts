@@ -0,0 +1,184 @@
+import { Request, Response, NextFunction } from 'express';
+import { CommentService } from '../services/commentService';
+import { getOrganizationId } from '../middleware/organization';
+import { commentIdSchema, commentQuerySchema, commentSchema } from '../validation/comment';
+import { expenseIdSchema } from '../validation/expense';
+import { CommentQuery, CommentResponse, CreateCommentRequest } from '../types/comment';
+import { ApiResponse, PaginatedResponse, HttpStatus } from '../types/api';
+import { AuthenticationError, ValidationError } from '../utils/errors';
+
+// Validate the expense ID parameter of a request
+const expenseId = (req: Request): number => {
+  const { error, value } = expenseIdSchema.validate({ id: parseInt(req.params.id || '0') });
+  if (error) {
+    throw new ValidationError(error.details[0]?.message || 'Validation error');
+  }
+
+  return value.id;
+};
+
+// Validate the expense and comment ID parameters of a request
+const commentIds = (req: Request): { id: number; commentId: number } => {
+  const { error, value } = commentIdSchema.validate({
+    id: parseInt(req.params.id || '0'),
+    commentId: parseInt(req.params.commentId || '0')
+  });
+  if (error) {
+    throw new ValidationError(error.details[0]?.message || 'Validation error');
+  }
+
+  return value;
+};
+
+// Validate the body of a new or edited comment
+const commentBody = (req: Request): CreateCommentRequest => {
+  const { error, value } = commentSchema.validate(req.body);
+  if (error) {
+    throw new ValidationError(error.details[0]?.message || 'Validation error');
+  }
+
+  return value;
+};
+
+// Comments are written and read by a user, not only within an organization
+const userId = (req: Request): number => {
+  if (!req.user) {
+    throw new AuthenticationError();
+  }
+
+  return req.user.id;
+};
+
+export class CommentController {
+  // Get the thread of an expense, oldest comment first
+  static async getComments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = expenseId(req);
+
+      // Validate query parameters
+      const { error, value } = commentQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const query: CommentQuery = value;
+      const limit = query.limit || 50;
+      const offset = query.offset || 0;
+      const result = await CommentService.getComments(getOrganizationId(req), id, { limit, offset });
+
+      const response: PaginatedResponse<CommentResponse> = {
+        data: result.comments,
+        pagination: { total: result.total, limit, offset, hasMore: offset + result.comments.length < result.total },
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Comment on an expense
+  static async createComment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = expenseId(req);
+      const comment = await CommentService.createComment(getOrganizationId(req), id, commentBody(req), userId(req));
+
+      const response: ApiResponse = {
+        data: comment,
+        message: 'Comment added successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.CREATED).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Edit one of the caller's own comments
+  static async updateComment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, commentId } = commentIds(req);
+      const comment = await CommentService.updateComment(
+        getOrganizationId(req), id, commentId, commentBody(req), userId(req)
+      );
+
+      const response: ApiResponse = {
+        data: comment,
+        message: 'Comment updated successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete one of the caller's own comments
+  static async deleteComment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id, commentId } = commentIds(req);
+      await CommentService.deleteComment(getOrganizationId(req), id, commentId, userId(req));
+
+      const response: ApiResponse = {
+        data: null,
+        message: 'Comment deleted successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Mark the thread of an expense as read by the caller
+  static async markRead(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await CommentService.markRead(getOrganizationId(req), expenseId(req), userId(req));
+
+      const response: ApiResponse = {
+        data: null,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the expenses with comments the caller hasn't read
+  static async getUnread(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const unread = await CommentService.getUnread(getOrganizationId(req), userId(req));
+
+      const response: ApiResponse = {
+        data: unread,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the members of the organization who can be @mentioned
+  static async getMentionableUsers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const users = await CommentService.getMentionableUsers(getOrganizationId(req));
+
+      const response: ApiResponse = {
+        data: users,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { Request, Response, NextFunction } from 'express';
+import { CostCenterService } from '../services/costCenterService';
+import { getOrganizationId } from '../middleware/organization';
+import {
+  createCostCenterSchema,
+  updateCostCenterSchema,
+  costCenterQuerySchema,
+  costCenterIdSchema
+} from '../validation/costCenter';
+import { CreateCostCenterRequest, UpdateCostCenterRequest, CostCenterQuery } from '../types/costCenter';
+import { ApiResponse, HttpStatus } from '../types/api';
+import { ValidationError } from '../utils/errors';
+
+export class CostCenterController {
+  // Create a new cost center
+  static async createCostCenter(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = createCostCenterSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const costCenterData: CreateCostCenterRequest = value;
+      const costCenter = await CostCenterService.createCostCenter(getOrganizationId(req), costCenterData);
+
+      const response: ApiResponse = {
+        data: costCenter,
+        message: 'Cost center created successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.CREATED).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get cost centers by name
+  static async getCostCenters(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = costCenterQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const query: CostCenterQuery = value;
+      const costCenters = await CostCenterService.getCostCenters(getOrganizationId(req), query);
+
+      const response: ApiResponse = {
+        data: costCenters,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get a single cost center by ID
+  static async getCostCenterById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate cost center ID parameter
+      const { error, value } = costCenterIdSchema.validate({ id: parseInt(req.params.id || '0') });
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const costCenter = await CostCenterService.getCostCenterById(getOrganizationId(req), value.id);
+
+      const response: ApiResponse = {
+        data: costCenter,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update a cost center
+  static async updateCostCenter(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate cost center ID parameter
+      const { error: idError, value: idValue } = costCenterIdSchema.validate({
+        id: parseInt(req.params.id || '0')
+      });
+      if (idError) {
+        throw new ValidationError(idError.details[0]?.message || 'Validation error');
+      }
+
+      // Validate request body
+      const { error: bodyError, value: bodyValue } = updateCostCenterSchema.validate(req.body);
+      if (bodyError) {
+        throw new ValidationError(bodyError.details[0]?.message || 'Validation error');
+      }
+
+      const updateData: UpdateCostCenterRequest = bodyValue;
+      const costCenter = await CostCenterService.updateCostCenter(getOrganizationId(req), idValue.id, updateData);
+
+      const response: ApiResponse = {
+        data: costCenter,
+        message: 'Cost center updated successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Archive a cost center
+  static async archiveCostCenter(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate cost center ID parameter
+      const { error, value } = costCenterIdSchema.validate({ id: parseInt(req.params.id || '0') });
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const costCenter = await CostCenterService.archiveCostCenter(getOrganizationId(req), value.id);
+
+      const response: ApiResponse = {
+        data: costCenter,
+        message: 'Cost center archived successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
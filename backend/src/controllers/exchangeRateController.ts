@@ -0,0 +1,118 @@
+import { Request, Response, NextFunction } from 'express';
+import { ExchangeRateService } from '../services/exchangeRateService';
+import { OrganizationService } from '../services/organizationService';
+import { getOrganizationId } from '../middleware/organization';
+import {
+  importExchangeRatesSchema,
+  importExchangeRatesCsvSchema,
+  exchangeRateQuerySchema,
+  reportingCurrencySchema
+} from '../validation/exchangeRate';
+import {
+  ImportExchangeRatesRequest,
+  ExchangeRateQuery,
+  UpdateReportingCurrencyRequest
+} from '../types/exchangeRate';
+import { ApiResponse, HttpStatus } from '../types/api';
+import { ValidationError } from '../utils/errors';
+
+export class ExchangeRateController {
+  // List exchange rates
+  static async getRates(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = exchangeRateQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const query: ExchangeRateQuery = value;
+      const rates = await ExchangeRateService.getRates(query);
+
+      const response: ApiResponse = {
+        data: rates,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Load exchange rates given as JSON
+  static async importRates(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = importExchangeRatesSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const { rates }: ImportExchangeRatesRequest = value;
+      const importedCount = await ExchangeRateService.importRates(rates);
+
+      const response: ApiResponse = {
+        data: { importedCount },
+        message: 'Exchange rates loaded successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Load exchange rates from the contents of a CSV file
+  static async importCsv(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = importExchangeRatesCsvSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const rates = ExchangeRateService.parseCsv(value.csv);
+      if (rates.length === 0) {
+        throw new ValidationError('CSV contains no exchange rates');
+      }
+
+      const importedCount = await ExchangeRateService.importRates(rates);
+
+      const response: ApiResponse = {
+        data: { importedCount },
+        message: 'Exchange rates loaded successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Change the currency the current organization's reports are converted into
+  static async updateReportingCurrency(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = reportingCurrencySchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const { currency }: UpdateReportingCurrencyRequest = value;
+      const organization = await OrganizationService.updateReportingCurrency(getOrganizationId(req), currency);
+
+      const response: ApiResponse = {
+        data: organization,
+        message: 'Reporting currency updated successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
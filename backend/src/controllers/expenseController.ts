@@ -1,21 +1,36 @@
 import { Request, Response, NextFunction } from 'express';
 import { ExpenseService } from '../services/expenseService';
+import { ForecastService } from '../services/forecastService';
+import { AuditService } from '../services/auditService';
+import { getOrganizationId } from '../middleware/organization';
+import { getAuditContext } from '../middleware/auth';
 import { 
   createExpenseSchema, 
   updateExpenseSchema, 
   expenseQuerySchema, 
   expenseIdSchema,
-  trendsQuerySchema 
+  trendsQuerySchema,
+  forecastQuerySchema,
+  batchExpenseSchema,
+  trashQuerySchema
 } from '../validation/expense';
 import { 
   CreateExpenseRequest, 
   UpdateExpenseRequest, 
   ExpenseQuery,
-  TrendsQuery 
+  ExpenseResponse,
+  TrendsQuery,
+  BatchOperation,
+  BatchRequest,
+  BatchResponse,
+  TrashedExpenseResponse,
+  TrashQuery
 } from '../types/expense';
+import { ForecastQuery } from '../types/forecast';
 import { ApiResponse, PaginatedResponse, HttpStatus } from '../types/api';
 import { ValidationError, ApiError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { setPaginationHeaders } from '../utils/pagination';
 
 export class ExpenseController {
   // Create a new expense
@@ -28,7 +43,7 @@ export class ExpenseController {
       }
 
       const expenseData: CreateExpenseRequest = value;
-      const expense = await ExpenseService.createExpense(expenseData);
+      const expense = await ExpenseService.createExpense(getOrganizationId(req), expenseData, getAuditContext(req));
 
       const response: ApiResponse = {
         data: expense,
@@ -52,16 +67,31 @@ export class ExpenseController {
       }
 
       const query: ExpenseQuery = value;
-      const result = await ExpenseService.getExpenses(query);
+      const result = await ExpenseService.getExpenses(getOrganizationId(req), query);
+      const limit = query.limit || 50;
 
-      const response: PaginatedResponse<any> = {
+      let pagination: PaginatedResponse<ExpenseResponse>['pagination'];
+      if (query.cursor !== undefined) {
+        pagination = { total: result.total, limit, hasMore: result.nextCursor !== null, nextCursor: result.nextCursor };
+        setPaginationHeaders(req, res, result.total, {
+          first: { cursor: '' },
+          ...(result.nextCursor !== null && { next: { cursor: result.nextCursor } })
+        });
+      } else {
+        const offset = query.offset || 0;
+        const lastOffset = Math.max(0, Math.ceil(result.total / limit) - 1) * limit;
+        pagination = { total: result.total, limit, offset, hasMore: offset + result.expenses.length < result.total };
+        setPaginationHeaders(req, res, result.total, {
+          first: { offset: 0 },
+          ...(offset > 0 && { prev: { offset: Math.max(0, offset - limit) } }),
+          ...(pagination.hasMore && { next: { offset: offset + limit } }),
+          last: { offset: lastOffset }
+        });
+      }
+
+      const response: PaginatedResponse<ExpenseResponse> = {
         data: result.expenses,
-        pagination: {
-          total: result.total,
-          limit: query.limit || 50,
-          offset: query.offset || 0,
-          hasMore: (query.offset || 0) + result.expenses.length < result.total
-        },
+        pagination,
         timestamp: new Date().toISOString()
       };
 
@@ -80,7 +110,7 @@ export class ExpenseController {
         throw new ValidationError(error.details[0]?.message || 'Validation error');
       }
 
-      const expense = await ExpenseService.getExpenseById(value.id);
+      const expense = await ExpenseService.getExpenseById(getOrganizationId(req), value.id);
 
       const response: ApiResponse = {
         data: expense,
@@ -111,7 +141,12 @@ export class ExpenseController {
       }
 
       const updateData: UpdateExpenseRequest = bodyValue;
-      const expense = await ExpenseService.updateExpense(idValue.id, updateData);
+      const expense = await ExpenseService.updateExpense(
+        getOrganizationId(req),
+        idValue.id,
+        updateData,
+        getAuditContext(req)
+      );
 
       const response: ApiResponse = {
         data: expense,
@@ -134,11 +169,119 @@ export class ExpenseController {
         throw new ValidationError(error.details[0]?.message || 'Validation error');
       }
 
-      await ExpenseService.deleteExpense(value.id);
+      await ExpenseService.deleteExpense(getOrganizationId(req), value.id, getAuditContext(req));
 
       const response: ApiResponse = {
         data: null,
-        message: 'Expense deleted successfully',
+        message: 'Expense moved to the trash',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the trashed expenses, most recently deleted first
+  static async getTrash(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = trashQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const query: TrashQuery = value;
+      const result = await ExpenseService.getTrash(getOrganizationId(req), query);
+      const limit = query.limit || 50;
+      const offset = query.offset || 0;
+
+      const response: PaginatedResponse<TrashedExpenseResponse> = {
+        data: result.expenses,
+        pagination: { total: result.total, limit, offset, hasMore: offset + result.expenses.length < result.total },
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Restore a trashed expense
+  static async restoreExpense(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate expense ID parameter
+      const { error, value } = expenseIdSchema.validate({ id: parseInt(req.params.id || '0') });
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const expense = await ExpenseService.restoreExpense(getOrganizationId(req), value.id, getAuditContext(req));
+
+      const response: ApiResponse = {
+        data: expense,
+        message: 'Expense restored successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Run a batch of creates, updates and deletes
+  static async batchExpenses(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate the batch, then each operation's data like its single-expense route
+      const { error, value } = batchExpenseSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const operations: BatchOperation[] = value.operations.map((operation: BatchOperation, index: number) => {
+        if (operation.action === 'delete') {
+          return operation;
+        }
+
+        const schema = operation.action === 'create' ? createExpenseSchema : updateExpenseSchema;
+        const { error: dataError, value: data } = schema.validate(operation.data);
+        if (dataError) {
+          throw new ValidationError(`Operation ${index}: ${dataError.details[0]?.message || 'Validation error'}`);
+        }
+        return { ...operation, data };
+      });
+
+      const request: BatchRequest = { operations, atomic: value.atomic };
+      const result = await ExpenseService.batchExpenses(getOrganizationId(req), request, getAuditContext(req));
+
+      const response: ApiResponse<BatchResponse> = {
+        data: result,
+        message: result.committed ? 'Batch completed' : 'Batch rolled back',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the change history of an expense
+  static async getExpenseHistory(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate expense ID parameter
+      const { error, value } = expenseIdSchema.validate({ id: parseInt(req.params.id || '0') });
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const history = await AuditService.getCostHistory(getOrganizationId(req), value.id);
+
+      const response: ApiResponse = {
+        data: history,
         timestamp: new Date().toISOString()
       };
 
@@ -158,7 +301,7 @@ export class ExpenseController {
       }
 
       const query: TrendsQuery = value;
-      const trendsData = await ExpenseService.getTrends(query);
+      const trendsData = await ExpenseService.getTrends(getOrganizationId(req), query);
 
       const response: ApiResponse = {
         data: trendsData,
@@ -170,4 +313,27 @@ export class ExpenseController {
       next(error);
     }
   }
+
+  // Project spend for the coming months
+  static async getForecast(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = forecastQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const query: ForecastQuery = value;
+      const forecast = await ForecastService.getForecast(getOrganizationId(req), query);
+
+      const response: ApiResponse = {
+        data: forecast,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
 }
\ No newline at end of file
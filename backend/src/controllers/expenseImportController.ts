@@ -0,0 +1,66 @@
+import { Request, Response, NextFunction } from 'express';
+import { ExpenseImportService } from '../services/expenseImportService';
+import { getOrganizationId } from '../middleware/organization';
+import { getAuditContext } from '../middleware/auth';
+import { importOptionsSchema } from '../validation/expenseImport';
+import { ImportFileFormat, ImportOptions } from '../types/expenseImport';
+import { ApiResponse, HttpStatus } from '../types/api';
+import { ValidationError } from '../utils/errors';
+import { CSV_CONTENT_TYPE, XLSX_CONTENT_TYPE } from '../utils/fileType';
+
+// The uploaded file is the raw request body; its format comes from the Content-Type
+const readUpload = (req: Request): { file: Buffer; format: ImportFileFormat; options: ImportOptions } => {
+  const format: ImportFileFormat | null = req.is(CSV_CONTENT_TYPE) ? 'csv' : req.is(XLSX_CONTENT_TYPE) ? 'xlsx' : null;
+  if (!format || !Buffer.isBuffer(req.body)) {
+    throw new ValidationError(`Upload a CSV (${CSV_CONTENT_TYPE}) or XLSX (${XLSX_CONTENT_TYPE}) file`);
+  }
+
+  if (req.body.length === 0) {
+    throw new ValidationError('Uploaded file is empty');
+  }
+
+  // Validate query parameters
+  const { error, value } = importOptionsSchema.validate(req.query);
+  if (error) {
+    throw new ValidationError(error.details[0]?.message || 'Validation error');
+  }
+
+  return { file: req.body, format, options: value };
+};
+
+export class ExpenseImportController {
+  // Check an uploaded spreadsheet and report what importing it would do
+  static async previewImport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { file, format, options } = readUpload(req);
+      const preview = await ExpenseImportService.preview(getOrganizationId(req), file, format, options);
+
+      const response: ApiResponse = {
+        data: preview,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Import every row of an uploaded spreadsheet
+  static async importExpenses(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { file, format, options } = readUpload(req);
+      const result = await ExpenseImportService.import(getOrganizationId(req), file, format, options, getAuditContext(req));
+
+      const response: ApiResponse = {
+        data: result,
+        message: 'Expenses imported successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ExportService } from '../services/exportService';
+import { getOrganizationId } from '../middleware/organization';
+import { exportQuerySchema } from '../validation/export';
+import { expenseQuerySchema, trendsQuerySchema } from '../validation/expense';
+import { ExportQuery } from '../types/export';
+import { HttpStatus } from '../types/api';
+import { ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export class ExportController {
+  // Download expenses or trends for any filter as CSV, XLSX, JSON or PDF
+  static async exportData(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = exportQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const { type, format, ...filters } = value;
+      const filterSchema = type === 'trends' ? trendsQuerySchema : expenseQuerySchema;
+      const { error: filterError, value: filterValue } = filterSchema.validate(filters);
+      if (filterError) {
+        throw new ValidationError(filterError.details[0]?.message || 'Validation error');
+      }
+
+      // Exports are not paged
+      delete filterValue.limit;
+      delete filterValue.offset;
+      delete filterValue.cursor;
+
+      const query = { type, format, filters: filterValue } as ExportQuery;
+      const { filename, contentType, content } = await ExportService.export(getOrganizationId(req), query);
+
+      res.status(HttpStatus.OK)
+        .set('Content-Type', contentType)
+        .set('Content-Disposition', `attachment; filename="${filename}"`);
+
+      if (Buffer.isBuffer(content)) {
+        res.send(content);
+        return;
+      }
+
+      await pipeline(Readable.from(content), res);
+    } catch (error) {
+      // Once a streamed export has started, the client only sees the download break off
+      if (res.headersSent) {
+        logger.error('Export failed while streaming:', error);
+        return;
+      }
+      next(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { OrganizationService } from '../services/organizationService';
+import { ApiResponse, HttpStatus } from '../types/api';
+import { AuthenticationError } from '../utils/errors';
+
+export class OrganizationController {
+  // List the organizations the authenticated user belongs to
+  static async getOrganizations(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AuthenticationError();
+      }
+
+      const organizations = await OrganizationService.getOrganizationsForUser(req.user.id);
+
+      const response: ApiResponse = {
+        data: organizations,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
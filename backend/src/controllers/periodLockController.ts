@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express';
+import { PeriodLockService } from '../services/periodLockService';
+import { getOrganizationId } from '../middleware/organization';
+import { getAuditContext } from '../middleware/auth';
+import { periodSchema, periodLockQuerySchema } from '../validation/periodLock';
+import { ClosePeriodRequest, PeriodLockQuery, ReopenPeriodRequest } from '../types/periodLock';
+import { ApiResponse, HttpStatus } from '../types/api';
+import { ValidationError } from '../utils/errors';
+
+export class PeriodLockController {
+  // Get the closed months
+  static async getLocks(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = periodLockQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const query: PeriodLockQuery = value;
+      const locks = await PeriodLockService.getLocks(getOrganizationId(req), query);
+
+      const response: ApiResponse = {
+        data: locks,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Close a month
+  static async closePeriod(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = periodSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const period: ClosePeriodRequest = value;
+      const lock = await PeriodLockService.closePeriod(getOrganizationId(req), period, getAuditContext(req).userId);
+
+      const response: ApiResponse = {
+        data: lock,
+        message: 'Period closed successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.CREATED).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Reopen a closed month
+  static async reopenPeriod(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = periodSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const period: ReopenPeriodRequest = value;
+      await PeriodLockService.reopenPeriod(getOrganizationId(req), period);
+
+      const response: ApiResponse = {
+        data: null,
+        message: 'Period reopened successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
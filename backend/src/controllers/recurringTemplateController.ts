@@ -0,0 +1,155 @@
+import { Request, Response, NextFunction } from 'express';
+import { RecurringTemplateService } from '../services/recurringTemplateService';
+import { getOrganizationId } from '../middleware/organization';
+import {
+  createRecurringTemplateSchema,
+  updateRecurringTemplateSchema,
+  recurringPreviewQuerySchema,
+  recurringTemplateIdSchema
+} from '../validation/recurringTemplate';
+import { CreateRecurringTemplateRequest, UpdateRecurringTemplateRequest } from '../types/recurringTemplate';
+import { ApiResponse, HttpStatus } from '../types/api';
+import { ValidationError } from '../utils/errors';
+
+// Validate the template ID route parameter
+const templateId = (req: Request): number => {
+  const { error, value } = recurringTemplateIdSchema.validate({ id: parseInt(req.params.id || '0') });
+  if (error) {
+    throw new ValidationError(error.details[0]?.message || 'Validation error');
+  }
+  return value.id;
+};
+
+// Validate the number of periods to preview
+const previewCount = (req: Request): number => {
+  const { error, value } = recurringPreviewQuerySchema.validate(req.query);
+  if (error) {
+    throw new ValidationError(error.details[0]?.message || 'Validation error');
+  }
+  return value.count;
+};
+
+export class RecurringTemplateController {
+  // List the organization's recurring templates
+  static async getTemplates(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const templates = await RecurringTemplateService.getTemplates(getOrganizationId(req));
+
+      const response: ApiResponse = {
+        data: templates,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create a recurring template
+  static async createTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = createRecurringTemplateSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const templateData: CreateRecurringTemplateRequest = value;
+      const template = await RecurringTemplateService.createTemplate(getOrganizationId(req), templateData);
+
+      const response: ApiResponse = {
+        data: template,
+        message: 'Recurring template created successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.CREATED).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update a recurring template
+  static async updateTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = templateId(req);
+
+      // Validate request body
+      const { error, value } = updateRecurringTemplateSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const updateData: UpdateRecurringTemplateRequest = value;
+      const template = await RecurringTemplateService.updateTemplate(getOrganizationId(req), id, updateData);
+
+      const response: ApiResponse = {
+        data: template,
+        message: 'Recurring template updated successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete a recurring template
+  static async deleteTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await RecurringTemplateService.deleteTemplate(getOrganizationId(req), templateId(req));
+
+      const response: ApiResponse = {
+        data: null,
+        message: 'Recurring template deleted successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // The next costs a saved template will create
+  static async previewTemplate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = templateId(req);
+      const occurrences = await RecurringTemplateService.previewTemplate(getOrganizationId(req), id, previewCount(req));
+
+      const response: ApiResponse = {
+        data: occurrences,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // The costs a template sent in the body would create, without saving it
+  static async previewDraft(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = createRecurringTemplateSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const templateData: CreateRecurringTemplateRequest = value;
+      const occurrences = await RecurringTemplateService.previewDraft(getOrganizationId(req), templateData, previewCount(req));
+
+      const response: ApiResponse = {
+        data: occurrences,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
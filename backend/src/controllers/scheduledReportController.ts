@@ -0,0 +1,170 @@
+import { Request, Response, NextFunction } from 'express';
+import { ScheduledReportService } from '../services/scheduledReportService';
+import { getOrganizationId } from '../middleware/organization';
+import {
+  createScheduledReportSchema,
+  updateScheduledReportSchema,
+  reportDeliveryQuerySchema,
+  scheduledReportIdSchema
+} from '../validation/scheduledReport';
+import {
+  CreateScheduledReportRequest,
+  UpdateScheduledReportRequest,
+  ReportDeliveryQuery
+} from '../types/scheduledReport';
+import { ApiResponse, PaginatedResponse, HttpStatus } from '../types/api';
+import { ValidationError } from '../utils/errors';
+
+// Validate the report ID route parameter
+const reportId = (req: Request): number => {
+  const { error, value } = scheduledReportIdSchema.validate({ id: parseInt(req.params.id || '0') });
+  if (error) {
+    throw new ValidationError(error.details[0]?.message || 'Validation error');
+  }
+  return value.id;
+};
+
+export class ScheduledReportController {
+  // List the organization's scheduled reports
+  static async getReports(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const reports = await ScheduledReportService.getReports(getOrganizationId(req));
+
+      const response: ApiResponse = {
+        data: reports,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Create a scheduled report
+  static async createReport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate request body
+      const { error, value } = createScheduledReportSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const reportData: CreateScheduledReportRequest = value;
+      const report = await ScheduledReportService.createReport(getOrganizationId(req), req.user?.id ?? null, reportData);
+
+      const response: ApiResponse = {
+        data: report,
+        message: 'Scheduled report created successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.CREATED).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Update a scheduled report
+  static async updateReport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const id = reportId(req);
+
+      // Validate request body
+      const { error, value } = updateScheduledReportSchema.validate(req.body);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const updateData: UpdateScheduledReportRequest = value;
+      const report = await ScheduledReportService.updateReport(getOrganizationId(req), id, updateData);
+
+      const response: ApiResponse = {
+        data: report,
+        message: 'Scheduled report updated successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Delete a scheduled report
+  static async deleteReport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await ScheduledReportService.deleteReport(getOrganizationId(req), reportId(req));
+
+      const response: ApiResponse = {
+        data: null,
+        message: 'Scheduled report deleted successfully',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Download a report as it would be sent today
+  static async downloadReport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const file = await ScheduledReportService.renderReport(getOrganizationId(req), reportId(req));
+
+      res.status(HttpStatus.OK)
+        .set('Content-Type', file.contentType)
+        .set('Content-Disposition', `attachment; filename="${file.filename}"`)
+        .send(file.content);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Send a report to its recipients now; the delivery is logged like a scheduled one
+  static async sendReport(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const delivery = await ScheduledReportService.sendReport(getOrganizationId(req), reportId(req));
+
+      const response: ApiResponse = {
+        data: delivery,
+        message: delivery.error === null ? 'Report sent successfully' : 'Report could not be sent',
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Get the delivery log with optional filtering and pagination
+  static async getDeliveries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Validate query parameters
+      const { error, value } = reportDeliveryQuerySchema.validate(req.query);
+      if (error) {
+        throw new ValidationError(error.details[0]?.message || 'Validation error');
+      }
+
+      const query: ReportDeliveryQuery = value;
+      const result = await ScheduledReportService.getDeliveries(getOrganizationId(req), query);
+
+      const response: PaginatedResponse<any> = {
+        data: result.deliveries,
+        pagination: {
+          total: result.total,
+          limit: query.limit || 50,
+          offset: query.offset || 0,
+          hasMore: (query.offset || 0) + result.deliveries.length < result.total
+        },
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
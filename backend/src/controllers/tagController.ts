@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { TagService } from '../services/tagService';
+import { getOrganizationId } from '../middleware/organization';
+import { ApiResponse, HttpStatus } from '../types/api';
+
+export class TagController {
+  // Get the tags of the organization's expenses
+  static async getTags(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const tags = await TagService.getTags(getOrganizationId(req));
+
+      const response: ApiResponse = {
+        data: tags,
+        timestamp: new Date().toISOString()
+      };
+
+      res.status(HttpStatus.OK).json(response);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
\ No newline at end of file
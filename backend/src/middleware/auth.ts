@@ -0,0 +1,53 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService } from '../services/authService';
+import { hasPermission } from '../config/permissions';
+import { Permission } from '../types/auth';
+import { AuditContext } from '../types/audit';
+import { AuthenticationError, ForbiddenError } from '../utils/errors';
+import { logSecurityWarning } from '../utils/logger';
+
+// Require a valid Bearer access token and attach the caller to req.user
+export const authenticate = (req: Request, res: Response, next: NextFunction): void => {
+  const header = req.get('Authorization');
+
+  if (!header || !header.startsWith('Bearer ')) {
+    next(new AuthenticationError('Authentication required'));
+    return;
+  }
+
+  try {
+    req.user = AuthService.verifyAccessToken(header.slice('Bearer '.length).trim());
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Require the authenticated caller's role to grant the given permission
+export const requirePermission = (permission: Permission) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new AuthenticationError('Authentication required'));
+      return;
+    }
+
+    if (!hasPermission(req.user.role, permission)) {
+      logSecurityWarning('Permission denied', {
+        userId: req.user.id,
+        role: req.user.role,
+        permission,
+        method: req.method,
+        path: req.originalUrl
+      });
+      next(new ForbiddenError());
+      return;
+    }
+
+    next();
+  };
+
+// Who is making the request and from where, for the audit history of the changes it makes
+export const getAuditContext = (req: Request): AuditContext => ({
+  userId: req.user?.id ?? null,
+  ipAddress: req.ip ?? null
+});
\ No newline at end of file
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { ApiError } from '../utils/errors';
+import { ApiError, RequestTooLargeError } from '../utils/errors';
 import { ErrorResponse, HttpStatus } from '../types/api';
 import { logger } from '../utils/logger';
 
@@ -15,11 +15,17 @@ export const errorHandler = (
     stack: error.stack,
     path: req.path,
     method: req.method,
-    body: req.body,
+    // Uploaded files are logged by size only
+    body: Buffer.isBuffer(req.body) ? `<${req.body.length} bytes>` : req.body,
     query: req.query,
     params: req.params
   });
 
+  // Bodies over the parser's limit are reported like other client errors
+  if ((error as { type?: string }).type === 'entity.too.large') {
+    error = new RequestTooLargeError();
+  }
+
   // Handle ApiError instances
   if (error instanceof ApiError) {
     const errorResponse: ErrorResponse = {
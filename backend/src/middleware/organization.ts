@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+import { OrganizationService } from '../services/organizationService';
+import { AuthenticationError, ForbiddenError, ValidationError } from '../utils/errors';
+
+export const ORGANIZATION_HEADER = 'X-Organization-Id';
+
+// Scope the request to one of the caller's organizations and attach it to req.organization.
+// Clients pick the organization with the X-Organization-Id header.
+export const resolveOrganization = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  if (!req.user) {
+    next(new AuthenticationError('Authentication required'));
+    return;
+  }
+
+  const header = req.get(ORGANIZATION_HEADER);
+  let organizationId: number | undefined;
+
+  if (header !== undefined) {
+    organizationId = Number(header);
+    if (!Number.isInteger(organizationId) || organizationId <= 0) {
+      next(new ValidationError(`${ORGANIZATION_HEADER} header must be a positive integer`));
+      return;
+    }
+  }
+
+  try {
+    req.organization = await OrganizationService.resolveForUser(req.user.id, organizationId);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get the organization ID of a request that has passed through resolveOrganization
+export const getOrganizationId = (req: Request): number => {
+  if (!req.organization) {
+    throw new ForbiddenError('No organization selected');
+  }
+
+  return req.organization.id;
+};
\ No newline at end of file
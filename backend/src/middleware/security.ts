@@ -4,6 +4,7 @@ import { body, validationResult } from 'express-validator';
 import mongoSanitize from 'express-mongo-sanitize';
 import hpp from 'hpp';
 import { logger } from '../utils/logger';
+import { ATTACHMENT_CONTENT_TYPES, CSV_CONTENT_TYPE, XLSX_CONTENT_TYPE } from '../utils/fileType';
 
 // Rate limiting configuration
 export const createRateLimit = (windowMs: number, max: number, message: string) => {
@@ -71,12 +72,19 @@ export const sanitizeInput = [
   
   // Prevent HTTP Parameter Pollution attacks
   hpp({
-    whitelist: ['category', 'year', 'month'] // Allow arrays for these parameters
+    whitelist: ['categoryId', 'categoryIds', 'costCenterId', 'tagIds', 'year', 'month'] // Allow arrays for these parameters
   })
 ];
 
+// Files uploaded as the raw request body, which their routes limit on their own
+const RAW_UPLOAD_TYPES = [CSV_CONTENT_TYPE, XLSX_CONTENT_TYPE, ...ATTACHMENT_CONTENT_TYPES];
+
 // Request size limiting middleware
 export const requestSizeLimit = (req: Request, res: Response, next: NextFunction) => {
+  if (req.is(RAW_UPLOAD_TYPES)) {
+    return next();
+  }
+
   const contentLength = req.get('content-length');
   const maxSize = 1024 * 1024; // 1MB limit
   
@@ -180,22 +188,24 @@ export const handleValidationErrors = (req: Request, res: Response, next: NextFu
 
 // Enhanced input validation for expense data
 export const validateExpenseInput = [
-  body('category')
-    .isIn([
-      'Salaries',
-      'Software & Tools', 
-      'Infrastructure & Hosting',
-      'Hardware & Equipment',
-      'Security & Compliance',
-      'Operational & Administrative',
-      'Continuous Learning & R&D'
-    ])
+  body('categoryId')
+    .isInt({ min: 1 })
     .withMessage('Invalid expense category'),
     
+  body('costCenterId')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Invalid cost center'),
+    
   body('amount')
     .isFloat({ min: 0.01, max: 999999999.99 })
     .withMessage('Amount must be a positive number with maximum 2 decimal places'),
     
+  body('currency')
+    .optional()
+    .isISO4217()
+    .withMessage('Currency must be a three-letter ISO 4217 code'),
+    
   body('month')
     .isInt({ min: 1, max: 12 })
     .withMessage('Month must be between 1 and 12'),
@@ -204,13 +214,56 @@ export const validateExpenseInput = [
     .isInt({ min: 2020, max: 2050 })
     .withMessage('Year must be between 2020 and 2050'),
     
+  body('description')
+    .optional({ values: 'null' })
+    .isLength({ max: 255 })
+    .withMessage('Description cannot exceed 255 characters'),
+    
+  body('vendor')
+    .optional({ values: 'null' })
+    .isLength({ max: 100 })
+    .withMessage('Vendor cannot exceed 100 characters'),
+    
+  body('invoiceNumber')
+    .optional({ values: 'null' })
+    .isLength({ max: 50 })
+    .withMessage('Invoice number cannot exceed 50 characters'),
+    
+  body('invoiceDate')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Invoice date must be in YYYY-MM-DD format'),
+
+  body('notes')
+    .optional({ values: 'null' })
+    .isLength({ max: 2000 })
+    .withMessage('Notes cannot exceed 2000 characters'),
+
+  body('tags')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Tags must be a list of at most 20 names'),
+    
   handleValidationErrors
 ];
 
-// XSS protection for text fields
+// XSS protection for text fields. Notes are shown as plain text and searched,
+// so they are kept as written
 export const sanitizeTextFields = [
   body('*').escape().trim(),
-  body('category').unescape(), // Category needs to be unescaped as it contains &
+  body('notes').unescape(),
+];
+
+// Comments are shown as plain text, so their bodies are kept as written
+export const sanitizeCommentFields = [
+  body('*').escape().trim(),
+  body('body').unescape(),
+];
+
+// XSS protection for the data of each operation of a batch
+export const sanitizeBatchTextFields = [
+  body('operations.*.data.*').escape().trim(),
+  body('operations.*.data.notes').unescape(),
 ];
 
 // Additional security headers middleware
@@ -1,11 +1,23 @@
 import { Router } from 'express';
 import { ArchiveService } from '../services/archiveService';
 import { ScheduledTasks } from '../tasks/scheduledTasks';
+import { ExchangeRateController } from '../controllers/exchangeRateController';
+import { ApprovalController } from '../controllers/approvalController';
 import { getPerformanceMetrics } from '../middleware/queryMonitoring';
 import { logger } from '../utils/logger';
+import { requirePermission, getAuditContext } from '../middleware/auth';
+import { resolveOrganization, getOrganizationId } from '../middleware/organization';
+import { Permission } from '../types/auth';
+import { trashPurgeSchema } from '../validation/expense';
+import { ApiError } from '../utils/errors';
 
 const router = Router();
 
+// Every admin route is restricted to platform admins, and data operations
+// act on the admin's current organization only
+router.use(requirePermission(Permission.ADMIN));
+router.use(resolveOrganization);
+
 // Get performance metrics
 router.get('/metrics', (req, res) => {
   try {
@@ -25,7 +37,7 @@ router.get('/metrics', (req, res) => {
 // Get archive statistics
 router.get('/archive/stats', async (req, res) => {
   try {
-    const stats = await ArchiveService.getArchiveStats();
+    const stats = await ArchiveService.getArchiveStats(getOrganizationId(req));
     res.json(stats);
   } catch (error) {
     logger.error('Error getting archive stats:', error);
@@ -42,7 +54,7 @@ router.get('/archive/stats', async (req, res) => {
 router.post('/archive/trigger', async (req, res) => {
   try {
     const { retentionYears } = req.body;
-    const result = await ScheduledTasks.triggerArchival(retentionYears);
+    const result = await ScheduledTasks.triggerArchival(getOrganizationId(req), retentionYears);
     res.json({
       message: 'Archival completed successfully',
       result
@@ -61,7 +73,7 @@ router.post('/archive/trigger', async (req, res) => {
 // Trigger manual maintenance
 router.post('/maintenance/trigger', async (req, res) => {
   try {
-    const result = await ScheduledTasks.triggerMaintenance();
+    const result = await ScheduledTasks.triggerMaintenance(getOrganizationId(req));
     res.json({
       message: 'Maintenance completed successfully',
       result
@@ -77,6 +89,105 @@ router.post('/maintenance/trigger', async (req, res) => {
   }
 });
 
+// Trigger a budget alert check for the current month
+router.post('/budget-alerts/trigger', async (req, res) => {
+  try {
+    const result = await ScheduledTasks.triggerBudgetAlerts(getOrganizationId(req));
+    res.json({
+      message: 'Budget alert check completed successfully',
+      result
+    });
+  } catch (error) {
+    logger.error('Error triggering budget alert check:', error);
+    res.status(500).json({
+      error: {
+        message: 'Failed to trigger budget alert check',
+        code: 'BUDGET_ALERT_ERROR'
+      }
+    });
+  }
+});
+
+// Create the costs of recurring templates whose periods have opened
+router.post('/recurring-expenses/trigger', async (req, res) => {
+  try {
+    const result = await ScheduledTasks.triggerRecurringExpenses(getOrganizationId(req));
+    res.json({
+      message: 'Recurring expense generation completed successfully',
+      result
+    });
+  } catch (error) {
+    logger.error('Error triggering recurring expense generation:', error);
+    res.status(500).json({
+      error: {
+        message: 'Failed to trigger recurring expense generation',
+        code: 'RECURRING_EXPENSE_ERROR'
+      }
+    });
+  }
+});
+
+// Check the organization's last 12 months for category spend outside its history
+router.post('/anomalies/trigger', async (req, res) => {
+  try {
+    const result = await ScheduledTasks.triggerAnomalyScan(getOrganizationId(req));
+    res.json({
+      message: 'Anomaly scan completed successfully',
+      result
+    });
+  } catch (error) {
+    logger.error('Error triggering anomaly scan:', error);
+    res.status(500).json({
+      error: {
+        message: 'Failed to trigger anomaly scan',
+        code: 'ANOMALY_SCAN_ERROR'
+      }
+    });
+  }
+});
+
+// Permanently delete expenses that have been in the trash longer than the retention period
+router.post('/trash/purge', async (req, res) => {
+  try {
+    // A retention of zero days or less would empty the whole trash
+    const { error, value } = trashPurgeSchema.validate(req.body ?? {});
+    if (error) {
+      res.status(400).json({
+        error: {
+          message: error.details[0]?.message || 'Validation error',
+          code: 'VALIDATION_ERROR'
+        }
+      });
+      return;
+    }
+
+    const result = await ScheduledTasks.triggerTrashPurge(getOrganizationId(req), value.retentionDays);
+    res.json({
+      message: 'Trash purge completed successfully',
+      result
+    });
+  } catch (error) {
+    logger.error('Error triggering trash purge:', error);
+    res.status(500).json({
+      error: {
+        message: 'Failed to trigger trash purge',
+        code: 'TRASH_PURGE_ERROR'
+      }
+    });
+  }
+});
+
+// Exchange rates are shared by every organization
+router.get('/exchange-rates', ExchangeRateController.getRates);
+router.post('/exchange-rates', ExchangeRateController.importRates);
+router.post('/exchange-rates/import', ExchangeRateController.importCsv);
+
+// Change the currency the organization's reports are converted into
+router.put('/reporting-currency', ExchangeRateController.updateReportingCurrency);
+
+// Change the amount above which the organization's expenses need approval
+router.put('/approval-threshold', ApprovalController.updateThreshold);
+
 // Get scheduled tasks status
 router.get('/tasks/status', (req, res) => {
   try {
@@ -119,17 +230,31 @@ router.post('/archive/restore', async (req, res) => {
       });
     }
 
-    const restoredCount = await ArchiveService.restoreFromArchive(start, end);
+    const { restoredCount, skippedIds } = await ArchiveService.restoreFromArchive(
+      getOrganizationId(req), start, end, getAuditContext(req)
+    );
     
     res.json({
       message: 'Data restored successfully',
       restoredCount,
+      // Archived records whose IDs are now taken by other organizations' costs
+      skippedIds,
       dateRange: {
         startDate: start.toISOString(),
         endDate: end.toISOString()
       }
     });
   } catch (error) {
+    // Such as records in a closed month
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json({
+        error: {
+          message: error.message,
+          code: error.code
+        }
+      });
+    }
+
     logger.error('Error restoring from archive:', error);
     res.status(500).json({
       error: {
@@ -146,7 +271,7 @@ router.post('/archive/cleanup', async (req, res) => {
     const { maxArchiveYears } = req.body;
     const years = maxArchiveYears || 20;
     
-    const deletedCount = await ArchiveService.cleanupOldArchives('costs_archive', years);
+    const deletedCount = await ArchiveService.cleanupOldArchives(getOrganizationId(req), 'costs_archive', years);
     
     res.json({
       message: 'Archive cleanup completed successfully',
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { AnomalyController } from '../controllers/anomalyController';
+import { requirePermission } from '../middleware/auth';
+import { resolveOrganization } from '../middleware/organization';
+import { Permission } from '../types/auth';
+
+const router = Router();
+
+// Anomalies belong to the caller's current organization
+router.use(resolveOrganization);
+
+// Anomalies are found in expenses, so reviewing one takes the same permission as editing them
+const canRead = requirePermission(Permission.EXPENSES_READ);
+const canWrite = requirePermission(Permission.EXPENSES_WRITE);
+
+// GET /api/anomalies - Get months in which a category's spend is far outside its history
+router.get('/', canRead, AnomalyController.getAnomalies);
+
+// PUT /api/anomalies/:id - Acknowledge or dismiss an anomaly
+router.put('/:id', canWrite, AnomalyController.reviewAnomaly);
+
+export default router;
\ No newline at end of file
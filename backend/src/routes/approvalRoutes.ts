@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { ApprovalController } from '../controllers/approvalController';
+import { requirePermission } from '../middleware/auth';
+import { resolveOrganization } from '../middleware/organization';
+import { Permission } from '../types/auth';
+
+const router = Router();
+
+// Expenses are reviewed within the caller's current organization
+router.use(resolveOrganization);
+
+// Only approvers see the queue and approve or reject expenses
+const canApprove = requirePermission(Permission.EXPENSES_APPROVE);
+
+// GET /api/approvals - Get the expenses waiting for approval
+router.get('/', canApprove, ApprovalController.getQueue);
+
+// POST /api/approvals/:id/approve - Approve a submitted expense
+router.post('/:id/approve', canApprove, ApprovalController.approveExpense);
+
+// POST /api/approvals/:id/reject - Reject a submitted expense
+router.post('/:id/reject', canApprove, ApprovalController.rejectExpense);
+
+export default router;
\ No newline at end of file
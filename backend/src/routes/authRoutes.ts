@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { AuthController } from '../controllers/authController';
+import { authenticate } from '../middleware/auth';
+import { strictRateLimit } from '../middleware/security';
+
+const router = Router();
+
+// POST /api/auth/login - Exchange credentials for an access and refresh token
+router.post('/login', strictRateLimit, AuthController.login);
+
+// POST /api/auth/refresh - Rotate a refresh token and issue a new access token
+router.post('/refresh', AuthController.refresh);
+
+// POST /api/auth/logout - Revoke a refresh token
+router.post('/logout', AuthController.logout);
+
+// GET /api/auth/me - Get the authenticated user
+router.get('/me', authenticate, AuthController.me);
+
+export default router;
\ No newline at end of file
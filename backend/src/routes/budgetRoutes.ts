@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import { BudgetController } from '../controllers/budgetController';
+import { BudgetAlertController } from '../controllers/budgetAlertController';
+import { handleValidationErrors } from '../middleware/security';
+import { requirePermission } from '../middleware/auth';
+import { resolveOrganization } from '../middleware/organization';
+import { Permission } from '../types/auth';
+import { param } from 'express-validator';
+
+const router = Router();
+
+// Budgets belong to the caller's current organization
+router.use(resolveOrganization);
+
+// Budgets are planned costs, so they follow the same permissions as expenses
+const canRead = requirePermission(Permission.EXPENSES_READ);
+const canWrite = requirePermission(Permission.EXPENSES_WRITE);
+
+// Alert rules send data to arbitrary addresses and URLs, so only admins manage them
+const canManageAlerts = requirePermission(Permission.ADMIN);
+
+// Validation for ID parameters
+const validateIdParam = [
+  param('id').isInt({ min: 1 }).withMessage('ID must be a positive integer'),
+  handleValidationErrors
+];
+
+// POST /api/budgets - Create a monthly budget or a yearly total
+router.post('/', canWrite, BudgetController.createBudget);
+
+// GET /api/budgets/variance - Budget vs actual per category (must come before /:id route)
+router.get('/variance', canRead, BudgetController.getVariance);
+
+// GET /api/budgets/alerts - Get the history of sent and failed budget alerts
+router.get('/alerts', canRead, BudgetAlertController.getAlerts);
+
+// GET /api/budgets/alert-rules - Get budget alert rules
+router.get('/alert-rules', canRead, BudgetAlertController.getRules);
+
+// POST /api/budgets/alert-rules - Create a budget alert rule
+router.post('/alert-rules', canManageAlerts, BudgetAlertController.createRule);
+
+// PUT /api/budgets/alert-rules/:id - Update a budget alert rule
+router.put('/alert-rules/:id', canManageAlerts, validateIdParam, BudgetAlertController.updateRule);
+
+// DELETE /api/budgets/alert-rules/:id - Delete a budget alert rule
+router.delete('/alert-rules/:id', canManageAlerts, validateIdParam, BudgetAlertController.deleteRule);
+
+// GET /api/budgets - Get budgets with optional filtering
+router.get('/', canRead, BudgetController.getBudgets);
+
+// GET /api/budgets/:id - Get a specific budget by ID
+router.get('/:id', canRead, validateIdParam, BudgetController.getBudgetById);
+
+// PUT /api/budgets/:id - Update a budget's amount
+router.put('/:id', canWrite, validateIdParam, BudgetController.updateBudget);
+
+// DELETE /api/budgets/:id - Delete a budget
+router.delete('/:id', canWrite, validateIdParam, BudgetController.deleteBudget);
+
+export default router;
\ No newline at end of file
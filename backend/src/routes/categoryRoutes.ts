@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { CategoryController } from '../controllers/categoryController';
+import { handleValidationErrors } from '../middleware/security';
+import { requirePermission } from '../middleware/auth';
+import { resolveOrganization } from '../middleware/organization';
+import { Permission } from '../types/auth';
+import { param } from 'express-validator';
+
+const router = Router();
+
+// Categories belong to the caller's current organization
+router.use(resolveOrganization);
+
+// Anyone who can record expenses can manage the categories they are filed under
+const canRead = requirePermission(Permission.EXPENSES_READ);
+const canWrite = requirePermission(Permission.EXPENSES_WRITE);
+
+// Validation for ID parameters
+const validateIdParam = [
+  param('id').isInt({ min: 1 }).withMessage('ID must be a positive integer'),
+  handleValidationErrors
+];
+
+// POST /api/categories - Create a category
+router.post('/', canWrite, CategoryController.createCategory);
+
+// GET /api/categories - Get categories in display order
+router.get('/', canRead, CategoryController.getCategories);
+
+// GET /api/categories/:id - Get a specific category by ID
+router.get('/:id', canRead, validateIdParam, CategoryController.getCategoryById);
+
+// PUT /api/categories/:id - Rename, recolour, reorder, archive or restore a category
+router.put('/:id', canWrite, validateIdParam, CategoryController.updateCategory);
+
+// DELETE /api/categories/:id - Archive a category (categories are never deleted)
+router.delete('/:id', canWrite, validateIdParam, CategoryController.archiveCategory);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import { CommentController } from '../controllers/commentController';
+import { requirePermission } from '../middleware/auth';
+import { resolveOrganization } from '../middleware/organization';
+import { Permission } from '../types/auth';
+
+const router = Router();
+
+// Comments belong to the caller's current organization
+router.use(resolveOrganization);
+
+// Threads themselves live under /api/expenses/:id/comments
+const canRead = requirePermission(Permission.EXPENSES_READ);
+
+// GET /api/comments/unread - Get the expenses with comments the caller hasn't read
+router.get('/unread', canRead, CommentController.getUnread);
+
+// GET /api/comments/members - Get the members who can be @mentioned
+router.get('/members', canRead, CommentController.getMentionableUsers);
+
+export default router;
\ No newline at end of file
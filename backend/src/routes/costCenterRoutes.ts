@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { CostCenterController } from '../controllers/costCenterController';
+import { handleValidationErrors } from '../middleware/security';
+import { requirePermission } from '../middleware/auth';
+import { resolveOrganization } from '../middleware/organization';
+import { Permission } from '../types/auth';
+import { param } from 'express-validator';
+
+const router = Router();
+
+// Cost centers belong to the caller's current organization
+router.use(resolveOrganization);
+
+// Anyone who can record expenses can manage the cost centers they are booked to
+const canRead = requirePermission(Permission.EXPENSES_READ);
+const canWrite = requirePermission(Permission.EXPENSES_WRITE);
+
+// Validation for ID parameters
+const validateIdParam = [
+  param('id').isInt({ min: 1 }).withMessage('ID must be a positive integer'),
+  handleValidationErrors
+];
+
+// POST /api/cost-centers - Create a cost center
+router.post('/', canWrite, CostCenterController.createCostCenter);
+
+// GET /api/cost-centers - Get cost centers by name
+router.get('/', canRead, CostCenterController.getCostCenters);
+
+// GET /api/cost-centers/:id - Get a specific cost center by ID
+router.get('/:id', canRead, validateIdParam, CostCenterController.getCostCenterById);
+
+// PUT /api/cost-centers/:id - Rename, archive or restore a cost center
+router.put('/:id', canWrite, validateIdParam, CostCenterController.updateCostCenter);
+
+// DELETE /api/cost-centers/:id - Archive a cost center (cost centers are never deleted)
+router.delete('/:id', canWrite, validateIdParam, CostCenterController.archiveCostCenter);
+
+export default router;
\ No newline at end of file
@@ -1,32 +1,124 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { ExpenseController } from '../controllers/expenseController';
-import { validateExpenseInput, sanitizeTextFields, handleValidationErrors } from '../middleware/security';
+import { ApprovalController } from '../controllers/approvalController';
+import { AttachmentController } from '../controllers/attachmentController';
+import { CommentController } from '../controllers/commentController';
+import { ExpenseImportController } from '../controllers/expenseImportController';
+import { validateExpenseInput, sanitizeTextFields, sanitizeCommentFields, sanitizeBatchTextFields, handleValidationErrors } from '../middleware/security';
+import { requirePermission } from '../middleware/auth';
+import { resolveOrganization } from '../middleware/organization';
+import { Permission } from '../types/auth';
+import { config } from '../config/environment';
+import { ATTACHMENT_CONTENT_TYPES, CSV_CONTENT_TYPE, XLSX_CONTENT_TYPE } from '../utils/fileType';
 import { param } from 'express-validator';
 
 const router = Router();
 
+// Every expense is read and written within the caller's current organization
+router.use(resolveOrganization);
+
+// Permission checks: viewers may read, editors and admins may also write
+const canRead = requirePermission(Permission.EXPENSES_READ);
+const canWrite = requirePermission(Permission.EXPENSES_WRITE);
+
 // Validation for ID parameters
 const validateIdParam = [
   param('id').isInt({ min: 1 }).withMessage('ID must be a positive integer'),
   handleValidationErrors
 ];
 
+// Spreadsheets are uploaded as the raw request body rather than as JSON
+const readUpload = express.raw({ type: [CSV_CONTENT_TYPE, XLSX_CONTENT_TYPE], limit: config.IMPORT_SIZE_LIMIT });
+
+// So are receipts and invoices
+const readAttachment = express.raw({ type: ATTACHMENT_CONTENT_TYPES, limit: config.ATTACHMENT_SIZE_LIMIT });
+
+// Validation for the ID parameters of an expense's attachment
+const validateAttachmentParams = [
+  param('id').isInt({ min: 1 }).withMessage('ID must be a positive integer'),
+  param('attachmentId').isInt({ min: 1 }).withMessage('Attachment ID must be a positive integer'),
+  handleValidationErrors
+];
+
+// Validation for the ID parameters of an expense's comment
+const validateCommentParams = [
+  param('id').isInt({ min: 1 }).withMessage('ID must be a positive integer'),
+  param('commentId').isInt({ min: 1 }).withMessage('Comment ID must be a positive integer'),
+  handleValidationErrors
+];
+
+// POST /api/expenses/import/preview - Check a CSV or XLSX file without saving anything
+router.post('/import/preview', canWrite, readUpload, ExpenseImportController.previewImport);
+
+// POST /api/expenses/import - Import every row of a CSV or XLSX file in one transaction
+router.post('/import', canWrite, readUpload, ExpenseImportController.importExpenses);
+
+// POST /api/expenses/batch - Create, update and delete expenses in one transaction
+router.post('/batch', canWrite, sanitizeBatchTextFields, ExpenseController.batchExpenses);
+
 // POST /api/expenses - Create a new expense
-router.post('/', sanitizeTextFields, validateExpenseInput, ExpenseController.createExpense);
+router.post('/', canWrite, sanitizeTextFields, validateExpenseInput, ExpenseController.createExpense);
 
 // GET /api/expenses/trends - Get trends and analytics data (must come before /:id route)
-router.get('/trends', ExpenseController.getTrends);
+router.get('/trends', canRead, ExpenseController.getTrends);
+
+// GET /api/expenses/forecast - Project spend for the coming months (must come before /:id route)
+router.get('/forecast', canRead, ExpenseController.getForecast);
+
+// GET /api/expenses/trash - Get trashed expenses (must come before /:id route)
+router.get('/trash', canRead, ExpenseController.getTrash);
 
 // GET /api/expenses - Get expenses with optional filtering
-router.get('/', ExpenseController.getExpenses);
+router.get('/', canRead, ExpenseController.getExpenses);
+
+// GET /api/expenses/:id/history - Get the change history of an expense
+router.get('/:id/history', canRead, validateIdParam, ExpenseController.getExpenseHistory);
+
+// GET /api/expenses/:id/status-history - Get who submitted, approved or rejected an expense
+router.get('/:id/status-history', canRead, validateIdParam, ApprovalController.getStatusHistory);
+
+// POST /api/expenses/:id/submit - Submit a draft or rejected expense for approval
+router.post('/:id/submit', canWrite, validateIdParam, ApprovalController.submitExpense);
+
+// GET /api/expenses/:id/attachments - Get the receipts and invoices of an expense
+router.get('/:id/attachments', canRead, validateIdParam, AttachmentController.getAttachments);
+
+// POST /api/expenses/:id/attachments - Upload a receipt or invoice as the raw request body
+router.post('/:id/attachments', canWrite, validateIdParam, readAttachment, AttachmentController.uploadAttachment);
+
+// GET /api/expenses/:id/attachments/:attachmentId - Download an attachment's file
+router.get('/:id/attachments/:attachmentId', canRead, validateAttachmentParams, AttachmentController.downloadAttachment);
+
+// DELETE /api/expenses/:id/attachments/:attachmentId - Remove an attachment
+router.delete('/:id/attachments/:attachmentId', canWrite, validateAttachmentParams, AttachmentController.deleteAttachment);
+
+// Anyone who can read an expense can discuss it; comments are changed only by their authors
+
+// GET /api/expenses/:id/comments - Get the discussion thread of an expense
+router.get('/:id/comments', canRead, validateIdParam, CommentController.getComments);
+
+// POST /api/expenses/:id/comments - Comment on an expense, @mentioning other members
+router.post('/:id/comments', canRead, validateIdParam, sanitizeCommentFields, CommentController.createComment);
+
+// POST /api/expenses/:id/comments/read - Mark the thread as read by the caller
+router.post('/:id/comments/read', canRead, validateIdParam, CommentController.markRead);
+
+// PUT /api/expenses/:id/comments/:commentId - Edit one of the caller's comments
+router.put('/:id/comments/:commentId', canRead, validateCommentParams, sanitizeCommentFields, CommentController.updateComment);
+
+// DELETE /api/expenses/:id/comments/:commentId - Delete one of the caller's comments
+router.delete('/:id/comments/:commentId', canRead, validateCommentParams, CommentController.deleteComment);
+
+// POST /api/expenses/:id/restore - Restore a trashed expense
+router.post('/:id/restore', canWrite, validateIdParam, ExpenseController.restoreExpense);
 
 // GET /api/expenses/:id - Get a specific expense by ID
-router.get('/:id', validateIdParam, ExpenseController.getExpenseById);
+router.get('/:id', canRead, validateIdParam, ExpenseController.getExpenseById);
 
 // PUT /api/expenses/:id - Update an expense
-router.put('/:id', validateIdParam, sanitizeTextFields, validateExpenseInput, ExpenseController.updateExpense);
+router.put('/:id', canWrite, validateIdParam, sanitizeTextFields, validateExpenseInput, ExpenseController.updateExpense);
 
-// DELETE /api/expenses/:id - Delete an expense
-router.delete('/:id', validateIdParam, ExpenseController.deleteExpense);
+// DELETE /api/expenses/:id - Move an expense to the trash
+router.delete('/:id', canWrite, validateIdParam, ExpenseController.deleteExpense);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { ExportController } from '../controllers/exportController';
+import { requirePermission } from '../middleware/auth';
+import { resolveOrganization } from '../middleware/organization';
+import { Permission } from '../types/auth';
+
+const router = Router();
+
+// Exports cover the caller's current organization
+router.use(resolveOrganization);
+
+// GET /api/exports?type=expenses|trends&format=csv|xlsx|json|pdf - Download expenses or trends
+router.get('/', requirePermission(Permission.EXPENSES_READ), ExportController.exportData);
+
+export default router;
\ No newline at end of file
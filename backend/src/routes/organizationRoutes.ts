@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { OrganizationController } from '../controllers/organizationController';
+
+const router = Router();
+
+// GET /api/organizations - List the organizations the caller can switch between
+router.get('/', OrganizationController.getOrganizations);
+
+export default router;
\ No newline at end of file
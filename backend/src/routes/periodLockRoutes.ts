@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { PeriodLockController } from '../controllers/periodLockController';
+import { requirePermission } from '../middleware/auth';
+import { resolveOrganization } from '../middleware/organization';
+import { Permission } from '../types/auth';
+
+const router = Router();
+
+// Months are closed within the caller's current organization
+router.use(resolveOrganization);
+
+// Anyone who can read expenses can see which months are closed; only admins close and reopen them
+const canRead = requirePermission(Permission.EXPENSES_READ);
+const canManage = requirePermission(Permission.ADMIN);
+
+// GET /api/period-locks - Get the closed months
+router.get('/', canRead, PeriodLockController.getLocks);
+
+// POST /api/period-locks/close - Close a month to further expense changes
+router.post('/close', canManage, PeriodLockController.closePeriod);
+
+// POST /api/period-locks/reopen - Reopen a closed month
+router.post('/reopen', canManage, PeriodLockController.reopenPeriod);
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { RecurringTemplateController } from '../controllers/recurringTemplateController';
+import { requirePermission } from '../middleware/auth';
+import { resolveOrganization } from '../middleware/organization';
+import { Permission } from '../types/auth';
+
+const router = Router();
+
+// Recurring templates belong to the caller's current organization
+router.use(resolveOrganization);
+
+// Templates create expenses, so they follow the same permissions as expenses
+const canRead = requirePermission(Permission.EXPENSES_READ);
+const canWrite = requirePermission(Permission.EXPENSES_WRITE);
+
+// POST /api/recurring-templates/preview - Costs a template would create, without saving it (must come before /:id routes)
+router.post('/preview', canWrite, RecurringTemplateController.previewDraft);
+
+// GET /api/recurring-templates - Get recurring templates
+router.get('/', canRead, RecurringTemplateController.getTemplates);
+
+// POST /api/recurring-templates - Create a recurring template
+router.post('/', canWrite, RecurringTemplateController.createTemplate);
+
+// GET /api/recurring-templates/:id/preview - The next costs a template will create
+router.get('/:id/preview', canRead, RecurringTemplateController.previewTemplate);
+
+// PUT /api/recurring-templates/:id - Update a recurring template
+router.put('/:id', canWrite, RecurringTemplateController.updateTemplate);
+
+// DELETE /api/recurring-templates/:id - Delete a recurring template; its costs are kept
+router.delete('/:id', canWrite, RecurringTemplateController.deleteTemplate);
+
+export default router;
\ No newline at end of file
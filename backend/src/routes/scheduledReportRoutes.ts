@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { ScheduledReportController } from '../controllers/scheduledReportController';
+import { requirePermission } from '../middleware/auth';
+import { resolveOrganization } from '../middleware/organization';
+import { Permission } from '../types/auth';
+
+const router = Router();
+
+// Scheduled reports belong to the caller's current organization
+router.use(resolveOrganization);
+
+const canRead = requirePermission(Permission.EXPENSES_READ);
+
+// Reports email cost data to arbitrary addresses, so only admins manage and send them
+const canManage = requirePermission(Permission.ADMIN);
+
+// GET /api/reports/deliveries - Get the log of sent and failed report deliveries (must come before /:id routes)
+router.get('/deliveries', canRead, ScheduledReportController.getDeliveries);
+
+// GET /api/reports - Get scheduled reports
+router.get('/', canRead, ScheduledReportController.getReports);
+
+// POST /api/reports - Create a scheduled report
+router.post('/', canManage, ScheduledReportController.createReport);
+
+// GET /api/reports/:id/download - Download a report as it would be sent today
+router.get('/:id/download', canRead, ScheduledReportController.downloadReport);
+
+// POST /api/reports/:id/send - Send a report to its recipients now
+router.post('/:id/send', canManage, ScheduledReportController.sendReport);
+
+// PUT /api/reports/:id - Update a scheduled report
+router.put('/:id', canManage, ScheduledReportController.updateReport);
+
+// DELETE /api/reports/:id - Delete a scheduled report
+router.delete('/:id', canManage, ScheduledReportController.deleteReport);
+
+export default router;
\ No newline at end of file
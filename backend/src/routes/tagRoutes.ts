@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { TagController } from '../controllers/tagController';
+import { requirePermission } from '../middleware/auth';
+import { resolveOrganization } from '../middleware/organization';
+import { Permission } from '../types/auth';
+
+const router = Router();
+
+// Tags belong to the caller's current organization
+router.use(resolveOrganization);
+
+// Tags are created by tagging expenses, so they can only be listed here
+const canRead = requirePermission(Permission.EXPENSES_READ);
+
+// GET /api/tags - Get the tags in use by name
+router.get('/', canRead, TagController.getTags);
+
+export default router;
\ No newline at end of file
@@ -6,6 +6,20 @@ import { config } from './config/environment';
 import { connectDatabase, disconnectDatabase } from './config/database';
 import expenseRoutes from './routes/expenseRoutes';
 import adminRoutes from './routes/adminRoutes';
+import authRoutes from './routes/authRoutes';
+import organizationRoutes from './routes/organizationRoutes';
+import budgetRoutes from './routes/budgetRoutes';
+import categoryRoutes from './routes/categoryRoutes';
+import costCenterRoutes from './routes/costCenterRoutes';
+import exportRoutes from './routes/exportRoutes';
+import scheduledReportRoutes from './routes/scheduledReportRoutes';
+import recurringTemplateRoutes from './routes/recurringTemplateRoutes';
+import anomalyRoutes from './routes/anomalyRoutes';
+import periodLockRoutes from './routes/periodLockRoutes';
+import approvalRoutes from './routes/approvalRoutes';
+import tagRoutes from './routes/tagRoutes';
+import commentRoutes from './routes/commentRoutes';
+import { authenticate } from './middleware/auth';
 import { errorHandler } from './middleware/errorHandler';
 import { requestPerformanceMiddleware, getPerformanceMetrics } from './middleware/queryMonitoring';
 import { ScheduledTasks } from './tasks/scheduledTasks';
@@ -74,8 +88,8 @@ const corsOptions = {
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-  exposedHeaders: ['X-Total-Count'], // For pagination headers
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Organization-Id'],
+  exposedHeaders: ['X-Total-Count', 'Link', 'Content-Disposition'], // Pagination and export file names
 };
 
 app.use(cors(corsOptions));
@@ -117,9 +131,51 @@ app.get('/api', (req, res) => {
   res.json({ message: 'Expense Management API' });
 });
 
+// Mount authentication routes (login, refresh and logout are public)
+app.use('/api/auth', authRoutes);
+
+// Every API route mounted below requires a valid access token
+app.use('/api', authenticate);
+
+// Mount organization routes
+app.use('/api/organizations', organizationRoutes);
+
 // Mount expense routes with rate limiting
 app.use('/api/expenses', expenseRoutes);
 
+// Mount category routes
+app.use('/api/categories', categoryRoutes);
+
+// Mount cost center routes
+app.use('/api/cost-centers', costCenterRoutes);
+
+// Mount budget routes
+app.use('/api/budgets', budgetRoutes);
+
+// Mount export routes
+app.use('/api/exports', exportRoutes);
+
+// Mount scheduled report routes
+app.use('/api/reports', scheduledReportRoutes);
+
+// Mount recurring template routes
+app.use('/api/recurring-templates', recurringTemplateRoutes);
+
+// Mount anomaly routes
+app.use('/api/anomalies', anomalyRoutes);
+
+// Mount period lock routes
+app.use('/api/period-locks', periodLockRoutes);
+
+// Mount approval routes
+app.use('/api/approvals', approvalRoutes);
+
+// Mount tag routes
+app.use('/api/tags', tagRoutes);
+
+// Mount comment routes
+app.use('/api/comments', commentRoutes);
+
 // Mount admin routes with strict rate limiting
 app.use('/api/admin', strictRateLimit, adminRoutes);
 
@@ -0,0 +1,383 @@
+import { prisma } from '../config/database';
+import {
+  AnomalyFlag,
+  AnomalyQuery,
+  AnomalyResponse,
+  AnomalyScanResult,
+  OutlierResult
+} from '../types/anomaly';
+import { ExpenseResponse } from '../types/expense';
+import { detectOutlier, HISTORY_MONTHS } from '../utils/anomaly';
+import {
+  ApiError,
+  NotFoundError,
+  DatabaseError
+} from '../utils/errors';
+import { logger } from '../utils/logger';
+import { ExchangeRateService } from './exchangeRateService';
+import { Prisma, AnomalyStatus, CostStatus, ExpenseAnomaly } from '@prisma/client';
+
+const anomalyInclude = {
+  category: { select: { name: true, parentId: true, parent: { select: { name: true } } } },
+  reviewedBy: { select: { name: true } }
+} satisfies Prisma.ExpenseAnomalyInclude;
+
+type AnomalyWithDetails = Prisma.ExpenseAnomalyGetPayload<{ include: typeof anomalyInclude }>;
+
+// Spend of each month in the reporting currency, keyed by period index; null for
+// months with an amount no exchange rate is in effect for
+type MonthlyTotals = Map<number, number | null>;
+
+// Months checked by a scan, counting the current one
+const SCAN_MONTHS = 12;
+
+// Months numbered consecutively, so a history can span years
+const periodIndex = (month: number, year: number): number => year * 12 + month - 1;
+const periodOf = (index: number): { month: number; year: number } => ({
+  month: (index % 12) + 1,
+  year: Math.floor(index / 12)
+});
+
+export class AnomalyService {
+  // Convert Prisma ExpenseAnomaly model to API response format
+  private static toResponse(anomaly: AnomalyWithDetails, currency: string): AnomalyResponse {
+    return {
+      id: anomaly.id,
+      categoryId: anomaly.categoryId,
+      category: anomaly.category.name,
+      parentCategoryId: anomaly.category.parentId,
+      parentCategory: anomaly.category.parent?.name ?? null,
+      month: anomaly.month,
+      year: anomaly.year,
+      amount: Number(anomaly.amount),
+      expected: Number(anomaly.expected),
+      zScore: anomaly.zScore === null ? null : Number(anomaly.zScore),
+      lowerBound: Number(anomaly.lowerBound),
+      upperBound: Number(anomaly.upperBound),
+      currency,
+      status: anomaly.status,
+      reviewedBy: anomaly.reviewedBy?.name ?? null,
+      reviewedAt: anomaly.reviewedAt?.toISOString() ?? null,
+      createdAt: anomaly.createdAt.toISOString(),
+      updatedAt: anomaly.updatedAt.toISOString()
+    };
+  }
+
+  private static toFlag(anomaly: ExpenseAnomaly): AnomalyFlag {
+    return {
+      id: anomaly.id,
+      status: anomaly.status,
+      amount: Number(anomaly.amount),
+      expected: Number(anomaly.expected),
+      zScore: anomaly.zScore === null ? null : Number(anomaly.zScore)
+    };
+  }
+
+  // Get anomalies, newest month first
+  static async getAnomalies(organizationId: number, query: AnomalyQuery): Promise<{
+    anomalies: AnomalyResponse[];
+    total: number;
+  }> {
+    try {
+      const where: Prisma.ExpenseAnomalyWhereInput = { organizationId };
+
+      if (query.status !== undefined) {
+        where.status = query.status;
+      }
+
+      if (query.categoryId !== undefined) {
+        where.categoryId = query.categoryId;
+      }
+
+      if (query.year !== undefined) {
+        where.year = query.year;
+      }
+
+      const [total, anomalies, currency] = await Promise.all([
+        prisma.expenseAnomaly.count({ where }),
+        prisma.expenseAnomaly.findMany({
+          where,
+          include: anomalyInclude,
+          orderBy: [{ year: 'desc' }, { month: 'desc' }, { id: 'desc' }],
+          take: query.limit || 50,
+          skip: query.offset || 0
+        }),
+        this.reportingCurrency(organizationId)
+      ]);
+
+      return {
+        anomalies: anomalies.map(anomaly => this.toResponse(anomaly, currency)),
+        total
+      };
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error('Failed to retrieve anomalies:', error);
+      throw new DatabaseError('Failed to retrieve anomalies');
+    }
+  }
+
+  // Acknowledge or dismiss an anomaly, or open it again
+  static async reviewAnomaly(
+    organizationId: number,
+    id: number,
+    status: AnomalyStatus,
+    userId: number | null
+  ): Promise<AnomalyResponse> {
+    try {
+      const existing = await prisma.expenseAnomaly.findFirst({
+        where: { id, organizationId }
+      });
+
+      if (!existing) {
+        throw new NotFoundError(`Anomaly with ID ${id} not found`);
+      }
+
+      const reviewed = status !== AnomalyStatus.OPEN;
+      const anomaly = await prisma.expenseAnomaly.update({
+        where: { id },
+        data: {
+          status,
+          reviewedById: reviewed ? userId : null,
+          reviewedAt: reviewed ? new Date() : null
+        },
+        include: anomalyInclude
+      });
+
+      logger.info(`Reviewed anomaly ${id}: ${status}`);
+      return this.toResponse(anomaly, await this.reportingCurrency(organizationId));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to review anomaly ${id}:`, error);
+      throw new DatabaseError('Failed to review anomaly');
+    }
+  }
+
+  // Flag expenses whose category and month have an anomaly that was not dismissed
+  static async attachAnomalies(organizationId: number, expenses: ExpenseResponse[]): Promise<ExpenseResponse[]> {
+    if (expenses.length === 0) {
+      return expenses;
+    }
+
+    const periods = new Map(expenses.map(expense => [
+      `${expense.categoryId}-${expense.year}-${expense.month}`,
+      { categoryId: expense.categoryId, year: expense.year, month: expense.month }
+    ]));
+
+    const anomalies = await prisma.expenseAnomaly.findMany({
+      where: {
+        organizationId,
+        status: { not: AnomalyStatus.DISMISSED },
+        OR: Array.from(periods.values())
+      }
+    });
+
+    const flags = new Map(anomalies.map(anomaly => [
+      `${anomaly.categoryId}-${anomaly.year}-${anomaly.month}`,
+      this.toFlag(anomaly)
+    ]));
+
+    return expenses.map(expense => ({
+      ...expense,
+      anomaly: flags.get(`${expense.categoryId}-${expense.year}-${expense.month}`) ?? null
+    }));
+  }
+
+  // Check a category's month against the months before it and store or clear
+  // its anomaly. Returns the flag for the month unless it was dismissed.
+  static async checkMonth(
+    organizationId: number,
+    categoryId: number,
+    month: number,
+    year: number
+  ): Promise<AnomalyFlag | null> {
+    const index = periodIndex(month, year);
+    const totals = await this.monthlyTotals(organizationId, index - HISTORY_MONTHS, index, categoryId);
+    const result = this.evaluate(totals.get(categoryId) ?? new Map(), index);
+
+    // Without an exchange rate the month can't be told apart; keep what is stored
+    const anomaly = result === undefined
+      ? await prisma.expenseAnomaly.findFirst({ where: { organizationId, categoryId, month, year } })
+      : await this.save(organizationId, categoryId, index, result.amount, result.outlier);
+
+    return anomaly && anomaly.status !== AnomalyStatus.DISMISSED ? this.toFlag(anomaly) : null;
+  }
+
+  // Check a category's month after one of its expenses changed. A failed check
+  // doesn't fail the change; it is picked up by the next scan.
+  static async checkAfterExpenseChange(
+    organizationId: number,
+    categoryId: number,
+    month: number,
+    year: number
+  ): Promise<AnomalyFlag | null> {
+    try {
+      return await this.checkMonth(organizationId, categoryId, month, year);
+    } catch (error) {
+      logger.error(`Anomaly check failed for organization ${organizationId}:`, error);
+      return null;
+    }
+  }
+
+  // Check every category over the last months. Catches changes the expense
+  // hooks don't see, such as imports, generated costs and new exchange rates.
+  static async scanOrganization(organizationId: number, now: Date = new Date()): Promise<AnomalyScanResult> {
+    const to = periodIndex(now.getMonth() + 1, now.getFullYear());
+    const from = to - SCAN_MONTHS + 1;
+
+    const totals = await this.monthlyTotals(organizationId, from - HISTORY_MONTHS, to);
+    const stored = await prisma.expenseAnomaly.findMany({
+      where: { organizationId, year: { gte: periodOf(from).year, lte: periodOf(to).year } },
+      select: { categoryId: true, month: true, year: true }
+    });
+    const storedKeys = new Set(stored.map(anomaly =>
+      `${anomaly.categoryId}-${periodIndex(anomaly.month, anomaly.year)}`
+    ));
+
+    const categoryIds = new Set([...totals.keys(), ...stored.map(anomaly => anomaly.categoryId)]);
+    const result: AnomalyScanResult = { flagged: 0, cleared: 0 };
+
+    for (const categoryId of categoryIds) {
+      const months = totals.get(categoryId) ?? new Map();
+
+      for (let index = from; index <= to; index++) {
+        const evaluated = this.evaluate(months, index);
+        const wasStored = storedKeys.has(`${categoryId}-${index}`);
+
+        if (evaluated === undefined || (!evaluated.outlier && !wasStored)) {
+          continue;
+        }
+
+        await this.save(organizationId, categoryId, index, evaluated.amount, evaluated.outlier);
+        if (evaluated.outlier) {
+          result.flagged++;
+        } else {
+          result.cleared++;
+        }
+      }
+    }
+
+    logger.info(
+      `Anomaly scan for organization ${organizationId}: ${result.flagged} flagged, ${result.cleared} cleared`
+    );
+    return result;
+  }
+
+  // Monthly approved spend per category between two periods, inclusive, like the
+  // trends; limited to one category when given
+  private static async monthlyTotals(
+    organizationId: number,
+    from: number,
+    to: number,
+    categoryId?: number
+  ): Promise<Map<number, MonthlyTotals>> {
+    const costs = await prisma.cost.findMany({
+      where: {
+        organizationId,
+        ...(categoryId !== undefined && { categoryId }),
+        year: { gte: periodOf(from).year, lte: periodOf(to).year },
+        deletedAt: null,
+        status: CostStatus.APPROVED
+      },
+      select: { categoryId: true, amount: true, currency: true, month: true, year: true }
+    });
+
+    const converter = await ExchangeRateService.createConverter(organizationId, costs.map(cost => cost.currency));
+    const totals = new Map<number, MonthlyTotals>();
+
+    for (const cost of costs) {
+      const index = periodIndex(cost.month, cost.year);
+      if (index < from || index > to) {
+        continue;
+      }
+
+      const months = totals.get(cost.categoryId) ?? new Map<number, number | null>();
+      totals.set(cost.categoryId, months);
+
+      const amount = converter.convert(Number(cost.amount), cost.currency, cost.month, cost.year);
+      const current = months.get(index);
+      months.set(index, amount === null || current === null ? null : (current ?? 0) + amount);
+    }
+
+    return totals;
+  }
+
+  // Compare one month with up to HISTORY_MONTHS months with spend before it.
+  // Months without spend are never outliers; undefined when the month itself
+  // can't be converted into the reporting currency.
+  private static evaluate(
+    months: MonthlyTotals,
+    index: number
+  ): { amount: number; outlier: OutlierResult | null } | undefined {
+    const amount = months.get(index);
+    if (amount === null) {
+      return undefined;
+    }
+
+    if (amount === undefined || amount <= 0) {
+      return { amount: 0, outlier: null };
+    }
+
+    const history: number[] = [];
+    for (let previous = index - HISTORY_MONTHS; previous < index; previous++) {
+      const value = months.get(previous);
+      if (value !== undefined && value !== null) {
+        history.push(value);
+      }
+    }
+
+    return { amount, outlier: detectOutlier(history, amount) };
+  }
+
+  // Store the figures of an outlier month, keeping the review status of an
+  // anomaly that is already stored, or clear a month that is no longer an outlier
+  private static async save(
+    organizationId: number,
+    categoryId: number,
+    index: number,
+    amount: number,
+    outlier: OutlierResult | null
+  ): Promise<ExpenseAnomaly | null> {
+    const { month, year } = periodOf(index);
+
+    if (!outlier) {
+      await prisma.expenseAnomaly.deleteMany({ where: { organizationId, categoryId, month, year } });
+      return null;
+    }
+
+    const figures = {
+      amount: Math.round(amount * 100) / 100,
+      expected: outlier.expected,
+      zScore: outlier.zScore,
+      lowerBound: outlier.lowerBound,
+      upperBound: outlier.upperBound
+    };
+
+    const anomaly = await prisma.expenseAnomaly.upsert({
+      where: { uq_expense_anomalies_category_period: { organizationId, categoryId, year, month } },
+      create: { organizationId, categoryId, month, year, ...figures },
+      update: figures
+    });
+
+    logger.debug(`Anomaly ${anomaly.id}: category ${categoryId} spent ${figures.amount} in ${month}/${year}, expected ${figures.expected}`);
+    return anomaly;
+  }
+
+  private static async reportingCurrency(organizationId: number): Promise<string> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { reportingCurrency: true }
+    });
+
+    if (!organization) {
+      throw new NotFoundError(`Organization with ID ${organizationId} not found`);
+    }
+
+    return organization.reportingCurrency;
+  }
+}
\ No newline at end of file
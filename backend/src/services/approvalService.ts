@@ -0,0 +1,227 @@
+import { Cost, CostStatus, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ApprovalPolicy, CostStatusChangeResponse } from '../types/approval';
+import { AuditContext } from '../types/audit';
+import { ExpenseResponse } from '../types/expense';
+import { OrganizationResponse } from '../types/organization';
+import {
+  ApiError,
+  DatabaseError,
+  ForbiddenError,
+  InvalidStatusError,
+  NotFoundError
+} from '../utils/errors';
+import { logger } from '../utils/logger';
+import { ExchangeRateService } from './exchangeRateService';
+import { ExpenseService } from './expenseService';
+import { OrganizationService } from './organizationService';
+import { PeriodLockService } from './periodLockService';
+
+type CostStatusChangeWithUser = Prisma.CostStatusChangeGetPayload<{
+  include: { user: { select: { id: true; name: true } } };
+}>;
+
+export class ApprovalService {
+  // Convert Prisma CostStatusChange model to API response format
+  private static toResponse(change: CostStatusChangeWithUser): CostStatusChangeResponse {
+    return {
+      id: change.id,
+      costId: change.costId,
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      user: change.user,
+      comment: change.comment,
+      createdAt: change.createdAt.toISOString()
+    };
+  }
+
+  // Build the approval policy of an organization for costs in the given currencies.
+  // Costs above the threshold wait for approval, as do costs whose amount can't be
+  // converted for lack of an exchange rate; the rest are approved as they are saved.
+  static async createPolicy(organizationId: number, currencies: Iterable<string>): Promise<ApprovalPolicy> {
+    const [organization, converter] = await Promise.all([
+      prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { approvalThreshold: true }
+      }),
+      ExchangeRateService.createConverter(organizationId, currencies)
+    ]);
+
+    const threshold = organization?.approvalThreshold == null ? null : Number(organization.approvalThreshold);
+
+    return {
+      threshold,
+      statusFor: (cost) => {
+        if (threshold === null) {
+          return CostStatus.APPROVED;
+        }
+
+        const amount = converter.convert(cost.amount, cost.currency, cost.month, cost.year);
+        return amount === null || amount > threshold ? CostStatus.SUBMITTED : CostStatus.APPROVED;
+      }
+    };
+  }
+
+  // Record a cost's move to its current status. Must be given the transaction
+  // client that made the change, like the cost's audit history.
+  static async recordStatusChange(
+    tx: Prisma.TransactionClient,
+    cost: Cost,
+    fromStatus: CostStatus | null,
+    context: AuditContext,
+    comment: string | null = null
+  ): Promise<void> {
+    await tx.costStatusChange.create({
+      data: {
+        organizationId: cost.organizationId,
+        costId: cost.id,
+        fromStatus,
+        toStatus: cost.status,
+        userId: context.userId,
+        comment
+      }
+    });
+  }
+
+  // Submit a draft or rejected expense. It is approved straight away when it no
+  // longer needs approval.
+  static async submitExpense(organizationId: number, id: number, context: AuditContext): Promise<ExpenseResponse> {
+    return this.changeStatus(organizationId, id, [CostStatus.DRAFT, CostStatus.REJECTED], 'submitted', context, null,
+      async (cost) => {
+        const policy = await this.createPolicy(organizationId, [cost.currency]);
+        return policy.statusFor({ ...cost, amount: Number(cost.amount) });
+      });
+  }
+
+  // Approve a submitted expense, so it counts towards trends. The approver must be
+  // someone other than the user who submitted it.
+  static async approveExpense(
+    organizationId: number,
+    id: number,
+    context: AuditContext,
+    comment: string | null
+  ): Promise<ExpenseResponse> {
+    return this.changeStatus(organizationId, id, [CostStatus.SUBMITTED], 'approved', context, comment,
+      async (cost, tx) => {
+        const submission = await tx.costStatusChange.findFirst({
+          where: { organizationId, costId: cost.id, toStatus: CostStatus.SUBMITTED },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          select: { userId: true }
+        });
+
+        if (submission?.userId === context.userId) {
+          throw new ForbiddenError('Expenses must be approved by someone other than the user who submitted them');
+        }
+
+        return CostStatus.APPROVED;
+      });
+  }
+
+  // Reject a submitted expense; it can be changed and submitted again
+  static async rejectExpense(
+    organizationId: number,
+    id: number,
+    context: AuditContext,
+    comment: string | null
+  ): Promise<ExpenseResponse> {
+    return this.changeStatus(organizationId, id, [CostStatus.SUBMITTED], 'rejected', context, comment,
+      async () => CostStatus.REJECTED);
+  }
+
+  // Get the review history of an expense, newest first
+  static async getStatusHistory(organizationId: number, costId: number): Promise<CostStatusChangeResponse[]> {
+    try {
+      const cost = await prisma.cost.findFirst({
+        where: { id: costId, organizationId },
+        select: { id: true }
+      });
+
+      if (!cost) {
+        throw new NotFoundError(`Expense with ID ${costId} not found`);
+      }
+
+      const changes = await prisma.costStatusChange.findMany({
+        where: { organizationId, costId },
+        include: { user: { select: { id: true, name: true } } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+      });
+
+      return changes.map(change => this.toResponse(change));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to retrieve status history of expense ${costId}:`, error);
+      throw new DatabaseError('Failed to retrieve expense status history');
+    }
+  }
+
+  // Change the amount above which an organization's costs need approval. Costs
+  // already saved keep their status.
+  static async updateThreshold(organizationId: number, threshold: number | null): Promise<OrganizationResponse> {
+    try {
+      const organization = await prisma.organization.update({
+        where: { id: organizationId },
+        data: { approvalThreshold: threshold }
+      });
+
+      logger.info(`Organization ${organizationId} approval threshold is now ${threshold ?? 'off'}`);
+      return OrganizationService.toResponse(organization);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        throw new NotFoundError(`Organization with ID ${organizationId} not found`);
+      }
+
+      logger.error(`Failed to update approval threshold of organization ${organizationId}:`, error);
+      throw new DatabaseError('Failed to update approval threshold');
+    }
+  }
+
+  // Move an expense in one of the allowed statuses to the status chosen for it,
+  // recording who did it and why. Closed months can't change.
+  private static async changeStatus(
+    organizationId: number,
+    id: number,
+    allowed: CostStatus[],
+    action: string,
+    context: AuditContext,
+    comment: string | null,
+    nextStatus: (cost: Cost, tx: Prisma.TransactionClient) => Promise<CostStatus>
+  ): Promise<ExpenseResponse> {
+    try {
+      await prisma.$transaction(async (tx) => {
+        const cost = await tx.cost.findFirst({
+          where: { id, organizationId, deletedAt: null }
+        });
+
+        if (!cost) {
+          throw new NotFoundError(`Expense with ID ${id} not found`);
+        }
+
+        if (!allowed.includes(cost.status)) {
+          throw new InvalidStatusError(`Expense ${id} is ${cost.status.toLowerCase()} and can't be ${action}`);
+        }
+
+        await PeriodLockService.requireOpenPeriod(organizationId, cost, tx);
+
+        const updated = await tx.cost.update({
+          where: { id },
+          data: { status: await nextStatus(cost, tx) }
+        });
+
+        await this.recordStatusChange(tx, updated, cost.status, context, comment || null);
+      });
+
+      logger.info(`Expense ${id} ${action} by user ${context.userId}`);
+      return await ExpenseService.getExpenseById(organizationId, id);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to change status of expense ${id}:`, error);
+      throw new DatabaseError('Failed to change expense status');
+    }
+  }
+}
\ No newline at end of file
@@ -1,6 +1,20 @@
 import { prisma } from '../config/database';
 import { logger } from '../utils/logger';
-import { Prisma } from '@prisma/client';
+import { Prisma, CostAuditAction, CostStatus } from '@prisma/client';
+import { AuditContext } from '../types/audit';
+import { AuditService } from './auditService';
+import { PeriodLockService } from './periodLockService';
+import { TagService } from './tagService';
+
+// Archived costs keep the names of their tags
+const archiveInclude = {
+  tags: { include: { tag: true } }
+} satisfies Prisma.CostInclude;
+
+type ArchivableCost = Prisma.CostGetPayload<{ include: typeof archiveInclude }>;
+
+// Restores are committed in one transaction, which may take a while for long ranges
+const RESTORE_TRANSACTION_TIMEOUT_MS = 120000;
 
 export interface ArchiveConfig {
   retentionYears: number; // How many years to keep in main table
@@ -15,8 +29,8 @@ export class ArchiveService {
     batchSize: 1000
   };
 
-  // Archive old data based on retention policy
-  static async archiveOldData(config: Partial<ArchiveConfig> = {}): Promise<{
+  // Archive an organization's old data based on retention policy
+  static async archiveOldData(organizationId: number, config: Partial<ArchiveConfig> = {}): Promise<{
     archivedCount: number;
     deletedCount: number;
     cutoffDate: Date;
@@ -25,7 +39,7 @@ export class ArchiveService {
     const cutoffDate = new Date();
     cutoffDate.setFullYear(cutoffDate.getFullYear() - finalConfig.retentionYears);
 
-    logger.info(`Starting data archival process. Cutoff date: ${cutoffDate.toISOString()}`);
+    logger.info(`Starting data archival process for organization ${organizationId}. Cutoff date: ${cutoffDate.toISOString()}`);
 
     try {
       // First, ensure archive table exists
@@ -34,9 +48,18 @@ export class ArchiveService {
       // Get count of records to archive
       const recordsToArchive = await prisma.cost.count({
         where: {
+          organizationId,
           createdAt: {
             lt: cutoffDate
-          }
+          },
+          // Trashed costs are left for the trash purge, costs with attachments
+          // stay where their files can be reached, and discussed costs keep
+          // their threads. The archive has no review status, so only approved
+          // costs are archived.
+          deletedAt: null,
+          status: CostStatus.APPROVED,
+          attachments: { none: {} },
+          comments: { none: {} }
         }
       });
 
@@ -58,10 +81,16 @@ export class ArchiveService {
       while (offset < recordsToArchive) {
         const batch = await prisma.cost.findMany({
           where: {
+            organizationId,
             createdAt: {
               lt: cutoffDate
-            }
+            },
+            deletedAt: null,
+            status: CostStatus.APPROVED,
+            attachments: { none: {} },
+            comments: { none: {} }
           },
+          include: archiveInclude,
           take: finalConfig.batchSize,
           skip: offset,
           orderBy: {
@@ -82,9 +111,14 @@ export class ArchiveService {
       // Delete archived records from main table
       const deleteResult = await prisma.cost.deleteMany({
         where: {
+          organizationId,
           createdAt: {
             lt: cutoffDate
-          }
+          },
+          deletedAt: null,
+          status: CostStatus.APPROVED,
+          attachments: { none: {} },
+          comments: { none: {} }
         }
       });
 
@@ -108,17 +142,62 @@ export class ArchiveService {
       await prisma.$executeRawUnsafe(`
         CREATE TABLE IF NOT EXISTS ${tableName} (
           id SERIAL PRIMARY KEY,
-          category TEXT NOT NULL,
+          organization_id INTEGER NOT NULL,
+          category_id INTEGER NOT NULL,
+          cost_center_id INTEGER,
           amount DECIMAL(12,2) NOT NULL,
+          currency CHAR(3) NOT NULL DEFAULT 'USD',
           month SMALLINT NOT NULL,
           year SMALLINT NOT NULL,
+          description VARCHAR(255),
+          vendor VARCHAR(100),
+          invoice_number VARCHAR(50),
+          invoice_date DATE,
+          notes TEXT,
+          tags VARCHAR(50)[] NOT NULL DEFAULT '{}',
           created_at TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
           updated_at TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
           archived_at TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP
         )
       `);
 
+      // Archive tables created before organizations existed lack the tenant column
+      await prisma.$executeRawUnsafe(`
+        ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS organization_id INTEGER
+      `);
+
+      // ...and tables created before cost centers existed lack the cost center
+      await prisma.$executeRawUnsafe(`
+        ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS cost_center_id INTEGER
+      `);
+
+      // ...and tables created before line items existed lack their details
+      await prisma.$executeRawUnsafe(`
+        ALTER TABLE ${tableName}
+          ADD COLUMN IF NOT EXISTS description VARCHAR(255),
+          ADD COLUMN IF NOT EXISTS vendor VARCHAR(100),
+          ADD COLUMN IF NOT EXISTS invoice_number VARCHAR(50),
+          ADD COLUMN IF NOT EXISTS invoice_date DATE
+      `);
+
+      // ...and tables created before multi-currency amounts hold USD only
+      await prisma.$executeRawUnsafe(`
+        ALTER TABLE ${tableName} ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'USD'
+      `);
+
+      // ...and tables created before notes and tags existed lack them
+      await prisma.$executeRawUnsafe(`
+        ALTER TABLE ${tableName}
+          ADD COLUMN IF NOT EXISTS notes TEXT,
+          ADD COLUMN IF NOT EXISTS tags VARCHAR(50)[] NOT NULL DEFAULT '{}'
+      `);
+
       // Create indexes on archive table for performance
+      await prisma.$executeRawUnsafe(`
+        CREATE INDEX IF NOT EXISTS idx_${tableName}_organization_id 
+        ON ${tableName}(organization_id)
+      `);
+
       await prisma.$executeRawUnsafe(`
         CREATE INDEX IF NOT EXISTS idx_${tableName}_year_month 
         ON ${tableName}(year, month)
@@ -126,7 +205,7 @@ export class ArchiveService {
 
       await prisma.$executeRawUnsafe(`
         CREATE INDEX IF NOT EXISTS idx_${tableName}_category 
-        ON ${tableName}(category)
+        ON ${tableName}(category_id)
       `);
 
       await prisma.$executeRawUnsafe(`
@@ -142,30 +221,34 @@ export class ArchiveService {
   }
 
   // Archive a batch of records
-  private static async archiveBatch(records: any[], tableName: string): Promise<void> {
+  private static async archiveBatch(records: ArchivableCost[], tableName: string): Promise<void> {
     if (records.length === 0) return;
 
     try {
-      // Build insert query
-      const values = records.map(record => 
-        `(${record.id}, '${record.category}', ${record.amount}, ${record.month}, ${record.year}, '${record.createdAt.toISOString()}', '${record.updatedAt.toISOString()}', CURRENT_TIMESTAMP)`
-      ).join(', ');
-
-      const query = `
-        INSERT INTO ${tableName} (id, category, amount, month, year, created_at, updated_at, archived_at)
-        VALUES ${values}
+      // Build insert query; line item details are free text, so every value is a parameter
+      const values = records.map(record => Prisma.sql`(
+        ${record.id}, ${record.organizationId}, ${record.categoryId}, ${record.costCenterId}, ${record.amount},
+        ${record.currency}, ${record.month}, ${record.year}, ${record.description}, ${record.vendor}, ${record.invoiceNumber},
+        ${record.invoiceDate}::date, ${record.notes}, ${record.tags.map(costTag => costTag.tag.name)}::varchar[],
+        ${record.createdAt}, ${record.updatedAt}, CURRENT_TIMESTAMP
+      )`);
+
+      await prisma.$executeRaw`
+        INSERT INTO ${Prisma.raw(tableName)} (
+          id, organization_id, category_id, cost_center_id, amount, currency, month, year,
+          description, vendor, invoice_number, invoice_date, notes, tags, created_at, updated_at, archived_at
+        )
+        VALUES ${Prisma.join(values)}
         ON CONFLICT (id) DO NOTHING
       `;
-
-      await prisma.$executeRawUnsafe(query);
     } catch (error) {
       logger.error('Error archiving batch:', error);
       throw error;
     }
   }
 
-  // Get archive statistics
-  static async getArchiveStats(tableName: string = 'costs_archive'): Promise<{
+  // Get archive statistics for an organization
+  static async getArchiveStats(organizationId: number, tableName: string = 'costs_archive'): Promise<{
     totalArchivedRecords: number;
     oldestRecord: Date | null;
     newestRecord: Date | null;
@@ -192,7 +275,8 @@ export class ArchiveService {
       // Get record count
       const countResult = await prisma.$queryRawUnsafe(`
         SELECT COUNT(*) as count FROM ${tableName}
-      `) as any[];
+        WHERE organization_id = $1
+      `, organizationId) as any[];
 
       const totalArchivedRecords = parseInt(countResult[0]?.count || '0');
 
@@ -202,9 +286,10 @@ export class ArchiveService {
           MIN(created_at) as oldest,
           MAX(created_at) as newest
         FROM ${tableName}
-      `) as any[];
+        WHERE organization_id = $1
+      `, organizationId) as any[];
 
-      // Get table size estimate
+      // Get table size estimate (for the whole shared table)
       const sizeResult = await prisma.$queryRawUnsafe(`
         SELECT pg_size_pretty(pg_total_relation_size('${tableName}')) as size
       `) as any[];
@@ -221,8 +306,9 @@ export class ArchiveService {
     }
   }
 
-  // Clean up very old archived data (optional)
+  // Clean up an organization's very old archived data (optional)
   static async cleanupOldArchives(
+    organizationId: number,
     tableName: string = 'costs_archive',
     maxArchiveYears: number = 20
   ): Promise<number> {
@@ -232,8 +318,9 @@ export class ArchiveService {
     try {
       const result = await prisma.$executeRawUnsafe(`
         DELETE FROM ${tableName} 
-        WHERE created_at < '${cutoffDate.toISOString()}'
-      `) as any;
+        WHERE organization_id = $1
+        AND created_at < '${cutoffDate.toISOString()}'
+      `, organizationId) as any;
 
       const deletedCount = result.count || 0;
       logger.info(`Cleaned up ${deletedCount} old archived records older than ${cutoffDate.toISOString()}`);
@@ -245,51 +332,119 @@ export class ArchiveService {
     }
   }
 
-  // Restore data from archive (if needed)
+  // Restore an organization's data from archive (if needed). Records whose ID is
+  // now taken by another organization's cost are skipped and reported.
   static async restoreFromArchive(
+    organizationId: number,
     startDate: Date,
     endDate: Date,
+    context: AuditContext,
     tableName: string = 'costs_archive'
-  ): Promise<number> {
+  ): Promise<{ restoredCount: number; skippedIds: number[] }> {
     try {
       // Get records from archive
       const records = await prisma.$queryRawUnsafe(`
-        SELECT id, category, amount, month, year, created_at, updated_at
+        SELECT id, category_id, cost_center_id, amount, currency, month, year,
+          description, vendor, invoice_number, invoice_date, notes, tags, created_at, updated_at
         FROM ${tableName}
-        WHERE created_at >= '${startDate.toISOString()}'
+        WHERE organization_id = $1
+        AND created_at >= '${startDate.toISOString()}'
         AND created_at <= '${endDate.toISOString()}'
-      `) as any[];
+      `, organizationId) as any[];
 
       if (records.length === 0) {
         logger.info('No records found in archive for the specified date range');
-        return 0;
+        return { restoredCount: 0, skippedIds: [] };
       }
 
-      // Restore records to main table
-      for (const record of records) {
-        await prisma.cost.upsert({
-          where: { id: record.id },
-          update: {
-            category: record.category,
-            amount: record.amount,
-            month: record.month,
-            year: record.year,
-            updatedAt: new Date()
-          },
-          create: {
-            id: record.id,
-            category: record.category,
-            amount: record.amount,
-            month: record.month,
-            year: record.year,
-            createdAt: record.created_at,
-            updatedAt: record.updated_at
-          }
+      // Restore records to main table in one transaction, so a failure restores
+      // none of them, recording each restore in the cost's history
+      const skippedIds = await prisma.$transaction(async (tx) => {
+        const existingCosts = await tx.cost.findMany({
+          where: { id: { in: records.map(record => record.id) } }
         });
+        const existingById = new Map(existingCosts.map(cost => [cost.id, cost]));
+
+        // Nothing is restored when any record, or a cost it would overwrite, falls
+        // in a closed month
+        await PeriodLockService.requireOpenPeriods(
+          organizationId,
+          [
+            ...records.map(record => ({ month: record.month, year: record.year })),
+            ...existingCosts
+              .filter(cost => cost.organizationId === organizationId)
+              .map(cost => ({ month: cost.month, year: cost.year }))
+          ],
+          tx
+        );
+        const skipped: number[] = [];
+
+        for (const record of records) {
+          const existing = existingById.get(record.id);
+          if (existing && existing.organizationId !== organizationId) {
+            skipped.push(record.id);
+            continue;
+          }
+
+          const tags = await TagService.tagLinks(organizationId, record.tags ?? [], tx);
+
+          const restored = await tx.cost.upsert({
+            where: { id: record.id },
+            update: {
+              categoryId: record.category_id,
+              costCenterId: record.cost_center_id,
+              amount: record.amount,
+              currency: record.currency,
+              month: record.month,
+              year: record.year,
+              description: record.description,
+              vendor: record.vendor,
+              invoiceNumber: record.invoice_number,
+              invoiceDate: record.invoice_date,
+              notes: record.notes,
+              tags: { deleteMany: {}, create: tags },
+              updatedAt: new Date()
+            },
+            create: {
+              id: record.id,
+              organizationId,
+              // Only approved costs are archived
+              status: CostStatus.APPROVED,
+              categoryId: record.category_id,
+              costCenterId: record.cost_center_id,
+              amount: record.amount,
+              currency: record.currency,
+              month: record.month,
+              year: record.year,
+              description: record.description,
+              vendor: record.vendor,
+              invoiceNumber: record.invoice_number,
+              invoiceDate: record.invoice_date,
+              notes: record.notes,
+              tags: { create: tags },
+              createdAt: record.created_at,
+              updatedAt: record.updated_at
+            }
+          });
+
+          await AuditService.recordCostChange(
+            tx,
+            CostAuditAction.RESTORE,
+            restored,
+            existing ? existing.amount : null,
+            context
+          );
+        }
+
+        return skipped;
+      }, { timeout: RESTORE_TRANSACTION_TIMEOUT_MS });
+
+      if (skippedIds.length > 0) {
+        logger.warn(`Skipped archived records whose IDs belong to other organizations: ${skippedIds.join(', ')}`);
       }
 
-      logger.info(`Restored ${records.length} records from archive`);
-      return records.length;
+      logger.info(`Restored ${records.length - skippedIds.length} records from archive`);
+      return { restoredCount: records.length - skippedIds.length, skippedIds };
     } catch (error) {
       logger.error('Error restoring from archive:', error);
       throw error;
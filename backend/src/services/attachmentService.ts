@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AttachmentDownload, AttachmentResponse, AttachmentUpload } from '../types/attachment';
+import { ApiError, DatabaseError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { PeriodLockService } from './periodLockService';
+import { getStorage } from './storage';
+
+const attachmentInclude = {
+  uploadedBy: { select: { name: true } }
+} satisfies Prisma.CostAttachmentInclude;
+
+type CostAttachmentWithUser = Prisma.CostAttachmentGetPayload<{ include: typeof attachmentInclude }>;
+
+export class AttachmentService {
+  // Convert Prisma CostAttachment model to API response format
+  private static toResponse(attachment: CostAttachmentWithUser): AttachmentResponse {
+    return {
+      id: attachment.id,
+      costId: attachment.costId,
+      fileName: attachment.fileName,
+      contentType: attachment.contentType,
+      size: attachment.size,
+      uploadedBy: attachment.uploadedBy?.name ?? null,
+      createdAt: attachment.createdAt.toISOString()
+    };
+  }
+
+  // Trashed expenses keep their attachments, but they can't be reached until restored
+  private static async requireCost(organizationId: number, costId: number): Promise<void> {
+    const cost = await prisma.cost.findFirst({
+      where: { id: costId, organizationId, deletedAt: null },
+      select: { id: true }
+    });
+
+    if (!cost) {
+      throw new NotFoundError(`Expense with ID ${costId} not found`);
+    }
+  }
+
+  // Store an uploaded file and attach it to an expense. Files can be added to
+  // expenses of closed months, so evidence can still be collected after close.
+  static async uploadAttachment(
+    organizationId: number,
+    costId: number,
+    upload: AttachmentUpload,
+    userId: number | null
+  ): Promise<AttachmentResponse> {
+    try {
+      await this.requireCost(organizationId, costId);
+
+      const storageKey = `${organizationId}/${costId}/${crypto.randomUUID()}`;
+      await getStorage().put(storageKey, upload.file, upload.contentType);
+
+      try {
+        const attachment = await prisma.costAttachment.create({
+          data: {
+            organizationId,
+            costId,
+            fileName: upload.fileName,
+            contentType: upload.contentType,
+            size: upload.file.length,
+            storageKey,
+            uploadedById: userId
+          },
+          include: attachmentInclude
+        });
+
+        logger.info(`Attached ${upload.fileName} (${upload.file.length} bytes) to expense ${costId}`);
+        return this.toResponse(attachment);
+      } catch (error) {
+        await this.deleteStoredFiles([storageKey]);
+        throw error;
+      }
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to attach a file to expense ${costId}:`, error);
+      throw new DatabaseError('Failed to upload attachment');
+    }
+  }
+
+  // Get the attachments of an expense, oldest first
+  static async getAttachments(organizationId: number, costId: number): Promise<AttachmentResponse[]> {
+    try {
+      await this.requireCost(organizationId, costId);
+
+      const attachments = await prisma.costAttachment.findMany({
+        where: { organizationId, costId },
+        include: attachmentInclude,
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+      });
+
+      return attachments.map(attachment => this.toResponse(attachment));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to retrieve attachments of expense ${costId}:`, error);
+      throw new DatabaseError('Failed to retrieve attachments');
+    }
+  }
+
+  // Read an attachment's file from storage
+  static async downloadAttachment(organizationId: number, costId: number, id: number): Promise<AttachmentDownload> {
+    try {
+      const attachment = await prisma.costAttachment.findFirst({
+        where: { id, costId, organizationId, cost: { deletedAt: null } }
+      });
+
+      if (!attachment) {
+        throw new NotFoundError(`Attachment with ID ${id} not found`);
+      }
+
+      const file = await getStorage().get(attachment.storageKey);
+      return { fileName: attachment.fileName, contentType: attachment.contentType, file };
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to download attachment ${id}:`, error);
+      throw new DatabaseError('Failed to download attachment');
+    }
+  }
+
+  // Remove an attachment and its file. Evidence of closed months is kept.
+  static async deleteAttachment(organizationId: number, costId: number, id: number): Promise<void> {
+    try {
+      const attachment = await prisma.costAttachment.findFirst({
+        where: { id, costId, organizationId, cost: { deletedAt: null } },
+        include: { cost: { select: { month: true, year: true } } }
+      });
+
+      if (!attachment) {
+        throw new NotFoundError(`Attachment with ID ${id} not found`);
+      }
+
+      await PeriodLockService.requireOpenPeriod(organizationId, attachment.cost);
+      await prisma.costAttachment.delete({ where: { id } });
+      await this.deleteStoredFiles([attachment.storageKey]);
+
+      logger.info(`Removed attachment ${id} from expense ${costId}`);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to delete attachment ${id}:`, error);
+      throw new DatabaseError('Failed to delete attachment');
+    }
+  }
+
+  // Storage keys of the attachments of the given costs, for removing their files
+  // once the costs are gone
+  static async getStorageKeys(where: Prisma.CostWhereInput): Promise<string[]> {
+    const attachments = await prisma.costAttachment.findMany({
+      where: { cost: where },
+      select: { storageKey: true }
+    });
+
+    return attachments.map(attachment => attachment.storageKey);
+  }
+
+  // Remove stored files whose attachments are gone. Failures are only logged: a
+  // file left behind takes up space but is never served again.
+  static async deleteStoredFiles(storageKeys: string[]): Promise<void> {
+    const storage = getStorage();
+    for (const key of storageKeys) {
+      try {
+        await storage.delete(key);
+      } catch (error) {
+        logger.warn(`Failed to remove stored attachment ${key}:`, error);
+      }
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { Cost, CostAuditAction, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AuditContext, CostAuditLogResponse } from '../types/audit';
+import { DatabaseError, NotFoundError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+type CostAuditLogWithUser = Prisma.CostAuditLogGetPayload<{
+  include: {
+    user: { select: { id: true; name: true; email: true } };
+    category: { select: { name: true } };
+  };
+}>;
+
+export class AuditService {
+  // Convert Prisma CostAuditLog model to API response format
+  private static toResponse(entry: CostAuditLogWithUser): CostAuditLogResponse {
+    return {
+      id: entry.id,
+      costId: entry.costId,
+      action: entry.action,
+      categoryId: entry.categoryId,
+      category: entry.category.name,
+      month: entry.month,
+      year: entry.year,
+      oldAmount: entry.oldAmount === null ? null : Number(entry.oldAmount),
+      newAmount: entry.newAmount === null ? null : Number(entry.newAmount),
+      user: entry.user,
+      ipAddress: entry.ipAddress,
+      createdAt: entry.createdAt.toISOString()
+    };
+  }
+
+  // Record a change to a cost. Must be given the transaction client that made the
+  // change, so the history entry is only written if the change itself commits.
+  static async recordCostChange(
+    tx: Prisma.TransactionClient,
+    action: CostAuditAction,
+    cost: Cost,
+    oldAmount: Prisma.Decimal | null,
+    context: AuditContext
+  ): Promise<void> {
+    await tx.costAuditLog.create({
+      data: {
+        organizationId: cost.organizationId,
+        costId: cost.id,
+        action,
+        categoryId: cost.categoryId,
+        month: cost.month,
+        year: cost.year,
+        oldAmount,
+        newAmount: action === CostAuditAction.DELETE ? null : cost.amount,
+        userId: context.userId,
+        ipAddress: context.ipAddress
+      }
+    });
+  }
+
+  // Get the change history of a cost, newest first. Deleted costs keep their history.
+  static async getCostHistory(organizationId: number, costId: number): Promise<CostAuditLogResponse[]> {
+    try {
+      const entries = await prisma.costAuditLog.findMany({
+        where: { organizationId, costId },
+        include: {
+          user: { select: { id: true, name: true, email: true } },
+          category: { select: { name: true } }
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }]
+      });
+
+      if (entries.length === 0) {
+        // Costs created before auditing began have no history yet
+        const exists = await prisma.cost.count({ where: { id: costId, organizationId } });
+        if (!exists) {
+          throw new NotFoundError(`Expense with ID ${costId} not found`);
+        }
+      }
+
+      return entries.map(entry => this.toResponse(entry));
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+
+      logger.error(`Failed to retrieve history for expense ${costId}:`, error);
+      throw new DatabaseError('Failed to retrieve expense history');
+    }
+  }
+}
\ No newline at end of file
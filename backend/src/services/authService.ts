@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { User, UserRole } from '@prisma/client';
+import { prisma } from '../config/database';
+import { config } from '../config/environment';
+import { ROLE_PERMISSIONS } from '../config/permissions';
+import {
+  AccessTokenPayload,
+  AuthenticatedUser,
+  AuthTokensResponse,
+  UserResponse
+} from '../types/auth';
+import { AuthenticationError, DatabaseError, ApiError } from '../utils/errors';
+import { logger, logSecurityEvent, logSecurityWarning } from '../utils/logger';
+
+const TOKEN_ISSUER = 'expense-management-api';
+
+// Hash compared against when the email is unknown, so response timing does not
+// reveal which addresses have accounts. Computed once, on first use.
+let dummyPasswordHash: Promise<string> | undefined;
+
+export class AuthService {
+  // Convert Prisma User model to API response format (never exposes the password hash)
+  static toUserResponse(user: User): UserResponse {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      permissions: [...ROLE_PERMISSIONS[user.role]],
+      lastLoginAt: user.lastLoginAt ? user.lastLoginAt.toISOString() : null,
+      createdAt: user.createdAt.toISOString()
+    };
+  }
+
+  // Hash a plain-text password for storage
+  static async hashPassword(password: string): Promise<string> {
+    return bcrypt.hash(password, config.BCRYPT_ROUNDS);
+  }
+
+  // Create a new user account
+  static async createUser(
+    email: string,
+    name: string,
+    password: string,
+    role: UserRole = UserRole.VIEWER
+  ): Promise<UserResponse> {
+    const passwordHash = await this.hashPassword(password);
+    const user = await prisma.user.create({
+      data: {
+        email: email.toLowerCase(),
+        name,
+        passwordHash,
+        role
+      }
+    });
+
+    logger.info(`Created user: ${user.id} - ${user.email} (${user.role})`);
+    return this.toUserResponse(user);
+  }
+
+  // Verify credentials and issue a new token pair
+  static async login(email: string, password: string, ip?: string): Promise<AuthTokensResponse> {
+    try {
+      const user = await prisma.user.findUnique({
+        where: { email: email.toLowerCase() }
+      });
+
+      dummyPasswordHash ??= this.hashPassword(crypto.randomBytes(16).toString('hex'));
+      const passwordMatches = await bcrypt.compare(
+        password,
+        user?.passwordHash ?? await dummyPasswordHash
+      );
+
+      if (!user || !user.isActive || !passwordMatches) {
+        logSecurityWarning('Failed login attempt', { email, ip });
+        throw new AuthenticationError('Invalid email or password');
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id: user.id },
+        data: { lastLoginAt: new Date() }
+      });
+
+      logSecurityEvent('User logged in', { userId: user.id, ip });
+      return this.issueTokens(updatedUser);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error('Failed to log in:', error);
+      throw new DatabaseError('Failed to log in');
+    }
+  }
+
+  // Exchange a refresh token for a new token pair, rotating the refresh token
+  static async refresh(refreshToken: string): Promise<AuthTokensResponse> {
+    try {
+      const stored = await prisma.refreshToken.findUnique({
+        where: { tokenHash: this.hashToken(refreshToken) },
+        include: { user: true }
+      });
+
+      if (!stored || stored.expiresAt <= new Date() || !stored.user.isActive) {
+        throw new AuthenticationError('Invalid or expired refresh token');
+      }
+
+      // Revoke the token only while it is still live, so of two concurrent
+      // refreshes with the same token only one succeeds
+      const { count } = await prisma.refreshToken.updateMany({
+        where: { id: stored.id, revokedAt: null },
+        data: { revokedAt: new Date() }
+      });
+
+      if (count !== 1) {
+        // A revoked token being replayed suggests it leaked; end every session for this user
+        await this.revokeAllForUser(stored.userId);
+        logSecurityWarning('Revoked refresh token reused', { userId: stored.userId });
+        throw new AuthenticationError('Invalid or expired refresh token');
+      }
+
+      return this.issueTokens(stored.user);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error('Failed to refresh token:', error);
+      throw new DatabaseError('Failed to refresh token');
+    }
+  }
+
+  // Revoke a refresh token; unknown tokens are ignored so logout is idempotent
+  static async logout(refreshToken: string): Promise<void> {
+    try {
+      await prisma.refreshToken.updateMany({
+        where: {
+          tokenHash: this.hashToken(refreshToken),
+          revokedAt: null
+        },
+        data: { revokedAt: new Date() }
+      });
+    } catch (error) {
+      logger.error('Failed to log out:', error);
+      throw new DatabaseError('Failed to log out');
+    }
+  }
+
+  // Get the current user's profile
+  static async getUserById(id: number): Promise<UserResponse> {
+    const user = await prisma.user.findUnique({ where: { id } });
+
+    if (!user || !user.isActive) {
+      throw new AuthenticationError('User account not found or disabled');
+    }
+
+    return this.toUserResponse(user);
+  }
+
+  // Verify an access token and return the user it was issued to. The role is
+  // read from the token, so role changes apply from the next refresh.
+  static verifyAccessToken(token: string): AuthenticatedUser {
+    try {
+      const payload = jwt.verify(token, config.SESSION_SECRET, {
+        issuer: TOKEN_ISSUER,
+        algorithms: ['HS256']
+      }) as unknown as AccessTokenPayload;
+
+      if (!Object.values(UserRole).includes(payload.role)) {
+        throw new Error('Token has no valid role');
+      }
+
+      return {
+        id: Number(payload.sub),
+        email: payload.email,
+        name: payload.name,
+        role: payload.role
+      };
+    } catch (error) {
+      throw new AuthenticationError(
+        error instanceof jwt.TokenExpiredError ? 'Access token expired' : 'Invalid access token'
+      );
+    }
+  }
+
+  // Sign a short-lived access token for a user
+  static signAccessToken(user: Pick<User, 'id' | 'email' | 'name' | 'role'>): string {
+    return jwt.sign(
+      { email: user.email, name: user.name, role: user.role },
+      config.SESSION_SECRET,
+      {
+        subject: String(user.id),
+        issuer: TOKEN_ISSUER,
+        algorithm: 'HS256',
+        expiresIn: Math.floor(config.SESSION_TIMEOUT / 1000)
+      }
+    );
+  }
+
+  // Issue an access token and a persisted, opaque refresh token
+  private static async issueTokens(user: User): Promise<AuthTokensResponse> {
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+
+    await prisma.refreshToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: this.hashToken(refreshToken),
+        expiresAt: new Date(Date.now() + config.REFRESH_TOKEN_TTL)
+      }
+    });
+
+    return {
+      accessToken: this.signAccessToken(user),
+      refreshToken,
+      tokenType: 'Bearer',
+      expiresIn: Math.floor(config.SESSION_TIMEOUT / 1000),
+      user: this.toUserResponse(user)
+    };
+  }
+
+  private static async revokeAllForUser(userId: number): Promise<void> {
+    await prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() }
+    });
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,401 @@
+import { prisma } from '../config/database';
+import {
+  AlertQuery,
+  AlertResponse,
+  AlertRuleResponse,
+  BudgetAlertMessage,
+  CreateAlertRuleRequest,
+  UpdateAlertRuleRequest
+} from '../types/alert';
+import { alertTargetSchemas } from '../validation/alert';
+import {
+  NotFoundError,
+  DatabaseError,
+  ValidationError,
+  ApiError
+} from '../utils/errors';
+import { logger } from '../utils/logger';
+import { BudgetService } from './budgetService';
+import { CategoryService } from './categoryService';
+import { getNotifier } from './notifiers';
+import {
+  Prisma,
+  AlertChannel,
+  AlertStatus,
+  BudgetAlertRule
+} from '@prisma/client';
+
+type BudgetAlertRuleWithCategory = Prisma.BudgetAlertRuleGetPayload<{
+  include: { category: { select: { name: true } } };
+}>;
+
+type BudgetAlertWithCategory = Prisma.BudgetAlertGetPayload<{
+  include: { category: { select: { name: true } } };
+}>;
+
+const includeCategoryName = { category: { select: { name: true } } } as const;
+
+// A claimed alert still pending after this long is taken to have been abandoned
+// by its check, and can be claimed again
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+export class BudgetAlertService {
+  // Convert Prisma BudgetAlertRule model to API response format
+  private static ruleToResponse(rule: BudgetAlertRuleWithCategory): AlertRuleResponse {
+    return {
+      id: rule.id,
+      categoryId: rule.categoryId,
+      category: rule.category?.name ?? null,
+      thresholdPercent: rule.thresholdPercent,
+      channel: rule.channel,
+      target: rule.target,
+      isActive: rule.isActive,
+      createdAt: rule.createdAt.toISOString(),
+      updatedAt: rule.updatedAt.toISOString()
+    };
+  }
+
+  // Convert Prisma BudgetAlert model to API response format
+  private static alertToResponse(alert: BudgetAlertWithCategory): AlertResponse {
+    return {
+      id: alert.id,
+      ruleId: alert.ruleId,
+      categoryId: alert.categoryId,
+      category: alert.category.name,
+      month: alert.month,
+      year: alert.year,
+      thresholdPercent: alert.thresholdPercent,
+      budgetAmount: Number(alert.budgetAmount),
+      actualAmount: Number(alert.actualAmount),
+      channel: alert.channel,
+      target: alert.target,
+      status: alert.status,
+      error: alert.error,
+      createdAt: alert.createdAt.toISOString()
+    };
+  }
+
+  private static validateTarget(channel: AlertChannel, target: string): void {
+    const { error } = alertTargetSchemas[channel].validate(target);
+    if (error) {
+      throw new ValidationError(error.details[0]?.message || 'Invalid alert target', 'target');
+    }
+  }
+
+  // Create an alert rule
+  static async createRule(organizationId: number, data: CreateAlertRuleRequest): Promise<AlertRuleResponse> {
+    this.validateTarget(data.channel, data.target);
+
+    try {
+      if (data.categoryId !== undefined) {
+        await CategoryService.requireActiveCategory(organizationId, data.categoryId);
+      }
+
+      const rule = await prisma.budgetAlertRule.create({
+        data: {
+          organizationId,
+          categoryId: data.categoryId ?? null,
+          thresholdPercent: data.thresholdPercent,
+          channel: data.channel,
+          target: data.target
+        },
+        include: includeCategoryName
+      });
+
+      logger.info(`Created budget alert rule: ${rule.id} - ${rule.channel} at ${rule.thresholdPercent}%`);
+      return this.ruleToResponse(rule);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error('Failed to create budget alert rule:', error);
+      throw new DatabaseError('Failed to create budget alert rule');
+    }
+  }
+
+  // Get an organization's alert rules
+  static async getRules(organizationId: number): Promise<AlertRuleResponse[]> {
+    try {
+      const rules = await prisma.budgetAlertRule.findMany({
+        where: { organizationId },
+        include: includeCategoryName,
+        orderBy: [{ thresholdPercent: 'asc' }, { id: 'asc' }]
+      });
+
+      return rules.map(rule => this.ruleToResponse(rule));
+    } catch (error) {
+      logger.error('Failed to retrieve budget alert rules:', error);
+      throw new DatabaseError('Failed to retrieve budget alert rules');
+    }
+  }
+
+  // Update an alert rule; a new target must suit the rule's channel
+  static async updateRule(
+    organizationId: number,
+    id: number,
+    data: UpdateAlertRuleRequest
+  ): Promise<AlertRuleResponse> {
+    try {
+      const existing = await prisma.budgetAlertRule.findFirst({
+        where: { id, organizationId }
+      });
+
+      if (!existing) {
+        throw new NotFoundError(`Alert rule with ID ${id} not found`);
+      }
+
+      if (data.target !== undefined) {
+        this.validateTarget(existing.channel, data.target);
+      }
+
+      const rule = await prisma.budgetAlertRule.update({
+        where: { id },
+        data: {
+          ...(data.thresholdPercent !== undefined && { thresholdPercent: data.thresholdPercent }),
+          ...(data.target !== undefined && { target: data.target }),
+          ...(data.isActive !== undefined && { isActive: data.isActive })
+        },
+        include: includeCategoryName
+      });
+
+      logger.info(`Updated budget alert rule: ${rule.id}`);
+      return this.ruleToResponse(rule);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to update budget alert rule ${id}:`, error);
+      throw new DatabaseError('Failed to update budget alert rule');
+    }
+  }
+
+  // Delete an alert rule together with its alert history
+  static async deleteRule(organizationId: number, id: number): Promise<void> {
+    try {
+      await prisma.budgetAlertRule.delete({
+        where: { id, organizationId }
+      });
+
+      logger.info(`Deleted budget alert rule: ${id}`);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        // Handle record not found
+        if (error.code === 'P2025') {
+          throw new NotFoundError(`Alert rule with ID ${id} not found`);
+        }
+      }
+
+      logger.error(`Failed to delete budget alert rule ${id}:`, error);
+      throw new DatabaseError('Failed to delete budget alert rule');
+    }
+  }
+
+  // Get alert history, newest first
+  static async getAlerts(organizationId: number, query: AlertQuery): Promise<{
+    alerts: AlertResponse[];
+    total: number;
+  }> {
+    try {
+      const where: Prisma.BudgetAlertWhereInput = { organizationId };
+
+      if (query.year !== undefined) {
+        where.year = query.year;
+      }
+
+      if (query.month !== undefined) {
+        where.month = query.month;
+      }
+
+      if (query.status !== undefined) {
+        where.status = query.status;
+      }
+
+      const [total, alerts] = await Promise.all([
+        prisma.budgetAlert.count({ where }),
+        prisma.budgetAlert.findMany({
+          where,
+          include: includeCategoryName,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take: query.limit || 50,
+          skip: query.offset || 0
+        })
+      ]);
+
+      return {
+        alerts: alerts.map(alert => this.alertToResponse(alert)),
+        total
+      };
+    } catch (error) {
+      logger.error('Failed to retrieve budget alerts:', error);
+      throw new DatabaseError('Failed to retrieve budget alerts');
+    }
+  }
+
+  // Check a month's spend against the alert rules and notify every rule whose
+  // threshold has been reached and has not already fired for that category and
+  // month. Limited to one category when given. Returns the number of alerts sent.
+  static async checkMonth(
+    organizationId: number,
+    month: number,
+    year: number,
+    categoryId?: number
+  ): Promise<number> {
+    const rules = await prisma.budgetAlertRule.findMany({
+      where: {
+        organizationId,
+        isActive: true,
+        ...(categoryId && { OR: [{ categoryId }, { categoryId: null }] })
+      }
+    });
+
+    if (rules.length === 0) {
+      return 0;
+    }
+
+    const variance = await BudgetService.getVariance(organizationId, { year, month });
+    const budgeted = variance.categories.filter(item =>
+      item.budget > 0 && (!categoryId || item.categoryId === categoryId)
+    );
+
+    if (budgeted.length === 0) {
+      return 0;
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { name: true }
+    });
+
+    let sentCount = 0;
+
+    for (const item of budgeted) {
+      const percentUsed = (item.actual / item.budget) * 100;
+
+      for (const rule of rules) {
+        if ((rule.categoryId !== null && rule.categoryId !== item.categoryId) || percentUsed < rule.thresholdPercent) {
+          continue;
+        }
+
+        const sent = await this.deliver(rule, item.categoryId, {
+          organizationId,
+          organizationName: organization?.name ?? `Organization ${organizationId}`,
+          category: item.category,
+          month,
+          year,
+          thresholdPercent: rule.thresholdPercent,
+          budget: item.budget,
+          actual: item.actual,
+          currency: variance.currency,
+          percentUsed
+        });
+
+        if (sent) {
+          sentCount++;
+        }
+      }
+    }
+
+    return sentCount;
+  }
+
+  // Check a category after one of its expenses changed, without holding up the caller
+  static checkAfterExpenseChange(
+    organizationId: number,
+    categoryId: number,
+    month: number,
+    year: number
+  ): void {
+    this.checkMonth(organizationId, month, year, categoryId).catch(error => {
+      logger.error(`Budget alert check failed for organization ${organizationId}:`, error);
+    });
+  }
+
+  // Claim the alert of a rule for a category and month, unless it was sent or
+  // another check is sending it. Failed alerts and abandoned claims are claimed
+  // again. The unique rule and period key makes concurrent checks claim it once.
+  private static async claim(
+    rule: BudgetAlertRule,
+    categoryId: number,
+    message: BudgetAlertMessage
+  ): Promise<boolean> {
+    const attempt = {
+      thresholdPercent: rule.thresholdPercent,
+      budgetAmount: message.budget,
+      actualAmount: message.actual,
+      channel: rule.channel,
+      target: rule.target,
+      status: AlertStatus.PENDING,
+      error: null
+    };
+
+    const created = await prisma.budgetAlert.createMany({
+      data: [{
+        organizationId: message.organizationId,
+        ruleId: rule.id,
+        categoryId,
+        month: message.month,
+        year: message.year,
+        ...attempt
+      }],
+      skipDuplicates: true
+    });
+
+    if (created.count === 1) {
+      return true;
+    }
+
+    const retried = await prisma.budgetAlert.updateMany({
+      where: {
+        ruleId: rule.id,
+        categoryId,
+        month: message.month,
+        year: message.year,
+        OR: [
+          { status: AlertStatus.FAILED },
+          { status: AlertStatus.PENDING, updatedAt: { lt: new Date(Date.now() - STALE_CLAIM_MS) } }
+        ]
+      },
+      data: attempt
+    });
+
+    return retried.count === 1;
+  }
+
+  // Claim one alert, send it and record whether it was delivered. Returns whether
+  // this call sent it.
+  private static async deliver(
+    rule: BudgetAlertRule,
+    categoryId: number,
+    message: BudgetAlertMessage
+  ): Promise<boolean> {
+    if (!(await this.claim(rule, categoryId, message))) {
+      return false;
+    }
+
+    let error: string | null = null;
+
+    try {
+      await getNotifier(rule.channel).send(rule.target, message);
+      logger.info(
+        `Sent budget alert for rule ${rule.id}: ${message.category} at ${Math.round(message.percentUsed)}%`
+      );
+    } catch (sendError) {
+      error = (sendError instanceof Error ? sendError.message : String(sendError)).slice(0, 500);
+      logger.warn(`Budget alert for rule ${rule.id} could not be delivered: ${error}`);
+    }
+
+    await prisma.budgetAlert.update({
+      where: {
+        uq_budget_alerts_rule_period: { ruleId: rule.id, categoryId, year: message.year, month: message.month }
+      },
+      data: {
+        status: error === null ? AlertStatus.SENT : AlertStatus.FAILED,
+        error
+      }
+    });
+
+    return error === null;
+  }
+}
\ No newline at end of file
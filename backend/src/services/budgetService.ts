@@ -0,0 +1,303 @@
+import { prisma } from '../config/database';
+import {
+  BudgetQuery,
+  BudgetResponse,
+  CategoryVariance,
+  CreateBudgetRequest,
+  UpdateBudgetRequest,
+  VarianceQuery,
+  VarianceResponse
+} from '../types/budget';
+import { CategoryTrendData } from '../types/expense';
+import {
+  ApiError,
+  DuplicateEntryError,
+  NotFoundError,
+  DatabaseError
+} from '../utils/errors';
+import { logger } from '../utils/logger';
+import { ExpenseService } from './expenseService';
+import { CategoryService } from './categoryService';
+import { Prisma, Budget, Category } from '@prisma/client';
+
+type BudgetWithCategory = Prisma.BudgetGetPayload<{ include: { category: true } }>;
+
+export class BudgetService {
+  // Convert Prisma Budget model to API response format
+  private static toResponse(budget: BudgetWithCategory): BudgetResponse {
+    return {
+      id: budget.id,
+      categoryId: budget.categoryId,
+      category: budget.category.name,
+      amount: Number(budget.amount),
+      month: budget.month,
+      year: budget.year,
+      createdAt: budget.createdAt.toISOString(),
+      updatedAt: budget.updatedAt.toISOString()
+    };
+  }
+
+  private static describePeriod(month: number | null | undefined, year: number): string {
+    return month ? `${month}/${year}` : `${year}`;
+  }
+
+  // Create a monthly budget, or a yearly total when no month is given
+  static async createBudget(organizationId: number, data: CreateBudgetRequest): Promise<BudgetResponse> {
+    const month = data.month ?? null;
+    let categoryName = `category ${data.categoryId}`;
+
+    try {
+      const budget = await prisma.$transaction(async (tx) => {
+        const category = await CategoryService.requireActiveCategory(organizationId, data.categoryId, tx);
+        categoryName = category.name;
+
+        // The unique index cannot catch duplicate yearly totals because their month is NULL
+        if (month === null) {
+          const existing = await tx.budget.findFirst({
+            where: { organizationId, categoryId: data.categoryId, year: data.year, month: null }
+          });
+
+          if (existing) {
+            throw new DuplicateEntryError(
+              `A budget already exists for ${category.name} in ${data.year}`
+            );
+          }
+        }
+
+        return tx.budget.create({
+          data: {
+            organizationId,
+            categoryId: data.categoryId,
+            amount: data.amount,
+            month,
+            year: data.year
+          },
+          include: { category: true, organization: { select: { reportingCurrency: true } } }
+        });
+      });
+
+      logger.info(`Created budget: ${budget.id} - ${budget.category.name} - ${budget.amount} ${budget.organization.reportingCurrency}`);
+      return this.toResponse(budget);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        // Handle unique constraint violation (duplicate entry)
+        if (error.code === 'P2002') {
+          throw new DuplicateEntryError(
+            `A budget already exists for ${categoryName} in ${this.describePeriod(month, data.year)}`
+          );
+        }
+      }
+
+      logger.error('Failed to create budget:', error);
+      throw new DatabaseError('Failed to create budget');
+    }
+  }
+
+  // Get an organization's budgets with optional filtering
+  static async getBudgets(organizationId: number, query: BudgetQuery): Promise<BudgetResponse[]> {
+    try {
+      const where: Prisma.BudgetWhereInput = { organizationId };
+
+      if (query.year !== undefined) {
+        where.year = query.year;
+      }
+
+      if (query.month !== undefined) {
+        where.month = query.month;
+      } else if (query.yearly !== undefined) {
+        where.month = query.yearly ? null : { not: null };
+      }
+
+      if (query.categoryId !== undefined) {
+        where.categoryId = query.categoryId;
+      }
+
+      const budgets = await prisma.budget.findMany({
+        where,
+        include: { category: true },
+        orderBy: [
+          { year: 'desc' },
+          { month: { sort: 'desc', nulls: 'first' } },
+          { category: { displayOrder: 'asc' } }
+        ]
+      });
+
+      logger.debug(`Retrieved ${budgets.length} budgets`);
+      return budgets.map(budget => this.toResponse(budget));
+    } catch (error) {
+      logger.error('Failed to retrieve budgets:', error);
+      throw new DatabaseError('Failed to retrieve budgets');
+    }
+  }
+
+  // Get a single budget by ID; budgets of other organizations are reported as not found
+  static async getBudgetById(organizationId: number, id: number): Promise<BudgetResponse> {
+    try {
+      const budget = await prisma.budget.findFirst({
+        where: { id, organizationId },
+        include: { category: true }
+      });
+
+      if (!budget) {
+        throw new NotFoundError(`Budget with ID ${id} not found`);
+      }
+
+      return this.toResponse(budget);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+
+      logger.error(`Failed to retrieve budget ${id}:`, error);
+      throw new DatabaseError('Failed to retrieve budget');
+    }
+  }
+
+  // Update a budget's amount
+  static async updateBudget(
+    organizationId: number,
+    id: number,
+    data: UpdateBudgetRequest
+  ): Promise<BudgetResponse> {
+    try {
+      const budget = await prisma.budget.update({
+        where: { id, organizationId },
+        data: { amount: data.amount },
+        include: { category: true, organization: { select: { reportingCurrency: true } } }
+      });
+
+      logger.info(`Updated budget: ${budget.id} - new amount: ${budget.amount} ${budget.organization.reportingCurrency}`);
+      return this.toResponse(budget);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        // Handle record not found
+        if (error.code === 'P2025') {
+          throw new NotFoundError(`Budget with ID ${id} not found`);
+        }
+      }
+
+      logger.error(`Failed to update budget ${id}:`, error);
+      throw new DatabaseError('Failed to update budget');
+    }
+  }
+
+  // Delete a budget
+  static async deleteBudget(organizationId: number, id: number): Promise<void> {
+    try {
+      await prisma.budget.delete({
+        where: { id, organizationId }
+      });
+
+      logger.info(`Deleted budget: ${id}`);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        // Handle record not found
+        if (error.code === 'P2025') {
+          throw new NotFoundError(`Budget with ID ${id} not found`);
+        }
+      }
+
+      logger.error(`Failed to delete budget ${id}:`, error);
+      throw new DatabaseError('Failed to delete budget');
+    }
+  }
+
+  // Compare planned and actual spend per category for a month, or for a whole year
+  // when no month is given. A year is measured against its yearly total where one
+  // is set, otherwise against the sum of that year's monthly budgets.
+  static async getVariance(organizationId: number, query: VarianceQuery): Promise<VarianceResponse> {
+    const month = query.month ?? null;
+
+    // Actual spend comes from the same aggregation that powers the trends endpoint
+    const trends = await ExpenseService.getTrends(organizationId, {
+      startYear: query.year,
+      endYear: query.year,
+      ...(month !== null && { startMonth: month, endMonth: month }),
+      groupBy: 'category'
+    });
+
+    let budgets: Budget[];
+    let allCategories: Category[];
+    try {
+      [budgets, allCategories] = await Promise.all([
+        prisma.budget.findMany({
+          where: {
+            organizationId,
+            year: query.year,
+            ...(month !== null && { month })
+          }
+        }),
+        // Archived categories are included so past spend and budgets still show up
+        prisma.category.findMany({
+          where: { organizationId },
+          orderBy: [{ displayOrder: 'asc' }, { name: 'asc' }]
+        })
+      ]);
+    } catch (error) {
+      logger.error('Failed to retrieve budgets for variance:', error);
+      throw new DatabaseError('Failed to retrieve budget variance');
+    }
+
+    // Trends are rolled up to top-level categories and list their sub-categories
+    const actualByCategory = new Map<number, number>();
+    for (const trend of trends.data as CategoryTrendData[]) {
+      actualByCategory.set(trend.categoryId, trend.totalAmount);
+      for (const subcategory of trend.subcategories ?? []) {
+        actualByCategory.set(subcategory.categoryId, subcategory.amount);
+      }
+    }
+
+    const monthlyByCategory = new Map<number, number>();
+    const yearlyByCategory = new Map<number, number>();
+    for (const budget of budgets) {
+      const target = budget.month === null ? yearlyByCategory : monthlyByCategory;
+      target.set(budget.categoryId, (target.get(budget.categoryId) || 0) + Number(budget.amount));
+    }
+
+    const categories: CategoryVariance[] = allCategories
+      .filter(({ id }) =>
+        actualByCategory.has(id) || monthlyByCategory.has(id) || yearlyByCategory.has(id)
+      )
+      .map(({ id, name, parentId, color }) => {
+        const budget = month === null && yearlyByCategory.has(id)
+          ? yearlyByCategory.get(id)!
+          : monthlyByCategory.get(id) || 0;
+
+        return {
+          categoryId: id,
+          category: name,
+          parentCategoryId: parentId,
+          color,
+          ...this.compare(budget, actualByCategory.get(id) || 0)
+        };
+      });
+
+    // Sub-category spend is already part of its parent's actual. A parent's budget
+    // covers its sub-categories, so their budgets only count when the parent has none.
+    const budgetById = new Map(categories.map(item => [item.categoryId, item.budget]));
+    const topLevel = categories.filter(item => item.parentCategoryId === null);
+    const totals = this.compare(
+      categories
+        .filter(item => item.parentCategoryId === null || !budgetById.get(item.parentCategoryId))
+        .reduce((sum, item) => sum + item.budget, 0),
+      topLevel.reduce((sum, item) => sum + item.actual, 0)
+    );
+
+    return { year: query.year, month, currency: trends.summary.currency, categories, totals };
+  }
+
+  private static compare(budget: number, actual: number): VarianceResponse['totals'] {
+    // Amounts are summed as floats, so round back to cents
+    const variance = Math.round((actual - budget) * 100) / 100;
+    return {
+      budget,
+      actual,
+      variance,
+      variancePercent: budget > 0 ? (variance / budget) * 100 : null
+    };
+  }
+}
\ No newline at end of file
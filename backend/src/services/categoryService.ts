@@ -0,0 +1,252 @@
+import { Category, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import {
+  CategoryQuery,
+  CategoryResponse,
+  CreateCategoryRequest,
+  UpdateCategoryRequest
+} from '../types/category';
+import {
+  ApiError,
+  DatabaseError,
+  DuplicateEntryError,
+  NotFoundError,
+  ValidationError
+} from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export class CategoryService {
+  // Convert Prisma Category model to API response format
+  static toResponse(category: Category): CategoryResponse {
+    return {
+      id: category.id,
+      parentId: category.parentId,
+      name: category.name,
+      color: category.color,
+      displayOrder: category.displayOrder,
+      archived: category.archivedAt !== null,
+      archivedAt: category.archivedAt ? category.archivedAt.toISOString() : null,
+      createdAt: category.createdAt.toISOString(),
+      updatedAt: category.updatedAt.toISOString()
+    };
+  }
+
+  // Create a category; without a display order it is placed after the last one
+  static async createCategory(organizationId: number, data: CreateCategoryRequest): Promise<CategoryResponse> {
+    try {
+      if (data.parentId !== undefined) {
+        await this.requireParent(organizationId, data.parentId);
+      }
+
+      let displayOrder = data.displayOrder;
+      if (displayOrder === undefined) {
+        const last = await prisma.category.aggregate({
+          where: { organizationId },
+          _max: { displayOrder: true }
+        });
+        displayOrder = (last._max.displayOrder ?? -1) + 1;
+      }
+
+      const category = await prisma.category.create({
+        data: {
+          organizationId,
+          parentId: data.parentId ?? null,
+          name: data.name,
+          color: data.color,
+          displayOrder
+        }
+      });
+
+      logger.info(`Created category: ${category.id} - ${category.name}`);
+      return this.toResponse(category);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        // Handle unique constraint violation (duplicate entry)
+        if (error.code === 'P2002') {
+          throw new DuplicateEntryError(`A category named "${data.name}" already exists`);
+        }
+      }
+
+      logger.error('Failed to create category:', error);
+      throw new DatabaseError('Failed to create category');
+    }
+  }
+
+  // Get an organization's categories in display order
+  static async getCategories(organizationId: number, query: CategoryQuery = {}): Promise<CategoryResponse[]> {
+    try {
+      const categories = await prisma.category.findMany({
+        where: {
+          organizationId,
+          ...(!query.includeArchived && { archivedAt: null })
+        },
+        orderBy: [{ displayOrder: 'asc' }, { name: 'asc' }]
+      });
+
+      return categories.map(category => this.toResponse(category));
+    } catch (error) {
+      logger.error('Failed to retrieve categories:', error);
+      throw new DatabaseError('Failed to retrieve categories');
+    }
+  }
+
+  // Get a single category by ID; categories of other organizations are reported as not found
+  static async getCategoryById(organizationId: number, id: number): Promise<CategoryResponse> {
+    try {
+      const category = await prisma.category.findFirst({
+        where: { id, organizationId }
+      });
+
+      if (!category) {
+        throw new NotFoundError(`Category with ID ${id} not found`);
+      }
+
+      return this.toResponse(category);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+
+      logger.error(`Failed to retrieve category ${id}:`, error);
+      throw new DatabaseError('Failed to retrieve category');
+    }
+  }
+
+  // Update a category. Archiving keeps the category on existing records but hides
+  // it from pickers and rejects it for new ones; archiving a top-level category
+  // also archives its sub-categories.
+  static async updateCategory(
+    organizationId: number,
+    id: number,
+    data: UpdateCategoryRequest
+  ): Promise<CategoryResponse> {
+    try {
+      const category = await prisma.$transaction(async (tx) => {
+        const existing = await tx.category.findFirst({
+          where: { id, organizationId }
+        });
+
+        if (!existing) {
+          throw new NotFoundError(`Category with ID ${id} not found`);
+        }
+
+        if (data.parentId !== undefined && data.parentId !== null) {
+          if (data.parentId === id) {
+            throw new ValidationError('A category cannot be its own parent', 'parentId');
+          }
+
+          await this.requireParent(organizationId, data.parentId, tx);
+
+          // Keep the tree two levels deep
+          const children = await tx.category.count({ where: { parentId: id } });
+          if (children > 0) {
+            throw new ValidationError(
+              `Category "${existing.name}" has sub-categories and cannot become a sub-category`,
+              'parentId'
+            );
+          }
+        }
+
+        let archivedAt = existing.archivedAt;
+        if (data.archived !== undefined) {
+          archivedAt = data.archived ? existing.archivedAt ?? new Date() : null;
+        }
+
+        if (data.archived && existing.parentId === null) {
+          await tx.category.updateMany({
+            where: { parentId: id, archivedAt: null },
+            data: { archivedAt }
+          });
+        }
+
+        return tx.category.update({
+          where: { id },
+          data: {
+            ...(data.parentId !== undefined && { parentId: data.parentId }),
+            ...(data.name !== undefined && { name: data.name }),
+            ...(data.color !== undefined && { color: data.color }),
+            ...(data.displayOrder !== undefined && { displayOrder: data.displayOrder }),
+            archivedAt
+          }
+        });
+      });
+
+      logger.info(`Updated category: ${category.id} - ${category.name}`);
+      return this.toResponse(category);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        // Handle unique constraint violation (duplicate entry)
+        if (error.code === 'P2002') {
+          throw new DuplicateEntryError(`A category named "${data.name}" already exists`);
+        }
+      }
+
+      logger.error(`Failed to update category ${id}:`, error);
+      throw new DatabaseError('Failed to update category');
+    }
+  }
+
+  // Archive a category. Categories are never deleted so existing costs keep theirs.
+  static async archiveCategory(organizationId: number, id: number): Promise<CategoryResponse> {
+    return this.updateCategory(organizationId, id, { archived: true });
+  }
+
+  // Check that a category can take sub-categories: it must belong to the
+  // organization, be active and be top-level itself
+  private static async requireParent(
+    organizationId: number,
+    parentId: number,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<Category> {
+    const parent = await client.category.findFirst({
+      where: { id: parentId, organizationId }
+    });
+
+    if (!parent) {
+      throw new ValidationError(`Category with ID ${parentId} does not exist`, 'parentId');
+    }
+
+    if (parent.archivedAt) {
+      throw new ValidationError(`Category "${parent.name}" is archived`, 'parentId');
+    }
+
+    if (parent.parentId !== null) {
+      throw new ValidationError(
+        `Category "${parent.name}" is a sub-category and cannot have sub-categories`,
+        'parentId'
+      );
+    }
+
+    return parent;
+  }
+
+  // Load a category for a new cost, budget or alert rule. It must belong to the
+  // organization and must not be archived.
+  static async requireActiveCategory(
+    organizationId: number,
+    id: number,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<Category> {
+    const category = await client.category.findFirst({
+      where: { id, organizationId }
+    });
+
+    if (!category) {
+      throw new ValidationError(`Category with ID ${id} does not exist`, 'categoryId');
+    }
+
+    if (category.archivedAt) {
+      throw new ValidationError(`Category "${category.name}" is archived`, 'categoryId');
+    }
+
+    return category;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,272 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import {
+  CommentQuery,
+  CommentResponse,
+  CommentUser,
+  CreateCommentRequest,
+  UnreadCommentsResponse,
+  UpdateCommentRequest
+} from '../types/comment';
+import { ApiError, DatabaseError, ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+const commentInclude = {
+  author: { select: { id: true, name: true } },
+  mentions: { include: { user: { select: { id: true, name: true } } }, orderBy: { user: { name: 'asc' } } }
+} satisfies Prisma.CostCommentInclude;
+
+type CostCommentWithUsers = Prisma.CostCommentGetPayload<{ include: typeof commentInclude }>;
+
+export class CommentService {
+  // Convert Prisma CostComment model to API response format
+  private static toResponse(comment: CostCommentWithUsers): CommentResponse {
+    return {
+      id: comment.id,
+      costId: comment.costId,
+      body: comment.body,
+      author: comment.author,
+      mentions: comment.mentions.map(mention => mention.user),
+      createdAt: comment.createdAt.toISOString(),
+      editedAt: comment.editedAt ? comment.editedAt.toISOString() : null
+    };
+  }
+
+  // Trashed expenses keep their threads, but they can't be reached until restored
+  private static async requireCost(organizationId: number, costId: number): Promise<void> {
+    const cost = await prisma.cost.findFirst({
+      where: { id: costId, organizationId, deletedAt: null },
+      select: { id: true }
+    });
+
+    if (!cost) {
+      throw new NotFoundError(`Expense with ID ${costId} not found`);
+    }
+  }
+
+  // Only members of the organization can be mentioned
+  private static async requireMembers(organizationId: number, userIds: number[]): Promise<void> {
+    if (userIds.length === 0) {
+      return;
+    }
+
+    const members = await prisma.organizationMember.count({
+      where: { organizationId, userId: { in: userIds }, user: { isActive: true } }
+    });
+
+    if (members !== userIds.length) {
+      throw new ValidationError('Only members of the organization can be mentioned', 'mentions');
+    }
+  }
+
+  // A comment on a reachable expense that the user wrote; others' comments can't be changed
+  private static async requireOwnComment(
+    organizationId: number,
+    costId: number,
+    id: number,
+    userId: number
+  ): Promise<void> {
+    const comment = await prisma.costComment.findFirst({
+      where: { id, costId, organizationId, cost: { deletedAt: null } },
+      select: { authorId: true }
+    });
+
+    if (!comment) {
+      throw new NotFoundError(`Comment with ID ${id} not found`);
+    }
+
+    if (comment.authorId !== userId) {
+      throw new ForbiddenError('You can only change your own comments');
+    }
+  }
+
+  // Get a page of an expense's thread, oldest comment first
+  static async getComments(
+    organizationId: number,
+    costId: number,
+    query: CommentQuery = {}
+  ): Promise<{ comments: CommentResponse[]; total: number }> {
+    try {
+      await this.requireCost(organizationId, costId);
+
+      const where: Prisma.CostCommentWhereInput = { organizationId, costId };
+      const [comments, total] = await Promise.all([
+        prisma.costComment.findMany({
+          where,
+          include: commentInclude,
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+          take: query.limit || 50,
+          skip: query.offset || 0
+        }),
+        prisma.costComment.count({ where })
+      ]);
+
+      return { comments: comments.map(comment => this.toResponse(comment)), total };
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to retrieve comments of expense ${costId}:`, error);
+      throw new DatabaseError('Failed to retrieve comments');
+    }
+  }
+
+  // Add a comment to an expense's thread. Closed months can still be discussed.
+  static async createComment(
+    organizationId: number,
+    costId: number,
+    data: CreateCommentRequest,
+    userId: number
+  ): Promise<CommentResponse> {
+    try {
+      const mentions = data.mentions ?? [];
+      await this.requireCost(organizationId, costId);
+      await this.requireMembers(organizationId, mentions);
+
+      const comment = await prisma.costComment.create({
+        data: {
+          organizationId,
+          costId,
+          authorId: userId,
+          body: data.body,
+          mentions: { create: mentions.map(mentionedId => ({ userId: mentionedId })) }
+        },
+        include: commentInclude
+      });
+
+      logger.info(`User ${userId} commented on expense ${costId}`);
+      return this.toResponse(comment);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to comment on expense ${costId}:`, error);
+      throw new DatabaseError('Failed to add comment');
+    }
+  }
+
+  // Change the text of one of the user's own comments, and its mentions when given
+  static async updateComment(
+    organizationId: number,
+    costId: number,
+    id: number,
+    data: UpdateCommentRequest,
+    userId: number
+  ): Promise<CommentResponse> {
+    try {
+      await this.requireOwnComment(organizationId, costId, id, userId);
+      if (data.mentions) {
+        await this.requireMembers(organizationId, data.mentions);
+      }
+
+      const comment = await prisma.costComment.update({
+        where: { id },
+        data: {
+          body: data.body,
+          editedAt: new Date(),
+          ...(data.mentions && {
+            mentions: {
+              deleteMany: {},
+              create: data.mentions.map(mentionedId => ({ userId: mentionedId }))
+            }
+          })
+        },
+        include: commentInclude
+      });
+
+      logger.info(`User ${userId} edited comment ${id} on expense ${costId}`);
+      return this.toResponse(comment);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to update comment ${id}:`, error);
+      throw new DatabaseError('Failed to update comment');
+    }
+  }
+
+  // Delete one of the user's own comments
+  static async deleteComment(organizationId: number, costId: number, id: number, userId: number): Promise<void> {
+    try {
+      await this.requireOwnComment(organizationId, costId, id, userId);
+      await prisma.costComment.delete({ where: { id } });
+
+      logger.info(`User ${userId} deleted comment ${id} on expense ${costId}`);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to delete comment ${id}:`, error);
+      throw new DatabaseError('Failed to delete comment');
+    }
+  }
+
+  // Mark an expense's thread as read by the user up to now
+  static async markRead(organizationId: number, costId: number, userId: number): Promise<void> {
+    try {
+      await this.requireCost(organizationId, costId);
+
+      const readAt = new Date();
+      await prisma.costCommentRead.upsert({
+        where: { costId_userId: { costId, userId } },
+        create: { costId, userId, readAt },
+        update: { readAt }
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to mark comments of expense ${costId} as read:`, error);
+      throw new DatabaseError('Failed to mark comments as read');
+    }
+  }
+
+  // Expenses with comments by others that the user hasn't read. A comment edited
+  // since the thread was read is unread again.
+  static async getUnread(organizationId: number, userId: number): Promise<UnreadCommentsResponse[]> {
+    try {
+      const rows = await prisma.$queryRaw<Array<{ cost_id: number; unread_count: bigint; mentioned: boolean }>>`
+        SELECT cc.cost_id,
+               COUNT(*) AS unread_count,
+               BOOL_OR(m.user_id IS NOT NULL) AS mentioned
+        FROM cost_comments cc
+        JOIN costs c ON c.id = cc.cost_id AND c.deleted_at IS NULL
+        LEFT JOIN cost_comment_reads r ON r.cost_id = cc.cost_id AND r.user_id = ${userId}
+        LEFT JOIN cost_comment_mentions m ON m.comment_id = cc.id AND m.user_id = ${userId}
+        WHERE cc.organization_id = ${organizationId}
+          AND cc.author_id IS DISTINCT FROM ${userId}
+          AND (r.read_at IS NULL OR COALESCE(cc.edited_at, cc.created_at) > r.read_at)
+        GROUP BY cc.cost_id
+        ORDER BY cc.cost_id
+      `;
+
+      return rows.map(row => ({
+        costId: row.cost_id,
+        unreadCount: Number(row.unread_count),
+        mentioned: row.mentioned
+      }));
+    } catch (error) {
+      logger.error(`Failed to retrieve unread comments for user ${userId}:`, error);
+      throw new DatabaseError('Failed to retrieve unread comments');
+    }
+  }
+
+  // Active members of the organization, who can be @mentioned, by name
+  static async getMentionableUsers(organizationId: number): Promise<CommentUser[]> {
+    try {
+      return await prisma.user.findMany({
+        where: { isActive: true, memberships: { some: { organizationId } } },
+        select: { id: true, name: true },
+        orderBy: [{ name: 'asc' }, { id: 'asc' }]
+      });
+    } catch (error) {
+      logger.error(`Failed to retrieve members of organization ${organizationId}:`, error);
+      throw new DatabaseError('Failed to retrieve organization members');
+    }
+  }
+}
\ No newline at end of file
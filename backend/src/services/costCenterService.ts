@@ -0,0 +1,168 @@
+import { CostCenter, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import {
+  CostCenterQuery,
+  CostCenterResponse,
+  CreateCostCenterRequest,
+  UpdateCostCenterRequest
+} from '../types/costCenter';
+import {
+  ApiError,
+  DatabaseError,
+  DuplicateEntryError,
+  NotFoundError,
+  ValidationError
+} from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export class CostCenterService {
+  // Convert Prisma CostCenter model to API response format
+  static toResponse(costCenter: CostCenter): CostCenterResponse {
+    return {
+      id: costCenter.id,
+      name: costCenter.name,
+      archived: costCenter.archivedAt !== null,
+      archivedAt: costCenter.archivedAt ? costCenter.archivedAt.toISOString() : null,
+      createdAt: costCenter.createdAt.toISOString(),
+      updatedAt: costCenter.updatedAt.toISOString()
+    };
+  }
+
+  // Create a cost center
+  static async createCostCenter(organizationId: number, data: CreateCostCenterRequest): Promise<CostCenterResponse> {
+    try {
+      const costCenter = await prisma.costCenter.create({
+        data: { organizationId, name: data.name }
+      });
+
+      logger.info(`Created cost center: ${costCenter.id} - ${costCenter.name}`);
+      return this.toResponse(costCenter);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        // Handle unique constraint violation (duplicate entry)
+        if (error.code === 'P2002') {
+          throw new DuplicateEntryError(`A cost center named "${data.name}" already exists`);
+        }
+      }
+
+      logger.error('Failed to create cost center:', error);
+      throw new DatabaseError('Failed to create cost center');
+    }
+  }
+
+  // Get an organization's cost centers by name
+  static async getCostCenters(organizationId: number, query: CostCenterQuery = {}): Promise<CostCenterResponse[]> {
+    try {
+      const costCenters = await prisma.costCenter.findMany({
+        where: {
+          organizationId,
+          ...(!query.includeArchived && { archivedAt: null })
+        },
+        orderBy: { name: 'asc' }
+      });
+
+      return costCenters.map(costCenter => this.toResponse(costCenter));
+    } catch (error) {
+      logger.error('Failed to retrieve cost centers:', error);
+      throw new DatabaseError('Failed to retrieve cost centers');
+    }
+  }
+
+  // Get a single cost center by ID; cost centers of other organizations are reported as not found
+  static async getCostCenterById(organizationId: number, id: number): Promise<CostCenterResponse> {
+    try {
+      const costCenter = await prisma.costCenter.findFirst({
+        where: { id, organizationId }
+      });
+
+      if (!costCenter) {
+        throw new NotFoundError(`Cost center with ID ${id} not found`);
+      }
+
+      return this.toResponse(costCenter);
+    } catch (error) {
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
+
+      logger.error(`Failed to retrieve cost center ${id}:`, error);
+      throw new DatabaseError('Failed to retrieve cost center');
+    }
+  }
+
+  // Rename, archive or restore a cost center
+  static async updateCostCenter(
+    organizationId: number,
+    id: number,
+    data: UpdateCostCenterRequest
+  ): Promise<CostCenterResponse> {
+    try {
+      const costCenter = await prisma.$transaction(async (tx) => {
+        const existing = await tx.costCenter.findFirst({
+          where: { id, organizationId }
+        });
+
+        if (!existing) {
+          throw new NotFoundError(`Cost center with ID ${id} not found`);
+        }
+
+        let archivedAt = existing.archivedAt;
+        if (data.archived !== undefined) {
+          archivedAt = data.archived ? existing.archivedAt ?? new Date() : null;
+        }
+
+        return tx.costCenter.update({
+          where: { id },
+          data: {
+            ...(data.name !== undefined && { name: data.name }),
+            archivedAt
+          }
+        });
+      });
+
+      logger.info(`Updated cost center: ${costCenter.id} - ${costCenter.name}`);
+      return this.toResponse(costCenter);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        // Handle unique constraint violation (duplicate entry)
+        if (error.code === 'P2002') {
+          throw new DuplicateEntryError(`A cost center named "${data.name}" already exists`);
+        }
+      }
+
+      logger.error(`Failed to update cost center ${id}:`, error);
+      throw new DatabaseError('Failed to update cost center');
+    }
+  }
+
+  // Archive a cost center. Cost centers are never deleted so existing costs keep theirs.
+  static async archiveCostCenter(organizationId: number, id: number): Promise<CostCenterResponse> {
+    return this.updateCostCenter(organizationId, id, { archived: true });
+  }
+
+  // Load a cost center for a new cost. It must belong to the organization and
+  // must not be archived.
+  static async requireActiveCostCenter(
+    organizationId: number,
+    id: number,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<CostCenter> {
+    const costCenter = await client.costCenter.findFirst({
+      where: { id, organizationId }
+    });
+
+    if (!costCenter) {
+      throw new ValidationError(`Cost center with ID ${id} does not exist`, 'costCenterId');
+    }
+
+    if (costCenter.archivedAt) {
+      throw new ValidationError(`Cost center "${costCenter.name}" is archived`, 'costCenterId');
+    }
+
+    return costCenter;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,206 @@
+import { ExchangeRate } from '@prisma/client';
+import { prisma } from '../config/database';
+import {
+  CurrencyConverter,
+  ExchangeRateInput,
+  ExchangeRateQuery,
+  ExchangeRateResponse,
+  RatePeriod
+} from '../types/exchangeRate';
+import { exchangeRateSchema } from '../validation/exchangeRate';
+import { DatabaseError, NotFoundError, ValidationError } from '../utils/errors';
+import { parseCsv } from '../utils/csv';
+import { logger } from '../utils/logger';
+
+// Columns of an exchange rate CSV file, in any order
+const CSV_COLUMNS = {
+  baseCurrency: 'base_currency',
+  quoteCurrency: 'quote_currency',
+  rate: 'rate',
+  effectiveDate: 'effective_date'
+} as const;
+
+export class ExchangeRateService {
+  // Convert Prisma ExchangeRate model to API response format
+  static toResponse(exchangeRate: ExchangeRate): ExchangeRateResponse {
+    return {
+      id: exchangeRate.id,
+      baseCurrency: exchangeRate.baseCurrency,
+      quoteCurrency: exchangeRate.quoteCurrency,
+      rate: Number(exchangeRate.rate),
+      effectiveDate: exchangeRate.effectiveDate.toISOString().slice(0, 10),
+      createdAt: exchangeRate.createdAt.toISOString(),
+      updatedAt: exchangeRate.updatedAt.toISOString()
+    };
+  }
+
+  // Load exchange rates; a rate for the same currencies and date replaces the old one
+  static async importRates(rates: ExchangeRateInput[]): Promise<number> {
+    try {
+      await prisma.$transaction(
+        rates.map(({ baseCurrency, quoteCurrency, rate, effectiveDate }) =>
+          prisma.exchangeRate.upsert({
+            where: { baseCurrency_quoteCurrency_effectiveDate: { baseCurrency, quoteCurrency, effectiveDate } },
+            update: { rate },
+            create: { baseCurrency, quoteCurrency, rate, effectiveDate }
+          })
+        )
+      );
+
+      logger.info(`Loaded ${rates.length} exchange rates`);
+      return rates.length;
+    } catch (error) {
+      logger.error('Failed to load exchange rates:', error);
+      throw new DatabaseError('Failed to load exchange rates');
+    }
+  }
+
+  // Parse a CSV file with a header row naming the base_currency, quote_currency,
+  // rate and effective_date columns
+  static parseCsv(csv: string): ExchangeRateInput[] {
+    const [headerRow = [], ...rows] = parseCsv(csv);
+    const header = headerRow.map(column => column.trim().toLowerCase());
+
+    const indexes = Object.fromEntries(
+      Object.entries(CSV_COLUMNS).map(([field, column]) => [field, header.indexOf(column)])
+    ) as Record<keyof typeof CSV_COLUMNS, number>;
+
+    const missing = Object.entries(CSV_COLUMNS)
+      .filter(([field]) => indexes[field as keyof typeof CSV_COLUMNS] === -1)
+      .map(([, column]) => column);
+    if (missing.length > 0) {
+      throw new ValidationError(`CSV header is missing: ${missing.join(', ')}`);
+    }
+
+    const rates: ExchangeRateInput[] = [];
+    rows.forEach((row, index) => {
+      const cells = row.map(cell => cell.trim());
+      if (cells.every(cell => cell === '')) return;
+
+      const { error, value } = exchangeRateSchema.validate({
+        baseCurrency: cells[indexes.baseCurrency],
+        quoteCurrency: cells[indexes.quoteCurrency],
+        rate: cells[indexes.rate],
+        effectiveDate: cells[indexes.effectiveDate]
+      });
+
+      if (error) {
+        // Line numbers count the header as line 1
+        throw new ValidationError(`Line ${index + 2}: ${error.details[0]?.message || 'Invalid exchange rate'}`);
+      }
+
+      rates.push(value);
+    });
+
+    return rates;
+  }
+
+  // List exchange rates, newest first
+  static async getRates(query: ExchangeRateQuery = {}): Promise<ExchangeRateResponse[]> {
+    try {
+      const rates = await prisma.exchangeRate.findMany({
+        where: {
+          ...(query.baseCurrency && { baseCurrency: query.baseCurrency }),
+          ...(query.quoteCurrency && { quoteCurrency: query.quoteCurrency })
+        },
+        orderBy: [{ effectiveDate: 'desc' }, { baseCurrency: 'asc' }, { quoteCurrency: 'asc' }]
+      });
+
+      return rates.map(rate => this.toResponse(rate));
+    } catch (error) {
+      logger.error('Failed to retrieve exchange rates:', error);
+      throw new DatabaseError('Failed to retrieve exchange rates');
+    }
+  }
+
+  // Build a converter into an organization's reporting currency for amounts in the
+  // given currencies. Rates quoted the other way round are inverted.
+  static async createConverter(organizationId: number, currencies: Iterable<string>): Promise<CurrencyConverter> {
+    const { reportingCurrency, ratesByCurrency } = await this.ratesInto(organizationId, currencies);
+
+    return {
+      reportingCurrency,
+      convert: (amount, currency, month, year) => {
+        if (currency === reportingCurrency) {
+          return amount;
+        }
+
+        // Dates are stored without a time, which Prisma reads as UTC midnight
+        const monthEnd = new Date(Date.UTC(year, month, 0));
+        const rate = ratesByCurrency.get(currency)?.find(item => item.effectiveDate <= monthEnd);
+        return rate ? Math.round(amount * rate.rate * 100) / 100 : null;
+      }
+    };
+  }
+
+  // The months each rate into an organization's reporting currency converts, as the
+  // converter applies them: from the month of its effective date until the month
+  // before the next rate's. Of several rates in one month, the newest wins.
+  static async getRatePeriods(organizationId: number, currencies: Iterable<string>): Promise<{
+    reportingCurrency: string;
+    periods: RatePeriod[];
+  }> {
+    const { reportingCurrency, ratesByCurrency } = await this.ratesInto(organizationId, currencies);
+    const periods: RatePeriod[] = [];
+
+    for (const [currency, rates] of ratesByCurrency) {
+      // Months are counted as year * 12 + month - 1; the newest rate has no end
+      let nextStart: number | null = null;
+      for (const { effectiveDate, rate } of rates) {
+        const start = effectiveDate.getUTCFullYear() * 12 + effectiveDate.getUTCMonth();
+        if (nextStart !== null && start >= nextStart) {
+          continue;
+        }
+
+        periods.push({
+          currency,
+          rate,
+          start: { year: Math.floor(start / 12), month: start % 12 + 1 },
+          end: nextStart === null ? null : { year: Math.floor((nextStart - 1) / 12), month: (nextStart - 1) % 12 + 1 }
+        });
+        nextStart = start;
+      }
+    }
+
+    return { reportingCurrency, periods };
+  }
+
+  // Rates into an organization's reporting currency per foreign currency, newest first
+  private static async ratesInto(organizationId: number, currencies: Iterable<string>): Promise<{
+    reportingCurrency: string;
+    ratesByCurrency: Map<string, { effectiveDate: Date; rate: number }[]>;
+  }> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { reportingCurrency: true }
+    });
+
+    if (!organization) {
+      throw new NotFoundError(`Organization with ID ${organizationId} not found`);
+    }
+
+    const { reportingCurrency } = organization;
+    const foreign = [...new Set(currencies)].filter(currency => currency !== reportingCurrency);
+
+    const rates = foreign.length === 0 ? [] : await prisma.exchangeRate.findMany({
+      where: {
+        OR: [
+          { baseCurrency: { in: foreign }, quoteCurrency: reportingCurrency },
+          { baseCurrency: reportingCurrency, quoteCurrency: { in: foreign } }
+        ]
+      },
+      orderBy: { effectiveDate: 'desc' }
+    });
+
+    const ratesByCurrency = new Map<string, { effectiveDate: Date; rate: number }[]>();
+    for (const rate of rates) {
+      const direct = rate.quoteCurrency === reportingCurrency;
+      const currency = direct ? rate.baseCurrency : rate.quoteCurrency;
+      const list = ratesByCurrency.get(currency) ?? [];
+      list.push({ effectiveDate: rate.effectiveDate, rate: direct ? Number(rate.rate) : 1 / Number(rate.rate) });
+      ratesByCurrency.set(currency, list);
+    }
+
+    return { reportingCurrency, ratesByCurrency };
+  }
+}
\ No newline at end of file
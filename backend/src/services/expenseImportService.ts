@@ -0,0 +1,393 @@
+import { CostAuditAction, CostStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { createExpenseSchema } from '../validation/expense';
+import { CreateExpenseRequest } from '../types/expense';
+import { AuditContext } from '../types/audit';
+import {
+  ImportConflictMode,
+  ImportField,
+  ImportFileFormat,
+  ImportOptions,
+  ImportPreviewResponse,
+  ImportResultResponse,
+  ImportRowPreview
+} from '../types/expenseImport';
+import { parseCsv } from '../utils/csv';
+import { readXlsx, XlsxTooLargeError } from '../utils/xlsx';
+import { ApiError, DatabaseError, ValidationError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { ApprovalService } from './approvalService';
+import { AuditService } from './auditService';
+import { CategoryService } from './categoryService';
+import { CostCenterService } from './costCenterService';
+import { ExchangeRateService } from './exchangeRateService';
+import { ExpenseService } from './expenseService';
+import { PeriodLockService } from './periodLockService';
+
+const IMPORT_FIELDS: ImportField[] = [
+  'category',
+  'costCenter',
+  'amount',
+  'currency',
+  'month',
+  'year',
+  'description',
+  'vendor',
+  'invoiceNumber',
+  'invoiceDate'
+];
+
+const REQUIRED_FIELDS: ImportField[] = ['category', 'amount', 'month', 'year'];
+
+// Largest number of rows a single import may contain
+const MAX_IMPORT_ROWS = 10000;
+
+// Imports are committed in one transaction, which may take a while for large files
+const IMPORT_TRANSACTION_TIMEOUT_MS = 120000;
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+// Headers are matched ignoring case, spaces and punctuation, so "Invoice Number"
+// and "invoice_number" both find invoiceNumber
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Expenses with the same key conflict with each other
+const conflictKey = (expense: { categoryId: number; month: number; year: number; invoiceNumber?: string | null }): string =>
+  `${expense.categoryId}-${expense.month}-${expense.year}-${expense.invoiceNumber || ''}`;
+
+export class ExpenseImportService {
+  // Read an uploaded file into rows of cells
+  static readFile(file: Buffer, format: ImportFileFormat): string[][] {
+    if (format === 'csv') {
+      return parseCsv(file.toString('utf8'));
+    }
+
+    try {
+      return readXlsx(file);
+    } catch (error) {
+      if (error instanceof XlsxTooLargeError) {
+        throw new ValidationError('File is too large to import once unpacked');
+      }
+
+      logger.warn('Failed to read XLSX upload:', error);
+      throw new ValidationError('File could not be read as an XLSX workbook');
+    }
+  }
+
+  // Check every row of an upload without saving anything
+  static async preview(
+    organizationId: number,
+    file: Buffer,
+    format: ImportFileFormat,
+    options: ImportOptions
+  ): Promise<ImportPreviewResponse> {
+    const [headerRow = [], ...dataRows] = this.readFile(file, format);
+    const headers = headerRow.map(header => header.trim());
+
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`An import can contain at most ${MAX_IMPORT_ROWS} rows`);
+    }
+
+    const mapping = this.resolveMapping(headers, options.columns ?? {});
+    const missing = REQUIRED_FIELDS.filter(field => mapping[field] === null);
+    if (missing.length > 0) {
+      throw new ValidationError(`No column found for: ${missing.join(', ')}`);
+    }
+
+    try {
+      const [categories, costCenters, locks] = await Promise.all([
+        CategoryService.getCategories(organizationId, { includeArchived: true }),
+        CostCenterService.getCostCenters(organizationId, { includeArchived: true }),
+        PeriodLockService.getLocks(organizationId, {})
+      ]);
+      const categoriesByName = new Map(categories.map(category => [category.name.toLowerCase(), category]));
+      const costCentersByName = new Map(costCenters.map(costCenter => [costCenter.name.toLowerCase(), costCenter]));
+      const closedPeriods = new Set(locks.map(lock => `${lock.month}/${lock.year}`));
+
+      const columnIndex = Object.fromEntries(
+        IMPORT_FIELDS.map(field => [field, mapping[field] === null ? -1 : headers.indexOf(mapping[field]!)])
+      ) as Record<ImportField, number>;
+
+      const rows: ImportRowPreview[] = [];
+      dataRows.forEach((cells, index) => {
+        if (cells.every(cell => cell.trim() === '')) {
+          return;
+        }
+
+        const cell = (field: ImportField): string | undefined => {
+          const value = columnIndex[field] === -1 ? undefined : cells[columnIndex[field]]?.trim();
+          return value === '' ? undefined : value;
+        };
+
+        const errors: string[] = [];
+
+        const categoryName = cell('category');
+        const category = categoryName === undefined ? undefined : categoriesByName.get(categoryName.toLowerCase());
+        if (categoryName !== undefined && !category) {
+          errors.push(`Unknown category "${categoryName}"`);
+        } else if (category?.archived) {
+          errors.push(`Category "${category.name}" is archived`);
+        }
+
+        const costCenterName = cell('costCenter');
+        const costCenter = costCenterName === undefined ? undefined : costCentersByName.get(costCenterName.toLowerCase());
+        if (costCenterName !== undefined && !costCenter) {
+          errors.push(`Unknown cost center "${costCenterName}"`);
+        } else if (costCenter?.archived) {
+          errors.push(`Cost center "${costCenter.name}" is archived`);
+        }
+
+        const candidate = Object.fromEntries(Object.entries({
+          categoryId: category?.id,
+          costCenterId: costCenter?.id,
+          amount: this.parseAmount(cell('amount')),
+          currency: cell('currency'),
+          month: this.parseMonth(cell('month')),
+          year: cell('year'),
+          description: cell('description'),
+          vendor: cell('vendor'),
+          invoiceNumber: cell('invoiceNumber'),
+          invoiceDate: this.parseDate(cell('invoiceDate'))
+        }).filter(([, value]) => value !== undefined));
+
+        // Every row goes through the same validation as a single new expense; a
+        // missing category is only reported when no name was given at all
+        const { error, value } = createExpenseSchema.validate(candidate, { abortEarly: false });
+        for (const detail of error?.details ?? []) {
+          if (detail.path[0] !== 'categoryId' || categoryName === undefined) {
+            errors.push(detail.message);
+          }
+        }
+
+        if (!error && closedPeriods.has(`${value.month}/${value.year}`)) {
+          errors.push(`${value.month}/${value.year} is closed`);
+        }
+
+        rows.push({
+          row: index + 2,
+          expense: errors.length === 0 ? value as CreateExpenseRequest : null,
+          errors,
+          conflictingExpenseIds: [],
+          duplicateOfRow: null
+        });
+      });
+
+      await this.markConflicts(organizationId, rows);
+
+      return {
+        headers,
+        mapping,
+        rows,
+        summary: {
+          total: rows.length,
+          valid: rows.filter(row => row.expense !== null).length,
+          invalid: rows.filter(row => row.expense === null).length,
+          conflicts: rows.filter(row => row.conflictingExpenseIds.length > 0).length,
+          duplicates: rows.filter(row => row.duplicateOfRow !== null).length
+        }
+      };
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error('Failed to preview expense import:', error);
+      throw new DatabaseError('Failed to preview expense import');
+    }
+  }
+
+  // Save every row of an upload in one transaction. Nothing is saved unless every
+  // row is valid.
+  static async import(
+    organizationId: number,
+    file: Buffer,
+    format: ImportFileFormat,
+    options: ImportOptions,
+    context: AuditContext
+  ): Promise<ImportResultResponse> {
+    const preview = await this.preview(organizationId, file, format, options);
+
+    const invalid = preview.rows.find(row => row.expense === null);
+    if (invalid) {
+      throw new ValidationError(
+        `${preview.summary.invalid} of ${preview.summary.total} rows have errors, starting with row ${invalid.row}: ${invalid.errors[0]}`
+      );
+    }
+
+    if (preview.rows.length === 0) {
+      throw new ValidationError('File contains no expenses');
+    }
+
+    try {
+      // Rows without a currency are in the organization's reporting currency
+      const { reportingCurrency } = await ExchangeRateService.createConverter(organizationId, []);
+      const policy = await ApprovalService.createPolicy(
+        organizationId,
+        preview.rows.map(row => row.expense!.currency ?? reportingCurrency)
+      );
+      const result: ImportResultResponse = { created: 0, updated: 0, skipped: 0 };
+
+      await prisma.$transaction(async (tx) => {
+        // Checked again in case a month was closed since the preview
+        await PeriodLockService.requireOpenPeriods(organizationId, preview.rows.map(row => row.expense!), tx);
+
+        for (const row of preview.rows) {
+          const data = row.expense!;
+          const currency = data.currency ?? reportingCurrency;
+          const status = policy.statusFor({ ...data, currency });
+          const expenseData = {
+            costCenterId: data.costCenterId ?? null,
+            amount: data.amount,
+            currency,
+            ...ExpenseService.lineItemData(data)
+          };
+
+          // Conflicts are looked up again inside the transaction, so earlier rows
+          // of the same file count too
+          const existing = options.onConflict === ImportConflictMode.ADD ? [] : await tx.cost.findMany({
+            where: {
+              organizationId,
+              categoryId: data.categoryId,
+              month: data.month,
+              year: data.year,
+              invoiceNumber: data.invoiceNumber || null,
+              deletedAt: null
+            },
+            orderBy: { id: 'asc' }
+          });
+
+          const [replaced, ...removed] = existing;
+
+          if (!replaced) {
+            const created = await tx.cost.create({
+              data: { organizationId, categoryId: data.categoryId, month: data.month, year: data.year, status, ...expenseData }
+            });
+            await AuditService.recordCostChange(tx, CostAuditAction.CREATE, created, null, context);
+            await ApprovalService.recordStatusChange(tx, created, null, context);
+            result.created++;
+          } else if (options.onConflict === ImportConflictMode.SKIP) {
+            result.skipped++;
+          } else {
+            // The row replaces every matching expense: the first is updated, the rest
+            // trashed. Like any change, it is reviewed again unless a draft.
+            const updated = await tx.cost.update({
+              where: { id: replaced.id },
+              data: {
+                ...expenseData,
+                status: replaced.status === CostStatus.DRAFT ? CostStatus.DRAFT : status,
+                updatedAt: new Date()
+              }
+            });
+            await AuditService.recordCostChange(tx, CostAuditAction.UPDATE, updated, replaced.amount, context);
+            if (updated.status !== replaced.status) {
+              await ApprovalService.recordStatusChange(tx, updated, replaced.status, context);
+            }
+
+            for (const duplicate of removed) {
+              const deleted = await tx.cost.update({
+                where: { id: duplicate.id },
+                data: { deletedAt: new Date() }
+              });
+              await AuditService.recordCostChange(tx, CostAuditAction.DELETE, deleted, duplicate.amount, context);
+            }
+            result.updated++;
+          }
+        }
+      }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+
+      logger.info(
+        `Imported expenses for organization ${organizationId}: ${result.created} created, ${result.updated} updated, ${result.skipped} skipped`
+      );
+      return result;
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error('Failed to import expenses:', error);
+      throw new DatabaseError('Failed to import expenses');
+    }
+  }
+
+  // Header of the column used for each field: the mapped one, or else one named like the field
+  private static resolveMapping(
+    headers: string[],
+    columns: NonNullable<ImportOptions['columns']>
+  ): Record<ImportField, string | null> {
+    return Object.fromEntries(IMPORT_FIELDS.map(field => {
+      const mapped = columns[field];
+
+      if (mapped !== undefined) {
+        if (!headers.includes(mapped)) {
+          throw new ValidationError(`Column "${mapped}" mapped to ${field} is not in the file`);
+        }
+        return [field, mapped];
+      }
+
+      return [field, headers.find(header => normalizeHeader(header) === field.toLowerCase()) ?? null];
+    })) as Record<ImportField, string | null>;
+  }
+
+  // Flag rows matching an existing expense or an earlier row of the file
+  private static async markConflicts(organizationId: number, rows: ImportRowPreview[]): Promise<void> {
+    const expenses = rows.flatMap(row => row.expense ? [row.expense] : []);
+    if (expenses.length === 0) {
+      return;
+    }
+
+    const existing = await prisma.cost.findMany({
+      where: {
+        organizationId,
+        categoryId: { in: [...new Set(expenses.map(expense => expense.categoryId))] },
+        year: { in: [...new Set(expenses.map(expense => expense.year))] },
+        deletedAt: null
+      },
+      select: { id: true, categoryId: true, month: true, year: true, invoiceNumber: true }
+    });
+
+    const existingByKey = new Map<string, number[]>();
+    for (const expense of existing) {
+      const key = conflictKey(expense);
+      existingByKey.set(key, [...(existingByKey.get(key) ?? []), expense.id]);
+    }
+
+    const firstRowByKey = new Map<string, number>();
+    for (const row of rows) {
+      if (!row.expense) continue;
+
+      const key = conflictKey(row.expense);
+      row.conflictingExpenseIds = existingByKey.get(key) ?? [];
+      row.duplicateOfRow = firstRowByKey.get(key) ?? null;
+      if (!firstRowByKey.has(key)) {
+        firstRowByKey.set(key, row.row);
+      }
+    }
+  }
+
+  // Amounts may be formatted, e.g. "$1,500.00"
+  private static parseAmount(value: string | undefined): string | undefined {
+    return value?.replace(/[\s,$€£¥]/g, '');
+  }
+
+  // Months may be numbers or English names such as "March" or "Mar"
+  private static parseMonth(value: string | undefined): string | number | undefined {
+    if (value === undefined || /^\d+$/.test(value)) {
+      return value;
+    }
+
+    const index = MONTH_NAMES.findIndex(name => value.length >= 3 && name.startsWith(value.toLowerCase()));
+    return index === -1 ? value : index + 1;
+  }
+
+  // Spreadsheets store dates as serial day numbers counted from 30 December 1899
+  private static parseDate(value: string | undefined): string | undefined {
+    if (value === undefined || !/^\d+(\.\d+)?$/.test(value)) {
+      return value;
+    }
+
+    return new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(value)) * 86400000).toISOString().slice(0, 10);
+  }
+}
\ No newline at end of file
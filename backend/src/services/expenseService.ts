@@ -3,52 +3,107 @@ import {
   CreateExpenseRequest, 
   UpdateExpenseRequest, 
   ExpenseQuery, 
+  TrendsQuery,
   ExpenseData,
   ExpenseToResponse,
-  ExpenseResponse 
+  ExpenseResponse,
+  CategoryAmount,
+  CostWithCategory,
+  LineItemDetails,
+  ExpenseCursor,
+  SortOrder,
+  BatchRequest,
+  BatchResponse,
+  BatchOperationResult,
+  TrashedExpenseResponse,
+  TrashQuery
 } from '../types/expense';
+import { AuditContext } from '../types/audit';
+import { CurrencyConverter } from '../types/exchangeRate';
 import { 
-  DuplicateEntryError, 
+  ApiError,
   NotFoundError, 
-  DatabaseError 
+  DatabaseError,
+  ValidationError
 } from '../utils/errors';
 import { logger } from '../utils/logger';
-import { Prisma, Cost } from '@prisma/client';
+import { decodeCursor, encodeCursor } from '../utils/pagination';
+import { AnomalyService } from './anomalyService';
+import { ApprovalService } from './approvalService';
+import { AttachmentService } from './attachmentService';
+import { AuditService } from './auditService';
+import { BudgetAlertService } from './budgetAlertService';
+import { CategoryService } from './categoryService';
+import { CostCenterService } from './costCenterService';
+import { ExchangeRateService } from './exchangeRateService';
+import { PeriodLockService } from './periodLockService';
+import { TagService } from './tagService';
+import { Prisma, Cost, CostAuditAction, CostStatus } from '@prisma/client';
+
+// Relations needed to build an expense response
+const expenseInclude = {
+  category: { include: { parent: true } },
+  costCenter: true,
+  tags: { include: { tag: true }, orderBy: { tag: { name: 'asc' } } },
+  _count: { select: { attachments: true, comments: true } }
+} satisfies Prisma.CostInclude;
+
+// Batches hold at most 100 operations, each a few queries
+const BATCH_TRANSACTION_TIMEOUT_MS = 30000;
+
+// Fields of an expense cursor, in keyset order
+const EXPENSE_CURSOR_KEYS = ['year', 'month', 'categoryId', 'id'] as const;
 
 export class ExpenseService {
-  // Convert Prisma Cost model to API response format
-  private static toResponse: ExpenseToResponse = (expense: Cost): ExpenseResponse => ({
+  // Convert Prisma Cost model to API response format, with the amount also given
+  // in the organization's reporting currency
+  private static toResponse: ExpenseToResponse = (expense: CostWithCategory, converter: CurrencyConverter): ExpenseResponse => ({
     id: expense.id,
-    category: expense.category,
+    categoryId: expense.categoryId,
+    category: expense.category.name,
+    parentCategoryId: expense.category.parentId,
+    parentCategory: expense.category.parent?.name ?? null,
+    costCenterId: expense.costCenterId,
+    costCenter: expense.costCenter?.name ?? null,
     amount: Number(expense.amount),
+    currency: expense.currency,
+    convertedAmount: converter.convert(Number(expense.amount), expense.currency, expense.month, expense.year),
+    reportingCurrency: converter.reportingCurrency,
     month: expense.month,
     year: expense.year,
+    description: expense.description,
+    vendor: expense.vendor,
+    invoiceNumber: expense.invoiceNumber,
+    invoiceDate: expense.invoiceDate ? expense.invoiceDate.toISOString().slice(0, 10) : null,
+    notes: expense.notes,
+    tags: expense.tags.map(costTag => costTag.tag.name),
+    status: expense.status,
+    attachmentCount: expense._count.attachments,
+    commentCount: expense._count.comments,
     createdAt: expense.createdAt.toISOString(),
     updatedAt: expense.updatedAt.toISOString()
   });
 
-  // Create a new expense
-  static async createExpense(data: CreateExpenseRequest): Promise<ExpenseResponse> {
+  // Create a new expense line item in an organization
+  static async createExpense(
+    organizationId: number,
+    data: CreateExpenseRequest,
+    context: AuditContext
+  ): Promise<ExpenseResponse> {
     try {
-      const expense = await prisma.cost.create({
-        data: {
-          category: data.category,
-          amount: data.amount,
-          month: data.month,
-          year: data.year
-        }
-      });
+      // Amounts without a currency are in the organization's reporting currency
+      const converter = await ExchangeRateService.createConverter(organizationId, data.currency ? [data.currency] : []);
 
-      logger.info(`Created expense: ${expense.id} - ${expense.category} - $${expense.amount}`);
-      return this.toResponse(expense);
+      const expense = await prisma.$transaction(tx =>
+        this.createInTransaction(tx, organizationId, data, converter.reportingCurrency, context)
+      );
+
+      logger.info(`Created expense: ${expense.id} - ${expense.category.name} - ${expense.amount} ${expense.currency}`);
+      this.checkBudgetAlerts(organizationId, expense);
+      return await this.withAnomalyCheck(organizationId, this.toResponse(expense, converter));
     } catch (error) {
-      if (error instanceof Prisma.PrismaClientKnownRequestError) {
-        // Handle unique constraint violation (duplicate entry)
-        if (error.code === 'P2002') {
-          throw new DuplicateEntryError(
-            `An expense entry already exists for ${data.category} in ${data.month}/${data.year}`
-          );
-        }
+      if (error instanceof ApiError) {
+        throw error;
       }
       
       logger.error('Failed to create expense:', error);
@@ -56,68 +111,140 @@ export class ExpenseService {
     }
   }
 
-  // Get expenses with optional filtering
-  static async getExpenses(query: ExpenseQuery): Promise<{
+  // Get an organization's expenses with optional filtering
+  static async getExpenses(organizationId: number, query: ExpenseQuery): Promise<{
     expenses: ExpenseResponse[];
     total: number;
+    nextCursor: string | null;
   }> {
     try {
-      const where: Prisma.CostWhereInput = {};
-      
-      // Build where clause based on query parameters
-      if (query.year !== undefined) {
-        where.year = query.year;
+      const conditions = await this.expenseConditions(organizationId, query);
+      const limit = query.limit || 50;
+
+      // Get total count for pagination
+      const total = await this.countExpenses(conditions);
+
+      let expenses: CostWithCategory[];
+      let nextCursor: string | null = null;
+
+      if (query.cursor !== undefined) {
+        // Keyset paging: one extra row tells whether another page follows
+        const rows = await this.findExpenses(
+          query.cursor
+            ? Prisma.sql`${conditions} AND ${this.cursorCondition(decodeCursor(query.cursor, EXPENSE_CURSOR_KEYS), query.sortOrder)}`
+            : conditions,
+          this.keysetOrder(query.sortOrder),
+          { limit: limit + 1, offset: 0 }
+        );
+
+        expenses = rows.slice(0, limit);
+        const last = expenses[expenses.length - 1];
+        if (rows.length > limit && last) {
+          nextCursor = encodeCursor({ year: last.year, month: last.month, categoryId: last.categoryId, id: last.id });
+        }
+      } else {
+        expenses = await this.findExpenses(conditions, this.expenseOrder(query), { limit, offset: query.offset || 0 });
       }
+
+      logger.debug(`Retrieved ${expenses.length} expenses (total: ${total})`);
+
+      const converter = await ExchangeRateService.createConverter(organizationId, expenses.map(expense => expense.currency));
       
-      if (query.month !== undefined) {
-        where.month = query.month;
+      return {
+        expenses: await AnomalyService.attachAnomalies(
+          organizationId,
+          expenses.map(expense => this.toResponse(expense, converter))
+        ),
+        total,
+        nextCursor
+      };
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
       }
-      
-      if (query.category !== undefined) {
-        where.category = query.category;
+
+      logger.error('Failed to retrieve expenses:', error);
+      throw new DatabaseError('Failed to retrieve expenses');
+    }
+  }
+
+  // Get every expense matching the filters of getExpenses, without paging; fails
+  // when more than maxCount match
+  static async getAllExpenses(organizationId: number, query: ExpenseQuery, maxCount: number): Promise<ExpenseResponse[]> {
+    try {
+      const conditions = await this.expenseConditions(organizationId, query);
+
+      const total = await this.countExpenses(conditions);
+      if (total > maxCount) {
+        throw new ValidationError(`${total} expenses match; narrow the filters to at most ${maxCount}`);
       }
 
-      // Get total count for pagination
+      const expenses = await this.findExpenses(conditions, this.expenseOrder(query));
+
+      const converter = await ExchangeRateService.createConverter(organizationId, expenses.map(expense => expense.currency));
+
+      return expenses.map(expense => this.toResponse(expense, converter));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error('Failed to retrieve expenses:', error);
+      throw new DatabaseError('Failed to retrieve expenses');
+    }
+  }
+
+  // Get every expense in the date range of a trends query, oldest first; fails
+  // when more than maxCount match
+  static async getPeriodExpenses(organizationId: number, query: TrendsQuery, maxCount: number): Promise<ExpenseResponse[]> {
+    try {
+      const where = this.periodFilter(organizationId, query);
+
       const total = await prisma.cost.count({ where });
+      if (total > maxCount) {
+        throw new ValidationError(`${total} expenses match; narrow the filters to at most ${maxCount}`);
+      }
 
-      // Get expenses with pagination
       const expenses = await prisma.cost.findMany({
         where,
+        include: expenseInclude,
         orderBy: [
-          { year: 'desc' },
-          { month: 'desc' },
-          { category: 'asc' }
-        ],
-        take: query.limit || 50,
-        skip: query.offset || 0
+          { year: 'asc' },
+          { month: 'asc' },
+          { category: { displayOrder: 'asc' } }
+        ]
       });
 
-      logger.debug(`Retrieved ${expenses.length} expenses (total: ${total})`);
-      
-      return {
-        expenses: expenses.map(this.toResponse),
-        total
-      };
+      const converter = await ExchangeRateService.createConverter(organizationId, expenses.map(expense => expense.currency));
+
+      return expenses.map(expense => this.toResponse(expense, converter));
     } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
       logger.error('Failed to retrieve expenses:', error);
       throw new DatabaseError('Failed to retrieve expenses');
     }
   }
 
-  // Get a single expense by ID
-  static async getExpenseById(id: number): Promise<ExpenseResponse> {
+  // Get a single expense by ID; expenses of other organizations are reported as not found
+  static async getExpenseById(organizationId: number, id: number): Promise<ExpenseResponse> {
     try {
-      const expense = await prisma.cost.findUnique({
-        where: { id }
+      const expense = await prisma.cost.findFirst({
+        where: { id, organizationId, deletedAt: null },
+        include: expenseInclude
       });
 
       if (!expense) {
         throw new NotFoundError(`Expense with ID ${id} not found`);
       }
 
-      return this.toResponse(expense);
+      const converter = await ExchangeRateService.createConverter(organizationId, [expense.currency]);
+      const [response] = await AnomalyService.attachAnomalies(organizationId, [this.toResponse(expense, converter)]);
+      return response!;
     } catch (error) {
-      if (error instanceof NotFoundError) {
+      if (error instanceof ApiError) {
         throw error;
       }
       
@@ -127,19 +254,27 @@ export class ExpenseService {
   }
 
   // Update an expense
-  static async updateExpense(id: number, data: UpdateExpenseRequest): Promise<ExpenseResponse> {
+  static async updateExpense(
+    organizationId: number,
+    id: number,
+    data: UpdateExpenseRequest,
+    context: AuditContext
+  ): Promise<ExpenseResponse> {
     try {
-      const expense = await prisma.cost.update({
-        where: { id },
-        data: {
-          amount: data.amount,
-          updatedAt: new Date()
-        }
-      });
+      const expense = await prisma.$transaction(tx =>
+        this.updateInTransaction(tx, organizationId, id, data, context)
+      );
+
+      logger.info(`Updated expense: ${expense.id} - new amount: ${expense.amount} ${expense.currency}`);
+      this.checkBudgetAlerts(organizationId, expense);
 
-      logger.info(`Updated expense: ${expense.id} - new amount: $${expense.amount}`);
-      return this.toResponse(expense);
+      const converter = await ExchangeRateService.createConverter(organizationId, [expense.currency]);
+      return await this.withAnomalyCheck(organizationId, this.toResponse(expense, converter));
     } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
         // Handle record not found
         if (error.code === 'P2025') {
@@ -152,15 +287,22 @@ export class ExpenseService {
     }
   }
 
-  // Delete an expense
-  static async deleteExpense(id: number): Promise<void> {
+  // Move an expense to the trash
+  static async deleteExpense(organizationId: number, id: number, context: AuditContext): Promise<void> {
     try {
-      await prisma.cost.delete({
-        where: { id }
-      });
+      const expense = await prisma.$transaction(tx =>
+        this.deleteInTransaction(tx, organizationId, id, context)
+      );
+
+      logger.info(`Moved expense to the trash: ${id}`);
 
-      logger.info(`Deleted expense: ${id}`);
+      // Removing a line item can bring the month back within range
+      AnomalyService.checkAfterExpenseChange(organizationId, expense.categoryId, expense.month, expense.year);
     } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
         // Handle record not found
         if (error.code === 'P2025') {
@@ -173,14 +315,219 @@ export class ExpenseService {
     }
   }
 
-  // Check if an expense exists for a specific category, month, and year
-  static async expenseExists(category: string, month: number, year: number): Promise<boolean> {
+  // Get an organization's trashed expenses, most recently deleted first
+  static async getTrash(organizationId: number, query: TrashQuery): Promise<{
+    expenses: TrashedExpenseResponse[];
+    total: number;
+  }> {
+    try {
+      const where: Prisma.CostWhereInput = { organizationId, deletedAt: { not: null } };
+
+      const total = await prisma.cost.count({ where });
+      const expenses = await prisma.cost.findMany({
+        where,
+        include: expenseInclude,
+        orderBy: [{ deletedAt: 'desc' }, { id: 'desc' }],
+        take: query.limit || 50,
+        skip: query.offset || 0
+      });
+
+      const converter = await ExchangeRateService.createConverter(organizationId, expenses.map(expense => expense.currency));
+
+      return {
+        expenses: expenses.map(expense => ({
+          ...this.toResponse(expense, converter),
+          deletedAt: expense.deletedAt!.toISOString()
+        })),
+        total
+      };
+    } catch (error) {
+      logger.error('Failed to retrieve trashed expenses:', error);
+      throw new DatabaseError('Failed to retrieve trashed expenses');
+    }
+  }
+
+  // Move an expense back out of the trash
+  static async restoreExpense(organizationId: number, id: number, context: AuditContext): Promise<ExpenseResponse> {
+    try {
+      const expense = await prisma.$transaction(async (tx) => {
+        const trashed = await tx.cost.findFirst({
+          where: { id, organizationId, deletedAt: { not: null } }
+        });
+
+        if (!trashed) {
+          throw new NotFoundError(`Trashed expense with ID ${id} not found`);
+        }
+
+        await PeriodLockService.requireOpenPeriod(organizationId, trashed, tx);
+
+        const restored = await tx.cost.update({
+          where: { id },
+          data: { deletedAt: null },
+          include: expenseInclude
+        });
+
+        await AuditService.recordCostChange(tx, CostAuditAction.RESTORE, restored, null, context);
+        return restored;
+      });
+
+      logger.info(`Restored expense from the trash: ${id}`);
+      this.checkBudgetAlerts(organizationId, expense);
+
+      const converter = await ExchangeRateService.createConverter(organizationId, [expense.currency]);
+      return await this.withAnomalyCheck(organizationId, this.toResponse(expense, converter));
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to restore expense ${id}:`, error);
+      throw new DatabaseError('Failed to restore expense');
+    }
+  }
+
+  // Permanently delete an organization's expenses that have been in the trash
+  // for more than retentionDays, with their attachments. Their audit and status
+  // history is kept.
+  static async purgeTrash(organizationId: number, retentionDays: number): Promise<number> {
+    try {
+      const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+      const where = { organizationId, deletedAt: { lt: cutoff } };
+      const storageKeys = await AttachmentService.getStorageKeys(where);
+      const result = await prisma.cost.deleteMany({ where });
+
+      await AttachmentService.deleteStoredFiles(storageKeys);
+      return result.count;
+    } catch (error) {
+      logger.error(`Failed to purge the trash of organization ${organizationId}:`, error);
+      throw new DatabaseError('Failed to purge trashed expenses');
+    }
+  }
+
+  // Run a batch of creates, updates and deletes in one transaction. An atomic
+  // batch is rolled back when any operation fails; otherwise failed operations
+  // are left out and the rest are saved.
+  static async batchExpenses(
+    organizationId: number,
+    request: BatchRequest,
+    context: AuditContext
+  ): Promise<BatchResponse> {
+    const results: BatchOperationResult[] = request.operations.map((operation, index) => ({
+      index,
+      action: operation.action,
+      status: 'skipped',
+      id: operation.action === 'create' ? null : operation.id,
+      expense: null,
+      error: null
+    }));
+    const saved = new Map<number, CostWithCategory>();
+    const deleted: Cost[] = [];
+    let rolledBack = false;
+
+    try {
+      // Amounts without a currency are in the organization's reporting currency
+      const currencies = request.operations.flatMap(operation =>
+        operation.action !== 'delete' && operation.data.currency ? [operation.data.currency] : []
+      );
+      const converter = await ExchangeRateService.createConverter(organizationId, currencies);
+
+      try {
+        await prisma.$transaction(async (tx) => {
+          for (const [index, operation] of request.operations.entries()) {
+            const result = results[index]!;
+            try {
+              if (operation.action === 'create') {
+                const created = await this.createInTransaction(tx, organizationId, operation.data, converter.reportingCurrency, context);
+                saved.set(index, created);
+                result.id = created.id;
+              } else if (operation.action === 'update') {
+                saved.set(index, await this.updateInTransaction(tx, organizationId, operation.id, operation.data, context));
+              } else {
+                deleted.push(await this.deleteInTransaction(tx, organizationId, operation.id, context));
+              }
+              result.status = 'succeeded';
+            } catch (error) {
+              // Checks fail before anything is written, so the transaction can go on
+              if (!(error instanceof ApiError)) {
+                throw error;
+              }
+
+              result.status = 'failed';
+              result.error = { code: error.code, message: error.message };
+              if (request.atomic) {
+                rolledBack = true;
+                throw error;
+              }
+            }
+          }
+        }, { timeout: BATCH_TRANSACTION_TIMEOUT_MS });
+      } catch (error) {
+        if (!rolledBack) {
+          throw error;
+        }
+      }
+
+      if (rolledBack) {
+        results.forEach(result => {
+          if (result.status === 'succeeded') {
+            result.status = 'rolled_back';
+            // The IDs of rolled back creates were never committed
+            if (result.action === 'create') {
+              result.id = null;
+            }
+          }
+        });
+      } else {
+        await this.afterBatch(organizationId, [...saved.values()], deleted);
+
+        const expenses = await AnomalyService.attachAnomalies(
+          organizationId,
+          [...saved.values()].map(expense => this.toResponse(expense, converter))
+        );
+        [...saved.keys()].forEach((index, position) => {
+          results[index]!.expense = expenses[position]!;
+        });
+      }
+
+      const failed = results.filter(result => result.status === 'failed').length;
+      logger.info(
+        `Batch of ${results.length} expense operations for organization ${organizationId}: ` +
+        (rolledBack ? 'rolled back' : `${results.length - failed} succeeded, ${failed} failed`)
+      );
+
+      return {
+        committed: !rolledBack,
+        succeeded: results.filter(result => result.status === 'succeeded').length,
+        failed,
+        results
+      };
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error('Failed to run expense batch:', error);
+      throw new DatabaseError('Failed to run expense batch');
+    }
+  }
+
+  // Check if an organization has an expense for a specific category, cost center, month, and year
+  static async expenseExists(
+    organizationId: number,
+    categoryId: number,
+    month: number,
+    year: number,
+    costCenterId: number | null = null
+  ): Promise<boolean> {
     try {
       const expense = await prisma.cost.findFirst({
         where: {
-          category: category as any,
+          organizationId,
+          categoryId,
+          costCenterId,
           month,
-          year
+          year,
+          deletedAt: null
         }
       });
 
@@ -192,92 +539,46 @@ export class ExpenseService {
   }
 
   // Get trends data with aggregation and analysis
-  static async getTrends(query: import('../types/expense').TrendsQuery): Promise<import('../types/expense').TrendsApiResponse> {
+  static async getTrends(
+    organizationId: number,
+    query: import('../types/expense').TrendsQuery
+  ): Promise<import('../types/expense').TrendsApiResponse> {
     try {
-      const where: Prisma.CostWhereInput = {};
-      
-      // Build date range filter
-      const dateConditions: Prisma.CostWhereInput[] = [];
-      
-      // Handle year range
-      if (query.startYear === query.endYear) {
-        // Same year - handle month range if provided
-        where.year = query.startYear;
-        if (query.startMonth && query.endMonth) {
-          where.month = {
-            gte: query.startMonth,
-            lte: query.endMonth
-          };
-        } else if (query.startMonth) {
-          where.month = { gte: query.startMonth };
-        } else if (query.endMonth) {
-          where.month = { lte: query.endMonth };
-        }
-      } else {
-        // Multiple years
-        if (query.startMonth) {
-          dateConditions.push({
-            year: query.startYear,
-            month: { gte: query.startMonth }
-          });
-        } else {
-          dateConditions.push({ year: query.startYear });
-        }
-        
-        // Add middle years
-        if (query.endYear - query.startYear > 1) {
-          dateConditions.push({
-            year: {
-              gt: query.startYear,
-              lt: query.endYear
-            }
-          });
-        }
-        
-        if (query.endMonth) {
-          dateConditions.push({
-            year: query.endYear,
-            month: { lte: query.endMonth }
-          });
-        } else {
-          dateConditions.push({ year: query.endYear });
-        }
-        
-        where.OR = dateConditions;
-      }
-      
-      // Add category filter if specified
-      if (query.category) {
-        where.category = query.category;
-      }
+      const where = this.periodFilter(organizationId, query);
 
       // Get raw data
       const expenses = await prisma.cost.findMany({
         where,
+        include: expenseInclude,
         orderBy: [
           { year: 'asc' },
           { month: 'asc' },
-          { category: 'asc' }
+          { category: { displayOrder: 'asc' } }
         ]
       });
 
+      // Amounts are reported in the organization's reporting currency
+      const converter = await ExchangeRateService.createConverter(organizationId, expenses.map(expense => expense.currency));
+
       // Process data based on groupBy parameter
       let processedData: any[];
       let summary: any;
 
       switch (query.groupBy) {
         case 'year':
-          ({ data: processedData, summary } = this.processYearlyTrends(expenses));
+          ({ data: processedData, summary } = this.processYearlyTrends(expenses, converter));
           break;
         case 'category':
-          ({ data: processedData, summary } = this.processCategoryTrends(expenses));
+          ({ data: processedData, summary } = this.processCategoryTrends(expenses, converter));
           break;
         case 'month':
         default:
-          ({ data: processedData, summary } = this.processMonthlyTrends(expenses));
+          ({ data: processedData, summary } = this.processMonthlyTrends(expenses, converter));
           break;
       }
 
+      summary.currency = converter.reportingCurrency;
+
       // Add period information to summary
       summary.periodStart = `${query.startYear}-${String(query.startMonth || 1).padStart(2, '0')}-01`;
       summary.periodEnd = `${query.endYear}-${String(query.endMonth || 12).padStart(2, '0')}-01`;
@@ -290,22 +591,26 @@ export class ExpenseService {
         groupBy: query.groupBy || 'month'
       };
     } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
       logger.error('Failed to retrieve trends data:', error);
       throw new DatabaseError('Failed to retrieve trends data');
     }
   }
 
   // Process expenses into monthly trends
-  private static processMonthlyTrends(expenses: Cost[]): {
+  private static processMonthlyTrends(expenses: CostWithCategory[], converter: CurrencyConverter): {
     data: import('../types/expense').MonthlyTrendData[];
     summary: any;
   } {
-    const monthlyMap = new Map<string, { totalAmount: number; categories: Map<string, number> }>();
+    const monthlyMap = new Map<string, { totalAmount: number; categories: Map<number, CategoryAmount> }>();
     
     // Group by month-year
     expenses.forEach(expense => {
       const key = `${expense.year}-${String(expense.month).padStart(2, '0')}`;
-      const amount = Number(expense.amount);
+      const amount = this.reportingAmount(expense, converter);
       
       if (!monthlyMap.has(key)) {
         monthlyMap.set(key, { totalAmount: 0, categories: new Map() });
@@ -314,8 +619,7 @@ export class ExpenseService {
       const monthData = monthlyMap.get(key)!;
       monthData.totalAmount += amount;
       
-      const currentCategoryAmount = monthData.categories.get(expense.category) || 0;
-      monthData.categories.set(expense.category, currentCategoryAmount + amount);
+      this.addToCategory(monthData.categories, expense, amount);
     });
 
     // Convert to array format
@@ -326,10 +630,7 @@ export class ExpenseService {
           month: parseInt(month || '0'),
           year: parseInt(year || '0'),
           totalAmount: value.totalAmount,
-          categoryBreakdown: Array.from(value.categories.entries()).map(([category, amount]) => ({
-            category: category as any,
-            amount
-          }))
+          categoryBreakdown: Array.from(value.categories.values())
         };
       })
       .sort((a, b) => a.year - b.year || a.month - b.month);
@@ -349,15 +650,15 @@ export class ExpenseService {
   }
 
   // Process expenses into yearly trends
-  private static processYearlyTrends(expenses: Cost[]): {
+  private static processYearlyTrends(expenses: CostWithCategory[], converter: CurrencyConverter): {
     data: import('../types/expense').YearlyTrendData[];
     summary: any;
   } {
-    const yearlyMap = new Map<number, { totalAmount: number; categories: Map<string, number> }>();
+    const yearlyMap = new Map<number, { totalAmount: number; categories: Map<number, CategoryAmount> }>();
     
     // Group by year
     expenses.forEach(expense => {
-      const amount = Number(expense.amount);
+      const amount = this.reportingAmount(expense, converter);
       
       if (!yearlyMap.has(expense.year)) {
         yearlyMap.set(expense.year, { totalAmount: 0, categories: new Map() });
@@ -366,8 +667,7 @@ export class ExpenseService {
       const yearData = yearlyMap.get(expense.year)!;
       yearData.totalAmount += amount;
       
-      const currentCategoryAmount = yearData.categories.get(expense.category) || 0;
-      yearData.categories.set(expense.category, currentCategoryAmount + amount);
+      this.addToCategory(yearData.categories, expense, amount);
     });
 
     // Convert to array format
@@ -375,10 +675,7 @@ export class ExpenseService {
       .map(([year, value]) => ({
         year,
         totalAmount: value.totalAmount,
-        categoryBreakdown: Array.from(value.categories.entries()).map(([category, amount]) => ({
-          category: category as any,
-          amount
-        }))
+        categoryBreakdown: Array.from(value.categories.values())
       }))
       .sort((a, b) => a.year - b.year);
 
@@ -397,32 +694,43 @@ export class ExpenseService {
   }
 
   // Process expenses into category trends
-  private static processCategoryTrends(expenses: Cost[]): {
+  private static processCategoryTrends(expenses: CostWithCategory[], converter: CurrencyConverter): {
     data: import('../types/expense').CategoryTrendData[];
     summary: any;
   } {
-    const categoryMap = new Map<string, { totalAmount: number; months: Map<string, number> }>();
+    const categoryMap = new Map<number, {
+      category: string;
+      totalAmount: number;
+      months: Map<string, number>;
+      subcategories: Map<number, CategoryAmount>;
+    }>();
     
-    // Group by category
+    // Group by top-level category, rolling sub-categories up into their parent
     expenses.forEach(expense => {
-      const amount = Number(expense.amount);
+      const amount = this.reportingAmount(expense, converter);
       const monthKey = `${expense.year}-${String(expense.month).padStart(2, '0')}`;
+      const parent = expense.category.parent ?? expense.category;
       
-      if (!categoryMap.has(expense.category)) {
-        categoryMap.set(expense.category, { totalAmount: 0, months: new Map() });
+      if (!categoryMap.has(parent.id)) {
+        categoryMap.set(parent.id, { category: parent.name, totalAmount: 0, months: new Map(), subcategories: new Map() });
       }
       
-      const categoryData = categoryMap.get(expense.category)!;
+      const categoryData = categoryMap.get(parent.id)!;
       categoryData.totalAmount += amount;
       
       const currentMonthAmount = categoryData.months.get(monthKey) || 0;
       categoryData.months.set(monthKey, currentMonthAmount + amount);
+
+      if (expense.category.parent) {
+        this.addAmount(categoryData.subcategories, expense.category, amount);
+      }
     });
 
     // Convert to array format
     const data: import('../types/expense').CategoryTrendData[] = Array.from(categoryMap.entries())
-      .map(([category, value]) => ({
-        category: category as any,
+      .map(([categoryId, value]) => ({
+        categoryId,
+        category: value.category,
         totalAmount: value.totalAmount,
         monthlyBreakdown: Array.from(value.months.entries()).map(([monthKey, amount]) => {
           const [year, month] = monthKey.split('-');
@@ -431,7 +739,8 @@ export class ExpenseService {
             year: parseInt(year || '0'),
             amount
           };
-        }).sort((a, b) => a.year - b.year || a.month - b.month)
+        }).sort((a, b) => a.year - b.year || a.month - b.month),
+        ...(value.subcategories.size > 0 && { subcategories: Array.from(value.subcategories.values()) })
       }))
       .sort((a, b) => b.totalAmount - a.totalAmount); // Sort by total amount descending
 
@@ -448,4 +757,468 @@ export class ExpenseService {
 
     return { data, summary };
   }
+
+  // Add an expense's amount to its top-level category's running total, and to
+  // the sub-category's total listed under it
+  private static addToCategory(
+    categories: Map<number, CategoryAmount>,
+    expense: CostWithCategory,
+    amount: number
+  ): void {
+    const { parent } = expense.category;
+    const total = this.addAmount(categories, parent ?? expense.category, amount);
+
+    if (parent) {
+      total.subcategories ??= [];
+      const current = total.subcategories.find(item => item.categoryId === expense.categoryId);
+      if (current) {
+        current.amount += amount;
+      } else {
+        total.subcategories.push({ categoryId: expense.categoryId, category: expense.category.name, amount });
+      }
+    }
+  }
+
+  private static addAmount(
+    categories: Map<number, CategoryAmount>,
+    category: { id: number; name: string },
+    amount: number
+  ): CategoryAmount {
+    const current = categories.get(category.id);
+    if (current) {
+      current.amount += amount;
+      return current;
+    }
+
+    const created = { categoryId: category.id, category: category.name, amount };
+    categories.set(category.id, created);
+    return created;
+  }
+
+  // An expense's amount in the reporting currency; reports can't be built while a rate is missing
+  private static reportingAmount(expense: CostWithCategory, converter: CurrencyConverter): number {
+    const amount = converter.convert(Number(expense.amount), expense.currency, expense.month, expense.year);
+
+    if (amount === null) {
+      throw new ValidationError(
+        `No exchange rate from ${expense.currency} to ${converter.reportingCurrency} is in effect for ${expense.month}/${expense.year}`
+      );
+    }
+
+    return amount;
+  }
+
+  // Line item details to store; blank text is stored as no value, and details
+  // that were left out are not touched
+  static lineItemData(data: LineItemDetails) {
+    return {
+      ...(data.description !== undefined && { description: data.description || null }),
+      ...(data.vendor !== undefined && { vendor: data.vendor || null }),
+      ...(data.invoiceNumber !== undefined && { invoiceNumber: data.invoiceNumber || null }),
+      ...(data.invoiceDate !== undefined && { invoiceDate: data.invoiceDate }),
+      ...(data.notes !== undefined && { notes: data.notes || null })
+    };
+  }
+
+  // Match a category together with its sub-categories
+  private static categoryFilter(categoryId: number): Prisma.CategoryWhereInput {
+    return { OR: [{ id: categoryId }, { parentId: categoryId }] };
+  }
+
+  // Where clause for the date range, category and cost center of a trends query.
+  // Like every listing and total, it leaves out trashed expenses, and unless asked
+  // otherwise also those that are not approved.
+  private static periodFilter(organizationId: number, query: TrendsQuery): Prisma.CostWhereInput {
+    const where: Prisma.CostWhereInput = { organizationId, deletedAt: null };
+
+    if (!query.includeUnapproved) {
+      where.status = CostStatus.APPROVED;
+    }
+    
+    // Build date range filter
+    const dateConditions: Prisma.CostWhereInput[] = [];
+    
+    // Handle year range
+    if (query.startYear === query.endYear) {
+      // Same year - handle month range if provided
+      where.year = query.startYear;
+      if (query.startMonth && query.endMonth) {
+        where.month = {
+          gte: query.startMonth,
+          lte: query.endMonth
+        };
+      } else if (query.startMonth) {
+        where.month = { gte: query.startMonth };
+      } else if (query.endMonth) {
+        where.month = { lte: query.endMonth };
+      }
+    } else {
+      // Multiple years
+      if (query.startMonth) {
+        dateConditions.push({
+          year: query.startYear,
+          month: { gte: query.startMonth }
+        });
+      } else {
+        dateConditions.push({ year: query.startYear });
+      }
+      
+      // Add middle years
+      if (query.endYear - query.startYear > 1) {
+        dateConditions.push({
+          year: {
+            gt: query.startYear,
+            lt: query.endYear
+          }
+        });
+      }
+      
+      if (query.endMonth) {
+        dateConditions.push({
+          year: query.endYear,
+          month: { lte: query.endMonth }
+        });
+      } else {
+        dateConditions.push({ year: query.endYear });
+      }
+      
+      where.OR = dateConditions;
+    }
+    
+    // Add category and cost center filters if specified
+    if (query.categoryId) {
+      where.category = this.categoryFilter(query.categoryId);
+    }
+
+    if (query.costCenterId) {
+      where.costCenterId = query.costCenterId;
+    }
+
+    return where;
+  }
+
+  // Conditions on the costs c of an expense query. Date ranges compare year and
+  // month, so they use the organization/year/month indexes.
+  private static async expenseConditions(organizationId: number, query: ExpenseQuery): Promise<Prisma.Sql> {
+    const conditions = [Prisma.sql`c.organization_id = ${organizationId}`, Prisma.sql`c.deleted_at IS NULL`];
+
+    if (query.year !== undefined) {
+      conditions.push(Prisma.sql`c.year = ${query.year}`);
+    }
+
+    if (query.month !== undefined) {
+      conditions.push(Prisma.sql`c.month = ${query.month}`);
+    }
+
+    if (query.startYear !== undefined) {
+      conditions.push(this.monthsFrom(query.startYear, query.startMonth ?? 1));
+    }
+
+    if (query.endYear !== undefined) {
+      conditions.push(this.monthsUntil(query.endYear, query.endMonth ?? 12));
+    }
+
+    // A category also matches its sub-categories
+    const categoryIds = query.categoryId !== undefined ? [query.categoryId] : query.categoryIds ?? [];
+    if (categoryIds.length > 0) {
+      conditions.push(Prisma.sql`c.category_id IN (
+        SELECT id FROM categories WHERE id = ANY(${categoryIds}) OR parent_id = ANY(${categoryIds})
+      )`);
+    }
+
+    if (query.costCenterId !== undefined) {
+      conditions.push(Prisma.sql`c.cost_center_id = ${query.costCenterId}`);
+    }
+
+    if (query.tagIds !== undefined && query.tagIds.length > 0) {
+      conditions.push(Prisma.sql`EXISTS (SELECT 1 FROM cost_tags ct WHERE ct.cost_id = c.id AND ct.tag_id = ANY(${query.tagIds}))`);
+    }
+
+    // Web-style search of the notes and tag names in search_vector, so "laptop
+    // refresh" finds notes about a refresh tagged "laptop"
+    if (query.q) {
+      conditions.push(Prisma.sql`c.search_vector @@ websearch_to_tsquery('english', ${query.q})`);
+    }
+
+    // Statuses are stored by their lower-case names
+    if (query.status !== undefined) {
+      conditions.push(Prisma.sql`c.status = CAST(${query.status.toLowerCase()} AS "CostStatus")`);
+    }
+
+    if (query.minAmount !== undefined || query.maxAmount !== undefined) {
+      conditions.push(await this.convertedAmountCondition(organizationId, query.minAmount, query.maxAmount));
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  private static monthsFrom(year: number, month: number): Prisma.Sql {
+    return Prisma.sql`(c.year > ${year} OR (c.year = ${year} AND c.month >= ${month}))`;
+  }
+
+  private static monthsUntil(year: number, month: number): Prisma.Sql {
+    return Prisma.sql`(c.year < ${year} OR (c.year = ${year} AND c.month <= ${month}))`;
+  }
+
+  // Amount ranges are in the reporting currency. Amounts in other currencies are
+  // compared as billed, against the range converted at each exchange rate over the
+  // months it is in effect; those without a rate for their month never match.
+  private static async convertedAmountCondition(
+    organizationId: number,
+    minAmount: number | undefined,
+    maxAmount: number | undefined
+  ): Promise<Prisma.Sql> {
+    const currencies = await prisma.cost.findMany({
+      where: { organizationId },
+      distinct: ['currency'],
+      select: { currency: true }
+    });
+    const { reportingCurrency, periods } = await ExchangeRateService.getRatePeriods(
+      organizationId,
+      currencies.map(({ currency }) => currency)
+    );
+
+    // Converted amounts are rounded to cents
+    const billed = (currency: string, rate: number, months: Prisma.Sql[] = []): Prisma.Sql => Prisma.join([
+      Prisma.sql`c.currency = ${currency}`,
+      ...(minAmount !== undefined ? [Prisma.sql`c.amount >= ${(minAmount - 0.005) / rate}`] : []),
+      ...(maxAmount !== undefined ? [Prisma.sql`c.amount <= ${(maxAmount + 0.005) / rate}`] : []),
+      ...months
+    ], ' AND ');
+
+    const alternatives = [
+      billed(reportingCurrency, 1),
+      ...periods.map(period => billed(period.currency, period.rate, [
+        this.monthsFrom(period.start.year, period.start.month),
+        ...(period.end ? [this.monthsUntil(period.end.year, period.end.month)] : [])
+      ]))
+    ];
+
+    return Prisma.sql`((${Prisma.join(alternatives, ') OR (')}))`;
+  }
+
+  // Sort order of an expense query over costs c and their categories cat. Ties
+  // fall back to the newest month first and then the ID, so pages don't overlap.
+  private static expenseOrder(query: ExpenseQuery): Prisma.Sql {
+    const order = this.sortDirection(query.sortOrder);
+
+    switch (query.sortBy) {
+      case 'amount':
+        return Prisma.sql`c.amount ${order}, c.year DESC, c.month DESC, c.id ASC`;
+      case 'category':
+        return Prisma.sql`cat.name ${order}, c.year DESC, c.month DESC, c.id ASC`;
+      case 'date':
+      default:
+        return Prisma.sql`c.year ${order}, c.month ${order}, cat.display_order ASC, c.id ASC`;
+    }
+  }
+
+  // Keyset order: year and month in the sort order, then category and ID ascending
+  private static keysetOrder(sortOrder: SortOrder | undefined): Prisma.Sql {
+    const order = this.sortDirection(sortOrder);
+    return Prisma.sql`c.year ${order}, c.month ${order}, c.category_id ASC, c.id ASC`;
+  }
+
+  private static sortDirection(sortOrder: SortOrder | undefined): Prisma.Sql {
+    return Prisma.raw(sortOrder === 'asc' ? 'ASC' : 'DESC');
+  }
+
+  // Expenses after the cursor in the keyset order
+  private static cursorCondition(cursor: ExpenseCursor, sortOrder: SortOrder | undefined): Prisma.Sql {
+    const after = Prisma.raw(sortOrder === 'asc' ? '>' : '<');
+
+    return Prisma.sql`(
+      c.year ${after} ${cursor.year}
+      OR (c.year = ${cursor.year} AND c.month ${after} ${cursor.month})
+      OR (c.year = ${cursor.year} AND c.month = ${cursor.month} AND c.category_id > ${cursor.categoryId})
+      OR (c.year = ${cursor.year} AND c.month = ${cursor.month} AND c.category_id = ${cursor.categoryId} AND c.id > ${cursor.id})
+    )`;
+  }
+
+  private static async countExpenses(conditions: Prisma.Sql): Promise<number> {
+    const [row] = await prisma.$queryRaw<Array<{ count: number }>>`
+      SELECT count(*)::int AS count FROM costs c WHERE ${conditions}
+    `;
+
+    return row?.count ?? 0;
+  }
+
+  // Expenses matching the conditions in the given order, a page of them when a
+  // limit is given. The page is picked in SQL, then loaded with its relations.
+  private static async findExpenses(
+    conditions: Prisma.Sql,
+    orderBy: Prisma.Sql,
+    page?: { limit: number; offset: number }
+  ): Promise<CostWithCategory[]> {
+    const rows = await prisma.$queryRaw<Array<{ id: number }>>`
+      SELECT c.id
+      FROM costs c
+      JOIN categories cat ON cat.id = c.category_id
+      WHERE ${conditions}
+      ORDER BY ${orderBy}
+      ${page ? Prisma.sql`LIMIT ${page.limit} OFFSET ${page.offset}` : Prisma.empty}
+    `;
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const expenses = await prisma.cost.findMany({
+      where: { id: { in: rows.map(row => row.id) } },
+      include: expenseInclude
+    });
+    const byId = new Map(expenses.map(expense => [expense.id, expense]));
+
+    return rows.flatMap(row => byId.get(row.id) ?? []);
+  }
+
+  // Create an expense within a transaction. New expenses can only be filed
+  // under the organization's active categories and cost centers, in open months,
+  // and wait for approval when above the organization's threshold.
+  private static async createInTransaction(
+    tx: Prisma.TransactionClient,
+    organizationId: number,
+    data: CreateExpenseRequest,
+    reportingCurrency: string,
+    context: AuditContext
+  ): Promise<CostWithCategory> {
+    await PeriodLockService.requireOpenPeriod(organizationId, data, tx);
+    await CategoryService.requireActiveCategory(organizationId, data.categoryId, tx);
+
+    if (data.costCenterId !== undefined) {
+      await CostCenterService.requireActiveCostCenter(organizationId, data.costCenterId, tx);
+    }
+
+    const currency = data.currency ?? reportingCurrency;
+    const policy = await ApprovalService.createPolicy(organizationId, [currency]);
+
+    const created = await tx.cost.create({
+      data: {
+        organizationId,
+        categoryId: data.categoryId,
+        costCenterId: data.costCenterId ?? null,
+        amount: data.amount,
+        currency,
+        month: data.month,
+        year: data.year,
+        status: data.draft ? CostStatus.DRAFT : policy.statusFor({ ...data, currency }),
+        ...this.lineItemData(data),
+        ...(data.tags !== undefined && { tags: { create: await TagService.tagLinks(organizationId, data.tags, tx) } })
+      },
+      include: expenseInclude
+    });
+
+    await AuditService.recordCostChange(tx, CostAuditAction.CREATE, created, null, context);
+    await ApprovalService.recordStatusChange(tx, created, null, context);
+    return created;
+  }
+
+  // Update an expense within a transaction. Drafts stay drafts; any other change
+  // is reviewed again when the new amount is above the approval threshold.
+  private static async updateInTransaction(
+    tx: Prisma.TransactionClient,
+    organizationId: number,
+    id: number,
+    data: UpdateExpenseRequest,
+    context: AuditContext
+  ): Promise<CostWithCategory> {
+    // Read the current amount so the history records what was overwritten
+    const existing = await tx.cost.findFirst({
+      where: { id, organizationId, deletedAt: null }
+    });
+
+    if (!existing) {
+      throw new NotFoundError(`Expense with ID ${id} not found`);
+    }
+
+    await PeriodLockService.requireOpenPeriod(organizationId, existing, tx);
+
+    const currency = data.currency ?? existing.currency;
+    const policy = await ApprovalService.createPolicy(organizationId, [currency]);
+    const status = existing.status === CostStatus.DRAFT
+      ? CostStatus.DRAFT
+      : policy.statusFor({ amount: data.amount, currency, month: existing.month, year: existing.year });
+
+    const updated = await tx.cost.update({
+      where: { id },
+      data: {
+        amount: data.amount,
+        ...(data.currency !== undefined && { currency: data.currency }),
+        ...this.lineItemData(data),
+        ...(data.tags !== undefined && {
+          tags: { deleteMany: {}, create: await TagService.tagLinks(organizationId, data.tags, tx) }
+        }),
+        status,
+        updatedAt: new Date()
+      },
+      include: expenseInclude
+    });
+
+    await AuditService.recordCostChange(tx, CostAuditAction.UPDATE, updated, existing.amount, context);
+    if (status !== existing.status) {
+      await ApprovalService.recordStatusChange(tx, updated, existing.status, context);
+    }
+    return updated;
+  }
+
+  // Move an expense to the trash within a transaction. The expense is looked up
+  // first, so a missing one doesn't fail the statement and the transaction can go on.
+  private static async deleteInTransaction(
+    tx: Prisma.TransactionClient,
+    organizationId: number,
+    id: number,
+    context: AuditContext
+  ): Promise<Cost> {
+    const existing = await tx.cost.findFirst({
+      where: { id, organizationId, deletedAt: null }
+    });
+
+    if (!existing) {
+      throw new NotFoundError(`Expense with ID ${id} not found`);
+    }
+
+    await PeriodLockService.requireOpenPeriod(organizationId, existing, tx);
+
+    const deleted = await tx.cost.update({
+      where: { id },
+      data: { deletedAt: new Date() }
+    });
+
+    await AuditService.recordCostChange(tx, CostAuditAction.DELETE, deleted, deleted.amount, context);
+    return deleted;
+  }
+
+  // Budget alerts and anomalies of every category and month a batch changed,
+  // checked once each
+  private static async afterBatch(organizationId: number, saved: CostWithCategory[], deleted: Cost[]): Promise<void> {
+    const budgetPeriods = new Map<string, CostWithCategory>();
+    saved.forEach(expense => budgetPeriods.set(`${expense.categoryId}-${expense.month}-${expense.year}`, expense));
+    budgetPeriods.forEach(expense => this.checkBudgetAlerts(organizationId, expense));
+
+    const anomalyPeriods = new Map<string, Cost>();
+    [...saved, ...deleted].forEach(expense => anomalyPeriods.set(`${expense.categoryId}-${expense.month}-${expense.year}`, expense));
+    await Promise.all([...anomalyPeriods.values()].map(expense =>
+      AnomalyService.checkAfterExpenseChange(organizationId, expense.categoryId, expense.month, expense.year)
+    ));
+  }
+
+  // Check the expense's category and month for an anomaly and flag the response
+  private static async withAnomalyCheck(organizationId: number, expense: ExpenseResponse): Promise<ExpenseResponse> {
+    const anomaly = await AnomalyService.checkAfterExpenseChange(
+      organizationId,
+      expense.categoryId,
+      expense.month,
+      expense.year
+    );
+    return { ...expense, anomaly };
+  }
+
+  // Spend on a sub-category also counts towards its parent's budget
+  private static checkBudgetAlerts(organizationId: number, expense: CostWithCategory): void {
+    BudgetAlertService.checkAfterExpenseChange(organizationId, expense.categoryId, expense.month, expense.year);
+
+    if (expense.category.parentId !== null) {
+      BudgetAlertService.checkAfterExpenseChange(organizationId, expense.category.parentId, expense.month, expense.year);
+    }
+  }
 }
\ No newline at end of file
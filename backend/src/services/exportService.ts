@@ -0,0 +1,269 @@
+import {
+  CategoryAmount,
+  CategoryTrendData,
+  ExpenseQuery,
+  ExpenseResponse,
+  MonthlyTrendData,
+  TrendsQuery,
+  YearlyTrendData
+} from '../types/expense';
+import {
+  ExportCell,
+  ExportColumn,
+  ExportFile,
+  ExportFormat,
+  ExportQuery,
+  ExportStream,
+  ExportTable
+} from '../types/export';
+import { formatCsv } from '../utils/csv';
+import { renderPdfTable } from '../utils/pdf';
+import { writeXlsx } from '../utils/xlsx';
+import { ExpenseService } from './expenseService';
+
+// Larger reports have to be narrowed down with filters
+export const MAX_EXPORT_ROWS = 50000;
+
+// XLSX workbooks and PDFs are built whole in memory before they are sent, so they
+// take fewer rows. CSV and JSON expense exports are streamed and have no limit.
+export const MAX_BUFFERED_EXPORT_ROWS = 10000;
+
+// Expenses read per query while a CSV or JSON export is streamed
+const EXPORT_PAGE_SIZE = 500;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8',
+  pdf: 'application/pdf'
+};
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+// Amounts in trends are sums of converted amounts, so they are rounded to cents
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const percentageOf = (amount: number, total: number): number =>
+  total > 0 ? Math.round(amount / total * 10000) / 100 : 0;
+
+// One row per line item, with the amount as billed and in the reporting currency
+const EXPENSE_COLUMNS: ExportColumn[] = [
+  { key: 'id', header: 'ID' },
+  { key: 'year', header: 'Year' },
+  { key: 'month', header: 'Month' },
+  { key: 'category', header: 'Category' },
+  { key: 'parentCategory', header: 'Parent Category' },
+  { key: 'costCenter', header: 'Cost Center' },
+  { key: 'amount', header: 'Amount', amount: true },
+  { key: 'currency', header: 'Currency' },
+  { key: 'convertedAmount', header: 'Converted Amount', amount: true },
+  { key: 'reportingCurrency', header: 'Reporting Currency' },
+  { key: 'description', header: 'Description' },
+  { key: 'vendor', header: 'Vendor' },
+  { key: 'invoiceNumber', header: 'Invoice Number' },
+  { key: 'invoiceDate', header: 'Invoice Date' }
+];
+
+const expenseRow = (expense: ExpenseResponse): ExportCell[] => [
+  expense.id,
+  expense.year,
+  expense.month,
+  expense.category,
+  expense.parentCategory,
+  expense.costCenter,
+  expense.amount,
+  expense.currency,
+  expense.convertedAmount,
+  expense.reportingCurrency,
+  expense.description,
+  expense.vendor,
+  expense.invoiceNumber,
+  expense.invoiceDate
+];
+
+// A row as a JSON object keyed by column
+const rowObject = (columns: ExportColumn[], row: ExportCell[]): Record<string, ExportCell> =>
+  Object.fromEntries(columns.map((column, index) => [column.key, row[index] ?? null]));
+
+export class ExportService {
+  // Render expenses or trends matching the filters as a file. CSV and JSON
+  // expense exports are streamed a page at a time instead of rendered whole.
+  static async export(organizationId: number, query: ExportQuery): Promise<ExportFile | ExportStream> {
+    const date = new Date().toISOString().slice(0, 10);
+    const filename = `${query.type}-${date}.${query.format}`;
+    const contentType = CONTENT_TYPES[query.format];
+
+    if (query.type === 'expenses' && (query.format === 'csv' || query.format === 'json')) {
+      const pages = await this.expensePages(organizationId, query.filters);
+
+      return {
+        filename,
+        contentType,
+        content: query.format === 'csv' ? this.streamCsv(EXPENSE_COLUMNS, pages) : this.streamJson(EXPENSE_COLUMNS, pages)
+      };
+    }
+
+    const table = query.type === 'trends'
+      ? await this.trendsTable(organizationId, query.filters)
+      : await this.expensesTable(organizationId, query.filters);
+
+    return { filename, contentType, content: this.render(table, query.format) };
+  }
+
+  private static async expensesTable(organizationId: number, filters: ExpenseQuery): Promise<ExportTable> {
+    const expenses = await ExpenseService.getAllExpenses(organizationId, filters, MAX_BUFFERED_EXPORT_ROWS);
+
+    return { title: 'Expenses', columns: EXPENSE_COLUMNS, rows: expenses.map(expenseRow) };
+  }
+
+  // Rows of the expenses matching the filters, a page at a time. Date order is
+  // paged by cursor, other orders by offset. The first page is read straight away
+  // so bad filters fail before anything is sent.
+  private static async expensePages(organizationId: number, filters: ExpenseQuery): Promise<AsyncIterable<ExportCell[][]>> {
+    const keyset = filters.sortBy === undefined || filters.sortBy === 'date';
+    const readPage = (cursor: string, offset: number) => ExpenseService.getExpenses(organizationId, keyset
+      ? { ...filters, limit: EXPORT_PAGE_SIZE, cursor }
+      : { ...filters, limit: EXPORT_PAGE_SIZE, offset });
+
+    let page = await readPage('', 0);
+
+    return (async function* () {
+      let offset = 0;
+      for (;;) {
+        yield page.expenses.map(expenseRow);
+        offset += page.expenses.length;
+
+        if (keyset ? page.nextCursor === null : page.expenses.length < EXPORT_PAGE_SIZE) {
+          return;
+        }
+        page = await readPage(page.nextCursor ?? '', offset);
+      }
+    })();
+  }
+
+  private static async *streamCsv(columns: ExportColumn[], pages: AsyncIterable<ExportCell[][]>): AsyncGenerator<string> {
+    yield formatCsv([columns.map(column => column.key)]);
+    for await (const rows of pages) {
+      if (rows.length > 0) {
+        yield formatCsv(rows);
+      }
+    }
+  }
+
+  // Laid out as the JSON of buffered exports: an indented array of objects
+  private static async *streamJson(columns: ExportColumn[], pages: AsyncIterable<ExportCell[][]>): AsyncGenerator<string> {
+    let first = true;
+    for await (const rows of pages) {
+      for (const row of rows) {
+        yield (first ? '[\n' : ',\n') + JSON.stringify(rowObject(columns, row), null, 2).replace(/^/gm, '  ');
+        first = false;
+      }
+    }
+    yield first ? '[]' : '\n]';
+  }
+
+  // One row per category and period, in the reporting currency. Sub-categories
+  // follow their parent, whose amount includes theirs.
+  private static async trendsTable(organizationId: number, filters: TrendsQuery): Promise<ExportTable> {
+    const trends = await ExpenseService.getTrends(organizationId, filters);
+    const currency = trends.summary.currency;
+
+    const categoryRows = (categories: CategoryAmount[], total: number, period: ExportCell[]): ExportCell[][] =>
+      categories.flatMap(category => [
+        [...period, category.category, null, roundAmount(category.amount), currency, percentageOf(category.amount, total)],
+        ...(category.subcategories ?? []).map(subcategory => [
+          ...period,
+          subcategory.category,
+          category.category,
+          roundAmount(subcategory.amount),
+          currency,
+          percentageOf(subcategory.amount, total)
+        ])
+      ]);
+
+    const categoryColumns = [
+      { key: 'category', header: 'Category' },
+      { key: 'parentCategory', header: 'Parent Category' },
+      { key: 'amount', header: 'Amount', amount: true },
+      { key: 'currency', header: 'Currency' },
+      { key: 'percentageOfTotal', header: '% of Total' }
+    ];
+
+    switch (trends.groupBy) {
+      case 'year':
+        return {
+          title: 'Expense Trends by Year',
+          columns: [{ key: 'year', header: 'Year' }, ...categoryColumns],
+          rows: (trends.data as YearlyTrendData[]).flatMap(year =>
+            categoryRows(year.categoryBreakdown, year.totalAmount, [year.year])
+          )
+        };
+      case 'category':
+        return {
+          title: 'Expense Trends by Category',
+          columns: [
+            { key: 'category', header: 'Category' },
+            { key: 'year', header: 'Year' },
+            { key: 'month', header: 'Month' },
+            { key: 'amount', header: 'Amount', amount: true },
+            { key: 'currency', header: 'Currency' },
+            { key: 'percentageOfTotal', header: '% of Category' }
+          ],
+          rows: (trends.data as CategoryTrendData[]).flatMap(category =>
+            category.monthlyBreakdown.map(month => [
+              category.category,
+              month.year,
+              MONTH_NAMES[month.month - 1] ?? month.month,
+              roundAmount(month.amount),
+              currency,
+              percentageOf(month.amount, category.totalAmount)
+            ])
+          )
+        };
+      case 'month':
+      default:
+        return {
+          title: 'Expense Trends by Month',
+          columns: [{ key: 'year', header: 'Year' }, { key: 'month', header: 'Month' }, ...categoryColumns],
+          rows: (trends.data as MonthlyTrendData[]).flatMap(month =>
+            categoryRows(month.categoryBreakdown, month.totalAmount, [month.year, MONTH_NAMES[month.month - 1] ?? month.month])
+          )
+        };
+    }
+  }
+
+  private static render(table: ExportTable, format: ExportFormat): Buffer {
+    switch (format) {
+      case 'csv':
+        return Buffer.from(formatCsv([table.columns.map(column => column.key), ...table.rows]), 'utf8');
+      case 'xlsx':
+        return writeXlsx([table.columns.map(column => column.header), ...table.rows], table.title);
+      case 'json':
+        return Buffer.from(JSON.stringify(table.rows.map(row => rowObject(table.columns, row)), null, 2), 'utf8');
+      case 'pdf':
+        return renderPdfTable({
+          title: table.title,
+          subtitle: `Exported ${new Date().toISOString().slice(0, 10)}, ${table.rows.length} rows`,
+          headers: table.columns.map(column => column.header),
+          rows: table.rows.map(row => row.map((cell, index) => this.formatCell(cell, table.columns[index]?.amount))),
+          rightAligned: table.columns.flatMap((column, index) => column.amount ? [index] : [])
+        });
+    }
+  }
+
+  // Cell text for printed reports; amounts get thousands separators and cents
+  static formatCell(cell: ExportCell, amount = false): string {
+    if (cell === null) {
+      return '';
+    }
+
+    if (typeof cell === 'number' && amount) {
+      return cell.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    }
+
+    return String(cell);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { ExpenseService } from './expenseService';
+import {
+  ForecastBacktest,
+  ForecastMethod,
+  ForecastQuery,
+  ForecastResponse,
+  ForecastSeries
+} from '../types/forecast';
+import { MonthlyTrendData, TrendsApiResponse } from '../types/expense';
+import { ValidationError } from '../utils/errors';
+import { CONFIDENCE_LEVEL, MIN_HISTORY, backtestMape, projectSeries } from '../utils/forecast';
+import { logger } from '../utils/logger';
+
+const METHODS: ForecastMethod[] = ['linear', 'moving_average', 'seasonal_naive'];
+
+const methodNames: Record<ForecastMethod, string> = {
+  linear: 'linear regression',
+  moving_average: 'moving average',
+  seasonal_naive: 'seasonal naive'
+};
+
+// Months are counted as year * 12 + month index so periods can cross years
+const monthIndex = (year: number, month: number): number => year * 12 + month - 1;
+
+const period = (index: number) => ({ month: index % 12 + 1, year: Math.floor(index / 12) });
+
+export class ForecastService {
+  // Project total and per-category spend from the complete months before the
+  // current one. Months without expenses count as no spend, except those before
+  // the first month with any, which are left out.
+  static async getForecast(organizationId: number, query: ForecastQuery, now = new Date()): Promise<ForecastResponse> {
+    const current = monthIndex(now.getFullYear(), now.getMonth() + 1);
+    const first = current - query.historyMonths;
+    const last = current - 1;
+
+    const trends: TrendsApiResponse = await ExpenseService.getTrends(organizationId, {
+      startYear: period(first).year,
+      startMonth: period(first).month,
+      endYear: period(last).year,
+      endMonth: period(last).month,
+      ...(query.categoryId !== undefined && { categoryId: query.categoryId }),
+      ...(query.costCenterId !== undefined && { costCenterId: query.costCenterId }),
+      groupBy: 'month'
+    });
+    const byMonth = new Map((trends.data as MonthlyTrendData[]).map(item => [monthIndex(item.year, item.month), item]));
+
+    const start = [...byMonth.keys()].filter(index => (byMonth.get(index)?.totalAmount ?? 0) > 0).sort((a, b) => a - b)[0];
+    const months = start === undefined ? [] : Array.from({ length: last - start + 1 }, (_, offset) => start + offset);
+
+    if (months.length < MIN_HISTORY[query.method]) {
+      throw new ValidationError(
+        `The ${methodNames[query.method]} method needs at least ${MIN_HISTORY[query.method]} months of spending history; `
+          + `${months.length} found`,
+        'method'
+      );
+    }
+
+    // Top-level categories with spend in the history, largest first
+    const categoryNames = new Map<number, string>();
+    const categoryTotals = new Map<number, number>();
+    months.forEach(index => {
+      byMonth.get(index)?.categoryBreakdown.forEach(item => {
+        categoryNames.set(item.categoryId, item.category);
+        categoryTotals.set(item.categoryId, (categoryTotals.get(item.categoryId) ?? 0) + item.amount);
+      });
+    });
+    const categoryIds = [...categoryTotals.entries()]
+      .filter(([, total]) => total > 0)
+      .sort((a, b) => b[1] - a[1])
+      .map(([categoryId]) => categoryId);
+
+    const totals = months.map(index => byMonth.get(index)?.totalAmount ?? 0);
+    const categoryAmount = (categoryId: number, index: number): number =>
+      byMonth.get(index)?.categoryBreakdown.find(item => item.categoryId === categoryId)?.amount ?? 0;
+
+    const series = (categoryId: number | null, history: number[]): ForecastSeries => {
+      const projected = projectSeries(history, query.months, query.method);
+      return {
+        categoryId,
+        category: categoryId === null ? null : categoryNames.get(categoryId) ?? null,
+        actual: months.map((index, offset) => ({ ...period(index), amount: Math.round(history[offset]! * 100) / 100 })),
+        forecast: projected.values.map((amount, step) => ({
+          ...period(current + step),
+          amount,
+          lower: projected.lower[step]!,
+          upper: projected.upper[step]!
+        }))
+      };
+    };
+
+    // Hold out up to a quarter of the history, and no more months than are projected
+    const holdout = Math.max(1, Math.min(query.months, Math.floor(months.length / 4)));
+    const backtest: ForecastBacktest[] = METHODS.map(method => ({
+      method,
+      mape: backtestMape(totals, holdout, method),
+      months: holdout
+    }));
+
+    logger.debug(`Forecast ${query.months} months with ${query.method} from ${months.length} months of history`);
+
+    return {
+      method: query.method,
+      confidenceLevel: CONFIDENCE_LEVEL,
+      currency: trends.summary.currency,
+      total: series(null, totals),
+      categories: categoryIds.map(categoryId => series(categoryId, months.map(index => categoryAmount(categoryId, index)))),
+      backtest
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { Transporter } from 'nodemailer';
+import { BudgetAlertMessage } from '../../types/alert';
+import { SmtpOptions, createSmtpTransport } from '../../utils/smtp';
+import { Notifier, describeAlert } from './notifier';
+
+export interface EmailNotifierOptions extends SmtpOptions {
+  from: string;
+}
+
+const formatAmount = (amount: number, currency: string): string =>
+  amount.toLocaleString('en-US', { style: 'currency', currency });
+
+// Sends budget alerts as plain-text email over SMTP
+export class EmailNotifier implements Notifier {
+  private transporter: Transporter | null = null;
+
+  constructor(private readonly options: EmailNotifierOptions) {}
+
+  private getTransporter(): Transporter {
+    if (!this.transporter) {
+      this.transporter = createSmtpTransport(this.options);
+    }
+
+    return this.transporter;
+  }
+
+  async send(target: string, alert: BudgetAlertMessage): Promise<void> {
+    await this.getTransporter().sendMail({
+      from: this.options.from,
+      to: target,
+      subject: `[${alert.organizationName}] Budget alert: ${alert.category} at ${Math.round(alert.percentUsed)}%`,
+      text: [
+        `${describeAlert(alert)}.`,
+        '',
+        `Organization: ${alert.organizationName}`,
+        `Budget: ${formatAmount(alert.budget, alert.currency)}`,
+        `Actual: ${formatAmount(alert.actual, alert.currency)}`
+      ].join('\n')
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { AlertChannel } from '@prisma/client';
+import { config } from '../../config/environment';
+import { Notifier } from './notifier';
+import { EmailNotifier } from './emailNotifier';
+import { WebhookNotifier } from './webhookNotifier';
+
+export { Notifier } from './notifier';
+
+// One notifier per alert channel. New channels add an AlertChannel value and an entry here.
+const notifiers: Record<AlertChannel, Notifier> = {
+  [AlertChannel.EMAIL]: new EmailNotifier({
+    host: config.SMTP_HOST,
+    port: config.SMTP_PORT,
+    secure: config.SMTP_SECURE,
+    user: config.SMTP_USER,
+    password: config.SMTP_PASSWORD,
+    from: config.ALERT_EMAIL_FROM
+  }),
+  [AlertChannel.WEBHOOK]: new WebhookNotifier({
+    timeoutMs: config.WEBHOOK_TIMEOUT_MS
+  })
+};
+
+export const getNotifier = (channel: AlertChannel): Notifier => notifiers[channel];
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { BudgetAlertMessage } from '../../types/alert';
+
+// Delivers budget alerts to one kind of destination. `target` is the destination
+// stored on the alert rule, e.g. an email address or a webhook URL.
+export interface Notifier {
+  send(target: string, alert: BudgetAlertMessage): Promise<void>;
+}
+
+// One-line description shared by the human-readable notifiers
+export const describeAlert = (alert: BudgetAlertMessage): string =>
+  `${alert.category} spending for ${alert.month}/${alert.year} has reached ` +
+  `${Math.round(alert.percentUsed)}% of its budget (threshold ${alert.thresholdPercent}%)`;
\ No newline at end of file
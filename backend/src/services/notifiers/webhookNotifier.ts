@@ -0,0 +1,28 @@
+import { BudgetAlertMessage } from '../../types/alert';
+import { Notifier } from './notifier';
+
+export interface WebhookNotifierOptions {
+  timeoutMs: number;
+}
+
+// POSTs budget alerts as JSON to the rule's URL; any non-2xx response counts as a failure
+export class WebhookNotifier implements Notifier {
+  constructor(private readonly options: WebhookNotifierOptions) {}
+
+  async send(target: string, alert: BudgetAlertMessage): Promise<void> {
+    const response = await fetch(target, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        type: 'budget.threshold_reached',
+        ...alert,
+        sentAt: new Date().toISOString()
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with HTTP ${response.status}`);
+    }
+  }
+}
\ No newline at end of file
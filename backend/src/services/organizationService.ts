@@ -0,0 +1,158 @@
+import { Organization, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { defaultCategoriesCreateInput } from '../config/categories';
+import { OrganizationContext, OrganizationResponse } from '../types/organization';
+import {
+  ApiError,
+  DatabaseError,
+  DuplicateEntryError,
+  ForbiddenError,
+  NotFoundError
+} from '../utils/errors';
+import { logger, logSecurityWarning } from '../utils/logger';
+
+export class OrganizationService {
+  // Convert Prisma Organization model to API response format
+  static toResponse(organization: Organization): OrganizationResponse {
+    return {
+      id: organization.id,
+      name: organization.name,
+      slug: organization.slug,
+      reportingCurrency: organization.reportingCurrency,
+      approvalThreshold: organization.approvalThreshold === null ? null : Number(organization.approvalThreshold),
+      createdAt: organization.createdAt.toISOString()
+    };
+  }
+
+  // Create a new organization with the default expense categories
+  static async createOrganization(name: string, slug: string): Promise<OrganizationResponse> {
+    try {
+      const organization = await prisma.organization.create({
+        data: {
+          name,
+          slug: slug.toLowerCase(),
+          categories: defaultCategoriesCreateInput()
+        }
+      });
+
+      logger.info(`Created organization: ${organization.id} - ${organization.slug}`);
+      return this.toResponse(organization);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new DuplicateEntryError(`An organization with slug "${slug}" already exists`);
+      }
+
+      logger.error('Failed to create organization:', error);
+      throw new DatabaseError('Failed to create organization');
+    }
+  }
+
+  // Add a user to an organization; adding an existing member is a no-op
+  static async addMember(organizationId: number, userId: number): Promise<void> {
+    try {
+      await prisma.organizationMember.upsert({
+        where: { organizationId_userId: { organizationId, userId } },
+        update: {},
+        create: { organizationId, userId }
+      });
+
+      logger.info(`Added user ${userId} to organization ${organizationId}`);
+    } catch (error) {
+      logger.error(`Failed to add user ${userId} to organization ${organizationId}:`, error);
+      throw new DatabaseError('Failed to add organization member');
+    }
+  }
+
+  // Get an organization by its slug
+  static async getBySlug(slug: string): Promise<OrganizationResponse> {
+    const organization = await prisma.organization.findUnique({
+      where: { slug: slug.toLowerCase() }
+    });
+
+    if (!organization) {
+      throw new NotFoundError(`Organization "${slug}" not found`);
+    }
+
+    return this.toResponse(organization);
+  }
+
+  // List the organizations a user belongs to, oldest membership first
+  static async getOrganizationsForUser(userId: number): Promise<OrganizationResponse[]> {
+    try {
+      const memberships = await prisma.organizationMember.findMany({
+        where: { userId },
+        include: { organization: true },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      return memberships.map(membership => this.toResponse(membership.organization));
+    } catch (error) {
+      logger.error(`Failed to retrieve organizations for user ${userId}:`, error);
+      throw new DatabaseError('Failed to retrieve organizations');
+    }
+  }
+
+  // Change the currency an organization's trends, budgets and summaries are reported in
+  static async updateReportingCurrency(organizationId: number, currency: string): Promise<OrganizationResponse> {
+    try {
+      const organization = await prisma.organization.update({
+        where: { id: organizationId },
+        data: { reportingCurrency: currency }
+      });
+
+      logger.info(`Organization ${organizationId} now reports in ${currency}`);
+      return this.toResponse(organization);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        throw new NotFoundError(`Organization with ID ${organizationId} not found`);
+      }
+
+      logger.error(`Failed to update reporting currency of organization ${organizationId}:`, error);
+      throw new DatabaseError('Failed to update reporting currency');
+    }
+  }
+
+  // List the IDs of every organization (used by background jobs that run per tenant)
+  static async getAllOrganizationIds(): Promise<number[]> {
+    const organizations = await prisma.organization.findMany({
+      select: { id: true },
+      orderBy: { id: 'asc' }
+    });
+
+    return organizations.map(organization => organization.id);
+  }
+
+  // Resolve the organization a request acts on. An explicitly requested organization
+  // must be one the user belongs to; otherwise the user's first organization is used.
+  static async resolveForUser(userId: number, organizationId?: number): Promise<OrganizationContext> {
+    try {
+      const membership = await prisma.organizationMember.findFirst({
+        where: organizationId === undefined ? { userId } : { userId, organizationId },
+        include: { organization: true },
+        orderBy: { createdAt: 'asc' }
+      });
+
+      if (!membership) {
+        if (organizationId !== undefined) {
+          logSecurityWarning('Organization access denied', { userId, organizationId });
+          throw new ForbiddenError('You do not have access to this organization');
+        }
+
+        throw new ForbiddenError('You are not a member of any organization');
+      }
+
+      return {
+        id: membership.organization.id,
+        name: membership.organization.name,
+        slug: membership.organization.slug
+      };
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to resolve organization for user ${userId}:`, error);
+      throw new DatabaseError('Failed to resolve organization');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,125 @@
+import { prisma } from '../config/database';
+import { Period, PeriodLockQuery, PeriodLockResponse } from '../types/periodLock';
+import {
+  ApiError,
+  DatabaseError,
+  DuplicateEntryError,
+  NotFoundError,
+  PeriodLockedError
+} from '../utils/errors';
+import { logger } from '../utils/logger';
+import { Prisma } from '@prisma/client';
+
+const periodLockInclude = {
+  lockedBy: { select: { name: true } }
+} satisfies Prisma.PeriodLockInclude;
+
+type PeriodLockWithUser = Prisma.PeriodLockGetPayload<{ include: typeof periodLockInclude }>;
+
+export class PeriodLockService {
+  // Convert Prisma PeriodLock model to API response format
+  private static toResponse(lock: PeriodLockWithUser): PeriodLockResponse {
+    return {
+      id: lock.id,
+      month: lock.month,
+      year: lock.year,
+      lockedBy: lock.lockedBy?.name ?? null,
+      createdAt: lock.createdAt.toISOString()
+    };
+  }
+
+  // Get an organization's closed months, oldest first
+  static async getLocks(organizationId: number, query: PeriodLockQuery): Promise<PeriodLockResponse[]> {
+    try {
+      const locks = await prisma.periodLock.findMany({
+        where: {
+          organizationId,
+          ...(query.year !== undefined && { year: query.year })
+        },
+        include: periodLockInclude,
+        orderBy: [{ year: 'asc' }, { month: 'asc' }]
+      });
+
+      return locks.map(lock => this.toResponse(lock));
+    } catch (error) {
+      logger.error('Failed to retrieve period locks:', error);
+      throw new DatabaseError('Failed to retrieve period locks');
+    }
+  }
+
+  // Close a month, so its expenses can no longer change
+  static async closePeriod(organizationId: number, period: Period, userId: number | null): Promise<PeriodLockResponse> {
+    try {
+      const lock = await prisma.periodLock.create({
+        data: { organizationId, month: period.month, year: period.year, lockedById: userId },
+        include: periodLockInclude
+      });
+
+      logger.info(`Closed ${period.month}/${period.year} for organization ${organizationId}`);
+      return this.toResponse(lock);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new DuplicateEntryError(`${period.month}/${period.year} is already closed`);
+      }
+
+      logger.error(`Failed to close ${period.month}/${period.year}:`, error);
+      throw new DatabaseError('Failed to close period');
+    }
+  }
+
+  // Reopen a closed month
+  static async reopenPeriod(organizationId: number, period: Period): Promise<void> {
+    try {
+      const result = await prisma.periodLock.deleteMany({
+        where: { organizationId, month: period.month, year: period.year }
+      });
+
+      if (result.count === 0) {
+        throw new NotFoundError(`${period.month}/${period.year} is not closed`);
+      }
+
+      logger.info(`Reopened ${period.month}/${period.year} for organization ${organizationId}`);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to reopen ${period.month}/${period.year}:`, error);
+      throw new DatabaseError('Failed to reopen period');
+    }
+  }
+
+  // Fail with the earliest of the periods that is closed. Writes pass their
+  // transaction client, so the check is part of the write's transaction.
+  static async requireOpenPeriods(
+    organizationId: number,
+    periods: Period[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    if (periods.length === 0) {
+      return;
+    }
+
+    const unique = [...new Map(periods.map(period => [`${period.year}-${period.month}`, period])).values()];
+    const lock = await client.periodLock.findFirst({
+      where: {
+        organizationId,
+        OR: unique.map(period => ({ month: period.month, year: period.year }))
+      },
+      orderBy: [{ year: 'asc' }, { month: 'asc' }]
+    });
+
+    if (lock) {
+      throw new PeriodLockedError(lock.month, lock.year);
+    }
+  }
+
+  // Fail when the period is closed
+  static async requireOpenPeriod(
+    organizationId: number,
+    period: Period,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    await this.requireOpenPeriods(organizationId, [period], client);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,453 @@
+import { prisma } from '../config/database';
+import { AuditContext } from '../types/audit';
+import {
+  CreateRecurringTemplateRequest,
+  RecurrenceSchedule,
+  RecurringOccurrence,
+  RecurringTemplateResponse,
+  UpdateRecurringTemplateRequest
+} from '../types/recurringTemplate';
+import {
+  NotFoundError,
+  DatabaseError,
+  ValidationError,
+  PeriodLockedError,
+  ApiError
+} from '../utils/errors';
+import { logger } from '../utils/logger';
+import { ApprovalService } from './approvalService';
+import { AuditService } from './auditService';
+import { CategoryService } from './categoryService';
+import { CostCenterService } from './costCenterService';
+import { ExchangeRateService } from './exchangeRateService';
+import { PeriodLockService } from './periodLockService';
+import {
+  Prisma,
+  CostAuditAction,
+  RecurrenceFrequency,
+  RecurringTemplate
+} from '@prisma/client';
+
+type RecurringTemplateWithNames = Prisma.RecurringTemplateGetPayload<{
+  include: { category: { select: { name: true } }; costCenter: { select: { name: true } } };
+}>;
+
+const includeNames = {
+  category: { select: { name: true } },
+  costCenter: { select: { name: true } }
+} as const;
+
+// Months between two costs of a template
+const FREQUENCY_MONTHS: Record<RecurrenceFrequency, number> = {
+  [RecurrenceFrequency.MONTHLY]: 1,
+  [RecurrenceFrequency.QUARTERLY]: 3,
+  [RecurrenceFrequency.YEARLY]: 12
+};
+
+// Generated costs are not made by a user or a request
+const GENERATED: AuditContext = { userId: null, ipAddress: null };
+
+// Months are counted as year * 12 + month index so periods can cross years
+const monthIndex = (year: number, month: number): number => year * 12 + month - 1;
+
+const currentMonthIndex = (now: Date): number => monthIndex(now.getFullYear(), now.getMonth() + 1);
+
+const endIndex = (schedule: RecurrenceSchedule): number =>
+  schedule.endYear !== null && schedule.endMonth !== null ? monthIndex(schedule.endYear, schedule.endMonth) : Infinity;
+
+export class RecurringTemplateService {
+  // Convert Prisma RecurringTemplate model to API response format
+  private static toResponse(template: RecurringTemplateWithNames): RecurringTemplateResponse {
+    const next = monthIndex(template.nextYear, template.nextMonth);
+    const ended = next > endIndex(this.schedule(template));
+
+    return {
+      id: template.id,
+      categoryId: template.categoryId,
+      category: template.category.name,
+      costCenterId: template.costCenterId,
+      costCenter: template.costCenter?.name ?? null,
+      amount: Number(template.amount),
+      currency: template.currency,
+      description: template.description,
+      vendor: template.vendor,
+      frequency: template.frequency,
+      startMonth: template.startMonth,
+      startYear: template.startYear,
+      endMonth: template.endMonth,
+      endYear: template.endYear,
+      escalationPercent: template.escalationPercent === null ? null : Number(template.escalationPercent),
+      nextMonth: ended ? null : template.nextMonth,
+      nextYear: ended ? null : template.nextYear,
+      isActive: template.isActive,
+      createdAt: template.createdAt.toISOString(),
+      updatedAt: template.updatedAt.toISOString()
+    };
+  }
+
+  private static schedule(template: RecurringTemplate): RecurrenceSchedule {
+    return {
+      amount: Number(template.amount),
+      frequency: template.frequency,
+      startMonth: template.startMonth,
+      startYear: template.startYear,
+      endMonth: template.endMonth,
+      endYear: template.endYear,
+      escalationPercent: template.escalationPercent === null ? null : Number(template.escalationPercent)
+    };
+  }
+
+  // First period of a schedule in or after the given month
+  static firstPeriodFrom(schedule: RecurrenceSchedule, from: number): number {
+    const start = monthIndex(schedule.startYear, schedule.startMonth);
+    const step = FREQUENCY_MONTHS[schedule.frequency];
+    return from <= start ? start : start + Math.ceil((from - start) / step) * step;
+  }
+
+  // A period's amount, escalated once for every full year since the start
+  static amountFor(schedule: RecurrenceSchedule, period: number): number {
+    const years = Math.floor((period - monthIndex(schedule.startYear, schedule.startMonth)) / 12);
+    const factor = Math.pow(1 + (schedule.escalationPercent ?? 0) / 100, years);
+    return Math.round(schedule.amount * factor * 100) / 100;
+  }
+
+  // Up to count periods from the given one, stopping at the end of the schedule
+  static occurrences(schedule: RecurrenceSchedule, from: number, count: number, currency: string): RecurringOccurrence[] {
+    const occurrences: RecurringOccurrence[] = [];
+    const end = endIndex(schedule);
+
+    for (let period = from; period <= end && occurrences.length < count; period += FREQUENCY_MONTHS[schedule.frequency]) {
+      occurrences.push({
+        month: period % 12 + 1,
+        year: Math.floor(period / 12),
+        amount: this.amountFor(schedule, period),
+        currency
+      });
+    }
+
+    return occurrences;
+  }
+
+  private static validateSchedule(schedule: RecurrenceSchedule): void {
+    if (endIndex(schedule) < monthIndex(schedule.startYear, schedule.startMonth)) {
+      throw new ValidationError('End month cannot be before the start month', 'endMonth');
+    }
+  }
+
+  // Create a template. Costs are created from the current month on; a period that
+  // is already open gets its cost straight away.
+  static async createTemplate(
+    organizationId: number,
+    data: CreateRecurringTemplateRequest,
+    now = new Date()
+  ): Promise<RecurringTemplateResponse> {
+    const schedule: RecurrenceSchedule = {
+      amount: data.amount,
+      frequency: data.frequency ?? RecurrenceFrequency.MONTHLY,
+      startMonth: data.startMonth,
+      startYear: data.startYear,
+      endMonth: data.endMonth ?? null,
+      endYear: data.endYear ?? null,
+      escalationPercent: data.escalationPercent ?? null
+    };
+    this.validateSchedule(schedule);
+
+    try {
+      await CategoryService.requireActiveCategory(organizationId, data.categoryId);
+      if (data.costCenterId !== undefined) {
+        await CostCenterService.requireActiveCostCenter(organizationId, data.costCenterId);
+      }
+
+      const converter = await ExchangeRateService.createConverter(organizationId, []);
+      const next = this.firstPeriodFrom(schedule, currentMonthIndex(now));
+
+      const template = await prisma.recurringTemplate.create({
+        data: {
+          organizationId,
+          categoryId: data.categoryId,
+          costCenterId: data.costCenterId ?? null,
+          amount: data.amount,
+          currency: data.currency ?? converter.reportingCurrency,
+          description: data.description || null,
+          vendor: data.vendor || null,
+          frequency: schedule.frequency,
+          startMonth: data.startMonth,
+          startYear: data.startYear,
+          endMonth: schedule.endMonth,
+          endYear: schedule.endYear,
+          escalationPercent: schedule.escalationPercent,
+          nextMonth: next % 12 + 1,
+          nextYear: Math.floor(next / 12)
+        }
+      });
+
+      logger.info(`Created recurring template: ${template.id} - ${template.amount} ${template.currency} ${template.frequency}`);
+      await this.generateForTemplate(template, now);
+      return this.getTemplate(organizationId, template.id);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error('Failed to create recurring template:', error);
+      throw new DatabaseError('Failed to create recurring template');
+    }
+  }
+
+  // Get an organization's recurring templates
+  static async getTemplates(organizationId: number): Promise<RecurringTemplateResponse[]> {
+    try {
+      const templates = await prisma.recurringTemplate.findMany({
+        where: { organizationId },
+        include: includeNames,
+        orderBy: [{ category: { displayOrder: 'asc' } }, { id: 'asc' }]
+      });
+
+      return templates.map(template => this.toResponse(template));
+    } catch (error) {
+      logger.error('Failed to retrieve recurring templates:', error);
+      throw new DatabaseError('Failed to retrieve recurring templates');
+    }
+  }
+
+  // Get a single template; templates of other organizations are reported as not found
+  static async getTemplate(organizationId: number, id: number): Promise<RecurringTemplateResponse> {
+    return this.toResponse(await this.findTemplate(organizationId, id));
+  }
+
+  // Update a template. Changing when it recurs restarts it from the current month;
+  // a period that already has its cost is not given another one.
+  static async updateTemplate(
+    organizationId: number,
+    id: number,
+    data: UpdateRecurringTemplateRequest,
+    now = new Date()
+  ): Promise<RecurringTemplateResponse> {
+    try {
+      const existing = await this.findTemplate(organizationId, id);
+      const schedule: RecurrenceSchedule = {
+        ...this.schedule(existing),
+        ...(data.amount !== undefined && { amount: data.amount }),
+        ...(data.frequency !== undefined && { frequency: data.frequency }),
+        ...(data.startMonth !== undefined && { startMonth: data.startMonth }),
+        ...(data.startYear !== undefined && { startYear: data.startYear }),
+        ...(data.endMonth !== undefined && { endMonth: data.endMonth }),
+        ...(data.endYear !== undefined && { endYear: data.endYear }),
+        ...(data.escalationPercent !== undefined && { escalationPercent: data.escalationPercent })
+      };
+      this.validateSchedule(schedule);
+
+      if (data.categoryId !== undefined) {
+        await CategoryService.requireActiveCategory(organizationId, data.categoryId);
+      }
+      if (data.costCenterId !== undefined && data.costCenterId !== null) {
+        await CostCenterService.requireActiveCostCenter(organizationId, data.costCenterId);
+      }
+
+      // A resumed template does not catch up on the months it was paused
+      const rescheduled = schedule.frequency !== existing.frequency || schedule.startMonth !== existing.startMonth
+        || schedule.startYear !== existing.startYear || (data.isActive === true && !existing.isActive);
+      const next = this.firstPeriodFrom(schedule, currentMonthIndex(now));
+
+      const template = await prisma.recurringTemplate.update({
+        where: { id },
+        data: {
+          ...(data.categoryId !== undefined && { categoryId: data.categoryId }),
+          ...(data.costCenterId !== undefined && { costCenterId: data.costCenterId }),
+          ...(data.amount !== undefined && { amount: data.amount }),
+          ...(data.currency !== undefined && { currency: data.currency }),
+          ...(data.description !== undefined && { description: data.description || null }),
+          ...(data.vendor !== undefined && { vendor: data.vendor || null }),
+          ...(data.frequency !== undefined && { frequency: data.frequency }),
+          ...(data.startMonth !== undefined && { startMonth: data.startMonth }),
+          ...(data.startYear !== undefined && { startYear: data.startYear }),
+          ...(data.endMonth !== undefined && { endMonth: data.endMonth }),
+          ...(data.endYear !== undefined && { endYear: data.endYear }),
+          ...(data.escalationPercent !== undefined && { escalationPercent: data.escalationPercent }),
+          ...(data.isActive !== undefined && { isActive: data.isActive }),
+          ...(rescheduled && { nextMonth: next % 12 + 1, nextYear: Math.floor(next / 12) })
+        }
+      });
+
+      logger.info(`Updated recurring template: ${template.id}`);
+      await this.generateForTemplate(template, now);
+      return this.getTemplate(organizationId, id);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to update recurring template ${id}:`, error);
+      throw new DatabaseError('Failed to update recurring template');
+    }
+  }
+
+  // Delete a template; the costs it created are kept
+  static async deleteTemplate(organizationId: number, id: number): Promise<void> {
+    try {
+      await prisma.recurringTemplate.delete({
+        where: { id, organizationId }
+      });
+
+      logger.info(`Deleted recurring template: ${id}`);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        // Handle record not found
+        if (error.code === 'P2025') {
+          throw new NotFoundError(`Recurring template with ID ${id} not found`);
+        }
+      }
+
+      logger.error(`Failed to delete recurring template ${id}:`, error);
+      throw new DatabaseError('Failed to delete recurring template');
+    }
+  }
+
+  // The next costs a template will create
+  static async previewTemplate(organizationId: number, id: number, count: number): Promise<RecurringOccurrence[]> {
+    const template = await this.findTemplate(organizationId, id);
+    return this.occurrences(this.schedule(template), monthIndex(template.nextYear, template.nextMonth), count, template.currency);
+  }
+
+  // The costs a template would create if it were saved now
+  static async previewDraft(
+    organizationId: number,
+    data: CreateRecurringTemplateRequest,
+    count: number,
+    now = new Date()
+  ): Promise<RecurringOccurrence[]> {
+    const schedule: RecurrenceSchedule = {
+      amount: data.amount,
+      frequency: data.frequency ?? RecurrenceFrequency.MONTHLY,
+      startMonth: data.startMonth,
+      startYear: data.startYear,
+      endMonth: data.endMonth ?? null,
+      endYear: data.endYear ?? null,
+      escalationPercent: data.escalationPercent ?? null
+    };
+    this.validateSchedule(schedule);
+
+    const currency = data.currency ?? (await ExchangeRateService.createConverter(organizationId, [])).reportingCurrency;
+    return this.occurrences(schedule, this.firstPeriodFrom(schedule, currentMonthIndex(now)), count, currency);
+  }
+
+  // Create the costs of every period that has opened for an organization's active
+  // templates. Returns the number of costs created.
+  static async generateDue(organizationId: number, now = new Date()): Promise<number> {
+    const current = currentMonthIndex(now);
+    const templates = await prisma.recurringTemplate.findMany({
+      where: { organizationId, isActive: true },
+      orderBy: { id: 'asc' }
+    });
+
+    let createdCount = 0;
+    for (const template of templates) {
+      if (monthIndex(template.nextYear, template.nextMonth) <= current) {
+        createdCount += await this.generateForTemplate(template, now);
+      }
+    }
+
+    return createdCount;
+  }
+
+  private static async findTemplate(organizationId: number, id: number): Promise<RecurringTemplateWithNames> {
+    const template = await prisma.recurringTemplate.findFirst({
+      where: { id, organizationId },
+      include: includeNames
+    });
+
+    if (!template) {
+      throw new NotFoundError(`Recurring template with ID ${id} not found`);
+    }
+
+    return template;
+  }
+
+  // Create the template's costs up to the current month and move it on to its
+  // next period. A template whose category or cost center was archived, or whose
+  // next period is closed, is left where it is until that is resolved.
+  private static async generateForTemplate(template: RecurringTemplate, now: Date): Promise<number> {
+    if (!template.isActive) {
+      return 0;
+    }
+
+    const schedule = this.schedule(template);
+    const current = currentMonthIndex(now);
+    const end = endIndex(schedule);
+    let next = monthIndex(template.nextYear, template.nextMonth);
+    let createdCount = 0;
+
+    try {
+      while (next <= current && next <= end) {
+        if (await this.createCost(template, next, this.amountFor(schedule, next))) {
+          createdCount++;
+        }
+        next += FREQUENCY_MONTHS[schedule.frequency];
+      }
+    } catch (error) {
+      if (!(error instanceof ValidationError || error instanceof PeriodLockedError)) {
+        throw error;
+      }
+      logger.warn(`Recurring template ${template.id} skipped: ${error.message}`);
+    }
+
+    if (next !== monthIndex(template.nextYear, template.nextMonth)) {
+      await prisma.recurringTemplate.update({
+        where: { id: template.id },
+        data: { nextMonth: next % 12 + 1, nextYear: Math.floor(next / 12) }
+      });
+    }
+
+    if (createdCount > 0) {
+      logger.info(`Recurring template ${template.id} created ${createdCount} costs`);
+    }
+
+    return createdCount;
+  }
+
+  // Create one period's cost. Returns false when the template already has a cost
+  // for that month, which the unique index on costs reports as P2002.
+  private static async createCost(template: RecurringTemplate, period: number, amount: number): Promise<boolean> {
+    try {
+      await prisma.$transaction(async (tx) => {
+        await CategoryService.requireActiveCategory(template.organizationId, template.categoryId, tx);
+        if (template.costCenterId !== null) {
+          await CostCenterService.requireActiveCostCenter(template.organizationId, template.costCenterId, tx);
+        }
+
+        const month = period % 12 + 1;
+        const year = Math.floor(period / 12);
+        await PeriodLockService.requireOpenPeriod(template.organizationId, { month, year }, tx);
+
+        const policy = await ApprovalService.createPolicy(template.organizationId, [template.currency]);
+
+        const cost = await tx.cost.create({
+          data: {
+            organizationId: template.organizationId,
+            categoryId: template.categoryId,
+            costCenterId: template.costCenterId,
+            amount,
+            currency: template.currency,
+            month,
+            year,
+            description: template.description,
+            vendor: template.vendor,
+            recurringTemplateId: template.id,
+            // Generated costs above the threshold are reviewed like entered ones
+            status: policy.statusFor({ amount, currency: template.currency, month, year })
+          }
+        });
+
+        await AuditService.recordCostChange(tx, CostAuditAction.CREATE, cost, null, GENERATED);
+        await ApprovalService.recordStatusChange(tx, cost, null, GENERATED);
+      });
+
+      return true;
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { Transporter } from 'nodemailer';
+import { config } from '../config/environment';
+import { ExportFile } from '../types/export';
+import { SmtpOptions, createSmtpTransport } from '../utils/smtp';
+
+export interface ReportMailerOptions extends SmtpOptions {
+  from: string;
+}
+
+export interface ReportEmail {
+  to: string[];
+  subject: string;
+  text: string;
+  attachment: ExportFile;
+}
+
+// Sends scheduled reports as email attachments over SMTP
+export class ReportMailer {
+  private transporter: Transporter | null = null;
+
+  constructor(private readonly options: ReportMailerOptions) {}
+
+  async send(email: ReportEmail): Promise<void> {
+    if (!this.transporter) {
+      this.transporter = createSmtpTransport(this.options);
+    }
+
+    await this.transporter.sendMail({
+      from: this.options.from,
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      attachments: [{
+        filename: email.attachment.filename,
+        contentType: email.attachment.contentType,
+        content: email.attachment.content
+      }]
+    });
+  }
+}
+
+export const reportMailer = new ReportMailer({
+  host: config.SMTP_HOST,
+  port: config.SMTP_PORT,
+  secure: config.SMTP_SECURE,
+  user: config.SMTP_USER,
+  password: config.SMTP_PASSWORD,
+  from: config.REPORT_EMAIL_FROM
+});
\ No newline at end of file
@@ -0,0 +1,555 @@
+import { prisma } from '../config/database';
+import { ExpenseResponse } from '../types/expense';
+import {
+  CreateScheduledReportRequest,
+  ReportDeliveryQuery,
+  ReportDeliveryResponse,
+  ReportDocument,
+  ReportFile,
+  ReportRange,
+  ReportSection,
+  ScheduledReportResponse,
+  UpdateScheduledReportRequest
+} from '../types/scheduledReport';
+import {
+  NotFoundError,
+  DatabaseError,
+  ValidationError,
+  ApiError
+} from '../utils/errors';
+import { formatCsv } from '../utils/csv';
+import { logger } from '../utils/logger';
+import { renderPdfDocument } from '../utils/pdf';
+import { CategoryService } from './categoryService';
+import { CostCenterService } from './costCenterService';
+import { ExpenseService } from './expenseService';
+import { ExportService, MAX_EXPORT_ROWS } from './exportService';
+import { reportMailer } from './reportMailer';
+import {
+  Prisma,
+  ReportDeliveryStatus,
+  ReportFormat,
+  ReportGroupBy,
+  ReportPeriod
+} from '@prisma/client';
+
+type ScheduledReportWithNames = Prisma.ScheduledReportGetPayload<{
+  include: { category: { select: { name: true } }; costCenter: { select: { name: true } } };
+}>;
+
+type ReportDeliveryWithReport = Prisma.ReportDeliveryGetPayload<{
+  include: { report: { select: { name: true } } };
+}>;
+
+const includeFilterNames = {
+  category: { select: { name: true } },
+  costCenter: { select: { name: true } }
+} as const;
+
+const includeReportName = { report: { select: { name: true } } } as const;
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  [ReportFormat.PDF]: 'application/pdf',
+  [ReportFormat.CSV]: 'text/csv; charset=utf-8'
+};
+
+// Months are counted as year * 12 + month index so ranges can cross years
+const monthIndex = (year: number, month: number): number => year * 12 + month - 1;
+
+const rangeOf = (start: number, end: number): ReportRange => ({
+  startYear: Math.floor(start / 12),
+  startMonth: start % 12 + 1,
+  endYear: Math.floor(end / 12),
+  endMonth: end % 12 + 1
+});
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+const percentageOf = (amount: number, total: number): number =>
+  total > 0 ? Math.round(amount / total * 10000) / 100 : 0;
+
+const formatAmount = (amount: number, currency: string): string =>
+  `${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+const monthLabel = (year: number, month: number): string => `${MONTH_NAMES[month - 1]} ${year}`;
+
+const describeRange = (range: ReportRange): string => {
+  const start = monthLabel(range.startYear, range.startMonth);
+  const end = monthLabel(range.endYear, range.endMonth);
+  return start === end ? start : `${start} to ${end}`;
+};
+
+export class ScheduledReportService {
+  // Convert Prisma ScheduledReport model to API response format
+  private static reportToResponse(report: ScheduledReportWithNames): ScheduledReportResponse {
+    return {
+      id: report.id,
+      name: report.name,
+      period: report.period,
+      categoryId: report.categoryId,
+      category: report.category?.name ?? null,
+      costCenterId: report.costCenterId,
+      costCenter: report.costCenter?.name ?? null,
+      groupBy: report.groupBy,
+      format: report.format,
+      schedule: report.schedule,
+      recipients: report.recipients,
+      isActive: report.isActive,
+      createdById: report.createdById,
+      createdAt: report.createdAt.toISOString(),
+      updatedAt: report.updatedAt.toISOString()
+    };
+  }
+
+  // Convert Prisma ReportDelivery model to API response format
+  private static deliveryToResponse(delivery: ReportDeliveryWithReport): ReportDeliveryResponse {
+    return {
+      id: delivery.id,
+      reportId: delivery.reportId,
+      report: delivery.report.name,
+      periodStart: delivery.periodStart.toISOString().slice(0, 10),
+      periodEnd: delivery.periodEnd.toISOString().slice(0, 10),
+      format: delivery.format,
+      recipients: delivery.recipients,
+      status: delivery.status,
+      error: delivery.error,
+      createdAt: delivery.createdAt.toISOString()
+    };
+  }
+
+  // Filters must point at the organization's active categories and cost centers
+  private static async validateFilters(
+    organizationId: number,
+    data: { categoryId?: number | null; costCenterId?: number | null }
+  ): Promise<void> {
+    if (data.categoryId !== undefined && data.categoryId !== null) {
+      await CategoryService.requireActiveCategory(organizationId, data.categoryId);
+    }
+
+    if (data.costCenterId !== undefined && data.costCenterId !== null) {
+      await CostCenterService.requireActiveCostCenter(organizationId, data.costCenterId);
+    }
+  }
+
+  // Create a scheduled report
+  static async createReport(
+    organizationId: number,
+    userId: number | null,
+    data: CreateScheduledReportRequest
+  ): Promise<ScheduledReportResponse> {
+    try {
+      await this.validateFilters(organizationId, data);
+
+      const report = await prisma.scheduledReport.create({
+        data: {
+          organizationId,
+          createdById: userId,
+          name: data.name,
+          period: data.period,
+          categoryId: data.categoryId ?? null,
+          costCenterId: data.costCenterId ?? null,
+          groupBy: data.groupBy ?? ReportGroupBy.MONTH,
+          format: data.format ?? ReportFormat.PDF,
+          schedule: data.schedule,
+          recipients: data.recipients
+        },
+        include: includeFilterNames
+      });
+
+      logger.info(`Created scheduled report: ${report.id} - ${report.name} (${report.schedule})`);
+      return this.reportToResponse(report);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error('Failed to create scheduled report:', error);
+      throw new DatabaseError('Failed to create scheduled report');
+    }
+  }
+
+  // Get an organization's scheduled reports
+  static async getReports(organizationId: number): Promise<ScheduledReportResponse[]> {
+    try {
+      const reports = await prisma.scheduledReport.findMany({
+        where: { organizationId },
+        include: includeFilterNames,
+        orderBy: [{ name: 'asc' }, { id: 'asc' }]
+      });
+
+      return reports.map(report => this.reportToResponse(report));
+    } catch (error) {
+      logger.error('Failed to retrieve scheduled reports:', error);
+      throw new DatabaseError('Failed to retrieve scheduled reports');
+    }
+  }
+
+  // Update a scheduled report
+  static async updateReport(
+    organizationId: number,
+    id: number,
+    data: UpdateScheduledReportRequest
+  ): Promise<ScheduledReportResponse> {
+    try {
+      await this.findReport(organizationId, id);
+      await this.validateFilters(organizationId, data);
+
+      const report = await prisma.scheduledReport.update({
+        where: { id },
+        data: {
+          ...(data.name !== undefined && { name: data.name }),
+          ...(data.period !== undefined && { period: data.period }),
+          ...(data.categoryId !== undefined && { categoryId: data.categoryId }),
+          ...(data.costCenterId !== undefined && { costCenterId: data.costCenterId }),
+          ...(data.groupBy !== undefined && { groupBy: data.groupBy }),
+          ...(data.format !== undefined && { format: data.format }),
+          ...(data.schedule !== undefined && { schedule: data.schedule }),
+          ...(data.recipients !== undefined && { recipients: data.recipients }),
+          ...(data.isActive !== undefined && { isActive: data.isActive })
+        },
+        include: includeFilterNames
+      });
+
+      logger.info(`Updated scheduled report: ${report.id}`);
+      return this.reportToResponse(report);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+
+      logger.error(`Failed to update scheduled report ${id}:`, error);
+      throw new DatabaseError('Failed to update scheduled report');
+    }
+  }
+
+  // Delete a scheduled report together with its delivery log
+  static async deleteReport(organizationId: number, id: number): Promise<void> {
+    try {
+      await prisma.scheduledReport.delete({
+        where: { id, organizationId }
+      });
+
+      logger.info(`Deleted scheduled report: ${id}`);
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        // Handle record not found
+        if (error.code === 'P2025') {
+          throw new NotFoundError(`Scheduled report with ID ${id} not found`);
+        }
+      }
+
+      logger.error(`Failed to delete scheduled report ${id}:`, error);
+      throw new DatabaseError('Failed to delete scheduled report');
+    }
+  }
+
+  // Get the delivery log, newest first
+  static async getDeliveries(organizationId: number, query: ReportDeliveryQuery): Promise<{
+    deliveries: ReportDeliveryResponse[];
+    total: number;
+  }> {
+    try {
+      const where: Prisma.ReportDeliveryWhereInput = { organizationId };
+
+      if (query.reportId !== undefined) {
+        where.reportId = query.reportId;
+      }
+
+      if (query.status !== undefined) {
+        where.status = query.status;
+      }
+
+      const [total, deliveries] = await Promise.all([
+        prisma.reportDelivery.count({ where }),
+        prisma.reportDelivery.findMany({
+          where,
+          include: includeReportName,
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          take: query.limit || 50,
+          skip: query.offset || 0
+        })
+      ]);
+
+      return {
+        deliveries: deliveries.map(delivery => this.deliveryToResponse(delivery)),
+        total
+      };
+    } catch (error) {
+      logger.error('Failed to retrieve report deliveries:', error);
+      throw new DatabaseError('Failed to retrieve report deliveries');
+    }
+  }
+
+  // Render a report as it would be sent today, without sending it
+  static async renderReport(organizationId: number, id: number, now = new Date()): Promise<ReportFile> {
+    const report = await this.findReport(organizationId, id);
+    return this.render(report, this.reportRange(report.period, now), now);
+  }
+
+  // Send a report now, outside its schedule, and log the delivery
+  static async sendReport(organizationId: number, id: number): Promise<ReportDeliveryResponse> {
+    const report = await this.findReport(organizationId, id);
+    return this.deliver(report, new Date());
+  }
+
+  // Send a report from its schedule. The report is loaded again because it may
+  // have been paused or deleted since its task was scheduled.
+  static async runScheduledReport(id: number, now = new Date()): Promise<ReportDeliveryResponse | null> {
+    const report = await prisma.scheduledReport.findUnique({
+      where: { id },
+      include: includeFilterNames
+    });
+
+    if (!report || !report.isActive) {
+      return null;
+    }
+
+    return this.deliver(report, now);
+  }
+
+  // Schedules of every active report, across organizations
+  static async getActiveSchedules(): Promise<{ id: number; schedule: string }[]> {
+    return prisma.scheduledReport.findMany({
+      where: { isActive: true },
+      select: { id: true, schedule: true }
+    });
+  }
+
+  // Months a report covers when it runs at the given time. Past periods end with
+  // the previous month; year to date includes the current month.
+  static reportRange(period: ReportPeriod, now: Date): ReportRange {
+    const current = monthIndex(now.getFullYear(), now.getMonth() + 1);
+    const previous = current - 1;
+
+    switch (period) {
+      case ReportPeriod.PREVIOUS_QUARTER: {
+        const quarterStart = current - current % 3 - 3;
+        return rangeOf(quarterStart, quarterStart + 2);
+      }
+      case ReportPeriod.PREVIOUS_YEAR:
+        return rangeOf(monthIndex(now.getFullYear() - 1, 1), monthIndex(now.getFullYear() - 1, 12));
+      case ReportPeriod.YEAR_TO_DATE:
+        return rangeOf(monthIndex(now.getFullYear(), 1), current);
+      case ReportPeriod.LAST_12_MONTHS:
+        return rangeOf(previous - 11, previous);
+      case ReportPeriod.PREVIOUS_MONTH:
+      default:
+        return rangeOf(previous, previous);
+    }
+  }
+
+  private static async findReport(organizationId: number, id: number): Promise<ScheduledReportWithNames> {
+    const report = await prisma.scheduledReport.findFirst({
+      where: { id, organizationId },
+      include: includeFilterNames
+    });
+
+    if (!report) {
+      throw new NotFoundError(`Scheduled report with ID ${id} not found`);
+    }
+
+    return report;
+  }
+
+  // Render and email a report, and record the attempt whether or not it was delivered
+  private static async deliver(report: ScheduledReportWithNames, now: Date): Promise<ReportDeliveryResponse> {
+    const range = this.reportRange(report.period, now);
+    let error: string | null = null;
+
+    try {
+      const file = await this.render(report, range, now);
+      await reportMailer.send({
+        to: report.recipients,
+        subject: `${report.name}: ${describeRange(range)}`,
+        text: [
+          `${report.name} for ${describeRange(range)} is attached.`,
+          '',
+          `This report is sent on the schedule "${report.schedule}". An administrator of your`,
+          'organization can change its recipients or pause it.'
+        ].join('\n'),
+        attachment: file
+      });
+      logger.info(`Sent scheduled report ${report.id} to ${report.recipients.length} recipients`);
+    } catch (sendError) {
+      error = (sendError instanceof Error ? sendError.message : String(sendError)).slice(0, 500);
+      logger.warn(`Scheduled report ${report.id} could not be delivered: ${error}`);
+    }
+
+    const delivery = await prisma.reportDelivery.create({
+      data: {
+        organizationId: report.organizationId,
+        reportId: report.id,
+        periodStart: new Date(Date.UTC(range.startYear, range.startMonth - 1, 1)),
+        periodEnd: new Date(Date.UTC(range.endYear, range.endMonth, 0)),
+        format: report.format,
+        recipients: report.recipients,
+        status: error === null ? ReportDeliveryStatus.SENT : ReportDeliveryStatus.FAILED,
+        error
+      },
+      include: includeReportName
+    });
+
+    return this.deliveryToResponse(delivery);
+  }
+
+  private static async render(report: ScheduledReportWithNames, range: ReportRange, now: Date): Promise<ReportFile> {
+    const document = await this.buildDocument(report, range, now);
+    const period = range.startYear === range.endYear && range.startMonth === range.endMonth
+      ? `${range.startYear}-${String(range.startMonth).padStart(2, '0')}`
+      : `${range.startYear}-${String(range.startMonth).padStart(2, '0')}-to-${range.endYear}-${String(range.endMonth).padStart(2, '0')}`;
+    const slug = report.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+
+    return {
+      filename: `${slug}-${period}.${report.format.toLowerCase()}`,
+      contentType: CONTENT_TYPES[report.format],
+      content: report.format === ReportFormat.CSV ? this.renderCsv(document) : this.renderPdf(document),
+      range
+    };
+  }
+
+  // The printable report's content: totals and filters, a breakdown by category,
+  // one by month or year unless grouped by category, and every expense
+  private static async buildDocument(
+    report: ScheduledReportWithNames,
+    range: ReportRange,
+    now: Date
+  ): Promise<ReportDocument> {
+    const organization = await prisma.organization.findUnique({
+      where: { id: report.organizationId },
+      select: { name: true, reportingCurrency: true }
+    });
+    const currency = organization?.reportingCurrency ?? 'USD';
+
+    const expenses = await ExpenseService.getPeriodExpenses(report.organizationId, {
+      ...range,
+      ...(report.categoryId !== null && { categoryId: report.categoryId }),
+      ...(report.costCenterId !== null && { costCenterId: report.costCenterId })
+    }, MAX_EXPORT_ROWS);
+
+    // Reports can't be built while an exchange rate is missing
+    const amounts = expenses.map(expense => {
+      if (expense.convertedAmount === null) {
+        throw new ValidationError(
+          `No exchange rate from ${expense.currency} to ${currency} is in effect for ${expense.month}/${expense.year}`
+        );
+      }
+      return expense.convertedAmount;
+    });
+    const total = amounts.reduce((sum, amount) => sum + amount, 0);
+
+    const lines = [
+      organization?.name ?? `Organization ${report.organizationId}`,
+      `Period: ${describeRange(range)}`,
+      ...(report.category ? [`Category: ${report.category.name}`] : []),
+      ...(report.costCenter ? [`Cost center: ${report.costCenter.name}`] : []),
+      `Total: ${formatAmount(total, currency)} across ${expenses.length} expenses`
+        + (expenses.length > 0 ? `, averaging ${formatAmount(total / expenses.length, currency)}` : ''),
+      `Generated on ${now.toISOString().slice(0, 10)}`
+    ];
+
+    const sections = [this.breakdown('Category Breakdown', 'Category', expenses, amounts, total, currency, expense => expense.category)];
+
+    const months = monthIndex(range.endYear, range.endMonth) - monthIndex(range.startYear, range.startMonth) + 1;
+    if (report.groupBy === ReportGroupBy.MONTH && months > 1) {
+      sections.unshift(this.breakdown('Monthly Breakdown', 'Month', expenses, amounts, total, currency,
+        expense => monthLabel(expense.year, expense.month), false));
+    } else if (report.groupBy === ReportGroupBy.YEAR && range.startYear !== range.endYear) {
+      sections.unshift(this.breakdown('Yearly Breakdown', 'Year', expenses, amounts, total, currency,
+        expense => String(expense.year), false));
+    }
+
+    sections.push({
+      heading: 'Detailed Expense List',
+      columns: [
+        { header: 'Month' },
+        { header: 'Category' },
+        { header: 'Cost Center' },
+        { header: 'Description' },
+        { header: 'Vendor' },
+        { header: 'Amount', amount: true },
+        { header: 'Currency' },
+        { header: `Amount (${currency})`, amount: true }
+      ],
+      rows: expenses.map((expense, index) => [
+        monthLabel(expense.year, expense.month),
+        expense.category,
+        expense.costCenter,
+        expense.description,
+        expense.vendor,
+        expense.amount,
+        expense.currency,
+        roundAmount(amounts[index] ?? 0)
+      ])
+    });
+
+    return { title: report.name, lines, sections };
+  }
+
+  // Totals per key, largest first unless the keys are periods, which stay in order
+  private static breakdown(
+    heading: string,
+    label: string,
+    expenses: ExpenseResponse[],
+    amounts: number[],
+    total: number,
+    currency: string,
+    keyOf: (expense: ExpenseResponse) => string,
+    byAmount = true
+  ): ReportSection {
+    const totals = new Map<string, { amount: number; count: number }>();
+    expenses.forEach((expense, index) => {
+      const entry = totals.get(keyOf(expense)) ?? { amount: 0, count: 0 };
+      entry.amount += amounts[index] ?? 0;
+      entry.count++;
+      totals.set(keyOf(expense), entry);
+    });
+
+    const entries = [...totals.entries()];
+    if (byAmount) {
+      entries.sort(([, a], [, b]) => b.amount - a.amount);
+    }
+
+    return {
+      heading,
+      columns: [
+        { header: label },
+        { header: `Amount (${currency})`, amount: true },
+        { header: '% of Total' },
+        { header: 'Expenses' }
+      ],
+      rows: entries.map(([key, entry]) => [key, roundAmount(entry.amount), percentageOf(entry.amount, total), entry.count])
+    };
+  }
+
+  private static renderPdf(document: ReportDocument): Buffer {
+    return renderPdfDocument({
+      title: document.title,
+      lines: document.lines,
+      sections: document.sections.map(section => ({
+        heading: section.heading,
+        headers: section.columns.map(column => column.header),
+        rows: section.rows.map(row => row.map((cell, index) => ExportService.formatCell(cell, section.columns[index]?.amount))),
+        rightAligned: section.columns.flatMap((column, index) => column.amount ? [index] : [])
+      }))
+    });
+  }
+
+  // Sections follow each other in one sheet, separated by a blank row
+  private static renderCsv(document: ReportDocument): Buffer {
+    return Buffer.from(formatCsv([
+      [document.title],
+      ...document.lines.map(line => [line]),
+      ...document.sections.flatMap(section => [
+        [],
+        [section.heading],
+        section.columns.map(column => column.header),
+        ...section.rows
+      ])
+    ]), 'utf8');
+  }
+}
\ No newline at end of file
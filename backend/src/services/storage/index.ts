@@ -0,0 +1,29 @@
+import { config } from '../../config/environment';
+import { AttachmentStorage } from './storage';
+import { LocalStorage } from './localStorage';
+import { S3Storage } from './s3Storage';
+
+export { AttachmentStorage } from './storage';
+
+// S3 requests give up after this long
+const S3_TIMEOUT_MS = 30000;
+
+let storage: AttachmentStorage | null = null;
+
+// The attachment storage chosen by ATTACHMENT_STORAGE
+export const getStorage = (): AttachmentStorage => {
+  if (!storage) {
+    storage = config.ATTACHMENT_STORAGE === 's3'
+      ? new S3Storage({
+          endpoint: config.S3_ENDPOINT,
+          region: config.S3_REGION,
+          bucket: config.S3_BUCKET,
+          accessKeyId: config.S3_ACCESS_KEY_ID,
+          secretAccessKey: config.S3_SECRET_ACCESS_KEY,
+          timeoutMs: S3_TIMEOUT_MS
+        })
+      : new LocalStorage({ directory: config.ATTACHMENT_DIR });
+  }
+
+  return storage;
+};
\ No newline at end of file
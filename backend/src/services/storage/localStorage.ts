@@ -0,0 +1,40 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { AttachmentStorage } from './storage';
+
+export interface LocalStorageOptions {
+  directory: string;
+}
+
+// Keeps attachments as files under a directory of the server's filesystem
+export class LocalStorage implements AttachmentStorage {
+  private readonly root: string;
+
+  constructor(options: LocalStorageOptions) {
+    this.root = path.resolve(options.directory);
+  }
+
+  // Keys never resolve outside the storage directory
+  private pathOf(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid attachment key ${key}`);
+    }
+
+    return file;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const file = this.pathOf(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, body);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.pathOf(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathOf(key), { force: true });
+  }
+}
\ No newline at end of file
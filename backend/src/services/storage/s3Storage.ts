@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import { AttachmentStorage } from './storage';
+
+export interface S3StorageOptions {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  timeoutMs: number;
+}
+
+const sha256 = (data: string | Buffer): string => crypto.createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string): Buffer => crypto.createHmac('sha256', key).update(data).digest();
+
+// S3 escapes everything but unreserved characters in paths
+const encodeSegment = (segment: string): string =>
+  encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+// Keeps attachments as objects of a bucket in S3 or an S3-compatible service
+// such as MinIO. Objects are addressed path-style (endpoint/bucket/key) and
+// requests are signed with AWS Signature Version 4.
+export class S3Storage implements AttachmentStorage {
+  constructor(private readonly options: S3StorageOptions) {}
+
+  private async request(method: 'GET' | 'PUT' | 'DELETE', key: string, body?: Buffer, contentType?: string): Promise<Response> {
+    const { endpoint, region, bucket, accessKeyId, secretAccessKey, timeoutMs } = this.options;
+    if (!bucket) {
+      throw new Error('S3 storage is not configured (S3_BUCKET is empty)');
+    }
+
+    const url = new URL(`/${[bucket, ...key.split('/')].map(encodeSegment).join('/')}`, endpoint);
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const date = amzDate.slice(0, 8);
+    const payloadHash = sha256(body ?? '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    const signedHeaders = Object.keys(headers).sort().join(';');
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      ...Object.keys(headers).sort().map(name => `${name}:${headers[name]}`),
+      '',
+      signedHeaders,
+      payloadHash
+    ].join('\n');
+
+    const scope = `${date}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, date), region), 's3'), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return fetch(url, {
+      method,
+      headers: {
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+        ...(contentType ? { 'Content-Type': contentType } : {})
+      },
+      ...(body ? { body } : {}),
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, body, contentType);
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${key} responded with HTTP ${response.status}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.request('GET', key);
+    if (!response.ok) {
+      throw new Error(`S3 GET ${key} responded with HTTP ${response.status}`);
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE ${key} responded with HTTP ${response.status}`);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,8 @@
+// Keeps attachment files by key. Keys are generated by the attachment service
+// and only contain letters, digits, dashes and slashes.
+export interface AttachmentStorage {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  // Deleting a key that doesn't exist is not an error
+  delete(key: string): Promise<void>;
+}
\ No newline at end of file
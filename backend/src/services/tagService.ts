@@ -0,0 +1,44 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { TagResponse } from '../types/tag';
+import { DatabaseError } from '../utils/errors';
+import { logger } from '../utils/logger';
+
+export class TagService {
+  // Get the tags of an organization's expenses by name. Tags whose expenses are
+  // all gone or in the trash are left out.
+  static async getTags(organizationId: number): Promise<TagResponse[]> {
+    try {
+      const tags = await prisma.tag.findMany({
+        where: { organizationId, costs: { some: { cost: { deletedAt: null } } } },
+        include: { _count: { select: { costs: { where: { cost: { deletedAt: null } } } } } },
+        orderBy: { name: 'asc' }
+      });
+
+      return tags.map(tag => ({ id: tag.id, name: tag.name, costCount: tag._count.costs }));
+    } catch (error) {
+      logger.error('Failed to retrieve tags:', error);
+      throw new DatabaseError('Failed to retrieve tags');
+    }
+  }
+
+  // Links of an expense to the given tag names, for a nested create of its
+  // tags. Tags are created the first time they are used.
+  static async tagLinks(
+    organizationId: number,
+    names: string[],
+    client: Prisma.TransactionClient = prisma
+  ): Promise<{ tagId: number }[]> {
+    const uniqueNames = [...new Set(names.map(name => name.trim().toLowerCase()).filter(name => name !== ''))];
+
+    const tags = await Promise.all(uniqueNames.map(name =>
+      client.tag.upsert({
+        where: { organizationId_name: { organizationId, name } },
+        create: { organizationId, name },
+        update: {}
+      })
+    ));
+
+    return tags.map(tag => ({ tagId: tag.id }));
+  }
+}
\ No newline at end of file
@@ -1,68 +1,150 @@
 import cron from 'node-cron';
 import { ArchiveService } from '../services/archiveService';
+import { OrganizationService } from '../services/organizationService';
+import { BudgetAlertService } from '../services/budgetAlertService';
+import { ScheduledReportService } from '../services/scheduledReportService';
+import { RecurringTemplateService } from '../services/recurringTemplateService';
+import { AnomalyService } from '../services/anomalyService';
+import { ExpenseService } from '../services/expenseService';
+import { config } from '../config/environment';
 import { logger } from '../utils/logger';
 import { queryMonitor } from '../middleware/queryMonitoring';
 
 export class ScheduledTasks {
   private static tasks: cron.ScheduledTask[] = [];
+  // One task per active scheduled report, keyed by report ID
+  private static reportTasks = new Map<number, { schedule: string; task: ReturnType<typeof cron.createTask> }>();
+  private static started = false;
 
   // Initialize all scheduled tasks
   static initialize() {
     logger.info('Initializing scheduled tasks...');
 
+    const taskOptions = {
+      scheduled: false, // Don't start immediately
+      timezone: process.env.TZ || 'UTC'
+    };
+
     // Archive old data monthly (1st day of month at 2 AM)
     const archiveTask = cron.schedule('0 2 1 * *', async () => {
       logger.info('Starting scheduled data archival...');
       try {
-        const result = await ArchiveService.archiveOldData({
-          retentionYears: parseInt(process.env.DATA_RETENTION_YEARS || '10'),
-          batchSize: parseInt(process.env.ARCHIVE_BATCH_SIZE || '1000')
-        });
-        
-        logger.info('Scheduled archival completed:', result);
+        // Archive each organization separately so one tenant's data never lands in another's batch
+        for (const organizationId of await OrganizationService.getAllOrganizationIds()) {
+          const result = await ArchiveService.archiveOldData(organizationId, {
+            retentionYears: parseInt(process.env.DATA_RETENTION_YEARS || '10'),
+            batchSize: parseInt(process.env.ARCHIVE_BATCH_SIZE || '1000')
+          });
+
+          logger.info(`Scheduled archival completed for organization ${organizationId}:`, result);
+        }
       } catch (error) {
         logger.error('Scheduled archival failed:', error);
       }
-    }, {
-      scheduled: false, // Don't start immediately
-      timezone: process.env.TZ || 'UTC'
-    });
+    }, taskOptions);
 
     // Performance metrics reset weekly (Sunday at midnight)
     const metricsResetTask = cron.schedule('0 0 * * 0', () => {
       logger.info('Resetting performance metrics...');
       queryMonitor.resetMetrics();
       logger.info('Performance metrics reset completed');
-    }, {
-      scheduled: false,
-      timezone: process.env.TZ || 'UTC'
-    });
+    }, taskOptions);
 
     // Database maintenance monthly (15th day at 3 AM)
     const maintenanceTask = cron.schedule('0 3 15 * *', async () => {
       logger.info('Starting database maintenance...');
       try {
-        // Get archive statistics
-        const stats = await ArchiveService.getArchiveStats();
-        logger.info('Archive statistics:', stats);
-
-        // Clean up very old archives if configured
-        if (process.env.CLEANUP_OLD_ARCHIVES === 'true') {
-          const maxArchiveYears = parseInt(process.env.MAX_ARCHIVE_YEARS || '20');
-          const cleanedCount = await ArchiveService.cleanupOldArchives('costs_archive', maxArchiveYears);
-          logger.info(`Cleaned up ${cleanedCount} very old archived records`);
+        for (const organizationId of await OrganizationService.getAllOrganizationIds()) {
+          // Get archive statistics
+          const stats = await ArchiveService.getArchiveStats(organizationId);
+          logger.info(`Archive statistics for organization ${organizationId}:`, stats);
+
+          // Clean up very old archives if configured
+          if (process.env.CLEANUP_OLD_ARCHIVES === 'true') {
+            const maxArchiveYears = parseInt(process.env.MAX_ARCHIVE_YEARS || '20');
+            const cleanedCount = await ArchiveService.cleanupOldArchives(organizationId, 'costs_archive', maxArchiveYears);
+            logger.info(`Cleaned up ${cleanedCount} very old archived records for organization ${organizationId}`);
+          }
         }
 
         logger.info('Database maintenance completed');
       } catch (error) {
         logger.error('Database maintenance failed:', error);
       }
-    }, {
-      scheduled: false,
-      timezone: process.env.TZ || 'UTC'
-    });
+    }, taskOptions);
 
-    this.tasks = [archiveTask, metricsResetTask, maintenanceTask];
+    // Budget alerts hourly, to pick up budget changes and retry failed deliveries
+    const budgetAlertTask = cron.schedule('0 * * * *', async () => {
+      logger.info('Checking budget alerts...');
+      try {
+        const now = new Date();
+        for (const organizationId of await OrganizationService.getAllOrganizationIds()) {
+          const sentCount = await BudgetAlertService.checkMonth(organizationId, now.getMonth() + 1, now.getFullYear());
+          if (sentCount > 0) {
+            logger.info(`Sent ${sentCount} budget alerts for organization ${organizationId}`);
+          }
+        }
+      } catch (error) {
+        logger.error('Budget alert check failed:', error);
+      }
+    }, taskOptions);
+
+    // Recurring expenses daily (at 00:15), creating the costs of periods that have
+    // opened; templates that are already up to date are left alone
+    const recurringExpenseTask = cron.schedule('15 0 * * *', async () => {
+      logger.info('Generating recurring expenses...');
+      try {
+        for (const organizationId of await OrganizationService.getAllOrganizationIds()) {
+          const createdCount = await RecurringTemplateService.generateDue(organizationId);
+          if (createdCount > 0) {
+            logger.info(`Created ${createdCount} recurring expenses for organization ${organizationId}`);
+          }
+        }
+      } catch (error) {
+        logger.error('Recurring expense generation failed:', error);
+      }
+    }, taskOptions);
+
+    // Anomaly scan daily (at 01:00), after the recurring expenses are created, to
+    // pick up imports, generated costs and new exchange rates
+    const anomalyScanTask = cron.schedule('0 1 * * *', async () => {
+      logger.info('Scanning expenses for anomalies...');
+      try {
+        for (const organizationId of await OrganizationService.getAllOrganizationIds()) {
+          await AnomalyService.scanOrganization(organizationId);
+        }
+      } catch (error) {
+        logger.error('Anomaly scan failed:', error);
+      }
+    }, taskOptions);
+
+    // Trash purge daily (at 02:30), permanently deleting expenses trashed more than
+    // TRASH_RETENTION_DAYS ago
+    const trashPurgeTask = cron.schedule('30 2 * * *', async () => {
+      logger.info('Purging trashed expenses...');
+      try {
+        for (const organizationId of await OrganizationService.getAllOrganizationIds()) {
+          const purgedCount = await ExpenseService.purgeTrash(organizationId, config.TRASH_RETENTION_DAYS);
+          if (purgedCount > 0) {
+            logger.info(`Purged ${purgedCount} trashed expenses for organization ${organizationId}`);
+          }
+        }
+      } catch (error) {
+        logger.error('Trash purge failed:', error);
+      }
+    }, taskOptions);
+
+    // Scheduled reports are created and changed through the API, so their tasks
+    // are brought in line with the database every minute
+    const reportSyncTask = cron.schedule('* * * * *', async () => {
+      try {
+        await this.syncReportTasks();
+      } catch (error) {
+        logger.error('Scheduled report sync failed:', error);
+      }
+    }, taskOptions);
+
+    this.tasks = [archiveTask, metricsResetTask, maintenanceTask, budgetAlertTask, recurringExpenseTask, anomalyScanTask, trashPurgeTask, reportSyncTask];
 
     // Start tasks only in production or if explicitly enabled
     if (process.env.NODE_ENV === 'production' || process.env.ENABLE_SCHEDULED_TASKS === 'true') {
@@ -75,30 +157,76 @@ export class ScheduledTasks {
 
   // Start all tasks
   static startAll() {
+    this.started = true;
     this.tasks.forEach(task => task.start());
+    this.syncReportTasks().catch(error => {
+      logger.error('Scheduled report sync failed:', error);
+    });
   }
 
   // Stop all tasks
   static stopAll() {
+    this.started = false;
     this.tasks.forEach(task => task.stop());
+    this.reportTasks.forEach(({ task }) => task.destroy());
+    this.reportTasks.clear();
     logger.info('All scheduled tasks stopped');
   }
 
+  // Start a task for every active scheduled report and stop those of reports that
+  // were paused, deleted or rescheduled
+  static async syncReportTasks() {
+    const schedules = await ScheduledReportService.getActiveSchedules();
+    if (!this.started) {
+      return;
+    }
+
+    const active = new Map(schedules.map(report => [report.id, report.schedule]));
+
+    this.reportTasks.forEach(({ schedule, task }, id) => {
+      if (active.get(id) !== schedule) {
+        task.destroy();
+        this.reportTasks.delete(id);
+      }
+    });
+
+    active.forEach((schedule, id) => {
+      if (this.reportTasks.has(id)) {
+        return;
+      }
+
+      const task = cron.createTask(schedule, async () => {
+        try {
+          const delivery = await ScheduledReportService.runScheduledReport(id);
+          if (delivery) {
+            logger.info(`Scheduled report ${id} ${delivery.status === 'SENT' ? 'sent' : 'failed'}`);
+          }
+        } catch (error) {
+          logger.error(`Scheduled report ${id} failed:`, error);
+        }
+      }, { name: `scheduled-report-${id}`, timezone: process.env.TZ || 'UTC', noOverlap: true });
+
+      task.start();
+      this.reportTasks.set(id, { schedule, task });
+    });
+  }
+
   // Get task status
   static getStatus() {
     return {
       totalTasks: this.tasks.length,
       runningTasks: this.tasks.filter(task => task.getStatus() === 'scheduled').length,
+      scheduledReports: this.reportTasks.size,
       environment: process.env.NODE_ENV,
       scheduledTasksEnabled: process.env.ENABLE_SCHEDULED_TASKS === 'true' || process.env.NODE_ENV === 'production'
     };
   }
 
-  // Manual trigger for archival (for testing or manual execution)
-  static async triggerArchival(retentionYears?: number) {
-    logger.info('Manually triggering data archival...');
+  // Manual trigger for archival of one organization (for testing or manual execution)
+  static async triggerArchival(organizationId: number, retentionYears?: number) {
+    logger.info(`Manually triggering data archival for organization ${organizationId}...`);
     try {
-      const result = await ArchiveService.archiveOldData({
+      const result = await ArchiveService.archiveOldData(organizationId, {
         retentionYears: retentionYears || parseInt(process.env.DATA_RETENTION_YEARS || '10'),
         batchSize: parseInt(process.env.ARCHIVE_BATCH_SIZE || '1000')
       });
@@ -111,16 +239,72 @@ export class ScheduledTasks {
     }
   }
 
-  // Manual trigger for maintenance
-  static async triggerMaintenance() {
-    logger.info('Manually triggering database maintenance...');
+  // Manual trigger for the budget alert check of one organization's current month
+  static async triggerBudgetAlerts(organizationId: number) {
+    logger.info(`Manually triggering budget alert check for organization ${organizationId}...`);
+    try {
+      const now = new Date();
+      const sentCount = await BudgetAlertService.checkMonth(organizationId, now.getMonth() + 1, now.getFullYear());
+      logger.info(`Manual budget alert check completed: ${sentCount} alerts sent`);
+      return { sentCount };
+    } catch (error) {
+      logger.error('Manual budget alert check failed:', error);
+      throw error;
+    }
+  }
+
+  // Manual trigger for recurring expense generation of one organization
+  static async triggerRecurringExpenses(organizationId: number) {
+    logger.info(`Manually triggering recurring expenses for organization ${organizationId}...`);
+    try {
+      const createdCount = await RecurringTemplateService.generateDue(organizationId);
+      logger.info(`Manual recurring expense generation completed: ${createdCount} expenses created`);
+      return { createdCount };
+    } catch (error) {
+      logger.error('Manual recurring expense generation failed:', error);
+      throw error;
+    }
+  }
+
+  // Manual trigger for the anomaly scan of one organization
+  static async triggerAnomalyScan(organizationId: number) {
+    logger.info(`Manually triggering anomaly scan for organization ${organizationId}...`);
+    try {
+      const result = await AnomalyService.scanOrganization(organizationId);
+      logger.info(`Manual anomaly scan completed: ${result.flagged} flagged, ${result.cleared} cleared`);
+      return result;
+    } catch (error) {
+      logger.error('Manual anomaly scan failed:', error);
+      throw error;
+    }
+  }
+
+  // Manual trigger for the trash purge of one organization
+  static async triggerTrashPurge(organizationId: number, retentionDays?: number) {
+    logger.info(`Manually triggering trash purge for organization ${organizationId}...`);
+    try {
+      const purgedCount = await ExpenseService.purgeTrash(
+        organizationId,
+        retentionDays ?? config.TRASH_RETENTION_DAYS
+      );
+      logger.info(`Manual trash purge completed: ${purgedCount} expenses purged`);
+      return { purgedCount };
+    } catch (error) {
+      logger.error('Manual trash purge failed:', error);
+      throw error;
+    }
+  }
+
+  // Manual trigger for maintenance of one organization
+  static async triggerMaintenance(organizationId: number) {
+    logger.info(`Manually triggering database maintenance for organization ${organizationId}...`);
     try {
-      const stats = await ArchiveService.getArchiveStats();
+      const stats = await ArchiveService.getArchiveStats(organizationId);
       logger.info('Archive statistics:', stats);
 
       if (process.env.CLEANUP_OLD_ARCHIVES === 'true') {
         const maxArchiveYears = parseInt(process.env.MAX_ARCHIVE_YEARS || '20');
-        const cleanedCount = await ArchiveService.cleanupOldArchives('costs_archive', maxArchiveYears);
+        const cleanedCount = await ArchiveService.cleanupOldArchives(organizationId, 'costs_archive', maxArchiveYears);
         logger.info(`Cleaned up ${cleanedCount} very old archived records`);
         return { stats, cleanedCount };
       }
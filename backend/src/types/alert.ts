@@ -0,0 +1,71 @@
+import { AlertChannel, AlertStatus } from '@prisma/client';
+
+// Re-export Prisma types for consistency
+export { AlertChannel, AlertStatus } from '@prisma/client';
+
+// What a notifier is asked to deliver when a category crosses an alert threshold
+export interface BudgetAlertMessage {
+  organizationId: number;
+  organizationName: string;
+  category: string; // Category name
+  month: number;
+  year: number;
+  thresholdPercent: number;
+  budget: number;
+  actual: number;
+  currency: string; // Reporting currency of budget and actual
+  percentUsed: number;
+}
+
+// API Request types
+export interface CreateAlertRuleRequest {
+  categoryId?: number; // Omitted to watch every category
+  thresholdPercent: number;
+  channel: AlertChannel;
+  target: string;
+}
+
+export interface UpdateAlertRuleRequest {
+  thresholdPercent?: number;
+  target?: string;
+  isActive?: boolean;
+}
+
+// API Response types
+export interface AlertRuleResponse {
+  id: number;
+  categoryId: number | null;
+  category: string | null; // Category name
+  thresholdPercent: number;
+  channel: AlertChannel;
+  target: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AlertResponse {
+  id: number;
+  ruleId: number;
+  categoryId: number;
+  category: string; // Category name
+  month: number;
+  year: number;
+  thresholdPercent: number;
+  budgetAmount: number;
+  actualAmount: number;
+  channel: AlertChannel;
+  target: string;
+  status: AlertStatus;
+  error: string | null;
+  createdAt: string;
+}
+
+// Query parameters for alert history
+export interface AlertQuery {
+  year?: number;
+  month?: number;
+  status?: AlertStatus;
+  limit?: number;
+  offset?: number;
+}
\ No newline at end of file
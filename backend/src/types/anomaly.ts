@@ -0,0 +1,63 @@
+import { AnomalyStatus } from '@prisma/client';
+
+// Re-export Prisma types for consistency
+export { AnomalyStatus } from '@prisma/client';
+
+// How far a month's spend is from the history it was compared with
+export interface OutlierResult {
+  expected: number; // Median of the history
+  zScore: number | null; // null when the history never varies
+  lowerBound: number;
+  upperBound: number;
+}
+
+// API Request types
+export interface ReviewAnomalyRequest {
+  status: AnomalyStatus;
+}
+
+// API Response types
+export interface AnomalyResponse {
+  id: number;
+  categoryId: number;
+  category: string; // Category name
+  parentCategoryId: number | null;
+  parentCategory: string | null;
+  month: number;
+  year: number;
+  amount: number; // The month's spend, in currency
+  expected: number;
+  zScore: number | null;
+  lowerBound: number;
+  upperBound: number;
+  currency: string; // Reporting currency
+  status: AnomalyStatus;
+  reviewedBy: string | null; // Reviewer's name
+  reviewedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What an expense response says about an anomaly in its category and month
+export interface AnomalyFlag {
+  id: number;
+  status: AnomalyStatus;
+  amount: number; // The month's spend in the category, in the reporting currency
+  expected: number;
+  zScore: number | null;
+}
+
+// Query parameters for listing anomalies
+export interface AnomalyQuery {
+  status?: AnomalyStatus;
+  categoryId?: number;
+  year?: number;
+  limit?: number;
+  offset?: number;
+}
+
+// Outcome of checking an organization's recent months
+export interface AnomalyScanResult {
+  flagged: number; // Category months that are outliers
+  cleared: number; // Stored anomalies that no longer are
+}
\ No newline at end of file
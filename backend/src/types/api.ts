@@ -32,8 +32,10 @@ export interface PaginatedResponse<T> {
   pagination: {
     total: number;
     limit: number;
-    offset: number;
+    offset?: number;
     hasMore: boolean;
+    // Lists with keyset paging give the cursor of the next page instead of an offset
+    nextCursor?: string | null;
   };
   timestamp: string;
 }
@@ -48,6 +50,7 @@ export enum HttpStatus {
   FORBIDDEN = 403,
   NOT_FOUND = 404,
   CONFLICT = 409,
+  REQUEST_TOO_LARGE = 413,
   UNPROCESSABLE_ENTITY = 422,
   INTERNAL_SERVER_ERROR = 500,
 }
@@ -60,4 +63,9 @@ export enum ApiErrorCode {
   INTERNAL_ERROR = 'INTERNAL_ERROR',
   DATABASE_ERROR = 'DATABASE_ERROR',
   INVALID_INPUT = 'INVALID_INPUT',
+  UNAUTHORIZED = 'UNAUTHORIZED',
+  FORBIDDEN = 'FORBIDDEN',
+  PERIOD_LOCKED = 'PERIOD_LOCKED',
+  INVALID_STATUS = 'INVALID_STATUS',
+  REQUEST_TOO_LARGE = 'REQUEST_TOO_LARGE',
 }
\ No newline at end of file
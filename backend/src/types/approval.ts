@@ -0,0 +1,48 @@
+import { CostStatus } from '@prisma/client';
+
+// Re-export Prisma types for consistency
+export { CostStatus } from '@prisma/client';
+
+// The amount and period of a cost, which decide whether it needs approval
+export interface ApprovalCandidate {
+  amount: number;
+  currency: string;
+  month: number;
+  year: number;
+}
+
+// An organization's approval threshold, with a converter for comparing amounts
+// in other currencies against it
+export interface ApprovalPolicy {
+  threshold: number | null; // In the reporting currency; null when nothing needs approval
+  statusFor(cost: ApprovalCandidate): CostStatus;
+}
+
+// API Request types
+export interface ReviewExpenseRequest {
+  comment?: string | null;
+}
+
+export interface UpdateApprovalThresholdRequest {
+  threshold: number | null;
+}
+
+// Paging of the approvals queue, oldest submission first
+export interface ApprovalQueueQuery {
+  limit?: number;
+  offset?: number;
+}
+
+// API Response types
+export interface CostStatusChangeResponse {
+  id: number;
+  costId: number;
+  fromStatus: CostStatus | null;
+  toStatus: CostStatus;
+  user: {
+    id: number;
+    name: string;
+  } | null;
+  comment: string | null;
+  createdAt: string;
+}
\ No newline at end of file
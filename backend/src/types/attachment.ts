@@ -0,0 +1,29 @@
+// A file uploaded for a cost, before it is stored
+export interface AttachmentUpload {
+  fileName: string;
+  contentType: string;
+  file: Buffer;
+}
+
+// API Request types
+export interface UploadAttachmentQuery {
+  fileName: string;
+}
+
+// API Response types
+export interface AttachmentResponse {
+  id: number;
+  costId: number;
+  fileName: string;
+  contentType: string;
+  size: number; // In bytes
+  uploadedBy: string | null; // Name of the user who uploaded the file
+  createdAt: string;
+}
+
+// A stored file being downloaded
+export interface AttachmentDownload {
+  fileName: string;
+  contentType: string;
+  file: Buffer;
+}
\ No newline at end of file
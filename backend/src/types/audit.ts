@@ -0,0 +1,30 @@
+import { CostAuditAction } from '@prisma/client';
+
+// Re-export Prisma types for consistency
+export { CostAuditAction } from '@prisma/client';
+
+// Who made a change and from where, recorded with each audit entry
+export interface AuditContext {
+  userId: number | null;
+  ipAddress: string | null;
+}
+
+// API Response types
+export interface CostAuditLogResponse {
+  id: number;
+  costId: number;
+  action: CostAuditAction;
+  categoryId: number;
+  category: string; // Category name
+  month: number;
+  year: number;
+  oldAmount: number | null;
+  newAmount: number | null;
+  user: {
+    id: number;
+    name: string;
+    email: string;
+  } | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { UserRole } from '@prisma/client';
+
+// Re-export Prisma types for consistency
+export { UserRole } from '@prisma/client';
+
+// Actions a role can be granted
+export enum Permission {
+  EXPENSES_READ = 'expenses:read',
+  EXPENSES_WRITE = 'expenses:write',
+  EXPENSES_APPROVE = 'expenses:approve',
+  ADMIN = 'admin',
+}
+
+// Authenticated user attached to the request by the auth middleware
+export interface AuthenticatedUser {
+  id: number;
+  email: string;
+  name: string;
+  role: UserRole;
+}
+
+// Claims carried in a signed access token
+export interface AccessTokenPayload {
+  sub: number;
+  email: string;
+  name: string;
+  role: UserRole;
+}
+
+// API Request types
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
+// API Response types
+export interface UserResponse {
+  id: number;
+  email: string;
+  name: string;
+  role: UserRole;
+  permissions: Permission[];
+  lastLoginAt: string | null;
+  createdAt: string;
+}
+
+export interface AuthTokensResponse {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number; // Access token lifetime in seconds
+  user: UserResponse;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
\ No newline at end of file
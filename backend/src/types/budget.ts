@@ -0,0 +1,59 @@
+// API Request types
+export interface CreateBudgetRequest {
+  categoryId: number;
+  amount: number;
+  month?: number; // Omitted for a yearly total
+  year: number;
+}
+
+export interface UpdateBudgetRequest {
+  amount: number;
+}
+
+// API Response types
+export interface BudgetResponse {
+  id: number;
+  categoryId: number;
+  category: string; // Category name, for display
+  amount: number;
+  month: number | null;
+  year: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Query parameters for filtering budgets
+export interface BudgetQuery {
+  year?: number;
+  month?: number;
+  categoryId?: number;
+  yearly?: boolean; // Only yearly totals when true, only monthly budgets when false
+}
+
+// Query parameters for the budget-vs-actual report
+export interface VarianceQuery {
+  year: number;
+  month?: number;
+}
+
+// Planned and actual spend for one category. Variance is actual minus budget,
+// so a positive value means the category is over budget. A top-level category's
+// actual spend includes its sub-categories.
+export interface CategoryVariance {
+  categoryId: number;
+  category: string;
+  parentCategoryId: number | null;
+  color: string;
+  budget: number;
+  actual: number;
+  variance: number;
+  variancePercent: number | null; // Null when nothing was budgeted
+}
+
+export interface VarianceResponse {
+  year: number;
+  month: number | null;
+  currency: string; // Budgets and actual spend are in the reporting currency
+  categories: CategoryVariance[];
+  totals: Omit<CategoryVariance, 'categoryId' | 'category' | 'parentCategoryId' | 'color'>;
+}
\ No newline at end of file
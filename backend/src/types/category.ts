@@ -0,0 +1,33 @@
+// API Request types
+export interface CreateCategoryRequest {
+  parentId?: number; // Makes this a sub-category of a top-level category
+  name: string;
+  color: string;
+  displayOrder?: number; // Defaults to after the last category
+}
+
+export interface UpdateCategoryRequest {
+  parentId?: number | null; // Null moves a sub-category to the top level
+  name?: string;
+  color?: string;
+  displayOrder?: number;
+  archived?: boolean; // False restores an archived category
+}
+
+// API Response types
+export interface CategoryResponse {
+  id: number;
+  parentId: number | null;
+  name: string;
+  color: string;
+  displayOrder: number;
+  archived: boolean;
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Query parameters for listing categories
+export interface CategoryQuery {
+  includeArchived?: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,39 @@
+// API Request types
+export interface CreateCommentRequest {
+  body: string;
+  mentions?: number[]; // IDs of the @mentioned users
+}
+
+export interface UpdateCommentRequest {
+  body: string;
+  mentions?: number[]; // Replaces the comment's mentions
+}
+
+// Paging of a cost's thread, oldest comment first
+export interface CommentQuery {
+  limit?: number;
+  offset?: number;
+}
+
+// API Response types
+export interface CommentUser {
+  id: number;
+  name: string;
+}
+
+export interface CommentResponse {
+  id: number;
+  costId: number;
+  body: string;
+  author: CommentUser | null; // Null once the author's account is gone
+  mentions: CommentUser[];
+  createdAt: string;
+  editedAt: string | null;
+}
+
+// Comments on a cost that the current user hasn't read yet
+export interface UnreadCommentsResponse {
+  costId: number;
+  unreadCount: number;
+  mentioned: boolean; // Whether any of them mentions the user
+}
\ No newline at end of file
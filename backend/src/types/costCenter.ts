@@ -0,0 +1,24 @@
+// API Request types
+export interface CreateCostCenterRequest {
+  name: string;
+}
+
+export interface UpdateCostCenterRequest {
+  name?: string;
+  archived?: boolean; // False restores an archived cost center
+}
+
+// API Response types
+export interface CostCenterResponse {
+  id: number;
+  name: string;
+  archived: boolean;
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Query parameters for listing cost centers
+export interface CostCenterQuery {
+  includeArchived?: boolean;
+}
\ No newline at end of file
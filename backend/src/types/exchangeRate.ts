@@ -0,0 +1,49 @@
+// API Request types. One unit of the base currency is worth `rate` units of the
+// quote currency from the effective date on.
+export interface ExchangeRateInput {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  effectiveDate: Date;
+}
+
+export interface ImportExchangeRatesRequest {
+  rates: ExchangeRateInput[];
+}
+
+export interface UpdateReportingCurrencyRequest {
+  currency: string;
+}
+
+// API Response types
+export interface ExchangeRateResponse {
+  id: number;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+  effectiveDate: string; // YYYY-MM-DD
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Query parameters for listing exchange rates
+export interface ExchangeRateQuery {
+  baseCurrency?: string;
+  quoteCurrency?: string;
+}
+
+// Converts an organization's amounts into its reporting currency
+export interface CurrencyConverter {
+  reportingCurrency: string;
+  // Null when no rate is in effect at the end of the given month
+  convert(amount: number, currency: string, month: number, year: number): number | null;
+}
+
+// The months in which a rate into the reporting currency is in effect, both ends
+// included; the newest rate of a currency has no end
+export interface RatePeriod {
+  currency: string;
+  rate: number;
+  start: { year: number; month: number };
+  end: { year: number; month: number } | null;
+}
\ No newline at end of file
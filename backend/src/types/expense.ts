@@ -1,55 +1,184 @@
-import { ExpenseCategory as PrismaExpenseCategory, Cost } from '@prisma/client';
+import { CostStatus, Prisma } from '@prisma/client';
+import { AnomalyFlag } from './anomaly';
+import { CurrencyConverter } from './exchangeRate';
 
-// Re-export Prisma types for consistency
-export { ExpenseCategory } from '@prisma/client';
+// A cost loaded together with its category, the category's parent, its cost center and its tags
+export type CostWithCategory = Prisma.CostGetPayload<{
+  include: {
+    category: { include: { parent: true } };
+    costCenter: true;
+    tags: { include: { tag: true } };
+    _count: { select: { attachments: true; comments: true } };
+  };
+}>;
 
 // Core expense data interface
 export interface ExpenseData {
   id: number;
-  category: PrismaExpenseCategory;
+  categoryId: number;
+  category: string;
+  costCenterId: number | null;
   amount: number;
+  currency: string;
   month: number;
   year: number;
+  description: string | null;
+  vendor: string | null;
+  invoiceNumber: string | null;
+  invoiceDate: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
 // API Request types
-export interface CreateExpenseRequest {
-  category: PrismaExpenseCategory;
+// A category can have many line items per month, told apart by their details
+export interface LineItemDetails {
+  description?: string | null;
+  vendor?: string | null;
+  invoiceNumber?: string | null;
+  invoiceDate?: Date | null;
+  notes?: string | null;
+}
+
+export interface CreateExpenseRequest extends LineItemDetails {
+  categoryId: number;
+  costCenterId?: number;
   amount: number;
+  currency?: string; // Defaults to the organization's reporting currency
   month: number;
   year: number;
+  draft?: boolean; // Saved as a draft instead of being submitted
+  tags?: string[];
 }
 
-export interface UpdateExpenseRequest {
+// Details left out are kept; null clears them
+export interface UpdateExpenseRequest extends LineItemDetails {
   amount: number;
+  currency?: string;
+  tags?: string[]; // Replaces the expense's tags; left out keeps them
 }
 
 // API Response types
 export interface ExpenseResponse {
   id: number;
-  category: PrismaExpenseCategory;
-  amount: number;
+  categoryId: number;
+  category: string; // Category name, for display
+  parentCategoryId: number | null; // Set when the category is a sub-category
+  parentCategory: string | null;
+  costCenterId: number | null;
+  costCenter: string | null;
+  amount: number; // As billed, in currency
+  currency: string;
+  convertedAmount: number | null; // In reportingCurrency; null when no exchange rate is in effect
+  reportingCurrency: string;
   month: number;
   year: number;
+  description: string | null;
+  vendor: string | null;
+  invoiceNumber: string | null;
+  invoiceDate: string | null; // YYYY-MM-DD
+  notes: string | null;
+  tags: string[]; // Tag names, alphabetically
+  status: CostStatus;
+  attachmentCount: number; // Receipts and invoices attached to the expense
+  commentCount: number; // Comments in the expense's discussion thread
   createdAt: string;
   updatedAt: string;
+  // Set by listings and saves when the category's spend that month is an
+  // outlier that has not been dismissed
+  anomaly?: AnomalyFlag | null;
+}
+
+// An expense in the trash, which can be restored until it is purged
+export interface TrashedExpenseResponse extends ExpenseResponse {
+  deletedAt: string;
+}
+
+// Paging of the trash, most recently deleted first
+export interface TrashQuery {
+  limit?: number;
+  offset?: number;
+}
+
+// One operation of a batch, validated like the matching single-expense route
+export type BatchOperation =
+  | { action: 'create'; data: CreateExpenseRequest }
+  | { action: 'update'; id: number; data: UpdateExpenseRequest }
+  | { action: 'delete'; id: number };
+
+export interface BatchRequest {
+  operations: BatchOperation[];
+  // Roll back every operation when one fails; otherwise only failed ones are left out
+  atomic: boolean;
+}
+
+// Operations before a failure in an atomic batch are rolled back, and those after
+// it are skipped
+export type BatchOperationStatus = 'succeeded' | 'failed' | 'rolled_back' | 'skipped';
+
+export interface BatchOperationResult {
+  index: number;
+  action: BatchOperation['action'];
+  status: BatchOperationStatus;
+  id: number | null; // Expense ID; null for a create that didn't succeed
+  expense: ExpenseResponse | null; // The saved expense of a succeeded create or update
+  error: { code: string; message: string } | null;
+}
+
+export interface BatchResponse {
+  committed: boolean; // False when an atomic batch was rolled back
+  succeeded: number;
+  failed: number;
+  results: BatchOperationResult[];
 }
 
 // Query parameters for filtering expenses
 export interface ExpenseQuery {
   year?: number;
   month?: number;
-  category?: PrismaExpenseCategory;
+  // Month range, inclusive. A start year without a month starts in January, an
+  // end year without one ends in December.
+  startYear?: number;
+  startMonth?: number;
+  endYear?: number;
+  endMonth?: number;
+  categoryId?: number; // A top-level category also matches its sub-categories
+  categoryIds?: number[]; // Any of the categories, each with its sub-categories
+  costCenterId?: number;
+  tagIds?: number[]; // Expenses with any of the tags
+  q?: string; // Full-text search over notes and tags
+  status?: CostStatus;
+  minAmount?: number; // In the reporting currency, compared with the converted amount
+  maxAmount?: number;
+  sortBy?: ExpenseSortField;
+  sortOrder?: SortOrder;
   limit?: number;
   offset?: number;
+  // Keyset paging instead of offset paging: empty for the first page, then the
+  // nextCursor of the previous page
+  cursor?: string;
 }
 
-// Chart data types
+// Position of an expense in the keyset order of year, month, category and id
+export interface ExpenseCursor {
+  year: number;
+  month: number;
+  categoryId: number;
+  id: number;
+}
+
+// Fields an expense list can be sorted by; date sorts by year and month
+export type ExpenseSortField = 'date' | 'amount' | 'category';
+
+export type SortOrder = 'asc' | 'desc';
+
+// Chart data types. Amounts of sub-categories are rolled up into their parent,
+// which lists them under subcategories.
 export interface CategoryAmount {
-  category: PrismaExpenseCategory;
+  categoryId: number;
+  category: string;
   amount: number;
+  subcategories?: CategoryAmount[];
 }
 
 export interface TrendData {
@@ -72,8 +201,10 @@ export interface TrendsQuery {
   endYear: number;
   startMonth?: number;
   endMonth?: number;
-  category?: PrismaExpenseCategory;
+  categoryId?: number; // A top-level category also matches its sub-categories
+  costCenterId?: number;
   groupBy?: 'month' | 'year' | 'category';
+  includeUnapproved?: boolean; // Count expenses that are not approved yet
 }
 
 // Monthly trend data point
@@ -93,13 +224,15 @@ export interface YearlyTrendData {
 
 // Category trend data point
 export interface CategoryTrendData {
-  category: PrismaExpenseCategory;
+  categoryId: number;
+  category: string;
   totalAmount: number;
   monthlyBreakdown: Array<{
     month: number;
     year: number;
     amount: number;
   }>;
+  subcategories?: CategoryAmount[]; // Totals of the category's sub-categories
 }
 
 // Trends API response
@@ -112,9 +245,10 @@ export interface TrendsApiResponse {
     lowestAmount: number;
     periodStart: string;
     periodEnd: string;
+    currency: string; // The organization's reporting currency
   };
   groupBy: 'month' | 'year' | 'category';
 }
 
 // Utility type to convert Prisma model to API response
-export type ExpenseToResponse = (expense: Cost) => ExpenseResponse;
\ No newline at end of file
+export type ExpenseToResponse = (expense: CostWithCategory, converter: CurrencyConverter) => ExpenseResponse;
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { CreateExpenseRequest } from './expense';
+
+// Fields a spreadsheet column can be mapped to. Categories and cost centers are
+// given by name.
+export type ImportField =
+  | 'category'
+  | 'costCenter'
+  | 'amount'
+  | 'currency'
+  | 'month'
+  | 'year'
+  | 'description'
+  | 'vendor'
+  | 'invoiceNumber'
+  | 'invoiceDate';
+
+export type ImportFileFormat = 'csv' | 'xlsx';
+
+// What to do with a row matching an existing expense
+export enum ImportConflictMode {
+  SKIP = 'skip', // Keep the existing expense and leave the row out
+  OVERWRITE = 'overwrite', // Replace the existing expense with the row
+  ADD = 'add' // Add the row as another line item
+}
+
+// Header of the column mapped to each field; unmapped fields fall back to a
+// column named like the field
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+
+// API Request types (sent as query parameters next to the uploaded file)
+export interface ImportOptions {
+  columns?: ImportColumnMapping;
+  onConflict: ImportConflictMode;
+}
+
+// API Response types
+export interface ImportRowPreview {
+  row: number; // Row number in the file, counting the header as row 1
+  expense: CreateExpenseRequest | null; // Null when the row has errors
+  errors: string[];
+  // An expense conflicts when it has the same category, month, year and invoice number
+  conflictingExpenseIds: number[];
+  duplicateOfRow: number | null; // An earlier row of the file with the same key
+}
+
+export interface ImportPreviewResponse {
+  headers: string[];
+  mapping: Record<ImportField, string | null>;
+  rows: ImportRowPreview[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    conflicts: number;
+    duplicates: number;
+  };
+}
+
+export interface ImportResultResponse {
+  created: number;
+  updated: number;
+  skipped: number;
+}
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { ExpenseQuery, TrendsQuery } from './expense';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'pdf';
+
+// Expenses are exported one line item per row; trends one category per period
+export type ExportType = 'expenses' | 'trends';
+
+// Query parameters: the type and format, plus the filters of GET /api/expenses
+// or GET /api/expenses/trends
+export type ExportQuery =
+  | { type: 'expenses'; format: ExportFormat; filters: ExpenseQuery }
+  | { type: 'trends'; format: ExportFormat; filters: TrendsQuery };
+
+export type ExportCell = string | number | null;
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+  amount?: boolean;
+}
+
+// Rows to export, rendered into the requested format
+export interface ExportTable {
+  title: string;
+  columns: ExportColumn[];
+  rows: ExportCell[][];
+}
+
+// A rendered export, sent as a file download
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+// An export sent while it is rendered, as chunks of text
+export interface ExportStream {
+  filename: string;
+  contentType: string;
+  content: AsyncIterable<string>;
+}
\ No newline at end of file
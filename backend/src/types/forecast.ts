@@ -0,0 +1,59 @@
+// Ways of projecting a monthly series forward
+export type ForecastMethod = 'linear' | 'moving_average' | 'seasonal_naive';
+
+// Forecast query parameters
+export interface ForecastQuery {
+  months: number; // Months to project, starting with the current one
+  method: ForecastMethod;
+  historyMonths: number; // Complete months before the current one to learn from
+  categoryId?: number; // A top-level category also matches its sub-categories
+  costCenterId?: number;
+}
+
+export interface ActualPoint {
+  month: number;
+  year: number;
+  amount: number;
+}
+
+// A projected month with its prediction interval
+export interface ForecastPoint {
+  month: number;
+  year: number;
+  amount: number;
+  lower: number;
+  upper: number;
+}
+
+// Actual and projected spend of the total or of one top-level category
+export interface ForecastSeries {
+  categoryId: number | null; // null for the total
+  category: string | null;
+  actual: ActualPoint[];
+  forecast: ForecastPoint[];
+}
+
+// How far off a method was when it projected the last months of the history
+// from the months before them
+export interface ForecastBacktest {
+  method: ForecastMethod;
+  mape: number | null; // Mean absolute percentage error; null without enough history
+  months: number; // Months held out
+}
+
+// Forecast API response
+export interface ForecastResponse {
+  method: ForecastMethod;
+  confidenceLevel: number; // Of the prediction intervals, such as 0.95
+  currency: string; // The organization's reporting currency
+  total: ForecastSeries;
+  categories: ForecastSeries[];
+  backtest: ForecastBacktest[];
+}
+
+// A series projected by one method
+export interface SeriesProjection {
+  values: number[];
+  lower: number[];
+  upper: number[];
+}
\ No newline at end of file
@@ -2,4 +2,46 @@
 export * from './expense';
 
 // Export all API-related types
-export * from './api';
\ No newline at end of file
+export * from './api';
+
+// Export all auth-related types
+export * from './auth';
+
+// Export all organization-related types
+export * from './organization';
+
+// Export all audit-related types
+export * from './audit';
+
+// Export all budget-related types
+export * from './budget';
+
+// Export all alert-related types
+export * from './alert';
+
+// Export all category-related types
+export * from './category';
+
+// Export all cost-center-related types
+export * from './costCenter';
+
+// Export all exchange-rate-related types
+export * from './exchangeRate';
+
+// Export all expense-import-related types
+export * from './expenseImport';
+
+// Export all export-related types
+export * from './export';
+
+// Export all scheduled-report-related types
+export * from './scheduledReport';
+
+// Export all recurring-template-related types
+export * from './recurringTemplate';
+
+// Export all forecast-related types
+export * from './forecast';
+
+// Export all anomaly-related types
+export * from './anomaly';
\ No newline at end of file
@@ -0,0 +1,24 @@
+// Organization the current request is scoped to, resolved by the organization middleware
+export interface OrganizationContext {
+  id: number;
+  name: string;
+  slug: string;
+}
+
+// API Response types
+export interface OrganizationResponse {
+  id: number;
+  name: string;
+  slug: string;
+  reportingCurrency: string; // ISO 4217 code that reports are converted into
+  approvalThreshold: number | null; // In the reporting currency; null when nothing needs approval
+  createdAt: string;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      organization?: OrganizationContext;
+    }
+  }
+}
\ No newline at end of file
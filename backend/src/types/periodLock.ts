@@ -0,0 +1,22 @@
+// A month and year, such as the period of a cost
+export interface Period {
+  month: number;
+  year: number;
+}
+
+// API Request types
+export type ClosePeriodRequest = Period;
+export type ReopenPeriodRequest = Period;
+
+export interface PeriodLockQuery {
+  year?: number;
+}
+
+// API Response types
+export interface PeriodLockResponse {
+  id: number;
+  month: number;
+  year: number;
+  lockedBy: string | null; // Name of the admin who closed the month
+  createdAt: string;
+}
\ No newline at end of file
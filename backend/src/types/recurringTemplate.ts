@@ -0,0 +1,79 @@
+import { RecurrenceFrequency } from '@prisma/client';
+
+// Re-export Prisma types for consistency
+export { RecurrenceFrequency } from '@prisma/client';
+
+// API Request types
+export interface CreateRecurringTemplateRequest {
+  categoryId: number;
+  costCenterId?: number;
+  amount: number;
+  currency?: string; // Defaults to the organization's reporting currency
+  description?: string | null;
+  vendor?: string | null;
+  frequency?: RecurrenceFrequency;
+  startMonth: number;
+  startYear: number;
+  endMonth?: number; // Given together with endYear; open-ended without them
+  endYear?: number;
+  escalationPercent?: number; // Yearly increase, compounding
+}
+
+export interface UpdateRecurringTemplateRequest {
+  categoryId?: number;
+  costCenterId?: number | null; // null clears the value
+  amount?: number;
+  currency?: string;
+  description?: string | null;
+  vendor?: string | null;
+  frequency?: RecurrenceFrequency;
+  startMonth?: number;
+  startYear?: number;
+  endMonth?: number | null;
+  endYear?: number | null;
+  escalationPercent?: number | null;
+  isActive?: boolean;
+}
+
+// API Response types
+export interface RecurringTemplateResponse {
+  id: number;
+  categoryId: number;
+  category: string; // Category name
+  costCenterId: number | null;
+  costCenter: string | null; // Cost center name
+  amount: number; // Before escalation
+  currency: string;
+  description: string | null;
+  vendor: string | null;
+  frequency: RecurrenceFrequency;
+  startMonth: number;
+  startYear: number;
+  endMonth: number | null;
+  endYear: number | null;
+  escalationPercent: number | null;
+  nextMonth: number | null; // Next period a cost will be created for; null once the template has ended
+  nextYear: number | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A cost a template will create
+export interface RecurringOccurrence {
+  month: number;
+  year: number;
+  amount: number; // Including escalation
+  currency: string;
+}
+
+// The parts of a template that decide when its costs fall due and how much they are
+export interface RecurrenceSchedule {
+  amount: number;
+  frequency: RecurrenceFrequency;
+  startMonth: number;
+  startYear: number;
+  endMonth: number | null;
+  endYear: number | null;
+  escalationPercent: number | null;
+}
\ No newline at end of file
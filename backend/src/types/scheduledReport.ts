@@ -0,0 +1,96 @@
+import { ReportDeliveryStatus, ReportFormat, ReportGroupBy, ReportPeriod } from '@prisma/client';
+import { ExportCell, ExportFile } from './export';
+
+// Re-export Prisma types for consistency
+export { ReportDeliveryStatus, ReportFormat, ReportGroupBy, ReportPeriod } from '@prisma/client';
+
+// API Request types
+export interface CreateScheduledReportRequest {
+  name: string;
+  period: ReportPeriod;
+  categoryId?: number; // A top-level category also covers its sub-categories
+  costCenterId?: number;
+  groupBy?: ReportGroupBy;
+  format?: ReportFormat;
+  schedule: string; // Cron expression, such as "0 8 2 * *" for 8 AM on the 2nd
+  recipients: string[];
+}
+
+export interface UpdateScheduledReportRequest {
+  name?: string;
+  period?: ReportPeriod;
+  categoryId?: number | null; // null removes the filter
+  costCenterId?: number | null;
+  groupBy?: ReportGroupBy;
+  format?: ReportFormat;
+  schedule?: string;
+  recipients?: string[];
+  isActive?: boolean;
+}
+
+// API Response types
+export interface ScheduledReportResponse {
+  id: number;
+  name: string;
+  period: ReportPeriod;
+  categoryId: number | null;
+  category: string | null; // Category name
+  costCenterId: number | null;
+  costCenter: string | null; // Cost center name
+  groupBy: ReportGroupBy;
+  format: ReportFormat;
+  schedule: string;
+  recipients: string[];
+  isActive: boolean;
+  createdById: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReportDeliveryResponse {
+  id: number;
+  reportId: number;
+  report: string; // Report name
+  periodStart: string; // YYYY-MM-DD, first day of the first month covered
+  periodEnd: string; // YYYY-MM-DD, last day of the last month covered
+  format: ReportFormat;
+  recipients: string[];
+  status: ReportDeliveryStatus;
+  error: string | null;
+  createdAt: string;
+}
+
+// Query parameters for the delivery log
+export interface ReportDeliveryQuery {
+  reportId?: number;
+  status?: ReportDeliveryStatus;
+  limit?: number;
+  offset?: number;
+}
+
+// First and last month a report covers, both included
+export interface ReportRange {
+  startYear: number;
+  startMonth: number;
+  endYear: number;
+  endMonth: number;
+}
+
+// Report content shared by the PDF and CSV formats: the same summary, breakdowns
+// and expense list as the printable report in the app
+export interface ReportSection {
+  heading: string;
+  columns: { header: string; amount?: boolean }[];
+  rows: ExportCell[][];
+}
+
+export interface ReportDocument {
+  title: string;
+  lines: string[];
+  sections: ReportSection[];
+}
+
+// A rendered report, ready to attach to an email or download
+export interface ReportFile extends ExportFile {
+  range: ReportRange;
+}
\ No newline at end of file
@@ -0,0 +1,6 @@
+// API Response types
+export interface TagResponse {
+  id: number;
+  name: string;
+  costCount: number; // Expenses outside the trash with the tag
+}
\ No newline at end of file
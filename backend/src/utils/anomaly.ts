@@ -0,0 +1,66 @@
+// Outlier tests for a month's spend against the months before it. A month must
+// fail both tests: the interquartile range fences keep one odd month in the
+// history from hiding the next, and the z-score keeps a steady history with a
+// narrow range from flagging ordinary changes.
+
+import { OutlierResult } from '../types/anomaly';
+
+// Months with spend a category needs before its months are checked
+export const MIN_HISTORY = 6;
+
+// Months before the checked month that make up its history
+export const HISTORY_MONTHS = 24;
+
+// Fences at this many interquartile ranges beyond the quartiles
+const IQR_MULTIPLIER = 1.5;
+
+// Standard deviations from the mean
+const Z_THRESHOLD = 3;
+
+// Share of the median a month must differ by, so a history that barely varies
+// doesn't flag small changes
+const MIN_DEVIATION = 0.1;
+
+const roundCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Quantile of sorted values, interpolating between the nearest ranks
+const quantile = (sorted: number[], q: number): number => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (position - lower);
+};
+
+// Compare a month's spend with the spend of earlier months. Returns null when
+// the history is too short or the month is within range.
+export const detectOutlier = (history: number[], amount: number): OutlierResult | null => {
+  if (history.length < MIN_HISTORY) {
+    return null;
+  }
+
+  const sorted = [...history].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const median = quantile(sorted, 0.5);
+  const q3 = quantile(sorted, 0.75);
+  const lowerBound = q1 - IQR_MULTIPLIER * (q3 - q1);
+  const upperBound = q3 + IQR_MULTIPLIER * (q3 - q1);
+
+  const mean = history.reduce((sum, value) => sum + value, 0) / history.length;
+  const sd = Math.sqrt(history.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (history.length - 1));
+  const zScore = sd > 0 ? (amount - mean) / sd : null;
+
+  const outsideFences = amount < lowerBound || amount > upperBound;
+  const farFromMean = zScore === null || Math.abs(zScore) >= Z_THRESHOLD;
+  const material = Math.abs(amount - median) >= MIN_DEVIATION * Math.abs(median);
+
+  if (!outsideFences || !farFromMean || !material) {
+    return null;
+  }
+
+  return {
+    expected: roundCents(median),
+    zScore: zScore === null ? null : Math.round(zScore * 100) / 100,
+    lowerBound: roundCents(Math.max(0, lowerBound)),
+    upperBound: roundCents(upperBound)
+  };
+};
\ No newline at end of file
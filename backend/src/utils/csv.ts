@@ -0,0 +1,71 @@
+// Split CSV text into rows of cells. Quoted cells may contain commas, line breaks
+// and doubled quotes. Blank lines are kept as empty rows so row numbers match the file.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  // Spreadsheet exports often start with a byte order mark
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  // A final line break doesn't start another row
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+// Quote a cell when it contains a comma, quote or line break. Text starting like a
+// formula is prefixed with an apostrophe so spreadsheets show it instead of running it.
+const formatCell = (value: string | number | null): string => {
+  if (value === null) {
+    return '';
+  }
+
+  if (typeof value === 'number') {
+    return String(value);
+  }
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Join rows of cells into CSV text with CRLF line breaks, as RFC 4180 describes
+export const formatCsv = (rows: (string | number | null)[][]): string =>
+  rows.map(row => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
\ No newline at end of file
@@ -56,6 +56,35 @@ export class NotFoundError extends ApiError {
   }
 }
 
+// Period Locked Error, for writes into a month that has been closed
+export class PeriodLockedError extends ApiError {
+  constructor(month: number, year: number) {
+    super(
+      `${month}/${year} is closed; an admin must reopen it before its expenses can change`,
+      ApiErrorCode.PERIOD_LOCKED,
+      409,
+      { month, year }
+    );
+    this.name = 'PeriodLockedError';
+  }
+}
+
+// Invalid Status Error, for review actions a cost's current status doesn't allow
+export class InvalidStatusError extends ApiError {
+  constructor(message: string) {
+    super(message, ApiErrorCode.INVALID_STATUS, 409);
+    this.name = 'InvalidStatusError';
+  }
+}
+
+// Request Too Large Error, for request bodies and uploads over their size limit
+export class RequestTooLargeError extends ApiError {
+  constructor(message: string = 'Request entity too large') {
+    super(message, ApiErrorCode.REQUEST_TOO_LARGE, 413);
+    this.name = 'RequestTooLargeError';
+  }
+}
+
 // Database Error
 export class DatabaseError extends ApiError {
   constructor(message: string = 'Database operation failed') {
@@ -70,4 +99,20 @@ export class InvalidInputError extends ApiError {
     super(message, ApiErrorCode.INVALID_INPUT, 400);
     this.name = 'InvalidInputError';
   }
+}
+
+// Authentication Error
+export class AuthenticationError extends ApiError {
+  constructor(message: string = 'Authentication required') {
+    super(message, ApiErrorCode.UNAUTHORIZED, 401);
+    this.name = 'AuthenticationError';
+  }
+}
+
+// Forbidden Error
+export class ForbiddenError extends ApiError {
+  constructor(message: string = 'You do not have permission to perform this action') {
+    super(message, ApiErrorCode.FORBIDDEN, 403);
+    this.name = 'ForbiddenError';
+  }
 }
\ No newline at end of file
@@ -0,0 +1,20 @@
+// Content types of expense import files, uploaded as the raw request body
+export const CSV_CONTENT_TYPE = 'text/csv';
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Content types accepted as attachments, each with the bytes its files start
+// with. The declared type of an upload must match its content.
+const SIGNATURES: Record<string, (file: Buffer) => boolean> = {
+  'application/pdf': file => file.subarray(0, 5).toString('latin1') === '%PDF-',
+  'image/png': file => file.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  'image/jpeg': file => file.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  'image/gif': file => ['GIF87a', 'GIF89a'].includes(file.subarray(0, 6).toString('latin1')),
+  'image/webp': file =>
+    file.subarray(0, 4).toString('latin1') === 'RIFF' && file.subarray(8, 12).toString('latin1') === 'WEBP'
+};
+
+export const ATTACHMENT_CONTENT_TYPES = Object.keys(SIGNATURES);
+
+// Whether a file's content is of the given attachment type
+export const matchesContentType = (file: Buffer, contentType: string): boolean =>
+  SIGNATURES[contentType]?.(file) ?? false;
\ No newline at end of file
@@ -0,0 +1,115 @@
+// Projections of a monthly series, oldest month first. Each method also gives a
+// prediction interval from how far its fitted values missed the history.
+
+import { ForecastMethod, SeriesProjection } from '../types/forecast';
+
+// Two-sided prediction intervals at 95%
+export const CONFIDENCE_LEVEL = 0.95;
+const Z_SCORE = 1.96;
+
+// Months averaged by the moving average method
+export const MOVING_AVERAGE_WINDOW = 3;
+
+// Months after which the seasonal naive method repeats the series
+export const SEASON_LENGTH = 12;
+
+// Months of history each method needs to fit the series and estimate its error
+export const MIN_HISTORY: Record<ForecastMethod, number> = {
+  linear: 3,
+  moving_average: MOVING_AVERAGE_WINDOW + 1,
+  seasonal_naive: SEASON_LENGTH + 1
+};
+
+const mean = (values: number[]): number =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Root mean square of the errors
+const rms = (errors: number[]): number =>
+  Math.sqrt(mean(errors.map(error => error * error)));
+
+const roundCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Spend can't be negative, so neither can a projection or its lower bound
+const projection = (values: number[], halfWidths: number[]): SeriesProjection => ({
+  values: values.map(value => roundCents(Math.max(0, value))),
+  lower: values.map((value, index) => roundCents(Math.max(0, value - halfWidths[index]!))),
+  upper: values.map((value, index) => roundCents(Math.max(0, value + halfWidths[index]!)))
+});
+
+// Least-squares line through the series, with the interval of a new observation
+const linearProjection = (history: number[], horizon: number): SeriesProjection => {
+  const n = history.length;
+  const xMean = (n - 1) / 2;
+  const yMean = mean(history);
+  const sxx = history.reduce((sum, _, x) => sum + (x - xMean) ** 2, 0);
+  const slope = history.reduce((sum, y, x) => sum + (x - xMean) * (y - yMean), 0) / sxx;
+  const intercept = yMean - slope * xMean;
+
+  const sse = history.reduce((sum, y, x) => sum + (y - intercept - slope * x) ** 2, 0);
+  const standardError = Math.sqrt(sse / (n - 2));
+
+  const xs = Array.from({ length: horizon }, (_, step) => n + step);
+  return projection(
+    xs.map(x => intercept + slope * x),
+    xs.map(x => Z_SCORE * standardError * Math.sqrt(1 + 1 / n + (x - xMean) ** 2 / sxx))
+  );
+};
+
+// Average of the last months, carried forward; the interval widens with the
+// square root of the months ahead
+const movingAverageProjection = (history: number[], horizon: number): SeriesProjection => {
+  const errors = history.slice(MOVING_AVERAGE_WINDOW).map((value, index) =>
+    value - mean(history.slice(index, index + MOVING_AVERAGE_WINDOW))
+  );
+  const sigma = rms(errors);
+  const level = mean(history.slice(-MOVING_AVERAGE_WINDOW));
+
+  return projection(
+    Array.from({ length: horizon }, () => level),
+    Array.from({ length: horizon }, (_, step) => Z_SCORE * sigma * Math.sqrt(step + 1))
+  );
+};
+
+// The same month a year earlier; the interval widens with every year ahead
+const seasonalNaiveProjection = (history: number[], horizon: number): SeriesProjection => {
+  const errors = history.slice(SEASON_LENGTH).map((value, index) => value - history[index]!);
+  const sigma = rms(errors);
+  const lastSeason = history.slice(-SEASON_LENGTH);
+
+  return projection(
+    Array.from({ length: horizon }, (_, step) => lastSeason[step % SEASON_LENGTH]!),
+    Array.from({ length: horizon }, (_, step) => Z_SCORE * sigma * Math.sqrt(Math.floor(step / SEASON_LENGTH) + 1))
+  );
+};
+
+// Project a series the given number of months forward. The series must have at
+// least MIN_HISTORY[method] months.
+export const projectSeries = (history: number[], horizon: number, method: ForecastMethod): SeriesProjection => {
+  switch (method) {
+    case 'moving_average':
+      return movingAverageProjection(history, horizon);
+    case 'seasonal_naive':
+      return seasonalNaiveProjection(history, horizon);
+    case 'linear':
+    default:
+      return linearProjection(history, horizon);
+  }
+};
+
+// Mean absolute percentage error of projecting the last months of a series from
+// the months before them. Months without spend are left out, since any error
+// would be infinitely large; null when nothing is left or the rest is too short.
+export const backtestMape = (history: number[], holdout: number, method: ForecastMethod): number | null => {
+  const training = history.slice(0, history.length - holdout);
+  if (holdout < 1 || training.length < MIN_HISTORY[method]) {
+    return null;
+  }
+
+  const projected = projectSeries(training, holdout, method).values;
+  const errors = history.slice(-holdout)
+    .map((actual, index) => ({ actual, projected: projected[index]! }))
+    .filter(({ actual }) => actual !== 0)
+    .map(({ actual, projected }) => Math.abs(actual - projected) / Math.abs(actual));
+
+  return errors.length > 0 ? roundCents(mean(errors) * 100) : null;
+};
\ No newline at end of file
@@ -0,0 +1,45 @@
+// Paging helpers: opaque cursors for keyset paging, and the X-Total-Count and
+// Link headers that give the total and the URLs of neighbouring pages.
+
+import { Request, Response } from 'express';
+import { ValidationError } from './errors';
+
+// Paging parameters of each linked page, by link relation
+export type PageLinks = Partial<Record<'first' | 'prev' | 'next' | 'last', Record<string, string | number>>>;
+
+// Encode the position of a row as a cursor clients pass back unchanged
+export const encodeCursor = (position: object): string =>
+  Buffer.from(JSON.stringify(position)).toString('base64url');
+
+// Decode a cursor, which must hold an integer for each key
+export const decodeCursor = <K extends string>(cursor: string, keys: readonly K[]): Record<K, number> => {
+  let position: unknown = null;
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch (error) {
+    // Reported as an invalid cursor below
+  }
+
+  if (typeof position !== 'object' || position === null ||
+      !keys.every(key => Number.isInteger((position as Record<string, unknown>)[key]))) {
+    throw new ValidationError('Invalid cursor', 'cursor');
+  }
+
+  return position as Record<K, number>;
+};
+
+// Set the total count and a Link header (RFC 8288) whose URLs are the request's
+// URL with only the paging parameters changed
+export const setPaginationHeaders = (req: Request, res: Response, total: number, links: PageLinks): void => {
+  res.set('X-Total-Count', String(total));
+
+  const entries = Object.entries(links).map(([rel, params]) => {
+    const url = new URL(req.originalUrl, `${req.protocol}://${req.get('host')}`);
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, String(value)));
+    return `<${url.toString()}>; rel="${rel}"`;
+  });
+
+  if (entries.length > 0) {
+    res.set('Link', entries.join(', '));
+  }
+};
\ No newline at end of file
@@ -0,0 +1,198 @@
+// Minimal PDF writer for tabular reports: a title and one or more tables spread
+// over as many A4 landscape pages as needed, set in the standard Helvetica fonts
+// so no fonts have to be embedded.
+
+export interface PdfTable {
+  title: string;
+  subtitle?: string;
+  headers: string[];
+  rows: string[][];
+  rightAligned?: number[]; // Indexes of columns aligned right, such as amounts
+}
+
+export interface PdfSection {
+  heading?: string;
+  headers: string[];
+  rows: string[][];
+  rightAligned?: number[];
+}
+
+export interface PdfDocument {
+  title: string;
+  lines?: string[]; // Printed under the title, such as the period and totals
+  sections: PdfSection[];
+}
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const ROW_HEIGHT = 12;
+const CELL_PADDING = 6;
+// Rows stop here, leaving room for the page number
+const BOTTOM = MARGIN + ROW_HEIGHT * 2;
+
+// Approximate Helvetica glyph widths, in thousandths of the font size
+const charWidth = (char: string): number => {
+  if (/[ijlI.,:;'|!\s]/.test(char)) return 278;
+  if (/[mwMW@]/.test(char)) return 833;
+  if (/[A-Z]/.test(char)) return 667;
+  return 556;
+};
+
+const textWidth = (text: string, size = FONT_SIZE): number =>
+  [...text].reduce((width, char) => width + charWidth(char), 0) * size / 1000;
+
+// Shorten text to fit a width, marking the cut with an ellipsis
+const fitText = (text: string, width: number): string => {
+  if (textWidth(text) <= width) {
+    return text;
+  }
+
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+};
+
+// PDF string literal in WinAnsiEncoding; characters it lacks become "?"
+const pdfString = (text: string): string => {
+  let encoded = '';
+  for (const char of text) {
+    const code = char === '€' ? 0x80 : char.codePointAt(0) ?? 0x3f;
+    if (char === '\\' || char === '(' || char === ')') {
+      encoded += `\\${char}`;
+    } else if (code >= 0x20 && code < 0x7f) {
+      encoded += char;
+    } else if (code === 0x80 || (code >= 0xa0 && code <= 0xff)) {
+      encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      encoded += '?';
+    }
+  }
+  return `(${encoded})`;
+};
+
+const drawText = (text: string, x: number, y: number, font: 'F1' | 'F2', size = FONT_SIZE): string =>
+  `BT /${font} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET`;
+
+// Column widths fitting the widest cell, scaled down when the table is wider than the page
+const columnWidths = (section: PdfSection): number[] => {
+  const available = PAGE_WIDTH - 2 * MARGIN;
+  const natural = section.headers.map((header, column) =>
+    Math.ceil(section.rows.reduce((widest, row) => Math.max(widest, textWidth(row[column] ?? '')), textWidth(header))) + CELL_PADDING
+  );
+  const total = natural.reduce((sum, width) => sum + width, 0);
+  return total > available ? natural.map(width => width * available / total) : natural;
+};
+
+// Lay out the title and each section in turn, starting a new page whenever the
+// next row does not fit. A table's header row is repeated on every page it spans.
+export const renderPdfDocument = (document: PdfDocument): Buffer => {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const draw = (command: string) => pages[pages.length - 1]!.push(command);
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  y -= 14;
+  draw(drawText(document.title, MARGIN, y, 'F2', 14));
+  (document.lines ?? []).forEach(line => {
+    y -= 14;
+    draw(drawText(line, MARGIN, y, 'F1', 9));
+  });
+
+  document.sections.forEach(section => {
+    const widths = columnWidths(section);
+    const rightAligned = new Set(section.rightAligned ?? []);
+
+    const drawRow = (cells: string[], font: 'F1' | 'F2') => {
+      let x = MARGIN;
+      cells.forEach((cell, column) => {
+        const width = widths[column] ?? 0;
+        const text = fitText(cell, width - CELL_PADDING);
+        const textX = rightAligned.has(column) ? x + width - CELL_PADDING / 2 - textWidth(text) : x + CELL_PADDING / 2;
+        x += width;
+        draw(drawText(text, textX, y, font));
+      });
+    };
+
+    const drawHeader = () => {
+      drawRow(section.headers, 'F2');
+      draw(`0.5 w ${MARGIN} ${(y - 3).toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${(y - 3).toFixed(2)} l S`);
+    };
+
+    // Keep a heading together with the header and first row of its table
+    const headingHeight = section.heading ? 24 : 0;
+    if (y - headingHeight - 16 - ROW_HEIGHT < BOTTOM) {
+      newPage();
+    }
+
+    if (section.heading) {
+      y -= headingHeight;
+      draw(drawText(section.heading, MARGIN, y, 'F2', 11));
+    }
+    y -= 16;
+    drawHeader();
+
+    section.rows.forEach(row => {
+      if (y - ROW_HEIGHT < BOTTOM) {
+        newPage();
+        y -= ROW_HEIGHT;
+        drawHeader();
+      }
+      y -= ROW_HEIGHT;
+      drawRow(row, 'F1');
+    });
+
+    y -= 10;
+  });
+
+  const contents = pages.map((commands, pageIndex) => {
+    const footer = `Page ${pageIndex + 1} of ${pages.length}`;
+    return [...commands, drawText(footer, PAGE_WIDTH - MARGIN - textWidth(footer), MARGIN / 2, 'F1')].join('\n');
+  });
+
+  // Objects: 1 catalog, 2 page tree, 3 and 4 fonts, then a page and its content per page
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  ];
+  contents.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index]! + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Every character is ASCII, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+};
+
+// A single table under a title and optional subtitle
+export const renderPdfTable = (table: PdfTable): Buffer =>
+  renderPdfDocument({
+    title: table.title,
+    lines: table.subtitle ? [table.subtitle] : [],
+    sections: [{ headers: table.headers, rows: table.rows, rightAligned: table.rightAligned ?? [] }]
+  });
\ No newline at end of file
@@ -0,0 +1,23 @@
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+// SMTP transport for outgoing email; fails when no SMTP server is configured
+export const createSmtpTransport = (options: SmtpOptions): Transporter => {
+  if (!options.host) {
+    throw new Error('SMTP is not configured (SMTP_HOST is empty)');
+  }
+
+  return nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    ...(options.user ? { auth: { user: options.user, pass: options.password || '' } } : {})
+  });
+};
\ No newline at end of file
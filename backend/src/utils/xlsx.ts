@@ -0,0 +1,340 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+// Minimal reader and writer for the first worksheet of an .xlsx workbook. A workbook
+// is a ZIP archive of XML parts; only cell values are handled, not formulas or formatting.
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Most bytes the parts of a workbook may unpack to, together
+const MAX_UNPACKED_SIZE = 100 * 1024 * 1024;
+
+export class XlsxFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XlsxFormatError';
+  }
+}
+
+// The workbook unpacks to more than MAX_UNPACKED_SIZE
+export class XlsxTooLargeError extends XlsxFormatError {
+  constructor() {
+    super('XLSX workbook is too large once unpacked');
+    this.name = 'XlsxTooLargeError';
+  }
+}
+
+// Where a file's data lies in a ZIP archive
+interface ZipEntry {
+  method: number;
+  data: Buffer;
+}
+
+// Find the files of a ZIP archive by name without unpacking them
+const zipEntries = (buffer: Buffer): Map<string, ZipEntry> => {
+  // The end of central directory record is at the end, followed by an optional comment
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+
+  if (end === -1) {
+    throw new XlsxFormatError('File is not an XLSX workbook');
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const entryCount = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new XlsxFormatError('XLSX workbook is damaged');
+    }
+
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const headerOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    if (buffer.readUInt32LE(headerOffset) !== LOCAL_FILE_HEADER) {
+      throw new XlsxFormatError('XLSX workbook is damaged');
+    }
+
+    const dataStart = headerOffset + 30 + buffer.readUInt16LE(headerOffset + 26) + buffer.readUInt16LE(headerOffset + 28);
+    entries.set(name, { method, data: buffer.subarray(dataStart, dataStart + compressedSize) });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+// Unpacks files of a ZIP archive on request, failing once they add up to more
+// than maxSize bytes
+const zipReader = (buffer: Buffer, maxSize: number) => {
+  const entries = zipEntries(buffer);
+  let remaining = maxSize;
+
+  return (name: string): string | undefined => {
+    const entry = entries.get(name);
+    if (!entry || (entry.method !== 0 && entry.method !== 8)) {
+      return undefined;
+    }
+
+    let data = entry.data;
+    if (entry.method === 8) {
+      try {
+        data = inflateRawSync(data, { maxOutputLength: Math.max(remaining, 1) });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new XlsxTooLargeError();
+        }
+        throw new XlsxFormatError('XLSX workbook is damaged');
+      }
+    }
+
+    if (data.length > remaining) {
+      throw new XlsxTooLargeError();
+    }
+    remaining -= data.length;
+
+    return data.toString('utf8');
+  };
+};
+
+const decodeXml = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10));
+    }
+  });
+
+// Text of a string item, joining the runs of rich text
+const itemText = (xml: string): string =>
+  [...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(match => decodeXml(match[1] ?? '')).join('');
+
+const attribute = (tag: string, name: string): string | undefined =>
+  tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+// Zero-based column of a cell reference such as "C7"
+const columnIndex = (reference: string): number =>
+  [...reference.replace(/\d+$/, '')].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+// Path of the workbook's first worksheet
+const firstSheetPath = (read: (name: string) => string | undefined): string => {
+  const workbook = read('xl/workbook.xml') ?? '';
+  const relations = read('xl/_rels/workbook.xml.rels') ?? '';
+  const sheet = workbook.match(/<sheet\s[^>]*>/)?.[0];
+  const relationId = sheet && attribute(sheet, 'r:id');
+
+  const relation = [...relations.matchAll(/<Relationship\s[^>]*>/g)]
+    .map(match => match[0])
+    .find(tag => attribute(tag, 'Id') === relationId);
+  const target = relation && attribute(relation, 'Target');
+
+  if (!target) {
+    return 'xl/worksheets/sheet1.xml';
+  }
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+// Read the first worksheet as rows of cell text. Rows missing from the sheet are
+// returned empty, so row numbers match the sheet. Numbers are returned as written
+// in the file, so dates come back as Excel serial day numbers. Only the parts it
+// reads are unpacked; it fails with XlsxTooLargeError once they add up to more
+// than maxSize bytes.
+export const readXlsx = (buffer: Buffer, maxSize = MAX_UNPACKED_SIZE): string[][] => {
+  const read = zipReader(buffer, maxSize);
+  const sheet = read(firstSheetPath(read));
+
+  if (sheet === undefined) {
+    throw new XlsxFormatError('XLSX workbook has no worksheet');
+  }
+
+  const sharedStrings = [...(read('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(match => itemText(match[1] ?? ''));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+    const rowNumber = Number(attribute(`<row${rowMatch[1] ?? ''}>`, 'r') ?? rows.length + 1);
+    while (rows.length < rowNumber - 1) {
+      rows.push([]);
+    }
+
+    const row: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const tag = `<c${cellMatch[1] ?? ''}>`;
+      const content = cellMatch[2] ?? '';
+      const reference = attribute(tag, 'r');
+      const index = reference ? columnIndex(reference) : row.length;
+      const rawValue = decodeXml(content.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '');
+
+      let value: string;
+      switch (attribute(tag, 't')) {
+        case 's':
+          value = sharedStrings[Number(rawValue)] ?? '';
+          break;
+        case 'inlineStr':
+          value = itemText(content);
+          break;
+        case 'b':
+          value = rawValue === '1' ? 'TRUE' : 'FALSE';
+          break;
+        default:
+          value = rawValue;
+      }
+
+      while (row.length < index) {
+        row.push('');
+      }
+      row[index] = value;
+    }
+
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// CRC-32 as used by ZIP archives
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Build a ZIP archive of deflated files
+const zip = (files: [string, string][]): Buffer => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of files) {
+    const nameBuffer = Buffer.from(name, 'utf8');
+    const data = Buffer.from(content, 'utf8');
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(20, 4); // Version needed to extract
+    local.writeUInt16LE(0x0800, 6); // Names are UTF-8
+    local.writeUInt16LE(8, 8); // Deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_ENTRY, 0);
+    central.writeUInt16LE(20, 4); // Version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, nameBuffer, compressed);
+    centralParts.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
+
+const encodeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and line breaks are not allowed in XML
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+
+// Cell reference such as "C7" for a zero-based column and one-based row
+const cellReference = (column: number, row: number): string => {
+  let letters = '';
+  for (let index = column + 1; index > 0; index = Math.floor((index - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((index - 1) % 26)) + letters;
+  }
+  return `${letters}${row}`;
+};
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+// Write rows of cells as a workbook with a single worksheet. Numbers are stored as
+// numbers and text as inline strings; empty cells are left out.
+export const writeXlsx = (rows: (string | number | null)[][], sheetName = 'Sheet1'): Buffer => {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, column) => {
+      const reference = cellReference(column, rowIndex + 1);
+      if (value === null || value === '') {
+        return '';
+      }
+      if (typeof value === 'number') {
+        return `<c r="${reference}"><v>${value}</v></c>`;
+      }
+      return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${encodeXml(value)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  return zip([
+    ['[Content_Types].xml', `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      + '</Types>'],
+    ['_rels/.rels', `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+      + '</Relationships>'],
+    ['xl/workbook.xml', `${XML_DECLARATION}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">`
+      + `<sheets><sheet name="${encodeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>`
+      + '</workbook>'],
+    ['xl/_rels/workbook.xml.rels', `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+      + '</Relationships>'],
+    ['xl/worksheets/sheet1.xml', `${XML_DECLARATION}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+      + `<sheetData>${sheetRows.join('')}</sheetData>`
+      + '</worksheet>']
+  ]);
+};
\ No newline at end of file
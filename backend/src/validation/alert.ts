@@ -0,0 +1,108 @@
+import Joi from 'joi';
+import { AlertChannel, AlertStatus } from '@prisma/client';
+import { categoryIdField } from './category';
+
+const thresholdPercent = Joi.number()
+  .integer()
+  .min(1)
+  .max(1000)
+  .messages({
+    'any.required': 'Threshold is required',
+    'number.min': 'Threshold must be between 1 and 1000 percent',
+    'number.max': 'Threshold must be between 1 and 1000 percent'
+  });
+
+// What a rule's target must look like for each channel
+export const alertTargetSchemas: Record<AlertChannel, Joi.StringSchema> = {
+  [AlertChannel.EMAIL]: Joi.string()
+    .email()
+    .max(500)
+    .required()
+    .messages({ 'string.email': 'Target must be an email address for email alerts' }),
+  [AlertChannel.WEBHOOK]: Joi.string()
+    .uri({ scheme: ['http', 'https'] })
+    .max(500)
+    .required()
+    .messages({ 'string.uriCustomScheme': 'Target must be an http(s) URL for webhook alerts' })
+};
+
+// Validation schema for creating an alert rule. Leaving out the category watches every category.
+export const createAlertRuleSchema = Joi.object({
+  categoryId: categoryIdField.optional(),
+
+  thresholdPercent: thresholdPercent.required(),
+
+  channel: Joi.string()
+    .valid(...Object.values(AlertChannel))
+    .required()
+    .messages({
+      'any.required': 'Channel is required',
+      'any.only': `Channel must be one of ${Object.values(AlertChannel).join(', ')}`
+    }),
+
+  target: Joi.string()
+    .trim()
+    .max(500)
+    .required()
+    .messages({
+      'any.required': 'Target is required'
+    })
+});
+
+// Validation schema for updating an alert rule
+export const updateAlertRuleSchema = Joi.object({
+  thresholdPercent: thresholdPercent.optional(),
+
+  target: Joi.string()
+    .trim()
+    .max(500)
+    .optional(),
+
+  isActive: Joi.boolean().optional()
+}).min(1).messages({
+  'object.min': 'At least one of thresholdPercent, target or isActive is required'
+});
+
+// Validation schema for alert history query parameters
+export const alertQuerySchema = Joi.object({
+  year: Joi.number()
+    .integer()
+    .min(2020)
+    .max(2050)
+    .optional(),
+
+  month: Joi.number()
+    .integer()
+    .min(1)
+    .max(12)
+    .optional(),
+
+  status: Joi.string()
+    .valid(...Object.values(AlertStatus))
+    .optional(),
+
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .default(50)
+    .optional(),
+
+  offset: Joi.number()
+    .integer()
+    .min(0)
+    .default(0)
+    .optional()
+});
+
+// Validation schema for alert rule ID parameter
+export const alertRuleIdSchema = Joi.object({
+  id: Joi.number()
+    .integer()
+    .positive()
+    .required()
+    .messages({
+      'any.required': 'Alert rule ID is required',
+      'number.positive': 'Alert rule ID must be a positive number'
+    })
+});
\ No newline at end of file
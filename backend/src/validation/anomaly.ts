@@ -0,0 +1,54 @@
+import Joi from 'joi';
+import { AnomalyStatus } from '@prisma/client';
+import { categoryIdField } from './category';
+
+// Validation schema for reviewing an anomaly
+export const reviewAnomalySchema = Joi.object({
+  status: Joi.string()
+    .valid(...Object.values(AnomalyStatus))
+    .required()
+    .messages({
+      'any.required': 'Status is required',
+      'any.only': `Status must be one of ${Object.values(AnomalyStatus).join(', ')}`
+    })
+});
+
+// Validation schema for anomaly query parameters
+export const anomalyQuerySchema = Joi.object({
+  status: Joi.string()
+    .valid(...Object.values(AnomalyStatus))
+    .optional(),
+
+  categoryId: categoryIdField.optional(),
+
+  year: Joi.number()
+    .integer()
+    .min(2020)
+    .max(2050)
+    .optional(),
+
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .default(50)
+    .optional(),
+
+  offset: Joi.number()
+    .integer()
+    .min(0)
+    .default(0)
+    .optional()
+});
+
+// Validation schema for anomaly ID parameter
+export const anomalyIdSchema = Joi.object({
+  id: Joi.number()
+    .integer()
+    .positive()
+    .required()
+    .messages({
+      'any.required': 'Anomaly ID is required',
+      'number.positive': 'Anomaly ID must be a positive number'
+    })
+});
\ No newline at end of file
@@ -0,0 +1,44 @@
+import Joi from 'joi';
+
+// Validation schema for approving or rejecting an expense
+export const reviewExpenseSchema = Joi.object({
+  comment: Joi.string()
+    .trim()
+    .max(500)
+    .allow(null, '')
+    .optional()
+    .messages({
+      'string.max': 'Comment cannot exceed 500 characters'
+    })
+});
+
+// Validation schema for changing the approval threshold; null turns approval off
+export const approvalThresholdSchema = Joi.object({
+  threshold: Joi.number()
+    .min(0)
+    .precision(2)
+    .max(999999999.99)
+    .allow(null)
+    .required()
+    .messages({
+      'any.required': 'Threshold is required',
+      'number.min': 'Threshold cannot be negative',
+      'number.max': 'Threshold cannot exceed 999,999,999.99'
+    })
+});
+
+// Validation schema for approvals queue query parameters
+export const approvalQueueQuerySchema = Joi.object({
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .default(50)
+    .optional(),
+
+  offset: Joi.number()
+    .integer()
+    .min(0)
+    .default(0)
+    .optional()
+});
\ No newline at end of file
@@ -0,0 +1,30 @@
+import Joi from 'joi';
+
+// Validation schema for the query of an attachment upload. Path separators and
+// control characters are not allowed in file names.
+export const uploadAttachmentQuerySchema = Joi.object({
+  fileName: Joi.string()
+    .trim()
+    .min(1)
+    .max(255)
+    .pattern(/^[^\\/\x00-\x1f\x7f]+$/)
+    .required()
+    .messages({
+      'any.required': 'File name is required',
+      'string.empty': 'File name is required',
+      'string.max': 'File name cannot exceed 255 characters',
+      'string.pattern.base': 'File name cannot contain slashes or control characters'
+    })
+});
+
+// Validation schema for the attachment ID parameter
+export const attachmentIdSchema = Joi.object({
+  id: Joi.number()
+    .integer()
+    .positive()
+    .required(),
+  attachmentId: Joi.number()
+    .integer()
+    .positive()
+    .required()
+});
\ No newline at end of file
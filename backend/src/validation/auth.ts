@@ -0,0 +1,30 @@
+import Joi from 'joi';
+
+// Validation schema for logging in
+export const loginSchema = Joi.object({
+  email: Joi.string()
+    .email()
+    .max(255)
+    .required()
+    .messages({
+      'any.required': 'Email is required',
+      'string.email': 'Email must be a valid email address'
+    }),
+
+  password: Joi.string()
+    .max(128)
+    .required()
+    .messages({
+      'any.required': 'Password is required'
+    })
+});
+
+// Validation schema for refreshing or revoking a session
+export const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string()
+    .max(256)
+    .required()
+    .messages({
+      'any.required': 'Refresh token is required'
+    })
+});
\ No newline at end of file
@@ -0,0 +1,78 @@
+import Joi from 'joi';
+import { categoryIdField } from './category';
+
+const amount = Joi.number()
+  .min(0)
+  .precision(2)
+  .max(999999999.99)
+  .required()
+  .messages({
+    'any.required': 'Amount is required',
+    'number.min': 'Amount cannot be negative',
+    'number.max': 'Amount cannot exceed 999,999,999.99'
+  });
+
+const year = Joi.number()
+  .integer()
+  .min(2020)
+  .max(2050)
+  .messages({
+    'any.required': 'Year is required',
+    'number.min': 'Year must be between 2020 and 2050',
+    'number.max': 'Year must be between 2020 and 2050'
+  });
+
+const month = Joi.number()
+  .integer()
+  .min(1)
+  .max(12)
+  .messages({
+    'number.min': 'Month must be between 1 and 12',
+    'number.max': 'Month must be between 1 and 12'
+  });
+
+// Validation schema for creating a budget. Leaving out the month creates a yearly total.
+export const createBudgetSchema = Joi.object({
+  categoryId: categoryIdField.required(),
+
+  amount,
+
+  month: month.optional(),
+
+  year: year.required()
+});
+
+// Validation schema for updating a budget
+export const updateBudgetSchema = Joi.object({
+  amount
+});
+
+// Validation schema for budget query parameters
+export const budgetQuerySchema = Joi.object({
+  year: year.optional(),
+
+  month: month.optional(),
+
+  categoryId: categoryIdField.optional(),
+
+  yearly: Joi.boolean().optional()
+});
+
+// Validation schema for budget ID parameter
+export const budgetIdSchema = Joi.object({
+  id: Joi.number()
+    .integer()
+    .positive()
+    .required()
+    .messages({
+      'any.required': 'Budget ID is required',
+      'number.positive': 'Budget ID must be a positive number'
+    })
+});
+
+// Validation schema for budget-vs-actual query parameters
+export const varianceQuerySchema = Joi.object({
+  year: year.required(),
+
+  month: month.optional()
+});
\ No newline at end of file
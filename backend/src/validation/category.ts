@@ -0,0 +1,88 @@
+import Joi from 'joi';
+
+const name = Joi.string()
+  .trim()
+  .min(1)
+  .max(100)
+  .messages({
+    'any.required': 'Name is required',
+    'string.empty': 'Name cannot be empty',
+    'string.max': 'Name cannot exceed 100 characters'
+  });
+
+const color = Joi.string()
+  .pattern(/^#[0-9a-fA-F]{6}$/)
+  .messages({
+    'any.required': 'Color is required',
+    'string.pattern.base': 'Color must be a hex color such as #8884d8'
+  });
+
+const displayOrder = Joi.number()
+  .integer()
+  .min(0)
+  .max(10000)
+  .messages({
+    'number.min': 'Display order cannot be negative',
+    'number.max': 'Display order cannot exceed 10000'
+  });
+
+const parentId = Joi.number()
+  .integer()
+  .positive()
+  .messages({
+    'number.base': 'Parent must be a category ID',
+    'number.positive': 'Parent must be a category ID'
+  });
+
+// Validation schema for creating a category
+export const createCategorySchema = Joi.object({
+  parentId: parentId.optional(),
+
+  name: name.required(),
+
+  color: color.required(),
+
+  displayOrder: displayOrder.optional()
+});
+
+// Validation schema for updating a category
+export const updateCategorySchema = Joi.object({
+  parentId: parentId.allow(null).optional(),
+
+  name: name.optional(),
+
+  color: color.optional(),
+
+  displayOrder: displayOrder.optional(),
+
+  archived: Joi.boolean().optional()
+}).min(1).messages({
+  'object.min': 'At least one of parentId, name, color, displayOrder or archived is required'
+});
+
+// Validation schema for category query parameters
+export const categoryQuerySchema = Joi.object({
+  includeArchived: Joi.boolean().default(false).optional()
+});
+
+// Validation schema for category ID parameter
+export const categoryIdSchema = Joi.object({
+  id: Joi.number()
+    .integer()
+    .positive()
+    .required()
+    .messages({
+      'any.required': 'Category ID is required',
+      'number.positive': 'Category ID must be a positive number'
+    })
+});
+
+// Category references in other request bodies and queries
+export const categoryIdField = Joi.number()
+  .integer()
+  .positive()
+  .messages({
+    'any.required': 'Category is required',
+    'number.base': 'Category must be a category ID',
+    'number.positive': 'Category must be a category ID'
+  });
\ No newline at end of file
@@ -0,0 +1,54 @@
+import Joi from 'joi';
+
+// Validation schema for writing or editing a comment
+export const commentSchema = Joi.object({
+  body: Joi.string()
+    .trim()
+    .min(1)
+    .max(5000)
+    .required()
+    .messages({
+      'any.required': 'Comment is required',
+      'string.empty': 'Comment cannot be empty',
+      'string.max': 'Comment cannot exceed 5000 characters'
+    }),
+
+  mentions: Joi.array()
+    .items(Joi.number().integer().positive())
+    .max(20)
+    .unique()
+    .optional()
+    .messages({
+      'array.max': 'A comment can mention at most 20 people',
+      'array.unique': 'Each person can only be mentioned once',
+      'number.base': 'Mentions must be user IDs'
+    })
+});
+
+// Validation schema for the expense and comment ID parameters
+export const commentIdSchema = Joi.object({
+  id: Joi.number()
+    .integer()
+    .positive()
+    .required(),
+  commentId: Joi.number()
+    .integer()
+    .positive()
+    .required()
+});
+
+// Validation schema for comment thread query parameters
+export const commentQuerySchema = Joi.object({
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .default(50)
+    .optional(),
+
+  offset: Joi.number()
+    .integer()
+    .min(0)
+    .default(0)
+    .optional()
+});
\ No newline at end of file
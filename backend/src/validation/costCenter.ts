@@ -0,0 +1,51 @@
+import Joi from 'joi';
+
+const name = Joi.string()
+  .trim()
+  .min(1)
+  .max(100)
+  .messages({
+    'any.required': 'Name is required',
+    'string.empty': 'Name cannot be empty',
+    'string.max': 'Name cannot exceed 100 characters'
+  });
+
+// Validation schema for creating a cost center
+export const createCostCenterSchema = Joi.object({
+  name: name.required()
+});
+
+// Validation schema for updating a cost center
+export const updateCostCenterSchema = Joi.object({
+  name: name.optional(),
+
+  archived: Joi.boolean().optional()
+}).min(1).messages({
+  'object.min': 'At least one of name or archived is required'
+});
+
+// Validation schema for cost center query parameters
+export const costCenterQuerySchema = Joi.object({
+  includeArchived: Joi.boolean().default(false).optional()
+});
+
+// Validation schema for cost center ID parameter
+export const costCenterIdSchema = Joi.object({
+  id: Joi.number()
+    .integer()
+    .positive()
+    .required()
+    .messages({
+      'any.required': 'Cost center ID is required',
+      'number.positive': 'Cost center ID must be a positive number'
+    })
+});
+
+// Cost center references in other request bodies and queries
+export const costCenterIdField = Joi.number()
+  .integer()
+  .positive()
+  .messages({
+    'number.base': 'Cost center must be a cost center ID',
+    'number.positive': 'Cost center must be a cost center ID'
+  });
\ No newline at end of file
@@ -0,0 +1,72 @@
+import Joi from 'joi';
+
+// ISO 4217 currency code, such as USD or EUR
+export const currencyField = Joi.string()
+  .trim()
+  .uppercase()
+  .pattern(/^[A-Z]{3}$/)
+  .messages({
+    'string.pattern.base': 'Currency must be a three-letter ISO 4217 code'
+  });
+
+// Validation schema for a single exchange rate
+export const exchangeRateSchema = Joi.object({
+  baseCurrency: currencyField.required(),
+  
+  quoteCurrency: currencyField.required().invalid(Joi.ref('baseCurrency')).messages({
+    'any.invalid': 'Quote currency must differ from base currency'
+  }),
+  
+  rate: Joi.number()
+    .positive()
+    .required()
+    .messages({
+      'any.required': 'Rate is required',
+      'number.positive': 'Rate must be a positive number'
+    }),
+  
+  effectiveDate: Joi.date()
+    .iso()
+    .required()
+    .messages({
+      'any.required': 'Effective date is required',
+      'date.format': 'Effective date must be in YYYY-MM-DD format'
+    })
+});
+
+// Validation schema for loading exchange rates
+export const importExchangeRatesSchema = Joi.object({
+  rates: Joi.array()
+    .items(exchangeRateSchema)
+    .min(1)
+    .max(5000)
+    .required()
+    .messages({
+      'any.required': 'Rates are required',
+      'array.min': 'At least one rate is required',
+      'array.max': 'At most 5000 rates can be loaded at once'
+    })
+});
+
+// Validation schema for exchange rate query parameters
+export const exchangeRateQuerySchema = Joi.object({
+  baseCurrency: currencyField.optional(),
+  
+  quoteCurrency: currencyField.optional()
+});
+
+// Validation schema for changing an organization's reporting currency
+export const reportingCurrencySchema = Joi.object({
+  currency: currencyField.required()
+});
+
+// Validation schema for loading exchange rates from the contents of a CSV file
+export const importExchangeRatesCsvSchema = Joi.object({
+  csv: Joi.string()
+    .max(1000000)
+    .required()
+    .messages({
+      'any.required': 'CSV contents are required',
+      'string.max': 'CSV contents cannot exceed 1 MB'
+    })
+});
\ No newline at end of file
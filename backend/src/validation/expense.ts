@@ -1,15 +1,65 @@
 import Joi from 'joi';
-import { ExpenseCategory } from '@prisma/client';
+import { CostStatus } from '@prisma/client';
+import { categoryIdField } from './category';
+import { costCenterIdField } from './costCenter';
+import { currencyField } from './exchangeRate';
+import { tagIdField, tagsField } from './tag';
 
-// Validation schema for creating an expense
-export const createExpenseSchema = Joi.object({
-  category: Joi.string()
-    .valid(...Object.values(ExpenseCategory))
-    .required()
+// Optional details of a line item; null clears them on update
+const lineItemFields = {
+  description: Joi.string()
+    .trim()
+    .max(255)
+    .allow(null, '')
+    .optional()
+    .messages({
+      'string.max': 'Description cannot exceed 255 characters'
+    }),
+  
+  vendor: Joi.string()
+    .trim()
+    .max(100)
+    .allow(null, '')
+    .optional()
+    .messages({
+      'string.max': 'Vendor cannot exceed 100 characters'
+    }),
+  
+  invoiceNumber: Joi.string()
+    .trim()
+    .max(50)
+    .allow(null, '')
+    .optional()
+    .messages({
+      'string.max': 'Invoice number cannot exceed 50 characters'
+    }),
+  
+  invoiceDate: Joi.date()
+    .iso()
+    .allow(null)
+    .optional()
+    .messages({
+      'date.base': 'Invoice date must be a valid date',
+      'date.format': 'Invoice date must be in YYYY-MM-DD format'
+    }),
+
+  notes: Joi.string()
+    .trim()
+    .max(2000)
+    .allow(null, '')
+    .optional()
     .messages({
-      'any.required': 'Category is required',
-      'any.only': 'Category must be one of the predefined expense categories'
+      'string.max': 'Notes cannot exceed 2000 characters'
     }),
+
+  tags: tagsField.optional()
+};
+
+// Validation schema for creating an expense
+export const createExpenseSchema = Joi.object({
+  categoryId: categoryIdField.required(),
+  
+  costCenterId: costCenterIdField.optional(),
   
   amount: Joi.number()
     .positive()
@@ -22,6 +72,9 @@ export const createExpenseSchema = Joi.object({
       'number.max': 'Amount cannot exceed 999,999,999.99'
     }),
   
+  // Defaults to the organization's reporting currency
+  currency: currencyField.optional(),
+  
   month: Joi.number()
     .integer()
     .min(1)
@@ -42,7 +95,13 @@ export const createExpenseSchema = Joi.object({
       'any.required': 'Year is required',
       'number.min': 'Year must be between 2020 and 2050',
       'number.max': 'Year must be between 2020 and 2050'
-    })
+    }),
+
+  // Drafts are kept out of trends and the approvals queue until submitted
+  draft: Joi.boolean()
+    .optional(),
+  
+  ...lineItemFields
 });
 
 // Validation schema for updating an expense
@@ -56,7 +115,11 @@ export const updateExpenseSchema = Joi.object({
       'any.required': 'Amount is required',
       'number.positive': 'Amount must be a positive number',
       'number.max': 'Amount cannot exceed 999,999,999.99'
-    })
+    }),
+  
+  currency: currencyField.optional(),
+  
+  ...lineItemFields
 });
 
 // Validation schema for expense query parameters
@@ -73,10 +136,111 @@ export const expenseQuerySchema = Joi.object({
     .max(12)
     .optional(),
   
-  category: Joi.string()
-    .valid(...Object.values(ExpenseCategory))
+  startYear: Joi.number()
+    .integer()
+    .min(2020)
+    .max(2050)
+    .optional()
+    .messages({
+      'number.min': 'Start year must be between 2020 and 2050',
+      'number.max': 'Start year must be between 2020 and 2050'
+    }),
+
+  startMonth: Joi.number()
+    .integer()
+    .min(1)
+    .max(12)
+    .optional()
+    .messages({
+      'number.min': 'Start month must be between 1 and 12',
+      'number.max': 'Start month must be between 1 and 12'
+    }),
+
+  endYear: Joi.number()
+    .integer()
+    .min(2020)
+    .max(2050)
+    .optional()
+    .messages({
+      'number.min': 'End year must be between 2020 and 2050',
+      'number.max': 'End year must be between 2020 and 2050'
+    }),
+
+  endMonth: Joi.number()
+    .integer()
+    .min(1)
+    .max(12)
+    .optional()
+    .messages({
+      'number.min': 'End month must be between 1 and 12',
+      'number.max': 'End month must be between 1 and 12'
+    }),
+  
+  categoryId: categoryIdField.optional(),
+
+  // Repeated as categoryIds=1&categoryIds=2 or categoryIds[]=1&categoryIds[]=2
+  categoryIds: Joi.array()
+    .items(categoryIdField)
+    .single()
+    .max(100)
     .optional(),
   
+  costCenterId: costCenterIdField.optional(),
+
+  // Repeated like categoryIds; expenses with any of the tags match
+  tagIds: Joi.array()
+    .items(tagIdField)
+    .single()
+    .max(100)
+    .optional(),
+
+  // Web-style search of notes and tags: words, "quoted phrases", OR, and -word to exclude
+  q: Joi.string()
+    .trim()
+    .max(200)
+    .allow('')
+    .optional()
+    .messages({
+      'string.max': 'Search cannot exceed 200 characters'
+    }),
+
+  status: Joi.string()
+    .valid(...Object.values(CostStatus))
+    .optional()
+    .messages({
+      'any.only': `Status must be one of ${Object.values(CostStatus).join(', ')}`
+    }),
+
+  // Amount range in the organization's reporting currency. Expenses in other
+  // currencies match on their converted amount; without a rate they never match.
+  minAmount: Joi.number()
+    .min(0)
+    .optional()
+    .messages({
+      'number.min': 'Minimum amount cannot be negative'
+    }),
+
+  maxAmount: Joi.number()
+    .min(0)
+    .optional()
+    .messages({
+      'number.min': 'Maximum amount cannot be negative'
+    }),
+
+  sortBy: Joi.string()
+    .valid('date', 'amount', 'category')
+    .default('date')
+    .messages({
+      'any.only': 'sortBy must be one of: date, amount, category'
+    }),
+
+  sortOrder: Joi.string()
+    .valid('asc', 'desc')
+    .default('desc')
+    .messages({
+      'any.only': 'sortOrder must be one of: asc, desc'
+    }),
+  
   limit: Joi.number()
     .integer()
     .min(1)
@@ -84,11 +248,64 @@ export const expenseQuerySchema = Joi.object({
     .default(50)
     .optional(),
   
+  offset: Joi.number()
+    .integer()
+    .min(0)
+    .optional(),
+
+  // Opaque cursor of keyset paging; empty for the first page
+  cursor: Joi.string()
+    .allow('')
+    .max(200)
+    .optional()
+})
+  .with('startMonth', 'startYear')
+  .with('endMonth', 'endYear')
+  .oxor('categoryId', 'categoryIds')
+  .oxor('offset', 'cursor')
+  .custom((value, helpers) => {
+    if (value.startYear !== undefined && value.endYear !== undefined &&
+        value.endYear * 12 + (value.endMonth ?? 12) < value.startYear * 12 + (value.startMonth ?? 1)) {
+      return helpers.message({ custom: 'End of the date range cannot be before its start' });
+    }
+
+    if (value.minAmount !== undefined && value.maxAmount !== undefined && value.maxAmount < value.minAmount) {
+      return helpers.message({ custom: 'Maximum amount cannot be below the minimum amount' });
+    }
+
+    if (value.cursor !== undefined && value.sortBy !== 'date') {
+      return helpers.message({ custom: 'Cursor paging only supports sorting by date' });
+    }
+
+    return value;
+  });
+
+// Validation schema for paging through the trash
+export const trashQuerySchema = Joi.object({
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .default(50),
+
   offset: Joi.number()
     .integer()
     .min(0)
     .default(0)
+});
+
+// Validation schema for purging the trash by hand; without retentionDays the
+// TRASH_RETENTION_DAYS of the configuration applies
+export const trashPurgeSchema = Joi.object({
+  retentionDays: Joi.number()
+    .integer()
+    .min(1)
     .optional()
+    .messages({
+      'number.base': 'Retention days must be a number',
+      'number.integer': 'Retention days must be a whole number',
+      'number.min': 'Retention days must be at least 1'
+    })
 });
 
 // Validation schema for expense ID parameter
@@ -103,6 +320,52 @@ export const expenseIdSchema = Joi.object({
     })
 });
 
+// Validation schema for a batch of expense operations. The data of each
+// operation is then validated with the schema of its single-expense route.
+export const batchExpenseSchema = Joi.object({
+  operations: Joi.array()
+    .items(Joi.object({
+      action: Joi.string()
+        .valid('create', 'update', 'delete')
+        .required()
+        .messages({
+          'any.required': 'Action is required',
+          'any.only': 'action must be one of: create, update, delete'
+        }),
+
+      id: Joi.when('action', {
+        is: 'create',
+        then: Joi.forbidden(),
+        otherwise: Joi.number()
+          .integer()
+          .positive()
+          .required()
+          .messages({
+            'any.required': 'Expense ID is required',
+            'number.positive': 'Expense ID must be a positive number'
+          })
+      }),
+
+      data: Joi.when('action', {
+        is: 'delete',
+        then: Joi.forbidden(),
+        otherwise: Joi.object().unknown(true).required().messages({
+          'any.required': 'Data is required'
+        })
+      })
+    }))
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'any.required': 'Operations are required',
+      'array.min': 'A batch needs at least one operation',
+      'array.max': 'A batch can contain at most 100 operations'
+    }),
+
+  atomic: Joi.boolean().default(true)
+});
+
 // Validation schema for trends query parameters
 export const trendsQuerySchema = Joi.object({
   startYear: Joi.number()
@@ -147,13 +410,18 @@ export const trendsQuerySchema = Joi.object({
       'number.max': 'End month must be between 1 and 12'
     }),
   
-  category: Joi.string()
-    .valid(...Object.values(ExpenseCategory))
-    .optional(),
+  categoryId: categoryIdField.optional(),
+  
+  costCenterId: costCenterIdField.optional(),
   
   groupBy: Joi.string()
     .valid('month', 'year', 'category')
     .default('month')
+    .optional(),
+
+  // Drafts, submitted and rejected expenses are left out unless asked for
+  includeUnapproved: Joi.boolean()
+    .default(false)
     .optional()
 }).custom((value, helpers) => {
   // Validate that endYear is not before startYear
@@ -169,4 +437,38 @@ export const trendsQuerySchema = Joi.object({
   }
   
   return value;
+});
+
+// Validation schema for forecast query parameters
+export const forecastQuerySchema = Joi.object({
+  months: Joi.number()
+    .integer()
+    .min(1)
+    .max(24)
+    .default(6)
+    .messages({
+      'number.min': 'Months must be between 1 and 24',
+      'number.max': 'Months must be between 1 and 24'
+    }),
+
+  method: Joi.string()
+    .valid('linear', 'moving_average', 'seasonal_naive')
+    .default('linear')
+    .messages({
+      'any.only': 'Method must be one of: linear, moving_average, seasonal_naive'
+    }),
+
+  historyMonths: Joi.number()
+    .integer()
+    .min(3)
+    .max(120)
+    .default(24)
+    .messages({
+      'number.min': 'History months must be between 3 and 120',
+      'number.max': 'History months must be between 3 and 120'
+    }),
+
+  categoryId: categoryIdField.optional(),
+
+  costCenterId: costCenterIdField.optional()
 });
\ No newline at end of file
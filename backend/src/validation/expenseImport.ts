@@ -0,0 +1,36 @@
+import Joi from 'joi';
+import { ImportConflictMode } from '../types/expenseImport';
+
+const IMPORT_FIELDS = [
+  'category',
+  'costCenter',
+  'amount',
+  'currency',
+  'month',
+  'year',
+  'description',
+  'vendor',
+  'invoiceNumber',
+  'invoiceDate'
+];
+
+// Validation schema for the options of an expense import, sent as query parameters
+// such as ?columns[category]=Cost%20Type&onConflict=skip
+export const importOptionsSchema = Joi.object({
+  columns: Joi.object()
+    .pattern(
+      Joi.string().valid(...IMPORT_FIELDS),
+      Joi.string().trim().min(1).max(100)
+    )
+    .optional()
+    .messages({
+      'object.unknown': 'Unknown import field "{#key}"'
+    }),
+  
+  onConflict: Joi.string()
+    .valid(...Object.values(ImportConflictMode))
+    .default(ImportConflictMode.SKIP)
+    .messages({
+      'any.only': 'onConflict must be one of: skip, overwrite, add'
+    })
+});
\ No newline at end of file
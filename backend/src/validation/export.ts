@@ -0,0 +1,20 @@
+import Joi from 'joi';
+
+// Validation schema for the type and format of an export. The remaining query
+// parameters are the filters of the exported list and are validated with its schema.
+export const exportQuerySchema = Joi.object({
+  type: Joi.string()
+    .valid('expenses', 'trends')
+    .default('expenses')
+    .messages({
+      'any.only': 'type must be one of: expenses, trends'
+    }),
+  
+  format: Joi.string()
+    .valid('csv', 'xlsx', 'json', 'pdf')
+    .required()
+    .messages({
+      'any.required': 'Format is required',
+      'any.only': 'format must be one of: csv, xlsx, json, pdf'
+    })
+}).unknown(true);
\ No newline at end of file
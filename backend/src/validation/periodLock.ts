@@ -0,0 +1,35 @@
+import Joi from 'joi';
+
+// Month and year of the period to close or reopen
+export const periodSchema = Joi.object({
+  month: Joi.number()
+    .integer()
+    .min(1)
+    .max(12)
+    .required()
+    .messages({
+      'any.required': 'Month is required',
+      'number.min': 'Month must be between 1 and 12',
+      'number.max': 'Month must be between 1 and 12'
+    }),
+
+  year: Joi.number()
+    .integer()
+    .min(2020)
+    .max(2050)
+    .required()
+    .messages({
+      'any.required': 'Year is required',
+      'number.min': 'Year must be between 2020 and 2050',
+      'number.max': 'Year must be between 2020 and 2050'
+    })
+});
+
+// Validation schema for period lock query parameters
+export const periodLockQuerySchema = Joi.object({
+  year: Joi.number()
+    .integer()
+    .min(2020)
+    .max(2050)
+    .optional()
+});
\ No newline at end of file
@@ -0,0 +1,151 @@
+import Joi from 'joi';
+import { RecurrenceFrequency } from '@prisma/client';
+import { categoryIdField } from './category';
+import { costCenterIdField } from './costCenter';
+import { currencyField } from './exchangeRate';
+
+const amount = Joi.number()
+  .positive()
+  .precision(2)
+  .max(999999999.99)
+  .messages({
+    'any.required': 'Amount is required',
+    'number.positive': 'Amount must be a positive number',
+    'number.max': 'Amount cannot exceed 999,999,999.99'
+  });
+
+const month = (label: string) => Joi.number()
+  .integer()
+  .min(1)
+  .max(12)
+  .messages({
+    'any.required': `${label} month is required`,
+    'number.min': `${label} month must be between 1 and 12`,
+    'number.max': `${label} month must be between 1 and 12`
+  });
+
+const year = (label: string) => Joi.number()
+  .integer()
+  .min(2020)
+  .max(2050)
+  .messages({
+    'any.required': `${label} year is required`,
+    'number.min': `${label} year must be between 2020 and 2050`,
+    'number.max': `${label} year must be between 2020 and 2050`
+  });
+
+const frequency = Joi.string()
+  .valid(...Object.values(RecurrenceFrequency))
+  .messages({
+    'any.only': `Frequency must be one of ${Object.values(RecurrenceFrequency).join(', ')}`
+  });
+
+const escalationPercent = Joi.number()
+  .min(0)
+  .max(100)
+  .precision(2)
+  .messages({
+    'number.min': 'Escalation must be between 0 and 100 percent',
+    'number.max': 'Escalation must be between 0 and 100 percent'
+  });
+
+const description = Joi.string()
+  .trim()
+  .max(255)
+  .allow(null, '')
+  .messages({
+    'string.max': 'Description cannot exceed 255 characters'
+  });
+
+const vendor = Joi.string()
+  .trim()
+  .max(100)
+  .allow(null, '')
+  .messages({
+    'string.max': 'Vendor cannot exceed 100 characters'
+  });
+
+// Validation schema for creating a recurring template. The end month and year
+// are given together, or left out for a template without an end.
+export const createRecurringTemplateSchema = Joi.object({
+  categoryId: categoryIdField.required(),
+
+  costCenterId: costCenterIdField.optional(),
+
+  amount: amount.required(),
+
+  // Defaults to the organization's reporting currency
+  currency: currencyField.optional(),
+
+  description: description.optional(),
+
+  vendor: vendor.optional(),
+
+  frequency: frequency.default(RecurrenceFrequency.MONTHLY),
+
+  startMonth: month('Start').required(),
+
+  startYear: year('Start').required(),
+
+  endMonth: month('End').optional(),
+
+  endYear: year('End').optional(),
+
+  escalationPercent: escalationPercent.optional()
+}).and('endMonth', 'endYear').messages({
+  'object.and': 'End month and end year must be given together'
+});
+
+// Validation schema for updating a recurring template; null clears optional values
+export const updateRecurringTemplateSchema = Joi.object({
+  categoryId: categoryIdField.optional(),
+
+  costCenterId: costCenterIdField.allow(null).optional(),
+
+  amount: amount.optional(),
+
+  currency: currencyField.optional(),
+
+  description: description.optional(),
+
+  vendor: vendor.optional(),
+
+  frequency: frequency.optional(),
+
+  startMonth: month('Start').optional(),
+
+  startYear: year('Start').optional(),
+
+  endMonth: month('End').allow(null).optional(),
+
+  endYear: year('End').allow(null).optional(),
+
+  escalationPercent: escalationPercent.allow(null).optional(),
+
+  isActive: Joi.boolean().optional()
+}).min(1).and('endMonth', 'endYear').messages({
+  'object.min': 'At least one field is required',
+  'object.and': 'End month and end year must be given together'
+});
+
+// Validation schema for previewing the costs a template will create
+export const recurringPreviewQuerySchema = Joi.object({
+  count: Joi.number()
+    .integer()
+    .min(1)
+    .max(60)
+    .default(12)
+    .optional()
+});
+
+// Validation schema for recurring template ID parameter
+export const recurringTemplateIdSchema = Joi.object({
+  id: Joi.number()
+    .integer()
+    .positive()
+    .required()
+    .messages({
+      'any.required': 'Recurring template ID is required',
+      'number.positive': 'Recurring template ID must be a positive number'
+    })
+});
\ No newline at end of file
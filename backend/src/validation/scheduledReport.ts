@@ -0,0 +1,141 @@
+import Joi from 'joi';
+import cron from 'node-cron';
+import { ReportDeliveryStatus, ReportFormat, ReportGroupBy, ReportPeriod } from '@prisma/client';
+import { categoryIdField } from './category';
+import { costCenterIdField } from './costCenter';
+
+const name = Joi.string()
+  .trim()
+  .min(1)
+  .max(100)
+  .messages({
+    'any.required': 'Report name is required',
+    'string.empty': 'Report name cannot be empty',
+    'string.max': 'Report name cannot exceed 100 characters'
+  });
+
+const period = Joi.string()
+  .valid(...Object.values(ReportPeriod))
+  .messages({
+    'any.required': 'Period is required',
+    'any.only': `Period must be one of ${Object.values(ReportPeriod).join(', ')}`
+  });
+
+const groupBy = Joi.string()
+  .valid(...Object.values(ReportGroupBy))
+  .messages({
+    'any.only': `Group by must be one of ${Object.values(ReportGroupBy).join(', ')}`
+  });
+
+const format = Joi.string()
+  .valid(...Object.values(ReportFormat))
+  .messages({
+    'any.only': `Format must be one of ${Object.values(ReportFormat).join(', ')}`
+  });
+
+// Five-field cron expression as understood by node-cron
+const schedule = Joi.string()
+  .trim()
+  .max(100)
+  .custom((value: string, helpers) => {
+    if (value.split(/\s+/).length !== 5 || !cron.validate(value)) {
+      return helpers.error('any.invalid');
+    }
+    return value;
+  })
+  .messages({
+    'any.required': 'Schedule is required',
+    'any.invalid': 'Schedule must be a cron expression with five fields, such as "0 8 2 * *"'
+  });
+
+const recipients = Joi.array()
+  .items(Joi.string().trim().email().max(255))
+  .min(1)
+  .max(50)
+  .unique()
+  .messages({
+    'any.required': 'At least one recipient is required',
+    'array.min': 'At least one recipient is required',
+    'array.max': 'A report can have at most 50 recipients',
+    'array.unique': 'Recipients must not repeat',
+    'string.email': 'Recipients must be email addresses'
+  });
+
+// Validation schema for creating a scheduled report
+export const createScheduledReportSchema = Joi.object({
+  name: name.required(),
+
+  period: period.required(),
+
+  categoryId: categoryIdField.optional(),
+
+  costCenterId: costCenterIdField.optional(),
+
+  groupBy: groupBy.default(ReportGroupBy.MONTH),
+
+  format: format.default(ReportFormat.PDF),
+
+  schedule: schedule.required(),
+
+  recipients: recipients.required()
+});
+
+// Validation schema for updating a scheduled report; null removes a filter
+export const updateScheduledReportSchema = Joi.object({
+  name: name.optional(),
+
+  period: period.optional(),
+
+  categoryId: categoryIdField.allow(null).optional(),
+
+  costCenterId: costCenterIdField.allow(null).optional(),
+
+  groupBy: groupBy.optional(),
+
+  format: format.optional(),
+
+  schedule: schedule.optional(),
+
+  recipients: recipients.optional(),
+
+  isActive: Joi.boolean().optional()
+}).min(1).messages({
+  'object.min': 'At least one field is required'
+});
+
+// Validation schema for delivery log query parameters
+export const reportDeliveryQuerySchema = Joi.object({
+  reportId: Joi.number()
+    .integer()
+    .positive()
+    .optional(),
+
+  status: Joi.string()
+    .valid(...Object.values(ReportDeliveryStatus))
+    .optional(),
+
+  limit: Joi.number()
+    .integer()
+    .min(1)
+    .max(100)
+    .default(50)
+    .optional(),
+
+  offset: Joi.number()
+    .integer()
+    .min(0)
+    .default(0)
+    .optional()
+});
+
+// Validation schema for scheduled report ID parameter
+export const scheduledReportIdSchema = Joi.object({
+  id: Joi.number()
+    .integer()
+    .positive()
+    .required()
+    .messages({
+      'any.required': 'Report ID is required',
+      'number.positive': 'Report ID must be a positive number'
+    })
+});
\ No newline at end of file
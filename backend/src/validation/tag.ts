@@ -0,0 +1,30 @@
+import Joi from 'joi';
+
+// Tag names are matched in lower case, so "Pen-Test" and "pen-test" are one tag
+export const tagNameField = Joi.string()
+  .trim()
+  .lowercase()
+  .min(1)
+  .max(50)
+  .messages({
+    'string.empty': 'Tag cannot be empty',
+    'string.max': 'Tag cannot exceed 50 characters'
+  });
+
+// The tags of an expense, each given once
+export const tagsField = Joi.array()
+  .items(tagNameField)
+  .max(20)
+  .unique()
+  .messages({
+    'array.max': 'An expense can have at most 20 tags',
+    'array.unique': 'Each tag can only be given once'
+  });
+
+export const tagIdField = Joi.number()
+  .integer()
+  .positive()
+  .messages({
+    'number.base': 'Tag must be a tag ID',
+    'number.positive': 'Tag must be a tag ID'
+  });
\ No newline at end of file
@@ -14,6 +14,8 @@ export default defineConfig({
     responseTimeout: 10000,
     env: {
       apiUrl: 'http://localhost:3000/api',
+      userEmail: 'e2e@example.com',
+      userPassword: 'e2e-test-password',
     },
   },
   component: {
@@ -1,5 +1,6 @@
 describe('Charts and Reports', () => {
   beforeEach(() => {
+    cy.login();
     // Clean up and seed test data
     cy.cleanupTestData();
     
@@ -1,5 +1,6 @@
 describe('Expense Management Application', () => {
   beforeEach(() => {
+    cy.login();
     // Clean up test data before each test
     cy.cleanupTestData();
     cy.visit('/');
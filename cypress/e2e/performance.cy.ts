@@ -1,5 +1,6 @@
 describe('Performance Tests', () => {
   beforeEach(() => {
+    cy.login();
     cy.cleanupTestData();
   });
 
@@ -3,6 +3,11 @@
 declare global {
   namespace Cypress {
     interface Chainable {
+      /**
+       * Custom command to log in via API and store the session tokens
+       */
+      login(): Chainable<any>;
+
       /**
        * Custom command to create an expense via API
        */
@@ -36,12 +41,33 @@ declare global {
   }
 }
 
+// Authorization header for API requests made by the tests
+const authHeaders = () => ({
+  Authorization: `Bearer ${localStorage.getItem('authToken')}`,
+});
+
+// Log in via API
+Cypress.Commands.add('login', () => {
+  return cy.request({
+    method: 'POST',
+    url: `${Cypress.env('apiUrl')}/auth/login`,
+    body: {
+      email: Cypress.env('userEmail'),
+      password: Cypress.env('userPassword'),
+    },
+  }).then((response) => {
+    localStorage.setItem('authToken', response.body.data.accessToken);
+    localStorage.setItem('refreshToken', response.body.data.refreshToken);
+  });
+});
+
 // Create expense via API
 Cypress.Commands.add('createExpense', (expense) => {
   return cy.request({
     method: 'POST',
     url: `${Cypress.env('apiUrl')}/expenses`,
     body: expense,
+    headers: authHeaders(),
     failOnStatusCode: false,
   });
 });
@@ -51,6 +77,7 @@ Cypress.Commands.add('cleanupTestData', () => {
   return cy.request({
     method: 'DELETE',
     url: `${Cypress.env('apiUrl')}/expenses/test-cleanup`,
+    headers: authHeaders(),
     failOnStatusCode: false,
   });
 });
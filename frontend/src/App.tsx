@@ -4,8 +4,11 @@ import { Provider } from 'react-redux';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
 import { store } from './store';
+import { clearUser } from './store/authSlice';
+import { apiClient } from './utils/api';
 import ErrorBoundary from './components/ErrorBoundary';
 import Layout from './components/Layout';
+import RequireAuth from './components/RequireAuth';
 import './styles/print.css';
 import Toast from './components/Toast';
 
@@ -13,6 +16,12 @@ import Toast from './components/Toast';
 const Dashboard = React.lazy(() => import('./pages/Dashboard'));
 const AddData = React.lazy(() => import('./pages/AddData'));
 const Reports = React.lazy(() => import('./pages/Reports'));
+const ImportData = React.lazy(() => import('./pages/ImportData'));
+const Approvals = React.lazy(() => import('./pages/Approvals'));
+const Login = React.lazy(() => import('./pages/Login'));
+
+// Send the user back to the login page once their session can no longer be refreshed
+apiClient.onUnauthorized(() => store.dispatch(clearUser()));
 
 // Loading component for Suspense fallback
 const LoadingSpinner = () => (
@@ -46,10 +55,13 @@ function App() {
           <Router>
             <Suspense fallback={<LoadingSpinner />}>
               <Routes>
-                <Route path="/" element={<Layout />}>
+                <Route path="/login" element={<Login />} />
+                <Route path="/" element={<RequireAuth><Layout /></RequireAuth>}>
                   <Route index element={<Dashboard />} />
                   <Route path="add-data" element={<AddData />} />
                   <Route path="reports" element={<Reports />} />
+                  <Route path="import" element={<ImportData />} />
+                  <Route path="approvals" element={<Approvals />} />
                 </Route>
               </Routes>
             </Suspense>
@@ -1,8 +1,12 @@
-import React, { useState, useCallback } from 'react';
-import { ExpenseCategory } from '../types/expense';
+import React, { useState, useCallback, useMemo } from 'react';
+import type { ExpenseCategory } from '../types/expense';
+import { useCategoriesQuery } from '../hooks/useCategories';
+import { useTagsQuery } from '../hooks/useTags';
 
 export interface FilterCriteria {
   categories: ExpenseCategory[];
+  tags: string[]; // Tag names; expenses with any of them match
+  search: string; // Full-text search over notes and tags
   dateRange: {
     startMonth: number;
     startYear: number;
@@ -33,8 +37,6 @@ const MONTH_NAMES = [
 const CURRENT_YEAR = new Date().getFullYear();
 const YEARS = Array.from({ length: 10 }, (_, i) => CURRENT_YEAR - i);
 
-const ALL_CATEGORIES = Object.values(ExpenseCategory);
-
 export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
   filters,
   onFiltersChange,
@@ -43,6 +45,13 @@ export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
   loading = false
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
+  // Archived categories stay filterable because older expenses still use them
+  const { data: categories } = useCategoriesQuery({ includeArchived: true });
+  const allCategories = useMemo(
+    () => (categories ?? []).map((category) => category.name),
+    [categories]
+  );
+  const { data: tags = [] } = useTagsQuery();
 
   const updateFilters = useCallback((updates: Partial<FilterCriteria>) => {
     onFiltersChange({ ...filters, ...updates });
@@ -56,11 +65,19 @@ export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
     updateFilters({ categories: newCategories });
   }, [filters.categories, updateFilters]);
 
+  const handleTagToggle = useCallback((tag: string) => {
+    const newTags = filters.tags.includes(tag)
+      ? filters.tags.filter(t => t !== tag)
+      : [...filters.tags, tag];
+
+    updateFilters({ tags: newTags });
+  }, [filters.tags, updateFilters]);
+
   const handleSelectAllCategories = useCallback(() => {
     updateFilters({ 
-      categories: filters.categories.length === ALL_CATEGORIES.length ? [] : ALL_CATEGORIES 
+      categories: filters.categories.length === allCategories.length ? [] : allCategories 
     });
-  }, [filters.categories.length, updateFilters]);
+  }, [allCategories, filters.categories.length, updateFilters]);
 
   const handleDateRangeChange = useCallback((field: keyof FilterCriteria['dateRange'], value: number) => {
     updateFilters({
@@ -84,7 +101,17 @@ export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
     let count = 0;
     
     // Category filters
-    if (filters.categories.length > 0 && filters.categories.length < ALL_CATEGORIES.length) {
+    if (filters.categories.length > 0 && filters.categories.length < allCategories.length) {
+      count++;
+    }
+
+    // Tag filters
+    if (filters.tags.length > 0) {
+      count++;
+    }
+
+    // Search
+    if (filters.search.trim()) {
       count++;
     }
     
@@ -101,7 +128,7 @@ export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
     }
     
     return count;
-  }, [filters]);
+  }, [allCategories.length, filters]);
 
   const activeFiltersCount = getActiveFiltersCount();
 
@@ -136,6 +163,23 @@ export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
 
       {isExpanded && (
         <div className="p-4 space-y-6">
+          {/* Search */}
+          <div>
+            <label htmlFor="filter-search" className="block text-sm font-medium text-gray-700 mb-3">
+              Search notes and tags
+            </label>
+            <input
+              id="filter-search"
+              type="search"
+              maxLength={200}
+              value={filters.search}
+              onChange={(e) => updateFilters({ search: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && onApplyFilters()}
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder='e.g. laptop refresh, "pen test" -retest'
+            />
+          </div>
+
           {/* Category Filters */}
           <div>
             <div className="flex items-center justify-between mb-3">
@@ -144,11 +188,11 @@ export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
                 onClick={handleSelectAllCategories}
                 className="text-sm text-blue-600 hover:text-blue-800"
               >
-                {filters.categories.length === ALL_CATEGORIES.length ? 'Deselect All' : 'Select All'}
+                {filters.categories.length === allCategories.length ? 'Deselect All' : 'Select All'}
               </button>
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
-              {ALL_CATEGORIES.map((category) => (
+              {allCategories.map((category) => (
                 <label key={category} className="flex items-center space-x-2 text-sm">
                   <input
                     type="checkbox"
@@ -164,6 +208,30 @@ export const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
             </div>
           </div>
 
+          {/* Tag Filters */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-3">Tags</label>
+            {tags.length === 0 ? (
+              <p className="text-sm text-gray-500">No expenses are tagged yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {tags.map((tag) => (
+                  <label key={tag.id} className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={filters.tags.includes(tag.name)}
+                      onChange={() => handleTagToggle(tag.name)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="text-gray-700">
+                      {tag.name} <span className="text-gray-400">({tag.costCount})</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* Date Range Filters */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-3">Date Range</label>
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { useApprovalQueueQuery, useReviewExpenseMutation } from '../hooks/useApprovals';
+import { ReviewDecision } from '../types/approval';
+import { formatMoney } from '../utils/currency';
+
+// Expenses waiting for approval, oldest month first. Each can be approved or
+// rejected with an optional comment, which is kept in the expense's history.
+const ApprovalQueue: React.FC = () => {
+  const queue = useApprovalQueueQuery({ limit: 100 });
+  const reviewExpense = useReviewExpenseMutation();
+  const [comments, setComments] = useState<Record<number, string>>({});
+
+  const expenses = queue.data?.data ?? [];
+  const total = queue.data?.pagination.total ?? 0;
+
+  const review = (id: number, decision: ReviewDecision) => {
+    const comment = comments[id]?.trim();
+    reviewExpense.mutate(
+      { id, decision, ...(comment ? { comment } : {}) },
+      { onSuccess: () => setComments((current) => ({ ...current, [id]: '' })) }
+    );
+  };
+
+  return (
+    <div>
+      {queue.isLoading && <p className="text-sm text-gray-500">Loading expenses waiting for approval...</p>}
+      {queue.error && <p className="text-sm text-red-800">{queue.error.message}</p>}
+      {reviewExpense.error && <p className="mb-4 text-sm text-red-800">{reviewExpense.error.message}</p>}
+      {queue.isSuccess && expenses.length === 0 && (
+        <p className="text-sm text-gray-500">No expenses are waiting for approval.</p>
+      )}
+
+      {expenses.length > 0 && (
+        <>
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expense</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Comment</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {expenses.map((expense) => (
+                <tr key={expense.id}>
+                  <td className="px-4 py-2 text-gray-900">
+                    <div className="font-medium">{expense.category}</div>
+                    {(expense.vendor || expense.description) && (
+                      <div className="text-xs text-gray-500">
+                        {[expense.vendor, expense.description].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-500">{expense.month}/{expense.year}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right text-gray-900">
+                    <div>{formatMoney(expense.amount, expense.currency)}</div>
+                    {expense.currency !== expense.reportingCurrency && expense.convertedAmount !== null && (
+                      <div className="text-xs text-gray-500">{formatMoney(expense.convertedAmount, expense.reportingCurrency)}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="text"
+                      value={comments[expense.id] ?? ''}
+                      onChange={(e) => setComments({ ...comments, [expense.id]: e.target.value })}
+                      maxLength={500}
+                      aria-label={`Comment on expense ${expense.id}`}
+                      className="block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    />
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right space-x-2">
+                    <button
+                      onClick={() => review(expense.id, ReviewDecision.APPROVE)}
+                      disabled={reviewExpense.isPending}
+                      aria-label={`Approve expense ${expense.id}`}
+                      className="text-green-700 hover:text-green-900 disabled:opacity-50"
+                    >
+                      Approve
+                    </button>
+                    <button
+                      onClick={() => review(expense.id, ReviewDecision.REJECT)}
+                      disabled={reviewExpense.isPending}
+                      aria-label={`Reject expense ${expense.id}`}
+                      className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                    >
+                      Reject
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {total > expenses.length && (
+            <p className="mt-2 text-sm text-gray-500">
+              Showing the {expenses.length} oldest of {total} expenses waiting for approval
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ApprovalQueue;
\ No newline at end of file
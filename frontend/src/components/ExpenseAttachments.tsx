@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ExpenseData } from '../types/expense';
+import type { AttachmentData } from '../types/attachment';
+import { ATTACHMENT_CONTENT_TYPES } from '../types/attachment';
+import {
+  useAttachmentsQuery,
+  useAttachmentFileQuery,
+  useUploadAttachmentMutation,
+  useDeleteAttachmentMutation,
+} from '../hooks/useAttachments';
+import { AttachmentService } from '../services/attachmentService';
+
+interface ExpenseAttachmentsProps {
+  expense: ExpenseData;
+  canModify: boolean;
+  onClose: () => void;
+}
+
+const formatSize = (size: number) =>
+  size < 1024 * 1024 ? `${Math.max(1, Math.round(size / 1024))} KB` : `${(size / (1024 * 1024)).toFixed(1)} MB`;
+
+// Object URL of a fetched file, released when the preview goes away
+const useObjectUrl = (blob: Blob | undefined) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+};
+
+// Images are previewed; other files, such as PDFs, show their type
+const AttachmentPreview: React.FC<{ attachment: AttachmentData }> = ({ attachment }) => {
+  const isImage = attachment.contentType.startsWith('image/');
+  const { data: file } = useAttachmentFileQuery(attachment.costId, attachment.id, isImage);
+  const url = useObjectUrl(file);
+
+  if (isImage && url) {
+    return <img src={url} alt={attachment.fileName} className="h-24 w-full object-cover rounded" />;
+  }
+
+  return (
+    <div className="h-24 w-full flex items-center justify-center rounded bg-gray-100 text-sm font-semibold text-gray-500">
+      {isImage ? '…' : attachment.contentType.split('/')[1]?.toUpperCase()}
+    </div>
+  );
+};
+
+// Panel with the receipts and invoices of an expense, where they can be opened,
+// uploaded and removed
+const ExpenseAttachments: React.FC<ExpenseAttachmentsProps> = ({ expense, canModify, onClose }) => {
+  const { data: attachments = [], isLoading, error } = useAttachmentsQuery(expense.id);
+  const uploadAttachment = useUploadAttachmentMutation(expense.id);
+  const deleteAttachment = useDeleteAttachmentMutation(expense.id);
+  const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null);
+  const [openError, setOpenError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      uploadAttachment.mutate(file);
+    }
+    e.target.value = '';
+  };
+
+  // Files open in a new tab, which the browser shows or downloads by type
+  const handleOpen = async (attachment: AttachmentData) => {
+    setOpenError(null);
+    try {
+      const file = await AttachmentService.getFile(expense.id, attachment.id);
+      const url = URL.createObjectURL(file);
+      window.open(url, '_blank', 'noopener');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      setOpenError((err as Error)?.message || 'Failed to open the attachment');
+    }
+  };
+
+  const handleDelete = (id: number) => {
+    deleteAttachment.mutate(id, { onSuccess: () => setDeleteConfirm(null) });
+  };
+
+  const mutationError = uploadAttachment.error ?? deleteAttachment.error;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div
+        role="dialog"
+        aria-labelledby="expense-attachments-title"
+        className="relative top-20 mx-auto p-5 border max-w-3xl shadow-lg rounded-md bg-white"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 id="expense-attachments-title" className="text-lg font-medium text-gray-900">
+            Attachments: {expense.category}, {expense.month}/{expense.year}
+          </h3>
+          <div className="flex items-center space-x-2">
+            {canModify && (
+              <>
+                <input
+                  ref={fileInput}
+                  type="file"
+                  accept={ATTACHMENT_CONTENT_TYPES.join(',')}
+                  onChange={handleUpload}
+                  aria-label="Upload attachment"
+                  className="hidden"
+                />
+                <button
+                  onClick={() => fileInput.current?.click()}
+                  disabled={uploadAttachment.isPending}
+                  className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {uploadAttachment.isPending ? 'Uploading...' : 'Upload'}
+                </button>
+              </>
+            )}
+            <button
+              onClick={onClose}
+              className="px-3 py-1 text-sm text-gray-500 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        {canModify && (
+          <p className="mb-4 text-xs text-gray-500">PDF, PNG, JPEG, GIF or WebP files</p>
+        )}
+        {isLoading && <p className="text-sm text-gray-500">Loading attachments...</p>}
+        {error && <p className="text-sm text-red-800">{error.message}</p>}
+        {mutationError && <p className="mb-4 text-sm text-red-800">{mutationError.message}</p>}
+        {openError && <p className="mb-4 text-sm text-red-800">{openError}</p>}
+        {!isLoading && !error && attachments.length === 0 && (
+          <p className="text-sm text-gray-500">No receipts or invoices are attached to this expense.</p>
+        )}
+
+        {attachments.length > 0 && (
+          <ul className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+            {attachments.map((attachment) => (
+              <li key={attachment.id} className="border border-gray-200 rounded-md p-2">
+                <button
+                  onClick={() => handleOpen(attachment)}
+                  className="block w-full text-left"
+                  title={`Open ${attachment.fileName}`}
+                >
+                  <AttachmentPreview attachment={attachment} />
+                  <div className="mt-2 text-sm text-gray-900 truncate">{attachment.fileName}</div>
+                </button>
+                <div className="text-xs text-gray-500">
+                  {formatSize(attachment.size)}
+                  {attachment.uploadedBy && ` · ${attachment.uploadedBy}`}
+                </div>
+                {canModify && (
+                  deleteConfirm === attachment.id ? (
+                    <div className="mt-1 flex space-x-2 text-xs">
+                      <button
+                        onClick={() => handleDelete(attachment.id)}
+                        disabled={deleteAttachment.isPending}
+                        className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                      >
+                        Confirm remove
+                      </button>
+                      <button onClick={() => setDeleteConfirm(null)} className="text-gray-600 hover:text-gray-900">
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setDeleteConfirm(attachment.id)}
+                      className="mt-1 text-xs text-red-600 hover:text-red-900"
+                    >
+                      Remove
+                    </button>
+                  )
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExpenseAttachments;
\ No newline at end of file
@@ -0,0 +1,263 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ExpenseData } from '../types/expense';
+import type { CommentData, CommentInput, CommentUser } from '../types/comment';
+import {
+  useCommentsQuery,
+  useCommentMembersQuery,
+  useAddCommentMutation,
+  useUpdateCommentMutation,
+  useDeleteCommentMutation,
+  useMarkCommentsReadMutation,
+} from '../hooks/useComments';
+import { useAuth } from '../hooks/useAuth';
+
+interface ExpenseCommentsProps {
+  expense: ExpenseData;
+  onClose: () => void;
+}
+
+// Members whose @Name appears in a comment
+const mentionsIn = (body: string, members: CommentUser[]) =>
+  members.filter((member) => body.includes(`@${member.name}`)).map((member) => member.id);
+
+// The @mention being typed at the end of the text, if any
+const typedMention = (body: string) => body.match(/(?:^|\s)@([^@\n]{0,30})$/)?.[1];
+
+// Comment text with its @mentions highlighted
+const CommentBody: React.FC<{ comment: CommentData }> = ({ comment }) => {
+  const names = comment.mentions.map((mention) => `@${mention.name}`);
+  if (names.length === 0) {
+    return <>{comment.body}</>;
+  }
+
+  const pattern = new RegExp(`(${names.map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`);
+  return (
+    <>
+      {comment.body.split(pattern).map((part, index) =>
+        names.includes(part) ? (
+          <span key={index} className="font-medium text-blue-700">{part}</span>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+interface CommentEditorProps {
+  initialBody?: string;
+  submitLabel: string;
+  pending: boolean;
+  // Called with a function that empties the text box, for once the comment is saved
+  onSubmit: (comment: CommentInput, clear: () => void) => void;
+  onCancel?: () => void;
+}
+
+// Text box for a comment that suggests members to @mention while typing
+const CommentEditor: React.FC<CommentEditorProps> = ({ initialBody = '', submitLabel, pending, onSubmit, onCancel }) => {
+  const { data: members = [] } = useCommentMembersQuery();
+  const [body, setBody] = useState(initialBody);
+
+  const mention = typedMention(body);
+  const suggestions = useMemo(() => {
+    if (mention === undefined) {
+      return [];
+    }
+    const search = mention.toLowerCase();
+    return members.filter((member) => member.name.toLowerCase().startsWith(search)).slice(0, 5);
+  }, [members, mention]);
+
+  const pickMention = (member: CommentUser) => {
+    setBody(body.slice(0, body.length - (mention?.length ?? 0)) + `${member.name} `);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = body.trim();
+    if (!text) {
+      return;
+    }
+    onSubmit({ body: text, mentions: mentionsIn(text, members) }, () => setBody(''));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={3}
+        maxLength={5000}
+        aria-label={onCancel ? 'Edit comment' : 'Comment'}
+        placeholder="Ask a question or explain this cost. Type @ to mention someone."
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+      {suggestions.length > 0 && (
+        <ul className="border border-gray-200 rounded-md divide-y divide-gray-100 text-sm" aria-label="Mention suggestions">
+          {suggestions.map((member) => (
+            <li key={member.id}>
+              <button
+                type="button"
+                onClick={() => pickMention(member)}
+                className="w-full px-3 py-1 text-left hover:bg-gray-50"
+              >
+                @{member.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-3 py-1 text-sm text-gray-500 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={pending || !body.trim()}
+          className="px-3 py-1 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {pending ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Panel with the discussion thread of an expense. Opening it marks the thread read.
+const ExpenseComments: React.FC<ExpenseCommentsProps> = ({ expense, onClose }) => {
+  const { user } = useAuth();
+  const thread = useCommentsQuery(expense.id);
+  const addComment = useAddCommentMutation(expense.id);
+  const updateComment = useUpdateCommentMutation(expense.id);
+  const deleteComment = useDeleteCommentMutation(expense.id);
+  const { mutate: markRead } = useMarkCommentsReadMutation(expense.id);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null);
+
+  useEffect(() => {
+    markRead();
+  }, [markRead]);
+
+  const comments = useMemo(() => thread.data?.pages.flatMap((page) => page.data) ?? [], [thread.data]);
+  const mutationError = addComment.error ?? updateComment.error ?? deleteComment.error;
+
+  const handleUpdate = (id: number, comment: CommentInput) => {
+    updateComment.mutate({ id, comment }, { onSuccess: () => setEditingId(null) });
+  };
+
+  const handleDelete = (id: number) => {
+    deleteComment.mutate(id, { onSuccess: () => setDeleteConfirm(null) });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div
+        role="dialog"
+        aria-labelledby="expense-comments-title"
+        className="relative top-20 mx-auto p-5 border max-w-2xl shadow-lg rounded-md bg-white"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 id="expense-comments-title" className="text-lg font-medium text-gray-900">
+            Comments: {expense.category}, {expense.month}/{expense.year}
+          </h3>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-sm text-gray-500 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+
+        {thread.isLoading && <p className="text-sm text-gray-500">Loading comments...</p>}
+        {thread.error && <p className="text-sm text-red-800">{thread.error.message}</p>}
+        {mutationError && <p className="mb-4 text-sm text-red-800">{mutationError.message}</p>}
+        {!thread.isLoading && !thread.error && comments.length === 0 && (
+          <p className="mb-4 text-sm text-gray-500">No one has commented on this expense yet.</p>
+        )}
+
+        {comments.length > 0 && (
+          <ul className="mb-4 space-y-3">
+            {comments.map((comment) => {
+              const own = user !== null && comment.author?.id === user.id;
+              return (
+                <li key={comment.id} className="border border-gray-200 rounded-md p-3">
+                  <div className="flex justify-between text-xs text-gray-500">
+                    <span>
+                      <span className="font-medium text-gray-900">{comment.author?.name ?? 'Former user'}</span>
+                      {' · '}
+                      {new Date(comment.createdAt).toLocaleString()}
+                      {comment.editedAt && ' (edited)'}
+                    </span>
+                    {own && editingId !== comment.id && (
+                      deleteConfirm === comment.id ? (
+                        <span className="space-x-2">
+                          <button
+                            onClick={() => handleDelete(comment.id)}
+                            disabled={deleteComment.isPending}
+                            className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                          >
+                            Confirm delete
+                          </button>
+                          <button onClick={() => setDeleteConfirm(null)} className="text-gray-600 hover:text-gray-900">
+                            Cancel
+                          </button>
+                        </span>
+                      ) : (
+                        <span className="space-x-2">
+                          <button onClick={() => setEditingId(comment.id)} className="text-blue-600 hover:text-blue-900">
+                            Edit
+                          </button>
+                          <button onClick={() => setDeleteConfirm(comment.id)} className="text-red-600 hover:text-red-900">
+                            Delete
+                          </button>
+                        </span>
+                      )
+                    )}
+                  </div>
+                  {editingId === comment.id ? (
+                    <div className="mt-2">
+                      <CommentEditor
+                        initialBody={comment.body}
+                        submitLabel="Save"
+                        pending={updateComment.isPending}
+                        onSubmit={(input) => handleUpdate(comment.id, input)}
+                        onCancel={() => setEditingId(null)}
+                      />
+                    </div>
+                  ) : (
+                    <p className="mt-1 text-sm text-gray-900 whitespace-pre-wrap">
+                      <CommentBody comment={comment} />
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {thread.hasNextPage && (
+          <button
+            onClick={() => thread.fetchNextPage()}
+            disabled={thread.isFetchingNextPage}
+            className="mb-4 text-sm text-blue-600 hover:text-blue-900 disabled:opacity-50"
+          >
+            {thread.isFetchingNextPage ? 'Loading...' : 'Show newer comments'}
+          </button>
+        )}
+
+        <CommentEditor
+          submitLabel="Comment"
+          pending={addComment.isPending}
+          onSubmit={(input, clear) => addComment.mutate(input, { onSuccess: clear })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ExpenseComments;
\ No newline at end of file
@@ -1,17 +1,31 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm, Controller } from 'react-hook-form';
 import { joiResolver } from '@hookform/resolvers/joi';
 import Joi from 'joi';
-import { ExpenseCategory, ExpenseFormData, ExpenseData } from '../types/expense';
+import type { ExpenseFormData, ExpenseData } from '../types/expense';
+import { useCategoriesQuery } from '../hooks/useCategories';
+import { useCostCentersQuery } from '../hooks/useCostCenters';
 
 // Validation schema
 const expenseSchema = Joi.object({
-  category: Joi.string()
-    .valid(...Object.values(ExpenseCategory))
+  categoryId: Joi.number()
+    .integer()
+    .positive()
     .required()
     .messages({
-      'any.required': 'Category is required',
-      'any.only': 'Please select a valid category'
+      'number.base': 'Please select a valid category',
+      'number.integer': 'Please select a valid category',
+      'number.positive': 'Please select a valid category',
+      'any.required': 'Category is required'
+    }),
+  costCenterId: Joi.number()
+    .integer()
+    .positive()
+    .optional()
+    .messages({
+      'number.base': 'Please select a valid cost center',
+      'number.integer': 'Please select a valid cost center',
+      'number.positive': 'Please select a valid cost center'
     }),
   amount: Joi.number()
     .positive()
@@ -24,6 +38,12 @@ const expenseSchema = Joi.object({
       'number.max': 'Amount cannot exceed 999,999,999.99',
       'any.required': 'Amount is required'
     }),
+  currency: Joi.string()
+    .pattern(/^[A-Z]{3}$/)
+    .optional()
+    .messages({
+      'string.pattern.base': 'Currency must be a three-letter code such as EUR'
+    }),
   month: Joi.number()
     .integer()
     .min(1)
@@ -47,9 +67,86 @@ const expenseSchema = Joi.object({
       'number.min': 'Year must be between 2020 and 2050',
       'number.max': 'Year must be between 2020 and 2050',
       'any.required': 'Year is required'
-    })
+    }),
+  description: Joi.string()
+    .max(255)
+    .optional()
+    .messages({
+      'string.max': 'Description cannot exceed 255 characters'
+    }),
+  vendor: Joi.string()
+    .max(100)
+    .optional()
+    .messages({
+      'string.max': 'Vendor cannot exceed 100 characters'
+    }),
+  invoiceNumber: Joi.string()
+    .max(50)
+    .optional()
+    .messages({
+      'string.max': 'Invoice number cannot exceed 50 characters'
+    }),
+  invoiceDate: Joi.string()
+    .isoDate()
+    .optional()
+    .messages({
+      'string.isoDate': 'Please enter a valid invoice date'
+    }),
+  notes: Joi.string()
+    .max(2000)
+    .optional()
+    .messages({
+      'string.max': 'Notes cannot exceed 2000 characters'
+    }),
+  tags: Joi.array()
+    .items(Joi.string().max(50).messages({ 'string.max': 'Tags cannot exceed 50 characters' }))
+    .max(20)
+    .optional()
+    .messages({
+      'array.max': 'An expense can have at most 20 tags'
+    }),
+  draft: Joi.boolean()
+    .optional()
 });
 
+// Tags are typed as a comma-separated list
+const parseTags = (text: string): string[] =>
+  [...new Set(text.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+interface TagsInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  disabled: boolean;
+  invalid: boolean;
+}
+
+// Keeps the typed text, so commas and spaces can be typed before the next tag,
+// and follows the value when the form is reset
+const TagsInput: React.FC<TagsInputProps> = ({ value, onChange, disabled, invalid }) => {
+  const [text, setText] = useState(value.join(', '));
+
+  useEffect(() => {
+    setText((current) => (parseTags(current).join(',') === value.join(',') ? current : value.join(', ')));
+  }, [value]);
+
+  return (
+    <input
+      type="text"
+      id="tags"
+      value={text}
+      placeholder="e.g. one-off, laptop-refresh"
+      className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+        invalid ? 'border-red-300' : 'border-gray-300'
+      }`}
+      disabled={disabled}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseTags(e.target.value));
+      }}
+    />
+  );
+};
+
 interface ExpenseFormProps {
   onSubmit: (data: ExpenseFormData) => Promise<void>;
   initialData?: ExpenseData;
@@ -65,6 +162,33 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
   loading = false,
   error
 }) => {
+  const { data: categories = [] } = useCategoriesQuery();
+  const { data: costCenters = [] } = useCostCentersQuery();
+
+  // Sub-categories are listed under their parent
+  const sortedCategories = categories
+    .filter((category) => category.parentId === null)
+    .flatMap((parent) => [
+      { id: parent.id, name: parent.name },
+      ...categories
+        .filter((category) => category.parentId === parent.id)
+        .map((child) => ({ id: child.id, name: `${parent.name} › ${child.name}` }))
+    ]);
+
+  // Archived categories can't be picked for new entries, but an expense being
+  // edited keeps showing the category it already has
+  const categoryOptions = initialData && !categories.some((category) => category.id === initialData.categoryId)
+    ? [...sortedCategories, {
+        id: initialData.categoryId,
+        name: initialData.parentCategory ? `${initialData.parentCategory} › ${initialData.category}` : initialData.category
+      }]
+    : sortedCategories;
+
+  // The same goes for archived cost centers
+  const costCenterOptions = initialData?.costCenterId && !costCenters.some((costCenter) => costCenter.id === initialData.costCenterId)
+    ? [...costCenters, { id: initialData.costCenterId, name: initialData.costCenter ?? '' }]
+    : costCenters;
+
   const {
     control,
     handleSubmit,
@@ -73,12 +197,19 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
   } = useForm<ExpenseFormData>({
     resolver: joiResolver(expenseSchema),
     defaultValues: initialData ? {
-      category: initialData.category,
+      categoryId: initialData.categoryId,
+      ...(initialData.costCenterId !== null && { costCenterId: initialData.costCenterId }),
       amount: initialData.amount,
+      currency: initialData.currency,
       month: initialData.month,
-      year: initialData.year
+      year: initialData.year,
+      ...(initialData.description && { description: initialData.description }),
+      ...(initialData.vendor && { vendor: initialData.vendor }),
+      ...(initialData.invoiceNumber && { invoiceNumber: initialData.invoiceNumber }),
+      ...(initialData.invoiceDate && { invoiceDate: initialData.invoiceDate }),
+      ...(initialData.notes && { notes: initialData.notes }),
+      ...(initialData.tags.length > 0 && { tags: initialData.tags })
     } : {
-      category: ExpenseCategory.SALARIES,
       amount: 0,
       month: new Date().getMonth() + 1,
       year: new Date().getFullYear()
@@ -143,34 +274,37 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
           Category
         </label>
         <Controller
-          name="category"
+          name="categoryId"
           control={control}
           render={({ field }) => (
             <select
               {...field}
               id="category"
+              value={field.value ?? ''}
               className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-                errors.category ? 'border-red-300' : 'border-gray-300'
+                errors.categoryId ? 'border-red-300' : 'border-gray-300'
               }`}
               disabled={loading || isSubmitting}
+              onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
             >
-              {Object.values(ExpenseCategory).map((category) => (
-                <option key={category} value={category}>
-                  {category}
+              <option value="">Select a category</option>
+              {categoryOptions.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
                 </option>
               ))}
             </select>
           )}
         />
-        {errors.category && (
-          <p className="mt-1 text-sm text-red-600">{errors.category.message}</p>
+        {errors.categoryId && (
+          <p className="mt-1 text-sm text-red-600">{errors.categoryId.message}</p>
         )}
       </div>
 
       {/* Amount Input */}
       <div>
         <label htmlFor="amount" className="block text-sm font-medium text-gray-700 mb-2">
-          Amount ($)
+          Amount
         </label>
         <Controller
           name="amount"
@@ -259,6 +393,250 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
         )}
       </div>
 
+      {/* Currency Input */}
+      <div>
+        <label htmlFor="currency" className="block text-sm font-medium text-gray-700 mb-2">
+          Currency
+        </label>
+        <Controller
+          name="currency"
+          control={control}
+          render={({ field }) => (
+            <input
+              {...field}
+              type="text"
+              id="currency"
+              value={field.value ?? ''}
+              maxLength={3}
+              placeholder="Reporting currency"
+              className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                errors.currency ? 'border-red-300' : 'border-gray-300'
+              }`}
+              disabled={loading || isSubmitting}
+              onChange={(e) => field.onChange(e.target.value.toUpperCase() || undefined)}
+            />
+          )}
+        />
+        {errors.currency && (
+          <p className="mt-1 text-sm text-red-600">{errors.currency.message}</p>
+        )}
+      </div>
+
+      {/* Cost Center Selection */}
+      {costCenterOptions.length > 0 && (
+        <div>
+          <label htmlFor="costCenter" className="block text-sm font-medium text-gray-700 mb-2">
+            Cost Center
+          </label>
+          <Controller
+            name="costCenterId"
+            control={control}
+            render={({ field }) => (
+              <select
+                {...field}
+                id="costCenter"
+                value={field.value ?? ''}
+                className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  errors.costCenterId ? 'border-red-300' : 'border-gray-300'
+                }`}
+                disabled={loading || isSubmitting}
+                onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+              >
+                <option value="">No cost center</option>
+                {costCenterOptions.map((costCenter) => (
+                  <option key={costCenter.id} value={costCenter.id}>
+                    {costCenter.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          />
+          {errors.costCenterId && (
+            <p className="mt-1 text-sm text-red-600">{errors.costCenterId.message}</p>
+          )}
+        </div>
+      )}
+
+      {/* Line Item Details */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="md:col-span-2">
+          <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">
+            Description
+          </label>
+          <Controller
+            name="description"
+            control={control}
+            render={({ field }) => (
+              <input
+                {...field}
+                type="text"
+                id="description"
+                value={field.value ?? ''}
+                placeholder="e.g. Annual licenses"
+                className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  errors.description ? 'border-red-300' : 'border-gray-300'
+                }`}
+                disabled={loading || isSubmitting}
+                onChange={(e) => field.onChange(e.target.value || undefined)}
+              />
+            )}
+          />
+          {errors.description && (
+            <p className="mt-1 text-sm text-red-600">{errors.description.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="vendor" className="block text-sm font-medium text-gray-700 mb-2">
+            Vendor
+          </label>
+          <Controller
+            name="vendor"
+            control={control}
+            render={({ field }) => (
+              <input
+                {...field}
+                type="text"
+                id="vendor"
+                value={field.value ?? ''}
+                className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  errors.vendor ? 'border-red-300' : 'border-gray-300'
+                }`}
+                disabled={loading || isSubmitting}
+                onChange={(e) => field.onChange(e.target.value || undefined)}
+              />
+            )}
+          />
+          {errors.vendor && (
+            <p className="mt-1 text-sm text-red-600">{errors.vendor.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="invoiceNumber" className="block text-sm font-medium text-gray-700 mb-2">
+            Invoice Number
+          </label>
+          <Controller
+            name="invoiceNumber"
+            control={control}
+            render={({ field }) => (
+              <input
+                {...field}
+                type="text"
+                id="invoiceNumber"
+                value={field.value ?? ''}
+                className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  errors.invoiceNumber ? 'border-red-300' : 'border-gray-300'
+                }`}
+                disabled={loading || isSubmitting}
+                onChange={(e) => field.onChange(e.target.value || undefined)}
+              />
+            )}
+          />
+          {errors.invoiceNumber && (
+            <p className="mt-1 text-sm text-red-600">{errors.invoiceNumber.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="invoiceDate" className="block text-sm font-medium text-gray-700 mb-2">
+            Invoice Date
+          </label>
+          <Controller
+            name="invoiceDate"
+            control={control}
+            render={({ field }) => (
+              <input
+                {...field}
+                type="date"
+                id="invoiceDate"
+                value={field.value ?? ''}
+                className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  errors.invoiceDate ? 'border-red-300' : 'border-gray-300'
+                }`}
+                disabled={loading || isSubmitting}
+                onChange={(e) => field.onChange(e.target.value || undefined)}
+              />
+            )}
+          />
+          {errors.invoiceDate && (
+            <p className="mt-1 text-sm text-red-600">{errors.invoiceDate.message}</p>
+          )}
+        </div>
+
+        <div className="md:col-span-2">
+          <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-2">
+            Notes
+          </label>
+          <Controller
+            name="notes"
+            control={control}
+            render={({ field }) => (
+              <textarea
+                {...field}
+                id="notes"
+                rows={3}
+                value={field.value ?? ''}
+                placeholder="Why this cost was made, e.g. Q3 pen test"
+                className={`block w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  errors.notes ? 'border-red-300' : 'border-gray-300'
+                }`}
+                disabled={loading || isSubmitting}
+                onChange={(e) => field.onChange(e.target.value || undefined)}
+              />
+            )}
+          />
+          {errors.notes && (
+            <p className="mt-1 text-sm text-red-600">{errors.notes.message}</p>
+          )}
+        </div>
+
+        <div className="md:col-span-2">
+          <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-2">
+            Tags
+          </label>
+          <Controller
+            name="tags"
+            control={control}
+            render={({ field }) => (
+              <TagsInput
+                value={field.value ?? []}
+                onChange={field.onChange}
+                disabled={loading || isSubmitting}
+                invalid={Boolean(errors.tags)}
+              />
+            )}
+          />
+          {errors.tags && (
+            <p className="mt-1 text-sm text-red-600">
+              {/* Errors of single tags have no message on the list itself */}
+              {errors.tags.message ?? 'Tags cannot exceed 50 characters'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Drafts aren't sent for approval and don't count towards trends */}
+      {mode === 'create' && (
+        <Controller
+          name="draft"
+          control={control}
+          render={({ field }) => (
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                id="draft"
+                checked={field.value ?? false}
+                className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                disabled={loading || isSubmitting}
+                onChange={(e) => field.onChange(e.target.checked || undefined)}
+              />
+              Save as draft
+            </label>
+          )}
+        />
+      )}
+
       {/* Submit Button */}
       <div className="flex justify-end space-x-3">
         {mode === 'edit' && (
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { ExpenseService } from '../services/expenseService';
+import type { ExpenseData, ApiError } from '../types/expense';
+import type { CostAuditAction, ExpenseHistoryEntry } from '../types/audit';
+import { formatMoney } from '../utils/currency';
+
+interface ExpenseHistoryProps {
+  expense: ExpenseData;
+  onClose: () => void;
+}
+
+const actionLabels: Record<CostAuditAction, string> = {
+  CREATE: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Moved to trash',
+  RESTORE: 'Restored',
+};
+
+// Amounts are recorded as billed, in the expense's currency
+const formatAmount = (amount: number | null, currency: string) =>
+  amount === null ? '—' : formatMoney(amount, currency);
+
+// Panel listing who changed an expense, when, from where, and the amounts before and after
+const ExpenseHistory: React.FC<ExpenseHistoryProps> = ({ expense, onClose }) => {
+  const [entries, setEntries] = useState<ExpenseHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    ExpenseService.getExpenseHistory(expense.id)
+      .then((history) => {
+        if (!cancelled) setEntries(history);
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as ApiError)?.message || 'Failed to load history');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [expense.id]);
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div
+        role="dialog"
+        aria-labelledby="expense-history-title"
+        className="relative top-20 mx-auto p-5 border max-w-3xl shadow-lg rounded-md bg-white"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 id="expense-history-title" className="text-lg font-medium text-gray-900">
+            History: {expense.category}, {expense.month}/{expense.year}
+          </h3>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-sm text-gray-500 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+
+        {loading && <p className="text-sm text-gray-500">Loading history...</p>}
+        {error && <p className="text-sm text-red-800">{error}</p>}
+        {!loading && !error && entries.length === 0 && (
+          <p className="text-sm text-gray-500">No changes have been recorded for this expense.</p>
+        )}
+
+        {!loading && !error && entries.length > 0 && (
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Old Amount</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">New Amount</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">IP Address</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-500">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-900">{actionLabels[entry.action]}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right text-gray-900">{formatAmount(entry.oldAmount, expense.currency)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right text-gray-900">{formatAmount(entry.newAmount, expense.currency)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-900">{entry.user?.name ?? 'System'}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-500">{entry.ipAddress ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExpenseHistory;
\ No newline at end of file
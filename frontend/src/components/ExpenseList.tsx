@@ -1,5 +1,12 @@
-import React, { useState, useMemo } from 'react';
-import { ExpenseData, ExpenseCategory } from '../types/expense';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import type { ExpenseData, ExpenseCategory } from '../types/expense';
+import { ExpenseStatus } from '../types/expense';
+import { AnomalyStatus } from '../types/anomaly';
+import type { UnreadComments } from '../types/comment';
+import ExpenseHistory from './ExpenseHistory';
+import ExpenseAttachments from './ExpenseAttachments';
+import ExpenseComments from './ExpenseComments';
+import { formatMoney, reportingAmount } from '../utils/currency';
 
 interface ExpenseListProps {
   expenses: ExpenseData[];
@@ -7,8 +14,33 @@ interface ExpenseListProps {
   onEdit: (expense: ExpenseData) => void;
   onDelete: (id: number) => Promise<void>;
   error?: string;
+  canModify?: boolean;
+  // Acknowledge or dismiss the anomaly of a category's month
+  onReviewAnomaly?: (id: number, status: AnomalyStatus) => Promise<void>;
+  // Lists loaded a page at a time load the next page when scrolled to the end
+  total?: number;
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Delete or change the amounts of the selected line items in one batch
+  onBulkDelete?: (ids: number[]) => Promise<void>;
+  onBulkUpdateAmounts?: (updates: { id: number; amount: number }[]) => Promise<void>;
+  // Submit a draft or rejected expense for approval
+  onSubmitExpense?: (id: number) => Promise<void>;
+  // Comments the signed-in user hasn't read, marked on their expenses
+  unreadComments?: UnreadComments[];
 }
 
+// Approved expenses carry no badge
+const STATUS_BADGES: Partial<Record<ExpenseStatus, { label: string; className: string }>> = {
+  [ExpenseStatus.DRAFT]: { label: 'Draft', className: 'bg-gray-100 text-gray-700' },
+  [ExpenseStatus.SUBMITTED]: { label: 'Awaiting approval', className: 'bg-yellow-100 text-yellow-800' },
+  [ExpenseStatus.REJECTED]: { label: 'Rejected', className: 'bg-red-100 text-red-800' },
+};
+
+// How a bulk amount change applies its value
+type AmountChange = 'set' | 'percent';
+
 interface FilterState {
   search: string;
   category: ExpenseCategory | 'all';
@@ -21,7 +53,17 @@ const ExpenseList: React.FC<ExpenseListProps> = ({
   loading = false,
   onEdit,
   onDelete,
-  error
+  error,
+  canModify = true,
+  onReviewAnomaly,
+  total,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  onBulkDelete,
+  onBulkUpdateAmounts,
+  onSubmitExpense,
+  unreadComments = []
 }) => {
   const [filters, setFilters] = useState<FilterState>({
     search: '',
@@ -31,12 +73,48 @@ const ExpenseList: React.FC<ExpenseListProps> = ({
   });
   const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null);
   const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [historyExpense, setHistoryExpense] = useState<ExpenseData | null>(null);
+  const [attachmentsExpense, setAttachmentsExpense] = useState<ExpenseData | null>(null);
+  const [commentsExpense, setCommentsExpense] = useState<ExpenseData | null>(null);
+  const [reviewingId, setReviewingId] = useState<number | null>(null);
+  const [submittingId, setSubmittingId] = useState<number | null>(null);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [amountChange, setAmountChange] = useState<AmountChange>('set');
+  const [amountValue, setAmountValue] = useState('');
+  const [bulkDeleteConfirm, setBulkDeleteConfirm] = useState(false);
+  const [bulkBusy, setBulkBusy] = useState(false);
+
+  const selectable = canModify && Boolean(onBulkDelete || onBulkUpdateAmounts);
+  // Expenses that are gone after a refresh drop out of the selection
+  const selected = useMemo(() => expenses.filter(expense => selectedIds.has(expense.id)), [expenses, selectedIds]);
+  const unreadByExpense = useMemo(
+    () => new Map(unreadComments.map(unread => [unread.costId, unread])),
+    [unreadComments]
+  );
+
+  // Load the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || loadingMore || !onLoadMore || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        onLoadMore();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loading, hasMore, loadingMore, onLoadMore]);
 
   // Filter expenses based on current filters
   const filteredExpenses = useMemo(() => {
     return expenses.filter(expense => {
-      // Search filter (searches in category)
-      if (filters.search && !expense.category.toLowerCase().includes(filters.search.toLowerCase())) {
+      // Search filter (searches in category and line item details)
+      const searchable = [expense.category, expense.description, expense.vendor, expense.invoiceNumber];
+      if (filters.search && !searchable.some(text => text?.toLowerCase().includes(filters.search.toLowerCase()))) {
         return false;
       }
       
@@ -59,7 +137,27 @@ const ExpenseList: React.FC<ExpenseListProps> = ({
     });
   }, [expenses, filters]);
 
-  // Get unique years and months from expenses for filter options
+  // Line items of the same category and month, listed under their total
+  const groups = useMemo(() => {
+    const groupMap = new Map<string, ExpenseData[]>();
+    filteredExpenses.forEach(expense => {
+      const key = `${expense.year}-${expense.month}-${expense.categoryId}`;
+      groupMap.set(key, [...(groupMap.get(key) ?? []), expense]);
+    });
+
+    return Array.from(groupMap.entries()).map(([key, items]) => ({
+      key,
+      items,
+      // Items may be billed in different currencies, so the total is in the reporting currency
+      total: items.reduce((sum, item) => sum + reportingAmount(item), 0)
+    }));
+  }, [filteredExpenses]);
+
+  // Get unique categories, years and months from expenses for filter options
+  const availableCategories = useMemo(() => {
+    return [...new Set(expenses.map(e => e.category))].sort((a, b) => a.localeCompare(b));
+  }, [expenses]);
+
   const availableYears = useMemo(() => {
     const years = [...new Set(expenses.map(e => e.year))].sort((a, b) => b - a);
     return years;
@@ -82,11 +180,151 @@ const ExpenseList: React.FC<ExpenseListProps> = ({
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
+  const handleReview = async (id: number, status: AnomalyStatus) => {
+    setReviewingId(id);
+    try {
+      await onReviewAnomaly?.(id, status);
+    } catch (err) {
+      console.error('Review error:', err);
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const handleSubmit = async (id: number) => {
+    setSubmittingId(id);
+    try {
+      await onSubmitExpense?.(id);
+    } catch (err) {
+      console.error('Submit error:', err);
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  const toggleSelected = (ids: number[], checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (checked ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  // New amounts of the selected line items; null when the change gives an amount
+  // that isn't positive
+  const changedAmounts = useMemo(() => {
+    const value = parseFloat(amountValue);
+    if (selected.length === 0 || !Number.isFinite(value)) {
+      return null;
+    }
+
+    const updates = selected.map(expense => ({
+      id: expense.id,
+      amount: Math.round((amountChange === 'set' ? value : expense.amount * (1 + value / 100)) * 100) / 100,
+    }));
+    return updates.every(update => update.amount > 0) ? updates : null;
+  }, [selected, amountChange, amountValue]);
+
+  const handleBulkUpdate = async () => {
+    if (!changedAmounts || !onBulkUpdateAmounts) {
+      return;
+    }
+
+    setBulkBusy(true);
+    try {
+      await onBulkUpdateAmounts(changedAmounts);
+      setSelectedIds(new Set());
+      setAmountValue('');
+    } catch (err) {
+      console.error('Bulk update error:', err);
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    if (!onBulkDelete) {
+      return;
+    }
+
+    setBulkBusy(true);
+    try {
+      await onBulkDelete(selected.map(expense => expense.id));
+      setSelectedIds(new Set());
+      setBulkDeleteConfirm(false);
+    } catch (err) {
+      console.error('Bulk delete error:', err);
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  // The month's spend in the category is far outside its history; every line
+  // item of the month carries the same anomaly
+  const renderAnomaly = (expense: ExpenseData) => {
+    const anomaly = expense.anomaly;
+    if (!anomaly) {
+      return null;
+    }
+
+    const open = anomaly.status === AnomalyStatus.OPEN;
+    return (
+      <div className="mt-1 flex items-center gap-2">
+        <span
+          className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${open ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'}`}
+          title={`${formatMoney(anomaly.amount, expense.reportingCurrency)} this month`}
+        >
+          {open ? 'Unusual' : 'Unusual · Acknowledged'}
+        </span>
+        <span className="text-xs text-gray-500">
+          Usually about {formatMoney(anomaly.expected, expense.reportingCurrency)}
+        </span>
+        {open && canModify && onReviewAnomaly && (
+          <>
+            <button
+              onClick={() => handleReview(anomaly.id, AnomalyStatus.ACKNOWLEDGED)}
+              disabled={reviewingId === anomaly.id}
+              className="text-xs text-blue-600 hover:text-blue-900 disabled:opacity-50"
+            >
+              Acknowledge
+            </button>
+            <button
+              onClick={() => handleReview(anomaly.id, AnomalyStatus.DISMISSED)}
+              disabled={reviewingId === anomaly.id}
+              className="text-xs text-gray-600 hover:text-gray-900 disabled:opacity-50"
+            >
+              Dismiss
+            </button>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  // Expenses that aren't approved yet don't count towards trends
+  const renderStatus = (expense: ExpenseData) => {
+    const badge = STATUS_BADGES[expense.status];
+    if (!badge) {
+      return null;
+    }
+
+    const submittable = expense.status === ExpenseStatus.DRAFT || expense.status === ExpenseStatus.REJECTED;
+    return (
+      <div className="mt-1 flex items-center gap-2">
+        <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>
+          {badge.label}
+        </span>
+        {submittable && canModify && onSubmitExpense && (
+          <button
+            onClick={() => handleSubmit(expense.id)}
+            disabled={submittingId === expense.id}
+            className="text-xs text-blue-600 hover:text-blue-900 disabled:opacity-50"
+          >
+            Submit
+          </button>
+        )}
+      </div>
+    );
   };
 
   const formatDate = (month: number, year: number) => {
@@ -129,7 +367,7 @@ const ExpenseList: React.FC<ExpenseListProps> = ({
             <input
               type="text"
               id="search"
-              placeholder="Search categories..."
+              placeholder="Search categories, descriptions, vendors..."
               value={filters.search}
               onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value }))}
               className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
@@ -148,7 +386,7 @@ const ExpenseList: React.FC<ExpenseListProps> = ({
               className="block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
             >
               <option value="all">All Categories</option>
-              {Object.values(ExpenseCategory).map(category => (
+              {availableCategories.map(category => (
                 <option key={category} value={category}>{category}</option>
               ))}
             </select>
@@ -192,6 +430,55 @@ const ExpenseList: React.FC<ExpenseListProps> = ({
         </div>
       </div>
 
+      {selectable && selected.length > 0 && (
+        <div className="px-6 py-3 bg-blue-50 border-b border-blue-200 flex flex-wrap items-center gap-3">
+          <span className="text-sm font-medium text-blue-900">{selected.length} selected</span>
+          {onBulkUpdateAmounts && (
+            <>
+              <select
+                aria-label="Amount change"
+                value={amountChange}
+                onChange={(e) => setAmountChange(e.target.value as AmountChange)}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="set">Set amount to</option>
+                <option value="percent">Change amount by %</option>
+              </select>
+              <input
+                type="number"
+                aria-label="Amount change value"
+                step="0.01"
+                value={amountValue}
+                onChange={(e) => setAmountValue(e.target.value)}
+                className="w-32 px-2 py-1 border border-gray-300 rounded-md text-sm"
+              />
+              <button
+                onClick={handleBulkUpdate}
+                disabled={!changedAmounts || bulkBusy}
+                className="px-3 py-1 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                Apply
+              </button>
+            </>
+          )}
+          {onBulkDelete && (
+            <button
+              onClick={() => setBulkDeleteConfirm(true)}
+              disabled={bulkBusy}
+              className="px-3 py-1 text-sm text-red-600 border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+            >
+              Delete selected
+            </button>
+          )}
+          <button
+            onClick={() => setSelectedIds(new Set())}
+            className="text-sm text-gray-600 hover:text-gray-900"
+          >
+            Clear selection
+          </button>
+        </div>
+      )}
+
       {error && (
         <div className="px-6 py-4 bg-red-50 border-b border-red-200">
           <div className="flex">
@@ -222,6 +509,16 @@ const ExpenseList: React.FC<ExpenseListProps> = ({
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
+                {selectable && (
+                  <th className="pl-6 py-3 w-4">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all shown expenses"
+                      checked={filteredExpenses.every(expense => selectedIds.has(expense.id))}
+                      onChange={(e) => toggleSelected(filteredExpenses.map(expense => expense.id), e.target.checked)}
+                    />
+                  </th>
+                )}
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Category
                 </th>
@@ -240,13 +537,91 @@ const ExpenseList: React.FC<ExpenseListProps> = ({
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredExpenses.map((expense) => (
+              {groups.map((group) => (
+                <React.Fragment key={group.key}>
+                {group.items.length > 1 && (
+                  <tr className="bg-gray-50">
+                    {selectable && (
+                      <td className="pl-6 py-3">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${group.items[0]!.category} line items`}
+                          checked={group.items.every(item => selectedIds.has(item.id))}
+                          onChange={(e) => toggleSelected(group.items.map(item => item.id), e.target.checked)}
+                        />
+                      </td>
+                    )}
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      <div className="text-sm font-semibold text-gray-900">{group.items[0]!.category}</div>
+                      <div className="text-xs text-gray-500">{group.items.length} line items</div>
+                      {renderAnomaly(group.items[0]!)}
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      <div className="text-sm text-gray-900 font-semibold">{formatMoney(group.total, group.items[0]!.reportingCurrency)}</div>
+                    </td>
+                    <td className="px-6 py-3 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{formatDate(group.items[0]!.month, group.items[0]!.year)}</div>
+                    </td>
+                    <td colSpan={2} />
+                  </tr>
+                )}
+                {group.items.map((expense) => (
                 <tr key={expense.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">{expense.category}</div>
+                  {selectable && (
+                    <td className="pl-6 py-4">
+                      <input
+                        type="checkbox"
+                        aria-label={`Select expense ${expense.id}`}
+                        checked={selectedIds.has(expense.id)}
+                        onChange={(e) => toggleSelected([expense.id], e.target.checked)}
+                      />
+                    </td>
+                  )}
+                  <td className={`py-4 whitespace-nowrap ${group.items.length > 1 ? 'pl-12 pr-6' : 'px-6'}`}>
+                    <div className="text-sm font-medium text-gray-900">
+                      {group.items.length > 1 ? expense.description ?? expense.category : expense.category}
+                    </div>
+                    {group.items.length === 1 && expense.description && (
+                      <div className="text-sm text-gray-600">{expense.description}</div>
+                    )}
+                    {(expense.parentCategory || expense.costCenter) && (
+                      <div className="text-xs text-gray-500">
+                        {[expense.parentCategory, expense.costCenter].filter(Boolean).join(' · ')}
+                      </div>
+                    )}
+                    {(expense.vendor || expense.invoiceNumber || expense.invoiceDate) && (
+                      <div className="text-xs text-gray-500">
+                        {[expense.vendor, expense.invoiceNumber && `Invoice ${expense.invoiceNumber}`, expense.invoiceDate]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </div>
+                    )}
+                    {expense.notes && (
+                      <div className="text-xs text-gray-500 italic truncate max-w-xs" title={expense.notes}>
+                        {expense.notes}
+                      </div>
+                    )}
+                    {expense.tags.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {expense.tags.map((tag) => (
+                          <span key={tag} className="px-1.5 py-0.5 rounded bg-gray-100 text-xs text-gray-600">
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {renderStatus(expense)}
+                    {group.items.length === 1 && renderAnomaly(expense)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-gray-900 font-semibold">{formatCurrency(expense.amount)}</div>
+                    <div className="text-sm text-gray-900 font-semibold">{formatMoney(expense.amount, expense.currency)}</div>
+                    {expense.currency !== expense.reportingCurrency && (
+                      <div className="text-xs text-gray-500">
+                        {expense.convertedAmount !== null
+                          ? formatMoney(expense.convertedAmount, expense.reportingCurrency)
+                          : `No ${expense.currency} to ${expense.reportingCurrency} rate`}
+                      </div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900">{formatDate(expense.month, expense.year)}</div>
@@ -259,42 +634,120 @@ const ExpenseList: React.FC<ExpenseListProps> = ({
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                     <div className="flex justify-end space-x-2">
                       <button
-                        onClick={() => onEdit(expense)}
-                        className="text-blue-600 hover:text-blue-900 transition-colors duration-200"
-                        title="Edit expense"
+                        onClick={() => setAttachmentsExpense(expense)}
+                        className="flex items-center text-gray-600 hover:text-gray-900 transition-colors duration-200"
+                        title="View attachments"
                       >
                         <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
                         </svg>
+                        {expense.attachmentCount > 0 && (
+                          <span className="ml-0.5 text-xs">{expense.attachmentCount}</span>
+                        )}
                       </button>
                       <button
-                        onClick={() => setDeleteConfirm(expense.id)}
-                        className="text-red-600 hover:text-red-900 transition-colors duration-200"
-                        title="Delete expense"
-                        disabled={deletingId === expense.id}
+                        onClick={() => setCommentsExpense(expense)}
+                        className="relative flex items-center text-gray-600 hover:text-gray-900 transition-colors duration-200"
+                        title={unreadByExpense.has(expense.id) ? 'View comments (unread)' : 'View comments'}
                       >
-                        {deletingId === expense.id ? (
-                          <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
-                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                          </svg>
-                        ) : (
-                          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                          </svg>
+                        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+                        </svg>
+                        {expense.commentCount > 0 && (
+                          <span className="ml-0.5 text-xs">{expense.commentCount}</span>
+                        )}
+                        {unreadByExpense.has(expense.id) && (
+                          <span
+                            className={`absolute -top-1 -right-1.5 h-2 w-2 rounded-full ${
+                              unreadByExpense.get(expense.id)?.mentioned ? 'bg-red-500' : 'bg-blue-500'
+                            }`}
+                            aria-label={`${unreadByExpense.get(expense.id)?.unreadCount} unread`}
+                          />
                         )}
                       </button>
+                      <button
+                        onClick={() => setHistoryExpense(expense)}
+                        className="text-gray-600 hover:text-gray-900 transition-colors duration-200"
+                        title="View history"
+                      >
+                        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                        </svg>
+                      </button>
+                      {canModify && (
+                        <>
+                          <button
+                            onClick={() => onEdit(expense)}
+                            className="text-blue-600 hover:text-blue-900 transition-colors duration-200"
+                            title="Edit expense"
+                          >
+                            <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                            </svg>
+                          </button>
+                          <button
+                            onClick={() => setDeleteConfirm(expense.id)}
+                            className="text-red-600 hover:text-red-900 transition-colors duration-200"
+                            title="Delete expense"
+                            disabled={deletingId === expense.id}
+                          >
+                            {deletingId === expense.id ? (
+                              <svg className="animate-spin h-4 w-4" fill="none" viewBox="0 0 24 24">
+                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                              </svg>
+                            ) : (
+                              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                              </svg>
+                            )}
+                          </button>
+                        </>
+                      )}
                     </div>
                   </td>
                 </tr>
+                ))}
+                </React.Fragment>
               ))}
             </tbody>
           </table>
         )}
       </div>
 
-      {/* Delete Confirmation Modal */}
-      {deleteConfirm && (
+      {hasMore && onLoadMore && (
+        <div ref={loadMoreRef} className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+          <span className="text-sm text-gray-500">
+            Showing {expenses.length} of {total ?? expenses.length} expenses
+          </span>
+          <button
+            onClick={onLoadMore}
+            disabled={loadingMore}
+            className="text-sm text-blue-600 hover:text-blue-900 disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+
+      {historyExpense && (
+        <ExpenseHistory expense={historyExpense} onClose={() => setHistoryExpense(null)} />
+      )}
+
+      {attachmentsExpense && (
+        <ExpenseAttachments
+          expense={attachmentsExpense}
+          canModify={canModify}
+          onClose={() => setAttachmentsExpense(null)}
+        />
+      )}
+
+      {commentsExpense && (
+        <ExpenseComments expense={commentsExpense} onClose={() => setCommentsExpense(null)} />
+      )}
+
+      {/* Delete Confirmation Modal, for one expense or the selected ones */}
+      {(deleteConfirm || bulkDeleteConfirm) && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
           <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
             <div className="mt-3 text-center">
@@ -303,26 +756,33 @@ const ExpenseList: React.FC<ExpenseListProps> = ({
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
                 </svg>
               </div>
-              <h3 className="text-lg font-medium text-gray-900 mt-2">Delete Expense</h3>
+              <h3 className="text-lg font-medium text-gray-900 mt-2">
+                {bulkDeleteConfirm ? `Delete ${selected.length} Expenses` : 'Delete Expense'}
+              </h3>
               <div className="mt-2 px-7 py-3">
                 <p className="text-sm text-gray-500">
-                  Are you sure you want to delete this expense? This action cannot be undone.
+                  {bulkDeleteConfirm
+                    ? `Are you sure you want to delete ${selected.length} expenses? They can be restored from the recycle bin.`
+                    : 'Are you sure you want to delete this expense? It can be restored from the recycle bin.'}
                 </p>
               </div>
               <div className="flex justify-center space-x-3 mt-4">
                 <button
-                  onClick={() => setDeleteConfirm(null)}
+                  onClick={() => {
+                    setDeleteConfirm(null);
+                    setBulkDeleteConfirm(false);
+                  }}
                   className="px-4 py-2 bg-white text-gray-500 border border-gray-300 rounded-md text-sm font-medium hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
-                  disabled={deletingId === deleteConfirm}
+                  disabled={bulkDeleteConfirm ? bulkBusy : deletingId === deleteConfirm}
                 >
                   Cancel
                 </button>
                 <button
-                  onClick={() => handleDelete(deleteConfirm)}
+                  onClick={() => (bulkDeleteConfirm ? handleBulkDelete() : handleDelete(deleteConfirm!))}
                   className="px-4 py-2 bg-red-600 text-white border border-transparent rounded-md text-sm font-medium hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                  disabled={deletingId === deleteConfirm}
+                  disabled={bulkDeleteConfirm ? bulkBusy : deletingId === deleteConfirm}
                 >
-                  {deletingId === deleteConfirm ? 'Deleting...' : 'Delete'}
+                  {(bulkDeleteConfirm ? bulkBusy : deletingId === deleteConfirm) ? 'Deleting...' : 'Delete'}
                 </button>
               </div>
             </div>
@@ -0,0 +1,278 @@
+import React, { useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ExpenseImportService } from '../services/expenseImportService';
+import { useCategoriesQuery } from '../hooks/useCategories';
+import { expenseKeys } from '../hooks/useOptimizedExpenses';
+import { ImportConflictMode } from '../types/expenseImport';
+import type { ImportColumnMapping, ImportField, ImportPreview, ImportResult, ImportRowPreview } from '../types/expenseImport';
+import type { ApiError } from '../types/expense';
+import { formatMoney } from '../utils/currency';
+
+type Step = 'choose' | 'review' | 'done';
+
+const fieldLabels: Record<ImportField, string> = {
+  category: 'Category',
+  costCenter: 'Cost Center',
+  amount: 'Amount',
+  currency: 'Currency',
+  month: 'Month',
+  year: 'Year',
+  description: 'Description',
+  vendor: 'Vendor',
+  invoiceNumber: 'Invoice Number',
+  invoiceDate: 'Invoice Date',
+};
+
+const conflictLabels: Record<ImportConflictMode, string> = {
+  [ImportConflictMode.SKIP]: 'Skip rows matching an existing expense',
+  [ImportConflictMode.OVERWRITE]: 'Overwrite the existing expense',
+  [ImportConflictMode.ADD]: 'Add the row as another line item',
+};
+
+// Status shown next to each row of the preview
+const rowStatus = (row: ImportRowPreview): { text: string; className: string } => {
+  if (row.errors.length > 0) {
+    return { text: row.errors.join('; '), className: 'text-red-700' };
+  }
+  if (row.duplicateOfRow !== null) {
+    return { text: `Same expense as row ${row.duplicateOfRow}`, className: 'text-yellow-700' };
+  }
+  if (row.conflictingExpenseIds.length > 0) {
+    return { text: 'Matches an existing expense', className: 'text-yellow-700' };
+  }
+  return { text: 'Ready', className: 'text-green-700' };
+};
+
+// Imports historical costs from a CSV or XLSX file: choose a file, map its columns
+// and check the preview, then import every row at once
+const ImportWizard: React.FC = () => {
+  const [step, setStep] = useState<Step>('choose');
+  const [file, setFile] = useState<File | null>(null);
+  const [columns, setColumns] = useState<ImportColumnMapping>({});
+  const [onConflict, setOnConflict] = useState<ImportConflictMode>(ImportConflictMode.SKIP);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const queryClient = useQueryClient();
+  const { data: categories = [] } = useCategoriesQuery({ includeArchived: true });
+  const categoryNames = useMemo(
+    () => new Map(categories.map((category) => [category.id, category.name])),
+    [categories]
+  );
+
+  const runPreview = async (mapping: ImportColumnMapping) => {
+    if (!file) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await ExpenseImportService.previewImport(file, { columns: mapping, onConflict });
+      setPreview(data);
+      setStep('review');
+    } catch (err) {
+      setError((err as ApiError)?.message || 'Failed to read the file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, header: string) => {
+    const mapping = { ...columns, [field]: header || undefined };
+    setColumns(mapping);
+    runPreview(mapping);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await ExpenseImportService.importExpenses(file, { columns, onConflict });
+      setResult(data);
+      setStep('done');
+      queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+    } catch (err) {
+      setError((err as ApiError)?.message || 'Failed to import the file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRestart = () => {
+    setStep('choose');
+    setFile(null);
+    setColumns({});
+    setPreview(null);
+    setResult(null);
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div role="alert" className="rounded-md bg-red-50 p-4 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
+      {step === 'choose' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Upload a CSV file or Excel (.xlsx) workbook with one expense per row and a header row.
+            Categories and cost centers are matched by name.
+          </p>
+          <div>
+            <label htmlFor="import-file" className="block text-sm font-medium text-gray-700 mb-2">
+              File
+            </label>
+            <input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="block w-full text-sm text-gray-700"
+            />
+          </div>
+          <button
+            onClick={() => runPreview(columns)}
+            disabled={!file || loading}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? 'Reading file...' : 'Preview'}
+          </button>
+        </div>
+      )}
+
+      {step === 'review' && preview && (
+        <div className="space-y-6">
+          <section>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Columns</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {(Object.keys(fieldLabels) as ImportField[]).map((field) => (
+                <div key={field}>
+                  <label htmlFor={`column-${field}`} className="block text-sm font-medium text-gray-700 mb-1">
+                    {fieldLabels[field]}
+                  </label>
+                  <select
+                    id={`column-${field}`}
+                    value={preview.mapping[field] ?? ''}
+                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                    disabled={loading}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                  >
+                    <option value="">Not in file</option>
+                    {preview.headers.filter(Boolean).map((header) => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Existing expenses</h3>
+            <p className="text-sm text-gray-600 mb-2">
+              A row matches an existing expense with the same category, month, year and invoice number.
+            </p>
+            <div className="space-y-1">
+              {(Object.keys(conflictLabels) as ImportConflictMode[]).map((mode) => (
+                <label key={mode} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="onConflict"
+                    value={mode}
+                    checked={onConflict === mode}
+                    onChange={() => setOnConflict(mode)}
+                    className="mr-2"
+                  />
+                  {conflictLabels[mode]}
+                </label>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Preview</h3>
+            <p className="text-sm text-gray-600 mb-2">
+              {preview.summary.total} rows: {preview.summary.valid} ready, {preview.summary.invalid} with errors,{' '}
+              {preview.summary.conflicts} matching existing expenses, {preview.summary.duplicates} repeated in the file
+            </p>
+            <div className="overflow-x-auto max-h-96 overflow-y-auto border border-gray-200 rounded-md">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {preview.rows.map((row) => {
+                    const status = rowStatus(row);
+                    return (
+                      <tr key={row.row}>
+                        <td className="px-4 py-2 text-gray-500">{row.row}</td>
+                        <td className="px-4 py-2 text-gray-900">
+                          {row.expense ? categoryNames.get(row.expense.categoryId) ?? `#${row.expense.categoryId}` : '—'}
+                        </td>
+                        <td className="px-4 py-2 text-gray-900">
+                          {row.expense ? `${row.expense.month}/${row.expense.year}` : '—'}
+                        </td>
+                        <td className="px-4 py-2 text-right text-gray-900">
+                          {row.expense?.currency ? formatMoney(row.expense.amount, row.expense.currency) : row.expense?.amount ?? '—'}
+                        </td>
+                        <td className={`px-4 py-2 ${status.className}`}>{status.text}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <div className="flex space-x-3">
+            <button
+              onClick={handleImport}
+              disabled={loading || preview.summary.invalid > 0 || preview.summary.total === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Importing...' : `Import ${preview.summary.total} rows`}
+            </button>
+            <button
+              onClick={handleRestart}
+              disabled={loading}
+              className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Choose another file
+            </button>
+          </div>
+          {preview.summary.invalid > 0 && (
+            <p className="text-sm text-red-700">Fix the rows with errors in the file, then preview it again.</p>
+          )}
+        </div>
+      )}
+
+      {step === 'done' && result && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-900">
+            Import complete: {result.created} created, {result.updated} updated, {result.skipped} skipped.
+          </p>
+          <button
+            onClick={handleRestart}
+            className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            Import another file
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportWizard;
\ No newline at end of file
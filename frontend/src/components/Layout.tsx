@@ -1,19 +1,60 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Outlet } from 'react-router-dom';
 import Navigation from './Navigation';
+import OrganizationSwitcher from './OrganizationSwitcher';
+import { useOrganizations } from '../hooks/useOrganizations';
+import type { ApiError } from '../types/expense';
 
 interface LayoutProps {
   children?: React.ReactNode;
 }
 
 const Layout: React.FC<LayoutProps> = () => {
+  const { organizations, currentOrganization, loaded, loadOrganizations, switchOrganization } = useOrganizations();
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!loaded) {
+      loadOrganizations().catch((err) => {
+        setLoadError((err as ApiError)?.message || 'Failed to load organizations');
+      });
+    }
+  }, [loaded, loadOrganizations]);
+
+  const renderContent = () => {
+    if (loadError) {
+      return <p className="text-red-600">{loadError}</p>;
+    }
+    if (!loaded) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+        </div>
+      );
+    }
+    if (!currentOrganization) {
+      return <p className="text-gray-700">Your account is not a member of any organization yet.</p>;
+    }
+    // Remount the page when the organization changes so it refetches that organization's data
+    return <Outlet key={currentOrganization.id} />;
+  };
+
   return (
     <div className="min-h-screen bg-gray-100">
       <Navigation />
       <main>
         <div className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">
+          {organizations.length > 0 && (
+            <div className="flex justify-end px-4 sm:px-0">
+              <OrganizationSwitcher
+                organizations={organizations}
+                currentOrganizationId={currentOrganization?.id ?? null}
+                onChange={switchOrganization}
+              />
+            </div>
+          )}
           <div className="px-4 py-6 sm:px-0">
-            <Outlet />
+            {renderContent()}
           </div>
         </div>
       </main>
@@ -1,4 +1,7 @@
 import React from 'react';
+import { usePeriodLocksQuery, useClosePeriodMutation, useReopenPeriodMutation } from '../hooks/usePeriodLocks';
+import { useAuth } from '../hooks/useAuth';
+import { Permission } from '../types/auth';
 
 interface MonthYearSelectorProps {
   selectedMonth?: number;
@@ -44,6 +47,16 @@ export const MonthYearSelector: React.FC<MonthYearSelectorProps> = ({
   const currentYear = new Date().getFullYear();
   const currentMonth = new Date().getMonth() + 1;
 
+  // Closed months of the shown year; admins can close and reopen the selected one
+  const year = selectedYear || currentYear;
+  const { data: locks } = usePeriodLocksQuery({ year });
+  const closedMonths = new Set((locks ?? []).map(lock => lock.month));
+  const selectedLock = locks?.find(lock => lock.month === selectedMonth);
+  const { can } = useAuth();
+  const closePeriod = useClosePeriodMutation();
+  const reopenPeriod = useReopenPeriodMutation();
+  const lockPending = closePeriod.isPending || reopenPeriod.isPending;
+
   return (
     <div className="flex flex-wrap gap-4 items-center">
       <div className="flex flex-col">
@@ -61,7 +74,7 @@ export const MonthYearSelector: React.FC<MonthYearSelectorProps> = ({
           )}
           {MONTHS.map((month) => (
             <option key={month.value} value={month.value}>
-              {month.label}
+              {closedMonths.has(month.value) ? `${month.label} (closed)` : month.label}
             </option>
           ))}
         </select>
@@ -73,7 +86,7 @@ export const MonthYearSelector: React.FC<MonthYearSelectorProps> = ({
         </label>
         <select
           id="year-select"
-          value={selectedYear || currentYear}
+          value={year}
           onChange={(e) => onYearChange(parseInt(e.target.value))}
           className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
         >
@@ -85,6 +98,41 @@ export const MonthYearSelector: React.FC<MonthYearSelectorProps> = ({
         </select>
       </div>
 
+      {selectedLock && (
+        <div className="flex flex-col justify-end">
+          <span
+            title={selectedLock.lockedBy ? `Closed by ${selectedLock.lockedBy}` : 'Closed'}
+            className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-amber-800 bg-amber-100 rounded-full"
+          >
+            <span aria-hidden="true">🔒</span>
+            Closed
+          </span>
+        </div>
+      )}
+
+      {selectedMonth && can(Permission.ADMIN) ? (
+        <div className="flex flex-col justify-end">
+          <button
+            onClick={() => {
+              const period = { month: selectedMonth, year };
+              if (selectedLock) {
+                reopenPeriod.mutate(period);
+              } else {
+                closePeriod.mutate(period);
+              }
+            }}
+            disabled={lockPending}
+            className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 transition-colors"
+          >
+            {selectedLock ? 'Reopen Month' : 'Close Month'}
+          </button>
+        </div>
+      ) : null}
+
+      {(closePeriod.error || reopenPeriod.error) && (
+        <p className="w-full text-sm text-red-800">{(closePeriod.error || reopenPeriod.error)?.message}</p>
+      )}
+
       {selectedMonth && selectedYear && (
         <div className="flex flex-col justify-end">
           <button
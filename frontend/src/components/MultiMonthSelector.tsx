@@ -1,5 +1,4 @@
 import React, { useState, useCallback } from 'react';
-import { ExpenseCategory } from '../types/expense';
 
 export interface MonthYear {
   month: number;
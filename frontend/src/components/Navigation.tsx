@@ -1,5 +1,7 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+import { Permission } from '../types/auth';
 
 interface NavigationProps {
   currentPath?: string;
@@ -8,12 +10,15 @@ interface NavigationProps {
 const Navigation: React.FC<NavigationProps> = () => {
   const location = useLocation();
   const currentPath = location.pathname;
+  const { user, logout, can } = useAuth();
 
   const navItems = [
     { path: '/', label: 'Dashboard', icon: '📊' },
-    { path: '/add-data', label: 'Add Data', icon: '➕' },
+    { path: '/add-data', label: 'Add Data', icon: '➕', permission: Permission.EXPENSES_WRITE },
     { path: '/reports', label: 'Reports', icon: '📈' },
-  ];
+    { path: '/import', label: 'Import', icon: '📥', permission: Permission.EXPENSES_WRITE },
+    { path: '/approvals', label: 'Approvals', icon: '✅', permission: Permission.EXPENSES_APPROVE },
+  ].filter((item) => !item.permission || can(item.permission));
 
   const isActive = (path: string) => {
     if (path === '/' && currentPath === '/') return true;
@@ -45,6 +50,17 @@ const Navigation: React.FC<NavigationProps> = () => {
                 {item.label}
               </Link>
             ))}
+            {user && (
+              <div className="inline-flex items-center space-x-3 pl-4 border-l border-gray-200">
+                <span className="text-sm text-gray-700">{user.name}</span>
+                <button
+                  onClick={logout}
+                  className="px-3 py-2 rounded-md text-sm font-medium text-gray-500 hover:text-gray-700 hover:bg-gray-50 transition-colors duration-200"
+                >
+                  Log out
+                </button>
+              </div>
+            )}
           </nav>
         </div>
       </div>
@@ -0,0 +1,43 @@
+import React from 'react';
+import type { Organization } from '../types/organization';
+
+interface OrganizationSwitcherProps {
+  organizations: Organization[];
+  currentOrganizationId: number | null;
+  onChange: (organizationId: number) => void;
+}
+
+// Lets users who belong to several organizations choose which one they are working in
+const OrganizationSwitcher: React.FC<OrganizationSwitcherProps> = ({
+  organizations,
+  currentOrganizationId,
+  onChange,
+}) => {
+  if (organizations.length <= 1) {
+    return organizations[0] ? (
+      <span className="text-sm font-medium text-gray-700">{organizations[0].name}</span>
+    ) : null;
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <label htmlFor="organization-select" className="text-sm font-medium text-gray-700">
+        Organization
+      </label>
+      <select
+        id="organization-select"
+        value={currentOrganizationId ?? ''}
+        onChange={(e) => onChange(parseInt(e.target.value))}
+        className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      >
+        {organizations.map((organization) => (
+          <option key={organization.id} value={organization.id}>
+            {organization.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default OrganizationSwitcher;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import React from 'react';
 import type { ExpenseData, TrendData } from '../types/expense';
 import { FilterCriteria } from './AdvancedFilters';
+import { formatMoney, reportingAmount } from '../utils/currency';
 
 interface PrintableReportProps {
   expenses: ExpenseData[];
@@ -23,19 +24,19 @@ export const PrintableReport: React.FC<PrintableReportProps> = ({
   generatedAt = new Date()
 }) => {
   // Calculate summary statistics
-  const totalAmount = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+  const totalAmount = expenses.reduce((sum, expense) => sum + reportingAmount(expense), 0);
   const averageAmount = expenses.length > 0 ? totalAmount / expenses.length : 0;
   
   // Group expenses by category
   const categoryTotals = expenses.reduce((acc, expense) => {
-    acc[expense.category] = (acc[expense.category] || 0) + expense.amount;
+    acc[expense.category] = (acc[expense.category] || 0) + reportingAmount(expense);
     return acc;
   }, {} as Record<string, number>);
 
   // Group expenses by month
   const monthlyTotals = expenses.reduce((acc, expense) => {
     const key = `${expense.year}-${expense.month.toString().padStart(2, '0')}`;
-    acc[key] = (acc[key] || 0) + expense.amount;
+    acc[key] = (acc[key] || 0) + reportingAmount(expense);
     return acc;
   }, {} as Record<string, number>);
 
@@ -77,6 +78,16 @@ export const PrintableReport: React.FC<PrintableReportProps> = ({
                     : filters.categories.join(', ')
                 }
               </div>
+              {filters.tags.length > 0 && (
+                <div>
+                  <strong>Tags:</strong> {filters.tags.join(', ')}
+                </div>
+              )}
+              {filters.search && (
+                <div>
+                  <strong>Search:</strong> {filters.search}
+                </div>
+              )}
               <div>
                 <strong>Date Range:</strong> {formatDateRange()}
               </div>
@@ -245,7 +256,7 @@ export const PrintableReport: React.FC<PrintableReportProps> = ({
                       {expense.category}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      ${expense.amount.toLocaleString()}
+                      {formatMoney(expense.amount, expense.currency)}
                     </td>
                   </tr>
                 ))}
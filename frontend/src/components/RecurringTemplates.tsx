@@ -0,0 +1,516 @@
+import React, { useState } from 'react';
+import { useCategoriesQuery } from '../hooks/useCategories';
+import { useCostCentersQuery } from '../hooks/useCostCenters';
+import {
+  useRecurringTemplatesQuery,
+  useCreateRecurringTemplateMutation,
+  useUpdateRecurringTemplateMutation,
+  useDeleteRecurringTemplateMutation,
+} from '../hooks/useRecurringTemplates';
+import { RecurringTemplateService } from '../services/recurringTemplateService';
+import { RecurrenceFrequency } from '../types/recurringTemplate';
+import type { RecurringOccurrence, RecurringTemplate, RecurringTemplateFormData } from '../types/recurringTemplate';
+import type { ApiError } from '../types/expense';
+import { formatMoney } from '../utils/currency';
+
+interface RecurringTemplatesProps {
+  // Called after saving a template, which can create expenses for periods that have already opened
+  onExpensesChanged?: () => void;
+}
+
+// Form fields are kept as entered; empty strings are optional values left out
+interface TemplateForm {
+  categoryId: string;
+  costCenterId: string;
+  amount: string;
+  currency: string;
+  description: string;
+  vendor: string;
+  frequency: RecurrenceFrequency;
+  startMonth: string;
+  startYear: string;
+  endMonth: string;
+  endYear: string;
+  escalationPercent: string;
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const frequencyLabels: Record<RecurrenceFrequency, string> = {
+  [RecurrenceFrequency.MONTHLY]: 'Monthly',
+  [RecurrenceFrequency.QUARTERLY]: 'Quarterly',
+  [RecurrenceFrequency.YEARLY]: 'Yearly',
+};
+
+const emptyForm = (): TemplateForm => {
+  const now = new Date();
+  return {
+    categoryId: '',
+    costCenterId: '',
+    amount: '',
+    currency: '',
+    description: '',
+    vendor: '',
+    frequency: RecurrenceFrequency.MONTHLY,
+    startMonth: String(now.getMonth() + 1),
+    startYear: String(now.getFullYear()),
+    endMonth: '',
+    endYear: '',
+    escalationPercent: '',
+  };
+};
+
+const templateForm = (template: RecurringTemplate): TemplateForm => ({
+  categoryId: String(template.categoryId),
+  costCenterId: template.costCenterId === null ? '' : String(template.costCenterId),
+  amount: String(template.amount),
+  currency: template.currency,
+  description: template.description ?? '',
+  vendor: template.vendor ?? '',
+  frequency: template.frequency,
+  startMonth: String(template.startMonth),
+  startYear: String(template.startYear),
+  endMonth: template.endMonth === null ? '' : String(template.endMonth),
+  endYear: template.endYear === null ? '' : String(template.endYear),
+  escalationPercent: template.escalationPercent === null ? '' : String(template.escalationPercent),
+});
+
+const toFormData = (form: TemplateForm): RecurringTemplateFormData => ({
+  categoryId: Number(form.categoryId),
+  ...(form.costCenterId && { costCenterId: Number(form.costCenterId) }),
+  amount: Number(form.amount),
+  ...(form.currency && { currency: form.currency.toUpperCase() }),
+  ...(form.description && { description: form.description }),
+  ...(form.vendor && { vendor: form.vendor }),
+  frequency: form.frequency,
+  startMonth: Number(form.startMonth),
+  startYear: Number(form.startYear),
+  ...(form.endMonth && form.endYear && { endMonth: Number(form.endMonth), endYear: Number(form.endYear) }),
+  ...(form.escalationPercent && { escalationPercent: Number(form.escalationPercent) }),
+});
+
+const period = (month: number, year: number): string => `${MONTH_NAMES[month - 1]} ${year}`;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm';
+const labelClass = 'block text-sm font-medium text-gray-700 mb-1';
+
+// Manages the templates that create an expense every month, quarter or year,
+// with a preview of the expenses a template will create before it is saved
+const RecurringTemplates: React.FC<RecurringTemplatesProps> = ({ onExpensesChanged }) => {
+  const [form, setForm] = useState<TemplateForm>(emptyForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [deleteConfirm, setDeleteConfirm] = useState<number | null>(null);
+  const [preview, setPreview] = useState<RecurringOccurrence[] | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: templates = [], isLoading } = useRecurringTemplatesQuery();
+  const { data: categories = [] } = useCategoriesQuery();
+  const { data: costCenters = [] } = useCostCentersQuery();
+  const createTemplate = useCreateRecurringTemplateMutation();
+  const updateTemplate = useUpdateRecurringTemplateMutation();
+  const deleteTemplate = useDeleteRecurringTemplateMutation();
+
+  const saving = createTemplate.isPending || updateTemplate.isPending;
+  const complete = form.categoryId !== '' && Number(form.amount) > 0 && form.startMonth !== '' && form.startYear !== '';
+
+  const setField = (field: keyof TemplateForm, value: string) => {
+    setForm((current) => ({ ...current, [field]: value }));
+    setPreview(null);
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+    setPreview(null);
+    setError(null);
+  };
+
+  const handlePreview = async () => {
+    setPreviewLoading(true);
+    setError(null);
+    try {
+      setPreview(await RecurringTemplateService.previewDraft(toFormData(form)));
+    } catch (err) {
+      setError((err as ApiError)?.message || 'Failed to preview the template');
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const data = toFormData(form);
+      if (editingId !== null) {
+        // Cleared optional fields are sent as null so the server clears them too
+        await updateTemplate.mutateAsync({
+          id: editingId,
+          data: {
+            ...data,
+            costCenterId: data.costCenterId ?? null,
+            description: data.description ?? null,
+            vendor: data.vendor ?? null,
+            endMonth: data.endMonth ?? null,
+            endYear: data.endYear ?? null,
+            escalationPercent: data.escalationPercent ?? null,
+          },
+        });
+      } else {
+        await createTemplate.mutateAsync(data);
+      }
+      resetForm();
+      onExpensesChanged?.();
+    } catch (err) {
+      setError((err as ApiError)?.message || 'Failed to save the template');
+    }
+  };
+
+  const handleEdit = (template: RecurringTemplate) => {
+    setForm(templateForm(template));
+    setEditingId(template.id);
+    setPreview(null);
+    setError(null);
+  };
+
+  const handleToggleActive = async (template: RecurringTemplate) => {
+    setError(null);
+    try {
+      await updateTemplate.mutateAsync({ id: template.id, data: { isActive: !template.isActive } });
+      onExpensesChanged?.();
+    } catch (err) {
+      setError((err as ApiError)?.message || 'Failed to update the template');
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setError(null);
+    try {
+      await deleteTemplate.mutateAsync(id);
+      setDeleteConfirm(null);
+      if (editingId === id) {
+        resetForm();
+      }
+    } catch (err) {
+      setError((err as ApiError)?.message || 'Failed to delete the template');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div role="alert" className="rounded-md bg-red-50 p-4 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="template-category" className={labelClass}>Category</label>
+            <select
+              id="template-category"
+              value={form.categoryId}
+              onChange={(e) => setField('categoryId', e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Select a category</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>{category.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="template-cost-center" className={labelClass}>Cost Center</label>
+            <select
+              id="template-cost-center"
+              value={form.costCenterId}
+              onChange={(e) => setField('costCenterId', e.target.value)}
+              className={inputClass}
+            >
+              <option value="">None</option>
+              {costCenters.map((costCenter) => (
+                <option key={costCenter.id} value={costCenter.id}>{costCenter.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="template-frequency" className={labelClass}>Frequency</label>
+            <select
+              id="template-frequency"
+              value={form.frequency}
+              onChange={(e) => setField('frequency', e.target.value)}
+              className={inputClass}
+            >
+              {(Object.keys(frequencyLabels) as RecurrenceFrequency[]).map((frequency) => (
+                <option key={frequency} value={frequency}>{frequencyLabels[frequency]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="template-amount" className={labelClass}>Amount</label>
+            <input
+              id="template-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.amount}
+              onChange={(e) => setField('amount', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="template-currency" className={labelClass}>Currency</label>
+            <input
+              id="template-currency"
+              type="text"
+              maxLength={3}
+              placeholder="Reporting currency"
+              value={form.currency}
+              onChange={(e) => setField('currency', e.target.value)}
+              className={`${inputClass} uppercase`}
+            />
+          </div>
+          <div>
+            <label htmlFor="template-escalation" className={labelClass}>Yearly Escalation (%)</label>
+            <input
+              id="template-escalation"
+              type="number"
+              min="0"
+              max="100"
+              step="0.01"
+              placeholder="None"
+              value={form.escalationPercent}
+              onChange={(e) => setField('escalationPercent', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="template-start-month" className={labelClass}>Start Month</label>
+            <div className="flex gap-2">
+              <select
+                id="template-start-month"
+                value={form.startMonth}
+                onChange={(e) => setField('startMonth', e.target.value)}
+                className={inputClass}
+              >
+                {MONTH_NAMES.map((name, index) => (
+                  <option key={name} value={index + 1}>{name}</option>
+                ))}
+              </select>
+              <input
+                aria-label="Start Year"
+                type="number"
+                min="2000"
+                max="2100"
+                value={form.startYear}
+                onChange={(e) => setField('startYear', e.target.value)}
+                className={`${inputClass} w-28`}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="template-end-month" className={labelClass}>End Month</label>
+            <div className="flex gap-2">
+              <select
+                id="template-end-month"
+                value={form.endMonth}
+                onChange={(e) => setField('endMonth', e.target.value)}
+                className={inputClass}
+              >
+                <option value="">No end</option>
+                {MONTH_NAMES.map((name, index) => (
+                  <option key={name} value={index + 1}>{name}</option>
+                ))}
+              </select>
+              <input
+                aria-label="End Year"
+                type="number"
+                min="2000"
+                max="2100"
+                value={form.endYear}
+                onChange={(e) => setField('endYear', e.target.value)}
+                className={`${inputClass} w-28`}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="template-vendor" className={labelClass}>Vendor</label>
+            <input
+              id="template-vendor"
+              type="text"
+              maxLength={255}
+              value={form.vendor}
+              onChange={(e) => setField('vendor', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div>
+          <label htmlFor="template-description" className={labelClass}>Description</label>
+          <input
+            id="template-description"
+            type="text"
+            maxLength={500}
+            value={form.description}
+            onChange={(e) => setField('description', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            type="submit"
+            disabled={!complete || saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : editingId !== null ? 'Update Template' : 'Add Template'}
+          </button>
+          <button
+            type="button"
+            onClick={handlePreview}
+            disabled={!complete || previewLoading}
+            className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {previewLoading ? 'Loading...' : 'Preview'}
+          </button>
+          {editingId !== null && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Cancel Edit
+            </button>
+          )}
+        </div>
+      </form>
+
+      {preview && (
+        <section>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Expenses this template will create</h3>
+          {preview.length === 0 ? (
+            <p className="text-sm text-gray-600">None; the template ends before the current month.</p>
+          ) : (
+            <div className="overflow-x-auto max-h-72 overflow-y-auto border border-gray-200 rounded-md">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {preview.map((occurrence) => (
+                    <tr key={`${occurrence.year}-${occurrence.month}`}>
+                      <td className="px-4 py-2 text-gray-900">{period(occurrence.month, occurrence.year)}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{formatMoney(occurrence.amount, occurrence.currency)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      )}
+
+      <section>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Templates</h3>
+        {isLoading ? (
+          <p className="text-sm text-gray-600">Loading templates...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-gray-600">No recurring expenses yet.</p>
+        ) : (
+          <div className="overflow-x-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Frequency</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Runs</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next Expense</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {templates.map((template) => (
+                  <tr key={template.id} className={template.isActive ? '' : 'text-gray-400'}>
+                    <td className="px-4 py-2">
+                      <div className={template.isActive ? 'text-gray-900' : ''}>{template.category}</div>
+                      {(template.costCenter || template.description) && (
+                        <div className="text-xs text-gray-500">
+                          {[template.costCenter, template.description].filter(Boolean).join(' · ')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {formatMoney(template.amount, template.currency)}
+                      {template.escalationPercent !== null && (
+                        <div className="text-xs text-gray-500">+{template.escalationPercent}% yearly</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">{frequencyLabels[template.frequency]}</td>
+                    <td className="px-4 py-2">
+                      {period(template.startMonth, template.startYear)}
+                      {' – '}
+                      {template.endMonth !== null && template.endYear !== null ? period(template.endMonth, template.endYear) : 'ongoing'}
+                    </td>
+                    <td className="px-4 py-2">
+                      {!template.isActive
+                        ? 'Paused'
+                        : template.nextMonth !== null && template.nextYear !== null
+                          ? period(template.nextMonth, template.nextYear)
+                          : 'Ended'}
+                    </td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap space-x-2">
+                      {deleteConfirm === template.id ? (
+                        <>
+                          <button
+                            onClick={() => handleDelete(template.id)}
+                            disabled={deleteTemplate.isPending}
+                            className="text-red-600 hover:text-red-800"
+                          >
+                            Confirm Delete
+                          </button>
+                          <button onClick={() => setDeleteConfirm(null)} className="text-gray-600 hover:text-gray-800">
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button onClick={() => handleEdit(template)} className="text-blue-600 hover:text-blue-800">
+                            Edit
+                          </button>
+                          <button
+                            onClick={() => handleToggleActive(template)}
+                            disabled={updateTemplate.isPending}
+                            className="text-gray-600 hover:text-gray-800"
+                          >
+                            {template.isActive ? 'Pause' : 'Resume'}
+                          </button>
+                          <button onClick={() => setDeleteConfirm(template.id)} className="text-red-600 hover:text-red-800">
+                            Delete
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="mt-2 text-xs text-gray-500">
+          Expenses are created when each period opens. Deleting a template keeps the expenses it already created.
+        </p>
+      </section>
+    </div>
+  );
+};
+
+export default RecurringTemplates;
\ No newline at end of file
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { useTrashQuery, useRestoreExpensesMutation } from '../hooks/useOptimizedExpenses';
+import { formatMoney } from '../utils/currency';
+
+// Collapsible list of trashed expenses, each of which can be restored until the
+// server purges it. The trash is only fetched while the list is open.
+const RecycleBin: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const trash = useTrashQuery(open);
+  const restoreExpenses = useRestoreExpensesMutation();
+
+  const expenses = trash.data?.data ?? [];
+  const total = trash.data?.pagination.total ?? 0;
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">Recycle Bin</h2>
+        <button
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+          className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors duration-200"
+        >
+          {open ? 'Hide' : 'Show'}
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-500 mb-4">
+            Deleted expenses can be restored until they are permanently removed.
+          </p>
+
+          {trash.isLoading && <p className="text-sm text-gray-500">Loading deleted expenses...</p>}
+          {trash.error && <p className="text-sm text-red-800">{trash.error.message}</p>}
+          {trash.isSuccess && expenses.length === 0 && (
+            <p className="text-sm text-gray-500">The recycle bin is empty.</p>
+          )}
+
+          {expenses.length > 0 && (
+            <>
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deleted</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {expenses.map((expense) => (
+                    <tr key={expense.id}>
+                      <td className="px-4 py-2 whitespace-nowrap text-gray-900">{expense.category}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-gray-500">{expense.month}/{expense.year}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-right text-gray-900">
+                        {formatMoney(expense.amount, expense.currency)}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-gray-500">
+                        {new Date(expense.deletedAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-right">
+                        <button
+                          onClick={() => restoreExpenses.mutate([expense.id])}
+                          disabled={restoreExpenses.isPending}
+                          aria-label={`Restore expense ${expense.id}`}
+                          className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                        >
+                          Restore
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {total > expenses.length && (
+                <p className="mt-2 text-sm text-gray-500">
+                  Showing the {expenses.length} most recently deleted of {total} expenses
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecycleBin;
\ No newline at end of file
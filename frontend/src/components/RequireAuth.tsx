@@ -0,0 +1,35 @@
+import React, { useEffect } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../hooks/useAuth';
+
+interface RequireAuthProps {
+  children: React.ReactElement;
+}
+
+// Render children only for a signed-in user, otherwise redirect to the login page
+const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
+  const { status, loadSession } = useAuth();
+  const location = useLocation();
+
+  useEffect(() => {
+    if (status === 'unknown') {
+      loadSession();
+    }
+  }, [status, loadSession]);
+
+  if (status === 'unknown') {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (status === 'unauthenticated') {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  return children;
+};
+
+export default RequireAuth;
\ No newline at end of file
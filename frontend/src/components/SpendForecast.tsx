@@ -0,0 +1,134 @@
+import React from 'react';
+import { ForecastMethod } from '../types/forecast';
+import type { ForecastData } from '../types/forecast';
+import { formatMoney } from '../utils/currency';
+
+interface SpendForecastProps {
+  forecast?: ForecastData | undefined;
+  loading?: boolean;
+  error?: string | null;
+  method: ForecastMethod;
+  onMethodChange: (method: ForecastMethod) => void;
+  months: number;
+  onMonthsChange: (months: number) => void;
+}
+
+const forecastMethodLabels: Record<ForecastMethod, string> = {
+  [ForecastMethod.LINEAR]: 'Linear regression',
+  [ForecastMethod.MOVING_AVERAGE]: 'Moving average',
+  [ForecastMethod.SEASONAL_NAIVE]: 'Seasonal naive',
+};
+
+const HORIZONS = [3, 6, 12];
+
+// Projected total spend for the coming months, with how accurate each method
+// was on the last months of the history
+const SpendForecast: React.FC<SpendForecastProps> = ({
+  forecast,
+  loading = false,
+  error = null,
+  method,
+  onMethodChange,
+  months,
+  onMonthsChange,
+}) => {
+  const scored = (forecast?.backtest ?? []).filter(result => result.mape !== null);
+  const best = scored.length > 0
+    ? scored.reduce((lowest, result) => (result.mape! < lowest.mape! ? result : lowest)).method
+    : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4">
+        <div className="flex flex-col">
+          <label htmlFor="forecast-method" className="text-sm font-medium text-gray-700 mb-1">
+            Method
+          </label>
+          <select
+            id="forecast-method"
+            value={method}
+            onChange={(e) => onMethodChange(e.target.value as ForecastMethod)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {(Object.keys(forecastMethodLabels) as ForecastMethod[]).map((value) => (
+              <option key={value} value={value}>{forecastMethodLabels[value]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col">
+          <label htmlFor="forecast-months" className="text-sm font-medium text-gray-700 mb-1">
+            Months Ahead
+          </label>
+          <select
+            id="forecast-months"
+            value={months}
+            onChange={(e) => onMonthsChange(parseInt(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {HORIZONS.map((horizon) => (
+              <option key={horizon} value={horizon}>{horizon}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error ? (
+        <p role="alert" className="text-sm text-red-700">{error}</p>
+      ) : loading || !forecast ? (
+        <p className="text-sm text-gray-600">Loading forecast...</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="overflow-x-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Month</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Forecast</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {Math.round(forecast.confidenceLevel * 100)}% Range
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {forecast.total.forecast.map((point) => (
+                  <tr key={`${point.year}-${point.month}`}>
+                    <td className="px-4 py-2 text-gray-900">
+                      {new Date(point.year, point.month - 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatMoney(point.amount, forecast.currency)}</td>
+                    <td className="px-4 py-2 text-right text-gray-600">
+                      {formatMoney(point.lower, forecast.currency)} – {formatMoney(point.upper, forecast.currency)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h4 className="font-medium text-gray-700 mb-2">Backtest</h4>
+            <p className="text-sm text-gray-600 mb-2">
+              Mean absolute percentage error when each method projected the last{' '}
+              {forecast.backtest[0]?.months ?? 0} months from the months before them. Lower is better.
+            </p>
+            <ul className="space-y-1 text-sm">
+              {forecast.backtest.map((result) => (
+                <li key={result.method} className="flex justify-between">
+                  <span className={result.method === forecast.method ? 'font-semibold text-gray-900' : 'text-gray-700'}>
+                    {forecastMethodLabels[result.method]}
+                    {result.method === best && <span className="ml-2 text-green-700">most accurate</span>}
+                  </span>
+                  <span className="text-gray-900">
+                    {result.mape === null ? 'Not enough history' : `${result.mape.toFixed(1)}%`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpendForecast;
\ No newline at end of file
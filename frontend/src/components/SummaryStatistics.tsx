@@ -1,5 +1,6 @@
 import React from 'react';
 import type { ExpenseData, ExpenseCategory } from '../types/expense';
+import { reportingAmount } from '../utils/currency';
 
 interface SummaryStatisticsProps {
   expenses: ExpenseData[];
@@ -40,7 +41,7 @@ const calculateStatistics = (expenses: ExpenseData[]): StatsSummary => {
     };
   }
 
-  const totalAmount = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+  const totalAmount = expenses.reduce((sum, expense) => sum + reportingAmount(expense), 0);
   const totalExpenses = expenses.length;
   const averageAmount = totalAmount / totalExpenses;
 
@@ -56,7 +57,7 @@ const calculateStatistics = (expenses: ExpenseData[]): StatsSummary => {
   expenses.forEach(expense => {
     const existing = categoryMap.get(expense.category) || { total: 0, count: 0 };
     categoryMap.set(expense.category, {
-      total: existing.total + expense.amount,
+      total: existing.total + reportingAmount(expense),
       count: existing.count + 1
     });
   });
@@ -1,9 +1,17 @@
 import React, { useEffect } from 'react';
-import { useAppSelector } from '../hooks/redux';
+import { useAppDispatch, useAppSelector } from '../hooks/redux';
 import { useErrorHandler } from '../hooks/useErrorHandler';
+import { useRestoreExpensesMutation } from '../hooks/useOptimizedExpenses';
+import { clearNotice } from '../store/expenseSlice';
+
+// How long a notice, and so its undo, stays on screen
+const NOTICE_DURATION_MS = 10000;
 
 const Toast: React.FC = () => {
   const { error, clearError } = useErrorHandler();
+  const notice = useAppSelector((state) => state.expenses.notice);
+  const dispatch = useAppDispatch();
+  const restoreExpenses = useRestoreExpensesMutation();
 
   useEffect(() => {
     if (error) {
@@ -16,35 +24,45 @@ const Toast: React.FC = () => {
     }
   }, [error, clearError]);
 
-  if (!error) return null;
+  useEffect(() => {
+    if (notice) {
+      const timer = setTimeout(() => {
+        dispatch(clearNotice());
+      }, NOTICE_DURATION_MS);
+
+      return () => clearTimeout(timer);
+    }
+  }, [notice, dispatch]);
+
+  const handleUndo = () => {
+    if (notice) {
+      restoreExpenses.mutate(notice.restoreIds, {
+        onSettled: () => dispatch(clearNotice()),
+      });
+    }
+  };
+
+  if (!error && !notice) return null;
 
   return (
-    <div className="fixed top-4 right-4 z-50 max-w-sm w-full">
-      <div className="bg-red-50 border border-red-200 rounded-lg p-4 shadow-lg">
-        <div className="flex items-start">
-          <div className="flex-shrink-0">
-            <svg
-              className="h-5 w-5 text-red-400"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z"
-              />
-            </svg>
-          </div>
-          <div className="ml-3 flex-1">
-            <p className="text-sm font-medium text-red-800">Error</p>
-            <p className="text-sm text-red-700 mt-1">{error}</p>
-          </div>
-          <div className="ml-4 flex-shrink-0">
+    <div className="fixed top-4 right-4 z-50 max-w-sm w-full space-y-2">
+      {notice && (
+        <div role="status" className="bg-gray-800 rounded-lg p-4 shadow-lg">
+          <div className="flex items-center">
+            <p className="flex-1 text-sm text-white">{notice.message}</p>
+            {notice.restoreIds.length > 0 && (
+              <button
+                onClick={handleUndo}
+                disabled={restoreExpenses.isPending}
+                className="ml-4 text-sm font-medium text-blue-300 hover:text-blue-200 focus:outline-none disabled:opacity-50"
+              >
+                {restoreExpenses.isPending ? 'Restoring...' : 'Undo'}
+              </button>
+            )}
             <button
-              onClick={clearError}
-              className="inline-flex text-red-400 hover:text-red-600 focus:outline-none focus:text-red-600"
+              onClick={() => dispatch(clearNotice())}
+              aria-label="Dismiss"
+              className="ml-3 inline-flex text-gray-400 hover:text-gray-200 focus:outline-none"
             >
               <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path
@@ -57,7 +75,47 @@ const Toast: React.FC = () => {
             </button>
           </div>
         </div>
-      </div>
+      )}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 shadow-lg">
+          <div className="flex items-start">
+            <div className="flex-shrink-0">
+              <svg
+                className="h-5 w-5 text-red-400"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.964-.833-2.732 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z"
+                />
+              </svg>
+            </div>
+            <div className="ml-3 flex-1">
+              <p className="text-sm font-medium text-red-800">Error</p>
+              <p className="text-sm text-red-700 mt-1">{error}</p>
+            </div>
+            <div className="ml-4 flex-shrink-0">
+              <button
+                onClick={clearError}
+                className="inline-flex text-red-400 hover:text-red-600 focus:outline-none focus:text-red-600"
+              >
+                <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { render } from '../../test/utils';
+import { mockExpenseData } from '../../test/mocks';
+import ApprovalQueue from '../ApprovalQueue';
+import { ApprovalService } from '../../services/approvalService';
+
+vi.mock('../../services/approvalService', () => ({
+  ApprovalService: {
+    getQueue: vi.fn(),
+    reviewExpense: vi.fn(),
+    submitExpense: vi.fn(),
+  },
+}));
+
+describe('ApprovalQueue', () => {
+  beforeEach(() => {
+    vi.mocked(ApprovalService.getQueue).mockReset();
+    vi.mocked(ApprovalService.reviewExpense).mockReset();
+    vi.mocked(ApprovalService.getQueue).mockResolvedValue({
+      data: [{ ...mockExpenseData, status: 'SUBMITTED' }],
+      pagination: { total: 1, limit: 100, offset: 0, hasMore: false },
+      timestamp: '2024-01-01T00:00:00Z',
+    });
+    vi.mocked(ApprovalService.reviewExpense).mockResolvedValue({ ...mockExpenseData, status: 'REJECTED' });
+  });
+
+  it('should reject an expense with the comment given', async () => {
+    const user = userEvent.setup();
+    render(<ApprovalQueue />);
+
+    await user.type(await screen.findByLabelText('Comment on expense 1'), 'Needs a quote');
+    await user.click(screen.getByRole('button', { name: 'Reject expense 1' }));
+
+    await waitFor(() => {
+      expect(ApprovalService.reviewExpense).toHaveBeenCalledWith(1, 'reject', 'Needs a quote');
+    });
+  });
+
+  it('should say when nothing is waiting for approval', async () => {
+    vi.mocked(ApprovalService.getQueue).mockResolvedValue({
+      data: [],
+      pagination: { total: 0, limit: 100, offset: 0, hasMore: false },
+      timestamp: '2024-01-01T00:00:00Z',
+    });
+    render(<ApprovalQueue />);
+
+    expect(await screen.findByText('No expenses are waiting for approval.')).toBeInTheDocument();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { render } from '../../test/utils';
+import { DataExport } from '../DataExport';
+import { ExportService } from '../../services/exportService';
+import type { TrendsExportQuery } from '../../types/export';
+
+vi.mock('../../services/exportService', () => ({
+  ExportService: {
+    getExport: vi.fn(),
+    downloadExport: vi.fn(),
+  },
+}));
+
+const query: TrendsExportQuery = {
+  type: 'trends',
+  startYear: 2024,
+  startMonth: 1,
+  endYear: 2024,
+  endMonth: 3,
+  groupBy: 'month',
+};
+
+describe('DataExport', () => {
+  beforeEach(() => {
+    vi.mocked(ExportService.downloadExport).mockReset();
+    vi.mocked(ExportService.getExport).mockReset();
+  });
+
+  it('should download the export from the server in the chosen format', async () => {
+    const user = userEvent.setup();
+    vi.mocked(ExportService.downloadExport).mockResolvedValue();
+
+    render(<DataExport query={query} description="Export monthly spend per category" />);
+
+    await user.click(screen.getByRole('button', { name: /download excel/i }));
+    await user.click(screen.getByRole('button', { name: /download pdf/i }));
+
+    expect(ExportService.downloadExport).toHaveBeenCalledWith(query, 'xlsx');
+    expect(ExportService.downloadExport).toHaveBeenCalledWith(query, 'pdf');
+  });
+
+  it('should show why an export failed', async () => {
+    const user = userEvent.setup();
+    vi.mocked(ExportService.downloadExport).mockRejectedValue({ message: '60000 expenses match; narrow the filters to at most 50000', code: 'VALIDATION_ERROR' });
+
+    render(<DataExport query={query} description="Export monthly spend per category" />);
+
+    await user.click(screen.getByRole('button', { name: /download csv/i }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('narrow the filters');
+  });
+
+  it('should ask for months before anything can be exported', () => {
+    render(<DataExport query={null} description="" />);
+
+    expect(screen.getByText(/select months to enable/i)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /download/i })).not.toBeInTheDocument();
+  });
+});
\ No newline at end of file
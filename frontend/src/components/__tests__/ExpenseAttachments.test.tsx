@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { render } from '../../test/utils';
+import ExpenseAttachments from '../ExpenseAttachments';
+import { AttachmentService } from '../../services/attachmentService';
+import { mockExpenseData } from '../../test/mocks';
+import type { AttachmentData } from '../../types/attachment';
+
+vi.mock('../../services/attachmentService', () => ({
+  AttachmentService: {
+    getAttachments: vi.fn(),
+    uploadAttachment: vi.fn(),
+    getFile: vi.fn(),
+    deleteAttachment: vi.fn(),
+  },
+}));
+
+const attachments: AttachmentData[] = [
+  {
+    id: 5,
+    costId: mockExpenseData.id,
+    fileName: 'invoice.pdf',
+    contentType: 'application/pdf',
+    size: 48 * 1024,
+    uploadedBy: 'Finance Admin',
+    createdAt: '2024-06-03T10:00:00Z',
+  },
+  {
+    id: 6,
+    costId: mockExpenseData.id,
+    fileName: 'receipt.png',
+    contentType: 'image/png',
+    size: 2 * 1024 * 1024,
+    uploadedBy: null,
+    createdAt: '2024-06-04T10:00:00Z',
+  },
+];
+
+describe('ExpenseAttachments', () => {
+  beforeEach(() => {
+    vi.mocked(AttachmentService.getAttachments).mockReset().mockResolvedValue(attachments);
+    vi.mocked(AttachmentService.getFile).mockReset().mockResolvedValue(new Blob(['png'], { type: 'image/png' }));
+    vi.mocked(AttachmentService.uploadAttachment).mockReset();
+    vi.mocked(AttachmentService.deleteAttachment).mockReset().mockResolvedValue();
+    URL.createObjectURL = vi.fn(() => 'blob:receipt');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  it('should preview images and show the type of other files', async () => {
+    render(<ExpenseAttachments expense={mockExpenseData} canModify={false} onClose={vi.fn()} />);
+
+    expect(await screen.findByText('invoice.pdf')).toBeInTheDocument();
+    expect(screen.getByText('PDF')).toBeInTheDocument();
+    expect(screen.getByText('48 KB · Finance Admin')).toBeInTheDocument();
+    expect(screen.getByText('2.0 MB')).toBeInTheDocument();
+    expect(await screen.findByRole('img', { name: 'receipt.png' })).toHaveAttribute('src', 'blob:receipt');
+    // Only images are fetched for previews
+    expect(AttachmentService.getFile).toHaveBeenCalledTimes(1);
+    expect(AttachmentService.getFile).toHaveBeenCalledWith(mockExpenseData.id, 6);
+    expect(screen.queryByRole('button', { name: 'Upload' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Remove' })).not.toBeInTheDocument();
+  });
+
+  it('should upload the chosen file', async () => {
+    const user = userEvent.setup();
+    vi.mocked(AttachmentService.getAttachments).mockResolvedValue([]);
+    vi.mocked(AttachmentService.uploadAttachment).mockResolvedValue(attachments[0]!);
+    const file = new File(['%PDF-1.4'], 'invoice.pdf', { type: 'application/pdf' });
+
+    render(<ExpenseAttachments expense={mockExpenseData} canModify onClose={vi.fn()} />);
+
+    expect(await screen.findByText(/no receipts or invoices/i)).toBeInTheDocument();
+    await user.upload(screen.getByLabelText('Upload attachment'), file);
+
+    await waitFor(() => {
+      expect(AttachmentService.uploadAttachment).toHaveBeenCalledWith(mockExpenseData.id, file);
+    });
+  });
+
+  it('should remove an attachment once confirmed', async () => {
+    const user = userEvent.setup();
+
+    render(<ExpenseAttachments expense={mockExpenseData} canModify onClose={vi.fn()} />);
+
+    await user.click((await screen.findAllByRole('button', { name: 'Remove' }))[0]!);
+    await user.click(screen.getByRole('button', { name: 'Confirm remove' }));
+
+    await waitFor(() => {
+      expect(AttachmentService.deleteAttachment).toHaveBeenCalledWith(mockExpenseData.id, 5);
+    });
+  });
+
+  it('should show the error when a file is rejected', async () => {
+    const user = userEvent.setup();
+    vi.mocked(AttachmentService.uploadAttachment).mockRejectedValue({
+      message: 'Uploaded file is not a valid image/png file',
+      code: 'VALIDATION_ERROR',
+    });
+
+    render(<ExpenseAttachments expense={mockExpenseData} canModify onClose={vi.fn()} />);
+
+    await user.upload(screen.getByLabelText('Upload attachment'), new File(['x'], 'fake.png', { type: 'image/png' }));
+
+    expect(await screen.findByText('Uploaded file is not a valid image/png file')).toBeInTheDocument();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { render } from '../../test/utils';
+import ExpenseComments from '../ExpenseComments';
+import { CommentService } from '../../services/commentService';
+import { mockAuthUser, mockExpenseData } from '../../test/mocks';
+import type { CommentData } from '../../types/comment';
+
+vi.mock('../../services/commentService', () => ({
+  CommentService: {
+    getComments: vi.fn(),
+    getMembers: vi.fn(),
+    addComment: vi.fn(),
+    updateComment: vi.fn(),
+    deleteComment: vi.fn(),
+    markRead: vi.fn(),
+  },
+}));
+
+const comments: CommentData[] = [
+  {
+    id: 4,
+    costId: mockExpenseData.id,
+    body: 'Why did this jump 40% in June? @Test Editor',
+    author: { id: 2, name: 'Finance Admin' },
+    mentions: [{ id: mockAuthUser.id, name: mockAuthUser.name }],
+    createdAt: '2024-07-02T09:00:00Z',
+    editedAt: null,
+  },
+  {
+    id: 5,
+    costId: mockExpenseData.id,
+    body: 'We added a second region.',
+    author: { id: mockAuthUser.id, name: mockAuthUser.name },
+    mentions: [],
+    createdAt: '2024-07-02T10:00:00Z',
+    editedAt: '2024-07-02T10:05:00Z',
+  },
+];
+
+const thread = (data: CommentData[]) => ({
+  data,
+  pagination: { total: data.length, limit: 50, offset: 0, hasMore: false },
+  timestamp: '2024-07-02T10:10:00Z',
+});
+
+describe('ExpenseComments', () => {
+  beforeEach(() => {
+    vi.mocked(CommentService.getComments).mockReset().mockResolvedValue(thread(comments));
+    vi.mocked(CommentService.getMembers).mockReset().mockResolvedValue([
+      { id: 2, name: 'Finance Admin' },
+      { id: mockAuthUser.id, name: mockAuthUser.name },
+    ]);
+    vi.mocked(CommentService.addComment).mockReset().mockResolvedValue(comments[0]!);
+    vi.mocked(CommentService.updateComment).mockReset().mockResolvedValue(comments[1]!);
+    vi.mocked(CommentService.deleteComment).mockReset().mockResolvedValue();
+    vi.mocked(CommentService.markRead).mockReset().mockResolvedValue();
+  });
+
+  it('should show the thread and mark it read', async () => {
+    render(<ExpenseComments expense={mockExpenseData} onClose={vi.fn()} />);
+
+    expect(await screen.findByText('@Test Editor')).toHaveClass('text-blue-700');
+    expect(screen.getByText('We added a second region.')).toBeInTheDocument();
+    expect(screen.getByText(/\(edited\)/)).toBeInTheDocument();
+    // Only the signed-in user's own comment can be changed
+    expect(screen.getAllByRole('button', { name: 'Edit' })).toHaveLength(1);
+    expect(screen.getAllByRole('button', { name: 'Delete' })).toHaveLength(1);
+    await waitFor(() => {
+      expect(CommentService.markRead).toHaveBeenCalledWith(mockExpenseData.id);
+    });
+  });
+
+  it('should post a comment with the picked mention', async () => {
+    const user = userEvent.setup();
+    vi.mocked(CommentService.getComments).mockResolvedValue(thread([]));
+
+    render(<ExpenseComments expense={mockExpenseData} onClose={vi.fn()} />);
+
+    expect(await screen.findByText(/no one has commented/i)).toBeInTheDocument();
+    await user.type(screen.getByLabelText('Comment'), 'Can you check this @fin');
+    await user.click(within(screen.getByLabelText('Mention suggestions')).getByRole('button', { name: '@Finance Admin' }));
+    await user.type(screen.getByLabelText('Comment'), 'please?');
+    await user.click(screen.getByRole('button', { name: 'Comment' }));
+
+    await waitFor(() => {
+      expect(CommentService.addComment).toHaveBeenCalledWith(mockExpenseData.id, {
+        body: 'Can you check this @Finance Admin please?',
+        mentions: [2],
+      });
+    });
+    await waitFor(() => {
+      expect(screen.getByLabelText('Comment')).toHaveValue('');
+    });
+  });
+
+  it('should edit the user\'s own comment', async () => {
+    const user = userEvent.setup();
+
+    render(<ExpenseComments expense={mockExpenseData} onClose={vi.fn()} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Edit' }));
+    const editor = screen.getByLabelText('Edit comment');
+    await user.clear(editor);
+    await user.type(editor, 'We added a second region in June.');
+    await user.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(CommentService.updateComment).toHaveBeenCalledWith(mockExpenseData.id, 5, {
+        body: 'We added a second region in June.',
+        mentions: [],
+      });
+    });
+  });
+
+  it('should show and edit comments with quotes and ampersands as written', async () => {
+    const user = userEvent.setup();
+    vi.mocked(CommentService.getComments).mockResolvedValue(thread([
+      { ...comments[1]!, body: "Don't merge this with Smith & Co's invoice @Finance Admin", mentions: [{ id: 2, name: 'Finance Admin' }] },
+    ]));
+
+    render(<ExpenseComments expense={mockExpenseData} onClose={vi.fn()} />);
+
+    expect(await screen.findByText(/Don't merge this with Smith & Co's invoice/)).toBeInTheDocument();
+    expect(screen.getByText('@Finance Admin')).toHaveClass('text-blue-700');
+
+    await user.click(screen.getByRole('button', { name: 'Edit' }));
+    const editor = screen.getByLabelText('Edit comment');
+    expect(editor).toHaveValue("Don't merge this with Smith & Co's invoice @Finance Admin");
+    await user.type(editor, ' again');
+    await user.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => {
+      expect(CommentService.updateComment).toHaveBeenCalledWith(mockExpenseData.id, 5, {
+        body: "Don't merge this with Smith & Co's invoice @Finance Admin again",
+        mentions: [2],
+      });
+    });
+  });
+
+  it('should delete the user\'s own comment once confirmed', async () => {
+    const user = userEvent.setup();
+
+    render(<ExpenseComments expense={mockExpenseData} onClose={vi.fn()} />);
+
+    await user.click(await screen.findByRole('button', { name: 'Delete' }));
+    await user.click(screen.getByRole('button', { name: 'Confirm delete' }));
+
+    await waitFor(() => {
+      expect(CommentService.deleteComment).toHaveBeenCalledWith(mockExpenseData.id, 5);
+    });
+  });
+});
\ No newline at end of file
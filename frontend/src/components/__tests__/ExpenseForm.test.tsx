@@ -3,8 +3,7 @@ import { screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { render } from '../../test/utils';
 import ExpenseForm from '../ExpenseForm';
-import { ExpenseCategory } from '../../types/expense';
-import { mockExpenseData } from '../../test/mocks';
+import { mockCategories, mockCostCenters, mockExpenseData } from '../../test/mocks';
 
 // Mock the API hook
 vi.mock('../../hooks/useApi', () => ({
@@ -14,6 +13,14 @@ vi.mock('../../hooks/useApi', () => ({
   }),
 }));
 
+vi.mock('../../hooks/useCategories', () => ({
+  useCategoriesQuery: () => ({ data: mockCategories }),
+}));
+
+vi.mock('../../hooks/useCostCenters', () => ({
+  useCostCentersQuery: () => ({ data: mockCostCenters }),
+}));
+
 describe('ExpenseForm', () => {
   const mockOnSubmit = vi.fn();
   const mockOnCancel = vi.fn();
@@ -40,7 +47,7 @@ describe('ExpenseForm', () => {
       expect(screen.getByRole('button', { name: /cancel/i })).toBeInTheDocument();
     });
 
-    it('should display all expense categories in dropdown', () => {
+    it("should display the organization's categories in dropdown", () => {
       render(
         <ExpenseForm
           onSubmit={mockOnSubmit}
@@ -52,8 +59,8 @@ describe('ExpenseForm', () => {
       const categorySelect = screen.getByLabelText(/category/i);
       fireEvent.click(categorySelect);
 
-      Object.values(ExpenseCategory).forEach(category => {
-        expect(screen.getByText(category)).toBeInTheDocument();
+      mockCategories.forEach(category => {
+        expect(screen.getByText(category.name)).toBeInTheDocument();
       });
     });
 
@@ -166,7 +173,7 @@ describe('ExpenseForm', () => {
 
       // Fill form with valid data
       const categorySelect = screen.getByLabelText(/category/i);
-      await user.selectOptions(categorySelect, ExpenseCategory.SOFTWARE_TOOLS);
+      await user.selectOptions(categorySelect, screen.getByRole('option', { name: 'Software & Tools' }));
 
       const amountInput = screen.getByLabelText(/amount/i);
       await user.type(amountInput, '1500.50');
@@ -182,7 +189,7 @@ describe('ExpenseForm', () => {
 
       await waitFor(() => {
         expect(mockOnSubmit).toHaveBeenCalledWith({
-          category: ExpenseCategory.SOFTWARE_TOOLS,
+          categoryId: 2,
           amount: 1500.50,
           month: 3,
           year: 2024,
@@ -190,6 +197,132 @@ describe('ExpenseForm', () => {
       });
     });
 
+    it('should submit the selected cost center', async () => {
+      const user = userEvent.setup();
+
+      render(
+        <ExpenseForm
+          onSubmit={mockOnSubmit}
+          onCancel={mockOnCancel}
+          mode="create"
+        />
+      );
+
+      await user.selectOptions(screen.getByLabelText(/category/i), screen.getByRole('option', { name: 'Salaries' }));
+      await user.selectOptions(screen.getByLabelText(/cost center/i), 'Platform');
+      await user.type(screen.getByLabelText(/amount/i), '900');
+      await user.selectOptions(screen.getByLabelText(/month/i), '3');
+      await user.selectOptions(screen.getByLabelText(/year/i), '2024');
+
+      await user.click(screen.getByRole('button', { name: /add expense/i }));
+
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith({
+          categoryId: 1,
+          costCenterId: 2,
+          amount: 900,
+          month: 3,
+          year: 2024,
+        });
+      });
+    });
+
+    it('should submit the currency the expense was billed in', async () => {
+      const user = userEvent.setup();
+
+      render(
+        <ExpenseForm
+          onSubmit={mockOnSubmit}
+          onCancel={mockOnCancel}
+          mode="create"
+        />
+      );
+
+      await user.selectOptions(screen.getByLabelText(/category/i), screen.getByRole('option', { name: 'Salaries' }));
+      await user.type(screen.getByLabelText(/amount/i), '900');
+      await user.type(screen.getByLabelText(/currency/i), 'eur');
+      await user.selectOptions(screen.getByLabelText(/month/i), '3');
+      await user.selectOptions(screen.getByLabelText(/year/i), '2024');
+
+      await user.click(screen.getByRole('button', { name: /add expense/i }));
+
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith({
+          categoryId: 1,
+          currency: 'EUR',
+          amount: 900,
+          month: 3,
+          year: 2024,
+        });
+      });
+    });
+
+    it('should submit line item details', async () => {
+      const user = userEvent.setup();
+
+      render(
+        <ExpenseForm
+          onSubmit={mockOnSubmit}
+          onCancel={mockOnCancel}
+          mode="create"
+        />
+      );
+
+      await user.selectOptions(screen.getByLabelText(/category/i), screen.getByRole('option', { name: 'Software & Tools' }));
+      await user.type(screen.getByLabelText(/amount/i), '300');
+      await user.selectOptions(screen.getByLabelText(/month/i), '3');
+      await user.selectOptions(screen.getByLabelText(/year/i), '2024');
+      await user.type(screen.getByLabelText(/description/i), 'Extra seats');
+      await user.type(screen.getByLabelText(/vendor/i), 'Atlassian');
+      await user.type(screen.getByLabelText(/invoice number/i), 'INV-002');
+
+      await user.click(screen.getByRole('button', { name: /add expense/i }));
+
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith({
+          categoryId: 2,
+          amount: 300,
+          month: 3,
+          year: 2024,
+          description: 'Extra seats',
+          vendor: 'Atlassian',
+          invoiceNumber: 'INV-002',
+        });
+      });
+    });
+
+    it('should submit notes and tags', async () => {
+      const user = userEvent.setup();
+
+      render(
+        <ExpenseForm
+          onSubmit={mockOnSubmit}
+          onCancel={mockOnCancel}
+          mode="create"
+        />
+      );
+
+      await user.selectOptions(screen.getByLabelText(/category/i), screen.getByRole('option', { name: 'Software & Tools' }));
+      await user.type(screen.getByLabelText(/amount/i), '4500');
+      await user.selectOptions(screen.getByLabelText(/month/i), '9');
+      await user.selectOptions(screen.getByLabelText(/year/i), '2024');
+      await user.type(screen.getByLabelText(/notes/i), 'Q3 pen test');
+      await user.type(screen.getByLabelText(/tags/i), 'Security, pen-test, security');
+
+      await user.click(screen.getByRole('button', { name: /add expense/i }));
+
+      await waitFor(() => {
+        expect(mockOnSubmit).toHaveBeenCalledWith({
+          categoryId: 2,
+          amount: 4500,
+          month: 9,
+          year: 2024,
+          notes: 'Q3 pen test',
+          tags: ['security', 'pen-test'],
+        });
+      });
+    });
+
     it('should call onCancel when cancel button is clicked', async () => {
       const user = userEvent.setup();
       
@@ -261,8 +394,9 @@ describe('ExpenseForm', () => {
 
       await waitFor(() => {
         expect(mockOnSubmit).toHaveBeenCalledWith({
-          category: mockExpenseData.category,
+          categoryId: mockExpenseData.categoryId,
           amount: 2000,
+          currency: mockExpenseData.currency,
           month: mockExpenseData.month,
           year: mockExpenseData.year,
         });
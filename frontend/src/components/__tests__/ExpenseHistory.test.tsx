@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { render } from '../../test/utils';
+import ExpenseHistory from '../ExpenseHistory';
+import { ExpenseService } from '../../services/expenseService';
+import { mockExpenseData, mockExpenseHistory } from '../../test/mocks';
+
+vi.mock('../../services/expenseService', () => ({
+  ExpenseService: {
+    getExpenseHistory: vi.fn(),
+  },
+}));
+
+describe('ExpenseHistory', () => {
+  beforeEach(() => {
+    vi.mocked(ExpenseService.getExpenseHistory).mockReset();
+  });
+
+  it('should list who changed the expense and the amounts before and after', async () => {
+    vi.mocked(ExpenseService.getExpenseHistory).mockResolvedValue(mockExpenseHistory);
+
+    render(<ExpenseHistory expense={mockExpenseData} onClose={vi.fn()} />);
+
+    expect(await screen.findByText('Updated')).toBeInTheDocument();
+    expect(screen.getByText('Created')).toBeInTheDocument();
+    expect(screen.getByText('$1,500.50')).toBeInTheDocument();
+    expect(screen.getAllByText('$1,750.00')).toHaveLength(2);
+    expect(screen.getAllByText('Test Editor')).toHaveLength(2);
+    expect(screen.getAllByText('203.0.113.9')).toHaveLength(2);
+    expect(ExpenseService.getExpenseHistory).toHaveBeenCalledWith(mockExpenseData.id);
+  });
+
+  it('should show an empty state when nothing has been recorded', async () => {
+    vi.mocked(ExpenseService.getExpenseHistory).mockResolvedValue([]);
+
+    render(<ExpenseHistory expense={mockExpenseData} onClose={vi.fn()} />);
+
+    expect(await screen.findByText(/no changes have been recorded/i)).toBeInTheDocument();
+  });
+
+  it('should show the error when history cannot be loaded', async () => {
+    vi.mocked(ExpenseService.getExpenseHistory).mockRejectedValue({ message: 'Expense with ID 1 not found', code: 'NOT_FOUND' });
+
+    render(<ExpenseHistory expense={mockExpenseData} onClose={vi.fn()} />);
+
+    expect(await screen.findByText('Expense with ID 1 not found')).toBeInTheDocument();
+  });
+
+  it('should call onClose when closed', async () => {
+    const user = userEvent.setup();
+    const onClose = vi.fn();
+    vi.mocked(ExpenseService.getExpenseHistory).mockResolvedValue([]);
+
+    render(<ExpenseHistory expense={mockExpenseData} onClose={onClose} />);
+    await user.click(screen.getByRole('button', { name: /close/i }));
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
\ No newline at end of file
@@ -4,7 +4,6 @@ import userEvent from '@testing-library/user-event';
 import { render } from '../../test/utils';
 import ExpenseList from '../ExpenseList';
 import { mockExpenseList } from '../../test/mocks';
-import { ExpenseCategory } from '../../types/expense';
 
 // Mock the API hook
 vi.mock('../../hooks/useExpenses', () => ({
@@ -54,6 +53,114 @@ describe('ExpenseList', () => {
     expect(deleteButtons).toHaveLength(mockExpenseList.length);
   });
 
+  it('should only offer history when the user cannot modify expenses', () => {
+    render(<ExpenseList expenses={mockExpenseList} onEdit={mockOnEdit} onDelete={mockOnDelete} canModify={false} />);
+
+    expect(screen.getAllByTitle('View history')).toHaveLength(mockExpenseList.length);
+    expect(screen.queryByTitle('Edit expense')).not.toBeInTheDocument();
+    expect(screen.queryByTitle('Delete expense')).not.toBeInTheDocument();
+  });
+
+  it('should list line items under their category total', () => {
+    const lineItems = [
+      { ...mockExpenseList[1]!, id: 10, amount: 1200, convertedAmount: 1200, description: 'Annual licenses', vendor: 'Atlassian', invoiceNumber: 'INV-001' },
+      { ...mockExpenseList[1]!, id: 11, amount: 300, convertedAmount: 300, description: 'Extra seats' },
+    ];
+    render(<ExpenseList expenses={lineItems} onEdit={mockOnEdit} onDelete={mockOnDelete} />);
+
+    expect(screen.getByText('2 line items')).toBeInTheDocument();
+    expect(screen.getByText('$1,500.00')).toBeInTheDocument();
+    expect(screen.getByText('Annual licenses')).toBeInTheDocument();
+    expect(screen.getByText('Atlassian · Invoice INV-001')).toBeInTheDocument();
+    expect(screen.getByText('Extra seats')).toBeInTheDocument();
+    expect(screen.getAllByTitle('View history')).toHaveLength(2);
+  });
+
+  it('should show amounts billed in another currency with their converted amount', () => {
+    const expenses = [
+      { ...mockExpenseList[0]!, amount: 1000, currency: 'EUR', convertedAmount: 1085 },
+      { ...mockExpenseList[1]!, amount: 500, currency: 'CHF', convertedAmount: null },
+    ];
+    render(<ExpenseList expenses={expenses} onEdit={mockOnEdit} onDelete={mockOnDelete} />);
+
+    expect(screen.getByText('€1,000.00')).toBeInTheDocument();
+    expect(screen.getByText('$1,085.00')).toBeInTheDocument();
+    expect(screen.getByText('CHF 500.00')).toBeInTheDocument();
+    expect(screen.getByText('No CHF to USD rate')).toBeInTheDocument();
+  });
+
+  it('should flag unusual months and let the user acknowledge or dismiss them', async () => {
+    const user = userEvent.setup();
+    const onReviewAnomaly = vi.fn().mockResolvedValue(undefined);
+    const anomaly = { id: 7, status: 'OPEN' as const, amount: 500000, expected: 50000, zScore: 41.2 };
+    const expenses = [
+      { ...mockExpenseList[0]!, amount: 500000, convertedAmount: 500000, anomaly },
+      { ...mockExpenseList[1]!, anomaly: { ...anomaly, id: 8, status: 'ACKNOWLEDGED' as const, expected: 2000 } },
+    ];
+    render(<ExpenseList expenses={expenses} onEdit={mockOnEdit} onDelete={mockOnDelete} onReviewAnomaly={onReviewAnomaly} />);
+
+    expect(screen.getByText('Unusual')).toBeInTheDocument();
+    expect(screen.getByText('Usually about $50,000.00')).toBeInTheDocument();
+    expect(screen.getByText('Unusual · Acknowledged')).toBeInTheDocument();
+
+    // Only the open anomaly can still be reviewed
+    expect(screen.getAllByRole('button', { name: 'Acknowledge' })).toHaveLength(1);
+    await user.click(screen.getByRole('button', { name: 'Dismiss' }));
+
+    expect(onReviewAnomaly).toHaveBeenCalledWith(7, 'DISMISSED');
+  });
+
+  it('should change the amounts of or delete the selected expenses in bulk', async () => {
+    const user = userEvent.setup();
+    const onBulkDelete = vi.fn().mockResolvedValue(undefined);
+    const onBulkUpdateAmounts = vi.fn().mockResolvedValue(undefined);
+    const [first, second] = [mockExpenseList[0]!, mockExpenseList[1]!];
+    render(
+      <ExpenseList
+        expenses={[first, second]}
+        onEdit={mockOnEdit}
+        onDelete={mockOnDelete}
+        onBulkDelete={onBulkDelete}
+        onBulkUpdateAmounts={onBulkUpdateAmounts}
+      />
+    );
+
+    await user.click(screen.getByLabelText(`Select expense ${first.id}`));
+    await user.click(screen.getByLabelText(`Select expense ${second.id}`));
+    expect(screen.getByText('2 selected')).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByLabelText('Amount change'), 'percent');
+    await user.type(screen.getByLabelText('Amount change value'), '10');
+    await user.click(screen.getByRole('button', { name: 'Apply' }));
+
+    expect(onBulkUpdateAmounts).toHaveBeenCalledWith([
+      { id: first.id, amount: Math.round(first.amount * 110) / 100 },
+      { id: second.id, amount: Math.round(second.amount * 110) / 100 },
+    ]);
+
+    await user.click(screen.getByLabelText('Select all shown expenses'));
+    await user.click(screen.getByRole('button', { name: 'Delete selected' }));
+    expect(screen.getByText('Are you sure you want to delete 2 expenses? They can be restored from the recycle bin.')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Delete' }));
+
+    expect(onBulkDelete).toHaveBeenCalledWith([first.id, second.id]);
+  });
+
+  it('should offer to load more when later pages remain', async () => {
+    const user = userEvent.setup();
+    const onLoadMore = vi.fn();
+    const { rerender } = render(
+      <ExpenseList expenses={mockExpenseList} onEdit={mockOnEdit} onDelete={mockOnDelete} total={120} hasMore onLoadMore={onLoadMore} />
+    );
+
+    expect(screen.getByText(`Showing ${mockExpenseList.length} of 120 expenses`)).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Load more' }));
+    expect(onLoadMore).toHaveBeenCalled();
+
+    rerender(<ExpenseList expenses={mockExpenseList} onEdit={mockOnEdit} onDelete={mockOnDelete} total={120} onLoadMore={onLoadMore} />);
+    expect(screen.queryByRole('button', { name: 'Load more' })).not.toBeInTheDocument();
+  });
+
   it('should call onEdit when edit button is clicked', async () => {
     const user = userEvent.setup();
     render(<ExpenseList onEdit={mockOnEdit} onDelete={mockOnDelete} />);
@@ -155,8 +262,8 @@ describe('ExpenseList', () => {
     await user.type(searchInput, 'Salaries');
 
     // Should only show expenses matching the search term
-    expect(screen.getByText(ExpenseCategory.SALARIES)).toBeInTheDocument();
-    expect(screen.queryByText(ExpenseCategory.SOFTWARE_TOOLS)).not.toBeInTheDocument();
+    expect(screen.getByText('Salaries')).toBeInTheDocument();
+    expect(screen.queryByText('Software & Tools')).not.toBeInTheDocument();
   });
 
   it('should filter expenses by category', async () => {
@@ -164,11 +271,11 @@ describe('ExpenseList', () => {
     render(<ExpenseList onEdit={mockOnEdit} onDelete={mockOnDelete} />);
 
     const categoryFilter = screen.getByLabelText(/filter by category/i);
-    await user.selectOptions(categoryFilter, ExpenseCategory.SALARIES);
+    await user.selectOptions(categoryFilter, 'Salaries');
 
     // Should only show expenses from selected category
-    expect(screen.getByText(ExpenseCategory.SALARIES)).toBeInTheDocument();
-    expect(screen.queryByText(ExpenseCategory.SOFTWARE_TOOLS)).not.toBeInTheDocument();
+    expect(screen.getByText('Salaries')).toBeInTheDocument();
+    expect(screen.queryByText('Software & Tools')).not.toBeInTheDocument();
   });
 
   it('should sort expenses by different columns', async () => {
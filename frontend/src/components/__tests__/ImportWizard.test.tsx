@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { render } from '../../test/utils';
+import ImportWizard from '../ImportWizard';
+import { ExpenseImportService } from '../../services/expenseImportService';
+import { mockCategories } from '../../test/mocks';
+import type { ImportPreview } from '../../types/expenseImport';
+
+vi.mock('../../services/expenseImportService', () => ({
+  ExpenseImportService: {
+    previewImport: vi.fn(),
+    importExpenses: vi.fn(),
+  },
+}));
+
+vi.mock('../../hooks/useCategories', () => ({
+  useCategoriesQuery: () => ({ data: mockCategories }),
+}));
+
+const mapping: ImportPreview['mapping'] = {
+  category: 'Category',
+  costCenter: null,
+  amount: 'Amount',
+  currency: null,
+  month: 'Month',
+  year: 'Year',
+  description: null,
+  vendor: null,
+  invoiceNumber: null,
+  invoiceDate: null,
+};
+
+const preview = (overrides: Partial<ImportPreview> = {}): ImportPreview => ({
+  headers: ['Category', 'Amount', 'Month', 'Year', 'Notes'],
+  mapping,
+  rows: [
+    {
+      row: 2,
+      expense: { categoryId: 1, amount: 5000, currency: 'USD', month: 1, year: 2023 },
+      errors: [],
+      conflictingExpenseIds: [],
+      duplicateOfRow: null,
+    },
+    {
+      row: 3,
+      expense: { categoryId: 2, amount: 300, currency: 'USD', month: 1, year: 2023 },
+      errors: [],
+      conflictingExpenseIds: [7],
+      duplicateOfRow: null,
+    },
+  ],
+  summary: { total: 2, valid: 2, invalid: 0, conflicts: 1, duplicates: 0 },
+  ...overrides,
+});
+
+const file = new File(['Category,Amount,Month,Year\n'], 'costs.csv', { type: 'text/csv' });
+
+describe('ImportWizard', () => {
+  beforeEach(() => {
+    vi.mocked(ExpenseImportService.previewImport).mockReset();
+    vi.mocked(ExpenseImportService.importExpenses).mockReset();
+  });
+
+  it('should preview the chosen file and import it with the chosen conflict mode', async () => {
+    const user = userEvent.setup();
+    vi.mocked(ExpenseImportService.previewImport).mockResolvedValue(preview());
+    vi.mocked(ExpenseImportService.importExpenses).mockResolvedValue({ created: 1, updated: 1, skipped: 0 });
+
+    render(<ImportWizard />);
+
+    await user.upload(screen.getByLabelText('File'), file);
+    await user.click(screen.getByRole('button', { name: 'Preview' }));
+
+    expect(await screen.findByText('Salaries')).toBeInTheDocument();
+    expect(screen.getByText('$5,000.00')).toBeInTheDocument();
+    expect(screen.getByText('Matches an existing expense')).toBeInTheDocument();
+    expect(screen.getByLabelText('Category')).toHaveValue('Category');
+
+    await user.click(screen.getByLabelText('Overwrite the existing expense'));
+    await user.click(screen.getByRole('button', { name: 'Import 2 rows' }));
+
+    expect(await screen.findByText(/1 created, 1 updated, 0 skipped/)).toBeInTheDocument();
+    expect(ExpenseImportService.importExpenses).toHaveBeenCalledWith(file, { columns: {}, onConflict: 'overwrite' });
+  });
+
+  it('should preview again with the new mapping when a column is changed', async () => {
+    const user = userEvent.setup();
+    vi.mocked(ExpenseImportService.previewImport).mockResolvedValue(preview());
+
+    render(<ImportWizard />);
+
+    await user.upload(screen.getByLabelText('File'), file);
+    await user.click(screen.getByRole('button', { name: 'Preview' }));
+    await user.selectOptions(await screen.findByLabelText('Description'), 'Notes');
+
+    expect(ExpenseImportService.previewImport).toHaveBeenLastCalledWith(file, {
+      columns: { description: 'Notes' },
+      onConflict: 'skip',
+    });
+  });
+
+  it('should list row errors and not import a file with errors', async () => {
+    const user = userEvent.setup();
+    vi.mocked(ExpenseImportService.previewImport).mockResolvedValue(preview({
+      rows: [{ row: 2, expense: null, errors: ['Unknown category "Travel"'], conflictingExpenseIds: [], duplicateOfRow: null }],
+      summary: { total: 1, valid: 0, invalid: 1, conflicts: 0, duplicates: 0 },
+    }));
+
+    render(<ImportWizard />);
+
+    await user.upload(screen.getByLabelText('File'), file);
+    await user.click(screen.getByRole('button', { name: 'Preview' }));
+
+    expect(await screen.findByText('Unknown category "Travel"')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Import 1 rows' })).toBeDisabled();
+  });
+
+  it('should show why a file could not be read', async () => {
+    const user = userEvent.setup();
+    vi.mocked(ExpenseImportService.previewImport).mockRejectedValue({ message: 'No column found for: month', code: 'VALIDATION_ERROR' });
+
+    render(<ImportWizard />);
+
+    await user.upload(screen.getByLabelText('File'), file);
+    await user.click(screen.getByRole('button', { name: 'Preview' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('No column found for: month');
+  });
+});
\ No newline at end of file
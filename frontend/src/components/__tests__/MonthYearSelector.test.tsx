@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+import { render } from '../../test/utils';
+import { MonthYearSelector } from '../MonthYearSelector';
+import { PeriodLockService } from '../../services/periodLockService';
+
+vi.mock('../../services/periodLockService', () => ({
+  PeriodLockService: {
+    getLocks: vi.fn(),
+    closePeriod: vi.fn(),
+    reopenPeriod: vi.fn(),
+  },
+}));
+
+describe('MonthYearSelector', () => {
+  beforeEach(() => {
+    vi.mocked(PeriodLockService.getLocks).mockReset();
+    vi.mocked(PeriodLockService.getLocks).mockResolvedValue([
+      { id: 1, month: 3, year: 2024, lockedBy: 'Finance Admin', createdAt: '2024-04-02T09:00:00Z' },
+    ]);
+  });
+
+  it('should show a lock badge on a closed month', async () => {
+    render(
+      <MonthYearSelector selectedMonth={3} selectedYear={2024} onMonthChange={vi.fn()} onYearChange={vi.fn()} />
+    );
+
+    expect(await screen.findByTitle('Closed by Finance Admin')).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: 'March (closed)' })).toBeInTheDocument();
+    expect(PeriodLockService.getLocks).toHaveBeenCalledWith({ year: 2024 });
+    // Only admins can close or reopen months
+    expect(screen.queryByRole('button', { name: 'Reopen Month' })).not.toBeInTheDocument();
+  });
+
+  it('should not show the badge on an open month', async () => {
+    render(
+      <MonthYearSelector selectedMonth={4} selectedYear={2024} onMonthChange={vi.fn()} onYearChange={vi.fn()} />
+    );
+
+    expect(await screen.findByRole('option', { name: 'March (closed)' })).toBeInTheDocument();
+    expect(screen.queryByText('Closed')).not.toBeInTheDocument();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { render } from '../../test/utils';
+import OrganizationSwitcher from '../OrganizationSwitcher';
+import { mockOrganizations } from '../../test/mocks';
+
+describe('OrganizationSwitcher', () => {
+  it('should list every organization and select the current one', () => {
+    render(
+      <OrganizationSwitcher
+        organizations={mockOrganizations}
+        currentOrganizationId={2}
+        onChange={vi.fn()}
+      />
+    );
+
+    const select = screen.getByLabelText(/organization/i);
+    expect(select).toHaveValue('2');
+    expect(screen.getByRole('option', { name: 'Acme Corp' })).toBeInTheDocument();
+    expect(screen.getByRole('option', { name: 'Globex' })).toBeInTheDocument();
+  });
+
+  it('should call onChange with the chosen organization ID', async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(
+      <OrganizationSwitcher
+        organizations={mockOrganizations}
+        currentOrganizationId={1}
+        onChange={onChange}
+      />
+    );
+
+    await user.selectOptions(screen.getByLabelText(/organization/i), 'Globex');
+
+    expect(onChange).toHaveBeenCalledWith(2);
+  });
+
+  it('should show the organization name without a selector when there is only one', () => {
+    render(
+      <OrganizationSwitcher
+        organizations={mockOrganizations.slice(0, 1)}
+        currentOrganizationId={1}
+        onChange={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Acme Corp')).toBeInTheDocument();
+    expect(screen.queryByRole('combobox')).not.toBeInTheDocument();
+  });
+});
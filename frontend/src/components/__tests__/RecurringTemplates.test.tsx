@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { render } from '../../test/utils';
+import RecurringTemplates from '../RecurringTemplates';
+import { RecurringTemplateService } from '../../services/recurringTemplateService';
+import { mockCategories, mockCostCenters } from '../../test/mocks';
+import type { RecurringTemplate } from '../../types/recurringTemplate';
+
+vi.mock('../../services/recurringTemplateService', () => ({
+  RecurringTemplateService: {
+    getTemplates: vi.fn(),
+    createTemplate: vi.fn(),
+    updateTemplate: vi.fn(),
+    deleteTemplate: vi.fn(),
+    previewDraft: vi.fn(),
+  },
+}));
+
+vi.mock('../../hooks/useCategories', () => ({
+  useCategoriesQuery: () => ({ data: mockCategories }),
+}));
+
+vi.mock('../../hooks/useCostCenters', () => ({
+  useCostCentersQuery: () => ({ data: mockCostCenters }),
+}));
+
+const template = (overrides: Partial<RecurringTemplate> = {}): RecurringTemplate => ({
+  id: 4,
+  categoryId: 3,
+  category: 'Infrastructure & Hosting',
+  costCenterId: 2,
+  costCenter: 'Platform',
+  amount: 1200,
+  currency: 'USD',
+  description: 'Data center lease',
+  vendor: null,
+  frequency: 'MONTHLY',
+  startMonth: 1,
+  startYear: 2024,
+  endMonth: null,
+  endYear: null,
+  escalationPercent: 3,
+  nextMonth: 5,
+  nextYear: 2024,
+  isActive: true,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('RecurringTemplates', () => {
+  beforeEach(() => {
+    vi.mocked(RecurringTemplateService.getTemplates).mockReset();
+    vi.mocked(RecurringTemplateService.createTemplate).mockReset();
+    vi.mocked(RecurringTemplateService.updateTemplate).mockReset();
+    vi.mocked(RecurringTemplateService.deleteTemplate).mockReset();
+    vi.mocked(RecurringTemplateService.previewDraft).mockReset();
+  });
+
+  it('should list templates with their schedule and next expense', async () => {
+    vi.mocked(RecurringTemplateService.getTemplates).mockResolvedValue([
+      template(),
+      template({ id: 5, category: 'Salaries', frequency: 'QUARTERLY', escalationPercent: null, isActive: false }),
+    ]);
+
+    render(<RecurringTemplates />);
+
+    const rows = await screen.findAllByRole('row');
+    expect(within(rows[1]!).getByText('Infrastructure & Hosting')).toBeInTheDocument();
+    expect(within(rows[1]!).getByText('Platform · Data center lease')).toBeInTheDocument();
+    expect(within(rows[1]!).getByText('+3% yearly')).toBeInTheDocument();
+    expect(within(rows[1]!).getByText('January 2024 – ongoing')).toBeInTheDocument();
+    expect(within(rows[1]!).getByText('May 2024')).toBeInTheDocument();
+    expect(within(rows[2]!).getByText('Quarterly')).toBeInTheDocument();
+    expect(within(rows[2]!).getByText('Paused')).toBeInTheDocument();
+    expect(within(rows[2]!).getByRole('button', { name: 'Resume' })).toBeInTheDocument();
+  });
+
+  it('should preview the expenses a new template will create and then save it', async () => {
+    const user = userEvent.setup();
+    const onExpensesChanged = vi.fn();
+    vi.mocked(RecurringTemplateService.getTemplates).mockResolvedValue([]);
+    vi.mocked(RecurringTemplateService.previewDraft).mockResolvedValue([
+      { month: 12, year: 2024, amount: 500, currency: 'USD' },
+      { month: 12, year: 2025, amount: 525, currency: 'USD' },
+    ]);
+    vi.mocked(RecurringTemplateService.createTemplate).mockResolvedValue(template());
+
+    render(<RecurringTemplates onExpensesChanged={onExpensesChanged} />);
+
+    expect(await screen.findByText('No recurring expenses yet.')).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByLabelText('Category'), '2');
+    await user.selectOptions(screen.getByLabelText('Frequency'), 'Yearly');
+    await user.type(screen.getByLabelText('Amount'), '500');
+    await user.type(screen.getByLabelText('Yearly Escalation (%)'), '5');
+    await user.selectOptions(screen.getByLabelText('Start Month'), 'December');
+    await user.clear(screen.getByLabelText('Start Year'));
+    await user.type(screen.getByLabelText('Start Year'), '2024');
+    await user.click(screen.getByRole('button', { name: 'Preview' }));
+
+    expect(await screen.findByText('December 2025')).toBeInTheDocument();
+    expect(screen.getByText('$525.00')).toBeInTheDocument();
+
+    const expected = {
+      categoryId: 2,
+      amount: 500,
+      frequency: 'YEARLY',
+      startMonth: 12,
+      startYear: 2024,
+      escalationPercent: 5,
+    };
+    expect(RecurringTemplateService.previewDraft).toHaveBeenCalledWith(expected);
+
+    await user.click(screen.getByRole('button', { name: 'Add Template' }));
+
+    expect(RecurringTemplateService.createTemplate).toHaveBeenCalledWith(expected);
+    expect(onExpensesChanged).toHaveBeenCalled();
+    expect(screen.getByLabelText('Amount')).toHaveValue(null);
+  });
+
+  it('should clear removed values when a template is updated', async () => {
+    const user = userEvent.setup();
+    vi.mocked(RecurringTemplateService.getTemplates).mockResolvedValue([template()]);
+    vi.mocked(RecurringTemplateService.updateTemplate).mockResolvedValue(template());
+
+    render(<RecurringTemplates />);
+
+    await user.click(await screen.findByRole('button', { name: 'Edit' }));
+    expect(screen.getByLabelText('Amount')).toHaveValue(1200);
+
+    await user.selectOptions(screen.getByLabelText('Cost Center'), 'None');
+    await user.clear(screen.getByLabelText('Yearly Escalation (%)'));
+    await user.click(screen.getByRole('button', { name: 'Update Template' }));
+
+    expect(RecurringTemplateService.updateTemplate).toHaveBeenCalledWith(4, expect.objectContaining({
+      costCenterId: null,
+      escalationPercent: null,
+      amount: 1200,
+      description: 'Data center lease',
+    }));
+  });
+
+  it('should pause a template and show why a change was rejected', async () => {
+    const user = userEvent.setup();
+    vi.mocked(RecurringTemplateService.getTemplates).mockResolvedValue([template()]);
+    vi.mocked(RecurringTemplateService.updateTemplate).mockRejectedValue({
+      message: 'Category with ID 3 is archived',
+      code: 'VALIDATION_ERROR',
+    });
+
+    render(<RecurringTemplates />);
+
+    await user.click(await screen.findByRole('button', { name: 'Pause' }));
+
+    expect(RecurringTemplateService.updateTemplate).toHaveBeenCalledWith(4, { isActive: false });
+    expect(await screen.findByRole('alert')).toHaveTextContent('Category with ID 3 is archived');
+  });
+});
\ No newline at end of file
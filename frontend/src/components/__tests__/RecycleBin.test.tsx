@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { render } from '../../test/utils';
+import RecycleBin from '../RecycleBin';
+import { ExpenseService } from '../../services/expenseService';
+import { mockExpenseData } from '../../test/mocks';
+import type { TrashedExpense } from '../../types/expense';
+
+vi.mock('../../services/expenseService', () => ({
+  ExpenseService: {
+    getTrash: vi.fn(),
+    restoreExpense: vi.fn(),
+  },
+}));
+
+const trashed: TrashedExpense = { ...mockExpenseData, deletedAt: '2024-08-01T10:00:00Z' };
+
+describe('RecycleBin', () => {
+  beforeEach(() => {
+    vi.mocked(ExpenseService.getTrash).mockReset();
+    vi.mocked(ExpenseService.restoreExpense).mockReset();
+  });
+
+  it('should only fetch the trash once opened', async () => {
+    const user = userEvent.setup();
+    vi.mocked(ExpenseService.getTrash).mockResolvedValue({
+      data: [],
+      pagination: { total: 0, limit: 100, hasMore: false },
+      timestamp: '2024-08-01T10:00:00Z',
+    });
+
+    render(<RecycleBin />);
+    expect(ExpenseService.getTrash).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Show' }));
+
+    expect(await screen.findByText('The recycle bin is empty.')).toBeInTheDocument();
+  });
+
+  it('should restore a trashed expense', async () => {
+    const user = userEvent.setup();
+    vi.mocked(ExpenseService.getTrash).mockResolvedValue({
+      data: [trashed],
+      pagination: { total: 1, limit: 100, hasMore: false },
+      timestamp: '2024-08-01T10:00:00Z',
+    });
+    vi.mocked(ExpenseService.restoreExpense).mockResolvedValue(mockExpenseData);
+
+    render(<RecycleBin />);
+    await user.click(screen.getByRole('button', { name: 'Show' }));
+    await user.click(await screen.findByRole('button', { name: `Restore expense ${trashed.id}` }));
+
+    expect(ExpenseService.restoreExpense).toHaveBeenCalledWith(trashed.id);
+  });
+});
\ No newline at end of file
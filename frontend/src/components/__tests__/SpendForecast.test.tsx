@@ -0,0 +1,75 @@
+import { describe, it, expect, vi } from 'vitest';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { render } from '../../test/utils';
+import SpendForecast from '../SpendForecast';
+import type { ForecastData } from '../../types/forecast';
+
+const forecast: ForecastData = {
+  method: 'linear',
+  confidenceLevel: 0.95,
+  currency: 'USD',
+  total: {
+    categoryId: null,
+    category: null,
+    actual: [{ month: 6, year: 2024, amount: 2700 }],
+    forecast: [
+      { month: 7, year: 2024, amount: 2800, lower: 2500, upper: 3100 },
+      { month: 8, year: 2024, amount: 2900, lower: 2550, upper: 3250 },
+    ],
+  },
+  categories: [],
+  backtest: [
+    { method: 'linear', mape: 4.25, months: 4 },
+    { method: 'moving_average', mape: 12.5, months: 4 },
+    { method: 'seasonal_naive', mape: null, months: 4 },
+  ],
+};
+
+describe('SpendForecast', () => {
+  const props = {
+    method: 'linear' as const,
+    onMethodChange: vi.fn(),
+    months: 6,
+    onMonthsChange: vi.fn(),
+  };
+
+  it('should list the projected months with their range and each method\'s backtest error', () => {
+    render(<SpendForecast {...props} forecast={forecast} />);
+
+    expect(screen.getByText('July 2024')).toBeInTheDocument();
+    expect(screen.getByText('$2,800.00')).toBeInTheDocument();
+    expect(screen.getByText('$2,550.00 – $3,250.00')).toBeInTheDocument();
+    expect(screen.getByText('95% Range')).toBeInTheDocument();
+
+    expect(screen.getByText(/projected the last 4 months/)).toBeInTheDocument();
+    expect(screen.getByText('4.3%')).toBeInTheDocument();
+    expect(screen.getByText('12.5%')).toBeInTheDocument();
+    expect(screen.getByText('Not enough history')).toBeInTheDocument();
+    expect(screen.getByText('most accurate').parentElement).toHaveTextContent('Linear regression');
+  });
+
+  it('should change the method and horizon', async () => {
+    const user = userEvent.setup();
+    const onMethodChange = vi.fn();
+    const onMonthsChange = vi.fn();
+
+    render(
+      <SpendForecast {...props} forecast={forecast} onMethodChange={onMethodChange} onMonthsChange={onMonthsChange} />
+    );
+
+    await user.selectOptions(screen.getByLabelText('Method'), 'Seasonal naive');
+    await user.selectOptions(screen.getByLabelText('Months Ahead'), '12');
+
+    expect(onMethodChange).toHaveBeenCalledWith('seasonal_naive');
+    expect(onMonthsChange).toHaveBeenCalledWith(12);
+  });
+
+  it('should explain why there is no forecast', () => {
+    render(
+      <SpendForecast {...props} error="The linear regression method needs at least 3 months of spending history; 1 found" />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('needs at least 3 months');
+  });
+});
\ No newline at end of file
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   BarChart as RechartsBarChart,
   Bar,
@@ -7,12 +7,16 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
+  Legend,
   Cell
 } from 'recharts';
+import type { TooltipContentProps } from 'recharts';
 import { CategoryAmount } from '../../types/expense';
 
 interface BarChartProps {
   data: CategoryAmount[];
+  // Planned spend per category, drawn as a second bar next to the actual amount
+  budgets?: CategoryAmount[];
   title: string;
   height?: number;
   loading?: boolean;
@@ -24,16 +28,35 @@ const COLORS = [
   '#8dd1e1', '#d084d0', '#ffb347'
 ];
 
+const BUDGET_COLOR = '#cbd5e1';
+
+// A parent's sub-categories, plus whatever was booked on the parent itself
+const subcategoryRows = (parent: CategoryAmount): CategoryAmount[] => {
+  const subcategories = parent.subcategories ?? [];
+  const unallocated = parent.amount - subcategories.reduce((sum, item) => sum + item.amount, 0);
+
+  return unallocated > 0.005
+    ? [...subcategories, { categoryId: parent.categoryId, category: `${parent.category} (unallocated)`, amount: unallocated }]
+    : subcategories;
+};
+
 // Custom tooltip component
-const CustomTooltip = ({ active, payload, label }: any) => {
+// Recharts passes the props in when it clones the element, so they are all optional here
+const CustomTooltip = ({ active, payload, label }: Partial<TooltipContentProps<number, string>>) => {
   if (active && payload && payload.length) {
-    const data = payload[0];
+    const amount = Number(payload[0]?.value);
+    const budget = payload.find(item => item.dataKey === 'budget');
     return (
       <div className="bg-white p-3 border border-gray-300 rounded shadow-lg">
         <p className="font-semibold text-gray-800">{label}</p>
         <p className="text-blue-600">
-          Amount: ${data.value.toLocaleString()}
+          Amount: ${amount.toLocaleString()}
         </p>
+        {budget && (
+          <p className="text-gray-600">
+            Budget: ${Number(budget.value).toLocaleString()}
+          </p>
+        )}
       </div>
     );
   }
@@ -55,13 +78,36 @@ const formatCategoryName = (category: string): string => {
 
 const BarChartComponent: React.FC<BarChartProps> = ({ 
   data, 
+  budgets,
   title, 
   height = 400,
   loading = false 
 }) => {
+  // Top-level category whose sub-categories are shown instead of all categories
+  const [drilldownId, setDrilldownId] = useState<number | null>(null);
+  const drilldown = data.find(item => item.categoryId === drilldownId && item.subcategories?.length);
+
+  // Budgets are drawn for top-level categories only
+  const showBudget = !drilldown && budgets !== undefined && budgets.length > 0;
+
+  // Categories that are budgeted but have no spend yet still get a bar for their budget
+  const rows: CategoryAmount[] = drilldown
+    ? subcategoryRows(drilldown)
+    : showBudget
+    ? [
+        ...data,
+        ...budgets
+          .filter(budget => !data.some(item => item.categoryId === budget.categoryId))
+          .map(budget => ({ categoryId: budget.categoryId, category: budget.category, amount: 0 }))
+      ]
+    : data;
+
   // Transform data for display
-  const chartData = data.map((item, index) => ({
+  const chartData = rows.map((item, index) => ({
     ...item,
+    ...(showBudget && {
+      budget: budgets.find(budget => budget.categoryId === item.categoryId)?.amount ?? 0
+    }),
     displayCategory: formatCategoryName(item.category),
     color: COLORS[index % COLORS.length]
   }));
@@ -76,7 +122,7 @@ const BarChartComponent: React.FC<BarChartProps> = ({
     );
   }
 
-  if (!data || data.length === 0) {
+  if (rows.length === 0) {
     return (
       <div className="w-full" style={{ height }}>
         <div className="flex items-center justify-center h-full text-gray-500">
@@ -90,9 +136,20 @@ const BarChartComponent: React.FC<BarChartProps> = ({
     <div className="w-full">
       {title && (
         <h3 className="text-lg font-semibold text-gray-800 mb-4 text-center">
-          {title}
+          {drilldown ? `${title}: ${drilldown.category}` : title}
         </h3>
       )}
+      {drilldown ? (
+        <button
+          type="button"
+          onClick={() => setDrilldownId(null)}
+          className="mb-2 text-sm text-blue-600 hover:text-blue-800"
+        >
+          &larr; All categories
+        </button>
+      ) : data.some(item => item.subcategories?.length) && (
+        <p className="mb-2 text-sm text-gray-500">Click a category to see its sub-categories</p>
+      )}
       <ResponsiveContainer width="100%" height={height}>
         <RechartsBarChart
           data={chartData}
@@ -117,16 +174,37 @@ const BarChartComponent: React.FC<BarChartProps> = ({
             tickFormatter={(value) => `$${value.toLocaleString()}`}
           />
           <Tooltip content={<CustomTooltip />} />
+          {showBudget && <Legend verticalAlign="top" />}
           <Bar 
             dataKey="amount" 
+            name="Actual"
             radius={[4, 4, 0, 0]}
             stroke="#fff"
             strokeWidth={1}
+            onClick={(item) => {
+              if (!drilldown && item.payload?.subcategories?.length) {
+                setDrilldownId(item.payload.categoryId);
+              }
+            }}
           >
             {chartData.map((entry, index) => (
-              <Cell key={`cell-${index}`} fill={entry.color} />
+              <Cell
+                key={`cell-${index}`}
+                fill={entry.color}
+                cursor={!drilldown && entry.subcategories?.length ? 'pointer' : 'default'}
+              />
             ))}
           </Bar>
+          {showBudget && (
+            <Bar
+              dataKey="budget"
+              name="Budget"
+              fill={BUDGET_COLOR}
+              radius={[4, 4, 0, 0]}
+              stroke="#fff"
+              strokeWidth={1}
+            />
+          )}
         </RechartsBarChart>
       </ResponsiveContainer>
     </div>
@@ -140,6 +218,7 @@ export const BarChart = React.memo(BarChartComponent, (prevProps, nextProps) =>
     prevProps.loading === nextProps.loading &&
     prevProps.title === nextProps.title &&
     prevProps.height === nextProps.height &&
-    JSON.stringify(prevProps.data) === JSON.stringify(nextProps.data)
+    JSON.stringify(prevProps.data) === JSON.stringify(nextProps.data) &&
+    JSON.stringify(prevProps.budgets) === JSON.stringify(nextProps.budgets)
   );
 });
\ No newline at end of file
@@ -10,6 +10,8 @@ import {
   Legend
 } from 'recharts';
 import type { TrendData, ExpenseCategory } from '../../types/expense';
+import type { ForecastData } from '../../types/forecast';
+import type { Anomaly } from '../../types/anomaly';
 
 interface LineChartProps {
   data: TrendData[];
@@ -17,18 +19,24 @@ interface LineChartProps {
   height?: number;
   loading?: boolean;
   selectedCategories?: ExpenseCategory[];
+  // Colour per category name, usually the organization's category colours
+  categoryColors?: Record<ExpenseCategory, string>;
+  // Drawn as a dashed continuation of the actual lines
+  forecast?: ForecastData;
+  // Months marked on their category's line
+  anomalies?: Anomaly[];
 }
 
-// Color palette for different categories
-const CATEGORY_COLORS: Record<ExpenseCategory, string> = {
-  [ExpenseCategory.SALARIES]: '#8884d8',
-  [ExpenseCategory.SOFTWARE_TOOLS]: '#82ca9d',
-  [ExpenseCategory.INFRASTRUCTURE_HOSTING]: '#ffc658',
-  [ExpenseCategory.HARDWARE_EQUIPMENT]: '#ff7c7c',
-  [ExpenseCategory.SECURITY_COMPLIANCE]: '#8dd1e1',
-  [ExpenseCategory.OPERATIONAL_ADMINISTRATIVE]: '#d084d0',
-  [ExpenseCategory.CONTINUOUS_LEARNING_RD]: '#ffb347'
-};
+// Fallback palette for categories without a configured colour
+const COLORS = [
+  '#8884d8',
+  '#82ca9d',
+  '#ffc658',
+  '#ff7c7c',
+  '#8dd1e1',
+  '#d084d0',
+  '#ffb347'
+];
 
 // Custom tooltip component
 const CustomTooltip = ({ active, payload, label }: any) => {
@@ -36,7 +44,7 @@ const CustomTooltip = ({ active, payload, label }: any) => {
     return (
       <div className="bg-white p-3 border border-gray-300 rounded shadow-lg">
         <p className="font-semibold text-gray-800 mb-2">{label}</p>
-        {payload.map((entry: any, index: number) => (
+        {payload.map((entry: any, index: number) => entry.value == null ? null : (
           <p key={index} style={{ color: entry.color }}>
             {entry.name}: ${entry.value.toLocaleString()}
           </p>
@@ -47,13 +55,27 @@ const CustomTooltip = ({ active, payload, label }: any) => {
   return null;
 };
 
+const monthNames = [
+  'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+  'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
+];
+
+// Data keys of the projected values
+const FORECAST_TOTAL = 'forecast:totalAmount';
+const FORECAST_LOWER = 'forecast:lower';
+const FORECAST_UPPER = 'forecast:upper';
+const forecastKey = (category: ExpenseCategory) => `forecast:${category}`;
+
+// One month of the chart; amounts are keyed by category or forecast key
+interface ChartRow {
+  monthLabel: string;
+  month: number;
+  year: number;
+  [key: string]: string | number;
+}
+
 // Transform trend data for chart display
 const transformTrendData = (data: TrendData[], selectedCategories?: ExpenseCategory[]) => {
-  const monthNames = [
-    'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
-    'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
-  ];
-
   return data.map(item => {
     const monthLabel = `${monthNames[item.month - 1]} ${item.year}`;
     const chartItem: any = {
@@ -74,6 +96,91 @@ const transformTrendData = (data: TrendData[], selectedCategories?: ExpenseCateg
   });
 };
 
+// Add the forecast months after the actual ones. The last actual month also gets
+// the forecast keys, so the dashed lines start where the solid ones end.
+const addForecast = (chartData: ChartRow[], forecast: ForecastData, categories: ExpenseCategory[]): ChartRow[] => {
+  const rows = new Map<string, ChartRow>(chartData.map(item => [`${item.year}-${item.month}`, item]));
+  const first = forecast.total.forecast[0];
+  if (!first) {
+    return chartData;
+  }
+
+  const anchor = chartData
+    .filter(item => item.year * 12 + item.month < first.year * 12 + first.month)
+    .sort((a, b) => a.year * 12 + a.month - (b.year * 12 + b.month))
+    .pop();
+  if (anchor) {
+    anchor[FORECAST_TOTAL] = anchor.totalAmount;
+    anchor[FORECAST_LOWER] = anchor.totalAmount;
+    anchor[FORECAST_UPPER] = anchor.totalAmount;
+    categories.forEach(category => {
+      anchor[forecastKey(category)] = anchor[category] ?? 0;
+    });
+  }
+
+  const row = (month: number, year: number): ChartRow => {
+    const key = `${year}-${month}`;
+    if (!rows.has(key)) {
+      rows.set(key, { monthLabel: `${monthNames[month - 1]} ${year}`, month, year });
+    }
+    return rows.get(key)!;
+  };
+
+  forecast.total.forecast.forEach(point => {
+    const item = row(point.month, point.year);
+    item[FORECAST_TOTAL] = point.amount;
+    item[FORECAST_LOWER] = point.lower;
+    item[FORECAST_UPPER] = point.upper;
+  });
+  forecast.categories
+    .filter(series => series.category !== null && categories.includes(series.category))
+    .forEach(series => {
+      series.forecast.forEach(point => {
+        row(point.month, point.year)[forecastKey(series.category!)] = point.amount;
+      });
+    });
+
+  return Array.from(rows.values()).sort((a, b) => a.year - b.year || a.month - b.month);
+};
+
+// What Recharts passes to a custom dot
+interface DotRenderProps {
+  cx?: number;
+  cy?: number;
+  index?: number;
+  payload?: ChartRow;
+}
+
+const ANOMALY_COLOR = '#dc2626';
+
+// Sub-category spend is charted under its parent, so that is where its anomalies go
+const anomalyKey = (category: ExpenseCategory, month: number, year: number) => `${category}|${year}-${month}`;
+
+// Dots of a category line; months with an anomaly get a larger red dot
+const categoryDot = (category: ExpenseCategory, color: string, marked: Set<string>) => {
+  const CategoryDot = ({ cx, cy, index, payload }: DotRenderProps) => {
+    if (cx == null || cy == null || !payload) {
+      return <g key={`${category}-${index}`} />;
+    }
+
+    const anomalous = marked.has(anomalyKey(category, payload.month, payload.year));
+    return (
+      <circle
+        key={`${category}-${index}`}
+        cx={cx}
+        cy={cy}
+        r={anomalous ? 6 : 3}
+        fill={anomalous ? ANOMALY_COLOR : color}
+        stroke={anomalous ? '#fff' : color}
+        strokeWidth={anomalous ? 2 : 1}
+      >
+        {anomalous && <title>Unusual {category} spend</title>}
+      </circle>
+    );
+  };
+  return CategoryDot;
+};
+
 // Get all unique categories from the data
 const getAllCategories = (data: TrendData[]): ExpenseCategory[] => {
   const categories = new Set<ExpenseCategory>();
@@ -90,7 +197,10 @@ const LineChartComponent: React.FC<LineChartProps> = ({
   title, 
   height = 400,
   loading = false,
-  selectedCategories
+  selectedCategories,
+  categoryColors = {},
+  forecast,
+  anomalies = []
 }) => {
   if (loading) {
     return (
@@ -112,8 +222,12 @@ const LineChartComponent: React.FC<LineChartProps> = ({
     );
   }
 
-  const chartData = transformTrendData(data, selectedCategories);
   const categories = selectedCategories || getAllCategories(data);
+  const trendRows = transformTrendData(data, selectedCategories);
+  const chartData = forecast ? addForecast(trendRows, forecast, categories) : trendRows;
+  const marked = new Set(anomalies.map(anomaly =>
+    anomalyKey(anomaly.parentCategory ?? anomaly.category, anomaly.month, anomaly.year)
+  ));
 
   return (
     <div className="w-full">
@@ -159,21 +273,82 @@ const LineChartComponent: React.FC<LineChartProps> = ({
           />
           
           {/* Category lines */}
-          {categories.map((category) => (
+          {categories.map((category, index) => {
+            const color = categoryColors[category] ?? COLORS[index % COLORS.length];
+            return (
+              <Line
+                key={category}
+                type="monotone"
+                dataKey={category}
+                stroke={color}
+                strokeWidth={2}
+                dot={categoryDot(category, color, marked)}
+                activeDot={{ r: 5, stroke: color, strokeWidth: 1 }}
+                name={category}
+                connectNulls={false}
+              />
+            );
+          })}
+
+          {/* Forecast lines, dashed; category forecasts share their category's legend entry */}
+          {forecast && (
+            <Line
+              type="monotone"
+              dataKey={FORECAST_TOTAL}
+              stroke="#2563eb"
+              strokeWidth={3}
+              strokeDasharray="6 4"
+              dot={false}
+              name="Total Forecast"
+            />
+          )}
+          {forecast && (
             <Line
-              key={category}
               type="monotone"
-              dataKey={category}
-              stroke={CATEGORY_COLORS[category]}
-              strokeWidth={2}
-              dot={{ fill: CATEGORY_COLORS[category], strokeWidth: 1, r: 3 }}
-              activeDot={{ r: 5, stroke: CATEGORY_COLORS[category], strokeWidth: 1 }}
-              name={category}
-              connectNulls={false}
+              dataKey={FORECAST_UPPER}
+              stroke="#93c5fd"
+              strokeWidth={1}
+              strokeDasharray="2 4"
+              dot={false}
+              name={`${Math.round(forecast.confidenceLevel * 100)}% Interval`}
             />
-          ))}
+          )}
+          {forecast && (
+            <Line
+              type="monotone"
+              dataKey={FORECAST_LOWER}
+              stroke="#93c5fd"
+              strokeWidth={1}
+              strokeDasharray="2 4"
+              dot={false}
+              name={`${Math.round(forecast.confidenceLevel * 100)}% Interval (low)`}
+              legendType="none"
+            />
+          )}
+          {forecast && categories.map((category, index) => {
+            const color = categoryColors[category] ?? COLORS[index % COLORS.length];
+            return (
+              <Line
+                key={forecastKey(category)}
+                type="monotone"
+                dataKey={forecastKey(category)}
+                stroke={color}
+                strokeWidth={2}
+                strokeDasharray="6 4"
+                dot={false}
+                name={`${category} (forecast)`}
+                legendType="none"
+              />
+            );
+          })}
         </RechartsLineChart>
       </ResponsiveContainer>
+      {marked.size > 0 && (
+        <p className="mt-2 text-xs text-gray-500 text-center">
+          <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: ANOMALY_COLOR }} />
+          Months in which a category's spend is far outside its history
+        </p>
+      )}
     </div>
   );
 };
@@ -186,6 +361,8 @@ export const LineChart = React.memo(LineChartComponent, (prevProps, nextProps) =
     prevProps.title === nextProps.title &&
     prevProps.height === nextProps.height &&
     JSON.stringify(prevProps.data) === JSON.stringify(nextProps.data) &&
-    JSON.stringify(prevProps.selectedCategories) === JSON.stringify(nextProps.selectedCategories)
+    JSON.stringify(prevProps.selectedCategories) === JSON.stringify(nextProps.selectedCategories) &&
+    prevProps.forecast === nextProps.forecast &&
+    prevProps.anomalies === nextProps.anomalies
   );
 });
\ No newline at end of file
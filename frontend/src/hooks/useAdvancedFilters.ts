@@ -1,6 +1,10 @@
 import { useState, useCallback, useMemo } from 'react';
 import { ExpenseService } from '../services/expenseService';
+import { useCategoriesQuery } from './useCategories';
+import { useTagsQuery } from './useTags';
 import type { ExpenseData, ExpenseQuery, ExpenseCategory } from '../types/expense';
+import type { Category } from '../types/category';
+import type { Tag } from '../types/tag';
 import { FilterCriteria } from '../components/AdvancedFilters';
 
 const CURRENT_YEAR = new Date().getFullYear();
@@ -8,6 +12,8 @@ const CURRENT_YEAR = new Date().getFullYear();
 // Default filter criteria
 const DEFAULT_FILTERS: FilterCriteria = {
   categories: [],
+  tags: [],
+  search: '',
   dateRange: {
     startMonth: 1,
     startYear: CURRENT_YEAR - 2,
@@ -22,85 +28,67 @@ const DEFAULT_FILTERS: FilterCriteria = {
   sortOrder: 'desc'
 };
 
-export const useAdvancedFilters = () => {
-  const [filters, setFilters] = useState<FilterCriteria>(DEFAULT_FILTERS);
-  const [filteredExpenses, setFilteredExpenses] = useState<ExpenseData[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+// Convert filters to query parameters of the expense list. Filters are kept by
+// category and tag name, so a name matches every category that has it; the
+// default amount range is left out so expenses above it aren't dropped.
+export const filtersToQuery = (filterCriteria: FilterCriteria, categories: Category[], tags: Tag[] = []): ExpenseQuery => {
+  const { dateRange, amountRange } = filterCriteria;
+  const query: ExpenseQuery = {
+    startYear: dateRange.startYear,
+    startMonth: dateRange.startMonth,
+    endYear: dateRange.endYear,
+    endMonth: dateRange.endMonth,
+    sortBy: filterCriteria.sortBy,
+    sortOrder: filterCriteria.sortOrder,
+  };
 
-  // Convert filters to API query parameters
-  const filtersToQuery = useCallback((filterCriteria: FilterCriteria): ExpenseQuery => {
-    const query: ExpenseQuery = {};
+  if (filterCriteria.categories.length > 0) {
+    query.categoryIds = categories
+      .filter(category => filterCriteria.categories.includes(category.name))
+      .map(category => category.id);
+  }
 
-    // Note: For date range filtering, we'll need to fetch all data and filter client-side
-    // since the API doesn't support date range queries directly
-    
-    return query;
-  }, []);
+  if (filterCriteria.tags.length > 0) {
+    query.tagIds = tags
+      .filter(tag => filterCriteria.tags.includes(tag.name))
+      .map(tag => tag.id);
+  }
 
-  // Apply client-side filtering to expenses
-  const applyClientSideFilters = useCallback((expenses: ExpenseData[], filterCriteria: FilterCriteria): ExpenseData[] => {
-    let filtered = [...expenses];
+  if (filterCriteria.search.trim()) {
+    query.q = filterCriteria.search.trim();
+  }
 
-    // Filter by categories
-    if (filterCriteria.categories.length > 0) {
-      filtered = filtered.filter(expense => 
-        filterCriteria.categories.includes(expense.category)
-      );
-    }
+  if (amountRange.min > DEFAULT_FILTERS.amountRange.min) {
+    query.minAmount = amountRange.min;
+  }
 
-    // Filter by date range
-    filtered = filtered.filter(expense => {
-      const expenseDate = new Date(expense.year, expense.month - 1);
-      const startDate = new Date(filterCriteria.dateRange.startYear, filterCriteria.dateRange.startMonth - 1);
-      const endDate = new Date(filterCriteria.dateRange.endYear, filterCriteria.dateRange.endMonth);
-      
-      return expenseDate >= startDate && expenseDate <= endDate;
-    });
+  if (amountRange.max < DEFAULT_FILTERS.amountRange.max) {
+    query.maxAmount = amountRange.max;
+  }
 
-    // Filter by amount range
-    filtered = filtered.filter(expense => 
-      expense.amount >= filterCriteria.amountRange.min && 
-      expense.amount <= filterCriteria.amountRange.max
-    );
+  return query;
+};
 
-    // Sort results
-    filtered.sort((a, b) => {
-      let comparison = 0;
-      
-      switch (filterCriteria.sortBy) {
-        case 'date':
-          const dateA = new Date(a.year, a.month - 1);
-          const dateB = new Date(b.year, b.month - 1);
-          comparison = dateA.getTime() - dateB.getTime();
-          break;
-        case 'amount':
-          comparison = a.amount - b.amount;
-          break;
-        case 'category':
-          comparison = a.category.localeCompare(b.category);
-          break;
-      }
-      
-      return filterCriteria.sortOrder === 'desc' ? -comparison : comparison;
-    });
+export const useAdvancedFilters = () => {
+  const [filters, setFilters] = useState<FilterCriteria>(DEFAULT_FILTERS);
+  const [filteredExpenses, setFilteredExpenses] = useState<ExpenseData[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-    return filtered;
-  }, []);
+  // Archived categories stay filterable because older expenses still use them
+  const { data: categories } = useCategoriesQuery({ includeArchived: true });
+  const { data: tags } = useTagsQuery();
 
-  // Fetch and filter expenses
-  const fetchFilteredExpenses = useCallback(async (filterCriteria: FilterCriteria) => {
+  // Filters as query parameters of the expense list
+  const query = useMemo(() => filtersToQuery(filters, categories ?? [], tags ?? []), [filters, categories, tags]);
+
+  // Fetch the expenses matching the filters, filtered and sorted by the server
+  const fetchFilteredExpenses = useCallback(async (expenseQuery: ExpenseQuery) => {
     setLoading(true);
     setError(null);
     
     try {
-      // Fetch all expenses (we could optimize this by adding date range support to the API)
-      const allExpenses = await ExpenseService.getExpenses();
-      
-      // Apply client-side filtering
-      const filtered = applyClientSideFilters(allExpenses, filterCriteria);
-      
-      setFilteredExpenses(filtered);
+      setFilteredExpenses(await ExpenseService.getAllExpenses(expenseQuery));
     } catch (err: any) {
       const errorMessage = err?.message || 'Failed to fetch filtered expenses';
       setError(errorMessage);
@@ -108,7 +96,7 @@ export const useAdvancedFilters = () => {
     } finally {
       setLoading(false);
     }
-  }, [applyClientSideFilters]);
+  }, []);
 
   // Update filters
   const updateFilters = useCallback((newFilters: FilterCriteria) => {
@@ -117,8 +105,8 @@ export const useAdvancedFilters = () => {
 
   // Apply current filters
   const applyFilters = useCallback(() => {
-    fetchFilteredExpenses(filters);
-  }, [filters, fetchFilteredExpenses]);
+    fetchFilteredExpenses(query);
+  }, [query, fetchFilteredExpenses]);
 
   // Reset filters to default
   const resetFilters = useCallback(() => {
@@ -134,6 +122,14 @@ export const useAdvancedFilters = () => {
     if (filterCriteria.categories.length > 0) {
       summary.push(`${filterCriteria.categories.length} categories selected`);
     }
+
+    if (filterCriteria.tags.length > 0) {
+      summary.push(`${filterCriteria.tags.length} tags selected`);
+    }
+
+    if (filterCriteria.search.trim()) {
+      summary.push(`Search: ${filterCriteria.search.trim()}`);
+    }
     
     const isDefaultDateRange = 
       filterCriteria.dateRange.startYear === CURRENT_YEAR - 2 &&
@@ -156,6 +152,8 @@ export const useAdvancedFilters = () => {
   const hasActiveFilters = useMemo(() => {
     return (
       filters.categories.length > 0 ||
+      filters.tags.length > 0 ||
+      filters.search.trim() !== '' ||
       filters.dateRange.startYear !== DEFAULT_FILTERS.dateRange.startYear ||
       filters.dateRange.startMonth !== DEFAULT_FILTERS.dateRange.startMonth ||
       filters.dateRange.endYear !== DEFAULT_FILTERS.dateRange.endYear ||
@@ -177,7 +175,7 @@ export const useAdvancedFilters = () => {
   }, [filteredExpenses]);
 
   // Get date range from filtered results
-  const getDateRange = useCallback() => {
+  const getDateRange = useCallback(() => {
     if (filteredExpenses.length === 0) {
       return { startDate: null, endDate: null };
     }
@@ -191,6 +189,7 @@ export const useAdvancedFilters = () => {
 
   return {
     filters,
+    query,
     filteredExpenses,
     loading,
     error,
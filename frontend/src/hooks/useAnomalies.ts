@@ -0,0 +1,32 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AnomalyService } from '../services/anomalyService';
+import { expenseKeys } from './useOptimizedExpenses';
+import type { AnomalyQuery, AnomalyStatus } from '../types/anomaly';
+
+// Query keys for anomaly cache management
+export const anomalyKeys = {
+  all: ['anomalies'] as const,
+  list: (query: AnomalyQuery) => [...anomalyKeys.all, 'list', query] as const,
+};
+
+// The current organization's anomalies
+export const useAnomaliesQuery = (query: AnomalyQuery = {}) => {
+  return useQuery({
+    queryKey: anomalyKeys.list(query),
+    queryFn: () => AnomalyService.getAnomalies(query),
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Expenses carry their anomaly's status, so both are refreshed after a review
+export const useReviewAnomalyMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, status }: { id: number; status: AnomalyStatus }) =>
+      AnomalyService.reviewAnomaly(id, status),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: anomalyKeys.all });
+      queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+    },
+  });
+};
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ApprovalService } from '../services/approvalService';
+import { expenseKeys } from './useOptimizedExpenses';
+import type { ApprovalQueueQuery, ReviewDecision } from '../types/approval';
+
+// Query keys for approvals queue cache management
+export const approvalKeys = {
+  all: ['approvals'] as const,
+  queue: (query: ApprovalQueueQuery) => [...approvalKeys.all, 'queue', query] as const,
+};
+
+// The current organization's expenses waiting for approval
+export const useApprovalQueueQuery = (query: ApprovalQueueQuery = {}) => {
+  return useQuery({
+    queryKey: approvalKeys.queue(query),
+    queryFn: () => ApprovalService.getQueue(query),
+    refetchOnWindowFocus: false,
+  });
+};
+
+// A review changes whether the expense counts towards trends, so both are refreshed
+export const useReviewExpenseMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, decision, comment }: { id: number; decision: ReviewDecision; comment?: string }) =>
+      ApprovalService.reviewExpense(id, decision, comment),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: approvalKeys.all });
+      queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+    },
+  });
+};
+
+export const useSubmitExpenseMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => ApprovalService.submitExpense(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: approvalKeys.all });
+      queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+    },
+  });
+};
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AttachmentService } from '../services/attachmentService';
+import { expenseKeys } from './useOptimizedExpenses';
+
+// Query keys for attachment cache management
+export const attachmentKeys = {
+  all: ['attachments'] as const,
+  list: (expenseId: number) => [...attachmentKeys.all, 'list', expenseId] as const,
+  file: (expenseId: number, id: number) => [...attachmentKeys.all, 'file', expenseId, id] as const,
+};
+
+// The receipts and invoices of an expense
+export const useAttachmentsQuery = (expenseId: number) => {
+  return useQuery({
+    queryKey: attachmentKeys.list(expenseId),
+    queryFn: () => AttachmentService.getAttachments(expenseId),
+    refetchOnWindowFocus: false,
+  });
+};
+
+// An attachment's file; files never change, so they are fetched once
+export const useAttachmentFileQuery = (expenseId: number, id: number, enabled = true) => {
+  return useQuery({
+    queryKey: attachmentKeys.file(expenseId, id),
+    queryFn: () => AttachmentService.getFile(expenseId, id),
+    enabled,
+    staleTime: Infinity,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Expense listings show how many files each expense has, so they are refreshed too
+export const useUploadAttachmentMutation = (expenseId: number) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (file: File) => AttachmentService.uploadAttachment(expenseId, file),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: attachmentKeys.list(expenseId) });
+      queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+    },
+  });
+};
+
+export const useDeleteAttachmentMutation = (expenseId: number) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => AttachmentService.deleteAttachment(expenseId, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: attachmentKeys.list(expenseId) });
+      queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+    },
+  });
+};
\ No newline at end of file
@@ -0,0 +1,54 @@
+import { useCallback } from 'react';
+import { AuthService } from '../services/authService';
+import type { LoginCredentials, Permission } from '../types/auth';
+import { useAppDispatch, useAppSelector } from './redux';
+import { setUser, clearUser } from '../store/authSlice';
+
+// Session state and actions for the signed-in user
+export const useAuth = () => {
+  const dispatch = useAppDispatch();
+  const { user, status } = useAppSelector((state) => state.auth);
+
+  // Restore the session from stored tokens on startup
+  const loadSession = useCallback(async () => {
+    if (!AuthService.hasSession()) {
+      dispatch(clearUser());
+      return;
+    }
+    try {
+      dispatch(setUser(await AuthService.getCurrentUser()));
+    } catch {
+      dispatch(clearUser());
+    }
+  }, [dispatch]);
+
+  const login = useCallback(async (credentials: LoginCredentials) => {
+    const authUser = await AuthService.login(credentials);
+    dispatch(setUser(authUser));
+    return authUser;
+  }, [dispatch]);
+
+  const logout = useCallback(async () => {
+    try {
+      await AuthService.logout();
+    } finally {
+      dispatch(clearUser());
+    }
+  }, [dispatch]);
+
+  // Whether the signed-in user's role grants a permission
+  const can = useCallback(
+    (permission: Permission) => user?.permissions.includes(permission) ?? false,
+    [user]
+  );
+
+  return {
+    user,
+    status,
+    isAuthenticated: status === 'authenticated',
+    can,
+    loadSession,
+    login,
+    logout
+  };
+};
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { BudgetService } from '../services/budgetService';
+import type { VarianceQuery } from '../types/budget';
+
+// Query keys for budget cache management
+export const budgetKeys = {
+  all: ['budgets'] as const,
+  variances: () => [...budgetKeys.all, 'variance'] as const,
+  variance: (query: VarianceQuery) => [...budgetKeys.variances(), query] as const,
+};
+
+// Budget vs actual per category for the dashboard
+export const useBudgetVarianceQuery = (query: VarianceQuery) => {
+  return useQuery({
+    queryKey: budgetKeys.variance(query),
+    queryFn: () => BudgetService.getVariance(query),
+    refetchOnWindowFocus: false,
+  });
+};
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { CategoryService } from '../services/categoryService';
+import type { CategoryQuery } from '../types/category';
+
+// Query keys for category cache management
+export const categoryKeys = {
+  all: ['categories'] as const,
+  list: (query: CategoryQuery) => [...categoryKeys.all, query] as const,
+};
+
+// The current organization's categories in display order
+export const useCategoriesQuery = (query: CategoryQuery = {}) => {
+  return useQuery({
+    queryKey: categoryKeys.list(query),
+    queryFn: () => CategoryService.getCategories(query),
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+};
\ No newline at end of file
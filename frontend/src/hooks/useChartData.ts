@@ -1,6 +1,39 @@
 import { useState, useCallback, useEffect } from 'react';
 import { ExpenseService } from '../services/expenseService';
-import type { ExpenseData, TrendData, CategoryAmount, ExpenseQuery } from '../types/expense';
+import type { ExpenseData, TrendData, CategoryAmount, ExpenseQuery, TrendsQuery } from '../types/expense';
+import { ExpenseStatus } from '../types/expense';
+import { reportingAmount } from '../utils/currency';
+
+// Total expenses per top-level category in the reporting currency, with sub-category
+// totals listed under their parent
+const toCategoryAmounts = (expenses: ExpenseData[]): CategoryAmount[] => {
+  const categoryMap = new Map<number, CategoryAmount>();
+
+  expenses.forEach(expense => {
+    const amount = reportingAmount(expense);
+    const parentId = expense.parentCategoryId ?? expense.categoryId;
+    const total = categoryMap.get(parentId) ?? {
+      categoryId: parentId,
+      category: expense.parentCategory ?? expense.category,
+      amount: 0
+    };
+    total.amount += amount;
+
+    if (expense.parentCategoryId !== null) {
+      total.subcategories ??= [];
+      const subcategory = total.subcategories.find(item => item.categoryId === expense.categoryId);
+      if (subcategory) {
+        subcategory.amount += amount;
+      } else {
+        total.subcategories.push({ categoryId: expense.categoryId, category: expense.category, amount });
+      }
+    }
+
+    categoryMap.set(parentId, total);
+  });
+
+  return Array.from(categoryMap.values());
+};
 
 export const useChartData = () => {
   const [categoryData, setCategoryData] = useState<CategoryAmount[]>([]);
@@ -15,21 +48,7 @@ export const useChartData = () => {
     try {
       const expenses = await ExpenseService.getExpenses(query);
       
-      // Transform expenses into category amounts
-      const categoryMap = new Map<string, number>();
-      expenses.forEach(expense => {
-        const current = categoryMap.get(expense.category) || 0;
-        categoryMap.set(expense.category, current + expense.amount);
-      });
-
-      const categoryAmounts: CategoryAmount[] = Array.from(categoryMap.entries()).map(
-        ([category, amount]) => ({
-          category: category as any,
-          amount
-        })
-      );
-
-      setCategoryData(categoryAmounts);
+      setCategoryData(toCategoryAmounts(expenses));
     } catch (err: any) {
       const errorMessage = err?.message || 'Failed to fetch category data';
       setError(errorMessage);
@@ -53,31 +72,19 @@ export const useChartData = () => {
     }
   }, []);
 
-  // Fetch both category and trend data
-  const fetchAllChartData = useCallback(async (query?: ExpenseQuery) => {
+  // Fetch both category and trend data. Like trends, the category breakdown only
+  // counts approved expenses unless unapproved ones are asked for.
+  const fetchAllChartData = useCallback(async (query: TrendsQuery = {}) => {
     setLoading(true);
     setError(null);
     try {
+      const { includeUnapproved, ...expenseQuery } = query;
       const [expenses, trends] = await Promise.all([
-        ExpenseService.getExpenses(query),
+        ExpenseService.getExpenses(includeUnapproved ? expenseQuery : { ...expenseQuery, status: ExpenseStatus.APPROVED }),
         ExpenseService.getTrends(query)
       ]);
 
-      // Transform expenses into category amounts
-      const categoryMap = new Map<string, number>();
-      expenses.forEach(expense => {
-        const current = categoryMap.get(expense.category) || 0;
-        categoryMap.set(expense.category, current + expense.amount);
-      });
-
-      const categoryAmounts: CategoryAmount[] = Array.from(categoryMap.entries()).map(
-        ([category, amount]) => ({
-          category: category as any,
-          amount
-        })
-      );
-
-      setCategoryData(categoryAmounts);
+      setCategoryData(toCategoryAmounts(expenses));
       setTrendData(trends);
     } catch (err: any) {
       const errorMessage = err?.message || 'Failed to fetch chart data';
@@ -0,0 +1,91 @@
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { CommentService } from '../services/commentService';
+import { expenseKeys } from './useOptimizedExpenses';
+import type { CommentInput } from '../types/comment';
+
+// Comments are loaded this many at a time, oldest first
+const COMMENT_PAGE_SIZE = 50;
+
+// Query keys for comment cache management
+export const commentKeys = {
+  all: ['comments'] as const,
+  thread: (expenseId: number) => [...commentKeys.all, 'thread', expenseId] as const,
+  unread: () => [...commentKeys.all, 'unread'] as const,
+  members: () => [...commentKeys.all, 'members'] as const,
+};
+
+// The thread of an expense, loading newer comments a page at a time
+export const useCommentsQuery = (expenseId: number) => {
+  return useInfiniteQuery({
+    queryKey: commentKeys.thread(expenseId),
+    queryFn: ({ pageParam }) => CommentService.getComments(expenseId, { limit: COMMENT_PAGE_SIZE, offset: pageParam }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage) =>
+      lastPage.pagination.hasMore ? (lastPage.pagination.offset ?? 0) + lastPage.data.length : undefined,
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Unread comments per expense, refreshed now and then so new replies show up
+export const useUnreadCommentsQuery = () => {
+  return useQuery({
+    queryKey: commentKeys.unread(),
+    queryFn: () => CommentService.getUnread(),
+    refetchInterval: 60 * 1000, // 1 minute
+    refetchOnWindowFocus: true,
+  });
+};
+
+// Members who can be @mentioned; membership rarely changes
+export const useCommentMembersQuery = () => {
+  return useQuery({
+    queryKey: commentKeys.members(),
+    queryFn: () => CommentService.getMembers(),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Expense listings show how many comments each expense has, so they are refreshed too
+export const useAddCommentMutation = (expenseId: number) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (comment: CommentInput) => CommentService.addComment(expenseId, comment),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.thread(expenseId) });
+      queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+    },
+  });
+};
+
+export const useUpdateCommentMutation = (expenseId: number) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, comment }: { id: number; comment: CommentInput }) =>
+      CommentService.updateComment(expenseId, id, comment),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.thread(expenseId) });
+    },
+  });
+};
+
+export const useDeleteCommentMutation = (expenseId: number) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) => CommentService.deleteComment(expenseId, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.thread(expenseId) });
+      queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+    },
+  });
+};
+
+export const useMarkCommentsReadMutation = (expenseId: number) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => CommentService.markRead(expenseId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentKeys.unread() });
+    },
+  });
+};
\ No newline at end of file
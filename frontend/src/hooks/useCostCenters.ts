@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { CostCenterService } from '../services/costCenterService';
+import type { CostCenterQuery } from '../types/costCenter';
+
+// Query keys for cost center cache management
+export const costCenterKeys = {
+  all: ['costCenters'] as const,
+  list: (query: CostCenterQuery) => [...costCenterKeys.all, query] as const,
+};
+
+// The current organization's cost centers by name
+export const useCostCentersQuery = (query: CostCenterQuery = {}) => {
+  return useQuery({
+    queryKey: costCenterKeys.list(query),
+    queryFn: () => CostCenterService.getCostCenters(query),
+    staleTime: 5 * 60 * 1000,
+    refetchOnWindowFocus: false,
+  });
+};
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { useState, useCallback } from 'react';
 import { ExpenseService } from '../services/expenseService';
-import type { ExpenseData, ExpenseFormData, ExpenseQuery } from '../types/expense';
+import type { BatchRequest, ExpenseData, ExpenseFormData, ExpenseQuery } from '../types/expense';
 import { useAppDispatch } from './redux';
 import { setError, clearError } from '../store/expenseSlice';
 
@@ -46,6 +46,12 @@ export const useExpenses = () => {
     dispatch(clearError());
   }, [dispatch]);
 
+  const batchExpenses = useCallback(async (request: BatchRequest) => {
+    const result = await ExpenseService.batchExpenses(request);
+    dispatch(clearError());
+    return result;
+  }, [dispatch]);
+
   return {
     expenses,
     loading,
@@ -53,6 +59,7 @@ export const useExpenses = () => {
     fetchExpenses,
     createExpense,
     updateExpense,
-    deleteExpense
+    deleteExpense,
+    batchExpenses
   };
 };
\ No newline at end of file
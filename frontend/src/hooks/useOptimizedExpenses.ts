@@ -1,18 +1,26 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { ExpenseService } from '../services/expenseService';
 import type { ExpenseData, ExpenseFormData, ExpenseQuery, TrendData } from '../types/expense';
+import type { ForecastQuery } from '../types/forecast';
 import { useAppDispatch } from './redux';
 import { setError, clearError } from '../store/expenseSlice';
 
+// Trashed expenses shown at once; older ones can still be restored through the API
+const TRASH_PAGE_SIZE = 100;
+
 // Query keys for better cache management
 export const expenseKeys = {
   all: ['expenses'] as const,
   lists: () => [...expenseKeys.all, 'list'] as const,
   list: (filters: ExpenseQuery) => [...expenseKeys.lists(), filters] as const,
+  infinite: (filters: ExpenseQuery) => [...expenseKeys.lists(), 'infinite', filters] as const,
   details: () => [...expenseKeys.all, 'detail'] as const,
   detail: (id: number) => [...expenseKeys.details(), id] as const,
   trends: () => [...expenseKeys.all, 'trends'] as const,
   trend: (filters: ExpenseQuery) => [...expenseKeys.trends(), filters] as const,
+  forecasts: () => [...expenseKeys.all, 'forecast'] as const,
+  forecast: (query: ForecastQuery) => [...expenseKeys.forecasts(), query] as const,
+  trash: () => [...expenseKeys.all, 'trash'] as const,
 };
 
 // Optimized hook for fetching expenses with caching
@@ -38,6 +46,19 @@ export const useExpensesQuery = (query?: ExpenseQuery) => {
   });
 };
 
+// Expenses newest first, a page at a time by cursor, for lists that load more
+// as they scroll
+export const useInfiniteExpensesQuery = (query: Omit<ExpenseQuery, 'offset' | 'cursor' | 'sortBy'> = {}) => {
+  return useInfiniteQuery({
+    queryKey: expenseKeys.infinite(query),
+    queryFn: ({ pageParam }) => ExpenseService.getExpensePage({ ...query, cursor: pageParam }),
+    initialPageParam: '',
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+};
+
 // Optimized hook for fetching trend data
 export const useTrendsQuery = (query?: ExpenseQuery) => {
   const dispatch = useAppDispatch();
@@ -61,6 +82,18 @@ export const useTrendsQuery = (query?: ExpenseQuery) => {
   });
 };
 
+// Projected spend for the coming months. Errors such as too little history are
+// shown next to the forecast rather than as a page error.
+export const useForecastQuery = (query: ForecastQuery) => {
+  return useQuery({
+    queryKey: expenseKeys.forecast(query),
+    queryFn: () => ExpenseService.getForecast(query),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    refetchOnWindowFocus: false,
+    retry: false,
+  });
+};
+
 // Optimized hook for fetching single expense
 export const useExpenseQuery = (id: number) => {
   const dispatch = useAppDispatch();
@@ -145,6 +178,7 @@ export const useDeleteExpenseMutation = () => {
       // Invalidate related queries
       queryClient.invalidateQueries({ queryKey: expenseKeys.lists() });
       queryClient.invalidateQueries({ queryKey: expenseKeys.trends() });
+      queryClient.invalidateQueries({ queryKey: expenseKeys.trash() });
       
       dispatch(clearError());
     },
@@ -157,6 +191,39 @@ export const useDeleteExpenseMutation = () => {
   });
 };
 
+// The most recently trashed expenses, fetched while enabled
+export const useTrashQuery = (enabled = true) => {
+  return useQuery({
+    queryKey: expenseKeys.trash(),
+    queryFn: () => ExpenseService.getTrash({ limit: TRASH_PAGE_SIZE }),
+    enabled,
+    staleTime: 0, // Deletes happen outside this query, so refetch on every mount
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Restore trashed expenses, such as those of an undone delete
+export const useRestoreExpensesMutation = () => {
+  const queryClient = useQueryClient();
+  const dispatch = useAppDispatch();
+
+  return useMutation({
+    mutationFn: (ids: number[]) => Promise.all(ids.map(id => ExpenseService.restoreExpense(id))),
+    onSettled: () => {
+      // Some expenses may have been restored even when one failed
+      queryClient.invalidateQueries({ queryKey: expenseKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: expenseKeys.trends() });
+      queryClient.invalidateQueries({ queryKey: expenseKeys.trash() });
+    },
+    onSuccess: () => {
+      dispatch(clearError());
+    },
+    onError: (error: Error) => {
+      dispatch(setError(error.message || 'Failed to restore expenses'));
+    }
+  });
+};
+
 // Hook for prefetching data
 export const usePrefetchExpenses = () => {
   const queryClient = useQueryClient();
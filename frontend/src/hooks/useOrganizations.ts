@@ -0,0 +1,41 @@
+import { useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { OrganizationService } from '../services/organizationService';
+import { apiClient } from '../utils/api';
+import { useAppDispatch, useAppSelector } from './redux';
+import { setOrganizations, selectOrganization } from '../store/organizationSlice';
+
+// Organizations of the signed-in user and the one requests are currently scoped to
+export const useOrganizations = () => {
+  const dispatch = useAppDispatch();
+  const queryClient = useQueryClient();
+  const { organizations, currentOrganizationId, loaded } = useAppSelector((state) => state.organizations);
+
+  // Keep the last used organization if the user still belongs to it, otherwise use the first one
+  const loadOrganizations = useCallback(async () => {
+    const list = await OrganizationService.getOrganizations();
+    const current = list.find((organization) => organization.id === apiClient.getOrganizationId()) ?? list[0];
+    if (current) {
+      apiClient.setOrganizationId(current.id);
+    }
+    dispatch(setOrganizations({ organizations: list, currentOrganizationId: current?.id ?? null }));
+  }, [dispatch]);
+
+  // Scope all further requests to another organization and drop data cached for the previous one
+  const switchOrganization = useCallback((organizationId: number) => {
+    if (organizationId === currentOrganizationId) {
+      return;
+    }
+    apiClient.setOrganizationId(organizationId);
+    dispatch(selectOrganization(organizationId));
+    queryClient.removeQueries();
+  }, [currentOrganizationId, dispatch, queryClient]);
+
+  return {
+    organizations,
+    currentOrganization: organizations.find((organization) => organization.id === currentOrganizationId) ?? null,
+    loaded,
+    loadOrganizations,
+    switchOrganization
+  };
+};
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { PeriodLockService } from '../services/periodLockService';
+import type { Period, PeriodLockQuery } from '../types/periodLock';
+
+// Query keys for period lock cache management
+export const periodLockKeys = {
+  all: ['periodLocks'] as const,
+  list: (query: PeriodLockQuery) => [...periodLockKeys.all, 'list', query] as const,
+};
+
+// The current organization's closed months
+export const usePeriodLocksQuery = (query: PeriodLockQuery = {}) => {
+  return useQuery({
+    queryKey: periodLockKeys.list(query),
+    queryFn: () => PeriodLockService.getLocks(query),
+    refetchOnWindowFocus: false,
+  });
+};
+
+export const useClosePeriodMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (period: Period) => PeriodLockService.closePeriod(period),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: periodLockKeys.all });
+    },
+  });
+};
+
+export const useReopenPeriodMutation = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (period: Period) => PeriodLockService.reopenPeriod(period),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: periodLockKeys.all });
+    },
+  });
+};
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { RecurringTemplateService } from '../services/recurringTemplateService';
+import { expenseKeys } from './useOptimizedExpenses';
+import type { RecurringTemplateFormData, RecurringTemplateUpdateData } from '../types/recurringTemplate';
+
+// Query keys for recurring template cache management
+export const recurringTemplateKeys = {
+  all: ['recurringTemplates'] as const,
+  list: () => [...recurringTemplateKeys.all, 'list'] as const,
+};
+
+// The current organization's recurring templates
+export const useRecurringTemplatesQuery = () => {
+  return useQuery({
+    queryKey: recurringTemplateKeys.list(),
+    queryFn: () => RecurringTemplateService.getTemplates(),
+    refetchOnWindowFocus: false,
+  });
+};
+
+// Saving a template can create expenses for periods that have already opened
+const useInvalidateTemplates = () => {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: recurringTemplateKeys.all });
+    queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+  };
+};
+
+export const useCreateRecurringTemplateMutation = () => {
+  const onSuccess = useInvalidateTemplates();
+  return useMutation({
+    mutationFn: (data: RecurringTemplateFormData) => RecurringTemplateService.createTemplate(data),
+    onSuccess,
+  });
+};
+
+export const useUpdateRecurringTemplateMutation = () => {
+  const onSuccess = useInvalidateTemplates();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: RecurringTemplateUpdateData }) =>
+      RecurringTemplateService.updateTemplate(id, data),
+    onSuccess,
+  });
+};
+
+export const useDeleteRecurringTemplateMutation = () => {
+  const onSuccess = useInvalidateTemplates();
+  return useMutation({
+    mutationFn: (id: number) => RecurringTemplateService.deleteTemplate(id),
+    onSuccess,
+  });
+};
\ No newline at end of file
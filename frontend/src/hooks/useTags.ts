@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { TagService } from '../services/tagService';
+
+// Query keys for tag cache management
+export const tagKeys = {
+  all: ['tags'] as const,
+};
+
+// The tags of the current organization's expenses by name. Tags come and go as
+// expenses are saved, so they are fetched again whenever used.
+export const useTagsQuery = () => {
+  return useQuery({
+    queryKey: tagKeys.all,
+    queryFn: () => TagService.getTags(),
+    refetchOnWindowFocus: false,
+  });
+};
\ No newline at end of file
@@ -1,9 +1,22 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import ExpenseForm from '../components/ExpenseForm';
 import ExpenseList from '../components/ExpenseList';
+import RecurringTemplates from '../components/RecurringTemplates';
+import RecycleBin from '../components/RecycleBin';
 import { useExpenses } from '../hooks/useExpenses';
+import { useInfiniteExpensesQuery, expenseKeys } from '../hooks/useOptimizedExpenses';
+import { useReviewAnomalyMutation } from '../hooks/useAnomalies';
+import { useSubmitExpenseMutation } from '../hooks/useApprovals';
+import { useUnreadCommentsQuery } from '../hooks/useComments';
 import { useErrorHandler } from '../hooks/useErrorHandler';
-import { ExpenseFormData, ExpenseData } from '../types/expense';
+import { useAuth } from '../hooks/useAuth';
+import { useAppDispatch } from '../hooks/redux';
+import { showNotice } from '../store/expenseSlice';
+import { ExpenseFormData, ExpenseData, BatchOperationStatus } from '../types/expense';
+import type { BatchRequest } from '../types/expense';
+import { Permission } from '../types/auth';
+import type { AnomalyStatus } from '../types/anomaly';
 
 const AddData: React.FC = () => {
   const [editingExpense, setEditingExpense] = useState<ExpenseData | null>(null);
@@ -11,21 +24,46 @@ const AddData: React.FC = () => {
   const [formLoading, setFormLoading] = useState(false);
   
   const {
-    expenses,
-    loading: expensesLoading,
-    error: expensesError,
     createExpense,
     updateExpense,
     deleteExpense,
-    fetchExpenses
+    batchExpenses
   } = useExpenses();
+
+  // Newest expenses first, loading older pages as the list scrolls
+  const expenseList = useInfiniteExpensesQuery();
+  const expenses = useMemo(
+    () => expenseList.data?.pages.flatMap(page => page.expenses) ?? [],
+    [expenseList.data]
+  );
+  const { refetch, fetchNextPage, isFetching } = expenseList;
+  const fetchExpenses = useCallback(async () => {
+    await refetch();
+  }, [refetch]);
+  // A next page fetched during a refetch could be overwritten by it
+  const loadMoreExpenses = useCallback(() => {
+    if (!isFetching) {
+      fetchNextPage();
+    }
+  }, [fetchNextPage, isFetching]);
   
   const { handleError } = useErrorHandler();
+  const { can } = useAuth();
+  const canEdit = can(Permission.EXPENSES_WRITE);
+  const reviewAnomaly = useReviewAnomalyMutation();
+  const submitExpense = useSubmitExpenseMutation();
+  const { data: unreadComments } = useUnreadCommentsQuery();
+  const queryClient = useQueryClient();
+  const dispatch = useAppDispatch();
 
-  // Fetch expenses on component mount
-  useEffect(() => {
-    fetchExpenses();
-  }, [fetchExpenses]);
+  // Deleted expenses go to the trash, so the toast can offer to restore them
+  const notifyDeleted = (ids: number[]) => {
+    queryClient.invalidateQueries({ queryKey: expenseKeys.trash() });
+    dispatch(showNotice({
+      message: ids.length === 1 ? 'Expense moved to the recycle bin' : `${ids.length} expenses moved to the recycle bin`,
+      restoreIds: ids,
+    }));
+  };
 
   const handleFormSubmit = async (data: ExpenseFormData) => {
     setFormLoading(true);
@@ -61,6 +99,7 @@ const AddData: React.FC = () => {
   const handleDelete = async (id: number) => {
     try {
       await deleteExpense(id);
+      notifyDeleted([id]);
       // Refresh the expense list
       await fetchExpenses();
     } catch (error: any) {
@@ -69,6 +108,51 @@ const AddData: React.FC = () => {
     }
   };
 
+  // Atomic batches save nothing when one operation fails, so the failure is the
+  // only thing worth reporting
+  const runBatch = async (request: BatchRequest) => {
+    try {
+      const result = await batchExpenses(request);
+      const failure = result.results.find(operation => operation.status === BatchOperationStatus.FAILED);
+      if (failure) {
+        throw new Error(`Nothing was saved: ${failure.error?.message ?? 'an operation failed'}`);
+      }
+    } catch (error) {
+      handleError(error as Error);
+      throw error; // Re-throw to let ExpenseList keep the selection
+    } finally {
+      await fetchExpenses();
+    }
+  };
+
+  const handleBulkDelete = async (ids: number[]) => {
+    await runBatch({ operations: ids.map(id => ({ action: 'delete', id })) });
+    notifyDeleted(ids);
+  };
+
+  const handleBulkUpdateAmounts = (updates: { id: number; amount: number }[]) =>
+    runBatch({ operations: updates.map(({ id, amount }) => ({ action: 'update', id, data: { amount } })) });
+
+  const handleReviewAnomaly = async (id: number, status: AnomalyStatus) => {
+    try {
+      await reviewAnomaly.mutateAsync({ id, status });
+      // Refresh the expense list
+      await fetchExpenses();
+    } catch (error) {
+      handleError(error as Error);
+    }
+  };
+
+  const handleSubmitExpense = async (id: number) => {
+    try {
+      await submitExpense.mutateAsync(id);
+      // Refresh the expense list
+      await fetchExpenses();
+    } catch (error) {
+      handleError(error as Error);
+    }
+  };
+
   const handleCancelEdit = () => {
     setEditingExpense(null);
     setFormError('');
@@ -77,40 +161,63 @@ const AddData: React.FC = () => {
   return (
     <div className="space-y-6">
       {/* Form Section */}
-      <div className="bg-white shadow rounded-lg p-6">
-        <div className="flex items-center justify-between mb-6">
-          <h2 className="text-2xl font-bold text-gray-900">
-            {editingExpense ? 'Edit Expense' : 'Add Expense Data'}
-          </h2>
-          {editingExpense && (
-            <button
-              onClick={handleCancelEdit}
-              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors duration-200"
-            >
-              Cancel Edit
-            </button>
-          )}
-        </div>
+      {canEdit && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">
+              {editingExpense ? 'Edit Expense' : 'Add Expense Data'}
+            </h2>
+            {editingExpense && (
+              <button
+                onClick={handleCancelEdit}
+                className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors duration-200"
+              >
+                Cancel Edit
+              </button>
+            )}
+          </div>
         
-        <div className="max-w-md">
-          <ExpenseForm
-            onSubmit={handleFormSubmit}
-            initialData={editingExpense || undefined}
-            mode={editingExpense ? 'edit' : 'create'}
-            loading={formLoading}
-            error={formError}
-          />
+          <div className="max-w-md">
+            <ExpenseForm
+              onSubmit={handleFormSubmit}
+              initialData={editingExpense || undefined}
+              mode={editingExpense ? 'edit' : 'create'}
+              loading={formLoading}
+              error={formError}
+            />
+          </div>
         </div>
-      </div>
+      )}
+
+      {/* Recurring Expenses Section */}
+      {canEdit && (
+        <div className="bg-white shadow rounded-lg p-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-6">Recurring Expenses</h2>
+          <RecurringTemplates onExpensesChanged={fetchExpenses} />
+        </div>
+      )}
 
       {/* List Section */}
       <ExpenseList
         expenses={expenses}
-        loading={expensesLoading}
+        loading={expenseList.isLoading}
         onEdit={handleEdit}
         onDelete={handleDelete}
-        error={expensesError}
+        error={expenseList.error?.message ?? ''}
+        canModify={canEdit}
+        onReviewAnomaly={handleReviewAnomaly}
+        total={expenseList.data?.pages[0]?.total ?? 0}
+        hasMore={expenseList.hasNextPage}
+        loadingMore={expenseList.isFetchingNextPage}
+        onLoadMore={loadMoreExpenses}
+        onBulkDelete={handleBulkDelete}
+        onBulkUpdateAmounts={handleBulkUpdateAmounts}
+        onSubmitExpense={handleSubmitExpense}
+        unreadComments={unreadComments}
       />
+
+      {/* Recycle Bin Section */}
+      {canEdit && <RecycleBin />}
     </div>
   );
 };
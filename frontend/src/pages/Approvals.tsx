@@ -0,0 +1,13 @@
+import React from 'react';
+import ApprovalQueue from '../components/ApprovalQueue';
+
+const Approvals: React.FC = () => {
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">Approvals</h2>
+      <ApprovalQueue />
+    </div>
+  );
+};
+
+export default Approvals;
\ No newline at end of file
@@ -1,10 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { LazyBarChart, LazyLineChart } from '../components/charts/LazyCharts';
 import { ChartContainer } from '../components/charts';
 import { MonthYearSelector } from '../components/MonthYearSelector';
 import { useChartData } from '../hooks/useChartData';
 import { DashboardSkeleton, ProgressiveLoader } from '../components/LoadingSkeletons';
-import { usePrefetchExpenses } from '../hooks/useOptimizedExpenses';
+import { usePrefetchExpenses, useForecastQuery } from '../hooks/useOptimizedExpenses';
+import { useBudgetVarianceQuery } from '../hooks/useBudgets';
+import { useCategoriesQuery } from '../hooks/useCategories';
+import { useAnomaliesQuery } from '../hooks/useAnomalies';
+import SpendForecast from '../components/SpendForecast';
+import { ForecastMethod } from '../types/forecast';
+import { AnomalyStatus } from '../types/anomaly';
+import type { CategoryAmount, ApiError } from '../types/expense';
 
 interface DashboardProps {
   selectedMonth?: number;
@@ -24,7 +31,34 @@ const Dashboard: React.FC<DashboardProps> = ({
   );
 
   const { categoryData, trendData, loading, error, fetchAllChartData } = useChartData();
+  const [includeUnapproved, setIncludeUnapproved] = useState(false);
   const { prefetchExpenses, prefetchTrends } = usePrefetchExpenses();
+  const { data: variance } = useBudgetVarianceQuery({ year: selectedYear, month: selectedMonth });
+  const { data: categories } = useCategoriesQuery({ includeArchived: true });
+
+  const [forecastMethod, setForecastMethod] = useState<ForecastMethod>(ForecastMethod.LINEAR);
+  const [forecastMonths, setForecastMonths] = useState(6);
+  const {
+    data: forecast,
+    isLoading: forecastLoading,
+    error: forecastError
+  } = useForecastQuery({ method: forecastMethod, months: forecastMonths });
+
+  // Dismissed anomalies are no longer marked on the trend chart
+  const { data: anomalyList } = useAnomaliesQuery({ limit: 100 });
+  const anomalies = useMemo(
+    () => (anomalyList ?? []).filter(anomaly => anomaly.status !== AnomalyStatus.DISMISSED),
+    [anomalyList]
+  );
+
+  const categoryColors = Object.fromEntries(
+    (categories ?? []).map(category => [category.name, category.color])
+  );
+
+  // Only top-level categories with a budget get a budget bar
+  const budgetData: CategoryAmount[] = (variance?.categories ?? [])
+    .filter(item => item.budget > 0 && item.parentCategoryId === null)
+    .map(item => ({ categoryId: item.categoryId, category: item.category, amount: item.budget }));
 
   // Calculate summary statistics
   const totalExpenses = categoryData.reduce((sum, item) => sum + item.amount, 0);
@@ -48,9 +82,10 @@ const Dashboard: React.FC<DashboardProps> = ({
   useEffect(() => {
     fetchAllChartData({ 
       month: selectedMonth, 
-      year: selectedYear 
+      year: selectedYear,
+      includeUnapproved
     });
-  }, [selectedMonth, selectedYear, fetchAllChartData]);
+  }, [selectedMonth, selectedYear, includeUnapproved, fetchAllChartData]);
 
   // Also fetch trend data for multiple months for line chart
   useEffect(() => {
@@ -61,8 +96,9 @@ const Dashboard: React.FC<DashboardProps> = ({
     
     fetchAllChartData({
       // For trend data, we don't filter by specific month to get multiple months
+      includeUnapproved
     });
-  }, [selectedMonth, selectedYear, fetchAllChartData]);
+  }, [selectedMonth, selectedYear, includeUnapproved, fetchAllChartData]);
 
   // Prefetch next/previous month data for better UX
   useEffect(() => {
@@ -107,6 +143,16 @@ const Dashboard: React.FC<DashboardProps> = ({
               onMonthChange={setSelectedMonth}
               onYearChange={setSelectedYear}
             />
+            {/* Expenses waiting for approval are left out of the totals by default */}
+            <label className="mt-2 flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeUnapproved}
+                onChange={(e) => setIncludeUnapproved(e.target.checked)}
+                className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              Include unapproved expenses
+            </label>
           </div>
         </div>
         
@@ -154,6 +200,7 @@ const Dashboard: React.FC<DashboardProps> = ({
         >
           <LazyBarChart
             data={categoryData}
+            budgets={budgetData}
             title={`Expenses by Category - ${new Date(selectedYear, selectedMonth - 1).toLocaleDateString('en-US', { 
               month: 'long', 
               year: 'numeric' 
@@ -173,10 +220,29 @@ const Dashboard: React.FC<DashboardProps> = ({
             title="Expense Trends Over Time"
             height={350}
             loading={loading}
+            categoryColors={categoryColors}
+            forecast={forecast}
+            anomalies={anomalies}
           />
         </ChartContainer>
       </div>
 
+      {/* Forecast */}
+      <div className="bg-white shadow rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">
+          Spend Forecast
+        </h3>
+        <SpendForecast
+          forecast={forecast}
+          loading={forecastLoading}
+          error={forecastError ? (forecastError as unknown as ApiError).message || 'Failed to load the forecast' : null}
+          method={forecastMethod}
+          onMethodChange={setForecastMethod}
+          months={forecastMonths}
+          onMonthsChange={setForecastMonths}
+        />
+      </div>
+
       {/* Additional insights */}
       {categoryData.length > 0 && (
         <div className="bg-white shadow rounded-lg p-6">
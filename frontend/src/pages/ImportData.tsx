@@ -0,0 +1,13 @@
+import React from 'react';
+import ImportWizard from '../components/ImportWizard';
+
+const ImportData: React.FC = () => {
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">Import Expenses</h2>
+      <ImportWizard />
+    </div>
+  );
+};
+
+export default ImportData;
\ No newline at end of file
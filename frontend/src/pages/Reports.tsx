@@ -8,6 +8,37 @@ import { PrintableReport } from '../components/PrintableReport';
 import { useComparisonData } from '../hooks/useComparisonData';
 import { useAdvancedFilters } from '../hooks/useAdvancedFilters';
 import { ChartSkeleton, TableSkeleton, ProgressiveLoader } from '../components/LoadingSkeletons';
+import type { ExpenseExportQuery, TrendsExportQuery } from '../types/export';
+import type { ExpenseQuery } from '../types/expense';
+
+// Trends cover a continuous range, so the export runs from the earliest to the
+// latest selected month
+const comparisonExport = (months: MonthYear[]): { query: TrendsExportQuery; description: string } | null => {
+  const sorted = [...months].sort((a, b) => a.year - b.year || a.month - b.month);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  if (!first || !last) return null;
+
+  return {
+    query: {
+      type: 'trends',
+      startYear: first.year,
+      startMonth: first.month,
+      endYear: last.year,
+      endMonth: last.month,
+      groupBy: 'month',
+    },
+    description: first === last
+      ? `Export spend per category for ${first.label}`
+      : `Export monthly spend per category from ${first.label} to ${last.label}`,
+  };
+};
+
+// The expense export runs with the same filters and order as the filtered list
+const filteredExport = (query: ExpenseQuery): { query: ExpenseExportQuery; description: string } => ({
+  query: { type: 'expenses', ...query },
+  description: 'Export the expenses matching the filters',
+});
 
 const Reports: React.FC = () => {
   const [selectedMonths, setSelectedMonths] = useState<MonthYear[]>([]);
@@ -24,6 +55,7 @@ const Reports: React.FC = () => {
 
   const {
     filters,
+    query: filterQuery,
     filteredExpenses,
     loading: filterLoading,
     error: filterError,
@@ -43,6 +75,8 @@ const Reports: React.FC = () => {
   // Calculate summary statistics
   const summaryStats = calculateSummaryStats(comparisonData, selectedMonths);
   const trendIndicators = getTrendIndicators(comparisonData, selectedMonths);
+  const comparisonDownload = comparisonExport(selectedMonths);
+  const filteredDownload = filteredExport(filterQuery);
 
   const handleMonthSelectionChange = (months: MonthYear[]) => {
     setSelectedMonths(months);
@@ -291,19 +325,16 @@ const Reports: React.FC = () => {
       {/* Data Export */}
       {activeTab === 'comparison' && (
         <DataExport
-          trendData={comparisonData}
-          selectedMonths={selectedMonths}
-          filename="expense-comparison"
+          query={comparisonDownload?.query ?? null}
+          description={comparisonDownload?.description ?? ''}
         />
       )}
 
       {/* Advanced Filtering Export */}
       {activeTab === 'advanced' && filteredExpenses.length > 0 && (
         <DataExport
-          trendData={[]}
-          expenseData={filteredExpenses}
-          selectedMonths={[]}
-          filename="filtered-expenses"
+          query={filteredDownload.query}
+          description={filteredDownload.description}
         />
       )}
 
@@ -0,0 +1,19 @@
+import { apiClient } from '../utils/api';
+import type { ApiResponse } from '../utils/api';
+import type { Anomaly, AnomalyQuery, AnomalyStatus } from '../types/anomaly';
+
+export class AnomalyService {
+  // Get the organization's anomalies, newest month first
+  static async getAnomalies(query?: AnomalyQuery): Promise<Anomaly[]> {
+    const response = await apiClient.get<ApiResponse<Anomaly[]>>('/anomalies', query);
+    return response.data;
+  }
+
+  // Acknowledge or dismiss an anomaly, or open it again
+  static async reviewAnomaly(id: number, status: AnomalyStatus): Promise<Anomaly> {
+    const response = await apiClient.put<ApiResponse<Anomaly>>(`/anomalies/${id}`, { status });
+    return response.data;
+  }
+}
+
+export default AnomalyService;
\ No newline at end of file
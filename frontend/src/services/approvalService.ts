@@ -0,0 +1,25 @@
+import { apiClient } from '../utils/api';
+import type { ApiResponse, PaginatedResponse } from '../utils/api';
+import type { ExpenseData } from '../types/expense';
+import type { ApprovalQueueQuery, ReviewDecision } from '../types/approval';
+
+export class ApprovalService {
+  // Get the expenses waiting for approval, oldest month first
+  static async getQueue(query?: ApprovalQueueQuery): Promise<PaginatedResponse<ExpenseData>> {
+    return apiClient.get<PaginatedResponse<ExpenseData>>('/approvals', query);
+  }
+
+  // Approve or reject a submitted expense, with an optional comment
+  static async reviewExpense(id: number, decision: ReviewDecision, comment?: string): Promise<ExpenseData> {
+    const response = await apiClient.post<ApiResponse<ExpenseData>>(`/approvals/${id}/${decision}`, { comment });
+    return response.data;
+  }
+
+  // Submit a draft or rejected expense for approval
+  static async submitExpense(id: number): Promise<ExpenseData> {
+    const response = await apiClient.post<ApiResponse<ExpenseData>>(`/expenses/${id}/submit`);
+    return response.data;
+  }
+}
+
+export default ApprovalService;
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { apiClient } from '../utils/api';
+import type { ApiResponse } from '../utils/api';
+import type { AttachmentData } from '../types/attachment';
+
+export class AttachmentService {
+  // Get the receipts and invoices of an expense, oldest first
+  static async getAttachments(expenseId: number): Promise<AttachmentData[]> {
+    const response = await apiClient.get<ApiResponse<AttachmentData[]>>(`/expenses/${expenseId}/attachments`);
+    return response.data;
+  }
+
+  // Upload a file as it is; the server checks its type and size
+  static async uploadAttachment(expenseId: number, file: File): Promise<AttachmentData> {
+    const response = await apiClient.upload<ApiResponse<AttachmentData>>(
+      `/expenses/${expenseId}/attachments`, file, file.type, { fileName: file.name }
+    );
+    return response.data;
+  }
+
+  // Fetch an attachment's file, for previews and downloads
+  static async getFile(expenseId: number, id: number): Promise<Blob> {
+    const { blob } = await apiClient.download(`/expenses/${expenseId}/attachments/${id}`);
+    return blob;
+  }
+
+  static async deleteAttachment(expenseId: number, id: number): Promise<void> {
+    await apiClient.delete(`/expenses/${expenseId}/attachments/${id}`);
+  }
+}
+
+export default AttachmentService;
\ No newline at end of file
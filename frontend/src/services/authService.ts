@@ -0,0 +1,37 @@
+import { apiClient } from '../utils/api';
+import type { ApiResponse } from '../utils/api';
+import type { AuthSession, AuthUser, LoginCredentials } from '../types/auth';
+
+export class AuthService {
+  // Log in and store the issued tokens
+  static async login(credentials: LoginCredentials): Promise<AuthUser> {
+    const response = await apiClient.post<ApiResponse<AuthSession>>('/auth/login', credentials);
+    apiClient.setSession(response.data);
+    return response.data.user;
+  }
+
+  // Revoke the refresh token and forget the session locally
+  static async logout(): Promise<void> {
+    const refreshToken = apiClient.getRefreshToken();
+    try {
+      if (refreshToken) {
+        await apiClient.post<ApiResponse<null>>('/auth/logout', { refreshToken });
+      }
+    } finally {
+      apiClient.clearSession();
+    }
+  }
+
+  // Get the profile of the signed-in user
+  static async getCurrentUser(): Promise<AuthUser> {
+    const response = await apiClient.get<ApiResponse<AuthUser>>('/auth/me');
+    return response.data;
+  }
+
+  // Whether a session token is stored
+  static hasSession(): boolean {
+    return apiClient.getAccessToken() !== null;
+  }
+}
+
+export default AuthService;
\ No newline at end of file
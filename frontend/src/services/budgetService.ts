@@ -0,0 +1,36 @@
+import { apiClient } from '../utils/api';
+import type { ApiResponse } from '../utils/api';
+import type { BudgetData, BudgetFormData, BudgetQuery, BudgetVariance, VarianceQuery } from '../types/budget';
+
+export class BudgetService {
+  // Get budgets with optional filters
+  static async getBudgets(query?: BudgetQuery): Promise<BudgetData[]> {
+    const response = await apiClient.get<ApiResponse<BudgetData[]>>('/budgets', query);
+    return response.data;
+  }
+
+  // Create a monthly budget or yearly total
+  static async createBudget(data: BudgetFormData): Promise<BudgetData> {
+    const response = await apiClient.post<ApiResponse<BudgetData>>('/budgets', data);
+    return response.data;
+  }
+
+  // Change a budget's amount
+  static async updateBudget(id: number, amount: number): Promise<BudgetData> {
+    const response = await apiClient.put<ApiResponse<BudgetData>>(`/budgets/${id}`, { amount });
+    return response.data;
+  }
+
+  // Delete a budget
+  static async deleteBudget(id: number): Promise<void> {
+    await apiClient.delete<ApiResponse<null>>(`/budgets/${id}`);
+  }
+
+  // Get budget vs actual spend per category for a month or a whole year
+  static async getVariance(query: VarianceQuery): Promise<BudgetVariance> {
+    const response = await apiClient.get<ApiResponse<BudgetVariance>>('/budgets/variance', query);
+    return response.data;
+  }
+}
+
+export default BudgetService;
\ No newline at end of file
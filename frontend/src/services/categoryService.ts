@@ -0,0 +1,31 @@
+import { apiClient } from '../utils/api';
+import type { ApiResponse } from '../utils/api';
+import type { Category, CategoryFormData, CategoryQuery, CategoryUpdateData } from '../types/category';
+
+export class CategoryService {
+  // Get the organization's categories in display order
+  static async getCategories(query?: CategoryQuery): Promise<Category[]> {
+    const response = await apiClient.get<ApiResponse<Category[]>>('/categories', query);
+    return response.data;
+  }
+
+  // Create a category
+  static async createCategory(data: CategoryFormData): Promise<Category> {
+    const response = await apiClient.post<ApiResponse<Category>>('/categories', data);
+    return response.data;
+  }
+
+  // Rename, recolour, reorder, archive or restore a category
+  static async updateCategory(id: number, data: CategoryUpdateData): Promise<Category> {
+    const response = await apiClient.put<ApiResponse<Category>>(`/categories/${id}`, data);
+    return response.data;
+  }
+
+  // Archive a category; its existing expenses are kept
+  static async archiveCategory(id: number): Promise<Category> {
+    const response = await apiClient.delete<ApiResponse<Category>>(`/categories/${id}`);
+    return response.data;
+  }
+}
+
+export default CategoryService;
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { apiClient } from '../utils/api';
+import type { ApiResponse, PaginatedResponse } from '../utils/api';
+import type { CommentData, CommentInput, CommentQuery, CommentUser, UnreadComments } from '../types/comment';
+
+export class CommentService {
+  // Get a page of an expense's thread, oldest comment first
+  static async getComments(expenseId: number, query?: CommentQuery): Promise<PaginatedResponse<CommentData>> {
+    return apiClient.get<PaginatedResponse<CommentData>>(`/expenses/${expenseId}/comments`, query);
+  }
+
+  static async addComment(expenseId: number, comment: CommentInput): Promise<CommentData> {
+    const response = await apiClient.post<ApiResponse<CommentData>>(`/expenses/${expenseId}/comments`, comment);
+    return response.data;
+  }
+
+  // Only the author of a comment can edit or delete it
+  static async updateComment(expenseId: number, id: number, comment: CommentInput): Promise<CommentData> {
+    const response = await apiClient.put<ApiResponse<CommentData>>(`/expenses/${expenseId}/comments/${id}`, comment);
+    return response.data;
+  }
+
+  static async deleteComment(expenseId: number, id: number): Promise<void> {
+    await apiClient.delete(`/expenses/${expenseId}/comments/${id}`);
+  }
+
+  // Mark an expense's thread as read up to now
+  static async markRead(expenseId: number): Promise<void> {
+    await apiClient.post(`/expenses/${expenseId}/comments/read`);
+  }
+
+  // Get the expenses with comments the signed-in user hasn't read
+  static async getUnread(): Promise<UnreadComments[]> {
+    const response = await apiClient.get<ApiResponse<UnreadComments[]>>('/comments/unread');
+    return response.data;
+  }
+
+  // Get the members of the organization who can be @mentioned
+  static async getMembers(): Promise<CommentUser[]> {
+    const response = await apiClient.get<ApiResponse<CommentUser[]>>('/comments/members');
+    return response.data;
+  }
+}
+
+export default CommentService;
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { apiClient } from '../utils/api';
+import type { ApiResponse } from '../utils/api';
+import type { CostCenter, CostCenterFormData, CostCenterQuery, CostCenterUpdateData } from '../types/costCenter';
+
+export class CostCenterService {
+  // Get the organization's cost centers by name
+  static async getCostCenters(query?: CostCenterQuery): Promise<CostCenter[]> {
+    const response = await apiClient.get<ApiResponse<CostCenter[]>>('/cost-centers', query);
+    return response.data;
+  }
+
+  // Create a cost center
+  static async createCostCenter(data: CostCenterFormData): Promise<CostCenter> {
+    const response = await apiClient.post<ApiResponse<CostCenter>>('/cost-centers', data);
+    return response.data;
+  }
+
+  // Rename, archive or restore a cost center
+  static async updateCostCenter(id: number, data: CostCenterUpdateData): Promise<CostCenter> {
+    const response = await apiClient.put<ApiResponse<CostCenter>>(`/cost-centers/${id}`, data);
+    return response.data;
+  }
+
+  // Archive a cost center; its existing expenses are kept
+  static async archiveCostCenter(id: number): Promise<CostCenter> {
+    const response = await apiClient.delete<ApiResponse<CostCenter>>(`/cost-centers/${id}`);
+    return response.data;
+  }
+}
+
+export default CostCenterService;
\ No newline at end of file
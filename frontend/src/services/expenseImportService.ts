@@ -0,0 +1,41 @@
+import { apiClient } from '../utils/api';
+import type { ApiResponse } from '../utils/api';
+import type { ImportOptions, ImportPreview, ImportResult } from '../types/expenseImport';
+
+const CSV_CONTENT_TYPE = 'text/csv';
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Files are sent as they are; anything but an .xlsx workbook is read as CSV
+const contentType = (file: File): string =>
+  file.name.toLowerCase().endsWith('.xlsx') ? XLSX_CONTENT_TYPE : CSV_CONTENT_TYPE;
+
+// Options go in the query string as columns[field]=Header&onConflict=mode
+const toParams = (options: ImportOptions): Record<string, string> => {
+  const params: Record<string, string> = { onConflict: options.onConflict };
+  Object.entries(options.columns ?? {}).forEach(([field, header]) => {
+    if (header) {
+      params[`columns[${field}]`] = header;
+    }
+  });
+  return params;
+};
+
+export class ExpenseImportService {
+  // Check a CSV or XLSX file without saving anything
+  static async previewImport(file: File, options: ImportOptions): Promise<ImportPreview> {
+    const response = await apiClient.upload<ApiResponse<ImportPreview>>(
+      '/expenses/import/preview', file, contentType(file), toParams(options)
+    );
+    return response.data;
+  }
+
+  // Save every row of the file in one transaction
+  static async importExpenses(file: File, options: ImportOptions): Promise<ImportResult> {
+    const response = await apiClient.upload<ApiResponse<ImportResult>>(
+      '/expenses/import', file, contentType(file), toParams(options)
+    );
+    return response.data;
+  }
+}
+
+export default ExpenseImportService;
\ No newline at end of file
@@ -1,10 +1,46 @@
 import { apiClient } from '../utils/api';
+import type { ApiResponse, PaginatedResponse } from '../utils/api';
 import { ExpenseData, ExpenseFormData, ExpenseQuery, TrendData } from '../types/expense';
+import type { BatchRequest, BatchResult, ExpensePage, TrashedExpense, TrendsQuery } from '../types/expense';
+import type { ExpenseHistoryEntry } from '../types/audit';
+import type { ForecastData, ForecastQuery } from '../types/forecast';
+
+// Largest page the expense list returns
+const EXPENSE_PAGE_SIZE = 100;
 
 export class ExpenseService {
-  // Get all expenses with optional filters
+  // Get one page of expenses with optional filters
   static async getExpenses(query?: ExpenseQuery): Promise<ExpenseData[]> {
-    return apiClient.get<ExpenseData[]>('/expenses', query);
+    const response = await apiClient.get<PaginatedResponse<ExpenseData>>('/expenses', query);
+    return response.data;
+  }
+
+  // Get the page of expenses after a cursor, or the first page for an empty one
+  static async getExpensePage(query: Omit<ExpenseQuery, 'offset'> & { cursor: string }): Promise<ExpensePage> {
+    const response = await apiClient.get<PaginatedResponse<ExpenseData>>('/expenses', query);
+    return {
+      expenses: response.data,
+      total: response.pagination.total,
+      nextCursor: response.pagination.nextCursor ?? null,
+    };
+  }
+
+  // Get every expense matching the filters, a page at a time
+  static async getAllExpenses(query: Omit<ExpenseQuery, 'limit' | 'offset'> = {}): Promise<ExpenseData[]> {
+    const expenses: ExpenseData[] = [];
+    let hasMore = true;
+
+    while (hasMore) {
+      const page = await apiClient.get<PaginatedResponse<ExpenseData>>('/expenses', {
+        ...query,
+        limit: EXPENSE_PAGE_SIZE,
+        offset: expenses.length,
+      });
+      expenses.push(...page.data);
+      hasMore = page.pagination.hasMore && page.data.length > 0;
+    }
+
+    return expenses;
   }
 
   // Get a specific expense by ID
@@ -22,15 +58,44 @@ export class ExpenseService {
     return apiClient.put<ExpenseData>(`/expenses/${id}`, data);
   }
 
-  // Delete an expense
+  // Move an expense to the trash
   static async deleteExpense(id: number): Promise<void> {
     return apiClient.delete<void>(`/expenses/${id}`);
   }
 
+  // Get one page of trashed expenses, most recently deleted first
+  static async getTrash(query?: { limit?: number; offset?: number }): Promise<PaginatedResponse<TrashedExpense>> {
+    return apiClient.get<PaginatedResponse<TrashedExpense>>('/expenses/trash', query);
+  }
+
+  // Move a trashed expense back into the expense list
+  static async restoreExpense(id: number): Promise<ExpenseData> {
+    const response = await apiClient.post<ApiResponse<ExpenseData>>(`/expenses/${id}/restore`);
+    return response.data;
+  }
+
+  // Create, update and delete expenses in one transaction
+  static async batchExpenses(request: BatchRequest): Promise<BatchResult> {
+    const response = await apiClient.post<ApiResponse<BatchResult>>('/expenses/batch', request);
+    return response.data;
+  }
+
+  // Get the change history of an expense, newest first
+  static async getExpenseHistory(id: number): Promise<ExpenseHistoryEntry[]> {
+    const response = await apiClient.get<ApiResponse<ExpenseHistoryEntry[]>>(`/expenses/${id}/history`);
+    return response.data;
+  }
+
   // Get trend data for charts
-  static async getTrends(query?: ExpenseQuery): Promise<TrendData[]> {
+  static async getTrends(query?: TrendsQuery): Promise<TrendData[]> {
     return apiClient.get<TrendData[]>('/expenses/trends', query);
   }
+
+  // Project total and per-category spend for the coming months
+  static async getForecast(query?: ForecastQuery): Promise<ForecastData> {
+    const response = await apiClient.get<ApiResponse<ForecastData>>('/expenses/forecast', query);
+    return response.data;
+  }
 }
 
 export default ExpenseService;
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { apiClient } from '../utils/api';
+import type { ExportFormat, ExportQuery } from '../types/export';
+
+export class ExportService {
+  // Fetch an export rendered by the server
+  static async getExport(query: ExportQuery, format: ExportFormat): Promise<{ blob: Blob; filename: string }> {
+    const { blob, filename } = await apiClient.download('/exports', { ...query, format });
+    return { blob, filename: filename ?? `${query.type}.${format}` };
+  }
+
+  // Save an export through the browser's download prompt
+  static async downloadExport(query: ExportQuery, format: ExportFormat): Promise<void> {
+    const { blob, filename } = await this.getExport(query, format);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
+
+export default ExportService;
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { apiClient } from '../utils/api';
+import type { ApiResponse } from '../utils/api';
+import type { Organization } from '../types/organization';
+
+export class OrganizationService {
+  // List the organizations the signed-in user can switch between
+  static async getOrganizations(): Promise<Organization[]> {
+    const response = await apiClient.get<ApiResponse<Organization[]>>('/organizations');
+    return response.data;
+  }
+}
+
+export default OrganizationService;
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { apiClient } from '../utils/api';
+import type { ApiResponse } from '../utils/api';
+import type { Period, PeriodLock, PeriodLockQuery } from '../types/periodLock';
+
+export class PeriodLockService {
+  // Get the organization's closed months, oldest first
+  static async getLocks(query?: PeriodLockQuery): Promise<PeriodLock[]> {
+    const response = await apiClient.get<ApiResponse<PeriodLock[]>>('/period-locks', query);
+    return response.data;
+  }
+
+  // Close a month (admins only)
+  static async closePeriod(period: Period): Promise<PeriodLock> {
+    const response = await apiClient.post<ApiResponse<PeriodLock>>('/period-locks/close', period);
+    return response.data;
+  }
+
+  // Reopen a closed month (admins only)
+  static async reopenPeriod(period: Period): Promise<void> {
+    await apiClient.post<ApiResponse<null>>('/period-locks/reopen', period);
+  }
+}
+
+export default PeriodLockService;
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { apiClient } from '../utils/api';
+import type { ApiResponse } from '../utils/api';
+import type {
+  RecurringOccurrence,
+  RecurringTemplate,
+  RecurringTemplateFormData,
+  RecurringTemplateUpdateData,
+} from '../types/recurringTemplate';
+
+export class RecurringTemplateService {
+  // Get the organization's recurring templates
+  static async getTemplates(): Promise<RecurringTemplate[]> {
+    const response = await apiClient.get<ApiResponse<RecurringTemplate[]>>('/recurring-templates');
+    return response.data;
+  }
+
+  // Create a template; expenses for periods that have already opened are created straight away
+  static async createTemplate(data: RecurringTemplateFormData): Promise<RecurringTemplate> {
+    const response = await apiClient.post<ApiResponse<RecurringTemplate>>('/recurring-templates', data);
+    return response.data;
+  }
+
+  // Change, pause or resume a template
+  static async updateTemplate(id: number, data: RecurringTemplateUpdateData): Promise<RecurringTemplate> {
+    const response = await apiClient.put<ApiResponse<RecurringTemplate>>(`/recurring-templates/${id}`, data);
+    return response.data;
+  }
+
+  // Delete a template; the expenses it created are kept
+  static async deleteTemplate(id: number): Promise<void> {
+    await apiClient.delete<ApiResponse<null>>(`/recurring-templates/${id}`);
+  }
+
+  // The next expenses a saved template will create
+  static async previewTemplate(id: number, count?: number): Promise<RecurringOccurrence[]> {
+    const response = await apiClient.get<ApiResponse<RecurringOccurrence[]>>(`/recurring-templates/${id}/preview`, { count });
+    return response.data;
+  }
+
+  // The expenses a template would create if it were saved now
+  static async previewDraft(data: RecurringTemplateFormData, count?: number): Promise<RecurringOccurrence[]> {
+    const query = count ? `?count=${count}` : '';
+    const response = await apiClient.post<ApiResponse<RecurringOccurrence[]>>(`/recurring-templates/preview${query}`, data);
+    return response.data;
+  }
+}
+
+export default RecurringTemplateService;
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { apiClient } from '../utils/api';
+import type { ApiResponse } from '../utils/api';
+import type { Tag } from '../types/tag';
+
+export class TagService {
+  // Get the tags in use in the organization by name
+  static async getTags(): Promise<Tag[]> {
+    const response = await apiClient.get<ApiResponse<Tag[]>>('/tags');
+    return response.data;
+  }
+}
+
+export default TagService;
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { AuthUser } from '../types/auth';
+
+type AuthStatus = 'unknown' | 'authenticated' | 'unauthenticated';
+
+interface AuthState {
+  user: AuthUser | null;
+  status: AuthStatus;
+}
+
+const initialState: AuthState = {
+  user: null,
+  status: 'unknown',
+};
+
+const authSlice = createSlice({
+  name: 'auth',
+  initialState,
+  reducers: {
+    setUser: (state, action: PayloadAction<AuthUser>) => {
+      state.user = action.payload;
+      state.status = 'authenticated';
+    },
+    clearUser: (state) => {
+      state.user = null;
+      state.status = 'unauthenticated';
+    },
+  },
+});
+
+export const { setUser, clearUser } = authSlice.actions;
+
+export default authSlice.reducer;
\ No newline at end of file
@@ -1,14 +1,22 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { ExpenseData, ExpenseCategory } from '../types/expense';
+import type { ExpenseData } from '../types/expense';
+
+// A confirmation shown by the toast; a delete's notice can undo it by restoring
+// the trashed expenses
+export interface ExpenseNotice {
+  message: string;
+  restoreIds: number[];
+}
 
 interface ExpenseState {
   expenses: ExpenseData[];
   loading: boolean;
   error: string | null;
+  notice: ExpenseNotice | null;
   selectedMonth: number;
   selectedYear: number;
   filters: {
-    category?: ExpenseCategory;
+    categoryId?: number;
     year?: number;
     month?: number;
   };
@@ -19,6 +27,7 @@ const initialState: ExpenseState = {
   expenses: [],
   loading: false,
   error: null,
+  notice: null,
   selectedMonth: currentDate.getMonth() + 1,
   selectedYear: currentDate.getFullYear(),
   filters: {},
@@ -66,6 +75,12 @@ const expenseSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    showNotice: (state, action: PayloadAction<ExpenseNotice>) => {
+      state.notice = action.payload;
+    },
+    clearNotice: (state) => {
+      state.notice = null;
+    },
   },
 });
 
@@ -81,6 +96,8 @@ export const {
   setFilters,
   clearFilters,
   clearError,
+  showNotice,
+  clearNotice,
 } = expenseSlice.actions;
 
 export default expenseSlice.reducer;
\ No newline at end of file
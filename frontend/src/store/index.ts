@@ -1,9 +1,13 @@
 import { configureStore } from '@reduxjs/toolkit';
 import expenseReducer from './expenseSlice';
+import authReducer from './authSlice';
+import organizationReducer from './organizationSlice';
 
 export const store = configureStore({
   reducer: {
     expenses: expenseReducer,
+    auth: authReducer,
+    organizations: organizationReducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware({
@@ -0,0 +1,46 @@
+import { createSlice } from '@reduxjs/toolkit';
+import type { PayloadAction } from '@reduxjs/toolkit';
+import type { Organization } from '../types/organization';
+import { clearUser } from './authSlice';
+
+interface OrganizationState {
+  organizations: Organization[];
+  currentOrganizationId: number | null;
+  loaded: boolean;
+}
+
+const initialState: OrganizationState = {
+  organizations: [],
+  currentOrganizationId: null,
+  loaded: false,
+};
+
+interface SetOrganizationsPayload {
+  organizations: Organization[];
+  currentOrganizationId: number | null;
+}
+
+const organizationSlice = createSlice({
+  name: 'organizations',
+  initialState,
+  reducers: {
+    setOrganizations: (state, action: PayloadAction<SetOrganizationsPayload>) => {
+      state.organizations = action.payload.organizations;
+      state.currentOrganizationId = action.payload.currentOrganizationId;
+      state.loaded = true;
+    },
+    selectOrganization: (state, action: PayloadAction<number>) => {
+      if (state.organizations.some((organization) => organization.id === action.payload)) {
+        state.currentOrganizationId = action.payload;
+      }
+    },
+  },
+  extraReducers: (builder) => {
+    // Organizations belong to the session, so forget them on logout
+    builder.addCase(clearUser, () => initialState);
+  },
+});
+
+export const { setOrganizations, selectOrganization } = organizationSlice.actions;
+
+export default organizationSlice.reducer;
\ No newline at end of file
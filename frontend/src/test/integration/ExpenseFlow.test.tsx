@@ -4,7 +4,6 @@ import userEvent from '@testing-library/user-event';
 import { render } from '../utils';
 import App from '../../App';
 import { mockApiResponses, mockFetch } from '../mocks';
-import { ExpenseCategory } from '../../types/expense';
 
 // Mock fetch globally
 global.fetch = mockFetch(mockApiResponses.getExpenses);
@@ -26,7 +25,7 @@ describe('Expense Management Flow Integration', () => {
 
     // Fill out expense form
     const categorySelect = screen.getByLabelText(/category/i);
-    await user.selectOptions(categorySelect, ExpenseCategory.SOFTWARE_TOOLS);
+    await user.selectOptions(categorySelect, screen.getByRole('option', { name: 'Software & Tools' }));
 
     const amountInput = screen.getByLabelText(/amount/i);
     await user.type(amountInput, '1500.50');
@@ -134,7 +133,7 @@ describe('Expense Management Flow Integration', () => {
 
     // Fill and submit form
     const categorySelect = screen.getByLabelText(/category/i);
-    await user.selectOptions(categorySelect, ExpenseCategory.SOFTWARE_TOOLS);
+    await user.selectOptions(categorySelect, screen.getByRole('option', { name: 'Software & Tools' }));
 
     const submitButton = screen.getByRole('button', { name: /add expense/i });
     await user.click(submitButton);
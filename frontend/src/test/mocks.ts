@@ -1,42 +1,176 @@
-import { ExpenseCategory } from '../types/expense';
+import type { AuthUser } from '../types/auth';
+import type { Organization } from '../types/organization';
+import type { ExpenseHistoryEntry } from '../types/audit';
+import type { Category } from '../types/category';
+import type { CostCenter } from '../types/costCenter';
+
+// Signed-in user used by the test providers
+export const mockAuthUser: AuthUser = {
+  id: 1,
+  email: 'editor@example.com',
+  name: 'Test Editor',
+  role: 'EDITOR',
+  permissions: ['expenses:read', 'expenses:write'],
+  lastLoginAt: '2024-03-15T09:00:00Z',
+  createdAt: '2024-01-01T00:00:00Z',
+};
+
+// Categories of the current organization, in display order
+export const mockCategories: Category[] = [
+  { id: 1, parentId: null, name: 'Salaries', color: '#8884d8', displayOrder: 0, archived: false, archivedAt: null, createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' },
+  { id: 2, parentId: null, name: 'Software & Tools', color: '#82ca9d', displayOrder: 1, archived: false, archivedAt: null, createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' },
+  { id: 3, parentId: null, name: 'Infrastructure & Hosting', color: '#ffc658', displayOrder: 2, archived: false, archivedAt: null, createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' },
+];
+
+// Cost centers of the current organization, by name
+export const mockCostCenters: CostCenter[] = [
+  { id: 1, name: 'Data', archived: false, archivedAt: null, createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' },
+  { id: 2, name: 'Platform', archived: false, archivedAt: null, createdAt: '2024-01-01T00:00:00Z', updatedAt: '2024-01-01T00:00:00Z' },
+];
+
+// Organizations the signed-in user belongs to
+export const mockOrganizations: Organization[] = [
+  { id: 1, name: 'Acme Corp', slug: 'acme', reportingCurrency: 'USD', createdAt: '2024-01-01T00:00:00Z' },
+  { id: 2, name: 'Globex', slug: 'globex', reportingCurrency: 'USD', createdAt: '2024-01-01T00:00:00Z' },
+];
 
 export const mockExpenseData = {
   id: 1,
-  category: ExpenseCategory.SOFTWARE_TOOLS,
+  categoryId: 2,
+  category: 'Software & Tools',
+  parentCategoryId: null,
+  parentCategory: null,
+  costCenterId: null,
+  costCenter: null,
   amount: 1500.50,
+  currency: 'USD',
+  convertedAmount: 1500.50,
+  reportingCurrency: 'USD',
   month: 3,
   year: 2024,
-  createdAt: new Date('2024-03-15T10:00:00Z'),
-  updatedAt: new Date('2024-03-15T10:00:00Z'),
+  description: null,
+  vendor: null,
+  invoiceNumber: null,
+  invoiceDate: null,
+  status: 'APPROVED' as const,
+  notes: null,
+  tags: [],
+  attachmentCount: 0,
+  commentCount: 0,
+  createdAt: '2024-03-15T10:00:00Z',
+  updatedAt: '2024-03-15T10:00:00Z',
 };
 
 export const mockExpenseList = [
   {
     id: 1,
-    category: ExpenseCategory.SALARIES,
+    categoryId: 1,
+    category: 'Salaries',
+    parentCategoryId: null,
+    parentCategory: null,
+    costCenterId: null,
+    costCenter: null,
     amount: 50000,
+    currency: 'USD',
+    convertedAmount: 50000,
+    reportingCurrency: 'USD',
     month: 1,
     year: 2024,
-    createdAt: new Date('2024-01-15T10:00:00Z'),
-    updatedAt: new Date('2024-01-15T10:00:00Z'),
+    description: null,
+    vendor: null,
+    invoiceNumber: null,
+    invoiceDate: null,
+    status: 'APPROVED' as const,
+    notes: null,
+  tags: [],
+  attachmentCount: 0,
+  commentCount: 0,
+    createdAt: '2024-01-15T10:00:00Z',
+    updatedAt: '2024-01-15T10:00:00Z',
   },
   {
     id: 2,
-    category: ExpenseCategory.SOFTWARE_TOOLS,
+    categoryId: 2,
+    category: 'Software & Tools',
+    parentCategoryId: null,
+    parentCategory: null,
+    costCenterId: null,
+    costCenter: null,
     amount: 2500,
+    currency: 'USD',
+    convertedAmount: 2500,
+    reportingCurrency: 'USD',
     month: 1,
     year: 2024,
-    createdAt: new Date('2024-01-15T10:00:00Z'),
-    updatedAt: new Date('2024-01-15T10:00:00Z'),
+    description: null,
+    vendor: null,
+    invoiceNumber: null,
+    invoiceDate: null,
+    status: 'APPROVED' as const,
+    notes: null,
+  tags: [],
+  attachmentCount: 0,
+  commentCount: 0,
+    createdAt: '2024-01-15T10:00:00Z',
+    updatedAt: '2024-01-15T10:00:00Z',
   },
   {
     id: 3,
-    category: ExpenseCategory.INFRASTRUCTURE_HOSTING,
+    categoryId: 3,
+    category: 'Infrastructure & Hosting',
+    parentCategoryId: null,
+    parentCategory: null,
+    costCenterId: null,
+    costCenter: null,
     amount: 1200,
+    currency: 'USD',
+    convertedAmount: 1200,
+    reportingCurrency: 'USD',
     month: 1,
     year: 2024,
-    createdAt: new Date('2024-01-15T10:00:00Z'),
-    updatedAt: new Date('2024-01-15T10:00:00Z'),
+    description: null,
+    vendor: null,
+    invoiceNumber: null,
+    invoiceDate: null,
+    status: 'APPROVED' as const,
+    notes: null,
+  tags: [],
+  attachmentCount: 0,
+  commentCount: 0,
+    createdAt: '2024-01-15T10:00:00Z',
+    updatedAt: '2024-01-15T10:00:00Z',
+  },
+];
+
+// Change history of mockExpenseData, newest first
+export const mockExpenseHistory: ExpenseHistoryEntry[] = [
+  {
+    id: 2,
+    costId: 1,
+    action: 'UPDATE',
+    categoryId: 2,
+    category: 'Software & Tools',
+    month: 3,
+    year: 2024,
+    oldAmount: 1750,
+    newAmount: 1500.50,
+    user: { id: 1, name: 'Test Editor', email: 'editor@example.com' },
+    ipAddress: '203.0.113.9',
+    createdAt: '2024-03-16T10:00:00Z',
+  },
+  {
+    id: 1,
+    costId: 1,
+    action: 'CREATE',
+    categoryId: 2,
+    category: 'Software & Tools',
+    month: 3,
+    year: 2024,
+    oldAmount: null,
+    newAmount: 1750,
+    user: { id: 1, name: 'Test Editor', email: 'editor@example.com' },
+    ipAddress: '203.0.113.9',
+    createdAt: '2024-03-15T10:00:00Z',
   },
 ];
 
@@ -46,9 +180,9 @@ export const mockTrendData = [
     year: 2024,
     totalAmount: 53700,
     categoryBreakdown: [
-      { category: ExpenseCategory.SALARIES, amount: 50000 },
-      { category: ExpenseCategory.SOFTWARE_TOOLS, amount: 2500 },
-      { category: ExpenseCategory.INFRASTRUCTURE_HOSTING, amount: 1200 },
+      { categoryId: 1, category: 'Salaries', amount: 50000 },
+      { categoryId: 2, category: 'Software & Tools', amount: 2500 },
+      { categoryId: 3, category: 'Infrastructure & Hosting', amount: 1200 },
     ],
   },
   {
@@ -56,9 +190,9 @@ export const mockTrendData = [
     year: 2024,
     totalAmount: 54300,
     categoryBreakdown: [
-      { category: ExpenseCategory.SALARIES, amount: 51000 },
-      { category: ExpenseCategory.SOFTWARE_TOOLS, amount: 2300 },
-      { category: ExpenseCategory.INFRASTRUCTURE_HOSTING, amount: 1000 },
+      { categoryId: 1, category: 'Salaries', amount: 51000 },
+      { categoryId: 2, category: 'Software & Tools', amount: 2300 },
+      { categoryId: 3, category: 'Infrastructure & Hosting', amount: 1000 },
     ],
   },
 ];
@@ -5,6 +5,9 @@ import { Provider } from 'react-redux';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { configureStore } from '@reduxjs/toolkit';
 import expenseSlice from '../store/expenseSlice';
+import authSlice from '../store/authSlice';
+import organizationSlice from '../store/organizationSlice';
+import { mockAuthUser, mockOrganizations } from './mocks';
 
 // Create a custom render function that includes providers
 const AllTheProviders = ({ children }: { children: React.ReactNode }) => {
@@ -19,6 +22,12 @@ const AllTheProviders = ({ children }: { children: React.ReactNode }) => {
   const store = configureStore({
     reducer: {
       expenses: expenseSlice,
+      auth: authSlice,
+      organizations: organizationSlice,
+    },
+    preloadedState: {
+      auth: { user: mockAuthUser, status: 'authenticated' as const },
+      organizations: { organizations: mockOrganizations, currentOrganizationId: 1, loaded: true },
     },
   });
 
@@ -0,0 +1,44 @@
+import type { ExpenseCategory } from './expense';
+
+// Review state of an anomaly; dismissed anomalies are no longer flagged
+export const AnomalyStatus = {
+  OPEN: 'OPEN',
+  ACKNOWLEDGED: 'ACKNOWLEDGED',
+  DISMISSED: 'DISMISSED',
+} as const;
+
+export type AnomalyStatus = typeof AnomalyStatus[keyof typeof AnomalyStatus];
+
+// Set on expenses whose category's spend that month is far outside its history
+export interface AnomalyFlag {
+  id: number;
+  status: AnomalyStatus;
+  amount: number; // The category's spend that month, in the reporting currency
+  expected: number; // Median of the months before it
+  zScore: number | null;
+}
+
+// A month in which a category's spend is far outside its own history
+export interface Anomaly extends AnomalyFlag {
+  categoryId: number;
+  category: ExpenseCategory;
+  parentCategoryId: number | null;
+  parentCategory: ExpenseCategory | null;
+  month: number;
+  year: number;
+  lowerBound: number;
+  upperBound: number;
+  currency: string;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AnomalyQuery {
+  status?: AnomalyStatus;
+  categoryId?: number;
+  year?: number;
+  limit?: number;
+  offset?: number;
+}
\ No newline at end of file
@@ -0,0 +1,12 @@
+// Whether an approver approves or rejects a submitted expense
+export const ReviewDecision = {
+  APPROVE: 'approve',
+  REJECT: 'reject',
+} as const;
+
+export type ReviewDecision = typeof ReviewDecision[keyof typeof ReviewDecision];
+
+export interface ApprovalQueueQuery {
+  limit?: number;
+  offset?: number;
+}
\ No newline at end of file
@@ -0,0 +1,13 @@
+// Receipt or invoice attached to an expense
+export interface AttachmentData {
+  id: number;
+  costId: number;
+  fileName: string;
+  contentType: string;
+  size: number; // In bytes
+  uploadedBy: string | null;
+  createdAt: string;
+}
+
+// File types the server accepts as attachments
+export const ATTACHMENT_CONTENT_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/gif', 'image/webp'];
\ No newline at end of file
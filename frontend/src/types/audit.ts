@@ -0,0 +1,23 @@
+import type { ExpenseCategory } from './expense';
+
+export type CostAuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE';
+
+// One recorded change to an expense
+export interface ExpenseHistoryEntry {
+  id: number;
+  costId: number;
+  action: CostAuditAction;
+  categoryId: number;
+  category: ExpenseCategory;
+  month: number;
+  year: number;
+  oldAmount: number | null;
+  newAmount: number | null;
+  user: {
+    id: number;
+    name: string;
+    email: string;
+  } | null;
+  ipAddress: string | null;
+  createdAt: string;
+}
\ No newline at end of file
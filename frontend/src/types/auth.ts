@@ -0,0 +1,37 @@
+export type UserRole = 'VIEWER' | 'EDITOR' | 'ADMIN';
+
+// Actions a role can be granted (mirrors the backend permission names)
+export const Permission = {
+  EXPENSES_READ: 'expenses:read',
+  EXPENSES_WRITE: 'expenses:write',
+  EXPENSES_APPROVE: 'expenses:approve',
+  ADMIN: 'admin',
+} as const;
+
+export type Permission = typeof Permission[keyof typeof Permission];
+
+// Authenticated user profile
+export interface AuthUser {
+  id: number;
+  email: string;
+  name: string;
+  role: UserRole;
+  permissions: Permission[];
+  lastLoginAt: string | null;
+  createdAt: string;
+}
+
+// Credentials submitted by the login form
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
+
+// Token pair issued on login and refresh
+export interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+  user: AuthUser;
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import type { ExpenseCategory } from './expense';
+
+// Planned spend for a category; a null month means the yearly total
+export interface BudgetData {
+  id: number;
+  categoryId: number;
+  category: ExpenseCategory;
+  amount: number;
+  month: number | null;
+  year: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Form Data for creating budgets; leave out the month for a yearly total
+export interface BudgetFormData {
+  categoryId: number;
+  amount: number;
+  month?: number;
+  year: number;
+}
+
+export interface BudgetQuery {
+  year?: number;
+  month?: number;
+  categoryId?: number;
+  yearly?: boolean;
+}
+
+export interface VarianceQuery {
+  year: number;
+  month?: number;
+}
+
+// Budget vs actual for one category; a positive variance means over budget
+export interface CategoryVariance {
+  categoryId: number;
+  category: ExpenseCategory;
+  // Set for sub-categories, whose actual spend is also part of their parent's
+  parentCategoryId: number | null;
+  color: string;
+  budget: number;
+  actual: number;
+  variance: number;
+  variancePercent: number | null;
+}
+
+export interface BudgetVariance {
+  year: number;
+  month: number | null;
+  categories: CategoryVariance[];
+  totals: Omit<CategoryVariance, 'categoryId' | 'category' | 'parentCategoryId' | 'color'>;
+}
\ No newline at end of file
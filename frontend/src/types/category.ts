@@ -0,0 +1,34 @@
+// Expense category defined by the current organization. Archived categories
+// keep their history but can no longer be chosen for new entries.
+// Sub-categories name a top-level parent; the tree is two levels deep.
+export interface Category {
+  id: number;
+  parentId: number | null;
+  name: string;
+  color: string;
+  displayOrder: number;
+  archived: boolean;
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Form Data for creating categories
+export interface CategoryFormData {
+  name: string;
+  color: string;
+  displayOrder?: number;
+  parentId?: number;
+}
+
+export interface CategoryUpdateData {
+  name?: string;
+  color?: string;
+  displayOrder?: number;
+  parentId?: number | null;
+  archived?: boolean;
+}
+
+export interface CategoryQuery {
+  includeArchived?: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+// A user as shown in a comment thread
+export interface CommentUser {
+  id: number;
+  name: string;
+}
+
+// Comment in the discussion thread of an expense
+export interface CommentData {
+  id: number;
+  costId: number;
+  body: string;
+  author: CommentUser | null; // Null once the author's account is gone
+  mentions: CommentUser[];
+  createdAt: string;
+  editedAt: string | null;
+}
+
+// Text of a new or edited comment with the IDs of the @mentioned users
+export interface CommentInput {
+  body: string;
+  mentions: number[];
+}
+
+// Paging of a thread, oldest comment first
+export interface CommentQuery {
+  limit?: number;
+  offset?: number;
+}
+
+// Comments on an expense that the signed-in user hasn't read yet
+export interface UnreadComments {
+  costId: number;
+  unreadCount: number;
+  mentioned: boolean; // Whether any of them mentions the user
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+// Optional second dimension on expenses, such as a team or department
+export interface CostCenter {
+  id: number;
+  name: string;
+  archived: boolean;
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Form Data for creating cost centers
+export interface CostCenterFormData {
+  name: string;
+}
+
+export interface CostCenterUpdateData {
+  name?: string;
+  archived?: boolean;
+}
+
+export interface CostCenterQuery {
+  includeArchived?: boolean;
+}
\ No newline at end of file
@@ -1,37 +1,78 @@
-// Expense Category Enum
-export enum ExpenseCategory {
-  SALARIES = 'Salaries',
-  SOFTWARE_TOOLS = 'Software & Tools',
-  INFRASTRUCTURE_HOSTING = 'Infrastructure & Hosting',
-  HARDWARE_EQUIPMENT = 'Hardware & Equipment',
-  SECURITY_COMPLIANCE = 'Security & Compliance',
-  OPERATIONAL_ADMINISTRATIVE = 'Operational & Administrative',
-  CONTINUOUS_LEARNING_RD = 'Continuous Learning & R&D'
-}
-
-// Core Expense Model
+import type { AnomalyFlag } from './anomaly';
+
+// Categories are defined per organization, so expenses carry the category's
+// ID for requests and its name for display
+export type ExpenseCategory = string;
+
+// Review state of an expense. Drafts and expenses above the organization's
+// approval threshold are left out of trends until approved.
+export const ExpenseStatus = {
+  DRAFT: 'DRAFT',
+  SUBMITTED: 'SUBMITTED',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+} as const;
+
+export type ExpenseStatus = typeof ExpenseStatus[keyof typeof ExpenseStatus];
+
+// Core Expense Model. Each expense is a line item; a category can have
+// several per month.
 export interface ExpenseData {
   id: number;
+  categoryId: number;
   category: ExpenseCategory;
-  amount: number;
+  // Set when the category is a sub-category
+  parentCategoryId: number | null;
+  parentCategory: ExpenseCategory | null;
+  costCenterId: number | null;
+  costCenter: string | null;
+  amount: number; // As billed, in currency
+  currency: string;
+  // Amount in the organization's reporting currency; null when no exchange rate is in effect
+  convertedAmount: number | null;
+  reportingCurrency: string;
   month: number;
   year: number;
+  description: string | null;
+  vendor: string | null;
+  invoiceNumber: string | null;
+  invoiceDate: string | null; // YYYY-MM-DD
+  notes: string | null;
+  tags: string[]; // Tag names, alphabetically
+  status: ExpenseStatus;
+  attachmentCount: number; // Receipts and invoices attached to the expense
+  commentCount: number; // Comments in the expense's discussion thread
   createdAt: string;
   updatedAt: string;
+  // Set when the category's spend that month is far outside its history
+  anomaly?: AnomalyFlag | null;
 }
 
 // Form Data for creating/updating expenses
 export interface ExpenseFormData {
-  category: ExpenseCategory;
+  categoryId: number;
+  costCenterId?: number;
   amount: number;
+  currency?: string; // Defaults to the organization's reporting currency
   month: number;
   year: number;
+  description?: string;
+  vendor?: string;
+  invoiceNumber?: string;
+  invoiceDate?: string;
+  notes?: string;
+  tags?: string[]; // Replaces the expense's tags on update
+  draft?: boolean; // Save a new expense as a draft instead of submitting it
 }
 
 // Chart Data Models
+// Amounts of top-level categories include their sub-categories, which are
+// listed separately for drilling down
 export interface CategoryAmount {
+  categoryId: number;
   category: ExpenseCategory;
   amount: number;
+  subcategories?: CategoryAmount[];
 }
 
 export interface TrendData {
@@ -49,10 +90,85 @@ export interface ApiError {
 }
 
 // Query Parameters for API requests
+export type ExpenseSortField = 'date' | 'amount' | 'category';
+
 export interface ExpenseQuery {
   year?: number;
   month?: number;
-  category?: ExpenseCategory;
+  // Inclusive month range; a year without a month covers the whole year
+  startYear?: number;
+  startMonth?: number;
+  endYear?: number;
+  endMonth?: number;
+  // Also matches the category's sub-categories
+  categoryId?: number;
+  categoryIds?: number[];
+  costCenterId?: number;
+  tagIds?: number[]; // Expenses with any of the tags
+  // Full-text search over notes and tags: words, "quoted phrases", OR, and -word to exclude
+  q?: string;
+  status?: ExpenseStatus;
+  // Amount as billed
+  minAmount?: number;
+  maxAmount?: number;
+  sortBy?: ExpenseSortField;
+  sortOrder?: 'asc' | 'desc';
   limit?: number;
   offset?: number;
+  // Keyset paging instead of offset paging: empty for the first page, then the
+  // nextCursor of the previous page. Sorts by date only.
+  cursor?: string;
+}
+
+export interface TrendsQuery extends ExpenseQuery {
+  includeUnapproved?: boolean; // Also count expenses that are not approved yet
+}
+
+// One operation of a batch of expense changes
+export type BatchOperation =
+  | { action: 'create'; data: ExpenseFormData }
+  | { action: 'update'; id: number; data: { amount: number; currency?: string } }
+  | { action: 'delete'; id: number };
+
+export interface BatchRequest {
+  operations: BatchOperation[];
+  // Roll back every operation when one fails (the default)
+  atomic?: boolean;
+}
+
+export const BatchOperationStatus = {
+  SUCCEEDED: 'succeeded',
+  FAILED: 'failed',
+  ROLLED_BACK: 'rolled_back',
+  SKIPPED: 'skipped',
+} as const;
+
+export type BatchOperationStatus = typeof BatchOperationStatus[keyof typeof BatchOperationStatus];
+
+export interface BatchOperationResult {
+  index: number;
+  action: BatchOperation['action'];
+  status: BatchOperationStatus;
+  id: number | null;
+  expense: ExpenseData | null;
+  error: { code: string; message: string } | null;
+}
+
+export interface BatchResult {
+  committed: boolean; // False when an atomic batch was rolled back
+  succeeded: number;
+  failed: number;
+  results: BatchOperationResult[];
+}
+
+// One page of the expense list in keyset paging
+export interface ExpensePage {
+  expenses: ExpenseData[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// An expense in the trash, which can be restored until it is purged
+export interface TrashedExpense extends ExpenseData {
+  deletedAt: string;
 }
\ No newline at end of file
@@ -0,0 +1,59 @@
+import type { ExpenseFormData } from './expense';
+
+// Fields a spreadsheet column can be mapped to. Categories and cost centers are
+// given by name.
+export type ImportField =
+  | 'category'
+  | 'costCenter'
+  | 'amount'
+  | 'currency'
+  | 'month'
+  | 'year'
+  | 'description'
+  | 'vendor'
+  | 'invoiceNumber'
+  | 'invoiceDate';
+
+// What to do with a row matching an existing expense
+export const ImportConflictMode = {
+  SKIP: 'skip', // Keep the existing expense and leave the row out
+  OVERWRITE: 'overwrite', // Replace the existing expense with the row
+  ADD: 'add', // Add the row as another line item
+} as const;
+
+export type ImportConflictMode = typeof ImportConflictMode[keyof typeof ImportConflictMode];
+
+// Header of the column mapped to each field
+export type ImportColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportOptions {
+  columns?: ImportColumnMapping;
+  onConflict: ImportConflictMode;
+}
+
+export interface ImportRowPreview {
+  row: number; // Row number in the file, counting the header as row 1
+  expense: ExpenseFormData | null; // Null when the row has errors
+  errors: string[];
+  conflictingExpenseIds: number[];
+  duplicateOfRow: number | null;
+}
+
+export interface ImportPreview {
+  headers: string[];
+  mapping: Record<ImportField, string | null>;
+  rows: ImportRowPreview[];
+  summary: {
+    total: number;
+    valid: number;
+    invalid: number;
+    conflicts: number;
+    duplicates: number;
+  };
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+import type { ExpenseQuery } from './expense';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'pdf';
+
+// Expenses are exported one line item per row, with the filters of the expense list
+export interface ExpenseExportQuery extends Omit<ExpenseQuery, 'limit' | 'offset'> {
+  type: 'expenses';
+}
+
+// Trends are exported one category per period, with the filters of the trends endpoint
+export interface TrendsExportQuery {
+  type: 'trends';
+  startYear: number;
+  endYear: number;
+  startMonth?: number;
+  endMonth?: number;
+  categoryId?: number;
+  costCenterId?: number;
+  groupBy?: 'month' | 'year' | 'category';
+}
+
+export type ExportQuery = ExpenseExportQuery | TrendsExportQuery;
\ No newline at end of file
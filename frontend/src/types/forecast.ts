@@ -0,0 +1,51 @@
+import type { ExpenseCategory } from './expense';
+
+// Ways of projecting monthly spend forward
+export const ForecastMethod = {
+  LINEAR: 'linear', // Least-squares trend line
+  MOVING_AVERAGE: 'moving_average', // Average of the last three months
+  SEASONAL_NAIVE: 'seasonal_naive', // Same month a year earlier
+} as const;
+
+export type ForecastMethod = typeof ForecastMethod[keyof typeof ForecastMethod];
+
+export interface ForecastQuery {
+  months?: number; // Months to project, starting with the current one
+  method?: ForecastMethod;
+  historyMonths?: number; // Complete months before the current one to learn from
+  categoryId?: number;
+  costCenterId?: number;
+}
+
+// A projected month with its 95% prediction interval
+export interface ForecastPoint {
+  month: number;
+  year: number;
+  amount: number;
+  lower: number;
+  upper: number;
+}
+
+// Actual and projected spend of the total or of one top-level category
+export interface ForecastSeries {
+  categoryId: number | null; // null for the total
+  category: ExpenseCategory | null;
+  actual: Array<{ month: number; year: number; amount: number }>;
+  forecast: ForecastPoint[];
+}
+
+// Error of each method when it projected the last months of the history
+export interface ForecastBacktest {
+  method: ForecastMethod;
+  mape: number | null; // Mean absolute percentage error; null without enough history
+  months: number;
+}
+
+export interface ForecastData {
+  method: ForecastMethod;
+  confidenceLevel: number;
+  currency: string;
+  total: ForecastSeries;
+  categories: ForecastSeries[];
+  backtest: ForecastBacktest[];
+}
\ No newline at end of file
@@ -0,0 +1,8 @@
+// Organization (tenant) the signed-in user belongs to
+export interface Organization {
+  id: number;
+  name: string;
+  slug: string;
+  reportingCurrency: string; // Currency reports and charts are converted into
+  createdAt: string;
+}
\ No newline at end of file
@@ -0,0 +1,16 @@
+// A month of a year
+export interface Period {
+  month: number;
+  year: number;
+}
+
+// A closed month, whose expenses can't change until an admin reopens it
+export interface PeriodLock extends Period {
+  id: number;
+  lockedBy: string | null;
+  createdAt: string;
+}
+
+export interface PeriodLockQuery {
+  year?: number;
+}
\ No newline at end of file
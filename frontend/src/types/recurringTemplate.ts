@@ -0,0 +1,76 @@
+import type { ExpenseCategory } from './expense';
+
+// How often a recurring template creates an expense
+export const RecurrenceFrequency = {
+  MONTHLY: 'MONTHLY',
+  QUARTERLY: 'QUARTERLY',
+  YEARLY: 'YEARLY',
+} as const;
+
+export type RecurrenceFrequency = typeof RecurrenceFrequency[keyof typeof RecurrenceFrequency];
+
+// An expense created for every period from the start month, until the end month if there is one
+export interface RecurringTemplate {
+  id: number;
+  categoryId: number;
+  category: ExpenseCategory;
+  costCenterId: number | null;
+  costCenter: string | null;
+  amount: number; // Before escalation
+  currency: string;
+  description: string | null;
+  vendor: string | null;
+  frequency: RecurrenceFrequency;
+  startMonth: number;
+  startYear: number;
+  endMonth: number | null;
+  endYear: number | null;
+  escalationPercent: number | null;
+  // Next period an expense will be created for; null once the template has ended
+  nextMonth: number | null;
+  nextYear: number | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Form Data for creating templates; leave out the end month for an open-ended one
+export interface RecurringTemplateFormData {
+  categoryId: number;
+  costCenterId?: number;
+  amount: number;
+  currency?: string;
+  description?: string;
+  vendor?: string;
+  frequency: RecurrenceFrequency;
+  startMonth: number;
+  startYear: number;
+  endMonth?: number;
+  endYear?: number;
+  escalationPercent?: number; // Yearly increase, compounding
+}
+
+// null clears an optional value
+export interface RecurringTemplateUpdateData {
+  categoryId?: number;
+  costCenterId?: number | null;
+  amount?: number;
+  currency?: string;
+  description?: string | null;
+  vendor?: string | null;
+  frequency?: RecurrenceFrequency;
+  startMonth?: number;
+  startYear?: number;
+  endMonth?: number | null;
+  endYear?: number | null;
+  escalationPercent?: number | null;
+  isActive?: boolean;
+}
+
+// An expense a template will create
+export interface RecurringOccurrence {
+  month: number;
+  year: number;
+  amount: number; // Including escalation
+  currency: string;
+}
\ No newline at end of file
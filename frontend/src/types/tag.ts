@@ -0,0 +1,6 @@
+// Label on expenses, created the first time an expense is tagged with it
+export interface Tag {
+  id: number;
+  name: string;
+  costCount: number; // Expenses outside the trash with the tag
+}
\ No newline at end of file
@@ -1,14 +1,38 @@
-import axios, { AxiosError, AxiosInstance } from 'axios';
+import axios, { AxiosError, AxiosInstance, type InternalAxiosRequestConfig } from 'axios';
 import { ApiError } from '../types/expense';
+import type { AuthSession } from '../types/auth';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001';
 
+// localStorage keys for the current session
+const ACCESS_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+// Organization the user last worked in, sent with every request
+const ORGANIZATION_KEY = 'organizationId';
+
 export interface ApiResponse<T = any> {
   data: T;
   message?: string;
   timestamp: string;
 }
 
+export interface PaginatedResponse<T> {
+  data: T[];
+  pagination: {
+    total: number;
+    limit: number;
+    offset?: number;
+    hasMore: boolean;
+    // Lists with keyset paging give the cursor of the next page instead of an offset
+    nextCursor?: string | null;
+  };
+  timestamp: string;
+}
+
+// Query string parameters of a request; undefined ones are left out and lists
+// repeat the parameter
+export type QueryParams = Record<string, string | number | boolean | ReadonlyArray<string | number> | undefined>;
+
 export interface ErrorResponse {
   error: {
     message: string;
@@ -20,6 +44,8 @@ export interface ErrorResponse {
 
 class ApiClient {
   private client: AxiosInstance;
+  private refreshPromise: Promise<string> | null = null;
+  private unauthorizedHandler: (() => void) | null = null;
 
   constructor(baseURL: string = API_BASE_URL) {
     this.client = axios.create({
@@ -37,11 +63,14 @@ class ApiClient {
     // Request interceptor
     this.client.interceptors.request.use(
       (config) => {
-        // Add auth token here if needed in the future
-        // const token = localStorage.getItem('authToken');
-        // if (token) {
-        //   config.headers.Authorization = `Bearer ${token}`;
-        // }
+        const token = this.getAccessToken();
+        if (token) {
+          config.headers.Authorization = `Bearer ${token}`;
+        }
+        const organizationId = this.getOrganizationId();
+        if (organizationId !== null) {
+          config.headers['X-Organization-Id'] = String(organizationId);
+        }
         return config;
       },
       (error) => {
@@ -54,7 +83,27 @@ class ApiClient {
       (response) => {
         return response;
       },
-      (error: AxiosError) => {
+      async (error: AxiosError) => {
+        const originalRequest = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+
+        // Access token expired: refresh once and replay the request
+        if (
+          error.response?.status === 401 &&
+          originalRequest &&
+          !originalRequest._retried &&
+          !originalRequest.url?.startsWith('/auth/')
+        ) {
+          originalRequest._retried = true;
+          try {
+            const token = await this.refreshAccessToken();
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return this.client(originalRequest);
+          } catch {
+            this.clearSession();
+            this.unauthorizedHandler?.();
+          }
+        }
+
         // Transform axios errors to our ApiError format
         const apiError: ApiError = {
           message: 'An unexpected error occurred',
@@ -63,7 +112,15 @@ class ApiClient {
 
         if (error.response) {
           // Server responded with error status
-          const responseData = error.response.data as any;
+          let responseData = error.response.data as any;
+          // File downloads receive their error response as a Blob too
+          if (responseData instanceof Blob) {
+            try {
+              responseData = JSON.parse(await responseData.text());
+            } catch {
+              responseData = null;
+            }
+          }
           apiError.message = responseData?.error?.message || responseData?.message || error.message;
           apiError.code = responseData?.error?.code || `HTTP_${error.response.status}`;
           apiError.details = responseData?.error?.details;
@@ -82,6 +139,59 @@ class ApiClient {
     );
   }
 
+  // Session token handling
+  getAccessToken(): string | null {
+    return localStorage.getItem(ACCESS_TOKEN_KEY);
+  }
+
+  setSession(session: Pick<AuthSession, 'accessToken' | 'refreshToken'>): void {
+    localStorage.setItem(ACCESS_TOKEN_KEY, session.accessToken);
+    localStorage.setItem(REFRESH_TOKEN_KEY, session.refreshToken);
+  }
+
+  clearSession(): void {
+    localStorage.removeItem(ACCESS_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }
+
+  getRefreshToken(): string | null {
+    return localStorage.getItem(REFRESH_TOKEN_KEY);
+  }
+
+  // Organization selection; without one the server uses the user's first organization
+  getOrganizationId(): number | null {
+    const stored = localStorage.getItem(ORGANIZATION_KEY);
+    return stored ? Number(stored) : null;
+  }
+
+  setOrganizationId(organizationId: number): void {
+    localStorage.setItem(ORGANIZATION_KEY, String(organizationId));
+  }
+
+  // Called when the session can no longer be refreshed
+  onUnauthorized(handler: () => void): void {
+    this.unauthorizedHandler = handler;
+  }
+
+  // Concurrent 401s share one refresh request, since each refresh token is single-use
+  private refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      const refreshToken = this.getRefreshToken();
+      this.refreshPromise = (refreshToken
+        ? this.client
+            .post<ApiResponse<AuthSession>>('/auth/refresh', { refreshToken })
+            .then((response) => {
+              this.setSession(response.data.data);
+              return response.data.data.accessToken;
+            })
+        : Promise.reject(new Error('No refresh token'))
+      ).finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
   // GET request
   async get<T>(endpoint: string, params?: any): Promise<T> {
     const response = await this.client.get(endpoint, { params });
@@ -106,6 +216,27 @@ class ApiClient {
     return response.data;
   }
 
+  // POST a file as the raw request body; large files get longer than the default timeout
+  async upload<T>(endpoint: string, file: Blob, contentType: string, params?: QueryParams): Promise<T> {
+    const response = await this.client.post(endpoint, file, {
+      params,
+      headers: { 'Content-Type': contentType },
+      timeout: 120000,
+    });
+    return response.data;
+  }
+
+  // GET a file, named by the server's Content-Disposition header when it gives one
+  async download(endpoint: string, params?: QueryParams): Promise<{ blob: Blob; filename: string | null }> {
+    const response = await this.client.get<Blob>(endpoint, {
+      params,
+      responseType: 'blob',
+      timeout: 120000,
+    });
+    const disposition = String(response.headers['content-disposition'] ?? '');
+    return { blob: response.data, filename: disposition.match(/filename="([^"]+)"/)?.[1] ?? null };
+  }
+
   // Health check
   async healthCheck(): Promise<{ status: string; timestamp: string; service: string }> {
     return this.get('/health');
@@ -0,0 +1,9 @@
+import type { ExpenseData } from '../types/expense';
+
+// Format an amount in an ISO 4217 currency, e.g. $1,500.00 or €1,500.00
+export const formatMoney = (amount: number, currency: string): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+// An expense's amount in the organization's reporting currency. Amounts with no
+// exchange rate in effect can't be added to the rest, so they count as zero.
+export const reportingAmount = (expense: ExpenseData): number => expense.convertedAmount ?? 0;
\ No newline at end of file
@@ -84,7 +84,7 @@ timeout /t 30 /nobreak >nul
 
 REM Run database migrations
 echo [INFO] Running database migrations...
-docker-compose run --rm backend npx prisma migrate deploy
+docker-compose run --rm backend sh -c "npx prisma migrate deploy && npx prisma db execute --schema prisma/schema.prisma --file prisma/search.sql"
 if errorlevel 1 (
     echo [ERROR] Database migration failed
     exit /b 1
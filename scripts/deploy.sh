@@ -127,7 +127,7 @@ deploy_application() {
     
     # Run database migrations
     log "Running database migrations..."
-    docker-compose run --rm backend npx prisma migrate deploy
+    docker-compose run --rm backend sh -c "npx prisma migrate deploy && npx prisma db execute --schema prisma/schema.prisma --file prisma/search.sql"
     
     # Start all services
     log "Starting all services..."